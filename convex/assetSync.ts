@@ -6,7 +6,114 @@
  */
 
 import { v } from "convex/values";
-import { query } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { query, type QueryCtx } from "./_generated/server";
+import { canAccessAsset, requireProjectAccess } from "./workspaces";
+
+/**
+ * Loads the canvas elements of a project's current state and of each of
+ * its version snapshots.
+ */
+async function loadProjectCanvases(ctx: QueryCtx, projectId: Id<"projects">) {
+  const projectState = await ctx.db
+    .query("projectStates")
+    .withIndex("by_projectId", (q) => q.eq("projectId", projectId))
+    .first();
+
+  const versions = await ctx.db
+    .query("projectVersions")
+    .withIndex("by_projectId_and_createdAt", (q) =>
+      q.eq("projectId", projectId),
+    )
+    .collect();
+
+  return {
+    elements: projectState?.canvasState.elements ?? [],
+    snapshots: versions.map((version) => version.canvasState.elements),
+  };
+}
+
+/**
+ * Finds all of a user's projects whose canvas or version snapshots
+ * reference an asset.
+ *
+ * @param ctx - Query or mutation context
+ * @param userId - Owner's Clerk user ID
+ * @param assetId - ID of the asset to look for
+ * @returns Projects referencing the asset with per-project element counts
+ *   and the number of snapshots that reference it
+ */
+export async function findProjectsUsingAsset(
+  ctx: QueryCtx,
+  userId: string,
+  assetId: Id<"assets">,
+) {
+  // Find all user's projects
+  const projects = await ctx.db
+    .query("projects")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .collect();
+
+  // This query is likely rare (only on asset deletion), so fetching the
+  // state and snapshots of each project is acceptable
+  const projectsUsingAsset = [];
+
+  for (const project of projects) {
+    const { elements, snapshots } = await loadProjectCanvases(ctx, project._id);
+
+    const elementCount = elements.filter(
+      (element) => element.assetId === assetId,
+    ).length;
+    const versionCount = snapshots.filter((snapshot) =>
+      snapshot.some((element) => element.assetId === assetId),
+    ).length;
+
+    if (elementCount > 0 || versionCount > 0) {
+      projectsUsingAsset.push({
+        projectId: project._id,
+        projectName: project.name,
+        elementCount,
+        versionCount,
+      });
+    }
+  }
+
+  return projectsUsingAsset;
+}
+
+/**
+ * Collects the IDs of every asset referenced by a user's projects, in their
+ * current canvas or in any version snapshot.
+ *
+ * Project deletion uses it to decide which assets have become orphaned.
+ *
+ * @param ctx - Query or mutation context
+ * @param userId - Owner's Clerk user ID
+ * @returns Referenced asset IDs
+ */
+export async function collectUsedAssetIds(
+  ctx: QueryCtx,
+  userId: string,
+): Promise<Set<string>> {
+  const projects = await ctx.db
+    .query("projects")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .collect();
+
+  const usedAssetIds = new Set<string>();
+
+  for (const project of projects) {
+    const { elements, snapshots } = await loadProjectCanvases(ctx, project._id);
+
+    for (const element of [elements, ...snapshots].flat()) {
+      if (element.assetId) {
+        usedAssetIds.add(element.assetId);
+      }
+    }
+  }
+
+  return usedAssetIds;
+}
 
 /**
  * Validates element asset references for a project.
@@ -30,16 +137,13 @@ export const validateProjectAssets = query({
 
     const userId = identity.subject;
 
-    // Get project
-    const project = await ctx.db.get(args.projectId);
-    if (!project) {
-      throw new Error("Project not found");
-    }
-
-    // Verify ownership
-    if (project.userId !== userId) {
-      throw new Error("Unauthorized");
-    }
+    // Get project, verifying the user owns it or belongs to its workspace
+    const { project } = await requireProjectAccess(
+      ctx,
+      args.projectId,
+      userId,
+      "viewer",
+    );
 
     // Fetch project state
     const projectState = await ctx.db
@@ -47,21 +151,28 @@ export const validateProjectAssets = query({
       .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
       .first();
 
-    // Fallback to legacy canvasState if not found in new table (during migration)
-    const canvasState =
-      projectState?.canvasState ?? (project as any).canvasState;
+    const canvasState = projectState?.canvasState;
 
     if (!canvasState) {
       throw new Error("Project state not found");
     }
 
-    // Load all user's assets for reference checking
+    // Load all user's and workspace assets for reference checking
     const userAssets = await ctx.db
       .query("assets")
       .withIndex("by_userId", (q) => q.eq("userId", userId))
       .collect();
+    const workspaceId = project.workspaceId;
+    const workspaceAssets = workspaceId
+      ? await ctx.db
+          .query("assets")
+          .withIndex("by_workspaceId", (q) => q.eq("workspaceId", workspaceId))
+          .collect()
+      : [];
 
-    const assetMap = new Map(userAssets.map((a) => [a._id, a]));
+    const assetMap = new Map(
+      [...userAssets, ...workspaceAssets].map((a) => [a._id, a]),
+    );
 
     // Validate each element
     const validElements: string[] = [];
@@ -152,16 +263,8 @@ export const getProjectAssets = query({
 
     const userId = identity.subject;
 
-    // Get project
-    const project = await ctx.db.get(args.projectId);
-    if (!project) {
-      throw new Error("Project not found");
-    }
-
-    // Verify ownership
-    if (project.userId !== userId) {
-      throw new Error("Unauthorized");
-    }
+    // Verify the user owns the project or belongs to its workspace
+    await requireProjectAccess(ctx, args.projectId, userId, "viewer");
 
     // Fetch project state
     const projectState = await ctx.db
@@ -169,9 +272,7 @@ export const getProjectAssets = query({
       .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
       .first();
 
-    // Fallback to legacy canvasState if not found in new table (during migration)
-    const canvasState =
-      projectState?.canvasState ?? (project as any).canvasState;
+    const canvasState = projectState?.canvasState;
 
     if (!canvasState) {
       throw new Error("Project state not found");
@@ -230,50 +331,11 @@ export const getProjectsUsingAsset = query({
       throw new Error("Asset not found");
     }
 
-    // Verify ownership
-    if (asset.userId !== userId) {
+    // Verify ownership or workspace membership
+    if (!(await canAccessAsset(ctx, asset, userId))) {
       throw new Error("Unauthorized");
     }
 
-    // Find all user's projects
-    const projects = await ctx.db
-      .query("projects")
-      .withIndex("by_userId", (q) => q.eq("userId", userId))
-      .collect();
-
-    // Filter to projects using this asset
-    // This is less efficient now as we have to fetch state for each project
-    // But this query is likely rare (only on asset deletion)
-    const projectsUsingAsset = [];
-
-    for (const project of projects) {
-      // Fetch project state
-      const projectState = await ctx.db
-        .query("projectStates")
-        .withIndex("by_projectId", (q) => q.eq("projectId", project._id))
-        .first();
-
-      // Fallback to legacy canvasState if not found in new table (during migration)
-      const canvasState =
-        projectState?.canvasState ?? (project as any).canvasState;
-
-      if (!canvasState) continue;
-
-      const hasAsset = canvasState.elements.some(
-        (element: any) => element.assetId === args.assetId,
-      );
-
-      if (hasAsset) {
-        projectsUsingAsset.push({
-          projectId: project._id,
-          projectName: project.name,
-          elementCount: canvasState.elements.filter(
-            (e: any) => e.assetId === args.assetId,
-          ).length,
-        });
-      }
-    }
-
-    return projectsUsingAsset;
+    return await findProjectsUsingAsset(ctx, userId, args.assetId);
   },
 });
@@ -6,18 +6,41 @@
  */
 
 import { v } from "convex/values";
-import { internalMutation, mutation, query } from "./_generated/server";
+import {
+  internalMutation,
+  mutation,
+  query,
+  type QueryCtx,
+} from "./_generated/server";
+import {
+  generationProvenanceValidator,
+  imageAnalysisValidator,
+  moodVectorValidator,
+} from "./schema";
+import {
+  canAccessAsset,
+  getActiveWorkspaceId,
+  getMembership,
+  type WorkspaceRole,
+} from "./workspaces";
 
 /**
  * Creates an asset record after file upload to storage.
  *
+ * The asset is shared with the user's active workspace when they can edit
+ * it. Storage is always counted against the uploading user.
+ *
  * @param cameraAngle - Optional camera angle directive for AI-generated camera angle variations
  * @param characterVariation - Optional character description for character variations
+ * @param customPreset - Optional preset name for custom preset variations
  * @param directorName - Optional director name for AI-generated director-style variations
  * @param emotion - Optional emotion label for AI-generated emotion variations
  * @param lightingScenario - Optional lighting scenario for AI-generated lighting variations
  * @param metadata - Optional metadata (dimensions, generation params, etc.)
  * @param mimeType - MIME type of the file
+ * @param moodVector - Optional target emotion intensities for mood variations
+ * @param parentAssetIds - Optional asset IDs of the images this asset was generated from
+ * @param provenance - Optional generation settings (model, prompt, seed, sources) for regeneration
  * @param sizeBytes - Size of the file in bytes
  * @param storageId - Convex storage ID of the uploaded file (full-size)
  * @param storylineLabel - Optional time progression label for storyline variations
@@ -30,13 +53,17 @@ export const uploadAsset = mutation({
   args: {
     cameraAngle: v.optional(v.string()),
     characterVariation: v.optional(v.string()),
+    customPreset: v.optional(v.string()),
     directorName: v.optional(v.string()),
     duration: v.optional(v.number()),
     emotion: v.optional(v.string()),
     height: v.optional(v.number()),
     lightingScenario: v.optional(v.string()),
     mimeType: v.string(),
+    moodVector: v.optional(moodVectorValidator),
     originalUrl: v.optional(v.string()),
+    parentAssetIds: v.optional(v.array(v.string())),
+    provenance: v.optional(generationProvenanceValidator),
     sizeBytes: v.number(),
     storageId: v.string(),
     storylineLabel: v.optional(v.string()),
@@ -99,22 +126,59 @@ export const uploadAsset = mutation({
       throw new Error("Character variation too long (max 500 characters)");
     }
 
+    if (args.customPreset && args.customPreset.length > 100) {
+      throw new Error("Custom preset name too long (max 100 characters)");
+    }
+
     if (args.variationType && args.variationType.length > 50) {
       throw new Error("Variation type too long (max 50 characters)");
     }
 
+    if (
+      args.moodVector &&
+      Object.values(args.moodVector).some((value) => value < 0 || value > 100)
+    ) {
+      throw new Error("Invalid mood vector (axes range from 0 to 100)");
+    }
+
+    if (args.parentAssetIds && args.parentAssetIds.length > 50) {
+      throw new Error("Too many parent assets (max 50)");
+    }
+
+    if (args.provenance && args.provenance.prompt.length > 10000) {
+      throw new Error("Provenance prompt too long (max 10000 characters)");
+    }
+
+    if (
+      args.provenance &&
+      args.provenance.sourceImageUrls.length +
+        (args.provenance.sourceAssetIds?.length ?? 0) >
+        50
+    ) {
+      throw new Error("Too many provenance sources (max 50)");
+    }
+
+    if (args.provenance?.sourceImageUrls.some((url) => url.length > 4096)) {
+      throw new Error("Provenance source URL too long (max 4096 characters)");
+    }
+
     // Create asset record
     const assetId = await ctx.db.insert("assets", {
       cameraAngle: args.cameraAngle,
       characterVariation: args.characterVariation,
       createdAt: Date.now(),
+      customPreset: args.customPreset,
       directorName: args.directorName,
       duration: args.duration,
       emotion: args.emotion,
       height: args.height,
       lightingScenario: args.lightingScenario,
       mimeType: args.mimeType,
+      moodVector: args.moodVector,
       originalUrl: args.originalUrl,
+      parentAssetIds: args.parentAssetIds,
+      provenance: args.provenance,
+      provider: args.provenance?.provider,
       sizeBytes: args.sizeBytes,
       storageId: args.storageId,
       storylineLabel: args.storylineLabel,
@@ -124,6 +188,7 @@ export const uploadAsset = mutation({
       userId,
       variationType: args.variationType,
       width: args.width,
+      workspaceId: await getActiveWorkspaceId(ctx, userId),
     });
 
     // Update user's storage quota
@@ -209,7 +274,8 @@ export const deleteAsset = mutation({
 });
 
 /**
- * Gets a single asset by ID with ownership verification.
+ * Gets a single asset by ID, verifying the user owns it or belongs to the
+ * workspace it is shared with.
  *
  * @param assetId - ID of the asset to retrieve
  * @returns Asset record
@@ -226,15 +292,9 @@ export const getAsset = query({
 
     const userId = identity.subject;
 
-    // Use index-based query to prevent IDOR timing attacks
-    // Only fetch assets owned by the authenticated user
-    const asset = await ctx.db
-      .query("assets")
-      .withIndex("by_userId", (q) => q.eq("userId", userId))
-      .filter((q) => q.eq(q.field("_id"), args.assetId))
-      .first();
+    const asset = await ctx.db.get(args.assetId);
 
-    if (!asset) {
+    if (!asset || !(await canAccessAsset(ctx, asset, userId))) {
       // Unified error prevents user enumeration
       throw new Error("Asset not found or access denied");
     }
@@ -244,16 +304,19 @@ export const getAsset = query({
 });
 
 /**
- * Lists all assets for the authenticated user with pagination.
+ * Lists all assets for the authenticated user with pagination, or the
+ * assets shared with one of their workspaces.
  *
  * @param limit - Maximum number of assets to return (default: 20, max: 100)
  * @param type - Optional filter by asset type
+ * @param workspaceId - Optional workspace whose shared assets to list
  * @returns Array of asset records
  */
 export const listAssets = query({
   args: {
     limit: v.optional(v.number()),
     type: v.optional(v.union(v.literal("image"), v.literal("video"))),
+    workspaceId: v.optional(v.id("workspaces")),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -267,6 +330,26 @@ export const listAssets = query({
     const DEFAULT_LIMIT = 20;
     const limit = Math.min(args.limit ?? DEFAULT_LIMIT, MAX_LIMIT);
 
+    const workspaceId = args.workspaceId;
+    if (workspaceId) {
+      if (!(await getMembership(ctx, workspaceId, userId))) {
+        throw new Error("Workspace not found or access denied");
+      }
+
+      const workspaceQuery = ctx.db
+        .query("assets")
+        .withIndex("by_workspaceId", (q) => q.eq("workspaceId", workspaceId));
+      const assetType = args.type;
+
+      return await (
+        assetType
+          ? workspaceQuery.filter((q) => q.eq(q.field("type"), assetType))
+          : workspaceQuery
+      )
+        .order("desc")
+        .take(limit);
+    }
+
     // Query with optional type filter
     let query;
 
@@ -289,6 +372,134 @@ export const listAssets = query({
   },
 });
 
+/**
+ * Lists the assets stored under a storage ID that the user can access with
+ * at least the given workspace role.
+ */
+async function getAccessibleAssetsByStorageId(
+  ctx: QueryCtx,
+  storageId: string,
+  userId: string,
+  minimumRole: WorkspaceRole = "viewer",
+) {
+  const assets = await ctx.db
+    .query("assets")
+    .withIndex("by_storageId", (q) => q.eq("storageId", storageId))
+    .collect();
+
+  const accessible = await Promise.all(
+    assets.map((asset) => canAccessAsset(ctx, asset, userId, minimumRole)),
+  );
+  return assets.filter((_, index) => accessible[index]);
+}
+
+/**
+ * Gets the cached analysis of an image, so variation runs on the same image
+ * skip analyzing it again.
+ *
+ * @param modelVersion - Analysis model version the cached result must match
+ * @param storageId - Convex storage ID of the image
+ * @returns Cached analysis, or null when missing or from another model version
+ */
+export const getAnalysis = query({
+  args: {
+    modelVersion: v.string(),
+    storageId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const assets = await getAccessibleAssetsByStorageId(
+      ctx,
+      args.storageId,
+      identity.subject,
+    );
+
+    const cached = assets.find(
+      (asset) => asset.analysis?.modelVersion === args.modelVersion,
+    );
+    return cached?.analysis ?? null;
+  },
+});
+
+/**
+ * Stores the analysis of an image on its asset records.
+ *
+ * Images that are not saved as assets are skipped, as are workspace assets
+ * the user can only view, since teammates reuse the cached analysis.
+ *
+ * @param analysis - FIBO structured prompt and style analysis of the image
+ * @param storageId - Convex storage ID of the image
+ * @returns Number of asset records updated
+ */
+export const saveAnalysis = mutation({
+  args: {
+    analysis: imageAnalysisValidator,
+    storageId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const assets = await getAccessibleAssetsByStorageId(
+      ctx,
+      args.storageId,
+      identity.subject,
+      "editor",
+    );
+
+    for (const asset of assets) {
+      await ctx.db.patch(asset._id, { analysis: args.analysis });
+    }
+
+    return assets.length;
+  },
+});
+
+/**
+ * Clears the cached analysis of an asset, so the next variation run
+ * analyzes the image again. Requires editor access to workspace assets.
+ *
+ * @param assetId - ID of the asset to re-analyze
+ */
+export const clearAnalysis = mutation({
+  args: {
+    assetId: v.id("assets"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+
+    const asset = await ctx.db.get(args.assetId);
+
+    if (!asset || !(await canAccessAsset(ctx, asset, userId, "editor"))) {
+      // Unified error prevents user enumeration
+      throw new Error("Asset not found or access denied");
+    }
+
+    // Other records of the same file would otherwise keep serving the result
+    const assets = await getAccessibleAssetsByStorageId(
+      ctx,
+      asset.storageId,
+      userId,
+      "editor",
+    );
+
+    for (const cachedAsset of assets) {
+      await ctx.db.patch(cachedAsset._id, { analysis: undefined });
+    }
+  },
+});
+
 /**
  * Internal mutation to atomically increment storage quota
  *
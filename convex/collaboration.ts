@@ -0,0 +1,313 @@
+/**
+ * Convex real-time collaboration functions.
+ *
+ * Tracks who has a project open (presence, cursors and selections), serves
+ * the live canvas to collaborators, and merges saves per element so
+ * concurrent edits to different elements do not overwrite each other.
+ * Elements selected by one user are locked for everyone else.
+ */
+
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { mutation, query, type QueryCtx } from "./_generated/server";
+import { requireProjectAccess } from "./workspaces";
+
+/**
+ * Presence records without a heartbeat for this long are treated as gone.
+ */
+export const PRESENCE_TIMEOUT_MS = 30_000;
+
+/**
+ * Maximum number of selected element IDs stored per user.
+ */
+const MAX_SELECTED_IDS = 1000;
+
+/**
+ * A persisted canvas element.
+ */
+type CanvasElement = Doc<"projectStates">["canvasState"]["elements"][number];
+
+/**
+ * Gets presence records of users who currently have a project open.
+ */
+async function getActivePresence(
+  ctx: QueryCtx,
+  projectId: Id<"projects">,
+  now: number,
+) {
+  const presence = await ctx.db
+    .query("projectPresence")
+    .withIndex("by_projectId", (q) => q.eq("projectId", projectId))
+    .collect();
+
+  return presence.filter(
+    (record) => now - record.lastSeenAt < PRESENCE_TIMEOUT_MS,
+  );
+}
+
+/**
+ * Gets the element IDs selected by other users with the project open.
+ *
+ * @param userId - User whose own selection does not count as a lock
+ */
+export async function getLockedElementIds(
+  ctx: QueryCtx,
+  projectId: Id<"projects">,
+  userId: string,
+) {
+  const presence = await getActivePresence(ctx, projectId, Date.now());
+
+  return new Set(
+    presence
+      .filter((record) => record.userId !== userId)
+      .flatMap((record) => record.selectedIds),
+  );
+}
+
+/**
+ * Applies one user's element changes to the saved elements.
+ *
+ * Only the elements named in the operations are touched, so changes other
+ * users saved in the meantime are kept. Changes to elements locked by
+ * another user are skipped.
+ *
+ * @param saved - Elements currently saved
+ * @param incoming - The saving user's full element list
+ * @param operations - IDs of elements the user changed or removed
+ * @param lockedIds - Elements selected by other users
+ * @returns Merged elements
+ */
+export function mergeCanvasElements(
+  saved: CanvasElement[],
+  incoming: CanvasElement[],
+  operations: { removedIds: string[]; upsertedIds: string[] },
+  lockedIds: Set<string>,
+) {
+  const incomingById = new Map(
+    incoming.map((element) => [element.id, element]),
+  );
+  const removedIds = new Set(operations.removedIds);
+  const upsertedIds = new Set(operations.upsertedIds);
+
+  const merged: CanvasElement[] = [];
+  for (const element of saved) {
+    if (lockedIds.has(element.id)) {
+      merged.push(element);
+      upsertedIds.delete(element.id);
+      continue;
+    }
+
+    if (removedIds.has(element.id)) {
+      continue;
+    }
+
+    const update = upsertedIds.has(element.id)
+      ? incomingById.get(element.id)
+      : undefined;
+    merged.push(update ?? element);
+    upsertedIds.delete(element.id);
+  }
+
+  // Remaining upserts are elements the saved state does not have yet
+  for (const id of upsertedIds) {
+    const element = incomingById.get(id);
+    if (element) {
+      merged.push(element);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Gets the saved elements of a project for live updates.
+ *
+ * Lighter than getProject: no thumbnails or metadata, so collaborators can
+ * subscribe to it cheaply.
+ *
+ * @param projectId - Project ID
+ * @returns Elements with the revision and author of the last save, or null
+ * if the project has no saved state yet
+ */
+export const getLiveCanvas = query({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    await requireProjectAccess(ctx, args.projectId, identity.subject, "viewer");
+
+    const projectState = await ctx.db
+      .query("projectStates")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .first();
+
+    if (!projectState) {
+      return null;
+    }
+
+    return {
+      elements: projectState.canvasState.elements,
+      revision: projectState.revision ?? 0,
+      updatedBy: projectState.updatedBy,
+    };
+  },
+});
+
+/**
+ * Lists the other users who have a project open.
+ *
+ * @param projectId - Project ID
+ * @returns Collaborators with their cursor and selection, sorted by name
+ */
+export const listPresence = query({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+
+    await requireProjectAccess(ctx, args.projectId, userId, "viewer");
+
+    const presence = await getActivePresence(ctx, args.projectId, Date.now());
+
+    return presence
+      .filter((record) => record.userId !== userId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((record) => ({
+        cursor: record.cursor,
+        imageUrl: record.imageUrl,
+        name: record.name,
+        selectedIds: record.selectedIds,
+        userId: record.userId,
+      }));
+  },
+});
+
+/**
+ * Records that the authenticated user has a project open, with their
+ * cursor and selection. Called as a heartbeat and whenever either changes.
+ *
+ * @param projectId - Project ID
+ * @param cursor - Pointer position in canvas coordinates, null when off the
+ * canvas (optional, unchanged when omitted)
+ * @param selectedIds - Selected element IDs (optional, unchanged when omitted)
+ */
+export const updatePresence = mutation({
+  args: {
+    cursor: v.optional(
+      v.union(
+        v.null(),
+        v.object({
+          x: v.number(),
+          y: v.number(),
+        }),
+      ),
+    ),
+    projectId: v.id("projects"),
+    selectedIds: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+
+    const { role } = await requireProjectAccess(
+      ctx,
+      args.projectId,
+      userId,
+      "viewer",
+    );
+
+    const now = Date.now();
+
+    // Viewers cannot edit, so their selection does not lock anything
+    const selectedIds =
+      args.selectedIds === undefined
+        ? undefined
+        : role === "viewer"
+          ? []
+          : args.selectedIds.slice(0, MAX_SELECTED_IDS);
+
+    const existing = await ctx.db
+      .query("projectPresence")
+      .withIndex("by_projectId_and_userId", (q) =>
+        q.eq("projectId", args.projectId).eq("userId", userId),
+      )
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        lastSeenAt: now,
+        ...(args.cursor !== undefined && {
+          cursor: args.cursor ?? undefined,
+        }),
+        ...(selectedIds !== undefined && { selectedIds }),
+      });
+      return;
+    }
+
+    await ctx.db.insert("projectPresence", {
+      cursor: args.cursor ?? undefined,
+      imageUrl: identity.pictureUrl,
+      lastSeenAt: now,
+      name: identity.name ?? identity.email ?? "Teammate",
+      projectId: args.projectId,
+      selectedIds: selectedIds ?? [],
+      userId,
+    });
+
+    // Joining is rare compared to heartbeats, so clean up stale records here
+    const presence = await ctx.db
+      .query("projectPresence")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .collect();
+
+    for (const record of presence) {
+      if (now - record.lastSeenAt >= PRESENCE_TIMEOUT_MS) {
+        await ctx.db.delete(record._id);
+      }
+    }
+  },
+});
+
+/**
+ * Removes the authenticated user's presence from a project, releasing
+ * their selection locks.
+ *
+ * @param projectId - Project ID
+ */
+export const leaveProject = mutation({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const existing = await ctx.db
+      .query("projectPresence")
+      .withIndex("by_projectId_and_userId", (q) =>
+        q.eq("projectId", args.projectId).eq("userId", identity.subject),
+      )
+      .first();
+
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+  },
+});
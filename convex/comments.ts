@@ -0,0 +1,443 @@
+/**
+ * Convex review comment functions.
+ *
+ * Threaded comments pinned to a canvas position or to an image/video on a
+ * project, with resolve/unresolve and @mentions of project members. Anyone
+ * who can view a project can comment on it, so reviewers with the viewer
+ * role can take part in review rounds.
+ */
+
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import { getProjectRole, requireProjectAccess } from "./workspaces";
+
+/**
+ * Maximum comment length in characters.
+ */
+const MAX_BODY_LENGTH = 2000;
+
+/**
+ * Maximum number of users mentioned in one comment.
+ */
+const MAX_MENTIONS = 20;
+
+/**
+ * Validates comment text.
+ *
+ * @returns The trimmed text
+ */
+function validateBody(body: string) {
+  const trimmed = body.trim();
+
+  if (!trimmed) {
+    throw new Error("Comment cannot be empty");
+  }
+
+  if (trimmed.length > MAX_BODY_LENGTH) {
+    throw new Error(
+      `Comment cannot be longer than ${MAX_BODY_LENGTH} characters`,
+    );
+  }
+
+  return trimmed;
+}
+
+/**
+ * Gets the users who can access a project: the creator, plus the members of
+ * its workspace.
+ */
+async function getProjectMembers(ctx: QueryCtx, project: Doc<"projects">) {
+  const userIds = project.workspaceId
+    ? (
+        await ctx.db
+          .query("workspaceMembers")
+          .withIndex("by_workspaceId", (q) =>
+            q.eq("workspaceId", project.workspaceId!),
+          )
+          .collect()
+      ).map((member) => member.userId)
+    : [project.userId];
+
+  return Promise.all(
+    userIds.map(async (userId) => {
+      const user = await ctx.db
+        .query("users")
+        .withIndex("by_userId", (q) => q.eq("userId", userId))
+        .first();
+
+      return { email: user?.email ?? null, userId };
+    }),
+  );
+}
+
+/**
+ * Keeps only mentions of users who can access the project.
+ */
+async function filterMentions(
+  ctx: QueryCtx,
+  project: Doc<"projects">,
+  mentions: string[],
+) {
+  const memberIds = new Set(
+    (await getProjectMembers(ctx, project)).map((member) => member.userId),
+  );
+
+  return [...new Set(mentions)]
+    .filter((userId) => memberIds.has(userId))
+    .slice(0, MAX_MENTIONS);
+}
+
+/**
+ * Adjusts a project's count of open comment threads.
+ */
+async function adjustUnresolvedCount(
+  ctx: MutationCtx,
+  projectId: Id<"projects">,
+  delta: number,
+) {
+  const project = await ctx.db.get(projectId);
+  if (!project) return;
+
+  await ctx.db.patch(projectId, {
+    unresolvedCommentCount: Math.max(
+      0,
+      (project.unresolvedCommentCount ?? 0) + delta,
+    ),
+  });
+}
+
+/**
+ * Fetches a comment and the caller's role on its project.
+ *
+ * @throws Error if the comment is missing or its project is inaccessible
+ */
+async function requireCommentAccess(
+  ctx: QueryCtx,
+  commentId: Id<"projectComments">,
+  userId: string,
+) {
+  const comment = await ctx.db.get(commentId);
+  const project = comment ? await ctx.db.get(comment.projectId) : null;
+  const role = project ? await getProjectRole(ctx, project, userId) : null;
+
+  if (!comment || !role) {
+    // Unified error prevents user enumeration
+    throw new Error("Comment not found or access denied");
+  }
+
+  return { comment, role };
+}
+
+/**
+ * Lists a project's comments, oldest first.
+ *
+ * @param projectId - Project ID
+ * @param elementId - Only threads pinned to this element, with their replies (optional)
+ * @returns Roots and replies; replies reference their root via parentId
+ */
+export const listComments = query({
+  args: {
+    elementId: v.optional(v.string()),
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    await requireProjectAccess(ctx, args.projectId, identity.subject, "viewer");
+
+    if (args.elementId === undefined) {
+      const comments = await ctx.db
+        .query("projectComments")
+        .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+        .collect();
+
+      return comments.sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    const roots = await ctx.db
+      .query("projectComments")
+      .withIndex("by_projectId_and_elementId", (q) =>
+        q.eq("projectId", args.projectId).eq("elementId", args.elementId),
+      )
+      .collect();
+
+    const replies = await Promise.all(
+      roots.map((root) =>
+        ctx.db
+          .query("projectComments")
+          .withIndex("by_parentId", (q) => q.eq("parentId", root._id))
+          .collect(),
+      ),
+    );
+
+    return [...roots, ...replies.flat()].sort(
+      (a, b) => a.createdAt - b.createdAt,
+    );
+  },
+});
+
+/**
+ * Lists the users who can be mentioned in a project's comments.
+ *
+ * @param projectId - Project ID
+ * @returns Users with access to the project, with their email for display
+ */
+export const listMentionableUsers = query({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const { project } = await requireProjectAccess(
+      ctx,
+      args.projectId,
+      identity.subject,
+      "viewer",
+    );
+
+    const members = await getProjectMembers(ctx, project);
+
+    return members
+      .filter((member): member is { email: string; userId: string } =>
+        Boolean(member.email),
+      )
+      .sort((a, b) => a.email.localeCompare(b.email));
+  },
+});
+
+/**
+ * Starts a comment thread or replies to one.
+ *
+ * @param projectId - Project ID
+ * @param body - Comment text
+ * @param mentions - Clerk user IDs mentioned in the body; users without
+ * access to the project are dropped
+ * @param parentId - Thread to reply to (optional, starts a thread when omitted)
+ * @param position - Pin position, required for new threads: relative to the
+ * element when elementId is set, otherwise in canvas coordinates
+ * @param elementId - Canvas element to pin the thread to (optional)
+ * @returns ID of the new comment
+ */
+export const createComment = mutation({
+  args: {
+    body: v.string(),
+    elementId: v.optional(v.string()),
+    mentions: v.array(v.string()),
+    parentId: v.optional(v.id("projectComments")),
+    position: v.optional(
+      v.object({
+        x: v.number(),
+        y: v.number(),
+      }),
+    ),
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+
+    const { project } = await requireProjectAccess(
+      ctx,
+      args.projectId,
+      userId,
+      "viewer",
+    );
+
+    const body = validateBody(args.body);
+    const mentions = await filterMentions(ctx, project, args.mentions);
+
+    const author = {
+      authorId: userId,
+      authorImageUrl: identity.pictureUrl,
+      authorName: identity.name ?? identity.email ?? "Teammate",
+    };
+
+    if (args.parentId) {
+      const parent = await ctx.db.get(args.parentId);
+      if (!parent || parent.projectId !== args.projectId) {
+        throw new Error("Comment thread not found");
+      }
+
+      // Replies always attach to the root, keeping threads one level deep
+      return await ctx.db.insert("projectComments", {
+        ...author,
+        body,
+        createdAt: Date.now(),
+        mentions,
+        parentId: parent.parentId ?? parent._id,
+        projectId: args.projectId,
+      });
+    }
+
+    if (!args.position) {
+      throw new Error("New comment threads need a pin position");
+    }
+
+    const commentId = await ctx.db.insert("projectComments", {
+      ...author,
+      body,
+      createdAt: Date.now(),
+      elementId: args.elementId,
+      mentions,
+      position: args.position,
+      projectId: args.projectId,
+    });
+
+    await adjustUnresolvedCount(ctx, args.projectId, 1);
+
+    return commentId;
+  },
+});
+
+/**
+ * Edits the text of the authenticated user's own comment.
+ *
+ * @param commentId - Comment ID
+ * @param body - New comment text
+ * @param mentions - Clerk user IDs mentioned in the new text
+ */
+export const updateComment = mutation({
+  args: {
+    body: v.string(),
+    commentId: v.id("projectComments"),
+    mentions: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const { comment } = await requireCommentAccess(
+      ctx,
+      args.commentId,
+      identity.subject,
+    );
+
+    if (comment.authorId !== identity.subject) {
+      throw new Error("Only the author can edit a comment");
+    }
+
+    const project = await ctx.db.get(comment.projectId);
+    if (!project) {
+      throw new Error("Comment not found or access denied");
+    }
+
+    await ctx.db.patch(args.commentId, {
+      body: validateBody(args.body),
+      editedAt: Date.now(),
+      mentions: await filterMentions(ctx, project, args.mentions),
+    });
+  },
+});
+
+/**
+ * Resolves or reopens a comment thread.
+ *
+ * Allowed for the thread's author and for project editors.
+ *
+ * @param commentId - Root comment of the thread
+ * @param resolved - Whether the thread is resolved
+ */
+export const setCommentResolved = mutation({
+  args: {
+    commentId: v.id("projectComments"),
+    resolved: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+    const { comment, role } = await requireCommentAccess(
+      ctx,
+      args.commentId,
+      userId,
+    );
+
+    if (comment.parentId) {
+      throw new Error("Only comment threads can be resolved");
+    }
+
+    if (comment.authorId !== userId && role === "viewer") {
+      throw new Error("Requires the editor role");
+    }
+
+    const isResolved = comment.resolvedAt !== undefined;
+    if (isResolved === args.resolved) {
+      return;
+    }
+
+    await ctx.db.patch(args.commentId, {
+      resolvedAt: args.resolved ? Date.now() : undefined,
+      resolvedBy: args.resolved ? userId : undefined,
+    });
+
+    await adjustUnresolvedCount(ctx, comment.projectId, args.resolved ? -1 : 1);
+  },
+});
+
+/**
+ * Deletes a comment. Deleting the root of a thread deletes its replies.
+ *
+ * Allowed for the comment's author and for the project owner.
+ *
+ * @param commentId - Comment ID
+ */
+export const deleteComment = mutation({
+  args: {
+    commentId: v.id("projectComments"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const { comment, role } = await requireCommentAccess(
+      ctx,
+      args.commentId,
+      identity.subject,
+    );
+
+    if (comment.authorId !== identity.subject && role !== "owner") {
+      throw new Error("Only the author can delete a comment");
+    }
+
+    if (!comment.parentId) {
+      const replies = await ctx.db
+        .query("projectComments")
+        .withIndex("by_parentId", (q) => q.eq("parentId", comment._id))
+        .collect();
+
+      for (const reply of replies) {
+        await ctx.db.delete(reply._id);
+      }
+
+      if (comment.resolvedAt === undefined) {
+        await adjustUnresolvedCount(ctx, comment.projectId, -1);
+      }
+    }
+
+    await ctx.db.delete(args.commentId);
+  },
+});
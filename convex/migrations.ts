@@ -68,3 +68,65 @@ export const migrateProjectStates = internalMutation({
     };
   },
 });
+
+/**
+ * Carries the legacy imagesUsedInPeriod/videosUsedInPeriod counters into the
+ * usage ledger as opening reservations, so usage in the current period is
+ * not lost when quotas switch to the ledger.
+ */
+export const backfillUsageLedger = internalMutation({
+  args: {
+    cursor: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? 100;
+    const cursor = args.cursor ?? null;
+
+    const users = await ctx.db
+      .query("users")
+      .paginate({ cursor, numItems: limit });
+
+    let count = 0;
+
+    for (const user of users.page) {
+      const existingEntry = await ctx.db
+        .query("usageLedger")
+        .withIndex("by_userId_and_createdAt", (q) =>
+          q.eq("userId", user.userId),
+        )
+        .first();
+
+      if (existingEntry) continue;
+
+      const openingBalances = [
+        { type: "image" as const, used: user.imagesUsedInPeriod ?? 0 },
+        { type: "video" as const, used: user.videosUsedInPeriod ?? 0 },
+      ];
+
+      for (const { type, used } of openingBalances) {
+        if (used <= 0) continue;
+
+        await ctx.db.insert("usageLedger", {
+          count: used,
+          createdAt: Math.max(
+            user.billingCycleStart ?? user.createdAt,
+            user.updatedAt,
+          ),
+          credits: used,
+          kind: "reservation",
+          reason: "legacy-counter",
+          type,
+          userId: user.userId,
+        });
+        count++;
+      }
+    }
+
+    return {
+      count,
+      isDone: users.isDone,
+      continueCursor: users.continueCursor,
+    };
+  },
+});
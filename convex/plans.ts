@@ -12,12 +12,14 @@ export const seedPlans = internalMutation({
         imagesPerPeriod: 12,
         key: "free",
         name: "Free",
+        versionsPerProject: 10,
         videosPerPeriod: 3,
       },
       {
         imagesPerPeriod: 130,
         key: "pro",
         name: "Pro",
+        versionsPerProject: 100,
         videosPerPeriod: 25,
       },
     ];
@@ -0,0 +1,277 @@
+/**
+ * Convex project history functions.
+ *
+ * Persists each user's undo/redo steps for a project and their position
+ * within them, so history survives reloads and can be resumed on another
+ * device. Collaborators on a shared project keep separate histories.
+ */
+
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import {
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import { requireProjectAccess, type WorkspaceRole } from "./workspaces";
+
+/**
+ * Maximum number of steps kept per user and project; older steps are pruned.
+ */
+const MAX_HISTORY_ENTRIES = 500;
+
+/**
+ * Number of steps returned per history page. Patches can be large, so
+ * pages stay small enough for Convex read and return limits.
+ */
+const HISTORY_PAGE_SIZE = 25;
+
+/**
+ * Maximum size of a single serialized patch, in characters.
+ */
+const MAX_PATCH_LENGTH = 100_000;
+
+/**
+ * Maximum length of a checkpoint name.
+ */
+const MAX_LABEL_LENGTH = 100;
+
+/**
+ * Fetches a project the authenticated user can access with at least the
+ * given role.
+ *
+ * @throws Error if the user is not authenticated or cannot access the project
+ */
+async function getAccessibleProject(
+  ctx: QueryCtx,
+  projectId: Id<"projects">,
+  minimumRole: WorkspaceRole,
+) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    throw new Error("Not authenticated");
+  }
+
+  const userId = identity.subject;
+  const { project } = await requireProjectAccess(
+    ctx,
+    projectId,
+    userId,
+    minimumRole,
+  );
+
+  return { project, userId };
+}
+
+/**
+ * Stores the user's position within their history of a project.
+ */
+async function savePosition(
+  ctx: MutationCtx,
+  projectId: Id<"projects">,
+  userId: string,
+  position: number,
+) {
+  const existing = await ctx.db
+    .query("projectHistoryPositions")
+    .withIndex("by_projectId_and_userId", (q) =>
+      q.eq("projectId", projectId).eq("userId", userId),
+    )
+    .first();
+
+  if (existing) {
+    await ctx.db.patch(existing._id, { position, updatedAt: Date.now() });
+    return;
+  }
+
+  await ctx.db.insert("projectHistoryPositions", {
+    position,
+    projectId,
+    updatedAt: Date.now(),
+    userId,
+  });
+}
+
+/**
+ * Gets one page of the user's recorded history of a project.
+ *
+ * @param projectId - ID of the project
+ * @param cursor - Cursor returned by the previous page (optional)
+ * @returns Steps ordered by sequence, the cursor of the next page, and the
+ *   sequence of the first undone step (undefined when every step is applied)
+ */
+export const getHistory = query({
+  args: {
+    cursor: v.optional(v.string()),
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = await getAccessibleProject(
+      ctx,
+      args.projectId,
+      "viewer",
+    );
+
+    const page = await ctx.db
+      .query("projectHistory")
+      .withIndex("by_projectId_and_userId_and_sequence", (q) =>
+        q.eq("projectId", args.projectId).eq("userId", userId),
+      )
+      .order("asc")
+      .paginate({ cursor: args.cursor ?? null, numItems: HISTORY_PAGE_SIZE });
+
+    const position = await ctx.db
+      .query("projectHistoryPositions")
+      .withIndex("by_projectId_and_userId", (q) =>
+        q.eq("projectId", args.projectId).eq("userId", userId),
+      )
+      .first();
+
+    return {
+      continueCursor: page.continueCursor,
+      entries: page.page.map((entry) => ({
+        createdAt: entry.createdAt,
+        label: entry.label,
+        patch: entry.patch,
+        sequence: entry.sequence,
+      })),
+      isDone: page.isDone,
+      position: position?.position,
+    };
+  },
+});
+
+/**
+ * Records a new history step.
+ *
+ * Steps at or after the given sequence belong to an undone branch and are
+ * discarded, matching how a new edit clears the redo stack.
+ *
+ * @param projectId - ID of the project
+ * @param sequence - Position of the new step
+ * @param patch - JSON-serialized patch
+ * @param createdAt - When the step was recorded on the client
+ */
+export const appendEntry = mutation({
+  args: {
+    createdAt: v.number(),
+    patch: v.string(),
+    projectId: v.id("projects"),
+    sequence: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = await getAccessibleProject(
+      ctx,
+      args.projectId,
+      "editor",
+    );
+
+    if (args.patch.length > MAX_PATCH_LENGTH) {
+      throw new Error("History step too large");
+    }
+
+    const discarded = await ctx.db
+      .query("projectHistory")
+      .withIndex("by_projectId_and_userId_and_sequence", (q) =>
+        q
+          .eq("projectId", args.projectId)
+          .eq("userId", userId)
+          .gte("sequence", args.sequence),
+      )
+      .collect();
+    for (const entry of discarded) {
+      await ctx.db.delete(entry._id);
+    }
+
+    await ctx.db.insert("projectHistory", {
+      createdAt: args.createdAt,
+      patch: args.patch,
+      projectId: args.projectId,
+      sequence: args.sequence,
+      userId,
+    });
+
+    // Prune the oldest steps beyond the limit; sequences are consecutive,
+    // so only steps below the kept range are read
+    const pruned = await ctx.db
+      .query("projectHistory")
+      .withIndex("by_projectId_and_userId_and_sequence", (q) =>
+        q
+          .eq("projectId", args.projectId)
+          .eq("userId", userId)
+          .lte("sequence", args.sequence - MAX_HISTORY_ENTRIES),
+      )
+      .collect();
+    for (const entry of pruned) {
+      await ctx.db.delete(entry._id);
+    }
+
+    await savePosition(ctx, args.projectId, userId, args.sequence + 1);
+  },
+});
+
+/**
+ * Stores the user's position within their history after undo/redo.
+ *
+ * @param projectId - ID of the project
+ * @param position - Sequence of the first undone step
+ */
+export const setPosition = mutation({
+  args: {
+    position: v.number(),
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = await getAccessibleProject(
+      ctx,
+      args.projectId,
+      "editor",
+    );
+
+    await savePosition(ctx, args.projectId, userId, args.position);
+  },
+});
+
+/**
+ * Names or unnames one of the user's history steps as a checkpoint.
+ *
+ * @param projectId - ID of the project
+ * @param sequence - Sequence of the step to mark
+ * @param label - Checkpoint name, or undefined to remove the checkpoint
+ */
+export const setCheckpoint = mutation({
+  args: {
+    label: v.optional(v.string()),
+    projectId: v.id("projects"),
+    sequence: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = await getAccessibleProject(
+      ctx,
+      args.projectId,
+      "editor",
+    );
+
+    const label = args.label?.trim();
+    if (label && label.length > MAX_LABEL_LENGTH) {
+      throw new Error("Checkpoint name too long (max 100 characters)");
+    }
+
+    const entry = await ctx.db
+      .query("projectHistory")
+      .withIndex("by_projectId_and_userId_and_sequence", (q) =>
+        q
+          .eq("projectId", args.projectId)
+          .eq("userId", userId)
+          .eq("sequence", args.sequence),
+      )
+      .first();
+
+    if (!entry) {
+      throw new Error("History step not found");
+    }
+
+    await ctx.db.patch(entry._id, { label: label || undefined });
+  },
+});
@@ -2,15 +2,124 @@
  * Convex project management functions.
  *
  * Handles CRUD operations for user projects (canvas workspaces),
- * including creation, saving, loading, deletion, and renaming.
+ * including creation, saving, loading, deletion, duplication, archiving,
+ * renaming, and version snapshots.
  */
 
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import { collectUsedAssetIds } from "./assetSync";
+import { getLockedElementIds, mergeCanvasElements } from "./collaboration";
+import {
+  getActiveWorkspace,
+  getActiveWorkspaceId,
+  hasRole,
+  requireProjectAccess,
+} from "./workspaces";
+
+type CanvasState = Doc<"projectStates">["canvasState"];
+
+/**
+ * Minimum time between automatic version snapshots of a project.
+ */
+const AUTO_VERSION_INTERVAL_MS = 30 * 60 * 1000;
+
+/**
+ * Number of elements a single save must remove to trigger a snapshot of
+ * the previous state regardless of the interval.
+ */
+const BULK_REMOVAL_THRESHOLD = 5;
+
+/**
+ * Returns how many version snapshots the user's plan keeps per project.
+ */
+async function getVersionLimit(ctx: QueryCtx, userId: string) {
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .first();
+
+  const planKey = user?.tier === "paid" ? "pro" : (user?.tier ?? "free");
+  const plan = await ctx.db
+    .query("plans")
+    .withIndex("by_key", (q) => q.eq("key", planKey))
+    .first();
+
+  return plan?.versionsPerProject ?? (planKey === "pro" ? 100 : 10);
+}
+
+/**
+ * Stores a version snapshot and prunes the oldest snapshots beyond the
+ * plan's retention limit, dropping automatic snapshots before named ones.
+ */
+async function insertVersion(
+  ctx: MutationCtx,
+  args: {
+    canvasState: CanvasState;
+    kind: Doc<"projectVersions">["kind"];
+    label?: string;
+    projectId: Id<"projects">;
+    userId: string;
+  },
+) {
+  const versionId = await ctx.db.insert("projectVersions", {
+    canvasState: args.canvasState,
+    createdAt: Date.now(),
+    imageCount: args.canvasState.elements.filter((e) => e.type === "image")
+      .length,
+    kind: args.kind,
+    label: args.label,
+    projectId: args.projectId,
+    userId: args.userId,
+    videoCount: args.canvasState.elements.filter((e) => e.type === "video")
+      .length,
+  });
+
+  const limit = await getVersionLimit(ctx, args.userId);
+  const versions = await ctx.db
+    .query("projectVersions")
+    .withIndex("by_projectId_and_createdAt", (q) =>
+      q.eq("projectId", args.projectId),
+    )
+    .order("asc")
+    .collect();
+
+  const excess = versions.length - limit;
+  if (excess > 0) {
+    const candidates = versions.filter((version) => version._id !== versionId);
+    const pruned = [
+      ...candidates.filter((version) => version.kind === "auto"),
+      ...candidates.filter((version) => version.kind !== "auto"),
+    ].slice(0, excess);
+
+    for (const version of pruned) {
+      await ctx.db.delete(version._id);
+    }
+  }
+
+  return versionId;
+}
+
+/**
+ * Returns an element without properties that change during playback.
+ */
+function withoutPlaybackState(element: CanvasState["elements"][number]) {
+  const { currentTime: _currentTime, isPlaying: _isPlaying, ...rest } = element;
+  return rest;
+}
 
 /**
  * Creates a new project with default name and empty canvas state.
  *
+ * The project is shared with the user's active workspace when they can
+ * edit it, and is personal otherwise.
+ *
  * @param name - Optional project name (defaults to "Iskra Project")
  * @returns Project ID
  */
@@ -46,7 +155,7 @@ export const createProject = mutation({
     const defaultName = `Iskra Project ${String(existingProjects.length + 1).padStart(2, "0")}`;
     const projectName = args.name || defaultName;
 
-    // Create project record
+    // Create project record in the active workspace, if any
     const projectId = await ctx.db.insert("projects", {
       userId,
       name: projectName,
@@ -55,6 +164,7 @@ export const createProject = mutation({
       lastSavedAt: now,
       createdAt: now,
       updatedAt: now,
+      workspaceId: await getActiveWorkspaceId(ctx, userId),
     });
 
     // Create initial project state
@@ -75,6 +185,10 @@ export const createProject = mutation({
  *
  * @param projectId - Project ID to update
  * @param canvasState - Complete canvas state to save
+ * @param operations - IDs of the elements changed and removed since the
+ *   client last synced (optional). When given, only those elements are
+ *   merged into the saved state, keeping collaborators' changes and skipping
+ *   elements they have locked; otherwise the whole state is replaced.
  * @param thumbnailStorageId - Optional thumbnail storage ID
  * @returns Updated project
  */
@@ -93,9 +207,29 @@ export const saveProject = mutation({
           duration: v.optional(v.number()),
           height: v.optional(v.number()),
           id: v.string(),
+          isCollapsed: v.optional(v.boolean()),
           isPlaying: v.optional(v.boolean()),
           muted: v.optional(v.boolean()),
           originalFalUrl: v.optional(v.string()),
+          parentGroupId: v.optional(v.string()),
+          parentIds: v.optional(v.array(v.string())),
+          shapeType: v.optional(
+            v.union(
+              v.literal("arrow"),
+              v.literal("ellipse"),
+              v.literal("rectangle"),
+            ),
+          ),
+          style: v.optional(
+            v.object({
+              fill: v.string(),
+              fontSize: v.optional(v.number()),
+              stroke: v.string(),
+              strokeWidth: v.number(),
+            }),
+          ),
+          text: v.optional(v.string()),
+          title: v.optional(v.string()),
           transform: v.object({
             rotation: v.number(),
             scale: v.number(),
@@ -107,6 +241,7 @@ export const saveProject = mutation({
             v.literal("video"),
             v.literal("text"),
             v.literal("shape"),
+            v.literal("frame"),
           ),
           volume: v.optional(v.number()),
           width: v.optional(v.number()),
@@ -122,6 +257,12 @@ export const saveProject = mutation({
         }),
       ),
     }),
+    operations: v.optional(
+      v.object({
+        removedIds: v.array(v.string()),
+        upsertedIds: v.array(v.string()),
+      }),
+    ),
     projectId: v.id("projects"),
     thumbnailStorageId: v.optional(v.string()),
   },
@@ -133,18 +274,7 @@ export const saveProject = mutation({
 
     const userId = identity.subject;
 
-    // Use index-based query to prevent IDOR timing attacks
-    // Only fetch projects owned by the authenticated user
-    const project = await ctx.db
-      .query("projects")
-      .withIndex("by_userId", (q) => q.eq("userId", userId))
-      .filter((q) => q.eq(q.field("_id"), args.projectId))
-      .first();
-
-    if (!project) {
-      // Unified error prevents user enumeration
-      throw new Error("Project not found or access denied");
-    }
+    await requireProjectAccess(ctx, args.projectId, userId, "editor");
 
     // Validate canvas state
     if (args.canvasState.elements.length > 1000) {
@@ -153,11 +283,34 @@ export const saveProject = mutation({
 
     const now = Date.now();
 
+    const projectState = await ctx.db
+      .query("projectStates")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .first();
+
+    // Merge per element so concurrent saves by collaborators are kept
+    const canvasState =
+      args.operations && projectState
+        ? {
+            ...args.canvasState,
+            elements: mergeCanvasElements(
+              projectState.canvasState.elements,
+              args.canvasState.elements,
+              args.operations,
+              await getLockedElementIds(ctx, args.projectId, userId),
+            ),
+          }
+        : args.canvasState;
+
+    if (canvasState.elements.length > 1000) {
+      throw new Error("Too many canvas elements (max 1000)");
+    }
+
     // Calculate counts
-    const imageCount = args.canvasState.elements.filter(
+    const imageCount = canvasState.elements.filter(
       (e) => e.type === "image",
     ).length;
-    const videoCount = args.canvasState.elements.filter(
+    const videoCount = canvasState.elements.filter(
       (e) => e.type === "video",
     ).length;
 
@@ -171,20 +324,49 @@ export const saveProject = mutation({
     });
 
     // Update project state
-    const projectState = await ctx.db
-      .query("projectStates")
-      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
-      .first();
-
     if (projectState) {
+      // Snapshot the state being overwritten periodically, and whenever a
+      // save drops many elements at once so bulk deletes can be undone
+      const previousState = projectState.canvasState;
+      const nextElementIds = new Set(canvasState.elements.map((e) => e.id));
+      const removedCount = previousState.elements.filter(
+        (e) => !nextElementIds.has(e.id),
+      ).length;
+      const latestVersion = await ctx.db
+        .query("projectVersions")
+        .withIndex("by_projectId_and_createdAt", (q) =>
+          q.eq("projectId", args.projectId),
+        )
+        .order("desc")
+        .first();
+      const isSnapshotDue =
+        !latestVersion ||
+        now - latestVersion.createdAt >= AUTO_VERSION_INTERVAL_MS;
+
+      if (
+        previousState.elements.length > 0 &&
+        (isSnapshotDue || removedCount >= BULK_REMOVAL_THRESHOLD)
+      ) {
+        await insertVersion(ctx, {
+          canvasState: previousState,
+          kind: "auto",
+          projectId: args.projectId,
+          userId,
+        });
+      }
+
       await ctx.db.patch(projectState._id, {
-        canvasState: args.canvasState,
+        canvasState,
+        revision: (projectState.revision ?? 0) + 1,
+        updatedBy: userId,
       });
     } else {
       // Handle case where state might be missing (e.g. migration issue)
       await ctx.db.insert("projectStates", {
         projectId: args.projectId,
-        canvasState: args.canvasState,
+        canvasState,
+        revision: 1,
+        updatedBy: userId,
       });
     }
 
@@ -193,16 +375,20 @@ export const saveProject = mutation({
 });
 
 /**
- * Lists all projects for the authenticated user.
+ * Lists the projects of the authenticated user's active workspace, or their
+ * personal projects when no workspace is active.
  *
  * Includes asset thumbnail URLs for efficient list rendering.
  * Does NOT include heavy canvasState.
  *
+ * @param archived - List archived projects instead of active ones (default: false)
  * @param limit - Maximum number of projects to return (default: 20, max: 100)
  * @returns Array of projects sorted by lastSavedAt DESC with asset thumbnails
+ *   and the user's role on each
  */
 export const listProjects = query({
   args: {
+    archived: v.optional(v.boolean()),
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
@@ -217,11 +403,49 @@ export const listProjects = query({
     const DEFAULT_LIMIT = 20;
     const limit = Math.min(args.limit ?? DEFAULT_LIMIT, MAX_LIMIT);
 
-    const projects = await ctx.db
-      .query("projects")
+    const user = await ctx.db
+      .query("users")
       .withIndex("by_userId", (q) => q.eq("userId", userId))
-      .order("desc")
-      .take(limit);
+      .first();
+    const active = user ? await getActiveWorkspace(ctx, user) : null;
+    const role = active?.role ?? "owner";
+
+    // Active projects have no archivedAt; archived ones are newest-archived first
+    const projects = active
+      ? args.archived
+        ? await ctx.db
+            .query("projects")
+            .withIndex("by_workspaceId_and_archivedAt", (q) =>
+              q.eq("workspaceId", active.workspace._id).gt("archivedAt", 0),
+            )
+            .order("desc")
+            .take(limit)
+        : await ctx.db
+            .query("projects")
+            .withIndex("by_workspaceId_and_archivedAt", (q) =>
+              q
+                .eq("workspaceId", active.workspace._id)
+                .eq("archivedAt", undefined),
+            )
+            .order("desc")
+            .take(limit)
+      : args.archived
+        ? await ctx.db
+            .query("projects")
+            .withIndex("by_userId_and_archivedAt", (q) =>
+              q.eq("userId", userId).gt("archivedAt", 0),
+            )
+            .filter((q) => q.eq(q.field("workspaceId"), undefined))
+            .order("desc")
+            .take(limit)
+        : await ctx.db
+            .query("projects")
+            .withIndex("by_userId_and_archivedAt", (q) =>
+              q.eq("userId", userId).eq("archivedAt", undefined),
+            )
+            .filter((q) => q.eq(q.field("workspaceId"), undefined))
+            .order("desc")
+            .take(limit);
 
     // Convert to include storage URLs for project thumbnails only
     // Asset thumbnails are fetched on-demand when opening a project
@@ -235,6 +459,7 @@ export const listProjects = query({
 
         return {
           ...project,
+          role,
           thumbnailUrl,
         };
       }),
@@ -245,13 +470,15 @@ export const listProjects = query({
 });
 
 /**
- * Gets a single project by ID with ownership verification.
+ * Gets a single project by ID, verifying the user owns it or belongs to its
+ * workspace.
  *
  * Includes asset thumbnail URLs for display (full-size URLs available on-demand).
  * Fetches canvasState from project_states table.
  *
  * @param projectId - ID of the project to retrieve
- * @returns Project record with asset thumbnails and canvasState
+ * @returns Project record with asset thumbnails, canvasState and the
+ *   user's role on the project
  */
 export const getProject = query({
   args: {
@@ -265,18 +492,12 @@ export const getProject = query({
 
     const userId = identity.subject;
 
-    // Use index-based query to prevent IDOR timing attacks
-    // Only fetch projects owned by the authenticated user
-    const project = await ctx.db
-      .query("projects")
-      .withIndex("by_userId", (q) => q.eq("userId", userId))
-      .filter((q) => q.eq(q.field("_id"), args.projectId))
-      .first();
-
-    if (!project) {
-      // Unified error prevents user enumeration
-      throw new Error("Project not found or access denied");
-    }
+    const { project, role } = await requireProjectAccess(
+      ctx,
+      args.projectId,
+      userId,
+      "viewer",
+    );
 
     // Fetch project state
     const projectState = await ctx.db
@@ -284,9 +505,7 @@ export const getProject = query({
       .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
       .first();
 
-    // Fallback to legacy canvasState if not found in new table (during migration)
-    const canvasState =
-      projectState?.canvasState ?? (project as any).canvasState;
+    const canvasState = projectState?.canvasState;
 
     if (!canvasState) {
       throw new Error("Project state not found");
@@ -308,14 +527,24 @@ export const getProject = query({
     }
 
     // Fetch asset thumbnails for canvas display (optimize bandwidth on load)
-    // IMPORTANT: Only fetch assets owned by the user to prevent IDOR
-    // Batch fetch all user's assets, then filter to project assets
+    // IMPORTANT: Only fetch assets owned by the user or shared with the
+    // project's workspace to prevent IDOR
+    // Batch fetch all accessible assets, then filter to project assets
     const userAssets = await ctx.db
       .query("assets")
       .withIndex("by_userId", (q) => q.eq("userId", userId))
       .collect();
+    const workspaceId = project.workspaceId;
+    const workspaceAssets = workspaceId
+      ? await ctx.db
+          .query("assets")
+          .withIndex("by_workspaceId", (q) => q.eq("workspaceId", workspaceId))
+          .collect()
+      : [];
 
-    const assetMap = new Map(userAssets.map((a) => [a._id, a]));
+    const assetMap = new Map(
+      [...userAssets, ...workspaceAssets].map((a) => [a._id, a]),
+    );
     const assetThumbnails: Record<string, string> = {};
 
     for (const assetId of assetIds) {
@@ -333,6 +562,7 @@ export const getProject = query({
       canvasState, // Inject canvasState from separate table
       thumbnailUrl,
       assetThumbnails,
+      role,
     };
   },
 });
@@ -356,18 +586,7 @@ export const renameProject = mutation({
 
     const userId = identity.subject;
 
-    // Use index-based query to prevent IDOR timing attacks
-    // Only fetch projects owned by the authenticated user
-    const project = await ctx.db
-      .query("projects")
-      .withIndex("by_userId", (q) => q.eq("userId", userId))
-      .filter((q) => q.eq(q.field("_id"), args.projectId))
-      .first();
-
-    if (!project) {
-      // Unified error prevents user enumeration
-      throw new Error("Project not found or access denied");
-    }
+    await requireProjectAccess(ctx, args.projectId, userId, "editor");
 
     // Validate name
     if (!args.name.trim()) {
@@ -385,3 +604,582 @@ export const renameProject = mutation({
     });
   },
 });
+
+/**
+ * Permanently deletes a project and its canvas state.
+ *
+ * The project thumbnail is removed from storage unless a duplicate still
+ * references it. When deleteOrphanedAssets is set, assets referenced by this
+ * project and by no other project of the user are deleted as well, and the
+ * user's storage quota is reduced accordingly. Assets of workspace projects
+ * may be used by other members and are always kept.
+ *
+ * Workspace owners can delete any workspace project; editors only the ones
+ * they created.
+ *
+ * @param deleteOrphanedAssets - Also delete assets only used by this project
+ * @param projectId - ID of the project to delete
+ * @returns Number of orphaned assets that were deleted
+ */
+export const deleteProject = mutation({
+  args: {
+    deleteOrphanedAssets: v.optional(v.boolean()),
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+
+    const { project, role } = await requireProjectAccess(
+      ctx,
+      args.projectId,
+      userId,
+      "editor",
+    );
+
+    // Editors can only delete the workspace projects they created
+    if (project.workspaceId && role !== "owner" && project.userId !== userId) {
+      throw new Error("Requires the owner role");
+    }
+
+    const projectStates = await ctx.db
+      .query("projectStates")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .collect();
+
+    // Collect asset references before the state rows are removed
+    const assetIds = new Set<string>();
+    for (const projectState of projectStates) {
+      for (const element of projectState.canvasState.elements) {
+        if (element.assetId) {
+          assetIds.add(element.assetId);
+        }
+      }
+    }
+
+    const historyEntries = await ctx.db
+      .query("projectHistory")
+      .withIndex("by_projectId_and_userId_and_sequence", (q) =>
+        q.eq("projectId", args.projectId),
+      )
+      .collect();
+    const historyPositions = await ctx.db
+      .query("projectHistoryPositions")
+      .withIndex("by_projectId_and_userId", (q) =>
+        q.eq("projectId", args.projectId),
+      )
+      .collect();
+    const versions = await ctx.db
+      .query("projectVersions")
+      .withIndex("by_projectId_and_createdAt", (q) =>
+        q.eq("projectId", args.projectId),
+      )
+      .collect();
+    const shares = await ctx.db
+      .query("projectShares")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    const presence = await ctx.db
+      .query("projectPresence")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    const comments = await ctx.db
+      .query("projectComments")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    const recipes = await ctx.db
+      .query("variationRecipes")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .collect();
+
+    // Versions may reference assets that are no longer on the canvas
+    for (const version of versions) {
+      for (const element of version.canvasState.elements) {
+        if (element.assetId) {
+          assetIds.add(element.assetId);
+        }
+      }
+    }
+
+    // Cascade: remove canvas state, history, version, share, presence,
+    // comment and recipe rows, then the project itself
+    for (const projectState of projectStates) {
+      await ctx.db.delete(projectState._id);
+    }
+    for (const entry of historyEntries) {
+      await ctx.db.delete(entry._id);
+    }
+    for (const position of historyPositions) {
+      await ctx.db.delete(position._id);
+    }
+    for (const version of versions) {
+      await ctx.db.delete(version._id);
+    }
+    for (const share of shares) {
+      await ctx.db.delete(share._id);
+    }
+    for (const record of presence) {
+      await ctx.db.delete(record._id);
+    }
+    for (const comment of comments) {
+      await ctx.db.delete(comment._id);
+    }
+    for (const recipe of recipes) {
+      await ctx.db.delete(recipe._id);
+    }
+    await ctx.db.delete(args.projectId);
+
+    // Duplicated projects share the thumbnail file, including personal
+    // copies made by other users, so only delete it once no remaining
+    // project points at it
+    if (project.thumbnailStorageId) {
+      const thumbnailStorageId = project.thumbnailStorageId;
+      const sharedThumbnail = await ctx.db
+        .query("projects")
+        .withIndex("by_thumbnailStorageId", (q) =>
+          q.eq("thumbnailStorageId", thumbnailStorageId),
+        )
+        .first();
+
+      if (!sharedThumbnail) {
+        await ctx.storage.delete(thumbnailStorageId);
+      }
+    }
+
+    if (
+      !args.deleteOrphanedAssets ||
+      project.workspaceId ||
+      assetIds.size === 0
+    ) {
+      return { deletedAssetCount: 0 };
+    }
+
+    // The project is already gone, so any remaining usage is elsewhere
+    const usedAssetIds = await collectUsedAssetIds(ctx, userId);
+
+    let freedBytes = 0;
+    let deletedAssetCount = 0;
+
+    for (const assetId of assetIds) {
+      if (usedAssetIds.has(assetId)) continue;
+
+      const asset = await ctx.db
+        .query("assets")
+        .withIndex("by_userId", (q) => q.eq("userId", userId))
+        .filter((q) => q.eq(q.field("_id"), assetId))
+        .first();
+
+      if (!asset) continue;
+
+      await ctx.storage.delete(asset.storageId);
+      if (asset.thumbnailStorageId) {
+        await ctx.storage.delete(asset.thumbnailStorageId);
+      }
+      await ctx.db.delete(asset._id);
+
+      freedBytes += asset.sizeBytes;
+      deletedAssetCount++;
+    }
+
+    if (freedBytes > 0) {
+      const user = await ctx.db
+        .query("users")
+        .withIndex("by_userId", (q) => q.eq("userId", userId))
+        .first();
+
+      if (user) {
+        await ctx.db.patch(user._id, {
+          storageUsedBytes: Math.max(0, user.storageUsedBytes - freedBytes),
+          updatedAt: Date.now(),
+        });
+      }
+    }
+
+    return { deletedAssetCount };
+  },
+});
+
+/**
+ * Duplicates a project, copying its canvas state and thumbnail.
+ *
+ * Assets are shared by reference rather than copied, so the duplicate
+ * does not consume additional storage quota. Editors keep the copy in the
+ * project's workspace; viewers get a personal copy.
+ *
+ * @param name - Optional name for the copy (defaults to "<name> (copy)")
+ * @param projectId - ID of the project to duplicate
+ * @returns ID of the new project
+ */
+export const duplicateProject = mutation({
+  args: {
+    name: v.optional(v.string()),
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+
+    if (args.name && args.name.length > 100) {
+      throw new Error("Project name too long (max 100 characters)");
+    }
+
+    const { project, role } = await requireProjectAccess(
+      ctx,
+      args.projectId,
+      userId,
+      "viewer",
+    );
+
+    const existingProjects = await ctx.db
+      .query("projects")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect();
+
+    // Limit number of projects per user
+    if (existingProjects.length >= 100) {
+      throw new Error("Maximum number of projects reached (100)");
+    }
+
+    const projectState = await ctx.db
+      .query("projectStates")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .first();
+
+    const canvasState = projectState?.canvasState;
+
+    if (!canvasState) {
+      throw new Error("Project state not found");
+    }
+
+    const now = Date.now();
+    const projectName =
+      args.name?.trim() || `${project.name} (copy)`.slice(0, 100);
+
+    const newProjectId = await ctx.db.insert("projects", {
+      userId,
+      name: projectName,
+      imageCount: project.imageCount ?? 0,
+      videoCount: project.videoCount ?? 0,
+      thumbnailStorageId: project.thumbnailStorageId,
+      lastSavedAt: now,
+      createdAt: now,
+      updatedAt: now,
+      workspaceId: hasRole(role, "editor") ? project.workspaceId : undefined,
+    });
+
+    await ctx.db.insert("projectStates", {
+      projectId: newProjectId,
+      canvasState: {
+        ...canvasState,
+        lastModified: now,
+      },
+    });
+
+    return newProjectId;
+  },
+});
+
+/**
+ * Archives a project.
+ *
+ * Archived projects are hidden from the default project list but keep
+ * their canvas state and assets until restored or deleted.
+ *
+ * @param projectId - ID of the project to archive
+ */
+export const archiveProject = mutation({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+
+    await requireProjectAccess(ctx, args.projectId, userId, "editor");
+
+    const now = Date.now();
+
+    await ctx.db.patch(args.projectId, {
+      archivedAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Restores an archived project back into the active project list.
+ *
+ * @param projectId - ID of the project to restore
+ */
+export const restoreProject = mutation({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+
+    await requireProjectAccess(ctx, args.projectId, userId, "editor");
+
+    await ctx.db.patch(args.projectId, {
+      archivedAt: undefined,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Lists the version snapshots of a project, newest first.
+ *
+ * Does NOT include the snapshot canvas states.
+ *
+ * @param projectId - ID of the project
+ * @returns Version metadata and the number of versions the plan keeps
+ */
+export const listVersions = query({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+
+    await requireProjectAccess(ctx, args.projectId, userId, "viewer");
+
+    const versions = await ctx.db
+      .query("projectVersions")
+      .withIndex("by_projectId_and_createdAt", (q) =>
+        q.eq("projectId", args.projectId),
+      )
+      .order("desc")
+      .collect();
+
+    return {
+      limit: await getVersionLimit(ctx, userId),
+      versions: versions.map((version) => ({
+        _id: version._id,
+        createdAt: version.createdAt,
+        imageCount: version.imageCount,
+        kind: version.kind,
+        label: version.label,
+        videoCount: version.videoCount,
+      })),
+    };
+  },
+});
+
+/**
+ * Saves a named snapshot of a project's current canvas state.
+ *
+ * @param projectId - ID of the project
+ * @param label - Optional version name
+ * @returns ID of the new version
+ */
+export const createVersion = mutation({
+  args: {
+    label: v.optional(v.string()),
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+
+    await requireProjectAccess(ctx, args.projectId, userId, "editor");
+
+    const label = args.label?.trim();
+    if (label && label.length > 100) {
+      throw new Error("Version name too long (max 100 characters)");
+    }
+
+    const projectState = await ctx.db
+      .query("projectStates")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .first();
+
+    if (!projectState) {
+      throw new Error("Project state not found");
+    }
+
+    return await insertVersion(ctx, {
+      canvasState: projectState.canvasState,
+      kind: "manual",
+      label: label || undefined,
+      projectId: args.projectId,
+      userId,
+    });
+  },
+});
+
+/**
+ * Compares a version snapshot with the project's current canvas state.
+ *
+ * @param versionId - ID of the version to compare
+ * @returns Elements added, removed, or modified since the version
+ */
+export const diffVersion = query({
+  args: {
+    versionId: v.id("projectVersions"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+
+    const version = await ctx.db.get(args.versionId);
+    if (!version) {
+      // Unified error prevents version enumeration
+      throw new Error("Version not found or access denied");
+    }
+
+    await requireProjectAccess(ctx, version.projectId, userId, "viewer");
+
+    const projectState = await ctx.db
+      .query("projectStates")
+      .withIndex("by_projectId", (q) => q.eq("projectId", version.projectId))
+      .first();
+
+    const versionElements = new Map(
+      version.canvasState.elements.map((e) => [e.id, e]),
+    );
+    const currentElements = new Map(
+      (projectState?.canvasState.elements ?? []).map((e) => [e.id, e]),
+    );
+
+    const added = [...currentElements.values()]
+      .filter((e) => !versionElements.has(e.id))
+      .map((e) => ({ id: e.id, type: e.type }));
+    const removed = [...versionElements.values()]
+      .filter((e) => !currentElements.has(e.id))
+      .map((e) => ({ id: e.id, type: e.type }));
+    const modified = [...currentElements.values()]
+      .filter((e) => {
+        const previous = versionElements.get(e.id);
+        return (
+          previous &&
+          JSON.stringify(withoutPlaybackState(previous)) !==
+            JSON.stringify(withoutPlaybackState(e))
+        );
+      })
+      .map((e) => ({ id: e.id, type: e.type }));
+
+    return { added, modified, removed };
+  },
+});
+
+/**
+ * Restores a project's canvas state from a version snapshot.
+ *
+ * The current state is snapshotted first so the restore can be reverted.
+ * Undo history recorded against the replaced state is cleared.
+ *
+ * @param versionId - ID of the version to restore
+ * @returns ID of the restored project
+ */
+export const restoreVersion = mutation({
+  args: {
+    versionId: v.id("projectVersions"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+
+    const version = await ctx.db.get(args.versionId);
+    if (!version) {
+      // Unified error prevents version enumeration
+      throw new Error("Version not found or access denied");
+    }
+
+    await requireProjectAccess(ctx, version.projectId, userId, "editor");
+
+    const projectId = version.projectId;
+    const now = Date.now();
+
+    const projectState = await ctx.db
+      .query("projectStates")
+      .withIndex("by_projectId", (q) => q.eq("projectId", projectId))
+      .first();
+
+    if (projectState) {
+      await insertVersion(ctx, {
+        canvasState: projectState.canvasState,
+        kind: "restore",
+        label: "Before restore",
+        projectId,
+        userId,
+      });
+    }
+
+    const canvasState = { ...version.canvasState, lastModified: now };
+    if (projectState) {
+      await ctx.db.patch(projectState._id, {
+        canvasState,
+        revision: (projectState.revision ?? 0) + 1,
+        updatedBy: userId,
+      });
+    } else {
+      await ctx.db.insert("projectStates", {
+        canvasState,
+        projectId,
+        revision: 1,
+        updatedBy: userId,
+      });
+    }
+
+    const historyEntries = await ctx.db
+      .query("projectHistory")
+      .withIndex("by_projectId_and_userId_and_sequence", (q) =>
+        q.eq("projectId", projectId),
+      )
+      .collect();
+    for (const entry of historyEntries) {
+      await ctx.db.delete(entry._id);
+    }
+    const historyPositions = await ctx.db
+      .query("projectHistoryPositions")
+      .withIndex("by_projectId_and_userId", (q) => q.eq("projectId", projectId))
+      .collect();
+    for (const position of historyPositions) {
+      await ctx.db.delete(position._id);
+    }
+
+    await ctx.db.patch(projectId, {
+      imageCount: version.imageCount,
+      lastSavedAt: now,
+      updatedAt: now,
+      videoCount: version.videoCount,
+    });
+
+    return projectId;
+  },
+});
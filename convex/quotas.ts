@@ -2,15 +2,71 @@
  * Convex quota management functions.
  *
  * Handles quota tracking, enforcement, and reset logic for image and video generations.
+ * Usage is recorded in the usage ledger and weighted in credits per model.
+ * Generations made in a workspace are charged to the workspace's pooled
+ * quota instead of the member's own.
  */
 
-import { mutation, query, internalMutation } from "./_generated/server";
+import {
+  mutation,
+  query,
+  internalMutation,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
 import { v } from "convex/values";
+import {
+  appendLedgerEntry,
+  appendResetEntry,
+  getCreditCost,
+  getPeriodUsage,
+  isWorkspaceAccount,
+  type QuotaAccount,
+} from "./usageLedger";
+import { getActiveWorkspace, type WorkspaceRole } from "./workspaces";
+
+/**
+ * Get the credit limits of a user's or workspace's plan
+ */
+async function getPlanLimits(ctx: QueryCtx, account: QuotaAccount) {
+  const planKey = account.tier === "paid" ? "pro" : account.tier;
+  const plan = await ctx.db
+    .query("plans")
+    .withIndex("by_key", (q) => q.eq("key", planKey))
+    .first();
+
+  return {
+    images: plan?.imagesPerPeriod ?? (planKey === "pro" ? 130 : 12),
+    videos: plan?.videosPerPeriod ?? (planKey === "pro" ? 25 : 3),
+  };
+}
+
+/**
+ * Get the account a user's generations are charged to
+ *
+ * This is the active workspace, or the user's personal quota when no
+ * workspace is active.
+ *
+ * @returns The account and the user's workspace role (null for personal quotas)
+ */
+async function getQuotaAccount(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+): Promise<{ account: QuotaAccount; role: WorkspaceRole | null }> {
+  const active = await getActiveWorkspace(ctx, user);
+
+  return active
+    ? { account: active.workspace, role: active.role }
+    : { account: user, role: null };
+}
 
 /**
  * Get quota status for current user
  *
- * Returns usage and limits for both images and videos
+ * Returns usage and limits for both images and videos, in credits
+ * summed from the usage ledger. When a workspace is active, the status is
+ * that of the workspace's pooled quota.
  */
 export const getQuotaStatus = query({
   args: {},
@@ -31,28 +87,25 @@ export const getQuotaStatus = query({
       return null;
     }
 
-    // Fetch plan details
-    const planKey = user.tier === "paid" ? "pro" : user.tier;
-    const plan = await ctx.db
-      .query("plans")
-      .withIndex("by_key", (q) => q.eq("key", planKey))
-      .first();
-
-    const imageLimit = plan?.imagesPerPeriod ?? (planKey === "pro" ? 130 : 12);
-    const videoLimit = plan?.videosPerPeriod ?? (planKey === "pro" ? 25 : 3);
+    const { account } = await getQuotaAccount(ctx, user);
+    const limits = await getPlanLimits(ctx, account);
+    const usage = await getPeriodUsage(ctx, account);
 
     const now = Date.now();
-    const imagesUsed = user.imagesUsedInPeriod ?? 0;
-    const videosUsed = user.videosUsedInPeriod ?? 0;
-    const effectiveBillingCycleStart = user.billingCycleStart ?? user.createdAt;
+    const imageLimit = limits.images;
+    const videoLimit = limits.videos;
+    const imagesUsed = usage.images;
+    const videosUsed = usage.videos;
+    const effectiveBillingCycleStart =
+      account.billingCycleStart ?? account.createdAt;
 
     return {
       billingCycleEnd:
-        user.billingCycleEnd ??
+        account.billingCycleEnd ??
         calculateNextBillingDate(effectiveBillingCycleStart),
       billingCycleStart: effectiveBillingCycleStart,
-      daysUntilReset: user.billingCycleEnd
-        ? Math.ceil((user.billingCycleEnd - now) / (1000 * 60 * 60 * 24))
+      daysUntilReset: account.billingCycleEnd
+        ? Math.ceil((account.billingCycleEnd - now) / (1000 * 60 * 60 * 24))
         : 30,
       images: {
         limit: imageLimit,
@@ -60,13 +113,16 @@ export const getQuotaStatus = query({
         remaining: Math.max(0, imageLimit - imagesUsed),
         used: imagesUsed,
       },
-      tier: user.tier,
+      tier: account.tier,
       videos: {
         limit: videoLimit,
         percentage: Math.min(100, Math.round((videosUsed / videoLimit) * 100)),
         remaining: Math.max(0, videoLimit - videosUsed),
         used: videosUsed,
       },
+      workspace: isWorkspaceAccount(account)
+        ? { _id: account._id, name: account.name }
+        : null,
     };
   },
 });
@@ -74,18 +130,33 @@ export const getQuotaStatus = query({
 /**
  * Atomically check and reserve quota for a generation
  *
- * This mutation combines quota checking and incrementing into a single atomic operation
- * to prevent race conditions where multiple parallel requests could exceed quota limits.
+ * This mutation combines quota checking and the reservation entry into a single atomic
+ * operation to prevent race conditions where multiple parallel requests could exceed
+ * quota limits.
+ *
+ * When the user works in a workspace, the reservation is charged to the
+ * workspace's pooled quota. Viewers cannot generate in a workspace.
  *
  * @param type - Generation type ("image" or "video")
  * @param count - Number of items to reserve (default: 1)
- * @returns Object with success status and quota information
- * @throws Error if quota is exceeded or user not found
+ * @param model - Model ID, used to weight the credit cost (optional)
+ * @param endpoint - Provider endpoint (optional)
+ * @param resolution - Requested output resolution (optional)
+ * @param duration - Video duration in seconds (optional)
+ * @param projectId - Project the generation is made in (optional, dropped
+ *   when it is not a valid project ID, e.g. a canvas that was never saved)
+ * @returns Object with success status, quota information and the reservation ID
+ * @throws Error if quota is exceeded, user not found or the user is a workspace viewer
  */
 export const checkAndReserveQuota = mutation({
   args: {
     type: v.union(v.literal("image"), v.literal("video")),
     count: v.optional(v.number()),
+    duration: v.optional(v.number()),
+    endpoint: v.optional(v.string()),
+    model: v.optional(v.string()),
+    projectId: v.optional(v.string()),
+    resolution: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -110,74 +181,144 @@ export const checkAndReserveQuota = mutation({
       throw new Error("User not found");
     }
 
-    // Fetch plan details
-    const planKey = user.tier === "paid" ? "pro" : user.tier;
-    const plan = await ctx.db
-      .query("plans")
-      .withIndex("by_key", (q) => q.eq("key", planKey))
-      .first();
+    const quotaAccount = await getQuotaAccount(ctx, user);
+    const { role } = quotaAccount;
+    let { account } = quotaAccount;
 
-    const imageLimit = plan?.imagesPerPeriod ?? (planKey === "pro" ? 130 : 12);
-    const videoLimit = plan?.videosPerPeriod ?? (planKey === "pro" ? 25 : 3);
-    const limit = args.type === "image" ? imageLimit : videoLimit;
+    if (role === "viewer") {
+      throw new Error("Viewers cannot generate in this workspace");
+    }
 
-    // Check if billing period has ended
+    // Start the next period now if it has ended, so this reservation is not
+    // swept away by the daily reset job
     const now = Date.now();
-    const needsReset = user.billingCycleEnd && now > user.billingCycleEnd;
-
-    let currentUsed: number;
-
-    if (needsReset) {
-      // Period has expired, treat as fresh quota
-      currentUsed = 0;
-    } else {
-      currentUsed =
-        args.type === "image"
-          ? (user.imagesUsedInPeriod ?? 0)
-          : (user.videosUsedInPeriod ?? 0);
+    if (account.billingCycleEnd && now > account.billingCycleEnd) {
+      await startNextBillingCycle(ctx, account, now);
+      account = (await ctx.db.get(account._id)) ?? account;
     }
 
-    // Check if quota is available BEFORE incrementing
-    if (currentUsed + count > limit) {
+    const limits = await getPlanLimits(ctx, account);
+    const limit = args.type === "image" ? limits.images : limits.videos;
+
+    const usage = await getPeriodUsage(ctx, account);
+    const currentUsed = args.type === "image" ? usage.images : usage.videos;
+    const credits = getCreditCost(args.type, count, args.model);
+
+    // Check if quota is available BEFORE reserving
+    if (currentUsed + credits > limit) {
       throw new Error(
-        `Quota exceeded: ${currentUsed}/${limit} ${args.type}s used this period. Requested ${count}, but only ${limit - currentUsed} remaining.`,
+        `Quota exceeded: ${currentUsed}/${limit} ${args.type} credits used this period. Requested ${credits}, but only ${limit - currentUsed} remaining.`,
       );
     }
 
-    // Atomically increment quota (this happens in same transaction as the check)
-    const newUsed = currentUsed + count;
-
-    if (args.type === "image") {
-      await ctx.db.patch(user._id, {
-        imagesUsedInPeriod: newUsed,
-        updatedAt: Date.now(),
-      });
-    } else {
-      await ctx.db.patch(user._id, {
-        videosUsedInPeriod: newUsed,
-        updatedAt: Date.now(),
-      });
-    }
+    // Reserve quota (this happens in same transaction as the check)
+    const reservationId = await appendLedgerEntry(ctx, userId, {
+      count,
+      credits,
+      duration: args.duration,
+      endpoint: args.endpoint,
+      kind: "reservation",
+      model: args.model,
+      projectId: args.projectId
+        ? (ctx.db.normalizeId("projects", args.projectId) ?? undefined)
+        : undefined,
+      resolution: args.resolution,
+      type: args.type,
+      workspaceId: isWorkspaceAccount(account) ? account._id : undefined,
+    });
+
+    const newUsed = currentUsed + credits;
 
     return {
       success: true,
+      credits,
       used: newUsed,
       limit,
       remaining: limit - newUsed,
+      reservationId,
     };
   },
 });
 
 /**
- * Refund quota for failed generations
+ * Get a reservation owned by the user that has not been committed or refunded
  *
- * @param type - Generation type ("image" or "video")
- * @param count - Number of items to refund (default: 1)
+ * @throws Error if the reservation is missing, owned by someone else or already settled
  */
-export const refundQuota = mutation({
+async function getOpenReservation(
+  ctx: MutationCtx,
+  userId: string,
+  reservationId: Id<"usageLedger">,
+) {
+  const reservation = await ctx.db.get(reservationId);
+
+  if (
+    !reservation ||
+    reservation.userId !== userId ||
+    reservation.kind !== "reservation"
+  ) {
+    throw new Error("Reservation not found");
+  }
+
+  const settlement = await ctx.db
+    .query("usageLedger")
+    .withIndex("by_reservationId", (q) => q.eq("reservationId", reservationId))
+    .first();
+
+  if (settlement) {
+    throw new Error(`Reservation already settled (${settlement.kind})`);
+  }
+
+  return reservation;
+}
+
+/**
+ * Whether the quota was reset since a reservation was made
+ *
+ * Refunding a reservation from an earlier period would credit the current
+ * period with usage it was never charged.
+ */
+async function isReservationFromEarlierPeriod(
+  ctx: MutationCtx,
+  reservation: Doc<"usageLedger">,
+) {
+  const { workspaceId } = reservation;
+  const laterEntries = workspaceId
+    ? ctx.db
+        .query("usageLedger")
+        .withIndex("by_workspaceId_and_createdAt", (q) =>
+          q
+            .eq("workspaceId", workspaceId)
+            .gt("createdAt", reservation.createdAt),
+        )
+    : ctx.db
+        .query("usageLedger")
+        .withIndex("by_userId_and_createdAt", (q) =>
+          q
+            .eq("userId", reservation.userId)
+            .gt("createdAt", reservation.createdAt),
+        );
+
+  for await (const entry of laterEntries) {
+    if (entry.kind === "reset" && entry.workspaceId === workspaceId) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Commit a reservation once its generation succeeded
+ *
+ * Commits do not change usage; they mark the reserved credits as spent so
+ * the reservation can no longer be refunded.
+ *
+ * @param reservationId - ID returned by checkAndReserveQuota
+ */
+export const commitQuota = mutation({
   args: {
-    type: v.union(v.literal("image"), v.literal("video")),
-    count: v.optional(v.number()),
+    reservationId: v.id("usageLedger"),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -186,37 +327,114 @@ export const refundQuota = mutation({
     }
 
     const userId = identity.subject;
-    const count = args.count ?? 1;
+    const reservation = await getOpenReservation(
+      ctx,
+      userId,
+      args.reservationId,
+    );
+
+    await appendLedgerEntry(ctx, userId, {
+      count: reservation.count,
+      credits: reservation.credits,
+      kind: "commit",
+      model: reservation.model,
+      projectId: reservation.projectId,
+      reservationId: reservation._id,
+      type: reservation.type,
+      workspaceId: reservation.workspaceId,
+    });
 
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_userId", (q) => q.eq("userId", userId))
-      .first();
+    return { success: true };
+  },
+});
 
-    if (!user) {
-      throw new Error("User not found");
+/**
+ * Refund a reservation whose generation failed
+ *
+ * The full reservation is refunded to the account it was charged to. Only
+ * open reservations of the caller can be refunded, so refunds never exceed
+ * what was reserved.
+ *
+ * @param reservationId - ID returned by checkAndReserveQuota
+ */
+export const refundQuota = mutation({
+  args: {
+    reservationId: v.id("usageLedger"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
     }
 
-    if (args.type === "image") {
-      const currentUsed = user.imagesUsedInPeriod ?? 0;
-      await ctx.db.patch(user._id, {
-        imagesUsedInPeriod: Math.max(0, currentUsed - count),
-        updatedAt: Date.now(),
-      });
-    } else {
-      const currentUsed = user.videosUsedInPeriod ?? 0;
-      await ctx.db.patch(user._id, {
-        videosUsedInPeriod: Math.max(0, currentUsed - count),
-        updatedAt: Date.now(),
-      });
+    const userId = identity.subject;
+    const reservation = await getOpenReservation(
+      ctx,
+      userId,
+      args.reservationId,
+    );
+
+    if (await isReservationFromEarlierPeriod(ctx, reservation)) {
+      throw new Error("Reservation belongs to an earlier billing period");
     }
 
+    await appendLedgerEntry(ctx, userId, {
+      count: reservation.count,
+      credits: reservation.credits,
+      kind: "refund",
+      model: reservation.model,
+      projectId: reservation.projectId,
+      reservationId: reservation._id,
+      type: reservation.type,
+      workspaceId: reservation.workspaceId,
+    });
+
     return { success: true };
   },
 });
 
 /**
- * Reset quota counters for a user
+ * Start a new billing cycle for a user or workspace on the anniversary of
+ * the current one and record a reset in the usage ledger
+ */
+async function startNextBillingCycle(
+  ctx: MutationCtx,
+  account: QuotaAccount,
+  now: number,
+) {
+  // Calculate new billing cycle dates
+  const signupDate = new Date(account.billingCycleStart ?? account.createdAt);
+  const currentDate = new Date(now);
+
+  const newBillingStart = new Date(
+    currentDate.getFullYear(),
+    currentDate.getMonth(),
+    signupDate.getDate(),
+  ).getTime();
+
+  const newBillingEnd = new Date(
+    new Date(newBillingStart).getFullYear(),
+    new Date(newBillingStart).getMonth() + 1,
+    signupDate.getDate(),
+  ).getTime();
+
+  const billingCycle = {
+    billingCycleStart: newBillingStart,
+    billingCycleEnd: newBillingEnd,
+    updatedAt: now,
+  };
+
+  if (isWorkspaceAccount(account)) {
+    await ctx.db.patch(account._id, billingCycle);
+    await appendResetEntry(ctx, account.ownerId, "billing-cycle", account._id);
+  } else {
+    await ctx.db.patch(account._id, billingCycle);
+    await appendResetEntry(ctx, account.userId, "billing-cycle");
+  }
+}
+
+/**
+ * Reset quota usage for a user
  *
  * Internal mutation called when billing period renews
  */
@@ -234,38 +452,15 @@ export const resetQuotaForUser = internalMutation({
       throw new Error(`User not found: ${args.userId}`);
     }
 
-    const now = Date.now();
-
-    // Calculate new billing cycle dates
-    const signupDate = new Date(user.billingCycleStart ?? user.createdAt);
-    const currentDate = new Date(now);
-
-    const newBillingStart = new Date(
-      currentDate.getFullYear(),
-      currentDate.getMonth(),
-      signupDate.getDate(),
-    ).getTime();
-
-    const newBillingEnd = new Date(
-      new Date(newBillingStart).getFullYear(),
-      new Date(newBillingStart).getMonth() + 1,
-      signupDate.getDate(),
-    ).getTime();
-
-    await ctx.db.patch(user._id, {
-      imagesUsedInPeriod: 0,
-      videosUsedInPeriod: 0,
-      billingCycleStart: newBillingStart,
-      billingCycleEnd: newBillingEnd,
-      updatedAt: now,
-    });
+    await startNextBillingCycle(ctx, user, Date.now());
 
     return { success: true };
   },
 });
 
 /**
- * Scheduled task to reset quotas for users whose billing period has ended
+ * Scheduled task to reset quotas for users and workspaces whose billing
+ * period has ended
  *
  * Runs daily to check for expired billing periods
  */
@@ -281,30 +476,16 @@ export const resetExpiredQuotas = internalMutation({
 
     for (const user of allUsers) {
       if (user.billingCycleEnd && now > user.billingCycleEnd) {
-        // Directly reset quota here since this is already an internal mutation
-        const signupDate = new Date(user.billingCycleStart ?? user.createdAt);
-        const currentDate = new Date(now);
-
-        const newBillingStart = new Date(
-          currentDate.getFullYear(),
-          currentDate.getMonth(),
-          signupDate.getDate(),
-        ).getTime();
-
-        const newBillingEnd = new Date(
-          new Date(newBillingStart).getFullYear(),
-          new Date(newBillingStart).getMonth() + 1,
-          signupDate.getDate(),
-        ).getTime();
-
-        await ctx.db.patch(user._id, {
-          imagesUsedInPeriod: 0,
-          videosUsedInPeriod: 0,
-          billingCycleStart: newBillingStart,
-          billingCycleEnd: newBillingEnd,
-          updatedAt: now,
-        });
+        await startNextBillingCycle(ctx, user, now);
+        resetCount++;
+      }
+    }
 
+    const allWorkspaces = await ctx.db.query("workspaces").collect();
+
+    for (const workspace of allWorkspaces) {
+      if (workspace.billingCycleEnd && now > workspace.billingCycleEnd) {
+        await startNextBillingCycle(ctx, workspace, now);
         resetCount++;
       }
     }
@@ -328,6 +509,3 @@ function calculateNextBillingDate(signupTimestamp: number): number {
 
   return nextBillingDate.getTime();
 }
-
-// Import api for internal mutations
-import { api } from "./_generated/api";
@@ -5,6 +5,12 @@
  * - users: User accounts with tiers and storage quotas
  * - assets: Images and videos uploaded by users
  * - projects: Canvas workspaces with saved state
+ * - projectComments: Review comment threads pinned to the canvas
+ * - projectShares: Revocable read-only project links
+ * - projectPresence: Who has a project open, with cursors and selections
+ * - usageLedger: Append-only record of generation quota usage
+ * - variationRecipes: Hand-picked variation presets saved on a project
+ * - workspaces: Teams sharing projects, assets and a pooled quota
  *
  * @remarks
  * All tables use userId indexing for efficient per-user queries.
@@ -14,6 +20,134 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+/**
+ * Canvas state stored for a project (current state and version snapshots)
+ */
+const canvasStateValidator = v.object({
+  backgroundColor: v.optional(v.string()),
+  elements: v.array(
+    v.object({
+      assetId: v.optional(v.string()),
+      assetSyncedAt: v.optional(v.number()),
+      assetType: v.optional(
+        v.union(v.literal("image"), v.literal("video"))
+      ),
+      currentTime: v.optional(v.number()),
+      duration: v.optional(v.number()),
+      height: v.optional(v.number()),
+      id: v.string(),
+      isCollapsed: v.optional(v.boolean()),
+      isPlaying: v.optional(v.boolean()),
+      muted: v.optional(v.boolean()),
+      originalFalUrl: v.optional(v.string()),
+      parentGroupId: v.optional(v.string()),
+      parentIds: v.optional(v.array(v.string())),
+      shapeType: v.optional(
+        v.union(
+          v.literal("arrow"),
+          v.literal("ellipse"),
+          v.literal("rectangle")
+        )
+      ),
+      style: v.optional(
+        v.object({
+          fill: v.string(),
+          fontSize: v.optional(v.number()),
+          stroke: v.string(),
+          strokeWidth: v.number(),
+        })
+      ),
+      text: v.optional(v.string()),
+      title: v.optional(v.string()),
+      transform: v.object({
+        rotation: v.number(),
+        scale: v.number(),
+        x: v.number(),
+        y: v.number(),
+      }),
+      type: v.union(
+        v.literal("image"),
+        v.literal("video"),
+        v.literal("text"),
+        v.literal("shape"),
+        v.literal("frame")
+      ),
+      volume: v.optional(v.number()),
+      width: v.optional(v.number()),
+      zIndex: v.number(),
+    })
+  ),
+  lastModified: v.number(),
+  viewport: v.optional(
+    v.object({
+      scale: v.number(),
+      x: v.number(),
+      y: v.number(),
+    })
+  ),
+});
+
+/**
+ * Settings a generated asset was produced with, kept for regeneration
+ */
+export const generationProvenanceValidator = v.object({
+  endpoint: v.optional(v.string()),
+  imageSize: v.optional(
+    v.object({
+      height: v.number(),
+      width: v.number(),
+    })
+  ),
+  model: v.optional(v.string()),
+  prompt: v.string(),
+  provider: v.optional(v.string()),
+  seed: v.optional(v.number()),
+  sourceAssetIds: v.optional(v.array(v.string())),
+  sourceImageUrls: v.array(v.string()),
+  variationPreset: v.optional(v.string()),
+  variationType: v.optional(v.string()),
+  workflow: v.union(
+    v.literal("fibo"),
+    v.literal("image-to-image"),
+    v.literal("variation")
+  ),
+});
+
+/**
+ * Cached analysis of an image, reused by variation runs on the same image
+ *
+ * Both results are stored as JSON text.
+ */
+export const imageAnalysisValidator = v.object({
+  analyzedAt: v.number(),
+  fiboStructuredPrompt: v.string(),
+  modelVersion: v.string(),
+  styleMoodAnalysis: v.string()
+});
+
+/**
+ * Target intensity (0-100) of each emotion axis for mood variations
+ */
+export const moodVectorValidator = v.object({
+  awe: v.number(),
+  melancholy: v.number(),
+  mystery: v.number(),
+  nostalgia: v.number(),
+  romance: v.number(),
+  serenity: v.number(),
+  tension: v.number(),
+  wonder: v.number()
+});
+
+/**
+ * Role of a workspace member
+ */
+export const workspaceRoleValidator = v.union(
+  v.literal("owner"),
+  v.literal("editor"),
+  v.literal("viewer")
+);
+
 /**
  * Database schema definition
  */
@@ -27,12 +161,14 @@ export default defineSchema({
    * @property key - Plan identifier ("free", "pro")
    * @property name - Display name
    * @property imagesPerPeriod - Number of images allowed per billing period
+   * @property versionsPerProject - Number of version snapshots kept per project (nullable, defaults per plan key)
    * @property videosPerPeriod - Number of videos allowed per billing period
    */
   plans: defineTable({
     imagesPerPeriod: v.number(),
     key: v.string(),
     name: v.string(),
+    versionsPerProject: v.optional(v.number()),
     videosPerPeriod: v.number(),
   }).index("by_key", ["key"]),
 
@@ -43,6 +179,7 @@ export default defineSchema({
    * One record per authenticated user (linked to Clerk userId).
    *
    * @property userId - Clerk user ID (unique, indexed)
+   * @property activeWorkspaceId - Workspace new projects, uploads and generations belong to (nullable, personal space when unset)
    * @property email - User's email address
    * @property tier - Subscription tier ("free" | "paid" for legacy, "pro" for Polar subscriptions)
    * @property storageUsedBytes - Total storage used by user's assets (in bytes)
@@ -51,12 +188,13 @@ export default defineSchema({
    * @property subscriptionStatus - Current subscription status (optional)
    * @property billingCycleStart - Billing cycle start timestamp (optional)
    * @property billingCycleEnd - Billing cycle end timestamp (optional)
-   * @property imagesUsedInPeriod - Number of images generated in current billing period
-   * @property videosUsedInPeriod - Number of videos generated in current billing period
+   * @property imagesUsedInPeriod - Legacy image counter, superseded by the usage ledger
+   * @property videosUsedInPeriod - Legacy video counter, superseded by the usage ledger
    * @property createdAt - Account creation timestamp
    * @property updatedAt - Last account update timestamp
    */
   users: defineTable({
+    activeWorkspaceId: v.optional(v.id("workspaces")),
     billingCycleEnd: v.optional(v.number()),
     billingCycleStart: v.optional(v.number()),
     createdAt: v.number(),
@@ -89,17 +227,22 @@ export default defineSchema({
    * Stores metadata for all uploaded images and videos.
    * Actual files are stored in Convex file storage.
    *
+   * @property analysis - Cached FIBO structured prompt and style analysis, with the model version that produced them (nullable)
    * @property cameraAngle - Camera angle directive for AI-generated camera angle variations (nullable)
    * @property characterVariation - Character description for character variations (nullable)
    * @property createdAt - Upload timestamp
+   * @property customPreset - Preset name for custom preset variations (nullable)
    * @property directorName - Director name for AI-generated director-style variations (nullable)
    * @property duration - Video duration in seconds (nullable, video only)
    * @property emotion - Emotion label for AI-generated emotion variations (nullable)
    * @property height - Asset height in pixels
    * @property lightingScenario - Lighting scenario for AI-generated lighting variations (nullable)
    * @property mimeType - MIME type (e.g., "image/png", "video/mp4")
+   * @property moodVector - Target emotion intensities for mood variations (nullable)
    * @property originalUrl - Original provider URL (nullable, for reference)
-   * @property provider - AI generation provider ("fal" | "replicate", nullable)
+   * @property parentAssetIds - Asset IDs of the images this asset was generated from (nullable)
+   * @property provenance - Generation settings (model, prompt, seed, sources) for regeneration (nullable)
+   * @property provider - ID of the image provider that generated the asset (nullable, e.g. "fal", "replicate")
    * @property sizeBytes - File size in bytes
    * @property storageId - Convex file storage ID (full-size, for AI generation)
    * @property storylineLabel - Time progression label for storyline variations (nullable, e.g., "+1min", "+2h5m")
@@ -109,19 +252,25 @@ export default defineSchema({
    * @property variationType - Variation type for grouping/filtering (nullable, e.g., "director", "camera", "emotion", "weather")
    * @property weather - Weather condition for AI-generated weather variations (nullable)
    * @property width - Asset width in pixels
+   * @property workspaceId - Workspace the asset is shared with (nullable, personal when unset)
    */
   assets: defineTable({
+    analysis: v.optional(imageAnalysisValidator),
     cameraAngle: v.optional(v.string()),
     characterVariation: v.optional(v.string()),
     createdAt: v.number(),
+    customPreset: v.optional(v.string()),
     directorName: v.optional(v.string()),
     duration: v.optional(v.number()),
     emotion: v.optional(v.string()),
     height: v.optional(v.number()),
     lightingScenario: v.optional(v.string()),
     mimeType: v.string(),
+    moodVector: v.optional(moodVectorValidator),
     originalUrl: v.optional(v.string()),
-    provider: v.optional(v.union(v.literal("fal"), v.literal("replicate"))),
+    parentAssetIds: v.optional(v.array(v.string())),
+    provenance: v.optional(generationProvenanceValidator),
+    provider: v.optional(v.string()),
     sizeBytes: v.number(),
     storageId: v.string(),
     storylineLabel: v.optional(v.string()),
@@ -132,10 +281,13 @@ export default defineSchema({
     variationType: v.optional(v.string()),
     weather: v.optional(v.string()),
     width: v.optional(v.number()),
+    workspaceId: v.optional(v.id("workspaces")),
   })
     .index("by_userId", ["userId"])
+    .index("by_userId_and_createdAt", ["userId", "createdAt"])
     .index("by_userId_and_type", ["userId", "type"])
-    .index("by_storageId", ["storageId"]),
+    .index("by_storageId", ["storageId"])
+    .index("by_workspaceId", ["workspaceId"]),
 
   /**
    * Projects table
@@ -143,25 +295,34 @@ export default defineSchema({
    * Stores canvas workspace metadata.
    * Canvas state is moved to project_states table for performance.
    *
-   * @property userId - Owner's Clerk user ID (indexed)
+   * @property userId - Creator's Clerk user ID (indexed)
+   * @property workspaceId - Workspace the project is shared with (nullable, personal when unset)
+   * @property archivedAt - Soft-archive timestamp (nullable, hidden from the main list while set)
    * @property name - Project display name
-   * @property thumbnailStorageId - Convex storage ID for project thumbnail (nullable)
+   * @property thumbnailStorageId - Convex storage ID for project thumbnail (nullable, indexed)
    * @property lastSavedAt - Last auto-save timestamp
    * @property createdAt - Project creation timestamp
    * @property updatedAt - Last project update timestamp
+   * @property unresolvedCommentCount - Open comment threads (nullable, 0 when unset)
    */
   projects: defineTable({
+    archivedAt: v.optional(v.number()),
     createdAt: v.number(),
     imageCount: v.optional(v.number()),
     lastSavedAt: v.number(),
     name: v.string(),
     thumbnailStorageId: v.optional(v.string()),
+    unresolvedCommentCount: v.optional(v.number()),
     updatedAt: v.number(),
     userId: v.string(),
     videoCount: v.optional(v.number()),
+    workspaceId: v.optional(v.id("workspaces")),
   })
     .index("by_userId", ["userId"])
-    .index("by_userId_and_lastSavedAt", ["userId", "lastSavedAt"]),
+    .index("by_userId_and_archivedAt", ["userId", "archivedAt"])
+    .index("by_userId_and_lastSavedAt", ["userId", "lastSavedAt"])
+    .index("by_thumbnailStorageId", ["thumbnailStorageId"])
+    .index("by_workspaceId_and_archivedAt", ["workspaceId", "archivedAt"]),
 
   /**
    * Project States table
@@ -171,51 +332,242 @@ export default defineSchema({
    *
    * @property projectId - Link to projects table (indexed)
    * @property canvasState - Complete canvas state object
+   * @property revision - Incremented on every save, so collaborators can tell remote changes apart (nullable, 0 when unset)
+   * @property updatedBy - Clerk user ID of the last user to save (nullable)
    */
   projectStates: defineTable({
-    canvasState: v.object({
-      backgroundColor: v.optional(v.string()),
-      elements: v.array(
-        v.object({
-          assetId: v.optional(v.string()),
-          assetSyncedAt: v.optional(v.number()),
-          assetType: v.optional(
-            v.union(v.literal("image"), v.literal("video"))
-          ),
-          currentTime: v.optional(v.number()),
-          duration: v.optional(v.number()),
-          height: v.optional(v.number()),
-          id: v.string(),
-          isPlaying: v.optional(v.boolean()),
-          muted: v.optional(v.boolean()),
-          originalFalUrl: v.optional(v.string()),
-          transform: v.object({
-            rotation: v.number(),
-            scale: v.number(),
-            x: v.number(),
-            y: v.number(),
-          }),
-          type: v.union(
-            v.literal("image"),
-            v.literal("video"),
-            v.literal("text"),
-            v.literal("shape")
-          ),
-          volume: v.optional(v.number()),
-          width: v.optional(v.number()),
-          zIndex: v.number(),
-        })
-      ),
-      lastModified: v.number(),
-      viewport: v.optional(
-        v.object({
-          scale: v.number(),
-          x: v.number(),
-          y: v.number(),
-        })
-      ),
-    }),
+    canvasState: canvasStateValidator,
+    projectId: v.id("projects"),
+    revision: v.optional(v.number()),
+    updatedBy: v.optional(v.string())
+  }).index("by_projectId", ["projectId"]),
+
+  /**
+   * Project Presence table
+   *
+   * One record per user with a project open, refreshed by heartbeats.
+   * Records older than the presence timeout are treated as gone.
+   *
+   * @property projectId - Link to projects table (indexed)
+   * @property userId - Clerk user ID (indexed)
+   * @property name - Display name shown to collaborators
+   * @property imageUrl - Avatar URL (nullable)
+   * @property cursor - Pointer position in canvas coordinates (nullable, unset when off the canvas)
+   * @property selectedIds - Selected element IDs, locked for other users
+   * @property lastSeenAt - Last heartbeat timestamp
+   */
+  projectPresence: defineTable({
+    cursor: v.optional(
+      v.object({
+        x: v.number(),
+        y: v.number()
+      })
+    ),
+    imageUrl: v.optional(v.string()),
+    lastSeenAt: v.number(),
+    name: v.string(),
+    projectId: v.id("projects"),
+    selectedIds: v.array(v.string()),
+    userId: v.string()
+  })
+    .index("by_projectId", ["projectId"])
+    .index("by_projectId_and_userId", ["projectId", "userId"]),
+
+  /**
+   * Project Versions table
+   *
+   * Stores restorable snapshots of a project's canvas state. Snapshots are
+   * taken periodically and before bulk removals during saves, on demand, and
+   * before a restore. Retention is limited per plan.
+   *
+   * @property projectId - Link to projects table (indexed)
+   * @property canvasState - Canvas state at the time of the snapshot
+   * @property createdAt - Snapshot timestamp (indexed)
+   * @property kind - How the snapshot was taken ("auto" | "manual" | "restore")
+   * @property label - User-provided name (nullable, manual snapshots only)
+   * @property imageCount - Number of images in the snapshot
+   * @property videoCount - Number of videos in the snapshot
+   * @property userId - Owner's Clerk user ID
+   */
+  projectVersions: defineTable({
+    canvasState: canvasStateValidator,
+    createdAt: v.number(),
+    imageCount: v.number(),
+    kind: v.union(
+      v.literal("auto"),
+      v.literal("manual"),
+      v.literal("restore")
+    ),
+    label: v.optional(v.string()),
+    projectId: v.id("projects"),
+    userId: v.string(),
+    videoCount: v.number()
+  }).index("by_projectId_and_createdAt", ["projectId", "createdAt"]),
+
+  /**
+   * Project History table
+   *
+   * Stores each user's undo/redo steps for a project as patches between
+   * consecutive canvas states, so history survives reloads and device switches.
+   *
+   * @property projectId - Link to projects table (indexed)
+   * @property sequence - Monotonic position of the step within the user's history (indexed)
+   * @property patch - JSON-serialized element changes
+   * @property label - Checkpoint name (nullable, set when the user marks the step)
+   * @property userId - Clerk user ID of the user who made the step (indexed)
+   * @property createdAt - When the step was recorded
+   */
+  projectHistory: defineTable({
+    createdAt: v.number(),
+    label: v.optional(v.string()),
+    patch: v.string(),
+    projectId: v.id("projects"),
+    sequence: v.number(),
+    userId: v.string()
+  }).index("by_projectId_and_userId_and_sequence", [
+    "projectId",
+    "userId",
+    "sequence"
+  ]),
+
+  /**
+   * Project History Positions table
+   *
+   * Stores each user's position within their history of a project.
+   *
+   * @property projectId - Link to projects table (indexed)
+   * @property userId - Clerk user ID (indexed)
+   * @property position - Sequence of the first undone history step
+   * @property updatedAt - Last position change timestamp
+   */
+  projectHistoryPositions: defineTable({
+    position: v.number(),
+    projectId: v.id("projects"),
+    updatedAt: v.number(),
+    userId: v.string()
+  }).index("by_projectId_and_userId", ["projectId", "userId"]),
+
+  /**
+   * Project Comments table
+   *
+   * Review comments on a project. A thread is a root comment pinned to the
+   * canvas, plus replies that point to it. Only roots carry a pin and a
+   * resolved state.
+   *
+   * @property projectId - Link to projects table (indexed)
+   * @property elementId - Canvas element the thread is pinned to (nullable, pinned to the canvas when unset; indexed)
+   * @property position - Pin position: relative to the element's top-left corner when elementId is set, otherwise in canvas coordinates (roots only)
+   * @property parentId - Root comment of the thread (nullable, unset for roots; indexed)
+   * @property authorId - Author's Clerk user ID
+   * @property authorName - Author's display name at the time of writing
+   * @property authorImageUrl - Author's avatar URL (nullable)
+   * @property body - Comment text, with mentions written as @handle
+   * @property mentions - Clerk user IDs mentioned in the body
+   * @property resolvedAt - Resolution timestamp (nullable, open when unset; roots only)
+   * @property resolvedBy - Clerk user ID of the user who resolved the thread (nullable)
+   * @property createdAt - Creation timestamp
+   * @property editedAt - Last edit timestamp (nullable)
+   */
+  projectComments: defineTable({
+    authorId: v.string(),
+    authorImageUrl: v.optional(v.string()),
+    authorName: v.string(),
+    body: v.string(),
+    createdAt: v.number(),
+    editedAt: v.optional(v.number()),
+    elementId: v.optional(v.string()),
+    mentions: v.array(v.string()),
+    parentId: v.optional(v.id("projectComments")),
+    position: v.optional(
+      v.object({
+        x: v.number(),
+        y: v.number()
+      })
+    ),
+    projectId: v.id("projects"),
+    resolvedAt: v.optional(v.number()),
+    resolvedBy: v.optional(v.string())
+  })
+    .index("by_parentId", ["parentId"])
+    .index("by_projectId", ["projectId"])
+    .index("by_projectId_and_elementId", ["projectId", "elementId"]),
+
+  /**
+   * Project Shares table
+   *
+   * Read-only links to a project for people without an account. Links can
+   * expire and can be revoked; revoked links are kept so the owner sees them.
+   *
+   * @property projectId - Link to projects table (indexed)
+   * @property token - Secret token in the share link (indexed)
+   * @property createdBy - Clerk user ID of the user who created the link
+   * @property createdAt - Creation timestamp
+   * @property expiresAt - Expiry timestamp (nullable, never expires when unset)
+   * @property revokedAt - Revocation timestamp (nullable)
+   */
+  projectShares: defineTable({
+    createdAt: v.number(),
+    createdBy: v.string(),
+    expiresAt: v.optional(v.number()),
     projectId: v.id("projects"),
+    revokedAt: v.optional(v.number()),
+    token: v.string()
+  })
+    .index("by_projectId", ["projectId"])
+    .index("by_token", ["token"]),
+
+  /**
+   * Variation Preset Packs table
+   *
+   * Stores user-authored variation presets, used alongside the built-in
+   * camera, lighting, director, and weather lists.
+   *
+   * @property userId - Owner's Clerk user ID (indexed)
+   * @property name - Pack display name
+   * @property description - Optional pack description (nullable)
+   * @property presets - Presets in the pack (name, directive text, tags)
+   * @property createdAt - Pack creation timestamp
+   * @property updatedAt - Last pack update timestamp
+   */
+  variationPresetPacks: defineTable({
+    createdAt: v.number(),
+    description: v.optional(v.string()),
+    name: v.string(),
+    presets: v.array(
+      v.object({
+        directive: v.string(),
+        name: v.string(),
+        tags: v.array(v.string())
+      })
+    ),
+    updatedAt: v.number(),
+    userId: v.string()
+  }).index("by_userId", ["userId"]),
+
+  /**
+   * Variation Recipes table
+   *
+   * Hand-picked variation presets saved on a project, so a selection can be
+   * generated again without picking each preset.
+   *
+   * @property projectId - Link to projects table (indexed)
+   * @property name - Recipe display name (unique per project)
+   * @property variationType - Image variation type the presets belong to
+   * @property items - Picked presets, in generation order
+   * @property variationCount - Number of variations to generate
+   * @property createdBy - Clerk user ID of the user who saved the recipe
+   * @property createdAt - Recipe creation timestamp
+   * @property updatedAt - Last recipe update timestamp
+   */
+  variationRecipes: defineTable({
+    createdAt: v.number(),
+    createdBy: v.string(),
+    items: v.array(v.string()),
+    name: v.string(),
+    projectId: v.id("projects"),
+    updatedAt: v.number(),
+    variationCount: v.number(),
+    variationType: v.string()
   }).index("by_projectId", ["projectId"]),
 
   /**
@@ -253,4 +605,137 @@ export default defineSchema({
   })
     .index("by_userId", ["userId"])
     .index("by_timestamp", ["timestamp"]),
+
+  /**
+   * Usage Ledger table
+   *
+   * Append-only record of quota changes. Period usage is the sum of the
+   * entries since the latest reset of the user, or of the workspace for
+   * entries charged to a workspace.
+   *
+   * @property count - Number of items reserved, committed or refunded
+   * @property createdAt - Entry timestamp
+   * @property credits - Credits reserved, committed or refunded (weighted by model)
+   * @property duration - Video duration in seconds (nullable, video only)
+   * @property endpoint - Provider endpoint used for the generation (nullable)
+   * @property kind - Entry kind ("reservation" | "commit" | "refund" | "reset")
+   * @property model - Model ID used for the generation (nullable)
+   * @property projectId - Project the generation was made in (nullable)
+   * @property reason - Why usage was reset, or "legacy-counter" for migrated balances (nullable)
+   * @property reservationId - Reservation a commit or refund settles (nullable)
+   * @property resolution - Requested output resolution (nullable)
+   * @property type - Generation type ("image" | "video", nullable for resets)
+   * @property userId - Clerk user ID of the member who generated (indexed)
+   * @property workspaceId - Workspace charged for the generation (nullable, personal quota when unset)
+   */
+  usageLedger: defineTable({
+    count: v.number(),
+    createdAt: v.number(),
+    credits: v.number(),
+    duration: v.optional(v.number()),
+    endpoint: v.optional(v.string()),
+    kind: v.union(
+      v.literal("reservation"),
+      v.literal("commit"),
+      v.literal("refund"),
+      v.literal("reset")
+    ),
+    model: v.optional(v.string()),
+    projectId: v.optional(v.id("projects")),
+    reason: v.optional(v.string()),
+    reservationId: v.optional(v.id("usageLedger")),
+    resolution: v.optional(v.string()),
+    type: v.optional(v.union(v.literal("image"), v.literal("video"))),
+    userId: v.string(),
+    workspaceId: v.optional(v.id("workspaces"))
+  })
+    .index("by_userId_and_createdAt", ["userId", "createdAt"])
+    .index("by_reservationId", ["reservationId"])
+    .index("by_workspaceId_and_createdAt", ["workspaceId", "createdAt"]),
+
+  /**
+   * Workspaces table
+   *
+   * Teams that share projects and assets. A workspace has its own Polar
+   * subscription and a quota pooled across its members.
+   *
+   * @property name - Workspace display name
+   * @property ownerId - Clerk user ID of the owner (indexed)
+   * @property tier - Subscription tier of the workspace
+   * @property polarCustomerId - Polar customer ID (optional)
+   * @property polarSubscriptionId - Polar subscription ID (optional, indexed)
+   * @property subscriptionStatus - Current subscription status (optional)
+   * @property billingCycleStart - Billing cycle start timestamp (optional)
+   * @property billingCycleEnd - Billing cycle end timestamp (optional)
+   * @property createdAt - Creation timestamp
+   * @property updatedAt - Last update timestamp
+   */
+  workspaces: defineTable({
+    billingCycleEnd: v.optional(v.number()),
+    billingCycleStart: v.optional(v.number()),
+    createdAt: v.number(),
+    name: v.string(),
+    ownerId: v.string(),
+    polarCustomerId: v.optional(v.string()),
+    polarSubscriptionId: v.optional(v.string()),
+    subscriptionStatus: v.optional(
+      v.union(
+        v.literal("active"),
+        v.literal("cancelled"),
+        v.literal("past_due"),
+        v.literal("incomplete"),
+        v.literal("trialing")
+      )
+    ),
+    tier: v.union(v.literal("free"), v.literal("pro")),
+    updatedAt: v.number()
+  })
+    .index("by_ownerId", ["ownerId"])
+    .index("by_polarSubscriptionId", ["polarSubscriptionId"]),
+
+  /**
+   * Workspace Members table
+   *
+   * One record per user per workspace.
+   *
+   * @property workspaceId - Workspace (indexed)
+   * @property userId - Member's Clerk user ID (indexed)
+   * @property role - "owner" manages members and billing, "editor" edits projects, "viewer" is read-only
+   * @property createdAt - Join timestamp
+   */
+  workspaceMembers: defineTable({
+    createdAt: v.number(),
+    role: workspaceRoleValidator,
+    userId: v.string(),
+    workspaceId: v.id("workspaces")
+  })
+    .index("by_userId", ["userId"])
+    .index("by_workspaceId", ["workspaceId"])
+    .index("by_workspaceId_and_userId", ["workspaceId", "userId"]),
+
+  /**
+   * Workspace Invites table
+   *
+   * Pending invitations to join a workspace, accepted by following a link
+   * that carries the token.
+   *
+   * @property workspaceId - Workspace to join (indexed)
+   * @property email - Invited email address, must match the accepting account
+   * @property role - Role granted on acceptance ("editor" | "viewer")
+   * @property token - Secret token in the invite link (indexed)
+   * @property invitedBy - Clerk user ID of the inviting owner
+   * @property createdAt - Invite timestamp
+   * @property expiresAt - Expiry timestamp
+   */
+  workspaceInvites: defineTable({
+    createdAt: v.number(),
+    email: v.string(),
+    expiresAt: v.number(),
+    invitedBy: v.string(),
+    role: v.union(v.literal("editor"), v.literal("viewer")),
+    token: v.string(),
+    workspaceId: v.id("workspaces")
+  })
+    .index("by_token", ["token"])
+    .index("by_workspaceId", ["workspaceId"]),
 });
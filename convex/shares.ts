@@ -0,0 +1,307 @@
+/**
+ * Convex project share link functions.
+ *
+ * Share links give people without an account a read-only view of a
+ * project's saved canvas. Links carry a secret token, can expire, and can
+ * be revoked by anyone who can edit the project. Assets on a shared canvas
+ * are only served through the storage proxy for a valid token.
+ */
+
+import { v } from "convex/values";
+import type { Doc } from "./_generated/dataModel";
+import { mutation, query, type QueryCtx } from "./_generated/server";
+import { requireProjectAccess } from "./workspaces";
+
+/**
+ * Longest allowed link lifetime, in days.
+ */
+const MAX_EXPIRY_DAYS = 365;
+
+/**
+ * Maximum number of active links per project.
+ */
+const MAX_ACTIVE_SHARES = 20;
+
+/**
+ * Whether a share link can still be used.
+ */
+function isShareActive(share: Doc<"projectShares">, now: number) {
+  return (
+    share.revokedAt === undefined &&
+    (share.expiresAt === undefined || now < share.expiresAt)
+  );
+}
+
+/**
+ * Whether an asset may be shown as part of a project: it belongs to the
+ * project owner or to the project's workspace.
+ */
+function isProjectAsset(asset: Doc<"assets">, project: Doc<"projects">) {
+  return (
+    asset.userId === project.userId ||
+    (project.workspaceId !== undefined &&
+      asset.workspaceId === project.workspaceId)
+  );
+}
+
+/**
+ * Resolves an active share link to its project and saved canvas.
+ *
+ * @returns The share, project and canvas state, or null if the link does
+ * not exist, was revoked, has expired, or the project has no saved state
+ */
+async function getActiveShare(ctx: QueryCtx, token: string) {
+  const share = await ctx.db
+    .query("projectShares")
+    .withIndex("by_token", (q) => q.eq("token", token))
+    .first();
+
+  if (!share || !isShareActive(share, Date.now())) {
+    return null;
+  }
+
+  const project = await ctx.db.get(share.projectId);
+  if (!project) {
+    return null;
+  }
+
+  const projectState = await ctx.db
+    .query("projectStates")
+    .withIndex("by_projectId", (q) => q.eq("projectId", project._id))
+    .first();
+
+  if (!projectState) {
+    return null;
+  }
+
+  return { canvasState: projectState.canvasState, project, share };
+}
+
+/**
+ * Lists a project's share links, newest first.
+ *
+ * @param projectId - Project ID
+ * @returns Share links with their state; revoked and expired links are
+ * included so they can be told apart from active ones
+ */
+export const listShares = query({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    await requireProjectAccess(ctx, args.projectId, identity.subject, "editor");
+
+    const shares = await ctx.db
+      .query("projectShares")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .order("desc")
+      .collect();
+
+    const now = Date.now();
+
+    return shares.map((share) => ({
+      _id: share._id,
+      createdAt: share.createdAt,
+      expiresAt: share.expiresAt,
+      isActive: isShareActive(share, now),
+      revokedAt: share.revokedAt,
+      token: share.token,
+    }));
+  },
+});
+
+/**
+ * Creates a read-only share link for a project.
+ *
+ * @param projectId - Project ID
+ * @param expiresInDays - Link lifetime in days (optional, never expires when omitted)
+ * @returns Share ID and the token to put in the link
+ */
+export const createShare = mutation({
+  args: {
+    expiresInDays: v.optional(v.number()),
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+
+    await requireProjectAccess(ctx, args.projectId, userId, "editor");
+
+    if (
+      args.expiresInDays !== undefined &&
+      (args.expiresInDays <= 0 || args.expiresInDays > MAX_EXPIRY_DAYS)
+    ) {
+      throw new Error(`Expiry must be between 1 and ${MAX_EXPIRY_DAYS} days`);
+    }
+
+    const now = Date.now();
+
+    const shares = await ctx.db
+      .query("projectShares")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .collect();
+
+    if (
+      shares.filter((share) => isShareActive(share, now)).length >=
+      MAX_ACTIVE_SHARES
+    ) {
+      throw new Error(
+        `A project can have at most ${MAX_ACTIVE_SHARES} active share links`,
+      );
+    }
+
+    const token = crypto.randomUUID();
+
+    const shareId = await ctx.db.insert("projectShares", {
+      createdAt: now,
+      createdBy: userId,
+      expiresAt:
+        args.expiresInDays !== undefined
+          ? now + args.expiresInDays * 24 * 60 * 60 * 1000
+          : undefined,
+      projectId: args.projectId,
+      token,
+    });
+
+    return { shareId, token };
+  },
+});
+
+/**
+ * Revokes a share link. Revoking an already revoked link is a no-op.
+ *
+ * @param shareId - Share ID
+ */
+export const revokeShare = mutation({
+  args: {
+    shareId: v.id("projectShares"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const share = await ctx.db.get(args.shareId);
+    if (!share) {
+      throw new Error("Share link not found");
+    }
+
+    await requireProjectAccess(
+      ctx,
+      share.projectId,
+      identity.subject,
+      "editor",
+    );
+
+    if (share.revokedAt === undefined) {
+      await ctx.db.patch(args.shareId, { revokedAt: Date.now() });
+    }
+  },
+});
+
+/**
+ * Gets the saved canvas of a shared project. Does not require
+ * authentication; the token is the credential.
+ *
+ * @param token - Token from the share link
+ * @returns Project name, link expiry and canvas state, or null if the link
+ * is not usable. Media elements whose asset cannot be shown are dropped.
+ */
+export const getSharedProject = query({
+  args: {
+    token: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const shared = await getActiveShare(ctx, args.token);
+    if (!shared) {
+      return null;
+    }
+
+    const { canvasState, project, share } = shared;
+
+    const elements = [];
+    for (const element of canvasState.elements) {
+      if (element.type !== "image" && element.type !== "video") {
+        elements.push(element);
+        continue;
+      }
+
+      const assetId = element.assetId
+        ? ctx.db.normalizeId("assets", element.assetId)
+        : null;
+      const asset = assetId ? await ctx.db.get(assetId) : null;
+
+      if (asset && isProjectAsset(asset, project)) {
+        // Source URLs from generation providers are not shared
+        elements.push({ ...element, originalFalUrl: undefined });
+      }
+    }
+
+    return {
+      canvasState: {
+        backgroundColor: canvasState.backgroundColor,
+        elements,
+        lastModified: canvasState.lastModified,
+        viewport: canvasState.viewport,
+      },
+      expiresAt: share.expiresAt,
+      name: project.name,
+    };
+  },
+});
+
+/**
+ * Resolves the storage URL of an asset on a shared canvas. Used by the
+ * storage proxy, which serves the file without exposing the URL.
+ *
+ * @param token - Token from the share link
+ * @param assetId - Asset ID of an element on the shared canvas
+ * @param variant - "thumbnail" for the thumbnail when one exists (optional)
+ * @returns Storage URL, or null if the link is not usable or the asset is
+ * not on the shared canvas
+ */
+export const getSharedAssetUrl = query({
+  args: {
+    assetId: v.string(),
+    token: v.string(),
+    variant: v.optional(v.literal("thumbnail")),
+  },
+  handler: async (ctx, args) => {
+    const shared = await getActiveShare(ctx, args.token);
+    if (!shared) {
+      return null;
+    }
+
+    // Only assets placed on the canvas are reachable through the link
+    const isOnCanvas = shared.canvasState.elements.some(
+      (element) => element.assetId === args.assetId,
+    );
+    const assetId = ctx.db.normalizeId("assets", args.assetId);
+    if (!isOnCanvas || !assetId) {
+      return null;
+    }
+
+    const asset = await ctx.db.get(assetId);
+    if (!asset || !isProjectAsset(asset, shared.project)) {
+      return null;
+    }
+
+    const storageId =
+      args.variant === "thumbnail" && asset.thumbnailStorageId
+        ? asset.thumbnailStorageId
+        : asset.storageId;
+
+    return await ctx.storage.getUrl(storageId);
+  },
+});
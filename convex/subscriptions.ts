@@ -7,6 +7,8 @@
 import { v } from "convex/values";
 import { internal } from "./_generated/api";
 import { action, internalMutation, query } from "./_generated/server";
+import { appendResetEntry, getPeriodUsage } from "./usageLedger";
+import { downgradeWorkspace, requireWebhookSecret } from "./workspaces";
 
 /**
  * Gets current user's subscription status
@@ -15,6 +17,7 @@ import { action, internalMutation, query } from "./_generated/server";
  * - Current tier
  * - Subscription status
  * - Billing cycle dates
+ * - Credits used this period, summed from the usage ledger
  * - Polar customer and subscription IDs
  *
  * @returns Subscription details or null if not authenticated
@@ -54,16 +57,18 @@ export const getSubscriptionStatus = query({
         (user.tier === "pro" || user.tier === "paid" ? 25 : 3),
     };
 
+    const usage = await getPeriodUsage(ctx, user);
+
     return {
       billingCycleEnd: user.billingCycleEnd ?? null,
       billingCycleStart: user.billingCycleStart ?? null,
-      imagesUsedInPeriod: user.imagesUsedInPeriod ?? 0,
+      imagesUsedInPeriod: usage.images,
       polarCustomerId: user.polarCustomerId ?? null,
       polarSubscriptionId: user.polarSubscriptionId ?? null,
       quotaLimits: limits,
       subscriptionStatus: user.subscriptionStatus ?? null,
       tier: user.tier,
-      videosUsedInPeriod: user.videosUsedInPeriod ?? 0,
+      videosUsedInPeriod: usage.videos,
     };
   },
 });
@@ -72,7 +77,7 @@ export const getSubscriptionStatus = query({
  * Internal mutation to upgrade user to Pro tier
  *
  * Called by webhook handlers when a subscription is created/activated.
- * Updates user tier, sets billing cycle dates, and resets quota.
+ * Updates user tier, sets billing cycle dates, and resets quota usage.
  *
  * @param userId - Clerk user ID
  * @param polarCustomerId - Polar customer ID
@@ -105,12 +110,12 @@ export const handleUpgradeInternal = internalMutation({
       subscriptionStatus: "active",
       billingCycleStart: args.billingCycleStart,
       billingCycleEnd: args.billingCycleEnd,
-      // Reset quota counters when upgrading
-      imagesUsedInPeriod: 0,
-      videosUsedInPeriod: 0,
       updatedAt: Date.now(),
     });
 
+    // Reset quota usage when upgrading
+    await appendResetEntry(ctx, user.userId, "upgrade");
+
     return { success: true };
   },
 });
@@ -190,12 +195,12 @@ export const handleDowngrade = internalMutation({
       subscriptionStatus: undefined,
       billingCycleStart: adjustedStart,
       billingCycleEnd: billingCycleEnd,
-      // Reset quota counters when downgrading
-      imagesUsedInPeriod: 0,
-      videosUsedInPeriod: 0,
       updatedAt: now,
     });
 
+    // Reset quota usage when downgrading
+    await appendResetEntry(ctx, user.userId, "downgrade");
+
     return { success: true };
   },
 });
@@ -203,7 +208,8 @@ export const handleDowngrade = internalMutation({
 /**
  * Internal mutation to update subscription billing dates
  *
- * Called by webhook handlers when a subscription is renewed.
+ * Called by webhook handlers when a subscription is renewed. Team
+ * subscriptions renew the workspace's pooled quota.
  *
  * @param polarSubscriptionId - Polar subscription ID
  * @param billingCycleStart - New billing cycle start timestamp
@@ -224,37 +230,62 @@ export const updateBillingCycleInternal = internalMutation({
       .first();
 
     if (!user) {
-      throw new Error(
-        `User not found for subscription: ${args.polarSubscriptionId}`,
-      );
+      const workspace = await ctx.db
+        .query("workspaces")
+        .withIndex("by_polarSubscriptionId", (q) =>
+          q.eq("polarSubscriptionId", args.polarSubscriptionId),
+        )
+        .first();
+
+      if (!workspace) {
+        throw new Error(
+          `User not found for subscription: ${args.polarSubscriptionId}`,
+        );
+      }
+
+      await ctx.db.patch(workspace._id, {
+        billingCycleStart: args.billingCycleStart,
+        billingCycleEnd: args.billingCycleEnd,
+        updatedAt: Date.now(),
+      });
+
+      await appendResetEntry(ctx, workspace.ownerId, "renewal", workspace._id);
+
+      return { success: true };
     }
 
     await ctx.db.patch(user._id, {
       billingCycleStart: args.billingCycleStart,
       billingCycleEnd: args.billingCycleEnd,
-      // Reset quota counters on billing cycle renewal
-      imagesUsedInPeriod: 0,
-      videosUsedInPeriod: 0,
       updatedAt: Date.now(),
     });
 
+    // Reset quota usage on billing cycle renewal
+    await appendResetEntry(ctx, user.userId, "renewal");
+
     return { success: true };
   },
 });
 
 /**
  * Action wrapper to update subscription billing dates
+ *
+ * Requires the shared webhook secret, since a renewal resets quota usage.
  */
 export const updateBillingCycle = action({
   args: {
     polarSubscriptionId: v.string(),
     billingCycleStart: v.number(),
     billingCycleEnd: v.number(),
+    webhookSecret: v.string(),
   },
   handler: async (ctx, args) => {
+    const { webhookSecret, ...billingCycle } = args;
+    requireWebhookSecret(webhookSecret);
+
     return await ctx.runMutation(
       (internal as any).subscriptions.updateBillingCycleInternal,
-      args,
+      billingCycle,
     );
   },
 });
@@ -262,7 +293,9 @@ export const updateBillingCycle = action({
 /**
  * Internal mutation to update subscription status
  *
- * Called by webhook handlers when subscription status changes.
+ * Called by webhook handlers when subscription status changes, for user or
+ * team (workspace) subscriptions. Cancelling a team subscription downgrades
+ * the workspace.
  *
  * @param polarSubscriptionId - Polar subscription ID
  * @param status - New subscription status
@@ -287,9 +320,32 @@ export const updateSubscriptionStatusInternal = internalMutation({
       .first();
 
     if (!user) {
-      throw new Error(
-        `User not found for subscription: ${args.polarSubscriptionId}`,
-      );
+      const workspace = await ctx.db
+        .query("workspaces")
+        .withIndex("by_polarSubscriptionId", (q) =>
+          q.eq("polarSubscriptionId", args.polarSubscriptionId),
+        )
+        .first();
+
+      if (!workspace) {
+        throw new Error(
+          `User not found for subscription: ${args.polarSubscriptionId}`,
+        );
+      }
+
+      // Workspace limits only follow the tier, so a cancelled team
+      // subscription downgrades the workspace right away
+      if (args.status === "cancelled") {
+        await downgradeWorkspace(ctx, workspace);
+        return { success: true };
+      }
+
+      await ctx.db.patch(workspace._id, {
+        subscriptionStatus: args.status,
+        updatedAt: Date.now(),
+      });
+
+      return { success: true };
     }
 
     await ctx.db.patch(user._id, {
@@ -303,6 +359,9 @@ export const updateSubscriptionStatusInternal = internalMutation({
 
 /**
  * Action wrapper to update subscription status
+ *
+ * Requires the shared webhook secret, since cancelling downgrades
+ * workspaces.
  */
 export const updateSubscriptionStatus = action({
   args: {
@@ -314,11 +373,15 @@ export const updateSubscriptionStatus = action({
       v.literal("incomplete"),
       v.literal("trialing"),
     ),
+    webhookSecret: v.string(),
   },
   handler: async (ctx, args) => {
+    const { webhookSecret, ...status } = args;
+    requireWebhookSecret(webhookSecret);
+
     return await ctx.runMutation(
       (internal as any).subscriptions.updateSubscriptionStatusInternal,
-      args,
+      status,
     );
   },
 });
@@ -0,0 +1,133 @@
+/**
+ * Convex usage history functions.
+ *
+ * Reports what a user generated over time, combining generated assets with
+ * usage ledger entries so usage can be broken down by day, model,
+ * variation type and project. Projects come from the ledger, which records
+ * the project each generation was made in.
+ */
+
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { query, type QueryCtx } from "./_generated/server";
+
+/**
+ * Maximum number of assets and ledger entries returned per query.
+ */
+const MAX_HISTORY_ROWS = 5000;
+
+/**
+ * Gets the names of the projects referenced by ledger entries.
+ *
+ * @remarks
+ * Ledger entries record the project each generation was made in, so only
+ * those projects are loaded. Deleted projects are left out.
+ */
+async function getLedgerProjects(ctx: QueryCtx, entries: Doc<"usageLedger">[]) {
+  const projectIds = new Set<Id<"projects">>();
+  for (const entry of entries) {
+    if (entry.projectId) {
+      projectIds.add(entry.projectId);
+    }
+  }
+
+  const projects = await Promise.all(
+    [...projectIds].map((projectId) => ctx.db.get(projectId)),
+  );
+
+  return projects.flatMap((project) =>
+    project ? [{ _id: project._id, name: project.name }] : [],
+  );
+}
+
+/**
+ * Gets the current user's generations and quota events in a time range.
+ *
+ * @param since - Start of the range (timestamp, inclusive)
+ * @param until - End of the range (timestamp, exclusive, defaults to now)
+ * @returns Generated assets with their model and variation type, ledger
+ * entries with their project, names of the referenced projects, and whether
+ * either list was truncated
+ */
+export const getUsageHistory = query({
+  args: {
+    since: v.number(),
+    until: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+    const until = args.until ?? Date.now();
+
+    const assets = await ctx.db
+      .query("assets")
+      .withIndex("by_userId_and_createdAt", (q) =>
+        q
+          .eq("userId", userId)
+          .gte("createdAt", args.since)
+          .lt("createdAt", until),
+      )
+      .order("desc")
+      .take(MAX_HISTORY_ROWS + 1);
+
+    const ledgerEntries = await ctx.db
+      .query("usageLedger")
+      .withIndex("by_userId_and_createdAt", (q) =>
+        q
+          .eq("userId", userId)
+          .gte("createdAt", args.since)
+          .lt("createdAt", until),
+      )
+      .order("desc")
+      .take(MAX_HISTORY_ROWS + 1);
+
+    // Generated assets have provenance, a variation type or source images;
+    // plain uploads are not generations
+    const generations = assets
+      .slice(0, MAX_HISTORY_ROWS)
+      .filter(
+        (asset) =>
+          asset.provenance || asset.variationType || asset.parentAssetIds,
+      )
+      .map((asset) => ({
+        assetId: asset._id,
+        createdAt: asset.createdAt,
+        model: asset.provenance?.model,
+        provider: asset.provider,
+        type: asset.type,
+        variationType: asset.variationType,
+      }));
+
+    const reportedEntries = ledgerEntries.slice(0, MAX_HISTORY_ROWS);
+
+    // Commits repeat their reservation, so only the reservation is reported
+    const quotaEvents = reportedEntries.flatMap((entry) =>
+      entry.kind === "commit"
+        ? []
+        : [
+            {
+              count: entry.count,
+              createdAt: entry.createdAt,
+              credits: entry.credits,
+              kind: entry.kind,
+              model: entry.model,
+              projectId: entry.projectId,
+              type: entry.type,
+            },
+          ],
+    );
+
+    return {
+      generations,
+      projects: await getLedgerProjects(ctx, reportedEntries),
+      quotaEvents,
+      truncated:
+        assets.length > MAX_HISTORY_ROWS ||
+        ledgerEntries.length > MAX_HISTORY_ROWS,
+    };
+  },
+});
@@ -0,0 +1,245 @@
+/**
+ * Convex usage ledger functions.
+ *
+ * Every quota change is appended to the usageLedger table instead of
+ * mutating counters on the user, so the cost of each run and every refund
+ * can be audited. Period usage is derived by summing the ledger.
+ */
+
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { query, type MutationCtx, type QueryCtx } from "./_generated/server";
+
+export type GenerationType = "image" | "video";
+
+type LedgerEntryKind = Doc<"usageLedger">["kind"];
+
+/**
+ * Credits charged per generated item when the model has no explicit cost.
+ */
+const DEFAULT_CREDIT_COST: Record<GenerationType, number> = {
+  image: 1,
+  video: 1,
+};
+
+/**
+ * Credits charged per generated item, keyed by model ID.
+ *
+ * @remarks
+ * Sora 2 and VEO 3.1 Fast are the baseline video models; Sora 2 Pro,
+ * VEO 3.1 and Ray 2 restyles are billed at twice the rate.
+ */
+export const MODEL_CREDIT_COSTS: Record<string, number> = {
+  "nano-banana": 1,
+  "ray-2-modify": 2,
+  seedream: 1,
+  "sora-2": 1,
+  "sora-2-pro": 2,
+  "sora-2-text": 1,
+  "veo-3.1": 1,
+  "veo-3.1-extend": 1,
+  "veo-3.1-pro": 2,
+  "veo-3.1-text": 1,
+};
+
+/**
+ * Maximum number of entries returned by listUsageEntries.
+ */
+const MAX_LISTED_ENTRIES = 500;
+
+/**
+ * Gets the credit cost of a generation.
+ *
+ * @param type - Generation type
+ * @param count - Number of items generated
+ * @param model - Model ID (optional)
+ * @returns Total credits for the generation
+ */
+export function getCreditCost(
+  type: GenerationType,
+  count: number,
+  model?: string,
+): number {
+  const unitCost =
+    (model ? MODEL_CREDIT_COSTS[model] : undefined) ??
+    DEFAULT_CREDIT_COST[type];
+  return unitCost * count;
+}
+
+/**
+ * Credits used in the current billing period, per generation type.
+ */
+export interface PeriodUsage {
+  images: number;
+  videos: number;
+}
+
+/**
+ * Account a quota is charged to: a user's personal quota or the pooled
+ * quota of a workspace.
+ */
+export type QuotaAccount = Doc<"users"> | Doc<"workspaces">;
+
+/**
+ * Whether a quota account is a workspace.
+ */
+export function isWorkspaceAccount(
+  account: QuotaAccount,
+): account is Doc<"workspaces"> {
+  return "ownerId" in account;
+}
+
+/**
+ * Sums an account's ledger entries for the current billing period.
+ *
+ * @remarks
+ * Reservations add credits and refunds subtract them; commits only confirm
+ * a reservation and do not change the total. Entries before the latest
+ * reset are ignored, as is everything once the period has ended but the
+ * reset job has not run yet. A user's personal usage excludes the entries
+ * charged to their workspaces.
+ *
+ * The period is bounded by the latest reset rather than the cycle start:
+ * a rolled-over cycle can start after the rollover (e.g. month-end signup
+ * dates), and entries made before that start still count.
+ *
+ * @param ctx - Query or mutation context
+ * @param account - User or workspace whose usage to sum
+ */
+export async function getPeriodUsage(
+  ctx: QueryCtx,
+  account: QuotaAccount,
+): Promise<PeriodUsage> {
+  const usage: PeriodUsage = { images: 0, videos: 0 };
+
+  if (account.billingCycleEnd && Date.now() > account.billingCycleEnd) {
+    return usage;
+  }
+
+  const entries = isWorkspaceAccount(account)
+    ? ctx.db
+        .query("usageLedger")
+        .withIndex("by_workspaceId_and_createdAt", (q) =>
+          q.eq("workspaceId", account._id),
+        )
+        .order("desc")
+    : ctx.db
+        .query("usageLedger")
+        .withIndex("by_userId_and_createdAt", (q) =>
+          q.eq("userId", account.userId),
+        )
+        .order("desc");
+
+  for await (const entry of entries) {
+    if (!isWorkspaceAccount(account) && entry.workspaceId) continue;
+    if (entry.kind === "reset") break;
+    if (entry.kind === "commit" || !entry.type) continue;
+
+    const credits = entry.kind === "refund" ? -entry.credits : entry.credits;
+    if (entry.type === "image") {
+      usage.images += credits;
+    } else {
+      usage.videos += credits;
+    }
+  }
+
+  return {
+    images: Math.max(0, usage.images),
+    videos: Math.max(0, usage.videos),
+  };
+}
+
+/**
+ * Fields recorded with a ledger entry.
+ */
+export interface LedgerEntryInput {
+  count: number;
+  credits: number;
+  duration?: number;
+  endpoint?: string;
+  kind: LedgerEntryKind;
+  model?: string;
+  projectId?: Id<"projects">;
+  reason?: string;
+  reservationId?: Id<"usageLedger">;
+  resolution?: string;
+  type?: GenerationType;
+  workspaceId?: Id<"workspaces">;
+}
+
+/**
+ * Appends an entry to a user's usage ledger.
+ *
+ * @param ctx - Mutation context
+ * @param userId - Clerk user ID
+ * @param entry - Entry fields
+ * @returns ID of the new entry
+ */
+export async function appendLedgerEntry(
+  ctx: MutationCtx,
+  userId: string,
+  entry: LedgerEntryInput,
+): Promise<Id<"usageLedger">> {
+  return await ctx.db.insert("usageLedger", {
+    ...entry,
+    createdAt: Date.now(),
+    userId,
+  });
+}
+
+/**
+ * Appends a reset entry, which starts a new usage total for the user, or
+ * for the workspace when one is given.
+ *
+ * @param ctx - Mutation context
+ * @param userId - Clerk user ID
+ * @param reason - Why usage was reset (e.g. "renewal", "upgrade")
+ * @param workspaceId - Workspace whose pooled usage to reset (optional)
+ */
+export async function appendResetEntry(
+  ctx: MutationCtx,
+  userId: string,
+  reason: string,
+  workspaceId?: Id<"workspaces">,
+): Promise<void> {
+  await appendLedgerEntry(ctx, userId, {
+    count: 0,
+    credits: 0,
+    kind: "reset",
+    reason,
+    workspaceId,
+  });
+}
+
+/**
+ * Lists the current user's ledger entries, newest first.
+ *
+ * @param since - Only return entries created at or after this timestamp (optional)
+ * @param limit - Maximum number of entries (optional, default and max 500)
+ */
+export const listUsageEntries = query({
+  args: {
+    limit: v.optional(v.number()),
+    since: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+    const limit = Math.min(
+      args.limit ?? MAX_LISTED_ENTRIES,
+      MAX_LISTED_ENTRIES,
+    );
+
+    return await ctx.db
+      .query("usageLedger")
+      .withIndex("by_userId_and_createdAt", (q) =>
+        q.eq("userId", userId).gte("createdAt", args.since ?? 0),
+      )
+      .order("desc")
+      .take(limit);
+  },
+});
@@ -0,0 +1,245 @@
+/**
+ * Convex variation preset functions.
+ *
+ * Stores user-authored variation preset packs. Each preset pairs a name
+ * with the directive text sent to the variation prompt, plus optional tags
+ * for filtering.
+ */
+
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { mutation, query, type QueryCtx } from "./_generated/server";
+
+/**
+ * Maximum number of packs a user can own.
+ */
+const MAX_PACKS_PER_USER = 50;
+
+/**
+ * Maximum number of presets in a single pack.
+ */
+const MAX_PRESETS_PER_PACK = 100;
+
+/**
+ * Maximum length of pack and preset names.
+ */
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Maximum length of a pack description.
+ */
+const MAX_DESCRIPTION_LENGTH = 500;
+
+/**
+ * Maximum length of a preset directive.
+ */
+const MAX_DIRECTIVE_LENGTH = 2000;
+
+/**
+ * Maximum number of tags per preset, and the maximum length of each tag.
+ */
+const MAX_TAGS_PER_PRESET = 10;
+const MAX_TAG_LENGTH = 30;
+
+/**
+ * A single preset as stored in a pack.
+ */
+const presetValidator = v.object({
+  directive: v.string(),
+  name: v.string(),
+  tags: v.array(v.string()),
+});
+
+/**
+ * Trims and validates pack fields.
+ *
+ * @throws Error if any field is empty or exceeds its limit
+ */
+function normalizePack(args: {
+  description?: string;
+  name: string;
+  presets: Array<{ directive: string; name: string; tags: string[] }>;
+}) {
+  const name = args.name.trim();
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw new Error(`Pack name must be 1-${MAX_NAME_LENGTH} characters`);
+  }
+
+  const description = args.description?.trim() || undefined;
+  if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+    throw new Error(
+      `Pack description too long (max ${MAX_DESCRIPTION_LENGTH} characters)`,
+    );
+  }
+
+  if (args.presets.length > MAX_PRESETS_PER_PACK) {
+    throw new Error(
+      `Too many presets in pack (max ${MAX_PRESETS_PER_PACK} presets)`,
+    );
+  }
+
+  const presets = args.presets.map((preset) => {
+    const presetName = preset.name.trim();
+    if (!presetName || presetName.length > MAX_NAME_LENGTH) {
+      throw new Error(`Preset name must be 1-${MAX_NAME_LENGTH} characters`);
+    }
+
+    const directive = preset.directive.trim();
+    if (!directive || directive.length > MAX_DIRECTIVE_LENGTH) {
+      throw new Error(
+        `Directive for "${presetName}" must be 1-${MAX_DIRECTIVE_LENGTH} characters`,
+      );
+    }
+
+    const tags = [
+      ...new Set(preset.tags.map((tag) => tag.trim().toLowerCase())),
+    ].filter(Boolean);
+    if (
+      tags.length > MAX_TAGS_PER_PRESET ||
+      tags.some((tag) => tag.length > MAX_TAG_LENGTH)
+    ) {
+      throw new Error(
+        `Preset "${presetName}" allows up to ${MAX_TAGS_PER_PRESET} tags of ${MAX_TAG_LENGTH} characters`,
+      );
+    }
+
+    return { directive, name: presetName, tags };
+  });
+
+  return { description, name, presets };
+}
+
+/**
+ * Fetches a preset pack owned by the authenticated user.
+ *
+ * @throws Error if the user is not authenticated or does not own the pack
+ */
+async function getOwnedPack(ctx: QueryCtx, packId: Id<"variationPresetPacks">) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    throw new Error("Not authenticated");
+  }
+
+  const userId = identity.subject;
+
+  // Use index-based query to prevent IDOR timing attacks
+  const pack = await ctx.db
+    .query("variationPresetPacks")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .filter((q) => q.eq(q.field("_id"), packId))
+    .first();
+
+  if (!pack) {
+    // Unified error prevents user enumeration
+    throw new Error("Preset pack not found or access denied");
+  }
+
+  return pack;
+}
+
+/**
+ * Lists the authenticated user's preset packs.
+ *
+ * @returns Packs ordered by most recently updated
+ */
+export const listPacks = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const packs = await ctx.db
+      .query("variationPresetPacks")
+      .withIndex("by_userId", (q) => q.eq("userId", identity.subject))
+      .collect();
+
+    return packs.sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+});
+
+/**
+ * Creates a preset pack. Also used to import packs shared as JSON.
+ *
+ * @param name - Pack display name
+ * @param description - Optional pack description
+ * @param presets - Presets in the pack
+ * @returns ID of the new pack
+ */
+export const createPack = mutation({
+  args: {
+    description: v.optional(v.string()),
+    name: v.string(),
+    presets: v.array(presetValidator),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+
+    const existingPacks = await ctx.db
+      .query("variationPresetPacks")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .take(MAX_PACKS_PER_USER);
+
+    if (existingPacks.length >= MAX_PACKS_PER_USER) {
+      throw new Error(
+        `Preset pack limit reached (max ${MAX_PACKS_PER_USER} packs)`,
+      );
+    }
+
+    const now = Date.now();
+
+    return await ctx.db.insert("variationPresetPacks", {
+      ...normalizePack(args),
+      createdAt: now,
+      updatedAt: now,
+      userId,
+    });
+  },
+});
+
+/**
+ * Replaces the contents of a preset pack.
+ *
+ * @param packId - ID of the pack
+ * @param name - Pack display name
+ * @param description - Optional pack description
+ * @param presets - Presets in the pack
+ */
+export const updatePack = mutation({
+  args: {
+    description: v.optional(v.string()),
+    name: v.string(),
+    packId: v.id("variationPresetPacks"),
+    presets: v.array(presetValidator),
+  },
+  handler: async (ctx, args) => {
+    await getOwnedPack(ctx, args.packId);
+
+    await ctx.db.patch(args.packId, {
+      ...normalizePack(args),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Deletes a preset pack.
+ *
+ * @param packId - ID of the pack
+ */
+export const deletePack = mutation({
+  args: {
+    packId: v.id("variationPresetPacks"),
+  },
+  handler: async (ctx, args) => {
+    await getOwnedPack(ctx, args.packId);
+
+    await ctx.db.delete(args.packId);
+  },
+});
@@ -0,0 +1,199 @@
+/**
+ * Convex variation recipe functions.
+ *
+ * Stores hand-picked variation presets on a project. A recipe names a
+ * variation type, the presets picked for it and the number of variations,
+ * so anyone who can edit the project can generate the selection again.
+ */
+
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { requireProjectAccess } from "./workspaces";
+
+/**
+ * Maximum number of recipes on a project.
+ */
+const MAX_RECIPES_PER_PROJECT = 50;
+
+/**
+ * Maximum length of a recipe name.
+ */
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Limits of the variation count, matching the variation API routes.
+ */
+const MIN_VARIATION_COUNT = 1;
+const MAX_VARIATION_COUNT = 24;
+
+/**
+ * Maximum length of a picked preset (the longest built-in presets carry
+ * their full directive text).
+ */
+const MAX_ITEM_LENGTH = 2200;
+
+/**
+ * Trims and validates recipe fields.
+ *
+ * @throws Error if any field is empty or exceeds its limit
+ */
+function normalizeRecipe(args: {
+  items: string[];
+  name: string;
+  variationCount: number;
+  variationType: string;
+}) {
+  const name = args.name.trim();
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw new Error(`Recipe name must be 1-${MAX_NAME_LENGTH} characters`);
+  }
+
+  const variationType = args.variationType.trim();
+  if (!variationType) {
+    throw new Error("Recipe variation type is required");
+  }
+
+  const items = [...new Set(args.items.map((item) => item.trim()))].filter(
+    Boolean,
+  );
+  if (items.length > MAX_VARIATION_COUNT) {
+    throw new Error(
+      `Too many presets in recipe (max ${MAX_VARIATION_COUNT} presets)`,
+    );
+  }
+  if (items.some((item) => item.length > MAX_ITEM_LENGTH)) {
+    throw new Error(
+      `Recipe presets cannot be longer than ${MAX_ITEM_LENGTH} characters`,
+    );
+  }
+
+  if (
+    !Number.isInteger(args.variationCount) ||
+    args.variationCount < MIN_VARIATION_COUNT ||
+    args.variationCount > MAX_VARIATION_COUNT
+  ) {
+    throw new Error(
+      `Variation count must be ${MIN_VARIATION_COUNT}-${MAX_VARIATION_COUNT}`,
+    );
+  }
+
+  return { items, name, variationCount: args.variationCount, variationType };
+}
+
+/**
+ * Lists a project's variation recipes.
+ *
+ * @param projectId - Project ID
+ * @returns Recipes ordered by name
+ */
+export const listRecipes = query({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    await requireProjectAccess(ctx, args.projectId, identity.subject, "viewer");
+
+    const recipes = await ctx.db
+      .query("variationRecipes")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .collect();
+
+    return recipes.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+/**
+ * Saves a variation recipe. A recipe with the same name on the project is
+ * replaced.
+ *
+ * @param projectId - Project ID
+ * @param name - Recipe display name
+ * @param variationType - Image variation type the presets belong to
+ * @param items - Picked presets, in generation order
+ * @param variationCount - Number of variations to generate
+ * @returns ID of the saved recipe
+ */
+export const saveRecipe = mutation({
+  args: {
+    items: v.array(v.string()),
+    name: v.string(),
+    projectId: v.id("projects"),
+    variationCount: v.number(),
+    variationType: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    await requireProjectAccess(ctx, args.projectId, identity.subject, "editor");
+
+    const recipe = normalizeRecipe(args);
+
+    const existingRecipes = await ctx.db
+      .query("variationRecipes")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .collect();
+
+    const now = Date.now();
+    const existing = existingRecipes.find(
+      (candidate) => candidate.name === recipe.name,
+    );
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { ...recipe, updatedAt: now });
+      return existing._id;
+    }
+
+    if (existingRecipes.length >= MAX_RECIPES_PER_PROJECT) {
+      throw new Error(
+        `Recipe limit reached (max ${MAX_RECIPES_PER_PROJECT} recipes per project)`,
+      );
+    }
+
+    return await ctx.db.insert("variationRecipes", {
+      ...recipe,
+      createdAt: now,
+      createdBy: identity.subject,
+      projectId: args.projectId,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Deletes a variation recipe.
+ *
+ * @param recipeId - ID of the recipe
+ */
+export const deleteRecipe = mutation({
+  args: {
+    recipeId: v.id("variationRecipes"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const recipe = await ctx.db.get(args.recipeId);
+    if (!recipe) {
+      throw new Error("Recipe not found or access denied");
+    }
+
+    await requireProjectAccess(
+      ctx,
+      recipe.projectId,
+      identity.subject,
+      "editor",
+    );
+
+    await ctx.db.delete(args.recipeId);
+  },
+});
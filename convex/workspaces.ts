@@ -0,0 +1,1090 @@
+/**
+ * Convex workspace functions.
+ *
+ * Workspaces let a team share projects and assets. Members have one of
+ * three roles: owners manage members and billing, editors change projects,
+ * and viewers only read them. A workspace has its own Polar subscription
+ * whose quota is pooled across its members.
+ */
+
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  action,
+  internalMutation,
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import { appendResetEntry } from "./usageLedger";
+
+export type WorkspaceRole = Doc<"workspaceMembers">["role"];
+
+/**
+ * Rank of each role; a higher rank includes the permissions of lower ones.
+ */
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 0,
+  editor: 1,
+  owner: 2,
+};
+
+/**
+ * How long an invite link stays valid.
+ */
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Maximum number of workspaces a user can own.
+ */
+const MAX_OWNED_WORKSPACES = 10;
+
+/**
+ * Maximum number of members and pending invites per workspace.
+ */
+const MAX_WORKSPACE_MEMBERS = 50;
+
+/**
+ * Whether a role grants at least the permissions of another.
+ */
+export function hasRole(role: WorkspaceRole, minimumRole: WorkspaceRole) {
+  return ROLE_RANK[role] >= ROLE_RANK[minimumRole];
+}
+
+/**
+ * Gets a user's membership of a workspace.
+ *
+ * @returns The membership, or null if the user is not a member
+ */
+export async function getMembership(
+  ctx: QueryCtx,
+  workspaceId: Id<"workspaces">,
+  userId: string,
+) {
+  return await ctx.db
+    .query("workspaceMembers")
+    .withIndex("by_workspaceId_and_userId", (q) =>
+      q.eq("workspaceId", workspaceId).eq("userId", userId),
+    )
+    .first();
+}
+
+/**
+ * Fetches a workspace the user belongs to with at least the given role.
+ *
+ * @throws Error if the workspace is missing or the user lacks the role
+ */
+async function requireWorkspaceRole(
+  ctx: QueryCtx,
+  workspaceId: Id<"workspaces">,
+  userId: string,
+  minimumRole: WorkspaceRole,
+) {
+  const workspace = await ctx.db.get(workspaceId);
+  const membership = workspace
+    ? await getMembership(ctx, workspace._id, userId)
+    : null;
+
+  if (!workspace || !membership) {
+    // Unified error prevents workspace enumeration
+    throw new Error("Workspace not found or access denied");
+  }
+
+  if (!hasRole(membership.role, minimumRole)) {
+    throw new Error(`Requires the ${minimumRole} role`);
+  }
+
+  return { membership, workspace };
+}
+
+/**
+ * Gets the workspace a user currently works in.
+ *
+ * @returns The workspace and the user's role, or null for the personal
+ *   space or when the user has since left the workspace
+ */
+export async function getActiveWorkspace(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+): Promise<{ role: WorkspaceRole; workspace: Doc<"workspaces"> } | null> {
+  if (!user.activeWorkspaceId) {
+    return null;
+  }
+
+  const workspace = await ctx.db.get(user.activeWorkspaceId);
+  const membership = workspace
+    ? await getMembership(ctx, workspace._id, user.userId)
+    : null;
+
+  if (!workspace || !membership) {
+    return null;
+  }
+
+  return { role: membership.role, workspace };
+}
+
+/**
+ * Gets the ID of the workspace new projects and uploads of a user belong to.
+ *
+ * @remarks
+ * Viewers cannot add to a workspace, so their work stays personal.
+ *
+ * @returns Workspace ID, or undefined for the personal space
+ */
+export async function getActiveWorkspaceId(
+  ctx: QueryCtx,
+  userId: string,
+): Promise<Id<"workspaces"> | undefined> {
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .first();
+
+  const active = user ? await getActiveWorkspace(ctx, user) : null;
+  return active && hasRole(active.role, "editor")
+    ? active.workspace._id
+    : undefined;
+}
+
+/**
+ * Gets a user's role on a project.
+ *
+ * The creator owns a personal project. On a workspace project the role is
+ * the user's workspace role.
+ *
+ * @returns The role, or null if the user cannot access the project
+ */
+export async function getProjectRole(
+  ctx: QueryCtx,
+  project: Doc<"projects">,
+  userId: string,
+): Promise<WorkspaceRole | null> {
+  if (!project.workspaceId) {
+    return project.userId === userId ? "owner" : null;
+  }
+
+  const membership = await getMembership(ctx, project.workspaceId, userId);
+  return membership?.role ?? null;
+}
+
+/**
+ * Fetches a project the user can access with at least the given role.
+ *
+ * @throws Error if the project is missing, inaccessible or the user lacks the role
+ */
+export async function requireProjectAccess(
+  ctx: QueryCtx,
+  projectId: Id<"projects">,
+  userId: string,
+  minimumRole: WorkspaceRole,
+) {
+  const project = await ctx.db.get(projectId);
+  const role = project ? await getProjectRole(ctx, project, userId) : null;
+
+  if (!project || !role) {
+    // Unified error prevents user enumeration
+    throw new Error("Project not found or access denied");
+  }
+
+  if (!hasRole(role, minimumRole)) {
+    throw new Error(`Requires the ${minimumRole} role`);
+  }
+
+  return { project, role };
+}
+
+/**
+ * Whether a user can access an asset: their own, or one shared with a
+ * workspace where they have at least the given role.
+ *
+ * @param minimumRole - Workspace role required for shared assets (default
+ *   "viewer", which allows reading)
+ */
+export async function canAccessAsset(
+  ctx: QueryCtx,
+  asset: Doc<"assets">,
+  userId: string,
+  minimumRole: WorkspaceRole = "viewer",
+) {
+  if (asset.userId === userId) {
+    return true;
+  }
+
+  if (!asset.workspaceId) {
+    return false;
+  }
+
+  const membership = await getMembership(ctx, asset.workspaceId, userId);
+  return membership !== null && hasRole(membership.role, minimumRole);
+}
+
+/**
+ * Validates a workspace name.
+ *
+ * @returns The trimmed name
+ */
+function validateWorkspaceName(name: string) {
+  const trimmed = name.trim();
+
+  if (!trimmed) {
+    throw new Error("Workspace name cannot be empty");
+  }
+
+  if (trimmed.length > 100) {
+    throw new Error("Workspace name too long (max 100 characters)");
+  }
+
+  return trimmed;
+}
+
+/**
+ * Checks the secret the Polar webhook route shares with Convex.
+ *
+ * @throws Error if the secret is not configured or does not match
+ */
+export function requireWebhookSecret(webhookSecret: string) {
+  const expected = process.env.CONVEX_WEBHOOK_SECRET;
+  if (!expected || webhookSecret !== expected) {
+    throw new Error("Invalid webhook secret");
+  }
+}
+
+/**
+ * Lists the workspaces the authenticated user belongs to.
+ *
+ * @returns Workspaces with the user's role and the active workspace ID
+ */
+export const listWorkspaces = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .first();
+
+    const memberships = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect();
+
+    const workspaces = [];
+    for (const membership of memberships) {
+      const workspace = await ctx.db.get(membership.workspaceId);
+      if (workspace) {
+        workspaces.push({
+          _id: workspace._id,
+          name: workspace.name,
+          role: membership.role,
+          tier: workspace.tier,
+        });
+      }
+    }
+
+    const active = user ? await getActiveWorkspace(ctx, user) : null;
+
+    return {
+      activeWorkspaceId: active?.workspace._id ?? null,
+      workspaces: workspaces.sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  },
+});
+
+/**
+ * Gets a workspace with its members, and its pending invites for owners.
+ *
+ * @param workspaceId - ID of the workspace
+ */
+export const getWorkspace = query({
+  args: {
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+    const { membership, workspace } = await requireWorkspaceRole(
+      ctx,
+      args.workspaceId,
+      userId,
+      "viewer",
+    );
+
+    const memberships = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("by_workspaceId", (q) => q.eq("workspaceId", workspace._id))
+      .collect();
+
+    const members = await Promise.all(
+      memberships.map(async (member) => {
+        const user = await ctx.db
+          .query("users")
+          .withIndex("by_userId", (q) => q.eq("userId", member.userId))
+          .first();
+
+        return {
+          createdAt: member.createdAt,
+          email: user?.email ?? null,
+          role: member.role,
+          userId: member.userId,
+        };
+      }),
+    );
+
+    const invites =
+      membership.role === "owner"
+        ? await ctx.db
+            .query("workspaceInvites")
+            .withIndex("by_workspaceId", (q) =>
+              q.eq("workspaceId", workspace._id),
+            )
+            .collect()
+        : [];
+
+    return {
+      _id: workspace._id,
+      billingCycleEnd: workspace.billingCycleEnd ?? null,
+      invites: invites.map((invite) => ({
+        _id: invite._id,
+        email: invite.email,
+        expiresAt: invite.expiresAt,
+        role: invite.role,
+        token: invite.token,
+      })),
+      members: members.sort(
+        (a, b) =>
+          ROLE_RANK[b.role] - ROLE_RANK[a.role] || a.createdAt - b.createdAt,
+      ),
+      name: workspace.name,
+      role: membership.role,
+      subscriptionStatus: workspace.subscriptionStatus ?? null,
+      tier: workspace.tier,
+    };
+  },
+});
+
+/**
+ * Gets the workspace and role an invite link grants.
+ *
+ * @param token - Token from the invite link
+ * @returns Invite details, or null if the invite does not exist
+ */
+export const getInvite = query({
+  args: {
+    token: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const invite = await ctx.db
+      .query("workspaceInvites")
+      .withIndex("by_token", (q) => q.eq("token", args.token))
+      .first();
+
+    const workspace = invite ? await ctx.db.get(invite.workspaceId) : null;
+    if (!invite || !workspace) {
+      return null;
+    }
+
+    const membership = await getMembership(
+      ctx,
+      workspace._id,
+      identity.subject,
+    );
+
+    return {
+      email: invite.email,
+      isExpired: Date.now() > invite.expiresAt,
+      isMember: membership !== null,
+      role: invite.role,
+      workspaceId: workspace._id,
+      workspaceName: workspace.name,
+    };
+  },
+});
+
+/**
+ * Creates a workspace owned by the authenticated user and switches to it.
+ *
+ * @param name - Workspace name
+ * @returns Workspace ID
+ */
+export const createWorkspace = mutation({
+  args: {
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+    const name = validateWorkspaceName(args.name);
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const ownedWorkspaces = await ctx.db
+      .query("workspaces")
+      .withIndex("by_ownerId", (q) => q.eq("ownerId", userId))
+      .collect();
+
+    if (ownedWorkspaces.length >= MAX_OWNED_WORKSPACES) {
+      throw new Error(
+        `Maximum number of workspaces reached (${MAX_OWNED_WORKSPACES})`,
+      );
+    }
+
+    const now = Date.now();
+    const workspaceId = await ctx.db.insert("workspaces", {
+      createdAt: now,
+      name,
+      ownerId: userId,
+      tier: "free",
+      updatedAt: now,
+    });
+
+    await ctx.db.insert("workspaceMembers", {
+      createdAt: now,
+      role: "owner",
+      userId,
+      workspaceId,
+    });
+
+    await ctx.db.patch(user._id, {
+      activeWorkspaceId: workspaceId,
+      updatedAt: now,
+    });
+
+    return workspaceId;
+  },
+});
+
+/**
+ * Renames a workspace. Owner only.
+ *
+ * @param workspaceId - ID of the workspace
+ * @param name - New workspace name
+ */
+export const renameWorkspace = mutation({
+  args: {
+    name: v.string(),
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    await requireWorkspaceRole(
+      ctx,
+      args.workspaceId,
+      identity.subject,
+      "owner",
+    );
+
+    await ctx.db.patch(args.workspaceId, {
+      name: validateWorkspaceName(args.name),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Deletes a workspace. Owner only.
+ *
+ * Shared projects and assets are not deleted; they move back to the
+ * personal space of the members who created them. Usage ledger entries
+ * keep their workspace ID for the history.
+ *
+ * @param workspaceId - ID of the workspace
+ */
+export const deleteWorkspace = mutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const { workspace } = await requireWorkspaceRole(
+      ctx,
+      args.workspaceId,
+      identity.subject,
+      "owner",
+    );
+
+    if (
+      workspace.tier === "pro" &&
+      workspace.subscriptionStatus !== "cancelled"
+    ) {
+      throw new Error("Cancel the workspace subscription before deleting it");
+    }
+
+    const now = Date.now();
+
+    const projects = await ctx.db
+      .query("projects")
+      .withIndex("by_workspaceId_and_archivedAt", (q) =>
+        q.eq("workspaceId", workspace._id),
+      )
+      .collect();
+    for (const project of projects) {
+      await ctx.db.patch(project._id, {
+        updatedAt: now,
+        workspaceId: undefined,
+      });
+    }
+
+    const assets = await ctx.db
+      .query("assets")
+      .withIndex("by_workspaceId", (q) => q.eq("workspaceId", workspace._id))
+      .collect();
+    for (const asset of assets) {
+      await ctx.db.patch(asset._id, { workspaceId: undefined });
+    }
+
+    const invites = await ctx.db
+      .query("workspaceInvites")
+      .withIndex("by_workspaceId", (q) => q.eq("workspaceId", workspace._id))
+      .collect();
+    for (const invite of invites) {
+      await ctx.db.delete(invite._id);
+    }
+
+    const memberships = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("by_workspaceId", (q) => q.eq("workspaceId", workspace._id))
+      .collect();
+    for (const membership of memberships) {
+      const user = await ctx.db
+        .query("users")
+        .withIndex("by_userId", (q) => q.eq("userId", membership.userId))
+        .first();
+
+      if (user?.activeWorkspaceId === workspace._id) {
+        await ctx.db.patch(user._id, {
+          activeWorkspaceId: undefined,
+          updatedAt: now,
+        });
+      }
+
+      await ctx.db.delete(membership._id);
+    }
+
+    await ctx.db.delete(workspace._id);
+  },
+});
+
+/**
+ * Invites someone to a workspace by email. Owner only.
+ *
+ * The invite is accepted by following a link with the returned token while
+ * signed in with the invited email address.
+ *
+ * @param workspaceId - ID of the workspace
+ * @param email - Email address to invite
+ * @param role - Role granted on acceptance ("editor" | "viewer")
+ * @returns Invite ID and token
+ */
+export const inviteMember = mutation({
+  args: {
+    email: v.string(),
+    role: v.union(v.literal("editor"), v.literal("viewer")),
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+    const { workspace } = await requireWorkspaceRole(
+      ctx,
+      args.workspaceId,
+      userId,
+      "owner",
+    );
+
+    const email = args.email.trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) || email.length > 254) {
+      throw new Error("Invalid email address");
+    }
+
+    const memberships = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("by_workspaceId", (q) => q.eq("workspaceId", workspace._id))
+      .collect();
+
+    for (const membership of memberships) {
+      const member = await ctx.db
+        .query("users")
+        .withIndex("by_userId", (q) => q.eq("userId", membership.userId))
+        .first();
+
+      if (member?.email.toLowerCase() === email) {
+        throw new Error("Already a member of this workspace");
+      }
+    }
+
+    const invites = await ctx.db
+      .query("workspaceInvites")
+      .withIndex("by_workspaceId", (q) => q.eq("workspaceId", workspace._id))
+      .collect();
+
+    if (memberships.length + invites.length >= MAX_WORKSPACE_MEMBERS) {
+      throw new Error(
+        `Maximum number of members reached (${MAX_WORKSPACE_MEMBERS})`,
+      );
+    }
+
+    // Re-inviting an address replaces its previous invite
+    for (const invite of invites) {
+      if (invite.email === email) {
+        await ctx.db.delete(invite._id);
+      }
+    }
+
+    const now = Date.now();
+    const token = crypto.randomUUID();
+    const inviteId = await ctx.db.insert("workspaceInvites", {
+      createdAt: now,
+      email,
+      expiresAt: now + INVITE_TTL_MS,
+      invitedBy: userId,
+      role: args.role,
+      token,
+      workspaceId: workspace._id,
+    });
+
+    return { inviteId, token };
+  },
+});
+
+/**
+ * Revokes a pending invite. Owner only.
+ *
+ * @param inviteId - ID of the invite
+ */
+export const revokeInvite = mutation({
+  args: {
+    inviteId: v.id("workspaceInvites"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const invite = await ctx.db.get(args.inviteId);
+    if (!invite) {
+      throw new Error("Invite not found");
+    }
+
+    await requireWorkspaceRole(
+      ctx,
+      invite.workspaceId,
+      identity.subject,
+      "owner",
+    );
+
+    await ctx.db.delete(invite._id);
+  },
+});
+
+/**
+ * Accepts an invite and switches to its workspace.
+ *
+ * @param token - Token from the invite link
+ * @returns ID of the joined workspace
+ * @throws Error if the invite is missing, expired or for another email address
+ */
+export const acceptInvite = mutation({
+  args: {
+    token: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+
+    const invite = await ctx.db
+      .query("workspaceInvites")
+      .withIndex("by_token", (q) => q.eq("token", args.token))
+      .first();
+
+    if (!invite) {
+      throw new Error("Invite not found");
+    }
+
+    const now = Date.now();
+    if (now > invite.expiresAt) {
+      throw new Error("Invite has expired");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    if (user.email.toLowerCase() !== invite.email) {
+      throw new Error(`This invite was sent to ${invite.email}`);
+    }
+
+    const existing = await getMembership(ctx, invite.workspaceId, userId);
+    if (!existing) {
+      await ctx.db.insert("workspaceMembers", {
+        createdAt: now,
+        role: invite.role,
+        userId,
+        workspaceId: invite.workspaceId,
+      });
+    }
+
+    await ctx.db.delete(invite._id);
+    await ctx.db.patch(user._id, {
+      activeWorkspaceId: invite.workspaceId,
+      updatedAt: now,
+    });
+
+    return invite.workspaceId;
+  },
+});
+
+/**
+ * Changes the role of a member. Owner only; the owner's role cannot change.
+ *
+ * @param workspaceId - ID of the workspace
+ * @param userId - Clerk user ID of the member
+ * @param role - New role ("editor" | "viewer")
+ */
+export const updateMemberRole = mutation({
+  args: {
+    role: v.union(v.literal("editor"), v.literal("viewer")),
+    userId: v.string(),
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    await requireWorkspaceRole(
+      ctx,
+      args.workspaceId,
+      identity.subject,
+      "owner",
+    );
+
+    const membership = await getMembership(ctx, args.workspaceId, args.userId);
+    if (!membership) {
+      throw new Error("Member not found");
+    }
+
+    if (membership.role === "owner") {
+      throw new Error("The owner's role cannot be changed");
+    }
+
+    await ctx.db.patch(membership._id, { role: args.role });
+  },
+});
+
+/**
+ * Removes a member from a workspace.
+ *
+ * Owners can remove anyone but themselves; other members can only leave.
+ * Projects and assets the member shared stay in the workspace.
+ *
+ * @param workspaceId - ID of the workspace
+ * @param userId - Clerk user ID of the member to remove
+ */
+export const removeMember = mutation({
+  args: {
+    userId: v.string(),
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+    const { membership: callerMembership } = await requireWorkspaceRole(
+      ctx,
+      args.workspaceId,
+      userId,
+      "viewer",
+    );
+
+    if (args.userId !== userId && callerMembership.role !== "owner") {
+      throw new Error("Requires the owner role");
+    }
+
+    const membership = await getMembership(ctx, args.workspaceId, args.userId);
+    if (!membership) {
+      throw new Error("Member not found");
+    }
+
+    if (membership.role === "owner") {
+      throw new Error("The owner cannot leave; delete the workspace instead");
+    }
+
+    await ctx.db.delete(membership._id);
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .first();
+
+    if (user?.activeWorkspaceId === args.workspaceId) {
+      await ctx.db.patch(user._id, {
+        activeWorkspaceId: undefined,
+        updatedAt: Date.now(),
+      });
+    }
+  },
+});
+
+/**
+ * Switches the workspace new projects, uploads and generations belong to.
+ *
+ * @param workspaceId - ID of the workspace, or undefined for the personal space
+ */
+export const setActiveWorkspace = mutation({
+  args: {
+    workspaceId: v.optional(v.id("workspaces")),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const userId = identity.subject;
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    if (args.workspaceId) {
+      await requireWorkspaceRole(ctx, args.workspaceId, userId, "viewer");
+    }
+
+    await ctx.db.patch(user._id, {
+      activeWorkspaceId: args.workspaceId,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Checks that a user owns a workspace before starting a team checkout.
+ *
+ * @param workspaceId - ID of the workspace
+ * @returns Workspace billing details
+ */
+export const getWorkspaceBilling = query({
+  args: {
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const { workspace } = await requireWorkspaceRole(
+      ctx,
+      args.workspaceId,
+      identity.subject,
+      "owner",
+    );
+
+    return {
+      _id: workspace._id,
+      name: workspace.name,
+      polarCustomerId: workspace.polarCustomerId ?? null,
+      polarSubscriptionId: workspace.polarSubscriptionId ?? null,
+      subscriptionStatus: workspace.subscriptionStatus ?? null,
+      tier: workspace.tier,
+    };
+  },
+});
+
+/**
+ * Internal mutation to upgrade a workspace to the Pro tier
+ *
+ * Called by webhook handlers when a team subscription is created.
+ * Starts a new billing cycle and resets the pooled quota usage.
+ *
+ * @param workspaceId - ID of the workspace
+ * @param polarCustomerId - Polar customer ID
+ * @param polarSubscriptionId - Polar subscription ID
+ * @param billingCycleStart - Billing cycle start timestamp
+ * @param billingCycleEnd - Billing cycle end timestamp
+ */
+export const handleWorkspaceUpgradeInternal = internalMutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    polarCustomerId: v.string(),
+    polarSubscriptionId: v.string(),
+    billingCycleStart: v.number(),
+    billingCycleEnd: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const workspace = await ctx.db.get(args.workspaceId);
+    if (!workspace) {
+      throw new Error(`Workspace not found: ${args.workspaceId}`);
+    }
+
+    await ctx.db.patch(workspace._id, {
+      tier: "pro",
+      polarCustomerId: args.polarCustomerId,
+      polarSubscriptionId: args.polarSubscriptionId,
+      subscriptionStatus: "active",
+      billingCycleStart: args.billingCycleStart,
+      billingCycleEnd: args.billingCycleEnd,
+      updatedAt: Date.now(),
+    });
+
+    await appendResetEntry(ctx, workspace.ownerId, "upgrade", workspace._id);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Action wrapper to upgrade a workspace to the Pro tier
+ *
+ * Only the Polar webhook route may call it, so it requires the shared
+ * webhook secret.
+ */
+export const handleWorkspaceUpgrade = action({
+  args: {
+    workspaceId: v.id("workspaces"),
+    polarCustomerId: v.string(),
+    polarSubscriptionId: v.string(),
+    billingCycleStart: v.number(),
+    billingCycleEnd: v.number(),
+    webhookSecret: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    const { webhookSecret, ...upgrade } = args;
+    requireWebhookSecret(webhookSecret);
+
+    return await ctx.runMutation(
+      internal.workspaces.handleWorkspaceUpgradeInternal,
+      upgrade,
+    );
+  },
+});
+
+/**
+ * Downgrades a workspace to the Free tier and resets its pooled quota.
+ */
+export async function downgradeWorkspace(
+  ctx: MutationCtx,
+  workspace: Doc<"workspaces">,
+): Promise<void> {
+  await ctx.db.patch(workspace._id, {
+    tier: "free",
+    polarSubscriptionId: undefined,
+    subscriptionStatus: "cancelled",
+    billingCycleStart: undefined,
+    billingCycleEnd: undefined,
+    updatedAt: Date.now(),
+  });
+
+  await appendResetEntry(ctx, workspace.ownerId, "downgrade", workspace._id);
+}
+
+/**
+ * Internal mutation to downgrade a workspace to the Free tier
+ *
+ * Called by webhook handlers when a team subscription is cancelled or
+ * revoked. Ignores subscriptions the workspace no longer holds.
+ *
+ * @param workspaceId - ID of the workspace
+ * @param polarSubscriptionId - Polar subscription ID
+ */
+export const handleWorkspaceDowngradeInternal = internalMutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    polarSubscriptionId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const workspace = await ctx.db.get(args.workspaceId);
+    if (!workspace) {
+      throw new Error(`Workspace not found: ${args.workspaceId}`);
+    }
+
+    if (workspace.polarSubscriptionId !== args.polarSubscriptionId) {
+      return { success: false };
+    }
+
+    await downgradeWorkspace(ctx, workspace);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Action wrapper to downgrade a workspace to the Free tier
+ *
+ * Requires the shared webhook secret, like handleWorkspaceUpgrade.
+ */
+export const handleWorkspaceDowngrade = action({
+  args: {
+    workspaceId: v.id("workspaces"),
+    polarSubscriptionId: v.string(),
+    webhookSecret: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    const { webhookSecret, ...downgrade } = args;
+    requireWebhookSecret(webhookSecret);
+
+    return await ctx.runMutation(
+      internal.workspaces.handleWorkspaceDowngradeInternal,
+      downgrade,
+    );
+  },
+});
@@ -1,10 +1,13 @@
 /**
  * Image Analysis API Route
  * Analyzes images focusing on STYLE and MOOD using OpenAI's vision model with structured output
+ * Reuses the analysis cached on the image's asset
  */
 
-import { createAuthenticatedHandler } from "@/lib/api/api-handler";
+import { createAuthenticatedHandler, requireEnv } from "@/lib/api/api-handler";
 import { analyzeImageCore } from "@/lib/image-analyzer";
+import { auth } from "@clerk/nextjs/server";
+import { ConvexHttpClient } from "convex/browser";
 import { z } from "zod";
 
 export const maxDuration = 30;
@@ -26,7 +29,21 @@ const analyzeImageRequestSchema = z.object({
 export const POST = createAuthenticatedHandler({
   schema: analyzeImageRequestSchema,
   handler: async (input) => {
-    const result = await analyzeImageCore(input.imageUrl);
+    // Initialize Convex client for the analysis cache
+    const { getToken } = await auth();
+    const token = await getToken({ template: "convex" });
+    const convex = new ConvexHttpClient(
+      requireEnv("NEXT_PUBLIC_CONVEX_URL", "Convex URL"),
+    );
+
+    if (token) {
+      convex.setAuth(token);
+    }
+
+    const result = await analyzeImageCore(
+      input.imageUrl,
+      token ? convex : undefined,
+    );
 
     // Check if result is an error (FiboAnalysisErr or ValidationErr)
     if ("payload" in result) {
@@ -1,6 +1,6 @@
-import { openai } from "@ai-sdk/openai";
 import { convertToModelMessages, streamText, type UIMessage } from "ai";
 import { createAuthenticatedHandler, requireEnv } from "@/lib/api/api-handler";
+import { getLanguageModel, isLiveBackend } from "@/lib/mock";
 import { z } from "zod";
 
 // Allow streaming responses up to 30 seconds
@@ -68,7 +68,9 @@ export const POST = createAuthenticatedHandler({
     }
 
     // Validate API key
-    requireEnv("OPENAI_API_KEY", "OpenAI API key");
+    if (isLiveBackend()) {
+      requireEnv("OPENAI_API_KEY", "OpenAI API key");
+    }
 
     // Normalize messages
     const normalizedMessages: Array<Omit<UIMessage, "id">> = [];
@@ -117,7 +119,7 @@ export const POST = createAuthenticatedHandler({
     }
 
     const result = streamText({
-      model: openai("gpt-5-mini"),
+      model: getLanguageModel("gpt-5-mini"),
       system:
         "You are a helpful assistant that can generate images. When the user asks you to create or generate an image, use the generateTextToImage tool. For images, you can suggest different styles like anime, cartoon, realistic, etc.",
       messages: convertToModelMessages(normalizedMessages),
@@ -6,6 +6,12 @@
 
 import { createAuthenticatedHandler, requireEnv } from "@/lib/api/api-handler";
 import { B_ROLL_GENERATION_SYSTEM_PROMPT } from "@/lib/b-roll-concept-generator";
+import {
+  createSampleFromJsonSchema,
+  isLiveBackend,
+  seedFromValue,
+  withMockBackend,
+} from "@/lib/mock";
 import type { ImageStyleMoodAnalysis } from "@/lib/schemas/image-analysis-schema";
 import OpenAI from "openai";
 import { zodResponseFormat } from "openai/helpers/zod";
@@ -43,12 +49,9 @@ export const POST = createAuthenticatedHandler({
     const { count, styleAnalysis, userContext } = input;
 
     // Validate API key
-    requireEnv("OPENAI_API_KEY", "OpenAI API key");
-
-    // Initialize OpenAI client
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    if (isLiveBackend()) {
+      requireEnv("OPENAI_API_KEY", "OpenAI API key");
+    }
 
     // Build user message with context
     const userContextSection = userContext
@@ -151,27 +154,46 @@ In every technical aspect, each B-roll must look identical to the reference imag
 Include film grain and all post-processing effects explicitly in every prompt.
 `;
 
+    const messages = [
+      {
+        content: B_ROLL_GENERATION_SYSTEM_PROMPT,
+        role: "system" as const,
+      },
+      {
+        content: userMessage,
+        role: "user" as const,
+      },
+    ];
+    const responseFormat = zodResponseFormat(
+      bRollConceptSetSchema,
+      "broll_concepts",
+    );
+
     // Call OpenAI with structured output
-    const completion = await openai.chat.completions.create({
-      messages: [
-        {
-          content: B_ROLL_GENERATION_SYSTEM_PROMPT,
-          role: "system",
-        },
-        {
-          content: userMessage,
-          role: "user",
-        },
-      ],
-      model: OPENAI_MODEL,
-      response_format: zodResponseFormat(
-        bRollConceptSetSchema,
-        "broll_concepts",
-      ),
+    const messageContent = await withMockBackend({
+      live: async () => {
+        const openai = new OpenAI({
+          apiKey: process.env.OPENAI_API_KEY,
+        });
+        const completion = await openai.chat.completions.create({
+          messages,
+          model: OPENAI_MODEL,
+          response_format: responseFormat,
+        });
+        return completion.choices[0]?.message?.content ?? null;
+      },
+      operation: OPENAI_MODEL,
+      request: { messages, responseFormat },
+      service: "openai",
+      synthetic: () =>
+        JSON.stringify(
+          createSampleFromJsonSchema(
+            responseFormat.json_schema.schema,
+            seedFromValue(messages),
+          ),
+        ),
     });
 
-    const messageContent = completion.choices[0]?.message?.content;
-
     if (!messageContent) {
       throw new Error("No content in OpenAI response");
     }
@@ -5,65 +5,48 @@
  * Uses errors-as-values pattern with @safe-std/error
  */
 
-import { createAuthenticatedHandler, requireEnv } from "@/lib/api/api-handler";
+import { createAuthenticatedHandler } from "@/lib/api/api-handler";
 import {
   handleVariations,
   variationHandlers,
 } from "@/lib/api/variation-api-helper";
 import { tryPromise, isErr, getErrorMessage } from "@/lib/errors/safe-errors";
-import { logger } from "@/lib/logger";
-import { auth } from "@clerk/nextjs/server";
-import { ConvexHttpClient } from "convex/browser";
+import { reserveGenerationQuota } from "@/lib/server/generation-quota";
 import { z } from "zod";
-import { api } from "../../../../convex/_generated/api";
-
-const log = logger.generation;
 
 export const maxDuration = 60;
 
 const requestSchema = z.object({
-  cameraAngles: z.array(z.string()).min(1).max(12),
+  cameraAngles: z.array(z.string()).min(1).max(24),
   imageUrls: z.array(z.string().url()),
+  // Image model and project, recorded with the quota reservation
+  model: z.string().max(100).optional(),
+  projectId: z.string().max(64).optional(),
   userContext: z.string().optional(),
 });
 
 export const POST = createAuthenticatedHandler({
   schema: requestSchema,
   handler: async (input, _userId) => {
-    const { imageUrls, cameraAngles, userContext } = input;
-
-    // Initialize Convex client for quota operations
-    const { getToken } = await auth();
-    const token = await getToken({ template: "convex" });
-    const convex = new ConvexHttpClient(
-      requireEnv("NEXT_PUBLIC_CONVEX_URL", "Convex URL"),
-    );
-    if (token) {
-      convex.setAuth(token);
-    }
+    const { imageUrls, cameraAngles, model, projectId, userContext } = input;
 
     // Atomically check and reserve quota before generation
     // This prevents race conditions where parallel requests could exceed quota limits
-    const quotaResult = await tryPromise(
-      convex.mutation(api.quotas.checkAndReserveQuota, {
-        type: "image",
-        count: cameraAngles.length,
-      }),
-    );
-
-    if (isErr(quotaResult)) {
-      const errorMsg = getErrorMessage(quotaResult);
-      // Preserve quota exceeded errors for proper client handling
-      if (errorMsg.includes("Quota exceeded")) {
-        throw new Error(errorMsg);
-      }
+    const reservation = await reserveGenerationQuota({
+      count: cameraAngles.length,
+      model,
+      projectId,
+      type: "image",
+    });
 
-      throw new Error(`Failed to reserve quota for generation: ${errorMsg}`);
+    if (reservation instanceof Error) {
+      throw reservation;
     }
 
     // Quota has been reserved, proceed with generation
     const generationResult = await tryPromise(
       handleVariations(variationHandlers.cameraAngle, {
+        convex: reservation.convex,
         imageUrls,
         items: cameraAngles,
         userContext,
@@ -73,22 +56,16 @@ export const POST = createAuthenticatedHandler({
 
     if (isErr(generationResult)) {
       // Refund quota if generation fails
-      const refundResult = await tryPromise(
-        convex.mutation(api.quotas.refundQuota, {
-          type: "image",
-          count: cameraAngles.length,
-        }),
-      );
-
-      if (isErr(refundResult)) {
-        log.error("Failed to refund quota", getErrorMessage(refundResult));
-      }
+      await reservation.refund();
 
       throw new Error(
         `Camera angle generation failed: ${getErrorMessage(generationResult)}`,
       );
     }
 
+    // Mark the reserved credits as spent
+    await reservation.commit();
+
     return generationResult;
   },
 });
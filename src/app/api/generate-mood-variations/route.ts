@@ -0,0 +1,72 @@
+/**
+ * Mood Variations Generation API Route
+ * Uses FIBO to analyze images, then uses FIBO generate to steer them toward target mood vectors
+ * Returns refined structured JSON prompts
+ * Uses errors-as-values pattern with @safe-std/error
+ */
+
+import { createAuthenticatedHandler } from "@/lib/api/api-handler";
+import {
+  handleVariations,
+  variationHandlers,
+} from "@/lib/api/variation-api-helper";
+import { tryPromise, isErr, getErrorMessage } from "@/lib/errors/safe-errors";
+import { reserveGenerationQuota } from "@/lib/server/generation-quota";
+import { z } from "zod";
+
+export const maxDuration = 60;
+
+const requestSchema = z.object({
+  // "awe 80, melancholy 20, ..." items, one target vector per variation
+  moodVectors: z.array(z.string().max(200)).min(1).max(24),
+  imageUrls: z.array(z.string().url()),
+  // Image model and project, recorded with the quota reservation
+  model: z.string().max(100).optional(),
+  projectId: z.string().max(64).optional(),
+  userContext: z.string().optional(),
+});
+
+export const POST = createAuthenticatedHandler({
+  schema: requestSchema,
+  handler: async (input, _userId) => {
+    const { imageUrls, moodVectors, model, projectId, userContext } = input;
+
+    // Atomically check and reserve quota before generation
+    // This prevents race conditions where parallel requests could exceed quota limits
+    const reservation = await reserveGenerationQuota({
+      count: moodVectors.length,
+      model,
+      projectId,
+      type: "image",
+    });
+
+    if (reservation instanceof Error) {
+      throw reservation;
+    }
+
+    // Quota has been reserved, proceed with generation
+    const generationResult = await tryPromise(
+      handleVariations(variationHandlers.mood, {
+        convex: reservation.convex,
+        imageUrls,
+        items: moodVectors,
+        userContext,
+        itemKey: "moodVector",
+      }),
+    );
+
+    if (isErr(generationResult)) {
+      // Refund quota if generation fails
+      await reservation.refund();
+
+      throw new Error(
+        `Mood variation generation failed: ${getErrorMessage(generationResult)}`,
+      );
+    }
+
+    // Mark the reserved credits as spent
+    await reservation.commit();
+
+    return generationResult;
+  },
+});
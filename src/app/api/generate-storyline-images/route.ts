@@ -9,6 +9,7 @@
 import { createAuthenticatedHandler, requireEnv } from "@/lib/api/api-handler";
 import { tryPromise, isErr, getErrorMessage } from "@/lib/errors/safe-errors";
 import { logger } from "@/lib/logger";
+import { getLanguageModel, isLiveBackend } from "@/lib/mock";
 import type { ImageStyleMoodAnalysis } from "@/lib/schemas/image-analysis-schema";
 import { imageStyleMoodAnalysisSchema } from "@/lib/schemas/image-analysis-schema";
 import {
@@ -19,7 +20,6 @@ import {
   calculateTimeProgression,
   formatTimeLabel,
 } from "@/utils/time-progression-utils";
-import { openai } from "@ai-sdk/openai";
 import { auth } from "@clerk/nextjs/server";
 import { generateObject } from "ai";
 import { ConvexHttpClient } from "convex/browser";
@@ -199,14 +199,16 @@ export const POST = createAuthenticatedHandler({
     }
 
     // Validate API key
-    requireEnv("OPENAI_API_KEY", "OpenAI API key");
+    if (isLiveBackend()) {
+      requireEnv("OPENAI_API_KEY", "OpenAI API key");
+    }
 
     const userPrompt = buildUserPrompt(styleAnalysis, count, userContext);
 
     // Quota has been reserved, proceed with generation
     const generationResult = await tryPromise(
       generateObject({
-        model: openai("gpt-5"),
+        model: getLanguageModel("gpt-5"),
         schema: storylineImageConceptSetSchema,
         messages: [
           {
@@ -225,8 +227,7 @@ export const POST = createAuthenticatedHandler({
       // Refund quota if generation fails
       const refundResult = await tryPromise(
         convex.mutation(api.quotas.refundQuota, {
-          type: "image",
-          count: count,
+          reservationId: quotaResult.reservationId,
         }),
       );
 
@@ -239,6 +240,17 @@ export const POST = createAuthenticatedHandler({
       );
     }
 
+    // Mark the reserved credits as spent
+    const commitResult = await tryPromise(
+      convex.mutation(api.quotas.commitQuota, {
+        reservationId: quotaResult.reservationId,
+      }),
+    );
+
+    if (isErr(commitResult)) {
+      log.error("Failed to commit quota", getErrorMessage(commitResult));
+    }
+
     return {
       concepts: generationResult.object.concepts,
     };
@@ -3,9 +3,9 @@
  * Generates dynamic storyline concepts based on style/mood analysis using AI SDK
  */
 
-import { openai } from "@ai-sdk/openai";
 import { generateObject } from "ai";
 import { createAuthenticatedHandler, requireEnv } from "@/lib/api/api-handler";
+import { getLanguageModel, isLiveBackend } from "@/lib/mock";
 import { z } from "zod";
 
 import type { ImageStyleMoodAnalysis } from "@/lib/schemas/image-analysis-schema";
@@ -89,7 +89,9 @@ export const POST = createAuthenticatedHandler({
     const { styleAnalysis, duration, userPrompt } = input;
 
     // Validate API key
-    requireEnv("OPENAI_API_KEY", "OpenAI API key");
+    if (isLiveBackend()) {
+      requireEnv("OPENAI_API_KEY", "OpenAI API key");
+    }
 
     const styleContext = buildStyleContext(styleAnalysis, duration ?? 4);
 
@@ -107,7 +109,7 @@ While you MUST follow the user's creative direction for subject and narrative, y
       : "\n\nCreate storylines that match this style but with completely different subjects and narratives. Make each one visually explosive and emotionally compelling.";
 
     const result = await generateObject({
-      model: openai("gpt-5-mini"),
+      model: getLanguageModel("gpt-5-mini"),
       schema: storylineSetSchema,
       messages: [
         {
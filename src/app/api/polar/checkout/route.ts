@@ -3,6 +3,9 @@
  *
  * Creates a Polar checkout session for upgrading to Pro subscription.
  * Redirects users to Polar-hosted checkout page.
+ *
+ * With a workspaceId, the checkout is for a team subscription whose quota
+ * is pooled across the workspace's members. Only the owner can check out.
  */
 
 import { getErrorMessage, isErr, tryPromise } from "@/lib/errors/safe-errors";
@@ -12,10 +15,12 @@ import {
   polar,
   type BillingInterval,
 } from "@/lib/polar";
+import { createConvexClientWithToken } from "@/lib/server/convex-server";
 import { auth, currentUser } from "@clerk/nextjs/server";
 import { ConvexHttpClient } from "convex/browser";
 import { NextRequest, NextResponse } from "next/server";
 import { api } from "../../../../../convex/_generated/api";
+import type { Id } from "../../../../../convex/_generated/dataModel";
 
 const log = logger.polar;
 
@@ -23,7 +28,7 @@ const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
 
 export async function POST(req: NextRequest) {
   // Verify authentication
-  const { userId } = await auth();
+  const { getToken, userId } = await auth();
   if (!userId) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
@@ -45,8 +50,9 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  const { billingInterval } = bodyResult as {
+  const { billingInterval, workspaceId } = bodyResult as {
     billingInterval?: BillingInterval;
+    workspaceId?: Id<"workspaces">;
   };
 
   if (!billingInterval || !["month", "year"].includes(billingInterval)) {
@@ -65,6 +71,42 @@ export async function POST(req: NextRequest) {
     );
   }
 
+  // Team checkouts are only allowed for the workspace owner
+  if (workspaceId) {
+    const tokenResult = await tryPromise(getToken({ template: "convex" }));
+    if (isErr(tokenResult) || !tokenResult) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const workspaceResult = await tryPromise(
+      createConvexClientWithToken(tokenResult).query(
+        api.workspaces.getWorkspaceBilling,
+        { workspaceId },
+      ),
+    );
+
+    if (isErr(workspaceResult)) {
+      log.error(
+        "Failed to verify workspace ownership",
+        getErrorMessage(workspaceResult),
+      );
+      return NextResponse.json(
+        { error: "Only the workspace owner can upgrade the workspace" },
+        { status: 403 },
+      );
+    }
+
+    if (
+      workspaceResult.tier === "pro" &&
+      workspaceResult.subscriptionStatus === "active"
+    ) {
+      return NextResponse.json(
+        { error: "Workspace already has an active subscription" },
+        { status: 400 },
+      );
+    }
+  }
+
   // Get or create Polar customer
   const email = user.emailAddresses[0].emailAddress;
   const customerName = user.fullName || email.split("@")[0];
@@ -139,6 +181,7 @@ export async function POST(req: NextRequest) {
       metadata: {
         clerkUserId: userId,
         billingInterval,
+        ...(workspaceId ? { workspaceId } : {}),
       },
     }),
   );
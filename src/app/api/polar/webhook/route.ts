@@ -21,11 +21,17 @@ import { ConvexHttpClient } from "convex/browser";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { api } from "../../../../../convex/_generated/api";
+import type { Id } from "../../../../../convex/_generated/dataModel";
 
 const log = logger.webhook;
 
 const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
 
+/**
+ * Secret shared with Convex that authorizes the billing actions
+ */
+const convexWebhookSecret = process.env.CONVEX_WEBHOOK_SECRET!;
+
 /**
  * Rate limiter for webhook endpoint
  * Conservative limits to prevent abuse while allowing legitimate webhook bursts
@@ -52,6 +58,7 @@ const subscriptionDataSchema = z.object({
   metadata: z
     .object({
       clerkUserId: z.string().optional(),
+      workspaceId: z.string().optional(),
     })
     .optional(),
 });
@@ -65,6 +72,7 @@ const subscriptionCreatedSchema = z.object({
     currentPeriodEnd: z.union([z.string(), z.date()]),
     metadata: z.object({
       clerkUserId: z.string(),
+      workspaceId: z.string().optional(),
     }),
   }),
 });
@@ -274,6 +282,7 @@ interface PolarEvent {
     currentPeriodEnd?: string | Date;
     metadata?: {
       clerkUserId?: string;
+      workspaceId?: string;
     };
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     [key: string]: any;
@@ -282,6 +291,9 @@ interface PolarEvent {
 
 /**
  * Handle subscription.created / subscription.activated events
+ *
+ * Subscriptions checked out for a workspace upgrade the workspace instead
+ * of the user.
  */
 async function handleSubscriptionCreated(event: PolarEvent) {
   const subscription = event.data;
@@ -306,6 +318,19 @@ async function handleSubscriptionCreated(event: PolarEvent) {
   ).getTime();
   const currentPeriodEnd = new Date(subscription.currentPeriodEnd).getTime();
 
+  const workspaceId = subscription.metadata?.workspaceId;
+  if (workspaceId) {
+    await convex.action(api.workspaces.handleWorkspaceUpgrade, {
+      workspaceId: workspaceId as Id<"workspaces">,
+      polarCustomerId: subscription.customerId,
+      polarSubscriptionId: subscription.id,
+      billingCycleStart: currentPeriodStart,
+      billingCycleEnd: currentPeriodEnd,
+      webhookSecret: convexWebhookSecret,
+    });
+    return;
+  }
+
   await convex.action(api.subscriptions.handleUpgrade, {
     userId,
     polarCustomerId: subscription.customerId,
@@ -335,19 +360,34 @@ async function handleSubscriptionUpdated(event: PolarEvent) {
     polarSubscriptionId: subscription.id,
     billingCycleStart: currentPeriodStart,
     billingCycleEnd: currentPeriodEnd,
+    webhookSecret: convexWebhookSecret,
   });
 }
 
 /**
  * Handle subscription.canceled / subscription.revoked events
+ *
+ * Workspace subscriptions downgrade the workspace, since workspace limits
+ * only follow the tier.
  */
 async function handleSubscriptionCanceled(event: PolarEvent) {
   const subscription = event.data;
 
+  const workspaceId = subscription.metadata?.workspaceId;
+  if (workspaceId) {
+    await convex.action(api.workspaces.handleWorkspaceDowngrade, {
+      workspaceId: workspaceId as Id<"workspaces">,
+      polarSubscriptionId: subscription.id,
+      webhookSecret: convexWebhookSecret,
+    });
+    return;
+  }
+
   // Update subscription status to cancelled
   await convex.action(api.subscriptions.updateSubscriptionStatus, {
     polarSubscriptionId: subscription.id,
     status: "cancelled",
+    webhookSecret: convexWebhookSecret,
   });
 
   // Note: We don't immediately downgrade the user.
@@ -364,6 +404,7 @@ async function handleSubscriptionActive(event: PolarEvent) {
   await convex.action(api.subscriptions.updateSubscriptionStatus, {
     polarSubscriptionId: subscription.id,
     status: "active",
+    webhookSecret: convexWebhookSecret,
   });
 }
 
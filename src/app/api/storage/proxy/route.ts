@@ -7,9 +7,17 @@
  * Convex storage URLs don't include CORS headers by default, causing image loads to fail.
  * This route fetches the resource from Convex and returns it with proper CORS headers.
  *
+ * Share links: requests carrying a `shareToken` and an `assetId` are served
+ * without a signed-in user, but only for assets on the shared project's
+ * canvas while the link is active.
+ *
  * @example
  * GET /api/storage/proxy?storageId=abc123
  * Returns the file from Convex with Access-Control-Allow-Origin: *
+ *
+ * @example
+ * GET /api/storage/proxy?shareToken=def456&assetId=ghi789&variant=thumbnail
+ * Returns the thumbnail of an asset on a shared canvas
  */
 
 import { createErrorResponse } from "@/lib/api/error-response";
@@ -19,7 +27,9 @@ import {
   tryPromise,
   trySync,
 } from "@/lib/errors/safe-errors";
+import { createPublicConvexClient } from "@/lib/server/convex-server";
 import { NextRequest, NextResponse } from "next/server";
+import { api } from "../../../../../convex/_generated/api";
 
 /**
  * Mode for the proxy - determines how the response is returned
@@ -28,18 +38,69 @@ import { NextRequest, NextResponse } from "next/server";
  */
 type ProxyMode = "blob" | "data-url";
 
+/**
+ * Resolves the storage URL of an asset on a shared canvas.
+ *
+ * @returns The storage URL, or an error response when the link is not
+ * usable or the asset is not on the shared canvas
+ */
+async function resolveSharedAssetUrl(
+  shareToken: string,
+  assetId: string | null,
+  variant: string | null
+): Promise<string | NextResponse> {
+  if (!assetId) {
+    return NextResponse.json(
+      { error: "'assetId' parameter required with 'shareToken'" },
+      { status: 400 }
+    );
+  }
+
+  const urlResult = await tryPromise(
+    createPublicConvexClient().query(api.shares.getSharedAssetUrl, {
+      assetId,
+      token: shareToken,
+      variant: variant === "thumbnail" ? "thumbnail" : undefined,
+    })
+  );
+
+  if (isErr(urlResult)) {
+    return createErrorResponse(urlResult, "Failed to resolve shared asset");
+  }
+
+  if (!urlResult) {
+    // Same response for revoked, expired and foreign assets
+    return NextResponse.json(
+      { error: "Shared asset not found or link expired" },
+      { status: 404 }
+    );
+  }
+
+  return urlResult;
+}
+
 export async function GET(req: NextRequest) {
   const urlResult = trySync(() => new URL(req.url));
   if (isErr(urlResult)) {
     return createErrorResponse(urlResult, "Invalid request URL");
   }
   const { searchParams } = urlResult;
-  const providedUrl = searchParams.get("url");
-  const storageId = searchParams.get("storageId");
+  const shareToken = searchParams.get("shareToken");
+
+  // Share link requests skip sign-in, so they must carry a token and may
+  // only load the shared asset, never an arbitrary URL or storage ID
+  if (shareToken !== null && !shareToken.trim()) {
+    return NextResponse.json(
+      { error: "'shareToken' parameter cannot be empty" },
+      { status: 400 }
+    );
+  }
+  const providedUrl = shareToken ? null : searchParams.get("url");
+  const storageId = shareToken ? null : searchParams.get("storageId");
   const mode: ProxyMode = (searchParams.get("mode") as ProxyMode) || "blob";
 
-  // Accept either a signed URL or a storageId
-  if (!providedUrl && !storageId) {
+  // Accept either a signed URL, a storageId, or a share link asset
+  if (!providedUrl && !storageId && !shareToken) {
     return NextResponse.json(
       { error: "Either 'url' or 'storageId' parameter required" },
       { status: 400 }
@@ -118,7 +179,19 @@ export async function GET(req: NextRequest) {
 
   let storageUrl: string;
 
-  if (providedUrl) {
+  if (shareToken) {
+    const sharedUrl = await resolveSharedAssetUrl(
+      shareToken,
+      searchParams.get("assetId"),
+      searchParams.get("variant")
+    );
+
+    if (sharedUrl instanceof NextResponse) {
+      return sharedUrl;
+    }
+
+    storageUrl = sharedUrl;
+  } else if (providedUrl) {
     // Use the provided signed URL directly
     storageUrl = providedUrl;
   } else if (storageId) {
@@ -273,7 +346,10 @@ export async function GET(req: NextRequest) {
     "Access-Control-Allow-Origin": allowedOrigin,
     "Access-Control-Expose-Headers":
       "Content-Length, Content-Range, Content-Type",
-    "Cache-Control": "public, max-age=31536000, immutable",
+    // Share link files stop being served once the link is revoked
+    "Cache-Control": shareToken
+      ? "private, max-age=300"
+      : "public, max-age=31536000, immutable",
     "Content-Length": buffer.byteLength.toString(),
     "Content-Type": contentType,
     "Cross-Origin-Resource-Policy": "same-site",
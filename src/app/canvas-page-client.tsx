@@ -8,15 +8,25 @@
 "use client";
 
 import { SignInPromptDialog } from "@/components/auth/sign-in-prompt-dialog";
+import { AnnotationToolbar } from "@/components/canvas/AnnotationToolbar";
 import { CanvasContextMenu } from "@/components/canvas/CanvasContextMenu";
 import { CanvasControlPanel } from "@/components/canvas/CanvasControlPanel";
 import { CanvasDialogs } from "@/components/canvas/CanvasDialogs";
 import { CanvasLoadingOverlay } from "@/components/canvas/CanvasLoadingOverlay";
 import { CanvasStageRenderer } from "@/components/canvas/CanvasStageRenderer";
+import { CollaboratorAvatars } from "@/components/canvas/CollaboratorAvatars";
+import { CollaboratorCursors } from "@/components/canvas/CollaboratorCursors";
+import { CommentThreadPopover } from "@/components/canvas/CommentThreadPopover";
 import { DimensionDisplayWrapper } from "@/components/canvas/DimensionDisplayWrapper";
+import { HistoryPanel } from "@/components/canvas/HistoryPanel";
+import { LineagePanel } from "@/components/canvas/LineagePanel";
 import { MiniMap } from "@/components/canvas/MiniMap";
 import { ProjectPanelWrapper } from "@/components/canvas/ProjectPanelWrapper";
+import { SequencePanel } from "@/components/canvas/SequencePanel";
 import { StreamingGenerations } from "@/components/canvas/StreamingGenerations";
+import { StructuredPromptPanel } from "@/components/canvas/StructuredPromptPanel";
+import { VariationPresetPickerDialog } from "@/components/canvas/VariationPresetPickerDialog";
+import { VariationPresetsDialog } from "@/components/canvas/VariationPresetsDialog";
 import { ZoomControls } from "@/components/canvas/ZoomControls";
 import { CanvasHeader } from "@/components/layout/canvas-header";
 import { ContextMenu, ContextMenuTrigger } from "@/components/ui/context-menu";
@@ -31,20 +41,51 @@ import { useGenerationHandlers } from "@/hooks/useGenerationHandlers";
 import { useGenerationState } from "@/hooks/useGenerationState-jotai";
 import { useHistoryHandlers } from "@/hooks/useHistoryHandlers";
 import { useHistoryState } from "@/hooks/useHistoryState-jotai";
+import { useImageAnalysis } from "@/hooks/useImageAnalysis";
 import { useKeyboardShortcuts } from "@/hooks/useKeyboardShortcuts";
+import { useProjectComments } from "@/hooks/useProjectComments";
+import { useProjectPresence } from "@/hooks/useProjectPresence";
 import { useProjectSync } from "@/hooks/useProjectSync";
 import { useProjects } from "@/hooks/useProjects";
+import { useSequence } from "@/hooks/useSequence";
 import { useStorage } from "@/hooks/useStorage";
 import { useStreamingHandlers } from "@/hooks/useStreamingHandlers";
 import { useUIHandlers } from "@/hooks/useUIHandlers";
 import { useUIState } from "@/hooks/useUIState-jotai";
+import { useVariationPresets } from "@/hooks/useVariationPresets";
+import {
+  getVariationClientConfig,
+  mapImageVariationType
+} from "@/lib/api/variation-api-helper";
+import { applyAnnotationStyle } from "@/lib/handlers/annotation-handlers";
+import {
+  getCommentPinPosition,
+  type CommentPinTarget
+} from "@/lib/handlers/comment-handlers";
+import { isSequenceRenderSupported } from "@/lib/sequence/sequence-renderer";
+import { showErrorFromException, showSuccess } from "@/lib/toast";
+import { getVideoCategoryForSelection } from "@/lib/video-models";
 import { useTRPC } from "@/trpc/client";
 import { useMutation } from "@tanstack/react-query";
 import Konva from "konva";
 import { useTheme } from "next-themes";
-import { isProjectsPanelOpenAtom } from "@/store/ui-atoms";
-import { useAtom } from "jotai";
-import { useCallback, useRef, useState } from "react";
+import { annotationToolAtom } from "@/store/canvas-atoms";
+import {
+  isCommentModeAtom,
+  isHistoryPanelOpenAtom,
+  isLineagePanelOpenAtom,
+  isPresetManagerOpenAtom,
+  isPresetPickerOpenAtom,
+  isProjectsPanelOpenAtom,
+  isSequencePanelOpenAtom,
+  isStructuredPromptPanelOpenAtom,
+  pickedVariationItemsAtom,
+  showLineageConnectorsAtom
+} from "@/store/ui-atoms";
+import type { AnnotationStyle } from "@/types/canvas";
+import { useAtom, useAtomValue } from "jotai";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { Id } from "../../convex/_generated/dataModel";
 
 /**
  * Main Canvas Client Component
@@ -62,7 +103,9 @@ export function CanvasPageClient() {
   const historyState = useHistoryState(
     canvasState.images,
     canvasState.videos,
-    canvasState.selectedIds
+    canvasState.selectedIds,
+    canvasState.annotations,
+    canvasState.frames
   );
   const uiState = useUIState();
 
@@ -74,12 +117,262 @@ export function CanvasPageClient() {
   const [isProjectsPanelOpen, setIsProjectsPanelOpen] = useAtom(
     isProjectsPanelOpenAtom
   );
+  const [isHistoryPanelOpen, setIsHistoryPanelOpen] = useAtom(
+    isHistoryPanelOpenAtom
+  );
+  const [isLineagePanelOpen, setIsLineagePanelOpen] = useAtom(
+    isLineagePanelOpenAtom
+  );
+  const [showLineageConnectors, setShowLineageConnectors] = useAtom(
+    showLineageConnectorsAtom
+  );
+  const [isPresetManagerOpen, setIsPresetManagerOpen] = useAtom(
+    isPresetManagerOpenAtom
+  );
+  const [isPresetPickerOpen, setIsPresetPickerOpen] = useAtom(
+    isPresetPickerOpenAtom
+  );
+  const pickedVariationItems = useAtomValue(pickedVariationItemsAtom);
+  const [isSequencePanelOpen, setIsSequencePanelOpen] = useAtom(
+    isSequencePanelOpenAtom
+  );
+  const [isStructuredPromptPanelOpen, setIsStructuredPromptPanelOpen] = useAtom(
+    isStructuredPromptPanelOpenAtom
+  );
+  const { selectedPack: selectedPresetPack } = useVariationPresets();
   const currentProjectId = projects.currentProject?._id ?? null;
 
+  const presence = useProjectPresence(
+    currentProjectId as Id<"projects"> | null,
+    canvasState.selectedIds
+  );
+  const { lockedIds } = presence;
+  const { selectedIds, setSelectedIds } = canvasState;
+
+  // Elements a collaborator selected in the meantime cannot stay selected here
+  useEffect(() => {
+    if (selectedIds.some((id) => lockedIds.has(id))) {
+      setSelectedIds(selectedIds.filter((id) => !lockedIds.has(id)));
+    }
+  }, [lockedIds, selectedIds, setSelectedIds]);
+
+  const { updateCursor } = presence;
+  const { viewport } = canvasState;
+
+  const handleCanvasMouseMove = useCallback(
+    (e: React.MouseEvent<HTMLDivElement>) => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      updateCursor({
+        x: (e.clientX - rect.left - viewport.x) / viewport.scale,
+        y: (e.clientY - rect.top - viewport.y) / viewport.scale,
+      });
+    },
+    [updateCursor, viewport]
+  );
+
+  const handleCanvasMouseLeave = useCallback(() => {
+    updateCursor(null);
+  }, [updateCursor]);
+
+  const comments = useProjectComments(
+    currentProjectId as Id<"projects"> | null
+  );
+  const [isCommentMode, setIsCommentMode] = useAtom(isCommentModeAtom);
+  const [activeCommentThreadId, setActiveCommentThreadId] = useState<
+    string | null
+  >(null);
+  const [draftCommentPin, setDraftCommentPin] =
+    useState<CommentPinTarget | null>(null);
+
+  const activeCommentThreadIndex = comments.threads.findIndex(
+    (thread) => thread.root._id === activeCommentThreadId
+  );
+  const activeCommentThread = comments.threads[activeCommentThreadIndex];
+
+  // Screen position of the open popover, next to its pin
+  const commentPopoverPosition = useMemo(() => {
+    const pin = draftCommentPin ?? activeCommentThread?.root;
+    if (!pin) return null;
+
+    const position = getCommentPinPosition(pin, [
+      ...canvasState.images,
+      ...canvasState.videos,
+    ]);
+    if (!position) return null;
+
+    return {
+      left: position.x * viewport.scale + viewport.x + 20,
+      top: position.y * viewport.scale + viewport.y - 12,
+    };
+  }, [
+    activeCommentThread,
+    canvasState.images,
+    canvasState.videos,
+    draftCommentPin,
+    viewport
+  ]);
+
+  const handleCloseCommentThread = useCallback(() => {
+    setActiveCommentThreadId(null);
+    setDraftCommentPin(null);
+  }, []);
+
+  const handleToggleCommentMode = useCallback(() => {
+    setIsCommentMode((prev) => !prev);
+    handleCloseCommentThread();
+  }, [handleCloseCommentThread, setIsCommentMode]);
+
+  const handleCommentPlace = useCallback((target: CommentPinTarget) => {
+    setActiveCommentThreadId(null);
+    setDraftCommentPin(target);
+  }, []);
+
+  const handleCommentPinSelect = useCallback((threadId: string) => {
+    setDraftCommentPin(null);
+    setActiveCommentThreadId(threadId);
+  }, []);
+
+  const { createThread, deleteComment, editComment, reply, setResolved } =
+    comments;
+
+  const handleCreateComment = useCallback(
+    async (body: string) => {
+      if (!draftCommentPin) return false;
+
+      try {
+        const threadId = await createThread(draftCommentPin, body);
+        setDraftCommentPin(null);
+        setActiveCommentThreadId(threadId);
+        return true;
+      } catch (error) {
+        showErrorFromException("Comment failed", error, "Unknown error");
+        return false;
+      }
+    },
+    [createThread, draftCommentPin]
+  );
+
+  const handleReplyComment = useCallback(
+    async (body: string) => {
+      if (!activeCommentThread) return false;
+
+      try {
+        await reply(activeCommentThread.root._id, body);
+        return true;
+      } catch (error) {
+        showErrorFromException("Reply failed", error, "Unknown error");
+        return false;
+      }
+    },
+    [activeCommentThread, reply]
+  );
+
+  const handleEditComment = useCallback(
+    async (commentId: Id<"projectComments">, body: string) => {
+      try {
+        await editComment(commentId, body);
+        return true;
+      } catch (error) {
+        showErrorFromException("Edit failed", error, "Unknown error");
+        return false;
+      }
+    },
+    [editComment]
+  );
+
+  const handleResolveComment = useCallback(
+    async (resolved: boolean) => {
+      if (!activeCommentThread) return;
+
+      try {
+        await setResolved(activeCommentThread.root._id, resolved);
+        // Resolved pins are hidden outside comment mode
+        if (resolved && !isCommentMode) {
+          setActiveCommentThreadId(null);
+        }
+      } catch (error) {
+        showErrorFromException("Resolve failed", error, "Unknown error");
+      }
+    },
+    [activeCommentThread, isCommentMode, setResolved]
+  );
+
+  const handleDeleteComment = useCallback(
+    async (commentId: Id<"projectComments">) => {
+      try {
+        await deleteComment(commentId);
+      } catch (error) {
+        showErrorFromException("Delete failed", error, "Unknown error");
+      }
+    },
+    [deleteComment]
+  );
+
   const handleToggleProjectsPanel = useCallback(() => {
     setIsProjectsPanelOpen((prev) => !prev);
   }, [setIsProjectsPanelOpen]);
 
+  // History, lineage, sequence and structured prompt panels share a spot on
+  // screen, so only one is open at a time
+  const closeSidePanels = useCallback(() => {
+    setIsHistoryPanelOpen(false);
+    setIsLineagePanelOpen(false);
+    setIsSequencePanelOpen(false);
+    setIsStructuredPromptPanelOpen(false);
+  }, [
+    setIsHistoryPanelOpen,
+    setIsLineagePanelOpen,
+    setIsSequencePanelOpen,
+    setIsStructuredPromptPanelOpen,
+  ]);
+
+  const handleToggleHistoryPanel = useCallback(() => {
+    closeSidePanels();
+    setIsHistoryPanelOpen(!isHistoryPanelOpen);
+  }, [closeSidePanels, isHistoryPanelOpen, setIsHistoryPanelOpen]);
+
+  const handleToggleLineagePanel = useCallback(() => {
+    closeSidePanels();
+    setIsLineagePanelOpen(!isLineagePanelOpen);
+  }, [closeSidePanels, isLineagePanelOpen, setIsLineagePanelOpen]);
+
+  const handleToggleSequencePanel = useCallback(() => {
+    closeSidePanels();
+    setIsSequencePanelOpen(!isSequencePanelOpen);
+  }, [closeSidePanels, isSequencePanelOpen, setIsSequencePanelOpen]);
+
+  const handleToggleStructuredPromptPanel = useCallback(() => {
+    closeSidePanels();
+    setIsStructuredPromptPanelOpen(!isStructuredPromptPanelOpen);
+  }, [
+    closeSidePanels,
+    isStructuredPromptPanelOpen,
+    setIsStructuredPromptPanelOpen,
+  ]);
+
+  const handleToggleLineageConnectors = useCallback(() => {
+    setShowLineageConnectors((prev) => !prev);
+  }, [setShowLineageConnectors]);
+
+  const handleOpenPresetManager = useCallback(() => {
+    setIsPresetManagerOpen(true);
+  }, [setIsPresetManagerOpen]);
+
+  const handleOpenPresetPicker = useCallback(() => {
+    setIsPresetPickerOpen(true);
+  }, [setIsPresetPickerOpen]);
+
+  // Picked presets replace the random selection, so they set the count
+  const pickedCount =
+    pickedVariationItems[uiState.imageVariationType]?.length ?? 0;
+  const variationCount = pickedCount || uiState.generationCount;
+  const canPickPresets = Boolean(
+    getVariationClientConfig(
+      mapImageVariationType(uiState.imageVariationType),
+      selectedPresetPack?.presets
+    ).presetItems
+  );
+
   const interactions = useCanvasInteractions(
     canvasState.viewport,
     canvasState.setViewport,
@@ -87,8 +380,10 @@ export function CanvasPageClient() {
     canvasState.images,
     canvasState.videos,
     canvasState.selectedIds,
-    canvasState.setSelectedIds
+    canvasState.setSelectedIds,
+    canvasState.annotations
   );
+  const annotationTool = useAtomValue(annotationToolAtom);
 
   const { isStorageLoaded, saveToStorage } = useStorage(
     canvasState.images,
@@ -97,7 +392,86 @@ export function CanvasPageClient() {
     canvasState.setImages,
     canvasState.setVideos,
     canvasState.setViewport,
-    generationState.activeGenerations.size
+    generationState.activeGenerations.size,
+    canvasState.annotations,
+    canvasState.setAnnotations,
+    canvasState.frames,
+    canvasState.setFrames
+  );
+
+  const sequence = useSequence(
+    canvasState.images,
+    canvasState.videos,
+    canvasState.setVideos,
+    userId
+  );
+  const { addVideos, placeRender, render: renderSequence } = sequence;
+
+  const selectedVideoIds = useMemo(
+    () => selectedIds.filter((id) => sequence.videosById.has(id)),
+    [selectedIds, sequence.videosById]
+  );
+
+  const videoCategory = useMemo(
+    () =>
+      getVideoCategoryForSelection({
+        imageCount: canvasState.images.filter((img) =>
+          selectedIds.includes(img.id)
+        ).length,
+        videoCount: selectedVideoIds.length,
+      }),
+    [canvasState.images, selectedIds, selectedVideoIds.length]
+  );
+
+  const handleAddSelectedToSequence = useCallback(() => {
+    addVideos(selectedVideoIds);
+  }, [addVideos, selectedVideoIds]);
+
+  const handleRenderSequence = useCallback(async () => {
+    try {
+      const result = await renderSequence();
+      if (result) {
+        showSuccess(
+          "Sequence rendered",
+          "The MP4 has no audio. Download it or place it on the canvas"
+        );
+      }
+    } catch (error) {
+      showErrorFromException("Render failed", error, "Unknown error");
+    }
+  }, [renderSequence]);
+
+  const handlePlaceSequence = useCallback(async () => {
+    try {
+      const videoId = await placeRender();
+      setSelectedIds([videoId]);
+    } catch (error) {
+      showErrorFromException(
+        "Could not place sequence",
+        error,
+        "Unknown error"
+      );
+    }
+  }, [placeRender, setSelectedIds]);
+
+  const { clearAnalysis } = useImageAnalysis();
+
+  const handleReanalyzeImage = useCallback(
+    async (imageId: string) => {
+      const image = canvasState.images.find((img) => img.id === imageId);
+      if (!image?.assetId) return;
+
+      try {
+        await clearAnalysis(image.assetId);
+        showSuccess(
+          "Analysis cleared",
+          "The next variation run analyzes this image again"
+        );
+      } catch (error) {
+        showErrorFromException("Re-analyze failed", error, "Unknown error");
+      }
+    },
+    [canvasState.images, clearAnalysis]
   );
 
   const { handleDrop, handleFileUpload } = useFileUpload(
@@ -118,29 +492,37 @@ export function CanvasPageClient() {
     canvasState.setImages
   );
 
-  const { handleRedo, handleUndo } = useHistoryHandlers({
-    canRedo: historyState.canRedo,
-    canUndo: historyState.canUndo,
-    redo: historyState.redo,
-    setImages: canvasState.setImages,
-    setSelectedIds: canvasState.setSelectedIds,
-    setVideos: canvasState.setVideos,
-    undo: historyState.undo,
-    updateHistoryIndex: historyState.setHistoryIndex,
-  });
+  const { handleGoToHistoryIndex, handleRedo, handleUndo } =
+    useHistoryHandlers({
+      canRedo: historyState.canRedo,
+      canUndo: historyState.canUndo,
+      goToIndex: historyState.goToIndex,
+      redo: historyState.redo,
+      setAnnotations: canvasState.setAnnotations,
+      setFrames: canvasState.setFrames,
+      setImages: canvasState.setImages,
+      setSelectedIds: canvasState.setSelectedIds,
+      setVideos: canvasState.setVideos,
+      undo: historyState.undo,
+    });
 
   const {
     handleBringForward,
     handleCombineImages,
     handleDelete,
     handleDuplicate,
+    handleFrameSelection,
+    handleRemoveFromFrame,
     handleSendBackward,
     handleSendToBack,
     handleSendToFront,
   } = useCanvasHandlers({
+    annotations: canvasState.annotations,
     images: canvasState.images,
     saveToHistory: historyState.saveToHistory,
     selectedIds: canvasState.selectedIds,
+    setAnnotations: canvasState.setAnnotations,
+    setFrames: canvasState.setFrames,
     setImages: canvasState.setImages,
     setSelectedIds: canvasState.setSelectedIds,
     setVideos: canvasState.setVideos,
@@ -155,8 +537,16 @@ export function CanvasPageClient() {
     variationMode: uiState.variationMode,
   });
 
-  const { handleConvertToVideo, handleRun } = useGenerationHandlers({
+  const {
+    handleContinueVideo,
+    handleConvertToVideo,
+    handleMatchStyle,
+    handleRegenerate,
+    handleRegenerateFromStructuredPrompt,
+    handleRun,
+  } = useGenerationHandlers({
     canvasSize: canvasState.canvasSize,
+    customPresets: selectedPresetPack?.presets,
     generateTextToImage,
     generationCount: uiState.generationCount,
     generationSettings: generationState.generationSettings,
@@ -167,6 +557,7 @@ export function CanvasPageClient() {
     selectedIds: canvasState.selectedIds,
     setActiveGenerations: generationState.setActiveGenerations,
     setActiveVideoGenerations: generationState.setActiveVideoGenerations,
+    setFrames: canvasState.setFrames,
     setImages: canvasState.setImages,
     setIsGenerating: generationState.setIsGenerating,
     setIsImageToVideoDialogOpen: uiState.setIsImageToVideoDialogOpen,
@@ -174,11 +565,14 @@ export function CanvasPageClient() {
     setSelectedImageForVideo: uiState.setSelectedImageForVideo,
     setShowSignInPrompt,
     setVideos: canvasState.setVideos,
+    textToVideoModel: generationState.textToVideoModel,
     userId,
     variationMode: uiState.variationMode,
     videoDuration: generationState.videoDuration,
     videoModel: generationState.videoModel,
     videoResolution: generationState.videoResolution,
+    videoToVideoModel: generationState.videoToVideoModel,
+    videos: canvasState.videos,
     viewport: canvasState.viewport,
   });
 
@@ -208,7 +602,30 @@ export function CanvasPageClient() {
     videos: canvasState.videos,
   });
 
+  const selectedAnnotations = useMemo(
+    () =>
+      canvasState.annotations.filter((annotation) =>
+        canvasState.selectedIds.includes(annotation.id)
+      ),
+    [canvasState.annotations, canvasState.selectedIds]
+  );
+
+  const handleAnnotationStyleChange = useCallback(
+    (style: Partial<AnnotationStyle>) => {
+      historyState.saveToHistory();
+      canvasState.setAnnotations(
+        applyAnnotationStyle(
+          canvasState.annotations,
+          canvasState.selectedIds,
+          style
+        )
+      );
+    },
+    [canvasState, historyState]
+  );
+
   useKeyboardShortcuts({
+    annotations: canvasState.annotations,
     bringForward: handleBringForward,
     canvasSize: canvasState.canvasSize,
     generationSettings: generationState.generationSettings,
@@ -279,9 +696,15 @@ export function CanvasPageClient() {
               <div
                 aria-label={ARIA_LABELS.CONTEXT_MENU}
                 className="relative bg-background overflow-hidden w-full h-full"
+                onMouseLeave={handleCanvasMouseLeave}
+                onMouseMove={handleCanvasMouseMove}
                 style={{
                   WebkitTouchCallout: "none",
-                  cursor: interactions.isPanningCanvas ? "grabbing" : "default",
+                  cursor: interactions.isPanningCanvas
+                    ? "grabbing"
+                    : isCommentMode || annotationTool !== "select"
+                      ? "crosshair"
+                      : "default",
                   height: `${canvasState.canvasSize.height}px`,
                   minHeight: `${canvasState.canvasSize.height}px`,
                   minWidth: `${canvasState.canvasSize.width}px`,
@@ -290,16 +713,32 @@ export function CanvasPageClient() {
                 }}
               >
                 <CanvasStageRenderer
+                  activeCommentThreadId={activeCommentThreadId ?? undefined}
+                  annotations={canvasState.annotations}
                   canvasSize={canvasState.canvasSize}
-                  generationCount={uiState.generationCount}
+                  commentThreads={
+                    currentProjectId ? comments.threads : undefined
+                  }
+                  draftCommentPin={draftCommentPin ?? undefined}
+                  frames={canvasState.frames}
+                  generationCount={
+                    uiState.variationMode === "image"
+                      ? variationCount
+                      : uiState.generationCount
+                  }
                   generationSettings={generationState.generationSettings}
                   images={canvasState.images}
                   interactions={interactions}
                   isCanvasReady={canvasState.isCanvasReady}
                   isGenerating={generationState.isGenerating}
+                  lockedIds={lockedIds}
+                  onCommentPinSelect={handleCommentPinSelect}
+                  onCommentPlace={handleCommentPlace}
                   onImageDoubleClick={handleImageDoubleClick}
                   saveToHistory={historyState.saveToHistory}
                   selectedIds={canvasState.selectedIds}
+                  setAnnotations={canvasState.setAnnotations}
+                  setFrames={canvasState.setFrames}
                   setImages={canvasState.setImages}
                   setSelectedIds={canvasState.setSelectedIds}
                   setVideos={canvasState.setVideos}
@@ -309,6 +748,28 @@ export function CanvasPageClient() {
                   viewport={canvasState.viewport}
                   variationMode={uiState.variationMode}
                 />
+                <CollaboratorCursors
+                  collaborators={presence.collaborators}
+                  viewport={canvasState.viewport}
+                />
+                {commentPopoverPosition && (
+                  <CommentThreadPopover
+                    canDeleteAny={projects.currentProject?.role === "owner"}
+                    canResolveAny={projects.currentProject?.role !== "viewer"}
+                    currentUserId={userId}
+                    key={activeCommentThreadId ?? "draft"}
+                    label={`${activeCommentThreadIndex + 1}`}
+                    mentionableUsers={comments.mentionableUsers}
+                    onClose={handleCloseCommentThread}
+                    onCreate={handleCreateComment}
+                    onDelete={handleDeleteComment}
+                    onEdit={handleEditComment}
+                    onReply={handleReplyComment}
+                    onResolve={handleResolveComment}
+                    position={commentPopoverPosition}
+                    thread={draftCommentPin ? undefined : activeCommentThread}
+                  />
+                )}
               </div>
             </ContextMenuTrigger>
 
@@ -316,9 +777,15 @@ export function CanvasPageClient() {
               bringForward={handleBringForward}
               generationSettings={generationState.generationSettings}
               handleCombineImages={handleCombineImages}
+              handleContinueVideo={handleContinueVideo}
               handleConvertToVideo={handleConvertToVideo}
               handleDelete={handleDelete}
               handleDuplicate={handleDuplicate}
+              handleFrameSelection={handleFrameSelection}
+              handleMatchStyle={handleMatchStyle}
+              handleReanalyzeImage={handleReanalyzeImage}
+              handleRegenerate={handleRegenerate}
+              handleRemoveFromFrame={handleRemoveFromFrame}
               handleRun={handleRun}
               images={canvasState.images}
               isGenerating={generationState.isGenerating}
@@ -330,6 +797,8 @@ export function CanvasPageClient() {
             />
           </ContextMenu>
 
+          <CollaboratorAvatars collaborators={presence.collaborators} />
+
           {uiState.showMinimap && (
             <MiniMap
               canvasSize={canvasState.canvasSize}
@@ -340,14 +809,89 @@ export function CanvasPageClient() {
             />
           )}
 
+          <AnnotationToolbar
+            onStyleChange={handleAnnotationStyleChange}
+            selectedAnnotations={selectedAnnotations}
+          />
+
+          {isHistoryPanelOpen && (
+            <HistoryPanel
+              history={historyState.history}
+              historyIndex={historyState.historyIndex}
+              onClose={handleToggleHistoryPanel}
+              onCreateCheckpoint={historyState.createCheckpoint}
+              onGoToIndex={handleGoToHistoryIndex}
+              onRemoveCheckpoint={historyState.removeCheckpoint}
+            />
+          )}
+
+          {isLineagePanelOpen && (
+            <LineagePanel
+              images={canvasState.images}
+              onClose={handleToggleLineagePanel}
+              onSelect={(id) => canvasState.setSelectedIds([id])}
+              onToggleConnectors={handleToggleLineageConnectors}
+              selectedIds={canvasState.selectedIds}
+              showConnectors={showLineageConnectors}
+              videos={canvasState.videos}
+            />
+          )}
+
+          {isSequencePanelOpen && (
+            <SequencePanel
+              clips={sequence.clips}
+              duration={sequence.timeline.duration}
+              images={canvasState.images}
+              isRendering={sequence.isRendering}
+              isRenderSupported={isSequenceRenderSupported()}
+              lastRender={sequence.lastRender}
+              onAddSelected={handleAddSelectedToSequence}
+              onArrangeByStoryline={sequence.arrangeByStoryline}
+              onCancelRender={sequence.cancelRender}
+              onClear={sequence.clearClips}
+              onClose={handleToggleSequencePanel}
+              onMoveClip={sequence.moveClip}
+              onPlaceRender={handlePlaceSequence}
+              onRemoveClip={sequence.removeClip}
+              onRender={handleRenderSequence}
+              onSelectVideo={(id) => canvasState.setSelectedIds([id])}
+              onUpdateClip={sequence.updateClip}
+              progress={sequence.progress}
+              selectedVideoCount={selectedVideoIds.length}
+              segments={sequence.timeline.segments}
+              videosById={sequence.videosById}
+            />
+          )}
+
+          {isStructuredPromptPanelOpen && (
+            <StructuredPromptPanel
+              images={canvasState.images}
+              onClose={handleToggleStructuredPromptPanel}
+              onRegenerate={handleRegenerateFromStructuredPrompt}
+              selectedIds={canvasState.selectedIds}
+            />
+          )}
+
           <ZoomControls
             canvasSize={canvasState.canvasSize}
+            isCommentMode={isCommentMode}
+            isHistoryPanelOpen={isHistoryPanelOpen}
+            isLineagePanelOpen={isLineagePanelOpen}
             isProjectsPanelOpen={
               isAuthenticated ? isProjectsPanelOpen : undefined
             }
+            isSequencePanelOpen={isSequencePanelOpen}
+            isStructuredPromptPanelOpen={isStructuredPromptPanelOpen}
+            onToggleCommentMode={
+              currentProjectId ? handleToggleCommentMode : undefined
+            }
+            onToggleHistoryPanel={handleToggleHistoryPanel}
+            onToggleLineagePanel={handleToggleLineagePanel}
             onToggleProjectsPanel={
               isAuthenticated ? handleToggleProjectsPanel : undefined
             }
+            onToggleSequencePanel={handleToggleSequencePanel}
+            onToggleStructuredPromptPanel={handleToggleStructuredPromptPanel}
             setViewport={canvasState.setViewport}
             viewport={canvasState.viewport}
           />
@@ -365,8 +909,10 @@ export function CanvasPageClient() {
         activeGenerationsSize={generationState.activeGenerations.size}
         activeVideoGenerations={generationState.activeVideoGenerations}
         activeVideoGenerationsSize={generationState.activeVideoGenerations.size}
+        canPickPresets={canPickPresets}
         canRedo={historyState.canRedo}
         canUndo={historyState.canUndo}
+        customPresetPackName={selectedPresetPack?.name}
         generationCount={uiState.generationCount}
         generationSettings={generationState.generationSettings}
         handleFileUpload={handleFileUpload}
@@ -376,21 +922,34 @@ export function CanvasPageClient() {
         imageVariationType={uiState.imageVariationType}
         images={canvasState.images}
         isGenerating={generationState.isGenerating}
+        isVideoEndFrameEnabled={generationState.isVideoEndFrameEnabled}
+        moodVector={uiState.moodVector}
+        onOpenPresetManager={handleOpenPresetManager}
+        onOpenPresetPicker={handleOpenPresetPicker}
+        pickedCount={pickedCount}
         redo={handleRedo}
         selectedIds={canvasState.selectedIds}
+        setGenerationCount={uiState.setGenerationCount}
         setGenerationSettings={generationState.setGenerationSettings}
         setImageModel={uiState.setImageModel}
         setImageVariationType={uiState.setImageVariationType}
         setIsSettingsDialogOpen={uiState.setIsSettingsDialogOpen}
+        setIsVideoEndFrameEnabled={generationState.setIsVideoEndFrameEnabled}
+        setMoodVector={uiState.setMoodVector}
+        setTextToVideoModel={generationState.setTextToVideoModel}
         setVideoDuration={generationState.setVideoDuration}
         setVideoModel={generationState.setVideoModel}
         setVideoResolution={generationState.setVideoResolution}
+        setVideoToVideoModel={generationState.setVideoToVideoModel}
         showSuccess={generationState.showSuccess}
+        textToVideoModel={generationState.textToVideoModel}
         undo={handleUndo}
         variationMode={uiState.variationMode}
+        videoCategory={videoCategory}
         videoDuration={generationState.videoDuration}
         videoModel={generationState.videoModel}
         videoResolution={generationState.videoResolution}
+        videoToVideoModel={generationState.videoToVideoModel}
       />
 
       <CanvasDialogs
@@ -407,6 +966,18 @@ export function CanvasPageClient() {
         showMinimap={uiState.showMinimap}
         theme={theme}
       />
+
+      <VariationPresetsDialog
+        onOpenChange={setIsPresetManagerOpen}
+        open={isPresetManagerOpen}
+      />
+
+      <VariationPresetPickerDialog
+        images={canvasState.images}
+        onOpenChange={setIsPresetPickerOpen}
+        open={isPresetPickerOpen}
+        projectId={currentProjectId as Id<"projects"> | null}
+      />
     </div>
   );
 }
@@ -0,0 +1,116 @@
+/**
+ * Workspace Invite Page
+ *
+ * Shows the workspace an invite link grants access to and lets the
+ * signed-in user accept it.
+ */
+
+"use client";
+
+import { CanvasHeader } from "@/components/layout/canvas-header";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useWorkspaces } from "@/hooks/useWorkspaces";
+import { showErrorFromException, showSuccess } from "@/lib/toast";
+import { WORKSPACE_ROLE_LABELS } from "@/types/workspace";
+import { useQuery } from "convex/react";
+import { Users } from "lucide-react";
+import { useParams, useRouter } from "next/navigation";
+import { useState } from "react";
+import { api } from "../../../../convex/_generated/api";
+
+export default function InvitePage() {
+  const { token } = useParams<{ token: string }>();
+  const router = useRouter();
+  const { isAuthenticated } = useAuth();
+  const { acceptInvite } = useWorkspaces();
+  const [isAccepting, setIsAccepting] = useState(false);
+
+  const invite = useQuery(
+    api.workspaces.getInvite,
+    isAuthenticated ? { token } : "skip",
+  );
+
+  const handleAccept = async () => {
+    setIsAccepting(true);
+
+    try {
+      await acceptInvite(token);
+      showSuccess("Joined workspace");
+      router.push("/");
+    } catch (error) {
+      showErrorFromException("Could not accept invite", error);
+      setIsAccepting(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (!isAuthenticated) {
+      return (
+        <p className="text-muted-foreground">
+          Sign in with the invited email address to accept this invite.
+        </p>
+      );
+    }
+
+    if (invite === undefined) {
+      return (
+        <div className="mx-auto h-6 w-48 animate-pulse rounded bg-muted" />
+      );
+    }
+
+    if (invite === null) {
+      return (
+        <p className="text-muted-foreground">
+          This invite does not exist or has been revoked.
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold text-foreground">
+            Join {invite.workspaceName}
+          </h1>
+          <p className="text-lg text-muted-foreground">
+            You are invited as{" "}
+            {WORKSPACE_ROLE_LABELS[invite.role].toLowerCase()} ({invite.email})
+          </p>
+        </div>
+
+        {invite.isMember ? (
+          <Button onClick={() => router.push("/workspace")} size="lg">
+            You are already a member
+          </Button>
+        ) : invite.isExpired ? (
+          <p className="text-muted-foreground">
+            This invite has expired. Ask the workspace owner for a new link.
+          </p>
+        ) : (
+          <Button disabled={isAccepting} onClick={handleAccept} size="lg">
+            Accept invite
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <CanvasHeader />
+      <div className="flex min-h-screen items-center justify-center bg-background pt-14">
+        <div className="container mx-auto max-w-2xl px-4">
+          <div className="space-y-6 text-center">
+            <div className="flex justify-center">
+              <div className="rounded-full bg-primary/10 p-4">
+                <Users className="h-16 w-16 text-primary" />
+              </div>
+            </div>
+            {renderContent()}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * Shared Project Page
+ *
+ * Public, read-only view of a project opened through a share link. Works
+ * without an account; the token in the URL is the only credential.
+ */
+
+"use client";
+
+import { Logo } from "@/components/icons/logo";
+import { SharedCanvasViewer } from "@/components/share/shared-canvas-viewer";
+import { useQuery } from "convex/react";
+import { format } from "date-fns";
+import { Link2Off } from "lucide-react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { api } from "../../../../convex/_generated/api";
+
+export default function SharedProjectPage() {
+  const { token } = useParams<{ token: string }>();
+  const sharedProject = useQuery(api.shares.getSharedProject, { token });
+
+  if (sharedProject === undefined) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="h-6 w-48 animate-pulse rounded bg-muted" />
+      </div>
+    );
+  }
+
+  if (sharedProject === null) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="space-y-4 px-4 text-center">
+          <div className="flex justify-center">
+            <div className="rounded-full bg-muted p-4">
+              <Link2Off className="h-12 w-12 text-muted-foreground" />
+            </div>
+          </div>
+          <h1 className="text-2xl font-bold text-foreground">
+            This link is no longer available
+          </h1>
+          <p className="text-muted-foreground">
+            It may have expired or been revoked by the project owner.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-screen flex-col bg-background">
+      <header className="flex h-14 shrink-0 items-center justify-between gap-4 border-b border-border/50 px-4">
+        <div className="flex min-w-0 items-center gap-3">
+          <Link href="/">
+            <Logo className="h-6 w-auto" />
+          </Link>
+          <h1 className="truncate font-medium text-foreground">
+            {sharedProject.name}
+          </h1>
+        </div>
+        <p className="shrink-0 text-xs text-muted-foreground">
+          View only
+          {sharedProject.expiresAt &&
+            ` · Link expires ${format(sharedProject.expiresAt, "MMM d, yyyy")}`}
+        </p>
+      </header>
+      <main className="min-h-0 flex-1">
+        <SharedCanvasViewer
+          canvasState={sharedProject.canvasState}
+          token={token}
+        />
+      </main>
+    </div>
+  );
+}
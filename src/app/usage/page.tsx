@@ -0,0 +1,44 @@
+/**
+ * Usage History Page
+ *
+ * Shows generations over time broken down by day, model, variation type
+ * and project, with CSV export.
+ */
+
+import { UsageHistory } from "@/components/subscription/usage-history";
+import { QuotaDisplay } from "@/components/subscription/quota-display";
+import { CanvasHeader } from "@/components/layout/canvas-header";
+
+export default function UsagePage() {
+  return (
+    <>
+      <CanvasHeader />
+      <div className="min-h-screen bg-background pt-14">
+        <div className="container mx-auto max-w-4xl px-4 py-8">
+          <header className="mb-8">
+            <h1 className="mb-2 text-3xl font-bold text-foreground">Usage</h1>
+            <p className="text-muted-foreground">
+              See what you generated and what it cost over time
+            </p>
+          </header>
+
+          <div className="space-y-8">
+            <section>
+              <h2 className="mb-4 text-xl font-semibold text-foreground">
+                Current Period
+              </h2>
+              <QuotaDisplay />
+            </section>
+
+            <section>
+              <h2 className="mb-4 text-xl font-semibold text-foreground">
+                History
+              </h2>
+              <UsageHistory />
+            </section>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
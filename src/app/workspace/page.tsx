@@ -0,0 +1,31 @@
+/**
+ * Workspace Settings Page
+ *
+ * Creates team workspaces and manages the active workspace's members,
+ * invites and team subscription.
+ */
+
+import { WorkspaceSettings } from "@/components/workspaces/workspace-settings";
+import { CanvasHeader } from "@/components/layout/canvas-header";
+
+export default function WorkspacePage() {
+  return (
+    <>
+      <CanvasHeader />
+      <div className="min-h-screen bg-background pt-14">
+        <div className="container mx-auto max-w-4xl px-4 py-8">
+          <header className="mb-8">
+            <h1 className="mb-2 text-3xl font-bold text-foreground">
+              Workspace
+            </h1>
+            <p className="text-muted-foreground">
+              Share projects, assets and a generation quota with your team
+            </p>
+          </header>
+
+          <WorkspaceSettings />
+        </div>
+      </div>
+    </>
+  );
+}
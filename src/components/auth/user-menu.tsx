@@ -12,8 +12,21 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useAuth } from "@/hooks/useAuth";
+import { useWorkspaces } from "@/hooks/useWorkspaces";
+import { showErrorFromException } from "@/lib/toast";
+import { cn } from "@/lib/utils";
+import type { Id } from "../../../convex/_generated/dataModel";
 
-import { Crown, LogOut, Settings, User, CreditCard } from "lucide-react";
+import {
+  BarChart3,
+  Check,
+  Crown,
+  LogOut,
+  Settings,
+  User,
+  Users,
+  CreditCard,
+} from "lucide-react";
 
 /**
  * Props for the UserMenu component.
@@ -26,13 +39,14 @@ interface UserMenuProps {
 /**
  * User menu component displaying user information and actions.
  *
- * Provides a dropdown menu with user details, tier badge, account
- * management link, and sign-out functionality.
+ * Provides a dropdown menu with user details, tier badge, workspace
+ * switcher, account management link, and sign-out functionality.
  * Uses Clerk's UserButton for avatar display.
  *
  * @remarks
  * - Displays user email and avatar
  * - Shows tier badge (Free or Paid)
+ * - Switches between the personal space and team workspaces
  * - Links to Clerk user profile for account management
  * - Provides sign-out functionality
  * - Accessible with proper ARIA labels
@@ -52,11 +66,22 @@ interface UserMenuProps {
  */
 export function UserMenu({ className }: UserMenuProps) {
   const { convexUser, isAuthenticated, signOut, tier } = useAuth();
+  const { activeWorkspace, switchWorkspace, workspaces } = useWorkspaces();
 
   if (!isAuthenticated || !convexUser) {
     return null;
   }
 
+  const handleSwitchWorkspace = async (
+    workspaceId: Id<"workspaces"> | null,
+  ) => {
+    try {
+      await switchWorkspace(workspaceId);
+    } catch (error) {
+      showErrorFromException("Could not switch workspace", error);
+    }
+  };
+
   const isPaid = tier === "pro" || tier === "paid";
 
   return (
@@ -99,6 +124,49 @@ export function UserMenu({ className }: UserMenuProps) {
 
         <DropdownMenuSeparator />
 
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+          Workspace
+        </DropdownMenuLabel>
+
+        <DropdownMenuItem
+          className="cursor-pointer"
+          onClick={() => handleSwitchWorkspace(null)}
+        >
+          <Check
+            className={cn("w-4 h-4 mr-2", activeWorkspace && "invisible")}
+          />
+          Personal
+        </DropdownMenuItem>
+
+        {workspaces.map((workspace) => (
+          <DropdownMenuItem
+            className="cursor-pointer"
+            key={workspace._id}
+            onClick={() => handleSwitchWorkspace(workspace._id)}
+          >
+            <Check
+              className={cn(
+                "w-4 h-4 mr-2",
+                activeWorkspace?._id !== workspace._id && "invisible",
+              )}
+            />
+            <span className="truncate">{workspace.name}</span>
+          </DropdownMenuItem>
+        ))}
+
+        <DropdownMenuItem asChild>
+          <a
+            aria-label="Manage workspaces"
+            className="cursor-pointer"
+            href="/workspace"
+          >
+            <Users className="w-4 h-4 mr-2" />
+            Workspace Settings
+          </a>
+        </DropdownMenuItem>
+
+        <DropdownMenuSeparator />
+
         <DropdownMenuItem asChild>
           <a
             aria-label="Manage your account"
@@ -132,6 +200,17 @@ export function UserMenu({ className }: UserMenuProps) {
           </a>
         </DropdownMenuItem>
 
+        <DropdownMenuItem asChild>
+          <a
+            aria-label="View usage history"
+            className="cursor-pointer"
+            href="/usage"
+          >
+            <BarChart3 className="w-4 h-4 mr-2" />
+            Usage
+          </a>
+        </DropdownMenuItem>
+
         <DropdownMenuSeparator />
 
         <DropdownMenuItem
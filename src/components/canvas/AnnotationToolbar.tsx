@@ -0,0 +1,190 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { ANNOTATION_DEFAULTS } from "@/constants/canvas";
+import { cn } from "@/lib/utils";
+import { annotationToolAtom } from "@/store/canvas-atoms";
+import type {
+  AnnotationStyle,
+  AnnotationTool,
+  PlacedAnnotation,
+} from "@/types/canvas";
+import { useAtom } from "jotai";
+import {
+  ArrowUpRight,
+  Circle,
+  MousePointer2,
+  PaintBucket,
+  Square,
+  Type,
+} from "lucide-react";
+import { memo } from "react";
+
+/**
+ * Drawing tools in toolbar order
+ */
+const TOOLS: {
+  icon: typeof Type;
+  title: string;
+  tool: AnnotationTool;
+}[] = [
+  { icon: MousePointer2, title: "Select", tool: "select" },
+  { icon: Type, title: "Text", tool: "text" },
+  { icon: Square, title: "Rectangle", tool: "rectangle" },
+  { icon: Circle, title: "Ellipse", tool: "ellipse" },
+  { icon: ArrowUpRight, title: "Arrow", tool: "arrow" },
+];
+
+interface AnnotationToolbarProps {
+  /** Applies a style change to the selected annotations */
+  onStyleChange: (style: Partial<AnnotationStyle>) => void;
+  /** Currently selected annotations (style controls show when non-empty) */
+  selectedAnnotations: PlacedAnnotation[];
+}
+
+/**
+ * Toolbar for drawing text labels and shapes, and styling the selection.
+ *
+ * @remarks
+ * - Picking a tool arms it for one drag on the canvas, then reverts to select
+ * - Color swatches recolor text, or the outline of shapes
+ * - The fill toggle fills rectangles/ellipses with their outline color
+ */
+export const AnnotationToolbar = memo(function AnnotationToolbar({
+  onStyleChange,
+  selectedAnnotations,
+}: AnnotationToolbarProps) {
+  const [annotationTool, setAnnotationTool] = useAtom(annotationToolAtom);
+
+  const first = selectedAnnotations[0];
+  const hasText = selectedAnnotations.some((a) => a.type === "text");
+  const hasShapes = selectedAnnotations.some((a) => a.type === "shape");
+  const hasFillableShapes = selectedAnnotations.some(
+    (a) => a.type === "shape" && a.shapeType !== "arrow",
+  );
+  const activeColor = first
+    ? first.type === "text"
+      ? first.style.fill
+      : first.style.stroke
+    : undefined;
+  const isFilled =
+    hasFillableShapes &&
+    selectedAnnotations.every(
+      (a) =>
+        a.type !== "shape" ||
+        a.shapeType === "arrow" ||
+        a.style.fill !== ANNOTATION_DEFAULTS.FILL,
+    );
+
+  const handleColor = (color: string) => {
+    if (hasText && !hasShapes) {
+      onStyleChange({ fill: color });
+      return;
+    }
+    onStyleChange(
+      isFilled ? { fill: color, stroke: color } : { stroke: color },
+    );
+  };
+
+  return (
+    <div className="pointer-events-auto fixed top-16 left-1/2 -translate-x-1/2 z-40 flex items-center gap-2">
+      <div className="flex items-center overflow-hidden rounded border border-border bg-background/80 shadow-sm">
+        {TOOLS.map(({ icon: Icon, title, tool }) => (
+          <Button
+            aria-pressed={annotationTool === tool}
+            className={cn(
+              "rounded-none",
+              annotationTool === tool && "bg-secondary",
+            )}
+            key={tool}
+            onClick={() => setAnnotationTool(tool)}
+            size="icon-sm"
+            title={title}
+            variant="ghost"
+          >
+            <Icon className="h-4 w-4" />
+          </Button>
+        ))}
+      </div>
+
+      {selectedAnnotations.length > 0 && (
+        <div className="flex items-center gap-1 rounded border border-border bg-background/80 px-2 py-1 shadow-sm">
+          {ANNOTATION_DEFAULTS.COLORS.map((color) => (
+            <button
+              aria-label={`Color ${color}`}
+              className={cn(
+                "h-4 w-4 rounded-full border border-border",
+                activeColor === color && "ring-2 ring-primary ring-offset-1",
+              )}
+              key={color}
+              onClick={() => handleColor(color)}
+              style={{ backgroundColor: color }}
+              type="button"
+            />
+          ))}
+
+          {hasFillableShapes && (
+            <Button
+              aria-pressed={isFilled}
+              className={cn("ml-1", isFilled && "bg-secondary")}
+              onClick={() =>
+                onStyleChange({
+                  fill: isFilled
+                    ? ANNOTATION_DEFAULTS.FILL
+                    : (first?.style.stroke ?? ANNOTATION_DEFAULTS.STROKE),
+                })
+              }
+              size="icon-sm"
+              title="Toggle fill"
+              variant="ghost"
+            >
+              <PaintBucket className="h-4 w-4" />
+            </Button>
+          )}
+
+          {hasShapes && (
+            <div className="ml-1 flex items-center gap-0.5">
+              {ANNOTATION_DEFAULTS.STROKE_WIDTHS.map((strokeWidth) => (
+                <Button
+                  aria-pressed={first?.style.strokeWidth === strokeWidth}
+                  className={cn(
+                    "h-6 w-6 text-xs",
+                    first?.style.strokeWidth === strokeWidth && "bg-secondary",
+                  )}
+                  key={strokeWidth}
+                  onClick={() => onStyleChange({ strokeWidth })}
+                  size="icon-sm"
+                  title={`Stroke ${strokeWidth}px`}
+                  variant="ghost"
+                >
+                  {strokeWidth}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {hasText && (
+            <div className="ml-1 flex items-center gap-0.5">
+              {ANNOTATION_DEFAULTS.FONT_SIZES.map((fontSize, index) => (
+                <Button
+                  aria-pressed={first?.style.fontSize === fontSize}
+                  className={cn(
+                    "h-6 w-6 text-xs",
+                    first?.style.fontSize === fontSize && "bg-secondary",
+                  )}
+                  key={fontSize}
+                  onClick={() => onStyleChange({ fontSize })}
+                  size="icon-sm"
+                  title={`Font size ${fontSize}px`}
+                  variant="ghost"
+                >
+                  {["S", "M", "L"][index]}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,327 @@
+/**
+ * Canvas annotation component for text labels and vector shapes
+ *
+ * Renders annotations on the Konva canvas with support for:
+ * - Text labels with inline editing on double-click
+ * - Rectangles, ellipses, and arrows
+ * - Drag to move, transformer handles to resize and rotate
+ *
+ * @module components/canvas/CanvasAnnotation
+ */
+
+import { ANNOTATION_DEFAULTS } from "@/constants/canvas";
+import type { PlacedAnnotation } from "@/types/canvas";
+import type Konva from "konva";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Arrow, Ellipse, Group, Rect, Text, Transformer } from "react-konva";
+import { Html } from "react-konva-utils";
+
+/**
+ * Highlight color for selected annotations (matches image selection)
+ */
+const SELECTION_COLOR = "#0ea5e9";
+
+/**
+ * Props for the CanvasAnnotation component
+ */
+interface CanvasAnnotationProps {
+  /** The annotation to render */
+  annotation: PlacedAnnotation;
+  /** Whether the text label is being edited inline */
+  isEditing: boolean;
+  /** Whether this annotation is currently selected */
+  isSelected: boolean;
+  /** Whether transformer handles should be shown (single selection only) */
+  isTransformable: boolean;
+  /** Callback to update annotation properties */
+  onChange: (newAttrs: Partial<PlacedAnnotation>) => void;
+  /** Callback when a drag or transform operation ends */
+  onCommit: () => void;
+  /** Callback when inline editing should start */
+  onEditStart: () => void;
+  /** Callback when inline editing finishes with the final text */
+  onEditEnd: (text: string) => void;
+  /** Callback when annotation is selected */
+  onSelect: (e: Konva.KonvaEventObject<MouseEvent>) => void;
+}
+
+/**
+ * Renders the Konva shape for an annotation in group-local coordinates.
+ *
+ * @param annotation - The annotation to draw
+ * @param isEditing - Whether text is hidden behind the inline editor
+ * @param textRef - Ref receiving the Konva text node for measuring
+ */
+export function AnnotationShape({
+  annotation,
+  isEditing,
+  textRef,
+}: {
+  annotation: PlacedAnnotation;
+  isEditing: boolean;
+  textRef: React.RefObject<Konva.Text | null>;
+}) {
+  const { height, style, width } = annotation;
+
+  if (annotation.type === "text") {
+    return (
+      <Text
+        fill={style.fill}
+        fontFamily={ANNOTATION_DEFAULTS.FONT_FAMILY}
+        fontSize={style.fontSize ?? ANNOTATION_DEFAULTS.FONT_SIZE}
+        lineHeight={1.25}
+        ref={textRef}
+        text={annotation.text ?? ""}
+        visible={!isEditing}
+        width={width}
+        wrap="word"
+      />
+    );
+  }
+
+  switch (annotation.shapeType) {
+    case "arrow":
+      return (
+        <Arrow
+          fill={style.stroke}
+          hitStrokeWidth={Math.max(style.strokeWidth, 12)}
+          pointerLength={style.strokeWidth * 4 + 6}
+          pointerWidth={style.strokeWidth * 4 + 6}
+          points={[0, 0, width, height]}
+          stroke={style.stroke}
+          strokeWidth={style.strokeWidth}
+        />
+      );
+    case "ellipse":
+      return (
+        <Ellipse
+          fill={style.fill}
+          radiusX={width / 2}
+          radiusY={height / 2}
+          stroke={style.stroke}
+          strokeWidth={style.strokeWidth}
+          x={width / 2}
+          y={height / 2}
+        />
+      );
+    default:
+      return (
+        <Rect
+          fill={style.fill}
+          height={height}
+          stroke={style.stroke}
+          strokeWidth={style.strokeWidth}
+          width={width}
+        />
+      );
+  }
+}
+
+/**
+ * Inline textarea overlay for editing a text label in place.
+ * Enter or Escape commits; Shift+Enter inserts a line break.
+ *
+ * @param annotation - The text annotation being edited
+ * @param onDone - Receives the edited text when editing ends
+ */
+function AnnotationTextEditor({
+  annotation,
+  onDone,
+}: {
+  annotation: PlacedAnnotation;
+  onDone: (text: string) => void;
+}) {
+  const [draftText, setDraftText] = useState(annotation.text ?? "");
+  const fontSize = annotation.style.fontSize ?? ANNOTATION_DEFAULTS.FONT_SIZE;
+
+  return (
+    <textarea
+      autoFocus
+      onBlur={() => onDone(draftText)}
+      onChange={(e) => setDraftText(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === "Escape" || (e.key === "Enter" && !e.shiftKey)) {
+          e.preventDefault();
+          onDone(draftText);
+        }
+      }}
+      style={{
+        background: "transparent",
+        border: `1px dashed ${SELECTION_COLOR}`,
+        color: annotation.style.fill,
+        fontFamily: ANNOTATION_DEFAULTS.FONT_FAMILY,
+        fontSize: `${fontSize}px`,
+        lineHeight: 1.25,
+        margin: 0,
+        minHeight: `${fontSize * 1.25}px`,
+        outline: "none",
+        overflow: "hidden",
+        padding: 0,
+        resize: "none",
+        width: `${annotation.width}px`,
+      }}
+      value={draftText}
+    />
+  );
+}
+
+/**
+ * CanvasAnnotation component - Text label or shape on the canvas.
+ *
+ * @remarks
+ * - Transforms are baked back into width/height on transform end so the
+ *   persisted scale stays at 1
+ * - Resizing a text label vertically scales its font size
+ * - Text height follows the rendered content so selection bounds stay accurate
+ */
+export const CanvasAnnotation = React.memo(function CanvasAnnotation({
+  annotation,
+  isEditing,
+  isSelected,
+  isTransformable,
+  onChange,
+  onCommit,
+  onEditEnd,
+  onEditStart,
+  onSelect,
+}: CanvasAnnotationProps) {
+  const groupRef = useRef<Konva.Group>(null);
+  const textRef = useRef<Konva.Text>(null);
+  const transformerRef = useRef<Konva.Transformer>(null);
+
+  // Attach transformer to the group when it becomes the single selection
+  useEffect(() => {
+    if (!isTransformable || isEditing) return;
+    if (!transformerRef.current || !groupRef.current) return;
+
+    transformerRef.current.nodes([groupRef.current]);
+    transformerRef.current.getLayer()?.batchDraw();
+  }, [isEditing, isTransformable]);
+
+  // Keep stored height in sync with wrapped text so bounds match what's drawn
+  useEffect(() => {
+    if (annotation.type !== "text" || !textRef.current) return;
+
+    const measuredHeight = textRef.current.height();
+    if (Math.abs(measuredHeight - annotation.height) > 1) {
+      onChange({ height: measuredHeight });
+    }
+  }, [
+    annotation.height,
+    annotation.style.fontSize,
+    annotation.text,
+    annotation.type,
+    annotation.width,
+    onChange,
+  ]);
+
+  const handleDragEnd = useCallback(
+    (e: Konva.KonvaEventObject<DragEvent>) => {
+      onChange({ x: e.target.x(), y: e.target.y() });
+      onCommit();
+    },
+    [onChange, onCommit],
+  );
+
+  const handleTransformEnd = useCallback(() => {
+    const node = groupRef.current;
+    if (!node) return;
+
+    const scaleX = node.scaleX();
+    const scaleY = node.scaleY();
+    node.scaleX(1);
+    node.scaleY(1);
+
+    const newAttrs: Partial<PlacedAnnotation> = {
+      height: annotation.height * scaleY,
+      rotation: node.rotation(),
+      width: annotation.width * scaleX,
+      x: node.x(),
+      y: node.y(),
+    };
+
+    if (annotation.type === "text") {
+      newAttrs.style = {
+        ...annotation.style,
+        fontSize: Math.max(
+          4,
+          Math.round(
+            (annotation.style.fontSize ?? ANNOTATION_DEFAULTS.FONT_SIZE) *
+              scaleY,
+          ),
+        ),
+      };
+    }
+
+    onChange(newAttrs);
+    onCommit();
+  }, [annotation, onChange, onCommit]);
+
+  const handleDoubleClick = useCallback(() => {
+    if (annotation.type === "text") {
+      onEditStart();
+    }
+  }, [annotation.type, onEditStart]);
+
+  return (
+    <>
+      <Group
+        draggable={!isEditing}
+        onClick={onSelect}
+        onDblClick={handleDoubleClick}
+        onDblTap={handleDoubleClick}
+        onDragEnd={handleDragEnd}
+        onDragStart={(e) => {
+          if (!isSelected) {
+            onSelect(e as unknown as Konva.KonvaEventObject<MouseEvent>);
+          }
+        }}
+        onTap={(e) =>
+          onSelect(e as unknown as Konva.KonvaEventObject<MouseEvent>)
+        }
+        onTransformEnd={handleTransformEnd}
+        ref={groupRef}
+        rotation={annotation.rotation}
+        x={annotation.x}
+        y={annotation.y}
+      >
+        <AnnotationShape
+          annotation={annotation}
+          isEditing={isEditing}
+          textRef={textRef}
+        />
+
+        {isSelected && !isTransformable && (
+          <Rect
+            dash={[4, 4]}
+            height={annotation.height}
+            listening={false}
+            stroke={SELECTION_COLOR}
+            strokeWidth={1}
+            width={annotation.width}
+          />
+        )}
+
+        {isEditing && (
+          <Html>
+            <AnnotationTextEditor annotation={annotation} onDone={onEditEnd} />
+          </Html>
+        )}
+      </Group>
+
+      {isTransformable && !isEditing && (
+        <Transformer
+          anchorStroke={SELECTION_COLOR}
+          borderStroke={SELECTION_COLOR}
+          boundBoxFunc={(oldBox, newBox) =>
+            Math.abs(newBox.width) < 5 && Math.abs(newBox.height) < 5
+              ? oldBox
+              : newBox
+          }
+          ignoreStroke
+          ref={transformerRef}
+        />
+      )}
+    </>
+  );
+});
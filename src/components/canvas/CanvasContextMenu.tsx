@@ -5,6 +5,7 @@
  */
 
 import { SpinnerIcon } from "@/components/icons";
+import type { VideoContinuationMode } from "@/lib/handlers/video-continuation-handler";
 import {
   ContextMenuContent,
   ContextMenuItem,
@@ -17,6 +18,10 @@ import type {
   PlacedImage,
   PlacedVideo,
 } from "@/types/canvas";
+import {
+  canRegenerate,
+  type RegenerateMode,
+} from "@/utils/generation-provenance-utils";
 import { checkOS } from "@/utils/os-utils";
 import {
   ChevronDown,
@@ -24,10 +29,17 @@ import {
   Combine,
   Copy,
   Download,
+  FastForward,
+  Frame,
+  ImageIcon,
   Layers,
   MoveDown,
   MoveUp,
+  Paintbrush,
   Play,
+  RefreshCw,
+  ScanSearch,
+  Shuffle,
   Video,
   X,
 } from "lucide-react";
@@ -42,9 +54,15 @@ interface CanvasContextMenuProps {
   bringForward: () => void;
   generationSettings: GenerationSettings;
   handleCombineImages: () => void;
+  handleContinueVideo?: (videoId: string, mode: VideoContinuationMode) => void;
   handleConvertToVideo?: (imageId: string) => void;
   handleDelete: () => void;
   handleDuplicate: () => void;
+  handleFrameSelection?: () => void;
+  handleMatchStyle?: (referenceImageId: string) => void;
+  handleReanalyzeImage?: (imageId: string) => void;
+  handleRegenerate?: (imageId: string, mode: RegenerateMode) => void;
+  handleRemoveFromFrame?: () => void;
   handleRun: () => void;
   images: PlacedImage[];
   isGenerating: boolean;
@@ -63,9 +81,15 @@ export const CanvasContextMenu = React.memo<CanvasContextMenuProps>(
     bringForward,
     generationSettings,
     handleCombineImages,
+    handleContinueVideo,
     handleConvertToVideo,
     handleDelete,
     handleDuplicate,
+    handleFrameSelection,
+    handleMatchStyle,
+    handleReanalyzeImage,
+    handleRegenerate,
+    handleRemoveFromFrame,
     handleRun,
     images,
     isGenerating,
@@ -122,6 +146,29 @@ export const CanvasContextMenu = React.memo<CanvasContextMenuProps>(
       }
     }, [images, selectedIds, videos]);
 
+    const regenerableImage =
+      selectedIds.length === 1
+        ? images.find((img) => img.id === selectedIds[0])
+        : undefined;
+
+    const continuableVideo =
+      selectedIds.length === 1
+        ? videos.find(
+            (video) =>
+              video.id === selectedIds[0] && video.src && !video.isLoading,
+          )
+        : undefined;
+
+    // Any selected image can be the style reference for the others
+    const styleReferenceCandidates = selectedIds.flatMap((id) => {
+      const image = images.find((img) => img.id === id && !img.isLoading);
+      return image ? [image] : [];
+    });
+
+    const isAnyFramed = [...images, ...videos].some(
+      (element) => selectedIds.includes(element.id) && element.parentGroupId,
+    );
+
     return (
       <ContextMenuContent>
         <ContextMenuItem
@@ -169,6 +216,103 @@ export const CanvasContextMenu = React.memo<CanvasContextMenuProps>(
             </ContextMenuItem>
           )}
 
+        {handleContinueVideo && continuableVideo && (
+          <>
+            <ContextMenuItem
+              onClick={() => handleContinueVideo(continuableVideo.id, "extend")}
+              className="flex items-center gap-2"
+            >
+              <FastForward className="h-4 w-4" />
+              Extend clip
+            </ContextMenuItem>
+            <ContextMenuItem
+              onClick={() => handleContinueVideo(continuableVideo.id, "remix")}
+              className="flex items-center gap-2"
+            >
+              <Shuffle className="h-4 w-4" />
+              Remix with prompt
+            </ContextMenuItem>
+            <ContextMenuItem
+              onClick={() =>
+                handleContinueVideo(continuableVideo.id, "last-frame")
+              }
+              className="flex items-center gap-2"
+            >
+              <ImageIcon className="h-4 w-4" />
+              Use last frame as new source
+            </ContextMenuItem>
+          </>
+        )}
+
+        {handleRegenerate &&
+          regenerableImage &&
+          canRegenerate(regenerableImage) && (
+            <ContextMenuSub>
+              <ContextMenuSubTrigger className="flex items-center gap-2">
+                <RefreshCw className="h-4 w-4" />
+                Regenerate
+              </ContextMenuSubTrigger>
+              <ContextMenuSubContent className="w-64" sideOffset={10}>
+                <ContextMenuItem
+                  onClick={() =>
+                    handleRegenerate(regenerableImage.id, "same-settings")
+                  }
+                  className="flex items-center justify-between gap-2"
+                >
+                  <span>With same settings</span>
+                  {regenerableImage.provenance?.seed !== undefined && (
+                    <span className="text-xs text-muted-foreground">
+                      Seed {regenerableImage.provenance.seed}
+                    </span>
+                  )}
+                </ContextMenuItem>
+                <ContextMenuItem
+                  onClick={() =>
+                    handleRegenerate(regenerableImage.id, "new-seed")
+                  }
+                  className="flex items-center gap-2"
+                >
+                  With new seed
+                </ContextMenuItem>
+              </ContextMenuSubContent>
+            </ContextMenuSub>
+          )}
+
+        {handleMatchStyle && styleReferenceCandidates.length >= 2 && (
+          <ContextMenuSub>
+            <ContextMenuSubTrigger className="flex items-center gap-2">
+              <Paintbrush className="h-4 w-4" />
+              Match style of…
+            </ContextMenuSubTrigger>
+            <ContextMenuSubContent className="w-64" sideOffset={10}>
+              {styleReferenceCandidates.map((image, index) => (
+                <ContextMenuItem
+                  key={image.id}
+                  onClick={() => handleMatchStyle(image.id)}
+                  className="flex items-center gap-2"
+                >
+                  <img
+                    alt=""
+                    className="h-8 w-8 rounded object-cover"
+                    src={image.thumbnailSrc || image.src}
+                  />
+                  <span>Selected image {index + 1}</span>
+                </ContextMenuItem>
+              ))}
+            </ContextMenuSubContent>
+          </ContextMenuSub>
+        )}
+
+        {handleReanalyzeImage && regenerableImage?.assetId && (
+          <ContextMenuItem
+            onClick={() => handleReanalyzeImage(regenerableImage.id)}
+            className="flex items-center gap-2"
+          >
+            <ScanSearch className="h-4 w-4" />
+            Re-analyze
+          </ContextMenuItem>
+        )}
+
         <ContextMenuItem
           onClick={handleCombineImages}
           disabled={selectedIds.length < 2}
@@ -177,6 +321,27 @@ export const CanvasContextMenu = React.memo<CanvasContextMenuProps>(
           <Combine className="h-4 w-4" />
           Combine Images
         </ContextMenuItem>
+
+        {handleFrameSelection && (
+          <ContextMenuItem
+            onClick={handleFrameSelection}
+            disabled={selectedIds.length === 0}
+            className="flex items-center gap-2"
+          >
+            <Frame className="h-4 w-4" />
+            Frame Selection
+          </ContextMenuItem>
+        )}
+
+        {handleRemoveFromFrame && isAnyFramed && (
+          <ContextMenuItem
+            onClick={handleRemoveFromFrame}
+            className="flex items-center gap-2"
+          >
+            <Frame className="h-4 w-4" />
+            Remove from Frame
+          </ContextMenuItem>
+        )}
         <ContextMenuSub>
           <ContextMenuSubTrigger
             disabled={
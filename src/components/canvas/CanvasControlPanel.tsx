@@ -4,15 +4,23 @@ import { ActionButtons } from "@/components/canvas/control-panel/ActionButtons";
 import { ControlActions } from "@/components/canvas/control-panel/ControlActions";
 import { GenerationsIndicatorWrapper } from "@/components/canvas/control-panel/GenerationsIndicatorWrapper";
 import { ModeIndicator } from "@/components/canvas/control-panel/ModeIndicator";
+import { MoodVectorSettings } from "@/components/canvas/control-panel/MoodVectorSettings";
 import { PromptInput } from "@/components/canvas/control-panel/PromptInput";
+import { VariationCountSettings } from "@/components/canvas/control-panel/VariationCountSettings";
 import { VideoSettings } from "@/components/canvas/control-panel/VideoSettings";
 import type { ImageModelId } from "@/lib/image-models";
 import { cn } from "@/lib/utils";
+import type {
+  TextToVideoModelId,
+  VideoModelCategory,
+  VideoToVideoModelId,
+} from "@/lib/video-models";
 import type {
   ActiveVideoGeneration,
   GenerationSettings,
   PlacedImage,
 } from "@/types/canvas";
+import type { MoodVector } from "@/types/mood-vector";
 import React from "react";
 
 /**
@@ -23,8 +31,10 @@ interface CanvasControlPanelProps {
   activeGenerationsSize: number;
   activeVideoGenerations: Map<string, ActiveVideoGeneration>;
   activeVideoGenerationsSize: number;
+  canPickPresets: boolean;
   canRedo: boolean;
   canUndo: boolean;
+  customPresetPackName?: string;
   generationCount: number;
   generationSettings: GenerationSettings;
   handleFileUpload: (files: FileList | null) => void;
@@ -34,39 +44,60 @@ interface CanvasControlPanelProps {
   imageVariationType?:
     | "camera-angles"
     | "characters"
+    | "custom"
     | "director"
     | "emotions"
     | "lighting"
+    | "mood"
     | "storyline"
     | "weather";
   images: PlacedImage[];
   isGenerating: boolean;
+  isVideoEndFrameEnabled: boolean;
+  /** Target vector of mood variations */
+  moodVector: MoodVector;
+  onOpenPresetManager?: () => void;
+  /** Opens the preset picker and saved recipes */
+  onOpenPresetPicker?: () => void;
+  /** Number of presets picked for the current image variation type */
+  pickedCount: number;
   redo: () => void;
   selectedIds: string[];
   setGenerationSettings: (settings: GenerationSettings) => void;
+  setGenerationCount: (count: number) => void;
   setImageModel: (value: ImageModelId) => void;
   setImageVariationType?: (
     type:
       | "camera-angles"
       | "characters"
+      | "custom"
       | "director"
       | "emotions"
       | "lighting"
+      | "mood"
       | "storyline"
       | "weather"
   ) => void;
   setIsSettingsDialogOpen: (open: boolean) => void;
+  setIsVideoEndFrameEnabled: (value: boolean) => void;
+  setMoodVector: (value: MoodVector) => void;
+  setTextToVideoModel: (value: TextToVideoModelId) => void;
   setVideoDuration: (value: "4" | "8" | "12") => void;
   setVideoModel: (
     value: "sora-2" | "sora-2-pro" | "veo-3.1" | "veo-3.1-pro"
   ) => void;
   setVideoResolution: (value: "auto" | "720p" | "1080p") => void;
+  setVideoToVideoModel: (value: VideoToVideoModelId) => void;
   showSuccess: boolean;
+  textToVideoModel: TextToVideoModelId;
   undo: () => void;
   variationMode?: "image" | "video";
+  /** Kind of video generation the current selection leads to */
+  videoCategory: VideoModelCategory;
   videoDuration: "4" | "8" | "12";
   videoModel: "sora-2" | "sora-2-pro" | "veo-3.1" | "veo-3.1-pro";
   videoResolution: "auto" | "720p" | "1080p";
+  videoToVideoModel: VideoToVideoModelId;
 }
 
 /**
@@ -78,8 +109,11 @@ export const CanvasControlPanel = React.memo(function CanvasControlPanel({
   activeGenerationsSize,
   activeVideoGenerations,
   activeVideoGenerationsSize,
+  canPickPresets,
   canRedo,
   canUndo,
+  customPresetPackName,
+  generationCount,
   generationSettings,
   handleFileUpload,
   handleRun,
@@ -87,22 +121,38 @@ export const CanvasControlPanel = React.memo(function CanvasControlPanel({
   imageVariationType = "camera-angles",
   images,
   isGenerating,
+  isVideoEndFrameEnabled,
+  moodVector,
+  onOpenPresetManager,
+  onOpenPresetPicker,
+  pickedCount,
   redo,
   selectedIds,
+  setGenerationCount,
   setGenerationSettings,
   setImageVariationType,
   setIsSettingsDialogOpen,
+  setIsVideoEndFrameEnabled,
+  setMoodVector,
+  setTextToVideoModel,
   setVideoDuration,
   setVideoModel,
   setVideoResolution: _setVideoResolution,
+  setVideoToVideoModel,
   showSuccess,
+  textToVideoModel,
   undo,
   variationMode = "image",
+  videoCategory,
   videoDuration,
   videoModel,
   videoResolution: _videoResolution,
+  videoToVideoModel,
 }: CanvasControlPanelProps) {
   const hasSelection = selectedIds.length > 0;
+  const selectedImageCount = images.filter((img) =>
+    selectedIds.includes(img.id)
+  ).length;
   return (
     <div className="fixed bottom-0 left-0 right-0 md:absolute md:bottom-4 md:left-1/2 md:transform md:-translate-x-1/2 z-20 p-2 pb-[calc(0.5rem+env(safe-area-inset-bottom))] md:p-0 md:pb-0 flex justify-center">
       <div
@@ -135,20 +185,41 @@ export const CanvasControlPanel = React.memo(function CanvasControlPanel({
 
               {/* Mode indicator badge with switch */}
               <ModeIndicator
+                customPresetPackName={customPresetPackName}
                 handleVariationModeChange={handleVariationModeChange}
                 hasSelection={hasSelection}
                 imageVariationType={imageVariationType}
+                onOpenPresetManager={onOpenPresetManager}
                 setImageVariationType={setImageVariationType}
                 variationMode={variationMode}
               />
 
+              {/* Variation count - only show for image variations */}
+              {hasSelection && variationMode === "image" && (
+                <VariationCountSettings
+                  canPickPresets={canPickPresets}
+                  generationCount={generationCount}
+                  onOpenPresetPicker={onOpenPresetPicker}
+                  pickedCount={pickedCount}
+                  setGenerationCount={setGenerationCount}
+                />
+              )}
+
               {/* Video settings - only show when in video mode */}
-              {hasSelection && variationMode === "video" && (
+              {variationMode === "video" && (
                 <VideoSettings
+                  canUseEndFrame={selectedImageCount === 2}
+                  category={videoCategory}
+                  isEndFrameEnabled={isVideoEndFrameEnabled}
+                  setIsEndFrameEnabled={setIsVideoEndFrameEnabled}
+                  setTextToVideoModel={setTextToVideoModel}
                   setVideoDuration={setVideoDuration}
                   setVideoModel={setVideoModel}
+                  setVideoToVideoModel={setVideoToVideoModel}
+                  textToVideoModel={textToVideoModel}
                   videoDuration={videoDuration}
                   videoModel={videoModel}
+                  videoToVideoModel={videoToVideoModel}
                 />
               )}
             </div>
@@ -166,6 +237,16 @@ export const CanvasControlPanel = React.memo(function CanvasControlPanel({
             />
           </div>
 
+          {/* Mood sliders - only show for mood variations */}
+          {hasSelection &&
+            variationMode === "image" &&
+            imageVariationType === "mood" && (
+              <MoodVectorSettings
+                moodVector={moodVector}
+                setMoodVector={setMoodVector}
+              />
+            )}
+
           {/* Prompt input */}
           <div className="flex items-center gap-1">
             <PromptInput
@@ -0,0 +1,240 @@
+/**
+ * Canvas frame component for grouping images and videos
+ *
+ * Renders a titled artboard behind its members with support for:
+ * - Dragging the title bar to move all members together
+ * - Renaming on double-click of the title
+ * - Collapsing to a title bar that hides the members
+ *
+ * @module components/canvas/CanvasFrame
+ */
+
+import { FRAME_DEFAULTS } from "@/constants/canvas";
+import type { PlacedFrame } from "@/types/canvas";
+import type { Rectangle } from "@/utils/transform-utils";
+import type Konva from "konva";
+import React, { useCallback, useRef, useState } from "react";
+import { Group, Rect, Text } from "react-konva";
+import { Html } from "react-konva-utils";
+
+/**
+ * Highlight color for selected frames (matches image selection)
+ */
+const SELECTION_COLOR = "#0ea5e9";
+
+/**
+ * Width reserved for the collapse toggle at the start of the title bar
+ */
+const TOGGLE_WIDTH = 24;
+
+/**
+ * Props for the CanvasFrame component
+ */
+interface CanvasFrameProps {
+  /** Frame bounds derived from its members */
+  bounds: Rectangle;
+  /** The frame to render */
+  frame: PlacedFrame;
+  /** Whether every member of the frame is selected */
+  isSelected: boolean;
+  /** Number of images and videos in the frame */
+  memberCount: number;
+  /** Callback to update frame properties */
+  onChange: (newAttrs: Partial<PlacedFrame>) => void;
+  /** Callback with the incremental offset while the frame is dragged */
+  onMove: (deltaX: number, deltaY: number) => void;
+  /** Callback when a drag operation ends */
+  onMoveEnd: () => void;
+  /** Callback when the frame is selected */
+  onSelect: (e: Konva.KonvaEventObject<MouseEvent>) => void;
+}
+
+/**
+ * Inline input overlay for renaming a frame in place.
+ * Enter or Escape commits.
+ *
+ * @param onDone - Receives the edited title when editing ends
+ * @param title - Current frame title
+ * @param width - Available width in canvas pixels
+ */
+function FrameTitleEditor({
+  onDone,
+  title,
+  width,
+}: {
+  onDone: (title: string) => void;
+  title: string;
+  width: number;
+}) {
+  const [draftTitle, setDraftTitle] = useState(title);
+
+  return (
+    <input
+      autoFocus
+      onBlur={() => onDone(draftTitle)}
+      onChange={(e) => setDraftTitle(e.target.value)}
+      onFocus={(e) => e.target.select()}
+      onKeyDown={(e) => {
+        if (e.key === "Escape" || e.key === "Enter") {
+          e.preventDefault();
+          onDone(draftTitle);
+        }
+      }}
+      style={{
+        background: "transparent",
+        border: `1px dashed ${SELECTION_COLOR}`,
+        color: FRAME_DEFAULTS.TITLE_COLOR,
+        fontSize: `${FRAME_DEFAULTS.FONT_SIZE}px`,
+        height: `${FRAME_DEFAULTS.TITLE_HEIGHT - 8}px`,
+        margin: 0,
+        outline: "none",
+        padding: 0,
+        width: `${width}px`,
+      }}
+      value={draftTitle}
+    />
+  );
+}
+
+/**
+ * CanvasFrame component - Titled artboard wrapping a group of elements.
+ *
+ * @remarks
+ * - Only the title bar is interactive, so selection boxes can still be
+ *   drawn over the frame body
+ * - The frame's position comes from its members; dragging reports deltas
+ *   and the members move, which in turn moves the frame
+ */
+export const CanvasFrame = React.memo(function CanvasFrame({
+  bounds,
+  frame,
+  isSelected,
+  memberCount,
+  onChange,
+  onMove,
+  onMoveEnd,
+  onSelect,
+}: CanvasFrameProps) {
+  const [isEditingTitle, setIsEditingTitle] = useState(false);
+  const lastDragPosition = useRef<{ x: number; y: number } | null>(null);
+
+  const height = frame.isCollapsed
+    ? FRAME_DEFAULTS.TITLE_HEIGHT
+    : bounds.height;
+  const titleWidth = bounds.width - TOGGLE_WIDTH - FRAME_DEFAULTS.PADDING;
+
+  const handleDragStart = useCallback(
+    (e: Konva.KonvaEventObject<DragEvent>) => {
+      lastDragPosition.current = { x: e.target.x(), y: e.target.y() };
+      onSelect(e as unknown as Konva.KonvaEventObject<MouseEvent>);
+    },
+    [onSelect],
+  );
+
+  const handleDragMove = useCallback(
+    (e: Konva.KonvaEventObject<DragEvent>) => {
+      const last = lastDragPosition.current;
+      if (!last) return;
+
+      const position = { x: e.target.x(), y: e.target.y() };
+      lastDragPosition.current = position;
+      onMove(position.x - last.x, position.y - last.y);
+    },
+    [onMove],
+  );
+
+  const handleDragEnd = useCallback(() => {
+    lastDragPosition.current = null;
+    onMoveEnd();
+  }, [onMoveEnd]);
+
+  const handleTitleEditEnd = useCallback(
+    (title: string) => {
+      setIsEditingTitle(false);
+      if (title.trim() && title !== frame.title) {
+        onChange({ title: title.trim() });
+      }
+    },
+    [frame.title, onChange],
+  );
+
+  return (
+    <Group
+      draggable={!isEditingTitle}
+      onDragEnd={handleDragEnd}
+      onDragMove={handleDragMove}
+      onDragStart={handleDragStart}
+      x={bounds.x}
+      y={bounds.y}
+    >
+      <Rect
+        cornerRadius={FRAME_DEFAULTS.CORNER_RADIUS}
+        fill={FRAME_DEFAULTS.FILL}
+        height={height}
+        listening={false}
+        stroke={isSelected ? SELECTION_COLOR : FRAME_DEFAULTS.BORDER_COLOR}
+        strokeWidth={1}
+        width={bounds.width}
+      />
+
+      <Group
+        onClick={onSelect}
+        onDblClick={() => setIsEditingTitle(true)}
+        onDblTap={() => setIsEditingTitle(true)}
+        onTap={(e) =>
+          onSelect(e as unknown as Konva.KonvaEventObject<MouseEvent>)
+        }
+      >
+        <Rect
+          fill="transparent"
+          height={FRAME_DEFAULTS.TITLE_HEIGHT}
+          width={bounds.width}
+        />
+        <Text
+          align="center"
+          fill={FRAME_DEFAULTS.TITLE_COLOR}
+          fontSize={FRAME_DEFAULTS.FONT_SIZE}
+          height={FRAME_DEFAULTS.TITLE_HEIGHT}
+          onClick={(e) => {
+            e.cancelBubble = true;
+            onChange({ isCollapsed: !frame.isCollapsed });
+          }}
+          onTap={(e) => {
+            e.cancelBubble = true;
+            onChange({ isCollapsed: !frame.isCollapsed });
+          }}
+          text={frame.isCollapsed ? "▸" : "▾"}
+          verticalAlign="middle"
+          width={TOGGLE_WIDTH}
+          x={4}
+        />
+        <Text
+          ellipsis
+          fill={FRAME_DEFAULTS.TITLE_COLOR}
+          fontSize={FRAME_DEFAULTS.FONT_SIZE}
+          height={FRAME_DEFAULTS.TITLE_HEIGHT}
+          text={
+            frame.isCollapsed
+              ? `${frame.title} · ${memberCount} ${memberCount === 1 ? "item" : "items"}`
+              : frame.title
+          }
+          verticalAlign="middle"
+          visible={!isEditingTitle}
+          width={titleWidth}
+          wrap="none"
+          x={TOGGLE_WIDTH + 4}
+        />
+      </Group>
+
+      {isEditingTitle && (
+        <Html groupProps={{ x: TOGGLE_WIDTH + 4, y: 4 }}>
+          <FrameTitleEditor
+            onDone={handleTitleEditEnd}
+            title={frame.title}
+            width={titleWidth}
+          />
+        </Html>
+      )}
+    </Group>
+  );
+});
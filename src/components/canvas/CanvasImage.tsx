@@ -19,6 +19,7 @@ import { useSharedSkeletonAnimation } from "@/hooks/useSharedSkeletonAnimation";
 import type { PlacedImage } from "@/types/canvas";
 import { abbreviateCameraDirective } from "@/utils/camera-abbreviation-utils";
 import { extractShortErrorMessage } from "@/utils/error-message-utils";
+import { getMoodVectorLabel } from "@/utils/mood-vector-utils";
 import Konva from "konva";
 import React, { useCallback, useEffect, useMemo, useRef } from "react";
 import { Group, Image as KonvaImage, Rect } from "react-konva";
@@ -42,6 +43,8 @@ interface CanvasImageProps {
   isDraggingImage: boolean;
   /** Whether this image is currently selected */
   isSelected: boolean;
+  /** Outline color when a collaborator has the image selected, which locks it */
+  lockColor?: string;
   /** Callback to update image properties */
   onChange: (newAttrs: Partial<PlacedImage>) => void;
   /** Callback when drag operation ends */
@@ -76,7 +79,7 @@ const getImageDimensions = (image: PlacedImage) => ({
 
 /**
  * Helper function to get the directive label text for an image.
- * Priority: storylineLabel > emotion > characterVariation > directorName > cameraAngle > lightingScenario
+ * Priority: storylineLabel > customPreset > emotion > moodVector > characterVariation > directorName > cameraAngle > lightingScenario
  *
  * @param image - The placed image
  * @returns Label text or undefined if no label should be shown
@@ -85,8 +88,12 @@ const getDirectiveLabelText = (image: PlacedImage): string | undefined => {
   if (image.isLoading) return undefined;
   // Storyline time labels (e.g., "+1min", "+2h5m")
   if (image.storylineLabel) return image.storylineLabel;
+  // Custom preset names
+  if (image.customPreset) return image.customPreset;
   // Emotion labels (e.g., "Joy", "Sadness")
   if (image.emotion) return image.emotion;
+  // Mood targets (strongest axes, e.g., "Awe 80 · Wonder 72")
+  if (image.moodVector) return getMoodVectorLabel(image.moodVector);
   // Character variation labels
   if (image.characterVariation) return image.characterVariation;
   // Director name labels
@@ -135,6 +142,7 @@ const CanvasImageComponent: React.FC<CanvasImageProps> = ({
   image,
   images,
   isSelected,
+  lockColor,
   onChange,
   onDoubleClick,
   onDragEnd,
@@ -266,7 +274,7 @@ const CanvasImageComponent: React.FC<CanvasImageProps> = ({
   const commonImageProps = useMemo(
     () => ({
       ...getImageDimensions(image),
-      draggable: isDraggable,
+      draggable: isDraggable && !lockColor,
       id: image.id,
       onClick: onSelect,
       onDblClick: handleDoubleClickWrapper,
@@ -282,13 +290,15 @@ const CanvasImageComponent: React.FC<CanvasImageProps> = ({
       ref: shapeRef,
       rotation: image.rotation,
       shadowForStrokeEnabled: false,
-      stroke: strokeColor,
+      // A collaborator's lock outline takes precedence over selection and hover
+      stroke: lockColor ?? strokeColor,
       strokeScaleEnabled: false,
-      strokeWidth: strokeWidth,
+      strokeWidth: lockColor ? 2 : strokeWidth,
     }),
     [
       image,
       isDraggable,
+      lockColor,
       onSelect,
       handleDoubleClickWrapper,
       handleDragEndWrapper,
@@ -431,6 +441,7 @@ const arePropsEqual = (
   // Check primitive props
   if (
     prevProps.isSelected !== nextProps.isSelected ||
+    prevProps.lockColor !== nextProps.lockColor ||
     prevProps.isDraggingImage !== nextProps.isDraggingImage
   ) {
     return false;
@@ -461,7 +472,9 @@ const arePropsEqual = (
     prevImg.errorMessage !== nextImg.errorMessage ||
     // Variation label fields (matching Convex schema)
     prevImg.emotion !== nextImg.emotion ||
+    prevImg.moodVector !== nextImg.moodVector ||
     prevImg.characterVariation !== nextImg.characterVariation ||
+    prevImg.customPreset !== nextImg.customPreset ||
     prevImg.storylineLabel !== nextImg.storylineLabel ||
     prevImg.lightingScenario !== nextImg.lightingScenario ||
     prevImg.variationType !== nextImg.variationType ||
@@ -6,7 +6,10 @@
  * - Grid rendering
  * - Selection box visualization
  * - Image and video element rendering
+ * - Text and shape annotations, including drawing new ones
+ * - Frames grouping images and videos
  * - Variation mode ghost placeholders
+ * - Review comment pins, and placing new ones in comment mode
  * - All mouse and touch interactions
  *
  * @module components/canvas/CanvasStageRenderer
@@ -15,28 +18,69 @@
 "use client";
 
 import { ARIA_LABELS, CANVAS_DIMENSIONS } from "@/constants/canvas";
+import type { CommentThread } from "@/hooks/useProjectComments";
+import {
+  createAnnotation,
+  getAnnotationBounds,
+} from "@/lib/handlers/annotation-handlers";
+import {
+  createCommentPinTarget,
+  type CommentPinTarget,
+} from "@/lib/handlers/comment-handlers";
+import {
+  getCollapsedMemberIds,
+  getFrameBounds,
+  getFrameMembers,
+  moveFrameMembers,
+} from "@/lib/handlers/frame-handlers";
+import { annotationToolAtom } from "@/store/canvas-atoms";
+import {
+  isCommentModeAtom,
+  isLineagePanelOpenAtom,
+  showLineageConnectorsAtom,
+} from "@/store/ui-atoms";
+import {
+  buildLineageIndex,
+  getAncestorIds,
+  getDescendantIds,
+  getLineageLinks,
+} from "@/utils/lineage-utils";
 import type { Viewport } from "@/utils/viewport-utils";
 import type {
   GenerationSettings,
+  PlacedAnnotation,
+  PlacedFrame,
   PlacedImage,
   PlacedVideo,
   SelectionBox,
 } from "@/types/canvas";
+import { useAtom, useAtomValue } from "jotai";
 import type Konva from "konva";
-import React, { useCallback, useMemo } from "react";
+import React, { useCallback, useMemo, useState } from "react";
 import { Layer, Line, Stage } from "react-konva";
+import { CanvasAnnotation } from "./CanvasAnnotation";
+import { CanvasFrame } from "./CanvasFrame";
 import { CanvasGrid } from "./CanvasGrid";
 import { CanvasImage } from "./CanvasImage";
 import { CanvasVideo } from "./CanvasVideo";
+import { CommentPinsLayer } from "./CommentPinsLayer";
 import { SelectionBoxComponent } from "./SelectionBox";
-import { SelectionConnector } from "./SelectionConnector";
+import { LineageConnector, SelectionConnector } from "./SelectionConnector";
 import { VariationGhostPlaceholders } from "./VariationGhostPlaceholders";
 
 /**
  * Props for the CanvasStageRenderer component
  */
 interface CanvasStageRendererProps {
+  /** Comment thread whose popover is open */
+  activeCommentThreadId?: string;
+  annotations: PlacedAnnotation[];
   canvasSize: { height: number; width: number };
+  /** Review comment threads of the project */
+  commentThreads?: CommentThread[];
+  /** Pin of the comment thread being composed */
+  draftCommentPin?: CommentPinTarget;
+  frames: PlacedFrame[];
   generationCount?: number;
   generationSettings: GenerationSettings;
   images: PlacedImage[];
@@ -59,9 +103,17 @@ interface CanvasStageRendererProps {
   };
   isCanvasReady: boolean;
   isGenerating: boolean;
+  /** Elements selected by collaborators, mapped to their color; these cannot be selected or dragged */
+  lockedIds?: Map<string, string>;
+  /** Called when a comment pin is clicked */
+  onCommentPinSelect?: (threadId: string) => void;
+  /** Called when the canvas is clicked in comment mode */
+  onCommentPlace?: (target: CommentPinTarget) => void;
   onImageDoubleClick?: (imageId: string) => void;
   saveToHistory: () => void;
   selectedIds: string[];
+  setAnnotations: React.Dispatch<React.SetStateAction<PlacedAnnotation[]>>;
+  setFrames: React.Dispatch<React.SetStateAction<PlacedFrame[]>>;
   setImages: React.Dispatch<React.SetStateAction<PlacedImage[]>>;
   setSelectedIds: (ids: string[]) => void;
   setVideos: React.Dispatch<React.SetStateAction<PlacedVideo[]>>;
@@ -139,14 +191,24 @@ function getVisibleItems<
  * ```
  */
 export const CanvasStageRenderer = React.memo(function CanvasStageRenderer({
+  activeCommentThreadId,
+  annotations,
   canvasSize,
+  commentThreads,
+  draftCommentPin,
+  frames,
   generationCount,
   images,
   interactions,
   isCanvasReady,
+  lockedIds,
+  onCommentPinSelect,
+  onCommentPlace,
   onImageDoubleClick,
   saveToHistory,
   selectedIds,
+  setAnnotations,
+  setFrames,
   setImages,
   setSelectedIds,
   setVideos,
@@ -158,6 +220,41 @@ export const CanvasStageRenderer = React.memo(function CanvasStageRenderer({
 }: CanvasStageRendererProps) {
   const selectedIdsSet = useMemo(() => new Set(selectedIds), [selectedIds]);
 
+  // Elements a collaborator has selected are locked until they deselect them
+  const handleSelect = useCallback(
+    (id: string, e: Konva.KonvaEventObject<MouseEvent>) => {
+      if (lockedIds?.has(id)) return;
+      interactions.handleSelect(id, e);
+    },
+    [interactions, lockedIds],
+  );
+  const [annotationTool, setAnnotationTool] = useAtom(annotationToolAtom);
+  const isCommentMode = useAtomValue(isCommentModeAtom);
+  const isLineagePanelOpen = useAtomValue(isLineagePanelOpenAtom);
+  const showLineageConnectors = useAtomValue(showLineageConnectorsAtom);
+  const [annotationDraft, setAnnotationDraft] = useState<{
+    end: { x: number; y: number };
+    start: { x: number; y: number };
+  } | null>(null);
+  const [editingAnnotationId, setEditingAnnotationId] = useState<string | null>(
+    null,
+  );
+
+  // Members of collapsed frames are hidden behind the frame's title bar
+  const collapsedMemberIds = useMemo(
+    () => getCollapsedMemberIds(frames, [...images, ...videos]),
+    [frames, images, videos],
+  );
+
+  // Images and videos that comment pins can follow, bottom to top
+  const pinnableElements = useMemo(
+    () =>
+      [...images, ...videos].filter(
+        (element) => !collapsedMemberIds.has(element.id),
+      ),
+    [collapsedMemberIds, images, videos],
+  );
+
   // Get device pixel ratio for crisp rendering on retina displays
   const pixelRatio = useMemo(
     () => (typeof window !== "undefined" ? window.devicePixelRatio : 1),
@@ -180,12 +277,29 @@ export const CanvasStageRenderer = React.memo(function CanvasStageRenderer({
         y: (point.y - viewport.y) / viewport.scale,
       };
 
+      // Annotations render above media, so check them first
+      for (let i = annotations.length - 1; i >= 0; i--) {
+        const bounds = getAnnotationBounds(annotations[i]);
+        if (
+          canvasPoint.x >= bounds.x &&
+          canvasPoint.x <= bounds.x + bounds.width &&
+          canvasPoint.y >= bounds.y &&
+          canvasPoint.y <= bounds.y + bounds.height
+        ) {
+          if (!selectedIdsSet.has(annotations[i].id)) {
+            setSelectedIds([annotations[i].id]);
+          }
+          return;
+        }
+      }
+
       // Find clicked video by iterating in reverse without array copy
       let clickedVideo: PlacedVideo | null = null;
 
       for (let i = videos.length - 1; i >= 0; i--) {
         const vid = videos[i];
         if (
+          !collapsedMemberIds.has(vid.id) &&
           canvasPoint.x >= vid.x &&
           canvasPoint.x <= vid.x + vid.width &&
           canvasPoint.y >= vid.y &&
@@ -207,6 +321,7 @@ export const CanvasStageRenderer = React.memo(function CanvasStageRenderer({
       for (let i = images.length - 1; i >= 0; i--) {
         const img = images[i];
         if (
+          !collapsedMemberIds.has(img.id) &&
           canvasPoint.x >= img.x &&
           canvasPoint.x <= img.x + img.width &&
           canvasPoint.y >= img.y &&
@@ -221,7 +336,15 @@ export const CanvasStageRenderer = React.memo(function CanvasStageRenderer({
         setSelectedIds([clickedImage.id]);
       }
     },
-    [images, selectedIdsSet, setSelectedIds, videos, viewport],
+    [
+      annotations,
+      collapsedMemberIds,
+      images,
+      selectedIdsSet,
+      setSelectedIds,
+      videos,
+      viewport,
+    ],
   );
 
   /**
@@ -317,6 +440,181 @@ export const CanvasStageRenderer = React.memo(function CanvasStageRenderer({
     [interactions, selectedIds, selectedIdsSet, setSelectedIds, videos],
   );
 
+  /**
+   * Creates optimized onChange handler for annotation property updates
+   */
+  const handleAnnotationChange = useCallback(
+    (annotationId: string) => (newAttrs: Partial<PlacedAnnotation>) => {
+      setAnnotations((prev) =>
+        prev.map((annotation) =>
+          annotation.id === annotationId
+            ? { ...annotation, ...newAttrs }
+            : annotation,
+        ),
+      );
+    },
+    [setAnnotations],
+  );
+
+  /**
+   * Finishes inline text editing and stores the edited label
+   * Empty labels are removed rather than left as invisible elements
+   */
+  const handleAnnotationEditEnd = useCallback(
+    (annotationId: string, text: string) => {
+      setEditingAnnotationId(null);
+      setAnnotations((prev) =>
+        text.trim()
+          ? prev.map((annotation) =>
+              annotation.id === annotationId
+                ? { ...annotation, text }
+                : annotation,
+            )
+          : prev.filter((annotation) => annotation.id !== annotationId),
+      );
+      saveToHistory();
+    },
+    [saveToHistory, setAnnotations],
+  );
+
+  /**
+   * Creates optimized onChange handler for frame property updates
+   */
+  const handleFrameChange = useCallback(
+    (frameId: string) => (newAttrs: Partial<PlacedFrame>) => {
+      setFrames((prev) =>
+        prev.map((frame) =>
+          frame.id === frameId ? { ...frame, ...newAttrs } : frame,
+        ),
+      );
+      saveToHistory();
+    },
+    [saveToHistory, setFrames],
+  );
+
+  /**
+   * Moves every member of a frame while its title bar is dragged
+   */
+  const handleFrameMove = useCallback(
+    (frameId: string) => (deltaX: number, deltaY: number) => {
+      setImages((prev) => moveFrameMembers(prev, frameId, deltaX, deltaY));
+      setVideos((prev) => moveFrameMembers(prev, frameId, deltaX, deltaY));
+    },
+    [setImages, setVideos],
+  );
+
+  /**
+   * Converts the stage pointer position to canvas coordinates
+   */
+  const getCanvasPointer = useCallback(
+    (stage: Konva.Stage | null) => {
+      const point = stage?.getPointerPosition();
+      if (!point) return null;
+      return {
+        x: (point.x - viewport.x) / viewport.scale,
+        y: (point.y - viewport.y) / viewport.scale,
+      };
+    },
+    [viewport],
+  );
+
+  /**
+   * Starts drawing an annotation when a drawing tool is active,
+   * otherwise defers to the regular selection/panning behaviour
+   */
+  const handleStageMouseDown = useCallback(
+    (e: Konva.KonvaEventObject<MouseEvent>) => {
+      if (isCommentMode && e.evt.button === 0) {
+        const point = getCanvasPointer(e.target.getStage());
+        if (point) {
+          onCommentPlace?.(createCommentPinTarget(point, pinnableElements));
+        }
+        return;
+      }
+
+      if (annotationTool === "select" || e.evt.button !== 0) {
+        interactions.handleMouseDown(e);
+        return;
+      }
+
+      const point = getCanvasPointer(e.target.getStage());
+      if (!point) return;
+      setAnnotationDraft({ end: point, start: point });
+    },
+    [
+      annotationTool,
+      getCanvasPointer,
+      interactions,
+      isCommentMode,
+      onCommentPlace,
+      pinnableElements,
+    ],
+  );
+
+  const handleStageMouseMove = useCallback(
+    (e: Konva.KonvaEventObject<MouseEvent>) => {
+      if (!annotationDraft) {
+        interactions.handleMouseMove(e);
+        return;
+      }
+
+      const point = getCanvasPointer(e.target.getStage());
+      if (!point) return;
+      setAnnotationDraft({ ...annotationDraft, end: point });
+    },
+    [annotationDraft, getCanvasPointer, interactions],
+  );
+
+  /**
+   * Commits the drawn annotation, selects it, and returns to the select tool
+   */
+  const handleStageMouseUp = useCallback(
+    (e: Konva.KonvaEventObject<MouseEvent>) => {
+      if (!annotationDraft || annotationTool === "select") {
+        interactions.handleMouseUp(e);
+        return;
+      }
+
+      const annotation = createAnnotation(
+        annotationTool,
+        annotationDraft.start,
+        annotationDraft.end,
+      );
+
+      saveToHistory();
+      setAnnotations((prev) => [...prev, annotation]);
+      setSelectedIds([annotation.id]);
+      setAnnotationDraft(null);
+      setAnnotationTool("select");
+
+      if (annotation.type === "text") {
+        setEditingAnnotationId(annotation.id);
+      }
+    },
+    [
+      annotationDraft,
+      annotationTool,
+      interactions,
+      saveToHistory,
+      setAnnotationTool,
+      setAnnotations,
+      setSelectedIds,
+    ],
+  );
+
+  // Preview of the annotation being drawn
+  const draftAnnotation = useMemo(
+    () =>
+      annotationDraft && annotationTool !== "select"
+        ? createAnnotation(
+            annotationTool,
+            annotationDraft.start,
+            annotationDraft.end,
+          )
+        : null,
+    [annotationDraft, annotationTool],
+  );
+
   const isVariationMode = useMemo(
     () =>
       selectedIds.length === 1 &&
@@ -347,15 +645,62 @@ export const CanvasStageRenderer = React.memo(function CanvasStageRenderer({
     return images.filter((img) => !videoSourceImageIds.has(img.id));
   }, [images, videos]);
 
+  // Lineage of the selected element, outlined while the lineage panel is open
+  const lineageHighlight = useMemo(() => {
+    if (!isLineagePanelOpen || selectedIds.length !== 1) return null;
+
+    const elements = [...renderableImages, ...videos];
+    const index = buildLineageIndex(elements);
+    const focusId = selectedIds[0];
+    const ancestorIds = getAncestorIds(index, focusId);
+    const descendantIds = getDescendantIds(index, focusId);
+    if (ancestorIds.size === 0 && descendantIds.size === 0) return null;
+
+    return {
+      ancestorIds,
+      descendantIds,
+      elements,
+      links: showLineageConnectors
+        ? getLineageLinks(
+            index,
+            new Set([focusId, ...ancestorIds, ...descendantIds]),
+          )
+        : null,
+    };
+  }, [
+    isLineagePanelOpen,
+    renderableImages,
+    selectedIds,
+    showLineageConnectors,
+    videos,
+  ]);
+
+  // Frames are sized from the members that are actually drawn
+  const frameLayouts = useMemo(() => {
+    const members = [...renderableImages, ...videos];
+    return frames.flatMap((frame) => {
+      const bounds = getFrameBounds(frame.id, members);
+      if (!bounds) return [];
+      const memberIds = getFrameMembers(frame.id, members).map((m) => m.id);
+      return [{ bounds, frame, memberIds }];
+    });
+  }, [frames, renderableImages, videos]);
+
   // Then apply viewport culling (recalculates on viewport change)
   const visibleImages = useMemo(
-    () => getVisibleItems(renderableImages, roundedViewport, canvasSize),
-    [canvasSize, renderableImages, roundedViewport],
+    () =>
+      getVisibleItems(renderableImages, roundedViewport, canvasSize).filter(
+        (img) => !collapsedMemberIds.has(img.id),
+      ),
+    [canvasSize, collapsedMemberIds, renderableImages, roundedViewport],
   );
 
   const visibleVideos = useMemo(
-    () => getVisibleItems(videos, roundedViewport, canvasSize),
-    [canvasSize, roundedViewport, videos],
+    () =>
+      getVisibleItems(videos, roundedViewport, canvasSize).filter(
+        (vid) => !collapsedMemberIds.has(vid.id),
+      ),
+    [canvasSize, collapsedMemberIds, roundedViewport, videos],
   );
 
   if (!isCanvasReady) return null;
@@ -367,10 +712,10 @@ export const CanvasStageRenderer = React.memo(function CanvasStageRenderer({
         draggable={false}
         height={canvasSize.height}
         onContextMenu={handleContextMenu}
-        onMouseDown={interactions.handleMouseDown}
+        onMouseDown={handleStageMouseDown}
         onMouseLeave={() => {}}
-        onMouseMove={interactions.handleMouseMove}
-        onMouseUp={interactions.handleMouseUp}
+        onMouseMove={handleStageMouseMove}
+        onMouseUp={handleStageMouseUp}
         onTouchEnd={interactions.handleTouchEnd}
         onTouchMove={interactions.handleTouchMove}
         onTouchStart={interactions.handleTouchStart}
@@ -383,12 +728,34 @@ export const CanvasStageRenderer = React.memo(function CanvasStageRenderer({
         x={viewport.x}
         y={viewport.y}
       >
-        <Layer listening={true}>
+        <Layer listening={!isCommentMode}>
           {showGrid && (
             <CanvasGrid canvasSize={canvasSize} viewport={viewport} />
           )}
           <SelectionBoxComponent selectionBox={interactions.selectionBox} />
           <SelectionConnector images={images} selectedIds={selectedIds} />
+          {lineageHighlight && (
+            <LineageConnector
+              ancestorIds={lineageHighlight.ancestorIds}
+              descendantIds={lineageHighlight.descendantIds}
+              elements={lineageHighlight.elements}
+              links={lineageHighlight.links}
+            />
+          )}
+
+          {frameLayouts.map(({ bounds, frame, memberIds }) => (
+            <CanvasFrame
+              bounds={bounds}
+              frame={frame}
+              isSelected={memberIds.every((id) => selectedIdsSet.has(id))}
+              key={frame.id}
+              memberCount={memberIds.length}
+              onChange={handleFrameChange(frame.id)}
+              onMove={handleFrameMove(frame.id)}
+              onMoveEnd={saveToHistory}
+              onSelect={() => setSelectedIds(memberIds)}
+            />
+          ))}
 
           {visibleImages.map((image) => (
             <CanvasImage
@@ -398,11 +765,12 @@ export const CanvasStageRenderer = React.memo(function CanvasStageRenderer({
               isDraggingImage={interactions.isDraggingImage}
               isSelected={selectedIdsSet.has(image.id)}
               key={image.id}
+              lockColor={lockedIds?.get(image.id)}
               onChange={handleImageChange(image.id)}
               onDragEnd={handleImageDragEnd}
               onDragStart={() => handleImageDragStart(image.id)}
               onDoubleClick={onImageDoubleClick}
-              onSelect={(e) => interactions.handleSelect(image.id, e)}
+              onSelect={(e) => handleSelect(image.id, e)}
               selectedIds={selectedIds}
               setImages={setImages}
               setSnapLines={interactions.setSnapLines}
@@ -442,16 +810,59 @@ export const CanvasStageRenderer = React.memo(function CanvasStageRenderer({
               isDraggingVideo={interactions.isDraggingImage}
               isSelected={selectedIdsSet.has(video.id)}
               key={video.id}
+              lockColor={lockedIds?.get(video.id)}
               onChange={handleVideoChange(video.id)}
               onDragEnd={() => handleVideoDragEnd(video.id)}
               onDragStart={() => handleVideoDragStart(video.id)}
-              onSelect={(e) => interactions.handleSelect(video.id, e)}
+              onSelect={(e) => handleSelect(video.id, e)}
               selectedIds={selectedIds}
               setVideos={setVideos}
               video={video}
             />
           ))}
+
+          {annotations.map((annotation) => (
+            <CanvasAnnotation
+              annotation={annotation}
+              isEditing={editingAnnotationId === annotation.id}
+              isSelected={selectedIdsSet.has(annotation.id)}
+              isTransformable={
+                selectedIds.length === 1 && selectedIds[0] === annotation.id
+              }
+              key={annotation.id}
+              onChange={handleAnnotationChange(annotation.id)}
+              onCommit={saveToHistory}
+              onEditEnd={(text) => handleAnnotationEditEnd(annotation.id, text)}
+              onEditStart={() => setEditingAnnotationId(annotation.id)}
+              onSelect={(e) => handleSelect(annotation.id, e)}
+            />
+          ))}
+
+          {draftAnnotation && (
+            <CanvasAnnotation
+              annotation={draftAnnotation}
+              isEditing={false}
+              isSelected={false}
+              isTransformable={false}
+              onChange={() => {}}
+              onCommit={() => {}}
+              onEditEnd={() => {}}
+              onEditStart={() => {}}
+              onSelect={() => {}}
+            />
+          )}
         </Layer>
+        {commentThreads && onCommentPinSelect && (
+          <CommentPinsLayer
+            activeThreadId={activeCommentThreadId}
+            draftPin={draftCommentPin}
+            elements={pinnableElements}
+            onSelect={onCommentPinSelect}
+            showResolved={isCommentMode}
+            threads={commentThreads}
+            viewportScale={viewport.scale}
+          />
+        )}
       </Stage>
     </>
   );
@@ -23,6 +23,8 @@ interface CanvasVideoProps {
   dragStartPositions: React.RefObject<Map<string, { x: number; y: number }>>;
   isDraggingVideo: boolean;
   isSelected: boolean;
+  /** Outline color when a collaborator has the video selected, which locks it */
+  lockColor?: string;
   onChange: (newAttrs: Partial<PlacedVideo>) => void;
   onDragEnd: () => void;
   onDragStart: () => void;
@@ -40,6 +42,7 @@ interface CanvasVideoProps {
 const CanvasVideoComponent: React.FC<CanvasVideoProps> = ({
   dragStartPositions,
   isSelected,
+  lockColor,
   onChange,
   onDragEnd,
   onDragStart,
@@ -221,6 +224,10 @@ const CanvasVideoComponent: React.FC<CanvasVideoProps> = ({
   // - Adaptive FPS based on device performance
   useSharedVideoAnimation(shapeRef, video.isPlaying, video.src);
 
+  // A collaborator's lock outline takes precedence over selection and hover
+  const outlineColor =
+    lockColor ?? (isSelected || isHovered ? "#0ea5e9" : "transparent");
+
   // Skeleton placeholder rendering - shows before real video loads
   if (video.isSkeleton) {
     return (
@@ -259,7 +266,7 @@ const CanvasVideoComponent: React.FC<CanvasVideoProps> = ({
         x={video.x}
         y={video.y}
         rotation={video.rotation}
-        draggable={isDraggable}
+        draggable={isDraggable && !lockColor}
         onDragEnd={handleDragEnd}
         onDragMove={onDragMove}
         onDragStart={handleDragStart}
@@ -302,11 +309,9 @@ const CanvasVideoComponent: React.FC<CanvasVideoProps> = ({
           perfectDrawEnabled={false}
           ref={shapeRef}
           shadowForStrokeEnabled={false}
-          stroke={
-            isSelected ? "#0ea5e9" : isHovered ? "#0ea5e9" : "transparent"
-          }
+          stroke={outlineColor}
           strokeScaleEnabled={false}
-          strokeWidth={isSelected || isHovered ? 2 : 0}
+          strokeWidth={outlineColor === "transparent" ? 0 : 2}
           width={video.width}
           x={0}
           y={0}
@@ -327,7 +332,7 @@ const CanvasVideoComponent: React.FC<CanvasVideoProps> = ({
         x={video.x}
         y={video.y}
         rotation={video.rotation}
-        draggable={isDraggable}
+        draggable={isDraggable && !lockColor}
         onDragEnd={handleDragEnd}
         onDragMove={onDragMove}
         onDragStart={handleDragStart}
@@ -345,11 +350,9 @@ const CanvasVideoComponent: React.FC<CanvasVideoProps> = ({
           perfectDrawEnabled={false}
           ref={shapeRef}
           shadowForStrokeEnabled={false}
-          stroke={
-            isSelected ? "#0ea5e9" : isHovered ? "#0ea5e9" : "transparent"
-          }
+          stroke={outlineColor}
           strokeScaleEnabled={false}
-          strokeWidth={isSelected || isHovered ? 2 : 0}
+          strokeWidth={outlineColor === "transparent" ? 0 : 2}
           width={video.width}
           x={0}
           y={0}
@@ -369,7 +372,7 @@ const CanvasVideoComponent: React.FC<CanvasVideoProps> = ({
       x={video.x}
       y={video.y}
       rotation={video.rotation}
-      draggable={isDraggable}
+      draggable={isDraggable && !lockColor}
       onDragEnd={handleDragEnd}
       onDragMove={onDragMove}
       onDragStart={handleDragStart}
@@ -387,9 +390,9 @@ const CanvasVideoComponent: React.FC<CanvasVideoProps> = ({
         perfectDrawEnabled={false}
         ref={shapeRef}
         shadowForStrokeEnabled={false}
-        stroke={isSelected ? "#0ea5e9" : isHovered ? "#0ea5e9" : "transparent"}
+        stroke={outlineColor}
         strokeScaleEnabled={false}
-        strokeWidth={isSelected || isHovered ? 2 : 0}
+        strokeWidth={outlineColor === "transparent" ? 0 : 2}
         width={video.width}
         x={0}
         y={0}
@@ -0,0 +1,67 @@
+/**
+ * CollaboratorAvatars component - Who else has the project open
+ *
+ * Shows an avatar per collaborator, ringed in the color used for their
+ * cursor and the elements they lock.
+ *
+ * @module components/canvas/CollaboratorAvatars
+ */
+
+"use client";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import type { Collaborator } from "@/hooks/useProjectPresence";
+import React from "react";
+
+/**
+ * Avatars shown before the rest are summarized as a count.
+ */
+const MAX_VISIBLE_AVATARS = 5;
+
+/**
+ * Props for the CollaboratorAvatars component
+ */
+interface CollaboratorAvatarsProps {
+  collaborators: Collaborator[];
+}
+
+/**
+ * Stack of collaborator avatars. Renders nothing when working alone.
+ *
+ * @component
+ */
+export const CollaboratorAvatars = React.memo<CollaboratorAvatarsProps>(
+  function CollaboratorAvatars({ collaborators }) {
+    if (collaborators.length === 0) return null;
+
+    const hiddenCount = collaborators.length - MAX_VISIBLE_AVATARS;
+
+    return (
+      <div className="absolute left-4 top-4 z-20 flex items-center -space-x-2">
+        {collaborators.slice(0, MAX_VISIBLE_AVATARS).map((collaborator) => (
+          <Avatar
+            className="h-8 w-8 border-2"
+            key={collaborator.userId}
+            style={{ borderColor: collaborator.color }}
+            title={collaborator.name}
+          >
+            {collaborator.imageUrl && (
+              <AvatarImage
+                alt={collaborator.name}
+                src={collaborator.imageUrl}
+              />
+            )}
+            <AvatarFallback className="text-xs">
+              {collaborator.name.charAt(0).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+        ))}
+        {hiddenCount > 0 && (
+          <div className="flex h-8 w-8 items-center justify-center rounded-full border-2 border-border bg-muted text-xs">
+            +{hiddenCount}
+          </div>
+        )}
+      </div>
+    );
+  },
+);
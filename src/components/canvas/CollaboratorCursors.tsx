@@ -0,0 +1,61 @@
+/**
+ * CollaboratorCursors component - Live pointers of collaborators
+ *
+ * Draws each collaborator's cursor with their name over the canvas,
+ * positioned from canvas coordinates with the current viewport.
+ *
+ * @module components/canvas/CollaboratorCursors
+ */
+
+"use client";
+
+import type { Collaborator } from "@/hooks/useProjectPresence";
+import type { Viewport } from "@/utils/viewport-utils";
+import { MousePointer2 } from "lucide-react";
+import React from "react";
+
+/**
+ * Props for the CollaboratorCursors component
+ */
+interface CollaboratorCursorsProps {
+  collaborators: Collaborator[];
+  viewport: Viewport;
+}
+
+/**
+ * Overlay of collaborator cursors. Ignores pointer events so the canvas
+ * underneath stays interactive.
+ *
+ * @component
+ */
+export const CollaboratorCursors = React.memo<CollaboratorCursorsProps>(
+  function CollaboratorCursors({ collaborators, viewport }) {
+    return (
+      <div className="pointer-events-none absolute inset-0 z-10 overflow-hidden">
+        {collaborators.map((collaborator) =>
+          collaborator.cursor ? (
+            <div
+              className="absolute left-0 top-0 transition-transform duration-100 ease-linear"
+              key={collaborator.userId}
+              style={{
+                transform: `translate(${collaborator.cursor.x * viewport.scale + viewport.x}px, ${collaborator.cursor.y * viewport.scale + viewport.y}px)`,
+              }}
+            >
+              <MousePointer2
+                className="h-4 w-4"
+                fill={collaborator.color}
+                style={{ color: collaborator.color }}
+              />
+              <span
+                className="ml-3 whitespace-nowrap rounded px-1.5 py-0.5 text-xs font-medium text-white"
+                style={{ backgroundColor: collaborator.color }}
+              >
+                {collaborator.name}
+              </span>
+            </div>
+          ) : null,
+        )}
+      </div>
+    );
+  },
+);
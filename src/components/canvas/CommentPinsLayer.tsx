@@ -0,0 +1,195 @@
+/**
+ * CommentPinsLayer component - Review comment pins on the canvas
+ *
+ * Draws a numbered pin per comment thread at its canvas position, or on the
+ * element it is pinned to. Pins live in their own layer so they stay above
+ * all content; they keep a constant on-screen size at any zoom level.
+ *
+ * @module components/canvas/CommentPinsLayer
+ */
+
+"use client";
+
+import type { CommentThread } from "@/hooks/useProjectComments";
+import {
+  getCommentPinPosition,
+  type CommentPinTarget,
+} from "@/lib/handlers/comment-handlers";
+import type { PlacedImage } from "@/types/canvas";
+import type Konva from "konva";
+import React, { useMemo } from "react";
+import { Circle, Group, Layer, Text } from "react-konva";
+
+/**
+ * Pin style constants
+ */
+const PIN_STYLE = {
+  /** Fill of the pin being composed or viewed */
+  ACTIVE_FILL: "#0ea5e9",
+  /** Fill of open threads (Tailwind amber-500) */
+  OPEN_FILL: "#f59e0b",
+  /** Pin radius in screen pixels */
+  RADIUS: 12,
+  /** Fill of resolved threads */
+  RESOLVED_FILL: "#6b7280",
+} as const;
+
+/**
+ * Props for the CommentPinsLayer component
+ */
+interface CommentPinsLayerProps {
+  /** Thread whose popover is open (optional) */
+  activeThreadId?: string;
+  /** Pin of the thread being composed (optional) */
+  draftPin?: CommentPinTarget;
+  /** Images and videos that pins can follow */
+  elements: Pick<PlacedImage, "height" | "id" | "width" | "x" | "y">[];
+  /** Called when a pin is clicked */
+  onSelect: (threadId: string) => void;
+  /** Whether resolved threads are shown */
+  showResolved: boolean;
+  /** Comment threads of the project */
+  threads: CommentThread[];
+  /** Current zoom, used to keep pins the same size on screen */
+  viewportScale: number;
+}
+
+/**
+ * A single numbered pin.
+ */
+function CommentPin({
+  fill,
+  label,
+  onSelect,
+  opacity = 1,
+  scale,
+  x,
+  y,
+}: {
+  fill: string;
+  label: string;
+  onSelect?: () => void;
+  opacity?: number;
+  scale: number;
+  x: number;
+  y: number;
+}) {
+  // Stop the stage from treating the click as a selection or a new pin
+  const handleSelect = (e: Konva.KonvaEventObject<Event>) => {
+    e.cancelBubble = true;
+    onSelect?.();
+  };
+
+  return (
+    <Group
+      onMouseDown={handleSelect}
+      onTap={handleSelect}
+      opacity={opacity}
+      scaleX={scale}
+      scaleY={scale}
+      x={x}
+      y={y}
+    >
+      <Circle
+        fill={fill}
+        radius={PIN_STYLE.RADIUS}
+        shadowBlur={4}
+        shadowOpacity={0.4}
+        stroke="#ffffff"
+        strokeWidth={2}
+      />
+      <Text
+        align="center"
+        fill="#ffffff"
+        fontSize={11}
+        fontStyle="bold"
+        height={PIN_STYLE.RADIUS * 2}
+        listening={false}
+        offsetX={PIN_STYLE.RADIUS}
+        offsetY={PIN_STYLE.RADIUS}
+        text={label}
+        verticalAlign="middle"
+        width={PIN_STYLE.RADIUS * 2}
+      />
+    </Group>
+  );
+}
+
+/**
+ * Layer of comment pins.
+ *
+ * @remarks
+ * - Pins are numbered in thread creation order, matching the popover
+ * - Pins on removed elements are not drawn
+ *
+ * @component
+ */
+export const CommentPinsLayer = React.memo<CommentPinsLayerProps>(
+  function CommentPinsLayer({
+    activeThreadId,
+    draftPin,
+    elements,
+    onSelect,
+    showResolved,
+    threads,
+    viewportScale,
+  }) {
+    const pins = useMemo(
+      () =>
+        threads.flatMap((thread, index) => {
+          const isResolved = thread.root.resolvedAt !== undefined;
+          if (isResolved && !showResolved) return [];
+
+          const position = getCommentPinPosition(thread.root, elements);
+          if (!position) return [];
+
+          return [
+            {
+              id: thread.root._id,
+              isResolved,
+              label: `${index + 1}`,
+              position,
+            },
+          ];
+        }),
+      [elements, showResolved, threads],
+    );
+
+    const draftPosition = draftPin
+      ? getCommentPinPosition(draftPin, elements)
+      : null;
+    const scale = 1 / viewportScale;
+
+    return (
+      <Layer>
+        {pins.map((pin) => (
+          <CommentPin
+            fill={
+              pin.id === activeThreadId
+                ? PIN_STYLE.ACTIVE_FILL
+                : pin.isResolved
+                  ? PIN_STYLE.RESOLVED_FILL
+                  : PIN_STYLE.OPEN_FILL
+            }
+            key={pin.id}
+            label={pin.label}
+            onSelect={() => onSelect(pin.id)}
+            opacity={pin.isResolved ? 0.6 : 1}
+            scale={scale}
+            x={pin.position.x}
+            y={pin.position.y}
+          />
+        ))}
+        {draftPosition && (
+          <CommentPin
+            fill={PIN_STYLE.ACTIVE_FILL}
+            label="+"
+            scale={scale}
+            x={draftPosition.x}
+            y={draftPosition.y}
+          />
+        )}
+      </Layer>
+    );
+  },
+);
@@ -0,0 +1,436 @@
+/**
+ * Comment thread popover
+ *
+ * Shows a review comment thread next to its pin, with replies, resolve and
+ * @mention autocomplete, or a composer for a new thread.
+ */
+
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  getMentionHandle,
+  type CommentThread,
+} from "@/hooks/useProjectComments";
+import { cn } from "@/lib/utils";
+import { formatDistanceToNow } from "date-fns";
+import { Check, Pencil, RotateCcw, Trash2, X } from "lucide-react";
+import { useMemo, useRef, useState } from "react";
+import type { Doc, Id } from "../../../convex/_generated/dataModel";
+
+/**
+ * Maximum number of mention suggestions shown.
+ */
+const MAX_SUGGESTIONS = 5;
+
+interface MentionableUser {
+  email: string;
+  userId: string;
+}
+
+/**
+ * Renders comment text with @mentions highlighted.
+ */
+function CommentBody({
+  body,
+  currentUserId,
+  users,
+}: {
+  body: string;
+  currentUserId?: string | null;
+  users: MentionableUser[];
+}) {
+  const usersByHandle = new Map(
+    users.map((user) => [getMentionHandle(user.email).toLowerCase(), user]),
+  );
+
+  return (
+    <p className="whitespace-pre-wrap break-words text-sm">
+      {body.split(/(@[\w.+-]+)/g).map((part, index) => {
+        const user = part.startsWith("@")
+          ? usersByHandle.get(part.slice(1).toLowerCase())
+          : undefined;
+        if (!user) return part;
+
+        return (
+          <span
+            className={cn(
+              "font-medium text-primary",
+              user.userId === currentUserId && "rounded bg-primary/15 px-0.5",
+            )}
+            key={index}
+          >
+            {part}
+          </span>
+        );
+      })}
+    </p>
+  );
+}
+
+/**
+ * Text area with @mention autocomplete.
+ */
+function CommentComposer({
+  autoFocus,
+  initialBody = "",
+  onCancel,
+  onSubmit,
+  placeholder,
+  submitLabel,
+  users,
+}: {
+  autoFocus?: boolean;
+  initialBody?: string;
+  onCancel?: () => void;
+  onSubmit: (body: string) => Promise<boolean>;
+  placeholder: string;
+  submitLabel: string;
+  users: MentionableUser[];
+}) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [body, setBody] = useState(initialBody);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const suggestions = useMemo(() => {
+    if (mentionQuery === null) return [];
+
+    const query = mentionQuery.toLowerCase();
+    return users
+      .filter((user) =>
+        getMentionHandle(user.email).toLowerCase().startsWith(query),
+      )
+      .slice(0, MAX_SUGGESTIONS);
+  }, [mentionQuery, users]);
+
+  /**
+   * Tracks the @word being typed at the caret, if any.
+   */
+  const updateMentionQuery = (text: string, caret: number) => {
+    const match = /@([\w.+-]*)$/.exec(text.slice(0, caret));
+    setMentionQuery(match ? match[1] : null);
+  };
+
+  /**
+   * Replaces the @word at the caret with a user's handle.
+   */
+  const insertMention = (user: MentionableUser) => {
+    const caret = textareaRef.current?.selectionStart ?? body.length;
+    const before = body.slice(0, caret).replace(/@([\w.+-]*)$/, "");
+    const handle = `@${getMentionHandle(user.email)} `;
+
+    setBody(`${before}${handle}${body.slice(caret)}`);
+    setMentionQuery(null);
+    textareaRef.current?.focus();
+  };
+
+  const handleSubmit = async () => {
+    if (!body.trim() || isSubmitting) return;
+
+    setIsSubmitting(true);
+    const isSubmitted = await onSubmit(body);
+    setIsSubmitting(false);
+
+    if (isSubmitted) {
+      setBody("");
+    }
+  };
+
+  return (
+    <div className="relative flex flex-col gap-2">
+      <Textarea
+        autoFocus={autoFocus}
+        className="min-h-16 min-w-0 resize-none"
+        maxLength={2000}
+        onChange={(e) => {
+          setBody(e.target.value);
+          updateMentionQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            void handleSubmit();
+          } else if (e.key === "Escape") {
+            e.preventDefault();
+            if (mentionQuery !== null) {
+              setMentionQuery(null);
+            } else {
+              onCancel?.();
+            }
+          }
+        }}
+        placeholder={placeholder}
+        ref={textareaRef}
+        value={body}
+      />
+
+      {suggestions.length > 0 && (
+        <ul className="absolute left-0 right-0 top-full z-10 mt-1 rounded border border-border bg-background p-1 shadow-sm">
+          {suggestions.map((user) => (
+            <li key={user.userId}>
+              <button
+                className="flex w-full flex-col rounded px-2 py-1 text-left hover:bg-secondary"
+                onClick={() => insertMention(user)}
+                onMouseDown={(e) => e.preventDefault()}
+                type="button"
+              >
+                <span className="text-sm font-medium">
+                  @{getMentionHandle(user.email)}
+                </span>
+                <span className="truncate text-xs text-muted-foreground">
+                  {user.email}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-1">
+        {onCancel && (
+          <Button onClick={onCancel} size="xs" variant="ghost">
+            Cancel
+          </Button>
+        )}
+        <Button
+          disabled={!body.trim() || isSubmitting}
+          onClick={handleSubmit}
+          size="xs"
+          variant="secondary"
+        >
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * A comment in a thread, editable by its author.
+ */
+function CommentItem({
+  canDelete,
+  comment,
+  currentUserId,
+  onDelete,
+  onEdit,
+  users,
+}: {
+  canDelete: boolean;
+  comment: Doc<"projectComments">;
+  currentUserId?: string | null;
+  onDelete: () => void;
+  onEdit: (body: string) => Promise<boolean>;
+  users: MentionableUser[];
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const isAuthor = comment.authorId === currentUserId;
+
+  return (
+    <li className="group flex flex-col gap-1">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0 text-xs">
+          <span className="font-medium">{comment.authorName}</span>{" "}
+          <span className="text-muted-foreground">
+            {formatDistanceToNow(comment.createdAt, { addSuffix: true })}
+            {comment.editedAt !== undefined && " (edited)"}
+          </span>
+        </div>
+        <div className="flex shrink-0 items-center opacity-0 transition-opacity group-hover:opacity-100">
+          {isAuthor && !isEditing && (
+            <Button
+              onClick={() => setIsEditing(true)}
+              size="icon-sm"
+              title="Edit comment"
+              variant="ghost"
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
+          )}
+          {canDelete && (
+            <Button
+              onClick={onDelete}
+              size="icon-sm"
+              title="Delete comment"
+              variant="ghost"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isEditing ? (
+        <CommentComposer
+          autoFocus
+          initialBody={comment.body}
+          onCancel={() => setIsEditing(false)}
+          onSubmit={async (body) => {
+            const isSaved = await onEdit(body);
+            if (isSaved) setIsEditing(false);
+            return isSaved;
+          }}
+          placeholder="Edit comment"
+          submitLabel="Save"
+          users={users}
+        />
+      ) : (
+        <CommentBody
+          body={comment.body}
+          currentUserId={currentUserId}
+          users={users}
+        />
+      )}
+    </li>
+  );
+}
+
+interface CommentThreadPopoverProps {
+  /** Whether the user can delete others' comments (project owners) */
+  canDeleteAny: boolean;
+
+  /** Whether the user can resolve others' threads (project editors) */
+  canResolveAny: boolean;
+
+  /** Clerk user ID of the current user */
+  currentUserId?: string | null;
+
+  /** Number shown on the thread's pin */
+  label: string;
+
+  /** Users who can be mentioned */
+  mentionableUsers: MentionableUser[];
+
+  /** Closes the popover */
+  onClose: () => void;
+
+  /** Starts the thread (new threads only); resolves whether it was created */
+  onCreate: (body: string) => Promise<boolean>;
+
+  /** Deletes a comment, or the whole thread for its root */
+  onDelete: (commentId: Id<"projectComments">) => void;
+
+  /** Edits a comment; resolves whether it was saved */
+  onEdit: (commentId: Id<"projectComments">, body: string) => Promise<boolean>;
+
+  /** Replies to the thread; resolves whether the reply was posted */
+  onReply: (body: string) => Promise<boolean>;
+
+  /** Resolves or reopens the thread */
+  onResolve: (resolved: boolean) => void;
+
+  /** Position within the canvas container, in screen pixels */
+  position: { left: number; top: number };
+
+  /** Thread to show, or undefined when composing a new one */
+  thread?: CommentThread;
+}
+
+/**
+ * Comment thread popover component.
+ *
+ * @remarks
+ * - Type @ to mention project members; Ctrl/Cmd+Enter posts
+ * - Authors can edit and delete their comments; project editors can resolve
+ *   any thread and owners can delete any comment
+ */
+export function CommentThreadPopover({
+  canDeleteAny,
+  canResolveAny,
+  currentUserId,
+  label,
+  mentionableUsers,
+  onClose,
+  onCreate,
+  onDelete,
+  onEdit,
+  onReply,
+  onResolve,
+  position,
+  thread,
+}: CommentThreadPopoverProps) {
+  const isResolved = thread?.root.resolvedAt !== undefined;
+  const canResolve =
+    !!thread && (canResolveAny || thread.root.authorId === currentUserId);
+
+  return (
+    <div
+      className="pointer-events-auto absolute z-30 flex w-80 flex-col rounded border border-border bg-background/95 shadow-sm"
+      onMouseDown={(e) => e.stopPropagation()}
+      style={{ left: position.left, top: position.top }}
+    >
+      <div className="flex items-center justify-between border-b border-border px-3 py-2">
+        <span className="text-sm font-medium">
+          {thread ? `Comment ${label}` : "New comment"}
+          {isResolved && (
+            <span className="ml-2 text-xs font-normal text-muted-foreground">
+              Resolved
+            </span>
+          )}
+        </span>
+        <div className="flex items-center gap-1">
+          {canResolve && (
+            <Button
+              onClick={() => onResolve(!isResolved)}
+              size="icon-sm"
+              title={isResolved ? "Reopen thread" : "Resolve thread"}
+              variant="ghost"
+            >
+              {isResolved ? (
+                <RotateCcw className="h-4 w-4" />
+              ) : (
+                <Check className="h-4 w-4" />
+              )}
+            </Button>
+          )}
+          <Button
+            onClick={onClose}
+            size="icon-sm"
+            title="Close comment"
+            variant="ghost"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex max-h-[50vh] flex-col gap-3 overflow-y-auto p-3">
+        {thread && (
+          <ul className="flex flex-col gap-3">
+            {[thread.root, ...thread.replies].map((comment) => (
+              <CommentItem
+                canDelete={canDeleteAny || comment.authorId === currentUserId}
+                comment={comment}
+                currentUserId={currentUserId}
+                key={comment._id}
+                onDelete={() => onDelete(comment._id)}
+                onEdit={(body) => onEdit(comment._id, body)}
+                users={mentionableUsers}
+              />
+            ))}
+          </ul>
+        )}
+
+        {thread ? (
+          <CommentComposer
+            onSubmit={onReply}
+            placeholder="Reply... (@ to mention)"
+            submitLabel="Reply"
+            users={mentionableUsers}
+          />
+        ) : (
+          <CommentComposer
+            autoFocus
+            onCancel={onClose}
+            onSubmit={onCreate}
+            placeholder="Add a comment... (@ to mention)"
+            submitLabel="Comment"
+            users={mentionableUsers}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { describeHistoryPatch } from "@/lib/history/history-patch";
+import { cn } from "@/lib/utils";
+import type { HistoryEntry } from "@/types/history";
+import { formatDistanceToNow } from "date-fns";
+import { Bookmark, BookmarkPlus, X } from "lucide-react";
+import { memo, useState } from "react";
+
+interface HistoryPanelProps {
+  /** Recorded history steps, oldest first */
+  history: HistoryEntry[];
+  /** Number of steps currently applied */
+  historyIndex: number;
+  /** Closes the panel */
+  onClose: () => void;
+  /** Names the current state as a checkpoint */
+  onCreateCheckpoint: (label: string) => void;
+  /** Jumps to the state after the given number of steps */
+  onGoToIndex: (index: number) => void;
+  /** Removes the checkpoint name from a step */
+  onRemoveCheckpoint: (index: number) => void;
+}
+
+/**
+ * Panel listing the project's undo history, newest first.
+ *
+ * @remarks
+ * - Clicking a step jumps to the state right after it; steps past the
+ *   current position stay listed (dimmed) until a new edit replaces them
+ * - Checkpoints name the current state so it is easy to find again
+ */
+export const HistoryPanel = memo(function HistoryPanel({
+  history,
+  historyIndex,
+  onClose,
+  onCreateCheckpoint,
+  onGoToIndex,
+  onRemoveCheckpoint,
+}: HistoryPanelProps) {
+  const [checkpointDraft, setCheckpointDraft] = useState<string | null>(null);
+
+  const commitCheckpoint = () => {
+    if (checkpointDraft?.trim()) {
+      onCreateCheckpoint(checkpointDraft);
+    }
+    setCheckpointDraft(null);
+  };
+
+  const rows = history.map((entry, i) => ({ entry, index: i + 1 })).reverse();
+
+  return (
+    <div className="pointer-events-auto fixed right-16 md:bottom-6 bottom-[calc(5rem+env(safe-area-inset-bottom))] z-40 flex w-72 flex-col rounded border border-border bg-background/95 shadow-sm">
+      <div className="flex items-center justify-between border-b border-border px-3 py-2">
+        <span className="text-sm font-medium">History</span>
+        <div className="flex items-center gap-1">
+          <Button
+            disabled={historyIndex === 0}
+            onClick={() => setCheckpointDraft("")}
+            size="icon-sm"
+            title="Add checkpoint"
+            variant="ghost"
+          >
+            <BookmarkPlus className="h-4 w-4" />
+          </Button>
+          <Button
+            onClick={onClose}
+            size="icon-sm"
+            title="Close history"
+            variant="ghost"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {checkpointDraft !== null && (
+        <div className="border-b border-border p-2">
+          <Input
+            autoFocus
+            className="h-8 text-sm"
+            maxLength={100}
+            onBlur={commitCheckpoint}
+            onChange={(e) => setCheckpointDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                commitCheckpoint();
+              } else if (e.key === "Escape") {
+                e.preventDefault();
+                setCheckpointDraft(null);
+              }
+            }}
+            placeholder="Checkpoint name"
+            value={checkpointDraft}
+          />
+        </div>
+      )}
+
+      <div className="max-h-[50vh] overflow-y-auto">
+        <ol className="flex flex-col p-1">
+          {rows.map(({ entry, index }) => (
+            <li key={entry.sequence}>
+              <div
+                className={cn(
+                  "group flex w-full items-center gap-2 rounded px-2 py-1.5 text-left text-sm hover:bg-secondary",
+                  index === historyIndex && "bg-secondary",
+                  index > historyIndex && "opacity-50",
+                )}
+              >
+                <button
+                  className="flex min-w-0 flex-1 flex-col text-left"
+                  onClick={() => onGoToIndex(index)}
+                  type="button"
+                >
+                  {entry.label && (
+                    <span className="flex items-center gap-1 truncate font-medium">
+                      <Bookmark className="h-3 w-3 shrink-0" />
+                      {entry.label}
+                    </span>
+                  )}
+                  <span
+                    className={cn(
+                      "truncate",
+                      entry.label && "text-xs text-muted-foreground",
+                    )}
+                  >
+                    {describeHistoryPatch(entry.patch)}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(entry.createdAt, { addSuffix: true })}
+                  </span>
+                </button>
+                {entry.label && (
+                  <Button
+                    className="opacity-0 group-hover:opacity-100"
+                    onClick={() => onRemoveCheckpoint(index - 1)}
+                    size="icon-sm"
+                    title="Remove checkpoint"
+                    variant="ghost"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+          <li>
+            <button
+              className={cn(
+                "w-full rounded px-2 py-1.5 text-left text-sm hover:bg-secondary",
+                historyIndex === 0 && "bg-secondary",
+              )}
+              onClick={() => onGoToIndex(0)}
+              type="button"
+            >
+              Original
+            </button>
+          </li>
+        </ol>
+      </div>
+    </div>
+  );
+});
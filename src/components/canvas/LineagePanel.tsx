@@ -0,0 +1,228 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { PlacedImage, PlacedVideo } from "@/types/canvas";
+import { getVariationPreset } from "@/utils/generation-provenance-utils";
+import {
+  buildLineageIndex,
+  getAncestorIds,
+  getDescendantIds,
+  getLineageRootIds,
+  type LineageIndex,
+} from "@/utils/lineage-utils";
+import { Spline, Video, X } from "lucide-react";
+import { memo, useMemo } from "react";
+
+/**
+ * Deepest generation shown, so unusually long chains stay readable.
+ */
+const MAX_TREE_DEPTH = 12;
+
+interface LineagePanelProps {
+  /** Images on the canvas */
+  images: PlacedImage[];
+  /** Closes the panel */
+  onClose: () => void;
+  /** Selects an element on the canvas */
+  onSelect: (id: string) => void;
+  /** Shows or hides source-to-variation lines on the canvas */
+  onToggleConnectors: () => void;
+  /** IDs of currently selected elements */
+  selectedIds: string[];
+  /** Whether source-to-variation lines are drawn on the canvas */
+  showConnectors: boolean;
+  /** Videos on the canvas */
+  videos: PlacedVideo[];
+}
+
+interface LineageTreeProps {
+  ancestorIds: Set<string>;
+  depth: number;
+  elementsById: Map<string, PlacedImage | PlacedVideo>;
+  focusId: string;
+  id: string;
+  index: LineageIndex;
+  onSelect: (id: string) => void;
+  path: Set<string>;
+}
+
+/**
+ * One element of the lineage tree, followed by the variations made from it.
+ */
+function LineageTreeNode({
+  ancestorIds,
+  depth,
+  elementsById,
+  focusId,
+  id,
+  index,
+  onSelect,
+  path,
+}: LineageTreeProps) {
+  const element = elementsById.get(id);
+  if (!element) return null;
+
+  const isVideo = "isVideo" in element;
+  const label =
+    getVariationPreset(element) ?? (isVideo ? "Video" : "Generated image");
+  const childIds =
+    depth < MAX_TREE_DEPTH
+      ? (index.childrenById.get(id) ?? []).filter(
+          (childId) => !path.has(childId),
+        )
+      : [];
+  const childPath = new Set(path).add(id);
+
+  return (
+    <li>
+      <button
+        className={cn(
+          "flex w-full items-center gap-2 rounded px-2 py-1 text-left text-sm hover:bg-secondary",
+          id === focusId && "bg-secondary font-medium",
+          ancestorIds.has(id) && "text-amber-600 dark:text-amber-400",
+        )}
+        onClick={() => onSelect(id)}
+        style={{ paddingLeft: `${0.5 + depth}rem` }}
+        type="button"
+      >
+        {isVideo ? (
+          <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded bg-secondary">
+            <Video className="h-3 w-3" />
+          </span>
+        ) : (
+          <img
+            alt=""
+            className="h-6 w-6 shrink-0 rounded object-cover"
+            src={element.thumbnailSrc || element.src}
+          />
+        )}
+        <span className="truncate">
+          {depth === 0 && !index.parentsById.has(id) ? "Source" : label}
+        </span>
+      </button>
+
+      {childIds.length > 0 && (
+        <ul>
+          {childIds.map((childId) => (
+            <LineageTreeNode
+              ancestorIds={ancestorIds}
+              depth={depth + 1}
+              elementsById={elementsById}
+              focusId={focusId}
+              id={childId}
+              index={index}
+              key={childId}
+              onSelect={onSelect}
+              path={childPath}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Panel showing which image the selected element came from and what was
+ * generated from it.
+ *
+ * @remarks
+ * - The tree starts at the original sources of the selected element
+ * - Ancestors of the selection are tinted; clicking a row selects it
+ * - Elements with several sources appear under each of them
+ */
+export const LineagePanel = memo(function LineagePanel({
+  images,
+  onClose,
+  onSelect,
+  onToggleConnectors,
+  selectedIds,
+  showConnectors,
+  videos,
+}: LineagePanelProps) {
+  const elementsById = useMemo(
+    () =>
+      new Map<string, PlacedImage | PlacedVideo>(
+        [...images, ...videos].map((element) => [element.id, element]),
+      ),
+    [images, videos],
+  );
+  const index = useMemo(
+    () => buildLineageIndex([...elementsById.values()]),
+    [elementsById],
+  );
+
+  const focusId =
+    selectedIds.length === 1 && elementsById.has(selectedIds[0])
+      ? selectedIds[0]
+      : null;
+
+  const lineage = useMemo(() => {
+    if (!focusId) return null;
+    return {
+      ancestorIds: getAncestorIds(index, focusId),
+      descendantCount: getDescendantIds(index, focusId).size,
+      rootIds: getLineageRootIds(index, focusId),
+    };
+  }, [focusId, index]);
+
+  const hasLineage =
+    lineage !== null &&
+    (lineage.ancestorIds.size > 0 || lineage.descendantCount > 0);
+
+  return (
+    <div className="pointer-events-auto fixed right-16 md:bottom-6 bottom-[calc(5rem+env(safe-area-inset-bottom))] z-40 flex w-72 flex-col rounded border border-border bg-background/95 shadow-sm">
+      <div className="flex items-center justify-between border-b border-border px-3 py-2">
+        <span className="text-sm font-medium">Lineage</span>
+        <div className="flex items-center gap-1">
+          <Button
+            aria-pressed={showConnectors}
+            onClick={onToggleConnectors}
+            size="icon-sm"
+            title={showConnectors ? "Hide connectors" : "Show connectors"}
+            variant={showConnectors ? "secondary" : "ghost"}
+          >
+            <Spline className="h-4 w-4" />
+          </Button>
+          <Button
+            onClick={onClose}
+            size="icon-sm"
+            title="Close lineage"
+            variant="ghost"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-h-[50vh] overflow-y-auto">
+        {!focusId || !lineage ? (
+          <p className="p-3 text-sm text-muted-foreground">
+            Select an image or video to see where it came from.
+          </p>
+        ) : !hasLineage ? (
+          <p className="p-3 text-sm text-muted-foreground">
+            No recorded sources or variations for this element.
+          </p>
+        ) : (
+          <ul className="flex flex-col p-1">
+            {lineage.rootIds.map((rootId) => (
+              <LineageTreeNode
+                ancestorIds={lineage.ancestorIds}
+                depth={0}
+                elementsById={elementsById}
+                focusId={focusId}
+                id={rootId}
+                index={index}
+                key={rootId}
+                onSelect={onSelect}
+                path={new Set()}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+});
@@ -1,5 +1,6 @@
 /**
- * Visual connector that draws lines between selected images on the canvas.
+ * Visual connector that draws lines between selected images on the canvas,
+ * and between sources and their variations when lineage is shown.
  *
  * This component provides immediate visual feedback when multiple images are selected,
  * helping users understand which images are grouped for multi-image operations
@@ -21,8 +22,9 @@
  */
 
 import type { PlacedImage } from "@/types/canvas";
+import type { LineageLink } from "@/utils/lineage-utils";
 import React, { useMemo } from "react";
-import { Line } from "react-konva";
+import { Line, Rect } from "react-konva";
 
 /**
  * Style constants for the selection connector line
@@ -86,3 +88,102 @@ export const SelectionConnector = React.memo(function SelectionConnector({
     />
   );
 });
+
+/**
+ * Style constants for lineage highlights
+ */
+const LINEAGE_HIGHLIGHT_STYLE = {
+  /** Outline color for elements the focused element was derived from (Tailwind amber-500) */
+  ANCESTOR_COLOR: "#f59e0b",
+  /** Outline color for elements derived from the focused element (Tailwind emerald-500) */
+  DESCENDANT_COLOR: "#10b981",
+  /** Outline dash pattern: [dash length, gap length] */
+  DASH: [6, 4] as number[],
+  /** Gap between an element and its outline in pixels */
+  PADDING: 4,
+  /** Outline width in pixels */
+  STROKE_WIDTH: 2,
+} as const;
+
+/**
+ * Props for the LineageConnector component
+ */
+interface LineageConnectorProps {
+  /** Elements the focused element was derived from */
+  ancestorIds: Set<string>;
+  /** Elements derived from the focused element */
+  descendantIds: Set<string>;
+  /** Images and videos on the canvas */
+  elements: PlacedImage[];
+  /** Source-to-variation links to draw, or null to draw outlines only */
+  links: LineageLink[] | null;
+}
+
+/**
+ * Outlines the ancestors and descendants of the focused element and,
+ * optionally, draws connector lines from each source to its variations.
+ *
+ * @remarks
+ * Lines use the same style as the selection connector so related elements
+ * read as one group.
+ */
+export const LineageConnector = React.memo(function LineageConnector({
+  ancestorIds,
+  descendantIds,
+  elements,
+  links,
+}: LineageConnectorProps) {
+  const elementsById = useMemo(
+    () => new Map(elements.map((element) => [element.id, element])),
+    [elements],
+  );
+
+  const outlined = elements.filter(
+    (element) => ancestorIds.has(element.id) || descendantIds.has(element.id),
+  );
+
+  return (
+    <>
+      {links?.map(({ childId, parentId }) => {
+        const parent = elementsById.get(parentId);
+        const child = elementsById.get(childId);
+        if (!parent || !child) return null;
+
+        return (
+          <Line
+            dash={SELECTION_CONNECTOR_STYLE.DASH}
+            key={`${parentId}-${childId}`}
+            listening={false}
+            opacity={SELECTION_CONNECTOR_STYLE.OPACITY}
+            perfectDrawEnabled={false}
+            points={[...getImageCenter(parent), ...getImageCenter(child)]}
+            stroke={SELECTION_CONNECTOR_STYLE.STROKE_COLOR}
+            strokeWidth={SELECTION_CONNECTOR_STYLE.STROKE_WIDTH}
+          />
+        );
+      })}
+
+      {outlined.map((element) => (
+        <Rect
+          dash={LINEAGE_HIGHLIGHT_STYLE.DASH}
+          height={element.height + LINEAGE_HIGHLIGHT_STYLE.PADDING * 2}
+          key={element.id}
+          listening={false}
+          offsetX={LINEAGE_HIGHLIGHT_STYLE.PADDING}
+          offsetY={LINEAGE_HIGHLIGHT_STYLE.PADDING}
+          perfectDrawEnabled={false}
+          rotation={element.rotation}
+          stroke={
+            ancestorIds.has(element.id)
+              ? LINEAGE_HIGHLIGHT_STYLE.ANCESTOR_COLOR
+              : LINEAGE_HIGHLIGHT_STYLE.DESCENDANT_COLOR
+          }
+          strokeWidth={LINEAGE_HIGHLIGHT_STYLE.STROKE_WIDTH}
+          width={element.width + LINEAGE_HIGHLIGHT_STYLE.PADDING * 2}
+          x={element.x}
+          y={element.y}
+        />
+      ))}
+    </>
+  );
+});
@@ -0,0 +1,430 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { SequenceRender } from "@/hooks/useSequence";
+import { cn } from "@/lib/utils";
+import type { PlacedImage, PlacedVideo } from "@/types/canvas";
+import type {
+  SequenceClip,
+  SequenceRenderProgress,
+  SequenceSegment,
+} from "@/types/sequence";
+import {
+  formatSequenceTime,
+  getStorylineBeatLabel,
+  SEQUENCE_CONSTANTS,
+} from "@/utils/sequence-utils";
+import {
+  ArrowDown,
+  ArrowUp,
+  Blend,
+  Download,
+  Film,
+  ListOrdered,
+  Plus,
+  Scissors,
+  Trash2,
+  VolumeX,
+  X,
+} from "lucide-react";
+import { memo, useMemo } from "react";
+
+interface SequencePanelProps {
+  /** Clips in playback order */
+  clips: SequenceClip[];
+  /** Length of the sequence in seconds */
+  duration: number;
+  /** Images on the canvas, for storyline beat labels */
+  images: PlacedImage[];
+  /** Whether a render is running */
+  isRendering: boolean;
+  /** Whether this browser can render sequences */
+  isRenderSupported: boolean;
+  /** Render of the current sequence, if any */
+  lastRender: SequenceRender | null;
+  /** Appends the selected videos */
+  onAddSelected: () => void;
+  /** Rebuilds the sequence from the canvas videos in storyline order */
+  onArrangeByStoryline: () => void;
+  /** Cancels the running render */
+  onCancelRender: () => void;
+  /** Removes every clip */
+  onClear: () => void;
+  /** Closes the panel */
+  onClose: () => void;
+  /** Moves a clip earlier (-1) or later (+1) */
+  onMoveClip: (clipId: string, direction: -1 | 1) => void;
+  /** Places the render on the canvas */
+  onPlaceRender: () => void;
+  /** Removes a clip */
+  onRemoveClip: (clipId: string) => void;
+  /** Renders the sequence to an MP4 */
+  onRender: () => void;
+  /** Selects a video on the canvas */
+  onSelectVideo: (videoId: string) => void;
+  /** Updates a clip's trim or transition */
+  onUpdateClip: (
+    clipId: string,
+    updates: Partial<Pick<SequenceClip, "inPoint" | "outPoint" | "transition">>,
+  ) => void;
+  /** Render progress, while rendering */
+  progress: SequenceRenderProgress | null;
+  /** Number of selected videos that can be added */
+  selectedVideoCount: number;
+  /** Timeline segments, in clip order */
+  segments: SequenceSegment[];
+  /** Videos on the canvas by ID */
+  videosById: Map<string, PlacedVideo>;
+}
+
+/**
+ * Colors cycled through on the timeline bar.
+ */
+const SEGMENT_COLORS = [
+  "bg-sky-500/70",
+  "bg-amber-500/70",
+  "bg-emerald-500/70",
+  "bg-fuchsia-500/70",
+];
+
+/**
+ * Proportional bar of the clips, with crossfades showing as overlaps.
+ */
+function SequenceTimelineBar({
+  duration,
+  segments,
+}: {
+  duration: number;
+  segments: SequenceSegment[];
+}) {
+  if (duration <= 0) return null;
+
+  return (
+    <div className="relative h-3 overflow-hidden rounded bg-secondary">
+      {segments.map((segment, index) => (
+        <div
+          className={cn(
+            "absolute inset-y-0",
+            SEGMENT_COLORS[index % SEGMENT_COLORS.length],
+          )}
+          key={segment.clip.id}
+          style={{
+            left: `${(segment.start / duration) * 100}%`,
+            width: `${((segment.end - segment.start) / duration) * 100}%`,
+          }}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Seconds input for a trim point.
+ */
+function TrimInput({
+  label,
+  max,
+  onChange,
+  value,
+}: {
+  label: string;
+  max: number;
+  onChange: (value: number) => void;
+  value: number;
+}) {
+  return (
+    <label className="flex items-center gap-1 text-xs text-muted-foreground">
+      {label}
+      <Input
+        className="h-7 w-16 px-1.5 text-xs md:text-xs"
+        max={max}
+        min={0}
+        onChange={(e) => {
+          const seconds = Number(e.target.value);
+          if (e.target.value !== "" && Number.isFinite(seconds)) {
+            onChange(seconds);
+          }
+        }}
+        step={0.1}
+        type="number"
+        value={Number(value.toFixed(2))}
+      />
+    </label>
+  );
+}
+
+/**
+ * Panel for assembling canvas videos into a sequence and rendering it to a
+ * single MP4.
+ *
+ * @remarks
+ * - "Arrange by storyline" orders finished videos by their storyline beat
+ * - Each clip is trimmed with in/out points and joined to the next one by a
+ *   cut or a crossfade
+ * - Renders can be downloaded or placed on the canvas as a new video
+ */
+export const SequencePanel = memo(function SequencePanel({
+  clips,
+  duration,
+  images,
+  isRendering,
+  isRenderSupported,
+  lastRender,
+  onAddSelected,
+  onArrangeByStoryline,
+  onCancelRender,
+  onClear,
+  onClose,
+  onMoveClip,
+  onPlaceRender,
+  onRemoveClip,
+  onRender,
+  onSelectVideo,
+  onUpdateClip,
+  progress,
+  selectedVideoCount,
+  segments,
+  videosById,
+}: SequencePanelProps) {
+  const imagesById = useMemo(
+    () => new Map(images.map((image) => [image.id, image])),
+    [images],
+  );
+
+  const progressPercent =
+    progress && progress.totalFrames > 0
+      ? Math.round((progress.frame / progress.totalFrames) * 100)
+      : 0;
+
+  return (
+    <div className="pointer-events-auto fixed right-16 md:bottom-6 bottom-[calc(5rem+env(safe-area-inset-bottom))] z-40 flex w-96 flex-col rounded border border-border bg-background/95 shadow-sm">
+      <div className="flex items-center justify-between border-b border-border px-3 py-2">
+        <span className="text-sm font-medium">
+          Sequence
+          {clips.length > 0 && (
+            <span className="ml-2 font-mono text-xs font-normal text-muted-foreground">
+              {formatSequenceTime(duration)}
+            </span>
+          )}
+        </span>
+        <div className="flex items-center gap-1">
+          <Button
+            disabled={isRendering}
+            onClick={onArrangeByStoryline}
+            size="icon-sm"
+            title="Arrange videos by storyline"
+            variant="ghost"
+          >
+            <ListOrdered className="h-4 w-4" />
+          </Button>
+          <Button
+            disabled={isRendering || selectedVideoCount === 0}
+            onClick={onAddSelected}
+            size="icon-sm"
+            title="Add selected videos"
+            variant="ghost"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button
+            disabled={isRendering || clips.length === 0}
+            onClick={onClear}
+            size="icon-sm"
+            title="Clear sequence"
+            variant="ghost"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+          <Button
+            onClick={onClose}
+            size="icon-sm"
+            title="Close sequence"
+            variant="ghost"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {clips.length === 0 ? (
+        <p className="p-3 text-sm text-muted-foreground">
+          Arrange the canvas videos by storyline, or select videos and add them.
+        </p>
+      ) : (
+        <>
+          <div className="border-b border-border px-3 py-2">
+            <SequenceTimelineBar duration={duration} segments={segments} />
+          </div>
+
+          <ol className="flex max-h-[45vh] flex-col overflow-y-auto p-1">
+            {clips.map((clip, index) => {
+              const video = videosById.get(clip.videoId);
+              if (!video) return null;
+
+              const beatLabel = getStorylineBeatLabel(video, imagesById);
+              const isLast = index === clips.length - 1;
+
+              return (
+                <li key={clip.id}>
+                  <div className="flex flex-col gap-1 rounded px-2 py-1.5 hover:bg-secondary/60">
+                    <div className="flex items-center gap-2">
+                      <button
+                        className="flex min-w-0 flex-1 items-center gap-2 text-left text-sm"
+                        onClick={() => onSelectVideo(video.id)}
+                        title="Select on canvas"
+                        type="button"
+                      >
+                        <span className="w-5 shrink-0 font-mono text-xs text-muted-foreground">
+                          {index + 1}
+                        </span>
+                        <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded bg-secondary">
+                          <Film className="h-3 w-3" />
+                        </span>
+                        <span className="truncate">
+                          {beatLabel ?? `Clip ${index + 1}`}
+                        </span>
+                        <span className="ml-auto shrink-0 font-mono text-xs text-muted-foreground">
+                          {formatSequenceTime(clip.outPoint - clip.inPoint)}
+                        </span>
+                      </button>
+                      <div className="flex shrink-0 items-center">
+                        <Button
+                          disabled={isRendering || index === 0}
+                          onClick={() => onMoveClip(clip.id, -1)}
+                          size="icon-xs"
+                          title="Move earlier"
+                          variant="ghost"
+                        >
+                          <ArrowUp />
+                        </Button>
+                        <Button
+                          disabled={isRendering || isLast}
+                          onClick={() => onMoveClip(clip.id, 1)}
+                          size="icon-xs"
+                          title="Move later"
+                          variant="ghost"
+                        >
+                          <ArrowDown />
+                        </Button>
+                        <Button
+                          disabled={isRendering}
+                          onClick={() => onRemoveClip(clip.id)}
+                          size="icon-xs"
+                          title="Remove clip"
+                          variant="ghost"
+                        >
+                          <X />
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-3 pl-7">
+                      <TrimInput
+                        label="In"
+                        max={video.duration}
+                        onChange={(inPoint) =>
+                          onUpdateClip(clip.id, { inPoint })
+                        }
+                        value={clip.inPoint}
+                      />
+                      <TrimInput
+                        label="Out"
+                        max={video.duration}
+                        onChange={(outPoint) =>
+                          onUpdateClip(clip.id, { outPoint })
+                        }
+                        value={clip.outPoint}
+                      />
+                    </div>
+                  </div>
+
+                  {!isLast && (
+                    <div className="flex justify-center py-0.5">
+                      <button
+                        className="flex items-center gap-1 rounded px-2 py-0.5 text-xs text-muted-foreground hover:bg-secondary hover:text-foreground disabled:opacity-50"
+                        disabled={isRendering}
+                        onClick={() =>
+                          onUpdateClip(clip.id, {
+                            transition:
+                              clip.transition === "cut" ? "crossfade" : "cut",
+                          })
+                        }
+                        title="Toggle transition"
+                        type="button"
+                      >
+                        {clip.transition === "crossfade" ? (
+                          <>
+                            <Blend className="h-3 w-3" />
+                            Crossfade {SEQUENCE_CONSTANTS.CROSSFADE_SECONDS}s
+                          </>
+                        ) : (
+                          <>
+                            <Scissors className="h-3 w-3" />
+                            Cut
+                          </>
+                        )}
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </>
+      )}
+
+      <div className="flex flex-col gap-2 border-t border-border px-3 py-2">
+        {isRendering ? (
+          <div className="flex items-center gap-2">
+            <div className="h-2 flex-1 overflow-hidden rounded bg-secondary">
+              <div
+                className="h-full bg-primary transition-[width]"
+                style={{ width: `${progressPercent}%` }}
+              />
+            </div>
+            <span className="w-9 text-right font-mono text-xs text-muted-foreground">
+              {progressPercent}%
+            </span>
+            <Button onClick={onCancelRender} size="xs" variant="ghost">
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          <div className="flex items-center justify-end gap-1">
+            {lastRender && (
+              <>
+                <Button asChild size="xs" variant="ghost">
+                  <a download="sequence.mp4" href={lastRender.url}>
+                    <Download />
+                    Download
+                  </a>
+                </Button>
+                <Button onClick={onPlaceRender} size="xs" variant="ghost">
+                  Place on canvas
+                </Button>
+              </>
+            )}
+            <Button
+              disabled={clips.length === 0 || !isRenderSupported}
+              onClick={onRender}
+              size="xs"
+              title={
+                isRenderSupported
+                  ? "Render the sequence to a video-only MP4 (no audio)"
+                  : "This browser does not support video rendering"
+              }
+              variant="secondary"
+            >
+              Render MP4
+            </Button>
+          </div>
+        )}
+        <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <VolumeX className="h-3 w-3 shrink-0" />
+          No audio: rendered MP4s are video only, without the clip sound.
+        </p>
+      </div>
+    </div>
+  );
+});
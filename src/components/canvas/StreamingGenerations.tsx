@@ -9,7 +9,11 @@
 
 "use client";
 
-import type { ActiveGeneration, ActiveVideoGeneration } from "@/types/canvas";
+import type {
+  ActiveGeneration,
+  ActiveVideoGeneration,
+  GenerationCompleteDetails,
+} from "@/types/canvas";
 import React from "react";
 import { StreamingImage } from "./StreamingImage";
 import { StreamingVideo } from "./StreamingVideo";
@@ -24,6 +28,7 @@ interface StreamingGenerationsProps {
     imageId: string,
     finalUrl: string,
     thumbnailUrl?: string,
+    details?: GenerationCompleteDetails,
   ) => void;
   onImageError: (
     imageId: string,
@@ -1,5 +1,9 @@
+import { parseFiboStructuredPrompt } from "@/lib/utils/fibo-structured-prompt";
 import { useTRPC } from "@/trpc/client";
-import type { ActiveGeneration } from "@/types/canvas";
+import type {
+  ActiveGeneration,
+  GenerationCompleteDetails,
+} from "@/types/canvas";
 import { isContentValidationError } from "@/utils/image-error-overlay";
 import { useSubscription } from "@trpc/tanstack-react-query";
 import React from "react";
@@ -13,6 +17,7 @@ interface StreamingImageProps {
     imageId: string,
     finalUrl: string,
     thumbnailUrl?: string,
+    details?: GenerationCompleteDetails,
   ) => void;
   onError: (imageId: string, error: string, isContentError?: boolean) => void;
   onStreamingUpdate: (imageId: string, url: string) => void;
@@ -39,9 +44,12 @@ export const StreamingImage: React.FC<StreamingImageProps> = ({
       data?: {
         images?: Array<{ url: string }>;
       };
+      endpoint?: string;
       error?: string;
       imageUrl?: string;
       progress?: number;
+      provider?: string;
+      seed?: number;
       status?: string;
       thumbnailUrl?: string;
       type: string;
@@ -55,7 +63,11 @@ export const StreamingImage: React.FC<StreamingImageProps> = ({
       }
     } else if (eventData.type === "complete") {
       if (eventData.imageUrl) {
-        onComplete(imageId, eventData.imageUrl, eventData.thumbnailUrl);
+        onComplete(imageId, eventData.imageUrl, eventData.thumbnailUrl, {
+          endpoint: eventData.endpoint,
+          provider: eventData.provider,
+          seed: eventData.seed,
+        });
       }
     } else if (eventData.type === "error") {
       onErrorHandler({ message: eventData.error });
@@ -66,7 +78,7 @@ export const StreamingImage: React.FC<StreamingImageProps> = ({
    * Conditionally subscribe to variation or regular image generation.
    * Only the enabled subscription will make tRPC calls.
    *
-   * Note: Both hooks must be called unconditionally (Rules of Hooks),
+   * Note: All hooks must be called unconditionally (Rules of Hooks),
    * but the `enabled` flag ensures only one is active at a time.
    */
 
@@ -76,13 +88,15 @@ export const StreamingImage: React.FC<StreamingImageProps> = ({
       {
         imageUrls: generation.imageUrls || [generation.imageUrl || ""],
         prompt: generation.prompt || "",
-        provider: aiProvider,
+        provider: generation.provider ?? aiProvider,
         ...(generation.model ? { model: generation.model } : {}),
         ...(generation.imageSize ? { imageSize: generation.imageSize } : {}),
+        ...(generation.seed !== undefined ? { seed: generation.seed } : {}),
       },
       {
         enabled:
           !!generation.isVariation &&
+          !generation.useFibo &&
           (!!generation.imageUrl ||
             (!!generation.imageUrls && generation.imageUrls.length > 0)) &&
           !!generation.prompt,
@@ -98,6 +112,7 @@ export const StreamingImage: React.FC<StreamingImageProps> = ({
       {
         imageUrl: generation.imageUrl || "",
         prompt: generation.prompt || "",
+        ...(generation.seed !== undefined ? { seed: generation.seed } : {}),
       },
       {
         enabled:
@@ -110,5 +125,22 @@ export const StreamingImage: React.FC<StreamingImageProps> = ({
     ),
   );
 
+  // FIBO generation from an edited structured prompt
+  useSubscription(
+    trpc.generateFiboImageVariation.subscriptionOptions(
+      {
+        aspectRatio: generation.fiboAspectRatio,
+        imageUrls: generation.imageUrls || [generation.imageUrl || ""],
+        seed: generation.seed,
+        structuredPrompt: parseFiboStructuredPrompt(generation.prompt),
+      },
+      {
+        enabled: !!generation.useFibo && !!generation.prompt,
+        onData,
+        onError: onErrorHandler,
+      },
+    ),
+  );
+
   return null;
 };
@@ -1,6 +1,7 @@
 import { SORA_2_MODEL_ID } from "@/lib/video-models";
 import { useTRPC } from "@/trpc/client";
 import type { ActiveVideoGeneration } from "@/types/canvas";
+import { skipToken } from "@tanstack/react-query";
 import { useSubscription } from "@trpc/tanstack-react-query";
 import React from "react";
 
@@ -23,7 +24,10 @@ interface StreamingVideoProps {
 }
 
 /**
- * Subscribes to the server-side image-to-video stream and relays progress updates.
+ * Subscribes to the server-side video generation stream and relays progress updates.
+ *
+ * Image-to-video generations use generateImageToVideo; text-to-video and
+ * video-to-video generations use generateVideo.
  */
 export const StreamingVideo: React.FC<StreamingVideoProps> = ({
   generation,
@@ -45,7 +49,10 @@ export const StreamingVideo: React.FC<StreamingVideoProps> = ({
         value !== undefined &&
         ![
           "aspectRatio",
+          "category",
           "duration",
+          "endImageId",
+          "endImageUrl",
           "imageUrl",
           "modelConfig",
           "modelId",
@@ -53,6 +60,7 @@ export const StreamingVideo: React.FC<StreamingVideoProps> = ({
           "resolution",
           "sourceImageId",
           "sourceVideoId",
+          "sourceVideoUrl",
           "toastId",
           "videoUrl",
         ].includes(key),
@@ -79,51 +87,81 @@ export const StreamingVideo: React.FC<StreamingVideoProps> = ({
       ? (generation.resolution as "auto" | "720p" | "1080p")
       : "auto";
 
-  const subscriptionOptions = trpc.generateImageToVideo.subscriptionOptions(
-    {
-      aspectRatio,
-      duration: resolvedDuration,
-      imageUrl: generation.imageUrl || "",
-      modelId: generation.modelId || SORA_2_MODEL_ID,
-      prompt: generation.prompt,
-      resolution,
-      ...additionalFields,
-    },
-    {
-      enabled: true,
-      onData: async (data: { data: unknown }) => {
-        const eventData = data.data as {
-          duration?: number;
-          error?: string;
-          progress?: number;
-          status?: string;
-          type: string;
-          videoUrl?: string;
-        };
+  const isImageToVideo =
+    !generation.category || generation.category === "image-to-video";
+
+  // Only one subscription runs; the other is disabled by skipToken
+  const subscriptionCallbacks = {
+    onData: async (data: { data: unknown }) => {
+      const eventData = data.data as {
+        duration?: number;
+        error?: string;
+        progress?: number;
+        status?: string;
+        type: string;
+        videoUrl?: string;
+      };
 
-        if (eventData.type === "progress") {
-          onProgress(
-            videoId,
-            eventData.progress ?? 0,
-            eventData.status || STREAMING_COPY.PROGRESS,
-          );
-        } else if (eventData.type === "complete" && eventData.videoUrl) {
-          onComplete(
-            videoId,
-            eventData.videoUrl,
-            eventData.duration ?? resolvedDuration,
-          );
-        } else if (eventData.type === "error" && eventData.error) {
-          onError(videoId, eventData.error);
-        }
-      },
-      onError: (error) => {
-        onError(videoId, error.message || STREAMING_COPY.ERROR_SUMMARY);
-      },
+      if (eventData.type === "progress") {
+        onProgress(
+          videoId,
+          eventData.progress ?? 0,
+          eventData.status || STREAMING_COPY.PROGRESS,
+        );
+      } else if (eventData.type === "complete" && eventData.videoUrl) {
+        onComplete(
+          videoId,
+          eventData.videoUrl,
+          eventData.duration ?? resolvedDuration,
+        );
+      } else if (eventData.type === "error" && eventData.error) {
+        onError(videoId, eventData.error);
+      }
     },
+    onError: (error: { message: string }) => {
+      onError(videoId, error.message || STREAMING_COPY.ERROR_SUMMARY);
+    },
+  };
+
+  useSubscription(
+    trpc.generateImageToVideo.subscriptionOptions(
+      isImageToVideo
+        ? {
+            aspectRatio,
+            duration: resolvedDuration,
+            endImageUrl: generation.endImageUrl,
+            imageUrl: generation.imageUrl || "",
+            modelId: generation.modelId || SORA_2_MODEL_ID,
+            prompt: generation.prompt,
+            resolution,
+            ...additionalFields,
+          }
+        : skipToken,
+      subscriptionCallbacks,
+    ),
   );
 
-  useSubscription(subscriptionOptions);
+  useSubscription(
+    trpc.generateVideo.subscriptionOptions(
+      isImageToVideo
+        ? skipToken
+        : {
+            aspectRatio:
+              aspectRatio === "9:16" || aspectRatio === "16:9"
+                ? aspectRatio
+                : undefined,
+            duration: generation.duration,
+            modelId: generation.modelId || "",
+            prompt: generation.prompt,
+            resolution:
+              resolution === "720p" || resolution === "1080p"
+                ? resolution
+                : undefined,
+            videoUrl: generation.sourceVideoUrl,
+          },
+      subscriptionCallbacks,
+    ),
+  );
 
   return null;
 };
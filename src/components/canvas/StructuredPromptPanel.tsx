@@ -0,0 +1,238 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import type { FiboStructuredPrompt } from "@/lib/adapters/fibo-to-analysis-adapter";
+import {
+  diffFiboStructuredPrompts,
+  FIBO_PROMPT_FIELDS,
+  getFiboPromptField,
+  parseFiboStructuredPrompt,
+  setFiboPromptField,
+  type FiboPromptField,
+} from "@/lib/utils/fibo-structured-prompt";
+import type { PlacedImage } from "@/types/canvas";
+import { canRegenerate } from "@/utils/generation-provenance-utils";
+import { RefreshCw, RotateCcw, X } from "lucide-react";
+import { memo, useMemo, useState } from "react";
+
+interface StructuredPromptPanelProps {
+  /** Images on the canvas */
+  images: PlacedImage[];
+  /** Closes the panel */
+  onClose: () => void;
+  /** Renders an edited structured prompt of an image */
+  onRegenerate: (
+    imageId: string,
+    structuredPrompt: FiboStructuredPrompt,
+  ) => void;
+  /** IDs of currently selected elements */
+  selectedIds: string[];
+}
+
+interface InspectedImage {
+  image: PlacedImage;
+  structuredPrompt: FiboStructuredPrompt;
+}
+
+/**
+ * Inspector fields by section, in display order.
+ */
+const FIELD_GROUPS = FIBO_PROMPT_FIELDS.reduce((groups, field) => {
+  const fields = groups.get(field.group) ?? [];
+  groups.set(field.group, [...fields, field]);
+  return groups;
+}, new Map<FiboPromptField["group"], FiboPromptField[]>());
+
+/**
+ * Editable form of one image's structured prompt.
+ *
+ * Edits are kept as a draft until regenerated; the panel remounts the form
+ * when another image is selected.
+ */
+function StructuredPromptForm({
+  image,
+  onRegenerate,
+  structuredPrompt,
+}: InspectedImage & Pick<StructuredPromptPanelProps, "onRegenerate">) {
+  const [draft, setDraft] = useState(structuredPrompt);
+
+  const changedCount = useMemo(
+    () => diffFiboStructuredPrompts(structuredPrompt, draft).length,
+    [draft, structuredPrompt],
+  );
+  const isRegenerable = canRegenerate(image);
+
+  return (
+    <>
+      <div className="flex max-h-[50vh] flex-col gap-3 overflow-y-auto p-3">
+        {[...FIELD_GROUPS].map(([group, fields]) => (
+          <fieldset className="flex flex-col gap-2" key={group}>
+            <legend className="mb-1 text-xs font-medium text-muted-foreground">
+              {group}
+            </legend>
+            {fields.map((field) => (
+              <label
+                className="flex flex-col gap-1 text-xs"
+                key={field.path.join(".")}
+              >
+                {field.label}
+                <Textarea
+                  className="min-h-0 resize-none px-2 py-1 text-xs md:text-xs"
+                  onChange={(e) =>
+                    setDraft((prev) =>
+                      setFiboPromptField(prev, field.path, e.target.value),
+                    )
+                  }
+                  rows={2}
+                  value={getFiboPromptField(draft, field.path)}
+                />
+              </label>
+            ))}
+          </fieldset>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 border-t border-border px-3 py-2">
+        <span className="text-xs text-muted-foreground">
+          {changedCount === 0
+            ? "No changes"
+            : `${changedCount} field${changedCount === 1 ? "" : "s"} changed`}
+        </span>
+        <div className="flex items-center gap-1">
+          <Button
+            disabled={changedCount === 0}
+            onClick={() => setDraft(structuredPrompt)}
+            size="xs"
+            variant="ghost"
+          >
+            <RotateCcw />
+            Reset
+          </Button>
+          <Button
+            disabled={changedCount === 0 || !isRegenerable}
+            onClick={() => onRegenerate(image.id, draft)}
+            size="xs"
+            title={
+              isRegenerable
+                ? "Generate a new image from the edited prompt"
+                : "This image has no recorded source images"
+            }
+            variant="secondary"
+          >
+            <RefreshCw />
+            Regenerate
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+}
+
+/**
+ * Differences between the structured prompts of two images.
+ */
+function StructuredPromptDiff({
+  first,
+  second,
+}: {
+  first: FiboStructuredPrompt;
+  second: FiboStructuredPrompt;
+}) {
+  const differences = useMemo(
+    () => diffFiboStructuredPrompts(first, second),
+    [first, second],
+  );
+
+  if (differences.length === 0) {
+    return (
+      <p className="p-3 text-sm text-muted-foreground">
+        The structured prompts are identical.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="flex max-h-[50vh] flex-col gap-2 overflow-y-auto p-3">
+      {differences.map((difference) => (
+        <li className="flex flex-col gap-1" key={difference.path.join(".")}>
+          <span className="text-xs font-medium">{difference.label}</span>
+          <span className="rounded bg-red-500/10 px-2 py-1 text-xs">
+            <span className="mr-1 font-mono text-muted-foreground">A</span>
+            {difference.before ?? "—"}
+          </span>
+          <span className="rounded bg-emerald-500/10 px-2 py-1 text-xs">
+            <span className="mr-1 font-mono text-muted-foreground">B</span>
+            {difference.after ?? "—"}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Panel showing the FIBO structured prompt of the selected image.
+ *
+ * @remarks
+ * - One selected image: its subject, lighting, camera and color grading
+ *   fields can be edited and rendered again with FIBO
+ * - Two selected images: the fields that differ are listed, the earlier
+ *   selection as A and the later one as B
+ * - Only images generated from a structured prompt can be inspected
+ */
+export const StructuredPromptPanel = memo(function StructuredPromptPanel({
+  images,
+  onClose,
+  onRegenerate,
+  selectedIds,
+}: StructuredPromptPanelProps) {
+  const inspected = useMemo(() => {
+    const imagesById = new Map(images.map((image) => [image.id, image]));
+
+    return selectedIds.flatMap((id): InspectedImage[] => {
+      const image = imagesById.get(id);
+      const structuredPrompt = parseFiboStructuredPrompt(
+        image?.provenance?.prompt,
+      );
+      return image && structuredPrompt ? [{ image, structuredPrompt }] : [];
+    });
+  }, [images, selectedIds]);
+
+  return (
+    <div className="pointer-events-auto fixed right-16 md:bottom-6 bottom-[calc(5rem+env(safe-area-inset-bottom))] z-40 flex w-80 flex-col rounded border border-border bg-background/95 shadow-sm">
+      <div className="flex items-center justify-between border-b border-border px-3 py-2">
+        <span className="text-sm font-medium">
+          {inspected.length === 2 ? "Compare prompts" : "Structured prompt"}
+        </span>
+        <Button
+          onClick={onClose}
+          size="icon-sm"
+          title="Close structured prompt"
+          variant="ghost"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {selectedIds.length === 1 && inspected.length === 1 ? (
+        <StructuredPromptForm
+          image={inspected[0].image}
+          key={inspected[0].image.id}
+          onRegenerate={onRegenerate}
+          structuredPrompt={inspected[0].structuredPrompt}
+        />
+      ) : selectedIds.length === 2 && inspected.length === 2 ? (
+        <StructuredPromptDiff
+          first={inspected[0].structuredPrompt}
+          second={inspected[1].structuredPrompt}
+        />
+      ) : (
+        <p className="p-3 text-sm text-muted-foreground">
+          Select an image made with FIBO analysis to edit its structured prompt,
+          or two to compare them.
+        </p>
+      )}
+    </div>
+  );
+});
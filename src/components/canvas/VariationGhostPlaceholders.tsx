@@ -2,12 +2,14 @@ import {
   GHOST_PLACEHOLDER_ARIA,
   GHOST_PLACEHOLDER_STYLES,
   GHOST_PLACEHOLDER_TEXT,
-  POSITION_INDICES_MAP,
 } from "@/constants/ghost-placeholders";
 import { useAnchorPosition } from "@/hooks/useAnchorPosition";
 import { useGhostPlaceholderAnimations } from "@/hooks/useGhostPlaceholderAnimations";
 import { useImageCache } from "@/hooks/useImageCache";
-import { calculateBalancedPosition } from "@/lib/handlers/variation-handler";
+import {
+  calculateBalancedPosition,
+  getPositionIndices,
+} from "@/lib/handlers/variation-placeholder";
 import type { PlacedImage } from "@/types/canvas";
 import { createBlurredCloneCanvas } from "@/utils/glsl-blur";
 import Konva from "konva";
@@ -23,7 +25,7 @@ import {
  * Props for the VariationGhostPlaceholders component
  */
 interface VariationGhostPlaceholdersProps {
-  /** Number of variations to generate (4, 8, or 12) */
+  /** Number of variations to generate (1-24) */
   generationCount?: number;
   /** Whether the image is currently being dragged */
   isDragging: boolean;
@@ -39,7 +41,7 @@ interface VariationGhostPlaceholdersProps {
  * Renders ghost placeholder outlines showing where variations will be generated
  *
  * This component provides visual feedback when a single image is selected in
- * variation mode. It displays 4, 8, or 12 ghost placeholders positioned around
+ * variation mode. It displays 1 to 24 ghost placeholders positioned around
  * the selected image, showing where generated variations will appear.
  *
  * **Features:**
@@ -80,7 +82,7 @@ export const VariationGhostPlaceholders: React.FC<
 
   // Determine position indices based on generation count
   const positionIndices = useMemo(
-    () => POSITION_INDICES_MAP[generationCount] ?? POSITION_INDICES_MAP[4],
+    () => getPositionIndices(generationCount),
     [generationCount],
   );
 
@@ -0,0 +1,452 @@
+/**
+ * Variation preset picker dialog.
+ *
+ * Lets the user hand-pick the presets generated for the current image
+ * variation type instead of a random selection, and save picks as recipes
+ * on the project.
+ */
+
+"use client";
+
+import { useMemo, useState } from "react";
+import { ImageIcon, SaveIcon, Trash2Icon } from "lucide-react";
+import { useAtom } from "jotai";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useVariationPresets } from "@/hooks/useVariationPresets";
+import { useVariationRecipes } from "@/hooks/useVariationRecipes";
+import {
+  getVariationClientConfig,
+  mapImageVariationType,
+  type ImageVariationType,
+  type VariationClientConfig,
+} from "@/lib/api/variation-api-helper";
+import { VARIATION_CONSTANTS } from "@/lib/handlers/variation-constants";
+import { showErrorFromException, showSuccess } from "@/lib/toast";
+import { cn } from "@/lib/utils";
+import {
+  generationCountAtom,
+  imageVariationTypeAtom,
+  pickedVariationItemsAtom,
+} from "@/store/ui-atoms";
+import type { PlacedImage } from "@/types/canvas";
+import type { VariationRecipe } from "@/types/variation-preset";
+import { getVariationPreset } from "@/utils/generation-provenance-utils";
+import type { Id } from "../../../convex/_generated/dataModel";
+
+/**
+ * Props for VariationPresetPickerDialog component.
+ */
+interface VariationPresetPickerDialogProps {
+  /** Images on the canvas, used for example thumbnails */
+  images: PlacedImage[];
+
+  /** Callback when open state changes */
+  onOpenChange: (open: boolean) => void;
+
+  /** Whether the dialog is open */
+  open: boolean;
+
+  /** Project the recipes are saved on, or null when no project is open */
+  projectId: Id<"projects"> | null;
+}
+
+/**
+ * Splits a preset into its name and description ("NAME — description").
+ */
+function splitPresetItem(item: string) {
+  const [name, ...rest] = item.split(" — ");
+  return { description: rest.join(" — "), name };
+}
+
+/**
+ * Gets the label images generated from a preset are tagged with.
+ */
+function getPresetLabel(config: VariationClientConfig, item: string) {
+  return getVariationPreset({
+    ...config.getPlaceholderMeta(item),
+    ...config.getImageMeta?.(item),
+  });
+}
+
+/**
+ * Props for RecipeSection component.
+ */
+interface RecipeSectionProps {
+  /** Variation count used when nothing is picked */
+  generationCount: number;
+
+  /** Display names of the variation types, by type */
+  getTypeName: (type: string) => string;
+
+  /** Callback to apply a saved recipe */
+  onApply: (recipe: VariationRecipe) => void;
+
+  /** Presets picked for the current type */
+  pickedItems: string[];
+
+  /** Project the recipes are saved on */
+  projectId: Id<"projects"> | null;
+
+  /** Current image variation type */
+  variationType: ImageVariationType;
+}
+
+/**
+ * Saved recipes of the project: apply, save the current picks, delete.
+ */
+function RecipeSection({
+  generationCount,
+  getTypeName,
+  onApply,
+  pickedItems,
+  projectId,
+  variationType,
+}: RecipeSectionProps) {
+  const { deleteRecipe, isLoading, recipes, saveRecipe } =
+    useVariationRecipes(projectId);
+  const [recipeId, setRecipeId] = useState("");
+  const [name, setName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectedRecipe = recipes.find((recipe) => recipe._id === recipeId);
+
+  /**
+   * Handles saving the current picks as a recipe.
+   */
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      const savedId = await saveRecipe({
+        items: pickedItems,
+        name,
+        variationCount: pickedItems.length || generationCount,
+        variationType,
+      });
+      if (savedId) setRecipeId(savedId);
+      setName("");
+      showSuccess("Recipe saved", `"${name.trim()}" was saved to the project`);
+    } catch (error) {
+      showErrorFromException("Save failed", error, "Failed to save recipe");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Handles deleting the selected recipe.
+   */
+  const handleDelete = async () => {
+    if (!selectedRecipe) return;
+
+    try {
+      await deleteRecipe(selectedRecipe._id);
+      setRecipeId("");
+      showSuccess("Recipe deleted", `"${selectedRecipe.name}" was deleted`);
+    } catch (error) {
+      showErrorFromException("Delete failed", error, "Failed to delete recipe");
+    }
+  };
+
+  if (!projectId) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Open a project to save picks as recipes.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2 border-t border-border pt-3">
+      <div className="flex items-center gap-2">
+        <Select
+          disabled={isLoading || recipes.length === 0}
+          onValueChange={setRecipeId}
+          value={recipeId}
+        >
+          <SelectTrigger className="flex-1 rounded-xl">
+            <SelectValue
+              placeholder={
+                recipes.length === 0 ? "No recipes yet" : "Select a recipe"
+              }
+            />
+          </SelectTrigger>
+          <SelectContent className="rounded-xl">
+            {recipes.map((recipe) => (
+              <SelectItem
+                className="rounded-lg"
+                key={recipe._id}
+                value={recipe._id}
+              >
+                {recipe.name} ({getTypeName(recipe.variationType)},{" "}
+                {recipe.variationCount})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          disabled={!selectedRecipe}
+          onClick={() => selectedRecipe && onApply(selectedRecipe)}
+          size="xs"
+          variant="secondary"
+        >
+          Apply
+        </Button>
+        <Button
+          aria-label="Delete recipe"
+          disabled={!selectedRecipe}
+          onClick={handleDelete}
+          size="icon-xs"
+          variant="ghost"
+        >
+          <Trash2Icon />
+        </Button>
+      </div>
+      <div className="flex items-center gap-2">
+        <Input
+          disabled={isSaving}
+          maxLength={100}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Recipe name"
+          value={name}
+        />
+        <Button
+          disabled={isSaving || !name.trim()}
+          onClick={handleSave}
+          size="xs"
+          variant="primary"
+        >
+          <SaveIcon />
+          {isSaving ? "Saving..." : "Save recipe"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Variation preset picker dialog component.
+ *
+ * @remarks
+ * - Picked presets are generated in the order they were picked, and the
+ *   variation count follows the number of picks
+ * - Thumbnails show the latest image on the canvas made from each preset
+ * - Storyline, characters and mood variations have no preset list to pick
+ *   from; their recipes only store the variation count
+ */
+export function VariationPresetPickerDialog({
+  images,
+  onOpenChange,
+  open,
+  projectId,
+}: VariationPresetPickerDialogProps) {
+  const [imageVariationType, setImageVariationType] = useAtom(
+    imageVariationTypeAtom,
+  );
+  const [generationCount, setGenerationCount] = useAtom(generationCountAtom);
+  const [pickedVariationItems, setPickedVariationItems] = useAtom(
+    pickedVariationItemsAtom,
+  );
+  const { selectedPack } = useVariationPresets();
+  const [query, setQuery] = useState("");
+
+  const customPresets = selectedPack?.presets;
+
+  const config = useMemo(
+    () =>
+      getVariationClientConfig(
+        mapImageVariationType(imageVariationType),
+        customPresets,
+      ),
+    [customPresets, imageVariationType],
+  );
+  const pickedItems = pickedVariationItems[imageVariationType] ?? [];
+
+  /**
+   * Latest image on the canvas for each preset label
+   */
+  const examplesByLabel = useMemo(() => {
+    const examples = new Map<string, PlacedImage>();
+    for (const image of images) {
+      const label = image.isLoading ? undefined : getVariationPreset(image);
+      if (label) examples.set(label, image);
+    }
+    return examples;
+  }, [images]);
+
+  const filteredItems = useMemo(() => {
+    const presetItems = config.presetItems ?? [];
+    const search = query.trim().toLowerCase();
+    return search
+      ? presetItems.filter((item) => item.toLowerCase().includes(search))
+      : presetItems;
+  }, [config, query]);
+
+  const getTypeName = (type: string) =>
+    getVariationClientConfig(mapImageVariationType(type as ImageVariationType))
+      .displayName;
+
+  /**
+   * Sets the picks of the current type.
+   */
+  const updatePicks = (items: string[]) => {
+    setPickedVariationItems((prev) => ({
+      ...prev,
+      [imageVariationType]: items,
+    }));
+  };
+
+  /**
+   * Picks or unpicks a preset.
+   */
+  const togglePick = (item: string) => {
+    if (pickedItems.includes(item)) {
+      updatePicks(pickedItems.filter((picked) => picked !== item));
+    } else if (pickedItems.length < VARIATION_CONSTANTS.MAX_VARIATION_COUNT) {
+      updatePicks([...pickedItems, item]);
+    }
+  };
+
+  /**
+   * Applies a recipe: switches to its type, picks its presets and sets
+   * its variation count.
+   */
+  const handleApplyRecipe = (recipe: VariationRecipe) => {
+    const variationType = recipe.variationType as typeof imageVariationType;
+
+    setImageVariationType(variationType);
+    setPickedVariationItems((prev) => ({
+      ...prev,
+      [variationType]: recipe.items,
+    }));
+    setGenerationCount(recipe.variationCount);
+    showSuccess(
+      "Recipe applied",
+      `${getTypeName(variationType)}, ${recipe.variationCount} variations`,
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Pick {config.displayName} Presets</DialogTitle>
+          <DialogDescription>
+            Choose up to {VARIATION_CONSTANTS.MAX_VARIATION_COUNT} presets to
+            generate instead of a random selection.
+          </DialogDescription>
+        </DialogHeader>
+
+        {config.presetItems ? (
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center gap-2">
+              <Input
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search presets"
+                value={query}
+              />
+              <span className="shrink-0 text-xs tabular-nums text-muted-foreground">
+                {pickedItems.length}/{VARIATION_CONSTANTS.MAX_VARIATION_COUNT}
+              </span>
+              <Button
+                disabled={pickedItems.length === 0}
+                onClick={() => updatePicks([])}
+                size="xs"
+                variant="ghost"
+              >
+                Clear
+              </Button>
+            </div>
+
+            <div className="flex max-h-[45vh] flex-col gap-1 overflow-y-auto">
+              {filteredItems.length === 0 && (
+                <p className="py-4 text-center text-sm text-muted-foreground">
+                  No presets match your search.
+                </p>
+              )}
+
+              {filteredItems.map((item) => {
+                const { description, name } = splitPresetItem(item);
+                const label = getPresetLabel(config, item);
+                const example = label ? examplesByLabel.get(label) : undefined;
+                const pickIndex = pickedItems.indexOf(item);
+                const isPicked = pickIndex !== -1;
+
+                return (
+                  <button
+                    className={cn(
+                      "flex items-center gap-2 rounded border p-1.5 text-left",
+                      isPicked
+                        ? "border-primary bg-primary/10"
+                        : "border-border hover:bg-accent",
+                    )}
+                    disabled={
+                      !isPicked &&
+                      pickedItems.length >=
+                        VARIATION_CONSTANTS.MAX_VARIATION_COUNT
+                    }
+                    key={item}
+                    onClick={() => togglePick(item)}
+                    type="button"
+                  >
+                    {example ? (
+                      <img
+                        alt=""
+                        className="h-10 w-10 shrink-0 rounded object-cover"
+                        src={example.thumbnailSrc || example.src}
+                      />
+                    ) : (
+                      <span className="flex h-10 w-10 shrink-0 items-center justify-center rounded bg-secondary">
+                        <ImageIcon className="h-4 w-4 text-muted-foreground" />
+                      </span>
+                    )}
+                    <span className="flex min-w-0 flex-1 flex-col">
+                      <span className="truncate text-sm">{name}</span>
+                      {description && (
+                        <span className="line-clamp-2 text-xs text-muted-foreground">
+                          {description}
+                        </span>
+                      )}
+                    </span>
+                    <span className="w-5 shrink-0 text-center text-xs tabular-nums">
+                      {isPicked && pickIndex + 1}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ) : (
+          <p className="py-4 text-center text-sm text-muted-foreground">
+            {config.displayName} variations are generated from the image, so
+            there are no presets to pick. Set the number of variations in the
+            control panel.
+          </p>
+        )}
+
+        <RecipeSection
+          generationCount={generationCount}
+          getTypeName={getTypeName}
+          onApply={handleApplyRecipe}
+          pickedItems={pickedItems}
+          projectId={projectId}
+          variationType={imageVariationType}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
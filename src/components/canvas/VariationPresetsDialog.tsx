@@ -0,0 +1,414 @@
+/**
+ * Custom variation presets dialog.
+ *
+ * Lets the user author preset packs (name, directive text, tags), pick the
+ * pack used for custom image variations, and share packs as JSON files.
+ */
+
+"use client";
+
+import { useRef, useState } from "react";
+import { DownloadIcon, PlusIcon, Trash2Icon, UploadIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  useVariationPresets,
+  type VariationPresetPackInput,
+} from "@/hooks/useVariationPresets";
+import { showErrorFromException, showSuccess } from "@/lib/toast";
+import type { VariationPresetPack } from "@/types/variation-preset";
+import { downloadPresetPack } from "@/utils/variation-preset-utils";
+
+/**
+ * Props for VariationPresetsDialog component.
+ */
+interface VariationPresetsDialogProps {
+  /** Callback when open state changes */
+  onOpenChange: (open: boolean) => void;
+
+  /** Whether the dialog is open */
+  open: boolean;
+}
+
+/**
+ * Preset being edited; tags are edited as comma-separated text.
+ */
+interface PresetDraft {
+  directive: string;
+  name: string;
+  tagsText: string;
+}
+
+/**
+ * Converts editor drafts back into pack fields.
+ */
+function toPackInput(
+  name: string,
+  description: string,
+  drafts: PresetDraft[],
+): VariationPresetPackInput {
+  return {
+    description: description.trim() || undefined,
+    name,
+    presets: drafts.map((draft) => ({
+      directive: draft.directive,
+      name: draft.name,
+      tags: draft.tagsText.split(","),
+    })),
+  };
+}
+
+/**
+ * Props for PresetPackEditor component.
+ */
+interface PresetPackEditorProps {
+  /** Callback to delete the pack */
+  onDelete: () => Promise<void>;
+
+  /** Callback to save the edited pack */
+  onSave: (pack: VariationPresetPackInput) => Promise<void>;
+
+  /** Pack being edited */
+  pack: VariationPresetPack;
+}
+
+/**
+ * Editor for a single pack. Remounted (via key) whenever the stored pack
+ * changes, so the draft always starts from the saved contents.
+ */
+function PresetPackEditor({ onDelete, onSave, pack }: PresetPackEditorProps) {
+  const [name, setName] = useState(pack.name);
+  const [description, setDescription] = useState(pack.description ?? "");
+  const [drafts, setDrafts] = useState<PresetDraft[]>(() =>
+    pack.presets.map((preset) => ({
+      directive: preset.directive,
+      name: preset.name,
+      tagsText: preset.tags.join(", "),
+    })),
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  /**
+   * Updates one field of a preset draft.
+   */
+  const updateDraft = (
+    index: number,
+    field: keyof PresetDraft,
+    value: string,
+  ) => {
+    setDrafts((prev) =>
+      prev.map((draft, i) =>
+        i === index ? { ...draft, [field]: value } : draft,
+      ),
+    );
+  };
+
+  /**
+   * Handles saving the pack.
+   */
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await onSave(toPackInput(name, description, drafts));
+      showSuccess("Preset pack saved");
+    } catch (error) {
+      showErrorFromException(
+        "Save failed",
+        error,
+        "Failed to save preset pack",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-col gap-2">
+        <Input
+          disabled={isSaving}
+          maxLength={100}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Pack name"
+          value={name}
+        />
+        <Input
+          disabled={isSaving}
+          maxLength={500}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description (optional)"
+          value={description}
+        />
+      </div>
+
+      <div className="flex max-h-[40vh] flex-col gap-2 overflow-y-auto">
+        {drafts.length === 0 && (
+          <p className="py-4 text-center text-sm text-muted-foreground">
+            No presets yet. Add one to use this pack for variations.
+          </p>
+        )}
+
+        {drafts.map((draft, index) => (
+          <div
+            className="flex flex-col gap-2 rounded border border-border p-2"
+            key={index}
+          >
+            <div className="flex items-center gap-2">
+              <Input
+                disabled={isSaving}
+                maxLength={100}
+                onChange={(e) => updateDraft(index, "name", e.target.value)}
+                placeholder="Preset name"
+                value={draft.name}
+              />
+              <Button
+                aria-label="Remove preset"
+                disabled={isSaving}
+                onClick={() =>
+                  setDrafts((prev) => prev.filter((_, i) => i !== index))
+                }
+                size="icon-xs"
+                variant="ghost"
+              >
+                <Trash2Icon />
+              </Button>
+            </div>
+            <Textarea
+              className="min-w-0"
+              disabled={isSaving}
+              maxLength={2000}
+              onChange={(e) => updateDraft(index, "directive", e.target.value)}
+              placeholder="Directive, e.g. Shot on expired 35mm film with heavy halation"
+              value={draft.directive}
+            />
+            <Input
+              disabled={isSaving}
+              onChange={(e) => updateDraft(index, "tagsText", e.target.value)}
+              placeholder="Tags, comma separated (optional)"
+              value={draft.tagsText}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          disabled={isSaving}
+          onClick={() =>
+            setDrafts((prev) => [
+              ...prev,
+              { directive: "", name: "", tagsText: "" },
+            ])
+          }
+          size="xs"
+          variant="secondary"
+        >
+          <PlusIcon />
+          Add preset
+        </Button>
+        <div className="flex items-center gap-1">
+          <Button
+            disabled={isSaving}
+            onClick={() => downloadPresetPack(pack)}
+            size="xs"
+            variant="ghost"
+          >
+            <DownloadIcon />
+            Export
+          </Button>
+          <Button
+            disabled={isSaving}
+            onClick={onDelete}
+            size="xs"
+            variant="ghost"
+          >
+            Delete pack
+          </Button>
+          <Button
+            disabled={isSaving}
+            onClick={handleSave}
+            size="xs"
+            variant="primary"
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Custom variation presets dialog component.
+ *
+ * @remarks
+ * - The selected pack is used when the "Custom" variation type is active
+ * - Export downloads the saved pack, not unsaved edits
+ * - Imported packs are added as new packs and selected
+ */
+export function VariationPresetsDialog({
+  onOpenChange,
+  open,
+}: VariationPresetsDialogProps) {
+  const {
+    createPack,
+    deletePack,
+    importPack,
+    isLoading,
+    packs,
+    selectPack,
+    selectedPack,
+    updatePack,
+  } = useVariationPresets();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  /**
+   * Handles creating an empty pack.
+   */
+  const handleCreate = async () => {
+    try {
+      setIsCreating(true);
+      await createPack({ name: "Untitled pack", presets: [] });
+    } catch (error) {
+      showErrorFromException(
+        "Create failed",
+        error,
+        "Failed to create preset pack",
+      );
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  /**
+   * Handles importing a pack from a JSON file.
+   */
+  const handleImport = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+
+    try {
+      setIsCreating(true);
+      const packName = await importPack(await file.text());
+      showSuccess("Preset pack imported", `"${packName}" is ready to use`);
+    } catch (error) {
+      showErrorFromException(
+        "Import failed",
+        error,
+        "Failed to import preset pack",
+      );
+    } finally {
+      setIsCreating(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  /**
+   * Handles deleting the selected pack.
+   */
+  const handleDelete = async () => {
+    if (!selectedPack) return;
+
+    try {
+      await deletePack(selectedPack._id);
+      showSuccess("Preset pack deleted", `"${selectedPack.name}" was deleted`);
+    } catch (error) {
+      showErrorFromException(
+        "Delete failed",
+        error,
+        "Failed to delete preset pack",
+      );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Custom Presets</DialogTitle>
+          <DialogDescription>
+            Author your own variation presets and share packs as JSON files.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Select
+            disabled={isLoading || packs.length === 0}
+            onValueChange={selectPack}
+            value={selectedPack?._id ?? ""}
+          >
+            <SelectTrigger className="flex-1 rounded-xl">
+              <SelectValue
+                placeholder={
+                  packs.length === 0 ? "No preset packs yet" : "Select a pack"
+                }
+              />
+            </SelectTrigger>
+            <SelectContent className="rounded-xl">
+              {packs.map((pack) => (
+                <SelectItem
+                  className="rounded-lg"
+                  key={pack._id}
+                  value={pack._id}
+                >
+                  {pack.name} ({pack.presets.length})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            disabled={isCreating}
+            onClick={handleCreate}
+            size="xs"
+            variant="secondary"
+          >
+            <PlusIcon />
+            New pack
+          </Button>
+          <Button
+            disabled={isCreating}
+            onClick={() => fileInputRef.current?.click()}
+            size="xs"
+            variant="secondary"
+          >
+            <UploadIcon />
+            Import
+          </Button>
+          <input
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => handleImport(e.target.files)}
+            ref={fileInputRef}
+            type="file"
+          />
+        </div>
+
+        {selectedPack && (
+          <PresetPackEditor
+            key={`${selectedPack._id}-${selectedPack.updatedAt}`}
+            onDelete={handleDelete}
+            onSave={(pack) => updatePack(selectedPack._id, pack)}
+            pack={selectedPack}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,23 +3,53 @@
 import { Button } from "@/components/ui/button";
 import type { Viewport } from "@/store/canvas-atoms";
 import { zoomViewport, clampScale } from "@/utils/viewport-utils";
-import { Minus, Plus, Maximize2, PanelsTopLeft } from "lucide-react";
+import {
+  Braces,
+  Film,
+  GitFork,
+  History,
+  Minus,
+  Plus,
+  Maximize2,
+  MessageSquare,
+  PanelsTopLeft,
+} from "lucide-react";
 import { memo, useCallback } from "react";
 
 interface ZoomControlsProps {
   canvasSize: { width: number; height: number };
   setViewport: (vp: Viewport) => void;
   viewport: Viewport;
+  isCommentMode?: boolean;
+  isHistoryPanelOpen?: boolean;
+  isLineagePanelOpen?: boolean;
   isProjectsPanelOpen?: boolean;
+  isSequencePanelOpen?: boolean;
+  isStructuredPromptPanelOpen?: boolean;
+  onToggleCommentMode?: () => void;
+  onToggleHistoryPanel?: () => void;
+  onToggleLineagePanel?: () => void;
   onToggleProjectsPanel?: () => void;
+  onToggleSequencePanel?: () => void;
+  onToggleStructuredPromptPanel?: () => void;
 }
 
 export const ZoomControls = memo(function ZoomControls({
   canvasSize,
   setViewport,
   viewport,
+  isCommentMode,
+  isHistoryPanelOpen,
+  isLineagePanelOpen,
   isProjectsPanelOpen,
+  isSequencePanelOpen,
+  isStructuredPromptPanelOpen,
+  onToggleCommentMode,
+  onToggleHistoryPanel,
+  onToggleLineagePanel,
   onToggleProjectsPanel,
+  onToggleSequencePanel,
+  onToggleStructuredPromptPanel,
 }: ZoomControlsProps) {
   const handleZoom = useCallback(
     (delta: number) => {
@@ -52,6 +82,71 @@ export const ZoomControls = memo(function ZoomControls({
         </Button>
       )}
 
+      {onToggleHistoryPanel && (
+        <Button
+          variant="secondary"
+          size="icon-sm"
+          aria-pressed={!!isHistoryPanelOpen}
+          onClick={onToggleHistoryPanel}
+          title="Toggle history"
+          className="rounded"
+        >
+          <History className="h-4 w-4" />
+        </Button>
+      )}
+
+      {onToggleLineagePanel && (
+        <Button
+          variant="secondary"
+          size="icon-sm"
+          aria-pressed={!!isLineagePanelOpen}
+          onClick={onToggleLineagePanel}
+          title="Toggle lineage"
+          className="rounded"
+        >
+          <GitFork className="h-4 w-4" />
+        </Button>
+      )}
+
+      {onToggleSequencePanel && (
+        <Button
+          variant="secondary"
+          size="icon-sm"
+          aria-pressed={!!isSequencePanelOpen}
+          onClick={onToggleSequencePanel}
+          title="Toggle sequence"
+          className="rounded"
+        >
+          <Film className="h-4 w-4" />
+        </Button>
+      )}
+
+      {onToggleStructuredPromptPanel && (
+        <Button
+          variant="secondary"
+          size="icon-sm"
+          aria-pressed={!!isStructuredPromptPanelOpen}
+          onClick={onToggleStructuredPromptPanel}
+          title="Toggle structured prompt"
+          className="rounded"
+        >
+          <Braces className="h-4 w-4" />
+        </Button>
+      )}
+
+      {onToggleCommentMode && (
+        <Button
+          variant="secondary"
+          size="icon-sm"
+          aria-pressed={!!isCommentMode}
+          onClick={onToggleCommentMode}
+          title="Toggle comments"
+          className="rounded"
+        >
+          <MessageSquare className="h-4 w-4" />
+        </Button>
+      )}
+
       <div className="flex items-center overflow-hidden rounded border border-border bg-background/80 shadow-sm">
         <Button
           variant="ghost"
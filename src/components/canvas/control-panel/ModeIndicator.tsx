@@ -12,8 +12,10 @@ import {
   CloudIcon,
   ImagesIcon,
   Lightbulb,
+  PackageIcon,
   PaintBucketIcon,
   PlayIcon,
+  SlidersHorizontalIcon,
   SmileIcon,
   UserIcon,
 } from "lucide-react";
@@ -24,12 +26,16 @@ import {
 interface ModeIndicatorProps {
   handleVariationModeChange: (mode: "image" | "video") => void;
   hasSelection: boolean;
+  /** Name of the preset pack used for custom variations */
+  customPresetPackName?: string;
   imageVariationType?:
     | "camera-angles"
     | "characters"
+    | "custom"
     | "director"
     | "emotions"
     | "lighting"
+    | "mood"
     | "storyline"
     | "surface"
     | "weather";
@@ -37,70 +43,99 @@ interface ModeIndicatorProps {
     type:
       | "camera-angles"
       | "characters"
+      | "custom"
       | "director"
       | "emotions"
       | "lighting"
+      | "mood"
       | "storyline"
       | "surface"
       | "weather"
   ) => void;
+  /** Opens the custom presets dialog */
+  onOpenPresetManager?: () => void;
   variationMode: "image" | "video";
 }
 
+/**
+ * Image/video switch shared by the text and variation modes
+ */
+function VariationModeSwitch({
+  handleVariationModeChange,
+  variationMode,
+}: Pick<ModeIndicatorProps, "handleVariationModeChange" | "variationMode">) {
+  return (
+    <SegmentedControl.Root
+      className="flex flex-1"
+      value={variationMode}
+      onValueChange={(value) =>
+        handleVariationModeChange(value as "image" | "video")
+      }
+      size="1"
+    >
+      <SegmentedControl.Item value="image">
+        <div className="flex flex-row items-center gap-1.5">
+          <ImagesIcon className="size-3.5" />
+          <span className="text-xs">Image</span>
+        </div>
+      </SegmentedControl.Item>
+      <SegmentedControl.Item value="video">
+        <div className="flex flex-row items-center gap-1.5">
+          <PlayIcon className="size-3.5" />
+          <span className="text-xs">Video</span>
+        </div>
+      </SegmentedControl.Item>
+    </SegmentedControl.Root>
+  );
+}
+
 /**
  * Mode indicator badge with image/video switch
  */
 export function ModeIndicator({
   handleVariationModeChange,
   hasSelection,
+  customPresetPackName,
   imageVariationType = "camera-angles",
+  onOpenPresetManager,
   setImageVariationType,
   variationMode,
 }: ModeIndicatorProps) {
   if (!hasSelection) {
     return (
-      <div
-        className={cn(
-          "h-9 rounded-xl overflow-clip flex items-center px-3",
-          "pointer-events-none select-none",
-          CONTROL_PANEL_STYLES.ORANGE_BADGE
-        )}
-      >
-        <div className="flex items-center gap-2 text-xs font-medium">
-          <span className="text-orange-600 dark:text-orange-500 font-bold text-sm">
-            T
-          </span>
-          <span className="text-orange-600 dark:text-orange-500">
-            {CONTROL_PANEL_STRINGS.TEXT_TO_IMAGE}
-          </span>
+      <>
+        <VariationModeSwitch
+          handleVariationModeChange={handleVariationModeChange}
+          variationMode={variationMode}
+        />
+        <div
+          className={cn(
+            "h-9 rounded-xl overflow-clip flex items-center px-3",
+            "pointer-events-none select-none",
+            CONTROL_PANEL_STYLES.ORANGE_BADGE
+          )}
+        >
+          <div className="flex items-center gap-2 text-xs font-medium">
+            <span className="text-orange-600 dark:text-orange-500 font-bold text-sm">
+              T
+            </span>
+            <span className="text-orange-600 dark:text-orange-500 whitespace-nowrap">
+              {variationMode === "video"
+                ? CONTROL_PANEL_STRINGS.TEXT_TO_VIDEO
+                : CONTROL_PANEL_STRINGS.TEXT_TO_IMAGE}
+            </span>
+          </div>
         </div>
-      </div>
+      </>
     );
   }
 
   return (
     <>
-      <SegmentedControl.Root
-        className="flex flex-1"
-        value={variationMode}
-        onValueChange={(value) =>
-          handleVariationModeChange(value as "image" | "video")
-        }
-        size="1"
-      >
-        <SegmentedControl.Item value="image">
-          <div className="flex flex-row items-center gap-1.5">
-            <ImagesIcon className="size-3.5" />
-            <span className="text-xs">Image</span>
-          </div>
-        </SegmentedControl.Item>
-        <SegmentedControl.Item value="video">
-          <div className="flex flex-row items-center gap-1.5">
-            <PlayIcon className="size-3.5" />
-            <span className="text-xs">Video</span>
-          </div>
-        </SegmentedControl.Item>
-      </SegmentedControl.Root>
+      <VariationModeSwitch
+        handleVariationModeChange={handleVariationModeChange}
+        variationMode={variationMode}
+      />
 
       {/* Camera Angles vs Director vs Lighting switcher - only show in Image mode */}
       {variationMode === "image" && setImageVariationType && (
@@ -112,9 +147,11 @@ export function ModeIndicator({
               value as
                 | "camera-angles"
                 | "characters"
+                | "custom"
                 | "director"
                 | "emotions"
                 | "lighting"
+                | "mood"
                 | "storyline"
                 | "surface"
                 | "weather"
@@ -157,12 +194,24 @@ export function ModeIndicator({
               <span className="text-xs whitespace-nowrap">Emotions</span>
             </div>
           </SegmentedControl.Item>
+          <SegmentedControl.Item value="mood">
+            <div className="flex flex-row items-center gap-1.5">
+              <SlidersHorizontalIcon className="size-3.5" />
+              <span className="text-xs whitespace-nowrap">Mood</span>
+            </div>
+          </SegmentedControl.Item>
           <SegmentedControl.Item value="weather">
             <div className="flex flex-row items-center gap-1.5">
               <CloudIcon className="size-3.5" />
               <span className="text-xs whitespace-nowrap">Weather</span>
             </div>
           </SegmentedControl.Item>
+          <SegmentedControl.Item value="custom">
+            <div className="flex flex-row items-center gap-1.5">
+              <PackageIcon className="size-3.5" />
+              <span className="text-xs whitespace-nowrap">Custom</span>
+            </div>
+          </SegmentedControl.Item>
           {/* <SegmentedControl.Item value="surface">
             <div className="flex flex-row items-center gap-1.5">
               <Layers className="size-3.5" />
@@ -171,6 +220,22 @@ export function ModeIndicator({
           </SegmentedControl.Item> */}
         </SegmentedControl.Root>
       )}
+
+      {/* Preset pack picker - only show for custom variations */}
+      {variationMode === "image" &&
+        imageVariationType === "custom" &&
+        onOpenPresetManager && (
+          <button
+            className={cn(
+              "h-6 max-w-[140px] truncate rounded-md px-2 text-xs",
+              "border border-border bg-secondary hover:bg-accent"
+            )}
+            onClick={onOpenPresetManager}
+            type="button"
+          >
+            {customPresetPackName ?? "Choose pack"}
+          </button>
+        )}
     </>
   );
 }
@@ -0,0 +1,58 @@
+"use client";
+
+import { DEFAULT_MOOD_VECTOR, MOOD_AXES } from "@/constants/mood-vector";
+import type { MoodVector } from "@/types/mood-vector";
+import { Slider } from "@radix-ui/themes";
+import { RotateCcw } from "lucide-react";
+
+/**
+ * Props for the MoodVectorSettings component
+ */
+interface MoodVectorSettingsProps {
+  moodVector: MoodVector;
+  setMoodVector: (value: MoodVector) => void;
+}
+
+/**
+ * Sliders for the target intensity (0-100) of each emotion axis used by
+ * mood variations
+ */
+export function MoodVectorSettings({
+  moodVector,
+  setMoodVector,
+}: MoodVectorSettingsProps) {
+  return (
+    <div className="flex items-start gap-3">
+      <div className="grid flex-1 grid-cols-2 gap-x-4 gap-y-2 md:grid-cols-4">
+        {MOOD_AXES.map(({ axis, label }) => (
+          <label className="flex min-w-[120px] flex-col gap-1" key={axis}>
+            <span className="flex justify-between text-xs">
+              <span>{label}</span>
+              <span className="tabular-nums text-muted-foreground">
+                {moodVector[axis]}
+              </span>
+            </span>
+            <Slider
+              max={100}
+              min={0}
+              onValueChange={([value]) =>
+                setMoodVector({ ...moodVector, [axis]: value })
+              }
+              size="1"
+              step={1}
+              value={[moodVector[axis]]}
+            />
+          </label>
+        ))}
+      </div>
+      <button
+        className="h-6 rounded-md px-1.5 text-muted-foreground hover:bg-accent hover:text-foreground"
+        onClick={() => setMoodVector(DEFAULT_MOOD_VECTOR)}
+        title="Reset mood"
+        type="button"
+      >
+        <RotateCcw className="size-3.5" />
+      </button>
+    </div>
+  );
+}
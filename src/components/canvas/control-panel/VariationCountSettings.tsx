@@ -0,0 +1,97 @@
+"use client";
+
+import { VARIATION_CONSTANTS } from "@/lib/handlers/variation-constants";
+import { cn } from "@/lib/utils";
+import { ListChecksIcon, MinusIcon, PlusIcon } from "lucide-react";
+
+/**
+ * Props for the VariationCountSettings component
+ */
+interface VariationCountSettingsProps {
+  /** Whether the current variation type has presets to pick from */
+  canPickPresets: boolean;
+  generationCount: number;
+  /** Opens the preset picker and saved recipes */
+  onOpenPresetPicker?: () => void;
+  /** Number of presets picked for the current variation type */
+  pickedCount: number;
+  setGenerationCount: (count: number) => void;
+}
+
+const stepButtonClassName =
+  "flex size-6 items-center justify-center rounded-md text-muted-foreground hover:bg-accent hover:text-foreground disabled:pointer-events-none disabled:opacity-40";
+
+/**
+ * Stepper for the number of image variations (1-24), with a button that
+ * opens the preset picker and saved recipes.
+ *
+ * Picked presets replace the random selection, so the count follows the
+ * picks while any are set.
+ */
+export function VariationCountSettings({
+  canPickPresets,
+  generationCount,
+  onOpenPresetPicker,
+  pickedCount,
+  setGenerationCount,
+}: VariationCountSettingsProps) {
+  const { MAX_VARIATION_COUNT, MIN_VARIATION_COUNT } = VARIATION_CONSTANTS;
+  const isPicked = pickedCount > 0;
+  const count = isPicked ? pickedCount : generationCount;
+
+  const changeCount = (delta: number) =>
+    setGenerationCount(
+      Math.min(
+        MAX_VARIATION_COUNT,
+        Math.max(MIN_VARIATION_COUNT, generationCount + delta),
+      ),
+    );
+
+  return (
+    <div className="flex items-center gap-1">
+      <div className="flex h-6 items-center rounded-md border border-border bg-secondary">
+        <button
+          className={stepButtonClassName}
+          disabled={isPicked || generationCount <= MIN_VARIATION_COUNT}
+          onClick={() => changeCount(-1)}
+          title="Fewer variations"
+          type="button"
+        >
+          <MinusIcon className="size-3" />
+        </button>
+        <span
+          className="min-w-[1.5rem] text-center text-xs tabular-nums"
+          title="Number of variations"
+        >
+          {count}
+        </span>
+        <button
+          className={stepButtonClassName}
+          disabled={isPicked || generationCount >= MAX_VARIATION_COUNT}
+          onClick={() => changeCount(1)}
+          title="More variations"
+          type="button"
+        >
+          <PlusIcon className="size-3" />
+        </button>
+      </div>
+      {onOpenPresetPicker && (
+        <button
+          className={cn(
+            "flex h-6 items-center gap-1 rounded-md px-2 text-xs",
+            "border border-border bg-secondary hover:bg-accent",
+          )}
+          onClick={onOpenPresetPicker}
+          type="button"
+        >
+          <ListChecksIcon className="size-3" />
+          {isPicked
+            ? `${pickedCount} picked`
+            : canPickPresets
+              ? "Pick presets"
+              : "Recipes"}
+        </button>
+      )}
+    </div>
+  );
+}
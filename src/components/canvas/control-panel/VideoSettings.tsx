@@ -1,30 +1,93 @@
 "use client";
 
+import {
+  RAY_2_MODIFY_MODEL_ID,
+  SORA_2_TEXT_MODEL_ID,
+  supportsEndFrame,
+  VEO_3_1_EXTEND_MODEL_ID,
+  VEO_3_1_TEXT_MODEL_ID,
+  type TextToVideoModelId,
+  type VideoModelCategory,
+  type VideoToVideoModelId,
+} from "@/lib/video-models";
 import { SegmentedControl } from "@radix-ui/themes";
 
 /**
  * Props for the VideoSettings component
  */
 interface VideoSettingsProps {
+  /** Whether two images are selected, so a clip can run between them */
+  canUseEndFrame: boolean;
+  /** Kind of video generation the current selection leads to */
+  category: VideoModelCategory;
+  isEndFrameEnabled: boolean;
+  setIsEndFrameEnabled: (value: boolean) => void;
+  setTextToVideoModel: (value: TextToVideoModelId) => void;
   setVideoDuration: (value: "4" | "8" | "12") => void;
   setVideoModel: (
     value: "sora-2" | "sora-2-pro" | "veo-3.1" | "veo-3.1-pro",
   ) => void;
+  setVideoToVideoModel: (value: VideoToVideoModelId) => void;
+  textToVideoModel: TextToVideoModelId;
   videoDuration: "4" | "8" | "12";
   videoModel: "sora-2" | "sora-2-pro" | "veo-3.1" | "veo-3.1-pro";
+  videoToVideoModel: VideoToVideoModelId;
 }
 
 type ModelFamily = "sora" | "veo";
 type ModelQuality = "normal" | "pro" | "fast";
+type KeyframeMode = "start" | "start-end";
+
+/**
+ * Duration selector shared by the image-to-video and text-to-video settings
+ */
+function DurationSelector({
+  setVideoDuration,
+  videoDuration,
+}: Pick<VideoSettingsProps, "setVideoDuration" | "videoDuration">) {
+  return (
+    <SegmentedControl.Root
+      size="1"
+      value={videoDuration}
+      onValueChange={(value) => setVideoDuration(value as "4" | "8" | "12")}
+    >
+      <SegmentedControl.Item value="4">
+        <span className="text-xs">4s</span>
+      </SegmentedControl.Item>
+      <SegmentedControl.Item value="8">
+        <span className="text-xs">8s</span>
+      </SegmentedControl.Item>
+      <SegmentedControl.Item value="12">
+        <span className="text-xs">12s</span>
+      </SegmentedControl.Item>
+    </SegmentedControl.Root>
+  );
+}
 
 /**
  * Video-specific settings controls (Model family, Quality, and Duration selectors)
+ *
+ * With two images selected, a keyframe selector chooses between variations
+ * of one image and a single clip from the left image to the right one. Only
+ * models that support end frames can run between two images, so turning
+ * end frames on switches to Veo and picking Sora turns them off.
+ *
+ * With nothing selected the settings pick a text-to-video model, and with a
+ * video selected they choose between restyling and extending it.
  */
 export function VideoSettings({
+  canUseEndFrame,
+  category,
+  isEndFrameEnabled,
+  setIsEndFrameEnabled,
+  setTextToVideoModel,
   setVideoDuration,
   setVideoModel,
+  setVideoToVideoModel,
+  textToVideoModel,
   videoDuration,
   videoModel,
+  videoToVideoModel,
 }: VideoSettingsProps) {
   // Derive current model family and quality from full model ID
   const modelFamily: ModelFamily = videoModel.startsWith("sora")
@@ -38,13 +101,29 @@ export function VideoSettings({
 
   // Handle model family change
   const handleModelFamilyChange = (family: ModelFamily) => {
-    if (family === "sora") {
-      // Keep quality if possible, default to normal
-      setVideoModel(modelQuality === "pro" ? "sora-2-pro" : "sora-2");
-    } else {
-      // VEO: map normal -> fast, keep pro
+    // Keep quality if possible; VEO maps normal -> fast, keeps pro
+    const nextModel =
+      family === "sora"
+        ? modelQuality === "pro"
+          ? "sora-2-pro"
+          : "sora-2"
+        : modelQuality === "pro"
+          ? "veo-3.1-pro"
+          : "veo-3.1";
+
+    setVideoModel(nextModel);
+    if (!supportsEndFrame(nextModel)) {
+      setIsEndFrameEnabled(false);
+    }
+  };
+
+  // Handle keyframe mode change
+  const handleKeyframeModeChange = (mode: KeyframeMode) => {
+    const enabled = mode === "start-end";
+    if (enabled && !supportsEndFrame(videoModel)) {
       setVideoModel(modelQuality === "pro" ? "veo-3.1-pro" : "veo-3.1");
     }
+    setIsEndFrameEnabled(enabled);
   };
 
   // Handle quality change
@@ -56,8 +135,72 @@ export function VideoSettings({
     }
   };
 
+  if (category === "text-to-video") {
+    return (
+      <>
+        {/* Model family selector */}
+        <SegmentedControl.Root
+          size="1"
+          value={textToVideoModel}
+          onValueChange={(value) =>
+            setTextToVideoModel(value as TextToVideoModelId)
+          }
+        >
+          <SegmentedControl.Item value={SORA_2_TEXT_MODEL_ID}>
+            <span className="text-xs">Sora</span>
+          </SegmentedControl.Item>
+          <SegmentedControl.Item value={VEO_3_1_TEXT_MODEL_ID}>
+            <span className="text-xs">Veo</span>
+          </SegmentedControl.Item>
+        </SegmentedControl.Root>
+
+        <DurationSelector
+          setVideoDuration={setVideoDuration}
+          videoDuration={videoDuration}
+        />
+      </>
+    );
+  }
+
+  if (category === "video-to-video") {
+    return (
+      <SegmentedControl.Root
+        size="1"
+        value={videoToVideoModel}
+        onValueChange={(value) =>
+          setVideoToVideoModel(value as VideoToVideoModelId)
+        }
+      >
+        <SegmentedControl.Item value={RAY_2_MODIFY_MODEL_ID}>
+          <span className="text-xs">Restyle</span>
+        </SegmentedControl.Item>
+        <SegmentedControl.Item value={VEO_3_1_EXTEND_MODEL_ID}>
+          <span className="text-xs">Extend</span>
+        </SegmentedControl.Item>
+      </SegmentedControl.Root>
+    );
+  }
+
   return (
     <>
+      {/* Keyframe selector - only with two images selected */}
+      {canUseEndFrame && (
+        <SegmentedControl.Root
+          size="1"
+          value={isEndFrameEnabled ? "start-end" : "start"}
+          onValueChange={(value) =>
+            handleKeyframeModeChange(value as KeyframeMode)
+          }
+        >
+          <SegmentedControl.Item value="start">
+            <span className="text-xs">Start</span>
+          </SegmentedControl.Item>
+          <SegmentedControl.Item value="start-end">
+            <span className="text-xs">Start → End</span>
+          </SegmentedControl.Item>
+        </SegmentedControl.Root>
+      )}
+
       {/* Model family selector */}
       <SegmentedControl.Root
         size="1"
@@ -96,22 +239,10 @@ export function VideoSettings({
         </SegmentedControl.Item>
       </SegmentedControl.Root>
 
-      {/* Duration selector */}
-      <SegmentedControl.Root
-        size="1"
-        value={videoDuration}
-        onValueChange={(value) => setVideoDuration(value as "4" | "8" | "12")}
-      >
-        <SegmentedControl.Item value="4">
-          <span className="text-xs">4s</span>
-        </SegmentedControl.Item>
-        <SegmentedControl.Item value="8">
-          <span className="text-xs">8s</span>
-        </SegmentedControl.Item>
-        <SegmentedControl.Item value="12">
-          <span className="text-xs">12s</span>
-        </SegmentedControl.Item>
-      </SegmentedControl.Root>
+      <DurationSelector
+        setVideoDuration={setVideoDuration}
+        videoDuration={videoDuration}
+      />
     </>
   );
 }
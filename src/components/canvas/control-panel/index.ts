@@ -14,5 +14,7 @@ export {
 } from "./GenerationStatusResolver";
 export { ImageSettings } from "./ImageSettings";
 export { ModeIndicator } from "./ModeIndicator";
+export { MoodVectorSettings } from "./MoodVectorSettings";
 export { PromptInput } from "./PromptInput";
+export { VariationCountSettings } from "./VariationCountSettings";
 export { VideoSettings } from "./VideoSettings";
@@ -0,0 +1,149 @@
+/**
+ * Delete project confirmation dialog.
+ *
+ * Confirms permanent project deletion and lets the user opt in to
+ * removing assets that no other project references.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { showErrorFromException, showSuccess } from "@/lib/toast";
+import { useProjects } from "@/hooks/useProjects";
+import type { Id } from "../../../convex/_generated/dataModel";
+
+/**
+ * Props for DeleteProjectDialog component.
+ */
+interface DeleteProjectDialogProps {
+  /** Callback when dialog is closed */
+  onClose: () => void;
+
+  /** Callback after the project has been deleted */
+  onDeleted?: () => void;
+
+  /** Whether the dialog is open */
+  open: boolean;
+
+  /** ID of the project to delete */
+  projectId: string;
+
+  /** Display name of the project to delete */
+  projectName: string;
+}
+
+/**
+ * Delete project confirmation dialog component.
+ *
+ * @remarks
+ * - Orphaned asset cleanup is off by default so shared assets stay safe
+ * - Prevents closing while the deletion is in flight
+ * - Shows a success toast with the number of removed assets
+ */
+export function DeleteProjectDialog({
+  onClose,
+  onDeleted,
+  open,
+  projectId,
+  projectName,
+}: DeleteProjectDialogProps) {
+  const { deleteProject } = useProjects();
+
+  const [deleteOrphanedAssets, setDeleteOrphanedAssets] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  /**
+   * Handles project deletion.
+   */
+  const handleDelete = async () => {
+    try {
+      setIsDeleting(true);
+
+      const deletedAssetCount = await deleteProject(
+        projectId as Id<"projects">,
+        { deleteOrphanedAssets },
+      );
+
+      showSuccess(
+        "Project deleted",
+        deletedAssetCount > 0
+          ? `"${projectName}" and ${deletedAssetCount} unused asset${deletedAssetCount === 1 ? "" : "s"} were deleted`
+          : `"${projectName}" was deleted`,
+      );
+
+      onDeleted?.();
+      onClose();
+    } catch (error) {
+      showErrorFromException(
+        "Delete failed",
+        error,
+        "Failed to delete project",
+      );
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  /**
+   * Handles dialog close.
+   */
+  const handleClose = () => {
+    if (isDeleting) return; // Prevent close during deletion
+
+    setDeleteOrphanedAssets(false);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Delete Project</DialogTitle>
+          <DialogDescription>
+            Are you sure you want to delete &quot;{projectName}&quot;? This
+            action cannot be undone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-4 py-4">
+          <Label htmlFor="delete-orphaned-assets" className="grid gap-1">
+            Also delete unused assets
+            <span className="text-xs font-normal text-content-light">
+              Images and videos not used by any other project
+            </span>
+          </Label>
+          <Switch
+            id="delete-orphaned-assets"
+            checked={deleteOrphanedAssets}
+            onCheckedChange={setDeleteOrphanedAssets}
+            disabled={isDeleting}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={handleClose} disabled={isDeleting}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleDelete}
+            disabled={isDeleting}
+          >
+            {isDeleting ? "Deleting..." : "Delete Project"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
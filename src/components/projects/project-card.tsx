@@ -2,7 +2,8 @@
  * Project card component for displaying project metadata in the project list.
  *
  * Shows project thumbnail, name, last modified time, and element counts.
- * Provides actions for opening, renaming, and deleting projects.
+ * Provides actions for opening, renaming, duplicating, archiving, restoring,
+ * and deleting projects.
  */
 
 "use client";
@@ -11,10 +12,14 @@ import { useState } from "react";
 import Image from "next/image";
 import { formatDistanceToNow } from "date-fns";
 import {
+  Archive,
+  ArchiveRestore,
+  Copy,
   MoreVertical,
   Edit2,
   Trash2,
   Image as ImageIcon,
+  MessageSquare,
   Video,
 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
@@ -40,6 +45,7 @@ import { showError, showErrorFromException, showSuccess } from "@/lib/toast";
 import type { ProjectMetadata } from "@/types/project";
 import { useProjects } from "@/hooks/useProjects";
 import type { Id } from "../../../convex/_generated/dataModel";
+import { DeleteProjectDialog } from "./delete-project-dialog";
 
 /**
  * Props for ProjectCard component.
@@ -63,6 +69,7 @@ interface ProjectCardProps {
  * - Displays relative time since last save ("2 hours ago")
  * - Shows counts of images and videos in the project
  * - Rename and delete actions show confirmation dialogs
+ * - Archived projects offer Restore instead of Archive
  *
  * @example
  * ```tsx
@@ -73,7 +80,9 @@ interface ProjectCardProps {
  * ```
  */
 export function ProjectCard({ project, onOpen }: ProjectCardProps) {
-  const { renameProject } = useProjects();
+  const { archiveProject, duplicateProject, renameProject, restoreProject } =
+    useProjects();
+  const isArchived = project.archivedAt !== undefined;
 
   // State for rename dialog
   const [isRenaming, setIsRenaming] = useState(false);
@@ -114,6 +123,44 @@ export function ProjectCard({ project, onOpen }: ProjectCardProps) {
     }
   };
 
+  /**
+   * Handles project duplication.
+   */
+  const handleDuplicate = async () => {
+    try {
+      await duplicateProject(project.id as Id<"projects">);
+
+      showSuccess("Project duplicated", `Created a copy of "${project.name}"`);
+    } catch (error) {
+      showErrorFromException(
+        "Duplicate failed",
+        error,
+        "Failed to duplicate project",
+      );
+    }
+  };
+
+  /**
+   * Handles archiving or restoring depending on the current state.
+   */
+  const handleToggleArchive = async () => {
+    try {
+      if (isArchived) {
+        await restoreProject(project.id as Id<"projects">);
+        showSuccess("Project restored", `"${project.name}" is active again`);
+      } else {
+        await archiveProject(project.id as Id<"projects">);
+        showSuccess("Project archived", `"${project.name}" was archived`);
+      }
+    } catch (error) {
+      showErrorFromException(
+        isArchived ? "Restore failed" : "Archive failed",
+        error,
+        isArchived ? "Failed to restore project" : "Failed to archive project",
+      );
+    }
+  };
+
   /**
    * Formats the last saved timestamp.
    */
@@ -177,6 +224,15 @@ export function ProjectCard({ project, onOpen }: ProjectCardProps) {
                     {project.videoCount}
                   </span>
                 )}
+                {project.unresolvedCommentCount > 0 && (
+                  <span
+                    className="flex items-center gap-1 text-amber-500"
+                    title="Open comments"
+                  >
+                    <MessageSquare className="h-3 w-3" />
+                    {project.unresolvedCommentCount}
+                  </span>
+                )}
                 {project.imageCount === 0 && project.videoCount === 0 && (
                   <span className="text-content-muted">Empty project</span>
                 )}
@@ -201,6 +257,18 @@ export function ProjectCard({ project, onOpen }: ProjectCardProps) {
                   <Edit2 className="mr-2 h-4 w-4" />
                   Rename
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={handleDuplicate}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Duplicate
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={handleToggleArchive}>
+                  {isArchived ? (
+                    <ArchiveRestore className="mr-2 h-4 w-4" />
+                  ) : (
+                    <Archive className="mr-2 h-4 w-4" />
+                  )}
+                  {isArchived ? "Restore" : "Archive"}
+                </DropdownMenuItem>
                 <DropdownMenuSeparator />
                 <DropdownMenuItem
                   onClick={() => setIsDeleting(true)}
@@ -255,23 +323,12 @@ export function ProjectCard({ project, onOpen }: ProjectCardProps) {
       </Dialog>
 
       {/* Delete Confirmation Dialog */}
-      <Dialog open={isDeleting} onOpenChange={setIsDeleting}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Delete Project</DialogTitle>
-            <DialogDescription>
-              Are you sure you want to delete &quot;{project.name}&quot;? This
-              action cannot be undone.
-            </DialogDescription>
-          </DialogHeader>
-
-          <DialogFooter>
-            <Button variant="ghost" onClick={() => setIsDeleting(false)}>
-              Cancel
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <DeleteProjectDialog
+        open={isDeleting}
+        onClose={() => setIsDeleting(false)}
+        projectId={project.id}
+        projectName={project.name}
+      />
     </>
   );
 }
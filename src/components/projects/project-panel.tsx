@@ -3,17 +3,38 @@
  *
  * Collapsible sidebar that displays the project list.
  * Supports keyboard shortcut (Cmd/Ctrl+P) when external toggle handler is provided.
+ * Right-clicking a project offers share links, version history, duplicate,
+ * archive/restore, and delete actions.
  */
 
 "use client";
 
 import { Loader } from "@/components/ai-elements/loader";
 import { Button } from "@/components/ui/button";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
 import { useProjects } from "@/hooks/useProjects";
+import { showErrorFromException, showSuccess } from "@/lib/toast";
 import { cn } from "@/lib/utils";
-import { Plus } from "lucide-react";
-import { useEffect, useMemo } from "react";
+import {
+  Archive,
+  ArchiveRestore,
+  Copy,
+  History,
+  Plus,
+  Share2,
+  Trash2
+} from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
 import type { Id } from "../../../convex/_generated/dataModel";
+import { DeleteProjectDialog } from "./delete-project-dialog";
+import { ProjectVersionsDialog } from "./project-versions-dialog";
+import { ShareProjectDialog } from "./share-project-dialog";
 
 /**
  * Props for ProjectPanel component.
@@ -45,6 +66,7 @@ interface ProjectPanelProps {
  * - Smooth slide-in/out animation
  * - Overlay on mobile (< 768px)
  * - Fixed sidebar on desktop (>= 768px)
+ * - Archive toggle switches the list between active and archived projects
  *
  * @example
  * ```tsx
@@ -62,15 +84,46 @@ export function ProjectPanel({
   isOpen = false,
   onOpenProject,
 }: ProjectPanelProps) {
-  const { projects, isLoading, createProject } = useProjects();
+  const {
+    archiveProject,
+    archivedProjects,
+    createProject,
+    duplicateProject,
+    isLoading,
+    projects,
+    restoreProject,
+  } = useProjects();
+
+  const [showArchived, setShowArchived] = useState(false);
+  const [projectToDelete, setProjectToDelete] = useState<{
+    id: Id<"projects">;
+    name: string;
+  } | null>(null);
+  const [projectForVersions, setProjectForVersions] = useState<{
+    id: Id<"projects">;
+    name: string;
+  } | null>(null);
+  const [projectToShare, setProjectToShare] = useState<{
+    id: Id<"projects">;
+    name: string;
+  } | null>(null);
+
+  const visibleProjects = showArchived ? archivedProjects : projects;
 
   const projectNumbers = useMemo(
-    (): { id: Id<"projects">; label: string }[] =>
-      projects.map((project, index) => ({
+    (): {
+      id: Id<"projects">;
+      label: string;
+      name: string;
+      openComments: number;
+    }[] =>
+      visibleProjects.map((project, index) => ({
         id: project.id as Id<"projects">,
         label: `${(index + 1).toString().padStart(2, "0")}`,
+        name: project.name,
+        openComments: project.unresolvedCommentCount,
       })),
-    [projects]
+    [visibleProjects]
   );
 
   /**
@@ -106,11 +159,67 @@ export function ProjectPanel({
 
   /**
    * Handles opening a project.
+   *
+   * Archived projects are restored first so they reappear in the active list.
    */
   const handleOpenProject = async (projectId: Id<"projects">) => {
+    if (showArchived) {
+      await handleRestoreProject(projectId);
+      setShowArchived(false);
+    }
     await onOpenProject?.(projectId);
   };
 
+  /**
+   * Handles duplicating a project and opening the copy.
+   */
+  const handleDuplicateProject = async (projectId: Id<"projects">) => {
+    try {
+      const newProjectId = await duplicateProject(projectId);
+      showSuccess("Project duplicated");
+      setShowArchived(false);
+      await onOpenProject?.(newProjectId);
+    } catch (error) {
+      showErrorFromException(
+        "Duplicate failed",
+        error,
+        "Failed to duplicate project"
+      );
+    }
+  };
+
+  /**
+   * Handles archiving a project.
+   */
+  const handleArchiveProject = async (projectId: Id<"projects">) => {
+    try {
+      await archiveProject(projectId);
+      showSuccess("Project archived");
+    } catch (error) {
+      showErrorFromException(
+        "Archive failed",
+        error,
+        "Failed to archive project"
+      );
+    }
+  };
+
+  /**
+   * Handles restoring an archived project.
+   */
+  const handleRestoreProject = async (projectId: Id<"projects">) => {
+    try {
+      await restoreProject(projectId);
+      showSuccess("Project restored");
+    } catch (error) {
+      showErrorFromException(
+        "Restore failed",
+        error,
+        "Failed to restore project"
+      );
+    }
+  };
+
   return (
     <aside>
       {/* Sidebar Panel */}
@@ -141,38 +250,95 @@ export function ProjectPanel({
 
               {/* Always show projects once loaded */}
               {projectNumbers.length > 0 &&
-                projectNumbers.map(({ id, label }) => {
+                projectNumbers.map(({ id, label, name, openComments }) => {
                   const isSelected = currentProjectId === id;
                   const isLoadingThisProject = isLoading && isSelected;
                   return (
-                    <button
-                      key={id}
-                      onClick={() => handleOpenProject(id)}
-                      className={cn(
-                        "group flex h-11 w-11 items-center justify-center rounded-full border",
-                        "bg-card/85 text-xs text-foreground",
-                        "transition-all duration-200",
-                        isSelected
-                          ? "border-transparent bg-secondary text-secondary-foreground shadow-none opacity-100"
-                          : "border-border/45 hover:border-border/30 hover:bg-card/90 opacity-50 hover:opacity-100"
-                      )}
-                      disabled={isLoadingThisProject}
-                    >
-                      {isLoadingThisProject ? (
-                        <Loader size={16} className="text-primary" />
-                      ) : (
-                        <span
+                    <ContextMenu key={id}>
+                      <ContextMenuTrigger asChild>
+                        <button
+                          onClick={() => handleOpenProject(id)}
                           className={cn(
-                            "text-sm font-mono transition",
+                            "group relative flex h-11 w-11 items-center justify-center rounded-full border",
+                            "bg-card/85 text-xs text-foreground",
+                            "transition-all duration-200",
                             isSelected
-                              ? "text-foreground"
-                              : "text-muted-foreground group-hover:text-foreground"
+                              ? "border-transparent bg-secondary text-secondary-foreground shadow-none opacity-100"
+                              : "border-border/45 hover:border-border/30 hover:bg-card/90 opacity-50 hover:opacity-100",
+                            showArchived && "border-dashed"
                           )}
+                          disabled={isLoadingThisProject}
+                          title={
+                            openComments > 0
+                              ? `${name} (${openComments} open comments)`
+                              : name
+                          }
+                        >
+                          {isLoadingThisProject ? (
+                            <Loader size={16} className="text-primary" />
+                          ) : (
+                            <span
+                              className={cn(
+                                "text-sm font-mono transition",
+                                isSelected
+                                  ? "text-foreground"
+                                  : "text-muted-foreground group-hover:text-foreground"
+                              )}
+                            >
+                              {label}
+                            </span>
+                          )}
+                          {openComments > 0 && (
+                            <span className="absolute -right-1 -top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-amber-500 px-1 text-[10px] font-medium text-white">
+                              {openComments > 99 ? "99+" : openComments}
+                            </span>
+                          )}
+                        </button>
+                      </ContextMenuTrigger>
+                      <ContextMenuContent>
+                        <ContextMenuItem
+                          onClick={() => setProjectToShare({ id, name })}
+                        >
+                          <Share2 className="mr-2 h-4 w-4" />
+                          Share
+                        </ContextMenuItem>
+                        <ContextMenuItem
+                          onClick={() => setProjectForVersions({ id, name })}
                         >
-                          {label}
-                        </span>
-                      )}
-                    </button>
+                          <History className="mr-2 h-4 w-4" />
+                          Version History
+                        </ContextMenuItem>
+                        <ContextMenuItem
+                          onClick={() => handleDuplicateProject(id)}
+                        >
+                          <Copy className="mr-2 h-4 w-4" />
+                          Duplicate
+                        </ContextMenuItem>
+                        {showArchived ? (
+                          <ContextMenuItem
+                            onClick={() => handleRestoreProject(id)}
+                          >
+                            <ArchiveRestore className="mr-2 h-4 w-4" />
+                            Restore
+                          </ContextMenuItem>
+                        ) : (
+                          <ContextMenuItem
+                            onClick={() => handleArchiveProject(id)}
+                          >
+                            <Archive className="mr-2 h-4 w-4" />
+                            Archive
+                          </ContextMenuItem>
+                        )}
+                        <ContextMenuSeparator />
+                        <ContextMenuItem
+                          onClick={() => setProjectToDelete({ id, name })}
+                          className="text-destructive focus:text-destructive"
+                        >
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Delete
+                        </ContextMenuItem>
+                      </ContextMenuContent>
+                    </ContextMenu>
                   );
                 })}
 
@@ -189,10 +355,62 @@ export function ProjectPanel({
                 <Plus className="h-5 w-5" />
                 <span className="sr-only">New project</span>
               </Button>
+
+              {(showArchived || archivedProjects.length > 0) && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setShowArchived((prev) => !prev)}
+                  title={
+                    showArchived ? "Show active projects" : "Show archived projects"
+                  }
+                  customVariant={cn(
+                    "h-11 w-11 rounded-full border",
+                    "bg-card/88 text-foreground transition",
+                    showArchived
+                      ? "border-transparent bg-secondary"
+                      : "border-border/45 opacity-50 hover:border-border/30 hover:bg-card/95 hover:opacity-100"
+                  )}
+                >
+                  <Archive className="h-5 w-5" />
+                  <span className="sr-only">
+                    {showArchived
+                      ? "Show active projects"
+                      : "Show archived projects"}
+                  </span>
+                </Button>
+              )}
             </div>
           </div>
         </div>
       </div>
+
+      {projectToDelete && (
+        <DeleteProjectDialog
+          open
+          onClose={() => setProjectToDelete(null)}
+          projectId={projectToDelete.id}
+          projectName={projectToDelete.name}
+        />
+      )}
+
+      {projectForVersions && (
+        <ProjectVersionsDialog
+          open
+          onClose={() => setProjectForVersions(null)}
+          projectId={projectForVersions.id}
+          projectName={projectForVersions.name}
+        />
+      )}
+
+      {projectToShare && (
+        <ShareProjectDialog
+          open
+          onClose={() => setProjectToShare(null)}
+          projectId={projectToShare.id}
+          projectName={projectToShare.name}
+        />
+      )}
     </aside>
   );
 }
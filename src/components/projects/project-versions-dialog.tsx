@@ -0,0 +1,271 @@
+/**
+ * Project version history dialog.
+ *
+ * Lists saved snapshots of a project's canvas, lets the user save a named
+ * version, compare a version with the current canvas, and restore it.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useProjectVersions } from "@/hooks/useProjectVersions";
+import { showErrorFromException, showSuccess } from "@/lib/toast";
+import type { Id } from "../../../convex/_generated/dataModel";
+
+/**
+ * Display names for snapshots without a user-provided label.
+ */
+const KIND_LABELS = {
+  auto: "Autosave",
+  manual: "Saved version",
+  restore: "Before restore",
+} as const;
+
+/**
+ * Props for ProjectVersionsDialog component.
+ */
+interface ProjectVersionsDialogProps {
+  /** Callback when dialog is closed */
+  onClose: () => void;
+
+  /** Whether the dialog is open */
+  open: boolean;
+
+  /** ID of the project whose versions are shown */
+  projectId: string;
+
+  /** Display name of the project */
+  projectName: string;
+}
+
+/**
+ * Summary of changes between a version and the current canvas.
+ */
+interface VersionDiffSummary {
+  added: number;
+  modified: number;
+  removed: number;
+}
+
+/**
+ * Formats a version comparison for display.
+ */
+function formatDiff({ added, modified, removed }: VersionDiffSummary) {
+  if (added + modified + removed === 0) {
+    return "No changes since this version";
+  }
+
+  return `Since this version: ${added} added, ${removed} removed, ${modified} changed`;
+}
+
+/**
+ * Project version history dialog component.
+ *
+ * @remarks
+ * - Versions are listed newest first; older snapshots are pruned per plan
+ * - Restoring first snapshots the current canvas, so a restore can itself
+ *   be undone from this list
+ * - Prevents closing while a restore is in flight
+ */
+export function ProjectVersionsDialog({
+  onClose,
+  open,
+  projectId,
+  projectName,
+}: ProjectVersionsDialogProps) {
+  const {
+    createVersion,
+    getVersionDiff,
+    isLoading,
+    limit,
+    restoreVersion,
+    versions,
+  } = useProjectVersions(open ? (projectId as Id<"projects">) : null);
+
+  const [versionLabel, setVersionLabel] = useState("");
+  const [isSavingVersion, setIsSavingVersion] = useState(false);
+  const [restoringVersionId, setRestoringVersionId] = useState<string | null>(
+    null,
+  );
+  const [diffs, setDiffs] = useState<Record<string, VersionDiffSummary>>({});
+
+  /**
+   * Handles saving a named version of the current canvas.
+   */
+  const handleSaveVersion = async () => {
+    try {
+      setIsSavingVersion(true);
+      await createVersion(versionLabel.trim() || undefined);
+      setVersionLabel("");
+      showSuccess("Version saved");
+    } catch (error) {
+      showErrorFromException("Save failed", error, "Failed to save version");
+    } finally {
+      setIsSavingVersion(false);
+    }
+  };
+
+  /**
+   * Handles comparing a version with the current canvas.
+   */
+  const handleCompare = async (versionId: Id<"projectVersions">) => {
+    try {
+      const diff = await getVersionDiff(versionId);
+      setDiffs((prev) => ({
+        ...prev,
+        [versionId]: {
+          added: diff.added.length,
+          modified: diff.modified.length,
+          removed: diff.removed.length,
+        },
+      }));
+    } catch (error) {
+      showErrorFromException(
+        "Compare failed",
+        error,
+        "Failed to compare version",
+      );
+    }
+  };
+
+  /**
+   * Handles restoring a version.
+   */
+  const handleRestore = async (versionId: Id<"projectVersions">) => {
+    try {
+      setRestoringVersionId(versionId);
+      await restoreVersion(versionId);
+      setDiffs({});
+      showSuccess("Version restored", `"${projectName}" was restored`);
+    } catch (error) {
+      showErrorFromException(
+        "Restore failed",
+        error,
+        "Failed to restore version",
+      );
+    } finally {
+      setRestoringVersionId(null);
+    }
+  };
+
+  /**
+   * Handles dialog close.
+   */
+  const handleClose = () => {
+    if (restoringVersionId) return; // Prevent close during restore
+
+    setDiffs({});
+    setVersionLabel("");
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>
+            Snapshots of &quot;{projectName}&quot;.
+            {limit > 0 && ` The latest ${limit} versions are kept.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Input
+            disabled={isSavingVersion}
+            maxLength={100}
+            onChange={(e) => setVersionLabel(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                void handleSaveVersion();
+              }
+            }}
+            placeholder="Version name (optional)"
+            value={versionLabel}
+          />
+          <Button
+            disabled={isSavingVersion}
+            onClick={handleSaveVersion}
+            variant="secondary"
+          >
+            {isSavingVersion ? "Saving..." : "Save version"}
+          </Button>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto">
+          {isLoading && (
+            <p className="py-4 text-center text-sm text-muted-foreground">
+              Loading versions...
+            </p>
+          )}
+
+          {!isLoading && versions.length === 0 && (
+            <p className="py-4 text-center text-sm text-muted-foreground">
+              No versions yet. Versions are saved automatically as you work.
+            </p>
+          )}
+
+          <ul className="flex flex-col gap-1">
+            {versions.map((version) => (
+              <li
+                className="flex flex-col gap-1 rounded border border-border px-3 py-2"
+                key={version._id}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">
+                      {version.label ?? KIND_LABELS[version.kind]}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(version.createdAt, {
+                        addSuffix: true,
+                      })}{" "}
+                      · {version.imageCount} images · {version.videoCount}{" "}
+                      videos
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <Button
+                      disabled={!!restoringVersionId}
+                      onClick={() => handleCompare(version._id)}
+                      size="xs"
+                      variant="ghost"
+                    >
+                      Compare
+                    </Button>
+                    <Button
+                      disabled={!!restoringVersionId}
+                      onClick={() => handleRestore(version._id)}
+                      size="xs"
+                      variant="secondary"
+                    >
+                      {restoringVersionId === version._id
+                        ? "Restoring..."
+                        : "Restore"}
+                    </Button>
+                  </div>
+                </div>
+                {diffs[version._id] && (
+                  <p className="text-xs text-muted-foreground">
+                    {formatDiff(diffs[version._id])}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
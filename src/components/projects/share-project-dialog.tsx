@@ -0,0 +1,243 @@
+/**
+ * Project share links dialog.
+ *
+ * Creates read-only links to a project for people without an account,
+ * lists existing links, and revokes them.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getShareUrl, useProjectShares } from "@/hooks/useProjectShares";
+import { showErrorFromException, showSuccess } from "@/lib/toast";
+import type { Id } from "../../../convex/_generated/dataModel";
+
+/**
+ * Link lifetimes offered when creating a link, in days ("never" for none).
+ */
+const EXPIRY_OPTIONS = [
+  { label: "Never expires", value: "never" },
+  { label: "Expires in 1 day", value: "1" },
+  { label: "Expires in 7 days", value: "7" },
+  { label: "Expires in 30 days", value: "30" },
+] as const;
+
+type ExpiryOption = (typeof EXPIRY_OPTIONS)[number]["value"];
+
+/**
+ * Props for ShareProjectDialog component.
+ */
+interface ShareProjectDialogProps {
+  /** Callback when dialog is closed */
+  onClose: () => void;
+
+  /** Whether the dialog is open */
+  open: boolean;
+
+  /** ID of the project to share */
+  projectId: string;
+
+  /** Display name of the project */
+  projectName: string;
+}
+
+/**
+ * Copies a share link to the clipboard.
+ */
+async function copyShareUrl(token: string) {
+  try {
+    await navigator.clipboard.writeText(getShareUrl(token));
+    showSuccess("Share link copied");
+  } catch (error) {
+    showErrorFromException("Could not copy share link", error);
+  }
+}
+
+/**
+ * Describes the state of a share link.
+ */
+function formatShareStatus(share: {
+  expiresAt?: number;
+  isActive: boolean;
+  revokedAt?: number;
+}) {
+  if (share.revokedAt !== undefined) {
+    return `Revoked ${formatDistanceToNow(share.revokedAt, { addSuffix: true })}`;
+  }
+
+  if (share.expiresAt === undefined) {
+    return "Never expires";
+  }
+
+  return share.isActive
+    ? `Expires ${format(share.expiresAt, "MMM d, yyyy")}`
+    : `Expired ${formatDistanceToNow(share.expiresAt, { addSuffix: true })}`;
+}
+
+/**
+ * Project share links dialog component.
+ *
+ * @remarks
+ * - Links show the last saved canvas, view only, with pan and zoom
+ * - New links are copied to the clipboard right away
+ * - Revoked links stop working immediately, including for media
+ */
+export function ShareProjectDialog({
+  onClose,
+  open,
+  projectId,
+  projectName,
+}: ShareProjectDialogProps) {
+  const { createShare, isLoading, revokeShare, shares } = useProjectShares(
+    open ? (projectId as Id<"projects">) : null,
+  );
+
+  const [expiry, setExpiry] = useState<ExpiryOption>("7");
+  const [isCreating, setIsCreating] = useState(false);
+
+  /**
+   * Handles creating a link with the selected expiry.
+   */
+  const handleCreate = async () => {
+    try {
+      setIsCreating(true);
+      const token = await createShare(
+        expiry === "never" ? undefined : Number(expiry),
+      );
+      await copyShareUrl(token);
+    } catch (error) {
+      showErrorFromException(
+        "Share failed",
+        error,
+        "Failed to create share link",
+      );
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  /**
+   * Handles revoking a link.
+   */
+  const handleRevoke = async (shareId: Id<"projectShares">) => {
+    try {
+      await revokeShare(shareId);
+      showSuccess("Share link revoked");
+    } catch (error) {
+      showErrorFromException(
+        "Revoke failed",
+        error,
+        "Failed to revoke share link",
+      );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Share Project</DialogTitle>
+          <DialogDescription>
+            Anyone with a link can view &quot;{projectName}&quot; without an
+            account. They cannot edit or generate.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Select
+            onValueChange={(value) => setExpiry(value as ExpiryOption)}
+            value={expiry}
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            disabled={isCreating}
+            onClick={handleCreate}
+            variant="secondary"
+          >
+            {isCreating ? "Creating..." : "Create link"}
+          </Button>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto">
+          {isLoading && (
+            <p className="py-4 text-center text-sm text-muted-foreground">
+              Loading share links...
+            </p>
+          )}
+
+          {!isLoading && shares.length === 0 && (
+            <p className="py-4 text-center text-sm text-muted-foreground">
+              No share links yet.
+            </p>
+          )}
+
+          <ul className="flex flex-col gap-1">
+            {shares.map((share) => (
+              <li
+                className="flex items-center justify-between gap-2 rounded border border-border px-3 py-2"
+                key={share._id}
+              >
+                <div className="min-w-0">
+                  <p className="truncate font-mono text-xs">
+                    /share/{share.token}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Created{" "}
+                    {formatDistanceToNow(share.createdAt, { addSuffix: true })}{" "}
+                    · {formatShareStatus(share)}
+                  </p>
+                </div>
+                {share.isActive && (
+                  <div className="flex shrink-0 items-center gap-1">
+                    <Button
+                      onClick={() => copyShareUrl(share.token)}
+                      size="xs"
+                      title="Copy link"
+                      variant="ghost"
+                    >
+                      <Copy />
+                    </Button>
+                    <Button
+                      onClick={() => handleRevoke(share._id)}
+                      size="xs"
+                      variant="ghost"
+                    >
+                      Revoke
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,414 @@
+/**
+ * Read-only canvas viewer for share links.
+ *
+ * Renders a project's saved canvas state with pan and zoom only: no
+ * selection, editing or generation. Media is loaded through the storage
+ * proxy scoped to the share token.
+ */
+
+"use client";
+
+import { AnnotationShape } from "@/components/canvas/CanvasAnnotation";
+import { FRAME_DEFAULTS } from "@/constants/canvas";
+import {
+  getCollapsedMemberIds,
+  getFrameBounds,
+} from "@/lib/handlers/frame-handlers";
+import { separateElements } from "@/lib/sync/element-converter";
+import type {
+  PlacedAnnotation,
+  PlacedFrame,
+  PlacedImage,
+  PlacedVideo,
+} from "@/types/canvas";
+import type { CanvasState } from "@/types/project";
+import {
+  calculateRotatedBoundingBox,
+  getRectanglesUnion,
+} from "@/utils/transform-utils";
+import Konva from "konva";
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Group,
+  Image as KonvaImage,
+  Layer,
+  Rect,
+  Stage,
+  Text,
+} from "react-konva";
+import useImage from "use-image";
+
+/**
+ * Zoom limits, matching the editor.
+ */
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 5;
+
+/**
+ * Space kept around the content when fitting it to the screen.
+ */
+const FIT_PADDING = 48;
+
+interface Viewport {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Builds the proxy URL for an asset on a shared canvas.
+ *
+ * @param token - Share link token
+ * @param assetId - Asset ID of the element
+ */
+function getSharedAssetUrl(token: string, assetId: string) {
+  const params = new URLSearchParams({ assetId, shareToken: token });
+  return `/api/storage/proxy?${params.toString()}`;
+}
+
+/**
+ * Computes a viewport that fits all content in the given screen size.
+ *
+ * @returns The fitted viewport, or null when the canvas is empty
+ */
+function fitViewport(
+  elements: Pick<PlacedImage, "height" | "rotation" | "width" | "x" | "y">[],
+  size: { height: number; width: number },
+): Viewport | null {
+  const content = getRectanglesUnion(elements.map(calculateRotatedBoundingBox));
+  if (!content || content.width === 0 || content.height === 0) return null;
+
+  const scale = Math.max(
+    MIN_SCALE,
+    Math.min(
+      1,
+      (size.width - FIT_PADDING * 2) / content.width,
+      (size.height - FIT_PADDING * 2) / content.height,
+    ),
+  );
+
+  return {
+    scale,
+    x: size.width / 2 - (content.x + content.width / 2) * scale,
+    y: size.height / 2 - (content.y + content.height / 2) * scale,
+  };
+}
+
+/**
+ * Shared image, loaded full size through the share proxy.
+ */
+function SharedImage({ image }: { image: PlacedImage }) {
+  const [element] = useImage(image.src, "anonymous");
+
+  return (
+    <KonvaImage
+      height={image.height}
+      image={element}
+      listening={false}
+      rotation={image.rotation}
+      width={image.width}
+      x={image.x}
+      y={image.y}
+    />
+  );
+}
+
+/**
+ * Shared video, played muted and looped. Clicking toggles playback.
+ */
+function SharedVideo({ video }: { video: PlacedVideo }) {
+  const imageRef = useRef<Konva.Image>(null);
+  const [element, setElement] = useState<HTMLVideoElement | null>(null);
+
+  useEffect(() => {
+    const videoElement = document.createElement("video");
+    videoElement.crossOrigin = "anonymous";
+    videoElement.loop = true;
+    videoElement.muted = true;
+    videoElement.playsInline = true;
+    videoElement.src = video.src;
+
+    const handleLoaded = () => {
+      setElement(videoElement);
+      void videoElement.play().catch(() => {
+        // Autoplay can be blocked; the first frame stays visible
+      });
+    };
+
+    videoElement.addEventListener("loadeddata", handleLoaded);
+
+    return () => {
+      videoElement.removeEventListener("loadeddata", handleLoaded);
+      videoElement.pause();
+      videoElement.removeAttribute("src");
+      videoElement.load();
+    };
+  }, [video.src]);
+
+  // Redraw the layer every frame so the video plays on the canvas
+  useEffect(() => {
+    const layer = imageRef.current?.getLayer();
+    if (!element || !layer) return;
+
+    const animation = new Konva.Animation(() => {}, layer);
+    animation.start();
+
+    return () => {
+      animation.stop();
+    };
+  }, [element]);
+
+  const handleToggle = () => {
+    if (!element) return;
+
+    if (element.paused) {
+      void element.play().catch(() => {});
+    } else {
+      element.pause();
+    }
+  };
+
+  return (
+    <KonvaImage
+      height={video.height}
+      image={element ?? undefined}
+      onClick={handleToggle}
+      onTap={handleToggle}
+      ref={imageRef}
+      rotation={video.rotation}
+      width={video.width}
+      x={video.x}
+      y={video.y}
+    />
+  );
+}
+
+/**
+ * Shared text label or shape.
+ */
+function SharedAnnotation({ annotation }: { annotation: PlacedAnnotation }) {
+  const textRef = useRef<Konva.Text>(null);
+
+  return (
+    <Group
+      listening={false}
+      rotation={annotation.rotation}
+      x={annotation.x}
+      y={annotation.y}
+    >
+      <AnnotationShape
+        annotation={annotation}
+        isEditing={false}
+        textRef={textRef}
+      />
+    </Group>
+  );
+}
+
+/**
+ * Shared frame: the artboard behind its members and its title.
+ */
+function SharedFrame({
+  frame,
+  members,
+}: {
+  frame: PlacedFrame;
+  members: (PlacedImage | PlacedVideo)[];
+}) {
+  const bounds = getFrameBounds(frame.id, members);
+  if (!bounds) return null;
+
+  const height = frame.isCollapsed
+    ? FRAME_DEFAULTS.TITLE_HEIGHT
+    : bounds.height;
+
+  return (
+    <Group listening={false} x={bounds.x} y={bounds.y}>
+      <Rect
+        cornerRadius={FRAME_DEFAULTS.CORNER_RADIUS}
+        fill={FRAME_DEFAULTS.FILL}
+        height={height}
+        stroke={FRAME_DEFAULTS.BORDER_COLOR}
+        strokeWidth={1}
+        width={bounds.width}
+      />
+      <Text
+        ellipsis
+        fill={FRAME_DEFAULTS.TITLE_COLOR}
+        fontSize={FRAME_DEFAULTS.FONT_SIZE}
+        height={FRAME_DEFAULTS.TITLE_HEIGHT}
+        padding={8}
+        text={frame.title}
+        verticalAlign="middle"
+        width={bounds.width}
+        wrap="none"
+      />
+    </Group>
+  );
+}
+
+interface SharedCanvasViewerProps {
+  /** Saved canvas state of the shared project */
+  canvasState: CanvasState;
+
+  /** Share link token used to load media */
+  token: string;
+}
+
+/**
+ * Read-only canvas viewer.
+ *
+ * @remarks
+ * - Drag to pan, scroll to pan, Ctrl/pinch + scroll to zoom
+ * - Opens fitted to the content rather than the editor's last viewport
+ * - Members of collapsed frames stay hidden, as in the editor
+ *
+ * @example
+ * ```tsx
+ * <SharedCanvasViewer canvasState={project.canvasState} token={token} />
+ * ```
+ */
+export function SharedCanvasViewer({
+  canvasState,
+  token,
+}: SharedCanvasViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ height: 0, width: 0 });
+  const [viewport, setViewport] = useState<Viewport | null>(null);
+
+  const { annotations, frames, images, videos } = useMemo(() => {
+    const assetUrls = new Map<string, string>();
+    for (const element of canvasState.elements) {
+      if (element.assetId) {
+        assetUrls.set(
+          element.assetId,
+          getSharedAssetUrl(token, element.assetId),
+        );
+      }
+    }
+
+    return separateElements(canvasState.elements, assetUrls);
+  }, [canvasState.elements, token]);
+
+  const hiddenIds = useMemo(
+    () => getCollapsedMemberIds(frames, [...images, ...videos]),
+    [frames, images, videos],
+  );
+
+  // Track the container size so the stage fills it
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({
+        height: entry.contentRect.height,
+        width: entry.contentRect.width,
+      });
+    });
+    observer.observe(container);
+
+    return () => observer.disconnect();
+  }, []);
+
+  // Fit the content once the stage has a size
+  const fittedViewport = useMemo(
+    () =>
+      size.width > 0
+        ? (fitViewport([...images, ...videos, ...annotations], size) ??
+          canvasState.viewport ?? { scale: 1, x: 0, y: 0 })
+        : null,
+    [annotations, canvasState.viewport, images, size, videos],
+  );
+
+  const currentViewport = viewport ?? fittedViewport;
+
+  const handleWheel = (e: Konva.KonvaEventObject<WheelEvent>) => {
+    e.evt.preventDefault();
+    if (!currentViewport) return;
+
+    if (e.evt.ctrlKey) {
+      const pointer = e.target.getStage()?.getPointerPosition();
+      if (!pointer) return;
+
+      // Same zoom speed as the editor
+      const factor = Math.pow(1.01, Math.min(Math.abs(e.evt.deltaY), 10));
+      const scale = Math.max(
+        MIN_SCALE,
+        Math.min(
+          MAX_SCALE,
+          e.evt.deltaY > 0
+            ? currentViewport.scale / factor
+            : currentViewport.scale * factor,
+        ),
+      );
+      const ratio = scale / currentViewport.scale;
+
+      setViewport({
+        scale,
+        x: pointer.x - (pointer.x - currentViewport.x) * ratio,
+        y: pointer.y - (pointer.y - currentViewport.y) * ratio,
+      });
+    } else {
+      const deltaX = e.evt.shiftKey ? e.evt.deltaY : e.evt.deltaX;
+      const deltaY = e.evt.shiftKey ? 0 : e.evt.deltaY;
+
+      setViewport({
+        ...currentViewport,
+        x: currentViewport.x - deltaX,
+        y: currentViewport.y - deltaY,
+      });
+    }
+  };
+
+  const handleDragEnd = (e: Konva.KonvaEventObject<DragEvent>) => {
+    if (!currentViewport || e.target !== e.target.getStage()) return;
+
+    setViewport({ ...currentViewport, x: e.target.x(), y: e.target.y() });
+  };
+
+  return (
+    <div
+      className="h-full w-full"
+      ref={containerRef}
+      style={{ backgroundColor: canvasState.backgroundColor }}
+    >
+      {currentViewport && (
+        <Stage
+          draggable
+          height={size.height}
+          onDragEnd={handleDragEnd}
+          onWheel={handleWheel}
+          scaleX={currentViewport.scale}
+          scaleY={currentViewport.scale}
+          width={size.width}
+          x={currentViewport.x}
+          y={currentViewport.y}
+        >
+          <Layer>
+            {frames.map((frame) => (
+              <SharedFrame
+                frame={frame}
+                key={frame.id}
+                members={[...images, ...videos]}
+              />
+            ))}
+            {images
+              .filter((image) => !hiddenIds.has(image.id))
+              .map((image) => (
+                <SharedImage image={image} key={image.id} />
+              ))}
+            {videos
+              .filter((video) => !hiddenIds.has(video.id))
+              .map((video) => (
+                <SharedVideo key={video.id} video={video} />
+              ))}
+            {annotations.map((annotation) => (
+              <SharedAnnotation annotation={annotation} key={annotation.id} />
+            ))}
+          </Layer>
+        </Stage>
+      )}
+    </div>
+  );
+}
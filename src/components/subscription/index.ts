@@ -8,3 +8,4 @@ export { QuotaDisplay } from "./quota-display";
 export { UpgradeModal } from "./upgrade-modal";
 export { SubscriptionManagement } from "./subscription-management";
 export { QuotaExceededModal } from "./quota-exceeded-modal";
+export { UsageHistory } from "./usage-history";
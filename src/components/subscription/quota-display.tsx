@@ -24,6 +24,7 @@ interface QuotaDisplayProps {
  * - Videos remaining with progress bar
  * - Days until quota reset
  * - Warning state when quota > 80% used
+ * - The workspace sharing the quota, when a workspace is active
  *
  * @example
  * ```tsx
@@ -47,6 +48,7 @@ export function QuotaDisplay({
     daysUntilReset,
     isWarning,
     isLoading,
+    workspaceName,
   } = useQuota();
 
   if (isLoading) {
@@ -70,9 +72,16 @@ export function QuotaDisplay({
         <div className="space-y-4">
           {/* Header */}
           <div className="flex items-center justify-between">
-            <h3 className="text-sm font-medium text-foreground">
-              Usage This Period
-            </h3>
+            <div>
+              <h3 className="text-sm font-medium text-foreground">
+                Usage This Period
+              </h3>
+              {workspaceName && (
+                <p className="text-xs text-muted-foreground">
+                  Shared with {workspaceName}
+                </p>
+              )}
+            </div>
             {isWarning && (
               <Badge variant="destructive" className="text-xs">
                 Low
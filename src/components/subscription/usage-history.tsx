@@ -0,0 +1,292 @@
+/**
+ * Usage history component with per-day, per-model, per-variation-type and
+ * per-project breakdowns.
+ */
+
+"use client";
+
+import { useQuery } from "convex/react";
+import { useMemo, useState } from "react";
+import { api } from "../../../convex/_generated/api";
+import { useAuth } from "@/hooks/useAuth";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { UsageBreakdownRow, UsageDimension } from "@/types/usage";
+import {
+  buildUsageBreakdown,
+  downloadUsageCsv,
+  getRangeStart,
+} from "@/utils/usage-utils";
+import { Download } from "lucide-react";
+
+/**
+ * Selectable history ranges, in days.
+ */
+const RANGE_OPTIONS = [7, 30, 90] as const;
+
+type RangeDays = (typeof RANGE_OPTIONS)[number];
+
+/**
+ * Breakdown tabs shown below the daily chart.
+ */
+const BREAKDOWN_TABS: {
+  dimension: Exclude<UsageDimension, "day">;
+  label: string;
+}[] = [
+  { dimension: "model", label: "Model" },
+  { dimension: "variationType", label: "Variation type" },
+  { dimension: "project", label: "Project" },
+];
+
+interface UsageHistoryProps {
+  className?: string;
+}
+
+/**
+ * Displays the user's generations over time.
+ *
+ * Shows:
+ * - Generations per day as a stacked image/video bar chart
+ * - Totals and net credits for the selected range
+ * - Breakdowns by model, variation type and project
+ * - CSV export of every generation in the range
+ *
+ * @example
+ * ```tsx
+ * <UsageHistory />
+ * ```
+ */
+export function UsageHistory({ className }: UsageHistoryProps) {
+  const { isAuthenticated } = useAuth();
+  const [now] = useState(() => Date.now());
+  const [rangeDays, setRangeDays] = useState<RangeDays>(30);
+  const since = getRangeStart(rangeDays, now);
+
+  const history = useQuery(
+    api.usage.getUsageHistory,
+    isAuthenticated ? { since } : "skip",
+  );
+
+  const projectNames = useMemo(
+    () =>
+      new Map<string, string>(
+        (history?.projects ?? []).map((project) => [project._id, project.name]),
+      ),
+    [history],
+  );
+
+  const breakdowns = useMemo(() => {
+    if (!history) return null;
+
+    const options = { now, projectNames, since };
+    const build = (dimension: UsageDimension) =>
+      buildUsageBreakdown(
+        history.generations,
+        history.quotaEvents,
+        dimension,
+        options,
+      );
+
+    return {
+      day: build("day"),
+      model: build("model"),
+      project: build("project"),
+      variationType: build("variationType"),
+    };
+  }, [history, now, projectNames, since]);
+
+  if (!history || !breakdowns) {
+    return (
+      <Card className={cn("w-full", className)}>
+        <CardHeader>
+          <div className="h-6 w-32 animate-pulse rounded bg-muted" />
+          <div className="h-4 w-48 animate-pulse rounded bg-muted" />
+        </CardHeader>
+        <CardContent>
+          <div className="h-32 w-full animate-pulse rounded bg-muted" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const totals = breakdowns.day.reduce(
+    (sum, row) => ({
+      credits: sum.credits + (row.credits ?? 0),
+      images: sum.images + row.images,
+      videos: sum.videos + row.videos,
+    }),
+    { credits: 0, images: 0, videos: 0 },
+  );
+
+  const handleExport = () => {
+    downloadUsageCsv(history.generations, `usage-last-${rangeDays}-days.csv`);
+  };
+
+  return (
+    <Card className={cn("w-full", className)}>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-4">
+        <div>
+          <CardTitle>Usage History</CardTitle>
+          <CardDescription>
+            {totals.images} images, {totals.videos} videos, {totals.credits}{" "}
+            credits in the last {rangeDays} days
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1">
+            {RANGE_OPTIONS.map((days) => (
+              <Button
+                aria-pressed={rangeDays === days}
+                key={days}
+                onClick={() => setRangeDays(days)}
+                size="sm"
+                variant={rangeDays === days ? "secondary" : "ghost"}
+              >
+                {days}d
+              </Button>
+            ))}
+          </div>
+          <Button
+            disabled={history.generations.length === 0}
+            onClick={handleExport}
+            size="sm"
+            variant="default"
+          >
+            <Download className="h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <DailyChart rows={breakdowns.day} />
+
+        {history.truncated && (
+          <p className="text-xs text-muted-foreground">
+            Showing the most recent 5,000 records. Pick a shorter range to see
+            everything.
+          </p>
+        )}
+
+        <Tabs defaultValue="model">
+          <TabsList>
+            {BREAKDOWN_TABS.map(({ dimension, label }) => (
+              <TabsTrigger key={dimension} value={dimension}>
+                {label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {BREAKDOWN_TABS.map(({ dimension }) => (
+            <TabsContent key={dimension} value={dimension}>
+              <BreakdownTable rows={breakdowns[dimension]} />
+            </TabsContent>
+          ))}
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface DailyChartProps {
+  rows: UsageBreakdownRow[];
+}
+
+/**
+ * Stacked bar chart of images and videos generated per day.
+ */
+function DailyChart({ rows }: DailyChartProps) {
+  const max = Math.max(1, ...rows.map((row) => row.images + row.videos));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex h-32 items-end gap-px">
+        {rows.map((row) => (
+          <div
+            className="flex h-full flex-1 flex-col justify-end"
+            key={row.key}
+            title={`${row.label}: ${row.images} images, ${row.videos} videos, ${row.credits ?? 0} credits`}
+          >
+            <div
+              className="w-full bg-muted-foreground/60"
+              style={{ height: `${(row.videos / max) * 100}%` }}
+            />
+            <div
+              className="w-full bg-primary"
+              style={{ height: `${(row.images / max) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>{rows[0]?.label}</span>
+        <div className="flex items-center gap-3">
+          <span className="flex items-center gap-1">
+            <span className="h-2 w-2 rounded-sm bg-primary" />
+            Images
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-2 w-2 rounded-sm bg-muted-foreground/60" />
+            Videos
+          </span>
+        </div>
+        <span>{rows[rows.length - 1]?.label}</span>
+      </div>
+    </div>
+  );
+}
+
+interface BreakdownTableProps {
+  rows: UsageBreakdownRow[];
+}
+
+/**
+ * Table of generations and credits per value of a dimension.
+ */
+function BreakdownTable({ rows }: BreakdownTableProps) {
+  if (rows.length === 0) {
+    return (
+      <p className="py-4 text-sm text-muted-foreground">
+        No generations in this period.
+      </p>
+    );
+  }
+
+  const showCredits = rows.some((row) => row.credits !== undefined);
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b border-border/50 text-left text-muted-foreground">
+          <th className="py-2 font-normal">Name</th>
+          <th className="py-2 text-right font-normal">Images</th>
+          <th className="py-2 text-right font-normal">Videos</th>
+          {showCredits && (
+            <th className="py-2 text-right font-normal">Credits</th>
+          )}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr className="border-b border-border/50 last:border-0" key={row.key}>
+            <td className="max-w-0 truncate py-2 pr-2">{row.label}</td>
+            <td className="py-2 text-right tabular-nums">{row.images}</td>
+            <td className="py-2 text-right tabular-nums">{row.videos}</td>
+            {showCredits && (
+              <td className="py-2 text-right tabular-nums">
+                {row.credits ?? 0}
+              </td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,478 @@
+/**
+ * Workspace settings component.
+ *
+ * Creates workspaces and manages the active workspace's members, invites
+ * and team subscription.
+ */
+
+"use client";
+
+import { useMutation, useQuery } from "convex/react";
+import { useState } from "react";
+import { api } from "../../../convex/_generated/api";
+import type { Id } from "../../../convex/_generated/dataModel";
+import { useSubscription } from "@/hooks/use-subscription";
+import { useAuth } from "@/hooks/useAuth";
+import { useWorkspaces } from "@/hooks/useWorkspaces";
+import { showErrorFromException, showSuccess } from "@/lib/toast";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ASSIGNABLE_WORKSPACE_ROLES,
+  WORKSPACE_ROLE_LABELS,
+  type AssignableWorkspaceRole,
+} from "@/types/workspace";
+import { Copy, Crown, Trash2, UserMinus } from "lucide-react";
+
+interface WorkspaceSettingsProps {
+  className?: string;
+}
+
+/**
+ * Builds the link an invitee follows to accept an invite.
+ */
+function getInviteUrl(token: string) {
+  return `${window.location.origin}/invite/${token}`;
+}
+
+/**
+ * Copies an invite link to the clipboard.
+ */
+async function copyInviteUrl(token: string) {
+  try {
+    await navigator.clipboard.writeText(getInviteUrl(token));
+    showSuccess("Invite link copied");
+  } catch (error) {
+    showErrorFromException("Could not copy invite link", error);
+  }
+}
+
+/**
+ * Workspace settings for the active workspace.
+ *
+ * Displays:
+ * - A form to create a workspace
+ * - Members with their roles, editable by the owner
+ * - Pending invites with copyable links (owner only)
+ * - The team plan whose quota is pooled across members
+ *
+ * @example
+ * ```tsx
+ * <WorkspaceSettings />
+ * ```
+ */
+export function WorkspaceSettings({ className }: WorkspaceSettingsProps) {
+  const { activeWorkspace, isLoading } = useWorkspaces();
+
+  if (isLoading) {
+    return (
+      <Card className={cn("w-full", className)}>
+        <CardHeader>
+          <div className="h-6 w-32 animate-pulse rounded bg-muted" />
+          <div className="h-4 w-48 animate-pulse rounded bg-muted" />
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return (
+    <div className={cn("space-y-8", className)}>
+      {activeWorkspace ? (
+        <ActiveWorkspace workspaceId={activeWorkspace._id} />
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Personal space</CardTitle>
+            <CardDescription>
+              You are working in your personal space. Create a workspace to
+              share projects, assets and a generation quota with your team, or
+              switch to one from the user menu.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+
+      <CreateWorkspaceForm />
+    </div>
+  );
+}
+
+/**
+ * Form to create a workspace.
+ */
+function CreateWorkspaceForm() {
+  const { createWorkspace } = useWorkspaces();
+  const [name, setName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsCreating(true);
+
+    try {
+      await createWorkspace(name);
+      setName("");
+      showSuccess("Workspace created");
+    } catch (error) {
+      showErrorFromException("Could not create workspace", error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>New workspace</CardTitle>
+        <CardDescription>
+          You will be its owner and can invite editors and viewers.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form className="flex gap-2" onSubmit={handleSubmit}>
+          <Input
+            aria-label="Workspace name"
+            maxLength={100}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="Workspace name"
+            value={name}
+          />
+          <Button disabled={!name.trim() || isCreating} type="submit">
+            Create
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ActiveWorkspaceProps {
+  workspaceId: Id<"workspaces">;
+}
+
+/**
+ * Members, invites and plan of the active workspace.
+ */
+function ActiveWorkspace({ workspaceId }: ActiveWorkspaceProps) {
+  const { convexUser } = useAuth();
+  const { upgrade } = useSubscription();
+  const convexUserId = convexUser?.userId;
+  const workspace = useQuery(api.workspaces.getWorkspace, { workspaceId });
+
+  const deleteWorkspace = useMutation(api.workspaces.deleteWorkspace);
+  const removeMember = useMutation(api.workspaces.removeMember);
+  const updateMemberRole = useMutation(api.workspaces.updateMemberRole);
+
+  if (!workspace) {
+    return null;
+  }
+
+  const isOwner = workspace.role === "owner";
+
+  const handleRoleChange = async (
+    userId: string,
+    role: AssignableWorkspaceRole,
+  ) => {
+    try {
+      await updateMemberRole({ role, userId, workspaceId });
+    } catch (error) {
+      showErrorFromException("Could not change role", error);
+    }
+  };
+
+  const handleRemove = async (userId: string) => {
+    const isSelf = userId === convexUserId;
+    if (!confirm(isSelf ? "Leave this workspace?" : "Remove this member?")) {
+      return;
+    }
+
+    try {
+      await removeMember({ userId, workspaceId });
+      if (isSelf) {
+        showSuccess("You left the workspace");
+      }
+    } catch (error) {
+      showErrorFromException("Could not remove member", error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (
+      !confirm(
+        "Delete this workspace? Shared projects and assets move back to the members who created them.",
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await deleteWorkspace({ workspaceId });
+      showSuccess("Workspace deleted");
+    } catch (error) {
+      showErrorFromException("Could not delete workspace", error);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>{workspace.name}</CardTitle>
+            <CardDescription>
+              Your role: {WORKSPACE_ROLE_LABELS[workspace.role]}
+            </CardDescription>
+          </div>
+          <Badge
+            className="capitalize"
+            variant={workspace.tier === "pro" ? "default" : "secondary"}
+          >
+            {workspace.tier === "pro" && <Crown className="mr-1 h-3 w-3" />}
+            {workspace.tier}
+          </Badge>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {workspace.tier === "pro"
+              ? "Generations by every member are charged to the team's pooled Pro quota."
+              : "Generations by every member are charged to the team's pooled Free quota."}
+            {workspace.subscriptionStatus === "cancelled" &&
+              " The team subscription has been cancelled."}
+          </p>
+          {isOwner && (
+            <div className="flex flex-wrap gap-2">
+              {workspace.tier !== "pro" && (
+                <Button
+                  onClick={() => upgrade("month", workspaceId)}
+                  variant="primary"
+                >
+                  <Crown className="h-4 w-4" />
+                  Upgrade team to Pro
+                </Button>
+              )}
+              <Button onClick={handleDelete} variant="ghost">
+                <Trash2 className="h-4 w-4" />
+                Delete workspace
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Members</CardTitle>
+          <CardDescription>
+            Editors can create and change projects; viewers can only open them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ul className="divide-y divide-border/50">
+            {workspace.members.map((member) => (
+              <li
+                className="flex items-center justify-between gap-2 py-2"
+                key={member.userId}
+              >
+                <span className="truncate text-sm">
+                  {member.email ?? member.userId}
+                  {member.userId === convexUserId && (
+                    <span className="text-muted-foreground"> (you)</span>
+                  )}
+                </span>
+                <div className="flex items-center gap-2">
+                  {isOwner && member.role !== "owner" ? (
+                    <Select
+                      onValueChange={(role) =>
+                        handleRoleChange(
+                          member.userId,
+                          role as AssignableWorkspaceRole,
+                        )
+                      }
+                      value={member.role}
+                    >
+                      <SelectTrigger className="h-8 w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ASSIGNABLE_WORKSPACE_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {WORKSPACE_ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">
+                      {WORKSPACE_ROLE_LABELS[member.role]}
+                    </span>
+                  )}
+                  {member.role !== "owner" &&
+                    (isOwner || member.userId === convexUserId) && (
+                      <Button
+                        aria-label={
+                          member.userId === convexUserId
+                            ? "Leave workspace"
+                            : "Remove member"
+                        }
+                        onClick={() => handleRemove(member.userId)}
+                        size="icon-sm"
+                        variant="ghost"
+                      >
+                        <UserMinus className="h-4 w-4" />
+                      </Button>
+                    )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+
+      {isOwner && (
+        <InvitesCard invites={workspace.invites} workspaceId={workspaceId} />
+      )}
+    </>
+  );
+}
+
+interface InvitesCardProps {
+  invites: {
+    _id: Id<"workspaceInvites">;
+    email: string;
+    expiresAt: number;
+    role: AssignableWorkspaceRole;
+    token: string;
+  }[];
+  workspaceId: Id<"workspaces">;
+}
+
+/**
+ * Invite form and pending invites of a workspace.
+ */
+function InvitesCard({ invites, workspaceId }: InvitesCardProps) {
+  const inviteMember = useMutation(api.workspaces.inviteMember);
+  const revokeInvite = useMutation(api.workspaces.revokeInvite);
+
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<AssignableWorkspaceRole>("editor");
+  const [isInviting, setIsInviting] = useState(false);
+  const [now] = useState(() => Date.now());
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsInviting(true);
+
+    try {
+      const { token } = await inviteMember({ email, role, workspaceId });
+      setEmail("");
+      await copyInviteUrl(token);
+    } catch (error) {
+      showErrorFromException("Could not invite member", error);
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRevoke = async (inviteId: Id<"workspaceInvites">) => {
+    try {
+      await revokeInvite({ inviteId });
+    } catch (error) {
+      showErrorFromException("Could not revoke invite", error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Invites</CardTitle>
+        <CardDescription>
+          Send the invite link to the invited address. Links expire after 7
+          days.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form className="flex gap-2" onSubmit={handleSubmit}>
+          <Input
+            aria-label="Email address"
+            onChange={(event) => setEmail(event.target.value)}
+            placeholder="teammate@example.com"
+            type="email"
+            value={email}
+          />
+          <Select
+            onValueChange={(value) => setRole(value as AssignableWorkspaceRole)}
+            value={role}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ASSIGNABLE_WORKSPACE_ROLES.map((assignable) => (
+                <SelectItem key={assignable} value={assignable}>
+                  {WORKSPACE_ROLE_LABELS[assignable]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button disabled={!email.trim() || isInviting} type="submit">
+            Invite
+          </Button>
+        </form>
+
+        {invites.length > 0 && (
+          <ul className="divide-y divide-border/50">
+            {invites.map((invite) => (
+              <li
+                className="flex items-center justify-between gap-2 py-2"
+                key={invite._id}
+              >
+                <span className="truncate text-sm">
+                  {invite.email}
+                  <span className="text-muted-foreground">
+                    {" "}
+                    · {WORKSPACE_ROLE_LABELS[invite.role]}
+                    {invite.expiresAt < now && " · expired"}
+                  </span>
+                </span>
+                <div className="flex items-center gap-1">
+                  <Button
+                    aria-label="Copy invite link"
+                    onClick={() => copyInviteUrl(invite.token)}
+                    size="icon-sm"
+                    variant="ghost"
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    aria-label="Revoke invite"
+                    onClick={() => handleRevoke(invite._id)}
+                    size="icon-sm"
+                    variant="ghost"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -77,3 +77,32 @@ export const DIRECTOR_LABEL = {
   FONT_SIZE: 6,
   TEXT_COLOR: "#ffffff",
 } as const;
+
+export const ANNOTATION_DEFAULTS = {
+  ARROW_LENGTH: 160,
+  COLORS: ["#ffffff", "#0ea5e9", "#22c55e", "#eab308", "#ef4444", "#000000"],
+  FILL: "transparent",
+  FONT_FAMILY: "Inter, system-ui, sans-serif",
+  FONT_SIZES: [16, 24, 40],
+  FONT_SIZE: 24,
+  MIN_DRAW_SIZE: 5,
+  SHAPE_HEIGHT: 100,
+  SHAPE_WIDTH: 160,
+  STROKE: "#ffffff",
+  STROKE_WIDTH: 2,
+  STROKE_WIDTHS: [1, 2, 4, 8],
+  TEXT: "Text",
+  TEXT_COLOR: "#ffffff",
+  TEXT_WIDTH: 240,
+} as const;
+
+export const FRAME_DEFAULTS = {
+  BORDER_COLOR: "rgba(255, 255, 255, 0.16)",
+  CORNER_RADIUS: 8,
+  FILL: "rgba(255, 255, 255, 0.03)",
+  FONT_SIZE: 14,
+  PADDING: 24,
+  TITLE: "Frame",
+  TITLE_COLOR: "#a1a1aa",
+  TITLE_HEIGHT: 32,
+} as const;
@@ -12,6 +12,7 @@ export const CONTROL_PANEL_STRINGS = {
   RUN: "Run",
   SETTINGS: "Settings",
   TEXT_TO_IMAGE: "Text to Image",
+  TEXT_TO_VIDEO: "Text to Video",
   UNDO: "Undo",
   UPLOAD: "Upload",
   UPLOAD_FAILED: "Upload failed",
@@ -15,6 +15,11 @@ import { generateFiboSeed } from "@/utils/fibo-seed-generator";
 export const FIBO_ANALYSIS = {
   /** Extended timeout for batch operations in milliseconds */
   EXTENDED_TIMEOUT: 45000,
+  /**
+   * Version of the analysis model and its adapter. Cached analyses from
+   * another version are ignored, so bump it when either changes.
+   */
+  MODEL_VERSION: "bria-fibo-v2.1",
   /** Request timeout in milliseconds */
   REQUEST_TIMEOUT: 30000,
 } as const;
@@ -92,15 +92,3 @@ export const GHOST_PLACEHOLDER_ARIA = {
   /** Label for pulse overlay */
   PULSE_OVERLAY: "Pulse animation overlay",
 } as const;
-
-/**
- * Position indices mapping based on generation count
- * - 4 variations: cardinal directions (0, 2, 4, 6)
- * - 8 variations: all inner ring positions (0-7)
- * - 12 variations: inner ring + outer cardinal directions (0-11)
- */
-export const POSITION_INDICES_MAP: Record<number, number[]> = {
-  4: [0, 2, 4, 6],
-  8: [0, 1, 2, 3, 4, 5, 6, 7],
-  12: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
-} as const;
@@ -0,0 +1,51 @@
+/**
+ * Mood vector constants for targeted emotion variations.
+ *
+ * The axes match the emotionVector of the style signature.
+ */
+
+import type { MoodAxis, MoodVector } from "@/types/mood-vector";
+
+/**
+ * Emotion axes in slider order, with their display labels
+ */
+export const MOOD_AXES: ReadonlyArray<{ axis: MoodAxis; label: string }> = [
+  { axis: "awe", label: "Awe" },
+  { axis: "melancholy", label: "Melancholy" },
+  { axis: "mystery", label: "Mystery" },
+  { axis: "nostalgia", label: "Nostalgia" },
+  { axis: "romance", label: "Romance" },
+  { axis: "serenity", label: "Serenity" },
+  { axis: "tension", label: "Tension" },
+  { axis: "wonder", label: "Wonder" },
+];
+
+/**
+ * Target vector before any slider is moved: every axis at half intensity
+ */
+export const DEFAULT_MOOD_VECTOR: MoodVector = {
+  awe: 50,
+  melancholy: 50,
+  mystery: 50,
+  nostalgia: 50,
+  romance: 50,
+  serenity: 50,
+  tension: 50,
+  wonder: 50,
+};
+
+/**
+ * Largest offset from the target applied to each axis of a variation, so a
+ * batch explores the area around the target instead of repeating it
+ */
+export const MOOD_VARIATION_SPREAD = 10;
+
+/**
+ * Axes at or above this intensity are emphasized in the prompt
+ */
+export const MOOD_EMPHASIS_THRESHOLD = 65;
+
+/**
+ * Axes at or below this intensity are suppressed in the prompt
+ */
+export const MOOD_SUPPRESSION_THRESHOLD = 25;
@@ -3,6 +3,7 @@
  *
  * Provides functions to check quota status and remaining usage.
  * Integrates with Convex backend for real-time quota updates.
+ * Reports the pooled quota of the active workspace when one is selected.
  */
 
 "use client";
@@ -11,7 +12,6 @@ import { useQuery } from "convex/react";
 import { useMemo } from "react";
 import { api } from "../../convex/_generated/api";
 import type { QuotaStatus, GenerationType } from "@/types/subscription";
-import { getQuotaLimits } from "@/types/subscription";
 import {
   calculateQuotaPercentage,
   calculateDaysUntilReset,
@@ -69,6 +69,9 @@ interface UseQuotaReturn {
 
   /** Check if user can generate a specific type */
   canGenerate: (type: GenerationType) => boolean;
+
+  /** Name of the workspace whose pooled quota is shown (null for personal quota) */
+  workspaceName: string | null;
 }
 
 /**
@@ -107,35 +110,26 @@ interface UseQuotaReturn {
 export function useQuota(): UseQuotaReturn {
   const { isAuthenticated } = useAuth();
 
-  // Fetch subscription data which includes quota information
-  const subscriptionData = useQuery(
-    api.subscriptions.getSubscriptionStatus,
+  // Fetch the quota generations are charged to: the active workspace's
+  // pooled quota, or the user's own
+  const quotaData = useQuery(
+    api.quotas.getQuotaStatus,
     isAuthenticated ? {} : "skip",
   );
 
   // Memoize quota status to avoid unnecessary recalculations
   const quotaStatus = useMemo((): QuotaStatus | null => {
-    if (!subscriptionData) return null;
-
-    const tier = subscriptionData.tier;
-    // Use limits from backend if available, otherwise fallback to client-side constants
-    const limits = subscriptionData.quotaLimits ?? getQuotaLimits(tier);
-
-    const resetDate = subscriptionData.billingCycleEnd
-      ? new Date(subscriptionData.billingCycleEnd)
-      : null;
+    if (!quotaData) return null;
 
     return {
-      imagesUsed: subscriptionData.imagesUsedInPeriod ?? 0,
-      imagesLimit: limits.images,
-      videosUsed: subscriptionData.videosUsedInPeriod ?? 0,
-      videosLimit: limits.videos,
-      resetDate,
-      daysUntilReset: subscriptionData.billingCycleEnd
-        ? calculateDaysUntilReset(subscriptionData.billingCycleEnd)
-        : 30,
+      imagesUsed: quotaData.images.used,
+      imagesLimit: quotaData.images.limit,
+      videosUsed: quotaData.videos.used,
+      videosLimit: quotaData.videos.limit,
+      resetDate: new Date(quotaData.billingCycleEnd),
+      daysUntilReset: calculateDaysUntilReset(quotaData.billingCycleEnd),
     };
-  }, [subscriptionData]);
+  }, [quotaData]);
 
   // Calculate derived values
   const imagesUsed = quotaStatus?.imagesUsed ?? 0;
@@ -174,7 +168,7 @@ export function useQuota(): UseQuotaReturn {
     imagesPercentage,
     imagesRemaining,
     imagesUsed,
-    isLoading: subscriptionData === undefined && isAuthenticated,
+    isLoading: quotaData === undefined && isAuthenticated,
     isWarning,
     quotaStatus,
     resetDate,
@@ -183,5 +177,6 @@ export function useQuota(): UseQuotaReturn {
     videosPercentage,
     videosRemaining,
     videosUsed,
+    workspaceName: quotaData?.workspace?.name ?? null,
   };
 }
@@ -17,6 +17,7 @@ import type {
 import { useQuery } from "convex/react";
 import { useCallback, useMemo, useState } from "react";
 import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
 import { useAuth } from "./useAuth";
 
 const log = logger.subscription;
@@ -43,8 +44,11 @@ interface UseSubscriptionReturn {
   /** Whether user is on Free tier */
   isFree: boolean;
 
-  /** Initiates upgrade to Pro tier */
-  upgrade: (billingInterval: BillingInterval) => Promise<void>;
+  /** Initiates upgrade to Pro tier, for a workspace when an ID is given */
+  upgrade: (
+    billingInterval: BillingInterval,
+    workspaceId?: Id<"workspaces">,
+  ) => Promise<void>;
 
   /** Opens Polar customer portal for subscription management */
   openCustomerPortal: () => Promise<void>;
@@ -133,9 +137,15 @@ export function useSubscription(): UseSubscriptionReturn {
 
   /**
    * Initiates upgrade to Pro tier by creating a Polar checkout session.
+   *
+   * With a workspace ID, the checkout is for a team subscription whose
+   * quota is pooled across the workspace's members.
    */
   const upgrade = useCallback(
-    async (billingInterval: BillingInterval): Promise<void> => {
+    async (
+      billingInterval: BillingInterval,
+      workspaceId?: Id<"workspaces">,
+    ): Promise<void> => {
       setIsUpgrading(true);
       setError(null);
 
@@ -146,7 +156,7 @@ export function useSubscription(): UseSubscriptionReturn {
           headers: {
             "Content-Type": "application/json",
           },
-          body: JSON.stringify({ billingInterval }),
+          body: JSON.stringify({ billingInterval, workspaceId }),
         }),
       );
 
@@ -1,4 +1,9 @@
 import { CANVAS_STRINGS } from "@/constants/canvas";
+import {
+  deleteAnnotations,
+  duplicateAnnotations,
+} from "@/lib/handlers/annotation-handlers";
+import { assignToFrame, createFrame } from "@/lib/handlers/frame-handlers";
 import {
   combineImages,
   deleteElements,
@@ -11,16 +16,26 @@ import {
   sendToFront as sendToFrontHandler,
 } from "@/lib/handlers/layer-handlers";
 import { showErrorFromException } from "@/lib/toast";
-import type { PlacedImage, PlacedVideo } from "@/types/canvas";
+import type {
+  PlacedAnnotation,
+  PlacedFrame,
+  PlacedImage,
+  PlacedVideo,
+} from "@/types/canvas";
 import { useCallback } from "react";
 
 /**
  * Canvas handler dependencies
  */
 interface CanvasHandlerDeps {
+  annotations?: PlacedAnnotation[];
   images: PlacedImage[];
   saveToHistory: () => void;
   selectedIds: string[];
+  setAnnotations?: (annotations: PlacedAnnotation[]) => void;
+  setFrames?: (
+    frames: PlacedFrame[] | ((prev: PlacedFrame[]) => PlacedFrame[]),
+  ) => void;
   setImages: (
     images: PlacedImage[] | ((prev: PlacedImage[]) => PlacedImage[]),
   ) => void;
@@ -39,6 +54,8 @@ interface CanvasHandlers {
   handleCombineImages: () => Promise<void>;
   handleDelete: () => void;
   handleDuplicate: () => void;
+  handleFrameSelection: () => void;
+  handleRemoveFromFrame: () => void;
   handleSendBackward: () => void;
   handleSendToBack: () => void;
   handleSendToFront: () => void;
@@ -47,7 +64,7 @@ interface CanvasHandlers {
 /**
  * Custom hook for managing canvas element operations
  *
- * Extracts canvas manipulation handlers (layer operations, delete, duplicate, combine)
+ * Extracts canvas manipulation handlers (layer operations, delete, duplicate, combine, frames)
  * from the main canvas component to improve separation of concerns and testability.
  *
  * @param deps - Canvas handler dependencies
@@ -55,9 +72,12 @@ interface CanvasHandlers {
  */
 export function useCanvasHandlers(deps: CanvasHandlerDeps): CanvasHandlers {
   const {
+    annotations = [],
     images,
     saveToHistory,
     selectedIds,
+    setAnnotations,
+    setFrames,
     setImages,
     setSelectedIds,
     setVideos,
@@ -97,13 +117,16 @@ export function useCanvasHandlers(deps: CanvasHandlerDeps): CanvasHandlers {
       videos,
       selectedIds,
     );
+    setAnnotations?.(deleteAnnotations(annotations, selectedIds));
     setImages(newImages);
     setSelectedIds([]);
     setVideos(newVideos);
   }, [
+    annotations,
     images,
     saveToHistory,
     selectedIds,
+    setAnnotations,
     setImages,
     setSelectedIds,
     setVideos,
@@ -117,22 +140,45 @@ export function useCanvasHandlers(deps: CanvasHandlerDeps): CanvasHandlers {
       videos,
       selectedIds,
     );
+    const newAnnotations = setAnnotations
+      ? duplicateAnnotations(annotations, selectedIds)
+      : [];
+    setAnnotations?.([...annotations, ...newAnnotations]);
     setImages((prev) => [...prev, ...newImages]);
     setVideos((prev) => [...prev, ...newVideos]);
     setSelectedIds([
       ...newImages.map((img) => img.id),
       ...newVideos.map((vid) => vid.id),
+      ...newAnnotations.map((annotation) => annotation.id),
     ]);
   }, [
+    annotations,
     images,
     saveToHistory,
     selectedIds,
+    setAnnotations,
     setImages,
     setSelectedIds,
     setVideos,
     videos,
   ]);
 
+  const handleFrameSelection = useCallback(() => {
+    if (selectedIds.length === 0 || !setFrames) return;
+    saveToHistory();
+    const frame = createFrame();
+    setFrames((prev) => [...prev, frame]);
+    setImages((prev) => assignToFrame(prev, selectedIds, frame.id));
+    setVideos((prev) => assignToFrame(prev, selectedIds, frame.id));
+  }, [saveToHistory, selectedIds, setFrames, setImages, setVideos]);
+
+  const handleRemoveFromFrame = useCallback(() => {
+    if (selectedIds.length === 0) return;
+    saveToHistory();
+    setImages((prev) => assignToFrame(prev, selectedIds, undefined));
+    setVideos((prev) => assignToFrame(prev, selectedIds, undefined));
+  }, [saveToHistory, selectedIds, setImages, setVideos]);
+
   const handleSendBackward = useCallback(() => {
     if (selectedIds.length === 0) return;
     saveToHistory();
@@ -156,6 +202,8 @@ export function useCanvasHandlers(deps: CanvasHandlerDeps): CanvasHandlers {
     handleCombineImages,
     handleDelete,
     handleDuplicate,
+    handleFrameSelection,
+    handleRemoveFromFrame,
     handleSendBackward,
     handleSendToBack,
     handleSendToFront,
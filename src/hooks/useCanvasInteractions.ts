@@ -1,4 +1,10 @@
-import type { PlacedImage, PlacedVideo, SelectionBox } from "@/types/canvas";
+import { getAnnotationBounds } from "@/lib/handlers/annotation-handlers";
+import type {
+  PlacedAnnotation,
+  PlacedImage,
+  PlacedVideo,
+  SelectionBox,
+} from "@/types/canvas";
 import type { Viewport } from "@/utils/viewport-utils";
 import type Konva from "konva";
 import { useCallback, useEffect, useRef, useState } from "react";
@@ -11,6 +17,7 @@ export function useCanvasInteractions(
   videos: PlacedVideo[],
   selectedIds: string[],
   setSelectedIds: (ids: string[]) => void,
+  annotations: PlacedAnnotation[] = [],
 ) {
   const [selectionBox, setSelectionBox] = useState<SelectionBox>({
     startX: 0,
@@ -252,9 +259,20 @@ export function useCanvasInteractions(
           );
         });
 
+        const selectedAnnotations = annotations.filter((annotation) => {
+          const bounds = getAnnotationBounds(annotation);
+          return !(
+            bounds.x + bounds.width < box.x ||
+            bounds.x > box.x + box.width ||
+            bounds.y + bounds.height < box.y ||
+            bounds.y > box.y + box.height
+          );
+        });
+
         const selectedIds = [
           ...selectedImages.map((img) => img.id),
           ...selectedVideos.map((vid) => vid.id),
+          ...selectedAnnotations.map((annotation) => annotation.id),
         ];
 
         if (selectedIds.length > 0) {
@@ -266,6 +284,7 @@ export function useCanvasInteractions(
       setSelectionBox({ ...selectionBox, visible: false });
     },
     [
+      annotations,
       images,
       isPanningCanvas,
       isSelecting,
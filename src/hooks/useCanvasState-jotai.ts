@@ -6,7 +6,9 @@
 import { useEffect } from "react";
 import { useAtom } from "jotai";
 import {
+  annotationsAtom,
   canvasSizeAtom,
+  framesAtom,
   imagesAtom,
   isCanvasReadyAtom,
   selectedIdsAtom,
@@ -21,7 +23,9 @@ import { useWindowDimensions } from "./useWindowDimensions";
  * Handles window resize and canvas readiness
  */
 export function useCanvasState() {
+  const [annotations, setAnnotations] = useAtom(annotationsAtom);
   const [canvasSize, setCanvasSize] = useAtom(canvasSizeAtom);
+  const [frames, setFrames] = useAtom(framesAtom);
   const [images, setImages] = useAtom(imagesAtom);
   const [isCanvasReady, setIsCanvasReady] = useAtom(isCanvasReadyAtom);
   const [selectedIds, setSelectedIds] = useAtom(selectedIdsAtom);
@@ -48,10 +52,14 @@ export function useCanvasState() {
   }, [canvasSize.height, canvasSize.width, isCanvasReady, setIsCanvasReady]);
 
   return {
+    annotations,
     canvasSize,
+    frames,
     images,
     isCanvasReady,
     selectedIds,
+    setAnnotations,
+    setFrames,
     setImages,
     setSelectedIds,
     setVideos,
@@ -1,18 +1,38 @@
-import { handleRun as handleRunHandler } from "@/lib/handlers/generation-handler";
+import type { FiboStructuredPrompt } from "@/lib/adapters/fibo-to-analysis-adapter";
+import {
+  handleRegenerate as handleRegenerateHandler,
+  handleRun as handleRunHandler,
+  handleStructuredPromptRegeneration,
+} from "@/lib/handlers/generation-handler";
 import { handleVariationGeneration } from "@/lib/handlers/variation-handler";
+import type { VideoContinuationMode } from "@/lib/handlers/video-continuation-handler";
 import { sanitizePrompt } from "@/lib/prompt-utils";
 import type { Viewport } from "@/store/canvas-atoms";
 import type {
   ActiveGeneration,
   ActiveVideoGeneration,
   GenerationSettings,
+  PlacedFrame,
   PlacedImage,
   PlacedVideo,
 } from "@/types/canvas";
+import type { VariationPreset } from "@/types/variation-preset";
+import type { RegenerateMode } from "@/utils/generation-provenance-utils";
 import { useCallback } from "react";
 import { useProjectGuard } from "./useProjectGuard";
 import type { ImageModelId } from "@/lib/image-models";
-import { isFiboAnalysisEnabledAtom } from "@/store/ui-atoms";
+import {
+  getVideoCategoryForSelection,
+  type TextToVideoModelId,
+  type VideoToVideoModelId,
+} from "@/lib/video-models";
+import { isVideoEndFrameEnabledAtom } from "@/store/generation-atoms";
+import { currentProjectIdAtom } from "@/store/project-atoms";
+import {
+  isFiboAnalysisEnabledAtom,
+  moodVectorAtom,
+  pickedVariationItemsAtom,
+} from "@/store/ui-atoms";
 import { useAtomValue } from "jotai";
 
 /**
@@ -20,6 +40,7 @@ import { useAtomValue } from "jotai";
  */
 interface GenerationHandlerDeps {
   canvasSize: { height: number; width: number };
+  customPresets?: VariationPreset[];
   generateTextToImage: (params: {
     prompt: string;
     seed?: number;
@@ -36,11 +57,13 @@ interface GenerationHandlerDeps {
   imageModel: ImageModelId;
   imageVariationType:
     | "camera-angles"
+    | "custom"
     | "director"
     | "lighting"
     | "storyline"
     | "characters"
     | "emotions"
+    | "mood"
     | "surface"
     | "weather";
   images: PlacedImage[];
@@ -52,6 +75,7 @@ interface GenerationHandlerDeps {
   setActiveVideoGenerations: React.Dispatch<
     React.SetStateAction<Map<string, ActiveVideoGeneration>>
   >;
+  setFrames: React.Dispatch<React.SetStateAction<PlacedFrame[]>>;
   setImages: React.Dispatch<React.SetStateAction<PlacedImage[]>>;
   setIsGenerating: React.Dispatch<React.SetStateAction<boolean>>;
   setIsImageToVideoDialogOpen: React.Dispatch<React.SetStateAction<boolean>>;
@@ -59,11 +83,14 @@ interface GenerationHandlerDeps {
   setSelectedImageForVideo: React.Dispatch<React.SetStateAction<string | null>>;
   setShowSignInPrompt: React.Dispatch<React.SetStateAction<boolean>>;
   setVideos: React.Dispatch<React.SetStateAction<PlacedVideo[]>>;
+  textToVideoModel: TextToVideoModelId;
   userId: string | null;
   variationMode: "image" | "video";
   videoModel: "sora-2" | "sora-2-pro" | "veo-3.1" | "veo-3.1-pro";
   videoDuration: number | string;
   videoResolution: "auto" | "480p" | "720p" | "1080p";
+  videoToVideoModel: VideoToVideoModelId;
+  videos: PlacedVideo[];
   viewport: Viewport;
 }
 
@@ -74,6 +101,10 @@ interface GenerationHandlerDeps {
  * - Text-to-image generation
  * - Image/video variation generation
  * - Image-to-video conversion
+ * - Text-to-video and video-to-video generation, picked by the selection
+ *   when in video mode
+ * - Regeneration from recorded provenance
+ * - Matching the style of a reference image
  * - Authentication guards
  *
  * @param deps - Generation handler dependencies
@@ -82,6 +113,7 @@ interface GenerationHandlerDeps {
 export function useGenerationHandlers(deps: GenerationHandlerDeps) {
   const {
     canvasSize,
+    customPresets,
     generateTextToImage,
     generationCount,
     generationSettings,
@@ -92,6 +124,7 @@ export function useGenerationHandlers(deps: GenerationHandlerDeps) {
     selectedIds,
     setActiveGenerations,
     setActiveVideoGenerations,
+    setFrames,
     setImages,
     setIsGenerating,
     setIsImageToVideoDialogOpen,
@@ -99,15 +132,22 @@ export function useGenerationHandlers(deps: GenerationHandlerDeps) {
     setSelectedImageForVideo,
     setShowSignInPrompt,
     setVideos,
+    textToVideoModel,
     userId,
     variationMode,
     videoDuration,
     videoModel,
     videoResolution,
+    videoToVideoModel,
+    videos,
     viewport,
   } = deps;
 
   const isFiboAnalysisEnabled = useAtomValue(isFiboAnalysisEnabledAtom);
+  const moodVector = useAtomValue(moodVectorAtom);
+  const pickedVariationItems = useAtomValue(pickedVariationItemsAtom);
+  const currentProjectId = useAtomValue(currentProjectIdAtom);
+  const isVideoEndFrameEnabled = useAtomValue(isVideoEndFrameEnabledAtom);
 
   const { ensureProject } = useProjectGuard();
 
@@ -135,6 +175,166 @@ export function useGenerationHandlers(deps: GenerationHandlerDeps) {
     ],
   );
 
+  /**
+   * Handles regenerating an image with its recorded settings
+   */
+  const handleRegenerate = useCallback(
+    async (imageId: string, mode: RegenerateMode) => {
+      if (!isAuthenticated) {
+        setShowSignInPrompt(true);
+        return;
+      }
+
+      const image = images.find((img) => img.id === imageId);
+      if (!image) return;
+
+      await ensureProject();
+
+      handleRegenerateHandler(image, mode, {
+        setActiveGenerations,
+        setImages,
+        setIsGenerating,
+        setSelectedIds,
+      });
+    },
+    [
+      ensureProject,
+      images,
+      isAuthenticated,
+      setActiveGenerations,
+      setImages,
+      setIsGenerating,
+      setSelectedIds,
+      setShowSignInPrompt,
+    ],
+  );
+
+  /**
+   * Handles rendering an edited FIBO structured prompt of an image
+   */
+  const handleRegenerateFromStructuredPrompt = useCallback(
+    async (imageId: string, structuredPrompt: FiboStructuredPrompt) => {
+      if (!isAuthenticated) {
+        setShowSignInPrompt(true);
+        return;
+      }
+
+      const image = images.find((img) => img.id === imageId);
+      if (!image) return;
+
+      await ensureProject();
+
+      handleStructuredPromptRegeneration(image, structuredPrompt, {
+        setActiveGenerations,
+        setImages,
+        setIsGenerating,
+        setSelectedIds,
+      });
+    },
+    [
+      ensureProject,
+      images,
+      isAuthenticated,
+      setActiveGenerations,
+      setImages,
+      setIsGenerating,
+      setSelectedIds,
+      setShowSignInPrompt,
+    ],
+  );
+
+  /**
+   * Handles restyling the other selected images with the style of a
+   * reference image
+   */
+  const handleMatchStyle = useCallback(
+    async (referenceImageId: string) => {
+      if (!isAuthenticated) {
+        setShowSignInPrompt(true);
+        return;
+      }
+
+      await ensureProject();
+
+      const { handleStyleMatch } = await import(
+        "@/lib/handlers/style-match-handler"
+      );
+
+      await handleStyleMatch({
+        imageModel,
+        images,
+        referenceImageId,
+        selectedIds,
+        setActiveGenerations,
+        setImages,
+        setIsGenerating,
+        variationPrompt: generationSettings.variationPrompt,
+      });
+    },
+    [
+      ensureProject,
+      generationSettings.variationPrompt,
+      imageModel,
+      images,
+      isAuthenticated,
+      selectedIds,
+      setActiveGenerations,
+      setImages,
+      setIsGenerating,
+      setShowSignInPrompt,
+    ],
+  );
+
+  /**
+   * Handles extending, remixing or taking the last frame of a video
+   */
+  const handleContinueVideo = useCallback(
+    async (videoId: string, mode: VideoContinuationMode) => {
+      if (!isAuthenticated) {
+        setShowSignInPrompt(true);
+        return;
+      }
+
+      const video = videos.find((item) => item.id === videoId);
+      if (!video) return;
+
+      await ensureProject();
+
+      const { handleVideoContinuation } = await import(
+        "@/lib/handlers/video-continuation-handler"
+      );
+
+      await handleVideoContinuation(video, mode, {
+        prompt: generationSettings.variationPrompt,
+        setActiveVideoGenerations,
+        setImages,
+        setSelectedIds,
+        setVideos,
+        userId: userId ?? undefined,
+        videoSettings: {
+          duration: videoDuration,
+          modelId: videoModel,
+          resolution: videoResolution,
+        },
+      });
+    },
+    [
+      ensureProject,
+      generationSettings.variationPrompt,
+      isAuthenticated,
+      setActiveVideoGenerations,
+      setImages,
+      setSelectedIds,
+      setShowSignInPrompt,
+      setVideos,
+      userId,
+      videoDuration,
+      videoModel,
+      videoResolution,
+      videos,
+    ],
+  );
+
   /**
    * Handles generation execution (text-to-image or variations)
    */
@@ -147,6 +347,50 @@ export function useGenerationHandlers(deps: GenerationHandlerDeps) {
     // Auto-create project if user has no active project
     await ensureProject();
 
+    if (variationMode === "video") {
+      const videoCategory = getVideoCategoryForSelection({
+        imageCount: images.filter((img) => selectedIds.includes(img.id)).length,
+        videoCount: videos.filter((video) => selectedIds.includes(video.id))
+          .length,
+      });
+
+      if (videoCategory !== "image-to-video") {
+        const { handleTextToVideoGeneration, handleVideoToVideoGeneration } =
+          await import("@/lib/handlers/video-category-handler");
+
+        if (videoCategory === "text-to-video") {
+          handleTextToVideoGeneration({
+            canvasSize,
+            modelId: textToVideoModel,
+            prompt: generationSettings.prompt,
+            setActiveVideoGenerations,
+            setSelectedIds,
+            setVideos,
+            userId: userId ?? undefined,
+            videoSettings: {
+              duration: videoDuration,
+              resolution: textToVideoModel.startsWith("veo")
+                ? videoResolution
+                : undefined,
+            },
+            viewport,
+          });
+        } else {
+          handleVideoToVideoGeneration({
+            modelId: videoToVideoModel,
+            prompt: generationSettings.variationPrompt,
+            selectedIds,
+            setActiveVideoGenerations,
+            setSelectedIds,
+            setVideos,
+            userId: userId ?? undefined,
+            videos,
+          });
+        }
+        return;
+      }
+    }
+
     const isVariationMode =
       (selectedIds.length === 1 || selectedIds.length === 2) &&
       (variationMode === "image" || variationMode === "video");
@@ -166,13 +410,19 @@ export function useGenerationHandlers(deps: GenerationHandlerDeps) {
         isVeoModel && videoResolution === "auto" ? "720p" : videoResolution;
 
       await handleVariationGeneration({
+        customPresets,
         imageModel,
         imageVariationType,
         images,
         isFiboAnalysisEnabled,
+        isVideoEndFrameEnabled,
+        moodVector,
+        pickedItems: pickedVariationItems[imageVariationType],
+        projectId: currentProjectId ?? undefined,
         selectedIds,
         setActiveGenerations,
         setActiveVideoGenerations,
+        setFrames,
         setImages,
         setIsGenerating,
         setVideos,
@@ -205,6 +455,8 @@ export function useGenerationHandlers(deps: GenerationHandlerDeps) {
     }
   }, [
     canvasSize,
+    currentProjectId,
+    customPresets,
     ensureProject,
     generateTextToImage,
     generationCount,
@@ -214,24 +466,35 @@ export function useGenerationHandlers(deps: GenerationHandlerDeps) {
     images,
     isAuthenticated,
     isFiboAnalysisEnabled,
+    isVideoEndFrameEnabled,
+    moodVector,
+    pickedVariationItems,
     selectedIds,
     setActiveGenerations,
     setActiveVideoGenerations,
+    setFrames,
     setImages,
     setIsGenerating,
     setSelectedIds,
     setShowSignInPrompt,
     setVideos,
+    textToVideoModel,
     userId,
     variationMode,
     videoDuration,
     videoModel,
     videoResolution,
+    videoToVideoModel,
+    videos,
     viewport,
   ]);
 
   return {
+    handleContinueVideo,
     handleConvertToVideo,
+    handleMatchStyle,
+    handleRegenerate,
+    handleRegenerateFromStructuredPrompt,
     handleRun,
   };
 }
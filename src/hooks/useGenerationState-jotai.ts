@@ -11,12 +11,15 @@ import {
   generationSettingsAtom,
   isConvertingToVideoAtom,
   isGeneratingAtom,
+  isVideoEndFrameEnabledAtom,
   previousGenerationCountAtom,
   previousStyleIdAtom,
   showSuccessAtom,
+  textToVideoModelAtom,
   videoModelAtom,
   videoDurationAtom,
   videoResolutionAtom,
+  videoToVideoModelAtom,
 } from "@/store/generation-atoms";
 
 /**
@@ -45,6 +48,13 @@ export function useGenerationState() {
   const [videoModel, setVideoModel] = useAtom(videoModelAtom);
   const [videoDuration, setVideoDuration] = useAtom(videoDurationAtom);
   const [videoResolution, setVideoResolution] = useAtom(videoResolutionAtom);
+  const [isVideoEndFrameEnabled, setIsVideoEndFrameEnabled] = useAtom(
+    isVideoEndFrameEnabledAtom,
+  );
+  const [textToVideoModel, setTextToVideoModel] = useAtom(textToVideoModelAtom);
+  const [videoToVideoModel, setVideoToVideoModel] = useAtom(
+    videoToVideoModelAtom,
+  );
 
   // Track when generation completes
   useEffect(() => {
@@ -93,19 +103,25 @@ export function useGenerationState() {
     generationSettings,
     isConvertingToVideo,
     isGenerating,
+    isVideoEndFrameEnabled,
     previousStyleId,
     setActiveGenerations,
     setActiveVideoGenerations,
     setGenerationSettings,
     setIsConvertingToVideo,
     setIsGenerating,
+    setIsVideoEndFrameEnabled,
     setPreviousStyleId,
+    setTextToVideoModel,
     setVideoDuration,
     setVideoModel,
     setVideoResolution,
+    setVideoToVideoModel,
     showSuccess,
+    textToVideoModel,
     videoDuration,
     videoModel,
     videoResolution,
+    videoToVideoModel,
   };
 }
@@ -25,7 +25,7 @@ interface UseGhostPlaceholderAnimationsResult {
  *
  * All animations use requestAnimationFrame for smooth 60fps performance.
  *
- * @param generationCount - Number of variations to generate (4, 8, or 12)
+ * @param generationCount - Number of variations to generate (1-24)
  * @param positionIndices - Array of position indices for placeholders
  * @returns Animation state values
  */
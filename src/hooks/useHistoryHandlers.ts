@@ -1,5 +1,22 @@
 import { useCallback } from "react";
-import type { PlacedImage, PlacedVideo } from "@/types/canvas";
+import type {
+  PlacedAnnotation,
+  PlacedFrame,
+  PlacedImage,
+  PlacedVideo,
+} from "@/types/canvas";
+
+/**
+ * Canvas state restored by an undo, redo, or history jump
+ */
+type HistoryResult = {
+  annotations: PlacedAnnotation[];
+  frames: PlacedFrame[];
+  images: PlacedImage[];
+  newIndex: number;
+  selectedIds: string[];
+  videos: PlacedVideo[];
+} | null;
 
 /**
  * History handler dependencies
@@ -7,28 +24,21 @@ import type { PlacedImage, PlacedVideo } from "@/types/canvas";
 interface HistoryHandlerDeps {
   canRedo: boolean;
   canUndo: boolean;
-  redo: () => {
-    images: PlacedImage[];
-    newIndex: number;
-    selectedIds: string[];
-    videos: PlacedVideo[];
-  } | null;
+  goToIndex?: (index: number) => HistoryResult;
+  redo: () => HistoryResult;
+  setAnnotations?: (annotations: PlacedAnnotation[]) => void;
+  setFrames?: (frames: PlacedFrame[]) => void;
   setImages: (images: PlacedImage[]) => void;
   setSelectedIds: (ids: string[]) => void;
   setVideos: (videos: PlacedVideo[]) => void;
-  undo: () => {
-    images: PlacedImage[];
-    newIndex: number;
-    selectedIds: string[];
-    videos: PlacedVideo[];
-  } | null;
-  updateHistoryIndex: (index: number) => void;
+  undo: () => HistoryResult;
 }
 
 /**
  * History handler return type
  */
 interface HistoryHandlers {
+  handleGoToHistoryIndex: (index: number) => void;
   handleRedo: () => void;
   handleUndo: () => void;
 }
@@ -44,35 +54,48 @@ interface HistoryHandlers {
  */
 export function useHistoryHandlers(deps: HistoryHandlerDeps): HistoryHandlers {
   const {
+    goToIndex,
     redo,
+    setAnnotations,
+    setFrames,
     setImages,
     setSelectedIds,
     setVideos,
     undo,
-    updateHistoryIndex,
   } = deps;
 
+  const applyResult = useCallback(
+    (result: HistoryResult) => {
+      if (result) {
+        setAnnotations?.(result.annotations);
+        setFrames?.(result.frames);
+        setImages(result.images);
+        setSelectedIds(result.selectedIds);
+        setVideos(result.videos);
+      }
+    },
+    [setAnnotations, setFrames, setImages, setSelectedIds, setVideos],
+  );
+
   const handleUndo = useCallback(() => {
-    const result = undo();
-    if (result) {
-      setImages(result.images);
-      setSelectedIds(result.selectedIds);
-      setVideos(result.videos);
-      updateHistoryIndex(result.newIndex);
-    }
-  }, [setImages, setSelectedIds, setVideos, undo, updateHistoryIndex]);
+    applyResult(undo());
+  }, [applyResult, undo]);
 
   const handleRedo = useCallback(() => {
-    const result = redo();
-    if (result) {
-      setImages(result.images);
-      setSelectedIds(result.selectedIds);
-      setVideos(result.videos);
-      updateHistoryIndex(result.newIndex);
-    }
-  }, [redo, setImages, setSelectedIds, setVideos, updateHistoryIndex]);
+    applyResult(redo());
+  }, [applyResult, redo]);
+
+  const handleGoToHistoryIndex = useCallback(
+    (index: number) => {
+      if (goToIndex) {
+        applyResult(goToIndex(index));
+      }
+    },
+    [applyResult, goToIndex],
+  );
 
   return {
+    handleGoToHistoryIndex,
     handleRedo,
     handleUndo,
   };
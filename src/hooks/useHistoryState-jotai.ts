@@ -1,17 +1,101 @@
 /**
  * History state hook using Jotai
  * Manages undo/redo functionality for canvas operations
+ *
+ * History is recorded as patches between consecutive states and persisted
+ * per project and user, so it survives reloads.
  */
 
-import { useCallback, useEffect } from "react";
+import { useCallback, useEffect, useRef } from "react";
 import { useAtom, useAtomValue } from "jotai";
+import { useConvex, useMutation } from "convex/react";
+import { useAuth } from "@/hooks/useAuth";
+import { getCachedImageSrcById } from "@/hooks/useImageCache";
+import { getErrorMessage, isErr, tryPromise } from "@/lib/errors/safe-errors";
+import {
+  applyHistoryPatch,
+  carryOverMedia,
+  createHistoryPatch,
+  parseHistoryPatch,
+  serializeHistoryPatch,
+  type HistorySnapshot,
+} from "@/lib/history/history-patch";
+import { logger } from "@/lib/logger";
+import { canvasStorage } from "@/lib/storage";
 import {
   canRedoAtom,
   canUndoAtom,
   historyAtom,
+  historyHeadAtom,
   historyIndexAtom,
 } from "@/store/history-atoms";
-import type { PlacedImage, PlacedVideo, HistoryState } from "@/types/canvas";
+import { currentProjectAtom } from "@/store/project-atoms";
+import type {
+  PlacedAnnotation,
+  PlacedFrame,
+  PlacedImage,
+  PlacedVideo,
+} from "@/types/canvas";
+import type {
+  HistoryElementChange,
+  HistoryEntry,
+  HistoryPatch,
+} from "@/types/history";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+const log = logger.history;
+
+/**
+ * Maximum number of steps kept in memory (matches the server-side limit)
+ */
+const MAX_HISTORY_ENTRIES = 500;
+
+/**
+ * Returns the persisted position for a history index: the sequence of the
+ * first undone step, or one past the last step when nothing is undone.
+ */
+function getHistoryPosition(history: HistoryEntry[], index: number): number {
+  if (index < history.length) return history[index].sequence;
+  return (history.at(-1)?.sequence ?? -1) + 1;
+}
+
+/**
+ * Re-attaches locally stored media to images and videos restored by a
+ * persisted patch. Elements whose media is no longer available are shown
+ * as skeletons.
+ */
+async function hydrateHistoryPatch(patch: HistoryPatch): Promise<HistoryPatch> {
+  const changes = await Promise.all(
+    patch.changes.map(async (change): Promise<HistoryElementChange> => {
+      if (change.op === "update") return change;
+      if (change.kind !== "images" && change.kind !== "videos") return change;
+
+      const element = change.element as PlacedImage | PlacedVideo;
+      if (element.src) return change;
+
+      let src =
+        change.kind === "images" ? getCachedImageSrcById(element.id) : null;
+      if (!src) {
+        const storedResult = await tryPromise(
+          change.kind === "images"
+            ? canvasStorage.getImage(element.id)
+            : canvasStorage.getVideo(element.id),
+        );
+        src = isErr(storedResult) ? null : storedResult?.originalDataUrl;
+      }
+
+      return {
+        ...change,
+        element: src
+          ? { ...element, src }
+          : { ...element, isSkeleton: true, src: "" },
+      };
+    }),
+  );
+
+  return { ...patch, changes };
+}
 
 /**
  * Hook to manage history state using Jotai atoms
@@ -20,89 +104,311 @@ import type { PlacedImage, PlacedVideo, HistoryState } from "@/types/canvas";
  * @param images - Current images array
  * @param videos - Current videos array
  * @param selectedIds - Currently selected element IDs
+ * @param annotations - Current text and shape annotations
+ * @param frames - Current frames grouping images and videos
  */
 export function useHistoryState(
   images: PlacedImage[],
   videos: PlacedVideo[],
   selectedIds: string[],
+  annotations: PlacedAnnotation[] = [],
+  frames: PlacedFrame[] = [],
 ) {
   const [history, setHistory] = useAtom(historyAtom);
   const [historyIndex, setHistoryIndex] = useAtom(historyIndexAtom);
+  const [historyHead, setHistoryHead] = useAtom(historyHeadAtom);
   const canUndo = useAtomValue(canUndoAtom);
   const canRedo = useAtomValue(canRedoAtom);
+  const currentProject = useAtomValue(currentProjectAtom);
+  const projectId = (currentProject?._id as Id<"projects"> | undefined) ?? null;
+  const { userId } = useAuth();
+
+  const convexClient = useConvex();
+  const appendEntryMutation = useMutation(api.projectHistory.appendEntry);
+  const setCheckpointMutation = useMutation(api.projectHistory.setCheckpoint);
+  const setPositionMutation = useMutation(api.projectHistory.setPosition);
+
+  // Project and user whose history is being loaded, to discard stale responses
+  const loadingKeyRef = useRef<string | null>(null);
+
+  /**
+   * Returns the live canvas state
+   */
+  const getCurrentState = useCallback(
+    (): HistorySnapshot => ({
+      annotations,
+      frames,
+      images,
+      selectedIds,
+      videos,
+    }),
+    [annotations, frames, images, selectedIds, videos],
+  );
+
+  /**
+   * Runs a history mutation in the background; history keeps working
+   * locally if persisting fails
+   */
+  const persist = useCallback(
+    (operation: Promise<unknown>, description: string) => {
+      void tryPromise(operation).then((result) => {
+        if (isErr(result)) {
+          log.warn(`Failed to ${description}`, getErrorMessage(result));
+        }
+      });
+    },
+    [],
+  );
 
   /**
    * Saves current state to history
    */
   const saveToHistory = useCallback(() => {
-    const newState: HistoryState = {
-      images: [...images],
-      selectedIds: [...selectedIds],
-      videos: [...videos],
-    };
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newState);
+    const currentState = getCurrentState();
+    setHistoryHead(currentState);
+
+    // The first save after loading only marks the starting point
+    if (!historyHead) return;
+
+    const patch = createHistoryPatch(historyHead, currentState);
+    if (patch.changes.length === 0 && !patch.order) return;
+
+    const sequence =
+      historyIndex > 0
+        ? history[historyIndex - 1].sequence + 1
+        : (history[0]?.sequence ?? 0);
+    const entry: HistoryEntry = { createdAt: Date.now(), patch, sequence };
+    const newHistory = [...history.slice(0, historyIndex), entry].slice(
+      -MAX_HISTORY_ENTRIES,
+    );
     setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
+    setHistoryIndex(newHistory.length);
+
+    if (projectId) {
+      persist(
+        appendEntryMutation({
+          createdAt: entry.createdAt,
+          patch: serializeHistoryPatch(patch),
+          projectId,
+          sequence,
+        }),
+        "record history step",
+      );
+    }
   }, [
+    appendEntryMutation,
+    getCurrentState,
     history,
+    historyHead,
     historyIndex,
-    images,
-    selectedIds,
+    persist,
+    projectId,
     setHistory,
+    setHistoryHead,
     setHistoryIndex,
-    videos,
   ]);
 
+  /**
+   * Moves to a position in history, undoing or redoing every step between
+   * the current position and the target
+   * @param index - Number of steps that should be applied
+   * @returns State at the target position, null if the index is invalid
+   */
+  const goToIndex = useCallback(
+    (index: number) => {
+      if (index < 0 || index > history.length || index === historyIndex) {
+        return null;
+      }
+
+      const liveState = getCurrentState();
+      let state: HistorySnapshot = historyHead ?? liveState;
+      for (let i = historyIndex - 1; i >= index; i--) {
+        state = applyHistoryPatch(state, history[i].patch, "backward");
+      }
+      for (let i = historyIndex; i < index; i++) {
+        state = applyHistoryPatch(state, history[i].patch, "forward");
+      }
+      state = carryOverMedia(state, liveState);
+
+      setHistoryHead(state);
+      setHistoryIndex(index);
+
+      if (projectId) {
+        persist(
+          setPositionMutation({
+            position: getHistoryPosition(history, index),
+            projectId,
+          }),
+          "save history position",
+        );
+      }
+
+      return { ...state, newIndex: index };
+    },
+    [
+      getCurrentState,
+      history,
+      historyHead,
+      historyIndex,
+      persist,
+      projectId,
+      setHistoryHead,
+      setHistoryIndex,
+      setPositionMutation,
+    ],
+  );
+
   /**
    * Undoes the last action
    * @returns Previous state if available, null otherwise
    */
-  const undo = useCallback(() => {
-    if (historyIndex > 0) {
-      const prevState = history[historyIndex - 1];
-      return {
-        images: prevState.images,
-        newIndex: historyIndex - 1,
-        selectedIds: prevState.selectedIds,
-        videos: prevState.videos || [],
-      };
-    }
-    return null;
-  }, [history, historyIndex]);
+  const undo = useCallback(
+    () => (canUndo ? goToIndex(historyIndex - 1) : null),
+    [canUndo, goToIndex, historyIndex],
+  );
 
   /**
    * Redoes the last undone action
    * @returns Next state if available, null otherwise
    */
-  const redo = useCallback(() => {
-    if (historyIndex < history.length - 1) {
-      const nextState = history[historyIndex + 1];
-      return {
-        images: nextState.images,
-        newIndex: historyIndex + 1,
-        selectedIds: nextState.selectedIds,
-        videos: nextState.videos || [],
-      };
-    }
-    return null;
-  }, [history, historyIndex]);
+  const redo = useCallback(
+    () => (canRedo ? goToIndex(historyIndex + 1) : null),
+    [canRedo, goToIndex, historyIndex],
+  );
+
+  /**
+   * Names or unnames a recorded step as a checkpoint
+   * @param index - Position of the step in history
+   * @param label - Checkpoint name, or undefined to remove the checkpoint
+   */
+  const setCheckpoint = useCallback(
+    (index: number, label: string | undefined) => {
+      const entry = history[index];
+      if (!entry) return;
+
+      const trimmedLabel = label?.trim() || undefined;
+      setHistory(
+        history.map((item, i) =>
+          i === index ? { ...item, label: trimmedLabel } : item,
+        ),
+      );
+
+      if (projectId) {
+        persist(
+          setCheckpointMutation({
+            label: trimmedLabel,
+            projectId,
+            sequence: entry.sequence,
+          }),
+          "save checkpoint",
+        );
+      }
+    },
+    [history, persist, projectId, setCheckpointMutation, setHistory],
+  );
+
+  /**
+   * Marks the current state as a named checkpoint
+   * @param label - Checkpoint name
+   */
+  const createCheckpoint = useCallback(
+    (label: string) => {
+      if (historyIndex === 0) return;
+      setCheckpoint(historyIndex - 1, label);
+    },
+    [historyIndex, setCheckpoint],
+  );
+
+  /**
+   * Removes the checkpoint name from a recorded step
+   * @param index - Position of the step in history
+   */
+  const removeCheckpoint = useCallback(
+    (index: number) => setCheckpoint(index, undefined),
+    [setCheckpoint],
+  );
+
+  /**
+   * Replaces in-memory history with the user's persisted history of a
+   * project, loading it page by page
+   * @param projectIdToLoad - Project to load, or null for an unsaved canvas
+   * @param userIdToLoad - Signed-in user, or null when signed out
+   */
+  const loadHistory = useCallback(
+    async (
+      projectIdToLoad: Id<"projects"> | null,
+      userIdToLoad: string | null,
+    ) => {
+      const loadingKey =
+        projectIdToLoad && userIdToLoad
+          ? `${projectIdToLoad}:${userIdToLoad}`
+          : null;
+      loadingKeyRef.current = loadingKey;
+      setHistory([]);
+      setHistoryIndex(0);
+      setHistoryHead(null);
+
+      if (!projectIdToLoad || !loadingKey) return;
 
-  // Save initial state
+      const entries: HistoryEntry[] = [];
+      let cursor: string | undefined;
+      let position: number | undefined;
+      for (;;) {
+        const pageResult = await tryPromise(
+          convexClient.query(api.projectHistory.getHistory, {
+            cursor,
+            projectId: projectIdToLoad,
+          }),
+        );
+        if (isErr(pageResult)) {
+          log.warn("Failed to load history", getErrorMessage(pageResult));
+          return;
+        }
+
+        // Project or user changed while loading
+        if (loadingKeyRef.current !== loadingKey) return;
+
+        const pageEntries = await Promise.all(
+          pageResult.entries.map(async (entry) => ({
+            createdAt: entry.createdAt,
+            label: entry.label,
+            patch: await hydrateHistoryPatch(parseHistoryPatch(entry.patch)),
+            sequence: entry.sequence,
+          })),
+        );
+        entries.push(...pageEntries);
+        position = pageResult.position;
+
+        if (pageResult.isDone) break;
+        cursor = pageResult.continueCursor;
+      }
+
+      if (loadingKeyRef.current !== loadingKey) return;
+
+      const firstUndone = position ?? Number.POSITIVE_INFINITY;
+      setHistory(entries);
+      setHistoryIndex(
+        entries.filter((entry) => entry.sequence < firstUndone).length,
+      );
+    },
+    [convexClient, setHistory, setHistoryHead, setHistoryIndex],
+  );
+
+  // Load history when the project or the signed-in user changes
   useEffect(() => {
-    if (history.length === 0) {
-      saveToHistory();
-    }
-  }, [history.length, saveToHistory]);
+    void loadHistory(projectId, userId);
+  }, [loadHistory, projectId, userId]);
 
   return {
     canRedo,
     canUndo,
+    createCheckpoint,
+    goToIndex,
     history,
     historyIndex,
     redo,
+    removeCheckpoint,
     saveToHistory,
-    setHistoryIndex,
     undo,
   };
 }
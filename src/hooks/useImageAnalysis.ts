@@ -0,0 +1,52 @@
+/**
+ * Image analysis cache hook.
+ *
+ * Invalidates the analysis cached on an image's asset, so the next variation
+ * run analyzes the image again.
+ */
+
+"use client";
+
+import { getErrorMessage, isErr, tryPromise } from "@/lib/errors/safe-errors";
+import { useMutation } from "convex/react";
+import { useCallback } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+/**
+ * Hook for managing cached image analyses.
+ *
+ * @returns Cache operations
+ *
+ * @remarks
+ * - Failed operations throw errors that should be caught by caller
+ *
+ * @example
+ * ```tsx
+ * const { clearAnalysis } = useImageAnalysis();
+ * await clearAnalysis(image.assetId);
+ * ```
+ */
+export function useImageAnalysis() {
+  const clearAnalysisMutation = useMutation(api.assets.clearAnalysis);
+
+  /**
+   * Clears the cached analysis of an asset.
+   */
+  const clearAnalysis = useCallback(
+    async (assetId: string): Promise<void> => {
+      const clearResult = await tryPromise(
+        clearAnalysisMutation({ assetId: assetId as Id<"assets"> }),
+      );
+
+      if (isErr(clearResult)) {
+        throw new Error(
+          `Clearing the image analysis failed: ${getErrorMessage(clearResult)}`,
+        );
+      }
+    },
+    [clearAnalysisMutation],
+  );
+
+  return { clearAnalysis };
+}
@@ -1,5 +1,6 @@
 import type {
   GenerationSettings,
+  PlacedAnnotation,
   PlacedImage,
   PlacedVideo,
 } from "@/types/canvas";
@@ -7,6 +8,7 @@ import type { Viewport } from "@/utils/viewport-utils";
 import { useEffect, useRef } from "react";
 
 interface UseKeyboardShortcutsProps {
+  annotations?: PlacedAnnotation[];
   bringForward: () => void;
   canvasSize: { width: number; height: number };
   generationSettings: GenerationSettings;
@@ -28,6 +30,7 @@ interface UseKeyboardShortcutsProps {
 }
 
 export function useKeyboardShortcuts({
+  annotations = [],
   bringForward,
   canvasSize,
   generationSettings,
@@ -49,6 +52,7 @@ export function useKeyboardShortcuts({
 }: UseKeyboardShortcutsProps) {
   // Use ref to store latest props without triggering effect re-runs
   const propsRef = useRef({
+    annotations,
     bringForward,
     canvasSize,
     generationSettings,
@@ -71,6 +75,7 @@ export function useKeyboardShortcuts({
 
   // Update ref on every render
   propsRef.current = {
+    annotations,
     bringForward,
     canvasSize,
     generationSettings,
@@ -94,6 +99,7 @@ export function useKeyboardShortcuts({
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       const {
+        annotations,
         bringForward,
         canvasSize,
         generationSettings,
@@ -133,6 +139,7 @@ export function useKeyboardShortcuts({
         const allIds = [
           ...images.map((img) => img.id),
           ...videos.map((vid) => vid.id),
+          ...annotations.map((annotation) => annotation.id),
         ];
         setSelectedIds(allIds);
       }
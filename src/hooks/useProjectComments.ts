@@ -0,0 +1,232 @@
+/**
+ * Project comments hook.
+ *
+ * Lists a project's review comment threads and wraps the comment mutations.
+ */
+
+"use client";
+
+import { getErrorMessage, isErr, tryPromise } from "@/lib/errors/safe-errors";
+import type { CommentPinTarget } from "@/lib/handlers/comment-handlers";
+import { useMutation, useQuery } from "convex/react";
+import { useCallback, useMemo } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+
+/**
+ * A comment thread: the pinned root comment and its replies.
+ */
+export interface CommentThread {
+  /** Replies, oldest first */
+  replies: Doc<"projectComments">[];
+
+  /** Root comment carrying the pin and resolved state */
+  root: Doc<"projectComments">;
+}
+
+/**
+ * Gets the email handle used to mention a user, e.g. "alex" for
+ * alex@example.com.
+ */
+export function getMentionHandle(email: string) {
+  return email.split("@")[0];
+}
+
+/**
+ * Finds the users mentioned as @handle in a comment.
+ *
+ * @param body - Comment text
+ * @param users - Users who can be mentioned
+ * @returns Clerk user IDs of mentioned users
+ */
+export function extractMentions(
+  body: string,
+  users: { email: string; userId: string }[],
+) {
+  const handles = new Set(
+    [...body.matchAll(/@([\w.+-]+)/g)].map((match) => match[1].toLowerCase()),
+  );
+
+  return users
+    .filter((user) => handles.has(getMentionHandle(user.email).toLowerCase()))
+    .map((user) => user.userId);
+}
+
+/**
+ * Hook for a project's review comments.
+ *
+ * @param projectId - Open project, or null to skip loading
+ * @returns Threads, mentionable users and comment operations
+ *
+ * @remarks
+ * - Mentions are extracted from the text, so callers only pass the body
+ * - Failed operations throw errors that should be caught by caller
+ *
+ * @example
+ * ```tsx
+ * const { createThread, threads } = useProjectComments(projectId);
+ * await createThread({ position: { x: 100, y: 80 } }, "Brighter sky?");
+ * ```
+ */
+export function useProjectComments(projectId: Id<"projects"> | null) {
+  const createCommentMutation = useMutation(api.comments.createComment);
+  const deleteCommentMutation = useMutation(api.comments.deleteComment);
+  const setCommentResolvedMutation = useMutation(
+    api.comments.setCommentResolved,
+  );
+  const updateCommentMutation = useMutation(api.comments.updateComment);
+
+  const commentsQuery = useQuery(
+    api.comments.listComments,
+    projectId ? { projectId } : "skip",
+  );
+  const mentionableUsersQuery = useQuery(
+    api.comments.listMentionableUsers,
+    projectId ? { projectId } : "skip",
+  );
+
+  const mentionableUsers = useMemo(
+    () => mentionableUsersQuery ?? [],
+    [mentionableUsersQuery],
+  );
+
+  const threads = useMemo((): CommentThread[] => {
+    const comments = commentsQuery ?? [];
+    const repliesByRoot = new Map<string, Doc<"projectComments">[]>();
+
+    for (const comment of comments) {
+      if (comment.parentId) {
+        const replies = repliesByRoot.get(comment.parentId) ?? [];
+        replies.push(comment);
+        repliesByRoot.set(comment.parentId, replies);
+      }
+    }
+
+    return comments
+      .filter((comment) => !comment.parentId)
+      .map((root) => ({ replies: repliesByRoot.get(root._id) ?? [], root }));
+  }, [commentsQuery]);
+
+  /**
+   * Starts a comment thread at a pin.
+   *
+   * @returns ID of the root comment
+   */
+  const createThread = useCallback(
+    async (
+      target: CommentPinTarget,
+      body: string,
+    ): Promise<Id<"projectComments">> => {
+      if (!projectId) {
+        throw new Error("No project selected");
+      }
+
+      const createResult = await tryPromise(
+        createCommentMutation({
+          body,
+          elementId: target.elementId,
+          mentions: extractMentions(body, mentionableUsers),
+          position: target.position,
+          projectId,
+        }),
+      );
+
+      if (isErr(createResult)) {
+        throw new Error(`Comment failed: ${getErrorMessage(createResult)}`);
+      }
+
+      return createResult;
+    },
+    [createCommentMutation, mentionableUsers, projectId],
+  );
+
+  /**
+   * Replies to a comment thread.
+   */
+  const reply = useCallback(
+    async (rootId: Id<"projectComments">, body: string): Promise<void> => {
+      if (!projectId) {
+        throw new Error("No project selected");
+      }
+
+      const replyResult = await tryPromise(
+        createCommentMutation({
+          body,
+          mentions: extractMentions(body, mentionableUsers),
+          parentId: rootId,
+          projectId,
+        }),
+      );
+
+      if (isErr(replyResult)) {
+        throw new Error(`Reply failed: ${getErrorMessage(replyResult)}`);
+      }
+    },
+    [createCommentMutation, mentionableUsers, projectId],
+  );
+
+  /**
+   * Edits one of the user's own comments.
+   */
+  const editComment = useCallback(
+    async (commentId: Id<"projectComments">, body: string): Promise<void> => {
+      const updateResult = await tryPromise(
+        updateCommentMutation({
+          body,
+          commentId,
+          mentions: extractMentions(body, mentionableUsers),
+        }),
+      );
+
+      if (isErr(updateResult)) {
+        throw new Error(`Edit failed: ${getErrorMessage(updateResult)}`);
+      }
+    },
+    [mentionableUsers, updateCommentMutation],
+  );
+
+  /**
+   * Resolves or reopens a thread.
+   */
+  const setResolved = useCallback(
+    async (rootId: Id<"projectComments">, resolved: boolean): Promise<void> => {
+      const resolveResult = await tryPromise(
+        setCommentResolvedMutation({ commentId: rootId, resolved }),
+      );
+
+      if (isErr(resolveResult)) {
+        throw new Error(
+          `${resolved ? "Resolve" : "Reopen"} failed: ${getErrorMessage(resolveResult)}`,
+        );
+      }
+    },
+    [setCommentResolvedMutation],
+  );
+
+  /**
+   * Deletes a comment, or a whole thread when given its root.
+   */
+  const deleteComment = useCallback(
+    async (commentId: Id<"projectComments">): Promise<void> => {
+      const deleteResult = await tryPromise(
+        deleteCommentMutation({ commentId }),
+      );
+
+      if (isErr(deleteResult)) {
+        throw new Error(`Delete failed: ${getErrorMessage(deleteResult)}`);
+      }
+    },
+    [deleteCommentMutation],
+  );
+
+  return {
+    createThread,
+    deleteComment,
+    editComment,
+    isLoading: !!projectId && commentsQuery === undefined,
+    mentionableUsers,
+    reply,
+    setResolved,
+    threads,
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * Project presence hook.
+ *
+ * Shares the current user's cursor and selection with collaborators on the
+ * same project, and lists who else has it open.
+ */
+
+"use client";
+
+import { getErrorMessage, isErr, tryPromise } from "@/lib/errors/safe-errors";
+import { logger } from "@/lib/logger";
+import { throttle } from "@/utils/performance";
+import { useMutation, useQuery } from "convex/react";
+import { useCallback, useEffect, useMemo } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+const log = logger.sync;
+
+/**
+ * Interval between presence heartbeats. Must stay well below the server's
+ * presence timeout so open projects are not treated as left.
+ */
+const HEARTBEAT_INTERVAL_MS = 10_000;
+
+/**
+ * Minimum time between cursor updates.
+ */
+const CURSOR_THROTTLE_MS = 100;
+
+/**
+ * Colors assigned to collaborators for cursors and lock outlines.
+ */
+const COLLABORATOR_COLORS = [
+  "#f97316",
+  "#22c55e",
+  "#a855f7",
+  "#ec4899",
+  "#eab308",
+  "#14b8a6",
+  "#ef4444",
+  "#6366f1",
+];
+
+/**
+ * A user with the same project open.
+ */
+export interface Collaborator {
+  /** Color identifying the collaborator on the canvas */
+  color: string;
+
+  /** Pointer position in canvas coordinates, if on the canvas */
+  cursor?: { x: number; y: number };
+
+  /** Avatar URL */
+  imageUrl?: string;
+
+  /** Display name */
+  name: string;
+
+  /** Element IDs the collaborator has selected */
+  selectedIds: string[];
+
+  /** User ID */
+  userId: string;
+}
+
+/**
+ * Picks a stable color for a user, so everyone sees the same color for them.
+ */
+function getCollaboratorColor(userId: string) {
+  let hash = 0;
+  for (const char of userId) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+
+  return COLLABORATOR_COLORS[Math.abs(hash) % COLLABORATOR_COLORS.length];
+}
+
+/**
+ * Hook for real-time presence on a project.
+ *
+ * @param projectId - Open project, or null when no project is loaded
+ * @param selectedIds - The current user's selected element IDs
+ * @returns Collaborators, the elements they lock, and a cursor updater
+ *
+ * @remarks
+ * - Sends a heartbeat while the project is open and whenever the selection
+ *   changes; presence is removed when the project is closed
+ * - Cursor updates are throttled; pass null when the pointer leaves
+ * - Presence failures are logged, not surfaced, since they never block editing
+ *
+ * @example
+ * ```tsx
+ * const { collaborators, lockedIds, updateCursor } = useProjectPresence(
+ *   projectId,
+ *   selectedIds,
+ * );
+ * ```
+ */
+export function useProjectPresence(
+  projectId: Id<"projects"> | null,
+  selectedIds: string[],
+) {
+  const updatePresenceMutation = useMutation(api.collaboration.updatePresence);
+  const leaveProjectMutation = useMutation(api.collaboration.leaveProject);
+
+  const presenceQuery = useQuery(
+    api.collaboration.listPresence,
+    projectId ? { projectId } : "skip",
+  );
+
+  /**
+   * Sends a presence update, logging failures.
+   */
+  const sendPresence = useCallback(
+    async (update: {
+      cursor?: { x: number; y: number } | null;
+      projectId: Id<"projects">;
+      selectedIds?: string[];
+    }) => {
+      const updateResult = await tryPromise(updatePresenceMutation(update));
+
+      if (isErr(updateResult)) {
+        log.warn("Presence update failed", getErrorMessage(updateResult));
+      }
+    },
+    [updatePresenceMutation],
+  );
+
+  // Heartbeat, restarted with the new selection whenever it changes
+  useEffect(() => {
+    if (!projectId) return;
+
+    void sendPresence({ projectId, selectedIds });
+    const intervalId = setInterval(() => {
+      void sendPresence({ projectId, selectedIds });
+    }, HEARTBEAT_INTERVAL_MS);
+
+    return () => clearInterval(intervalId);
+  }, [projectId, selectedIds, sendPresence]);
+
+  // Release locks as soon as the project is closed
+  useEffect(() => {
+    if (!projectId) return;
+
+    return () => {
+      void tryPromise(leaveProjectMutation({ projectId }));
+    };
+  }, [leaveProjectMutation, projectId]);
+
+  /**
+   * Updates the current user's cursor position in canvas coordinates.
+   */
+  const updateCursor = useMemo(
+    () =>
+      throttle((cursor: { x: number; y: number } | null) => {
+        if (projectId) {
+          void sendPresence({ cursor, projectId });
+        }
+      }, CURSOR_THROTTLE_MS),
+    [projectId, sendPresence],
+  );
+
+  const collaborators = useMemo<Collaborator[]>(
+    () =>
+      (presenceQuery ?? []).map((presence) => ({
+        ...presence,
+        color: getCollaboratorColor(presence.userId),
+      })),
+    [presenceQuery],
+  );
+
+  // Element ID → color of the collaborator who has it selected
+  const lockedIds = useMemo(() => {
+    const locked = new Map<string, string>();
+    for (const collaborator of collaborators) {
+      for (const id of collaborator.selectedIds) {
+        locked.set(id, collaborator.color);
+      }
+    }
+    return locked;
+  }, [collaborators]);
+
+  return {
+    collaborators,
+    lockedIds,
+    updateCursor,
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Project share links hook.
+ *
+ * Lists, creates, and revokes read-only share links for a project.
+ */
+
+"use client";
+
+import { getErrorMessage, isErr, tryPromise } from "@/lib/errors/safe-errors";
+import { useMutation, useQuery } from "convex/react";
+import { useCallback } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+/**
+ * Builds the public URL of a share link.
+ *
+ * @param token - Share link token
+ * @returns Absolute URL of the read-only project view
+ */
+export function getShareUrl(token: string) {
+  return `${window.location.origin}/share/${token}`;
+}
+
+/**
+ * Hook for managing a project's share links.
+ *
+ * @param projectId - Project to manage links for, or null to skip loading
+ * @returns Share links and share operations
+ *
+ * @remarks
+ * - Requires the editor role on the project
+ * - Failed operations throw errors that should be caught by caller
+ *
+ * @example
+ * ```tsx
+ * const { createShare } = useProjectShares(projectId);
+ * const token = await createShare(7);
+ * ```
+ */
+export function useProjectShares(projectId: Id<"projects"> | null) {
+  const createShareMutation = useMutation(api.shares.createShare);
+  const revokeShareMutation = useMutation(api.shares.revokeShare);
+
+  const sharesQuery = useQuery(
+    api.shares.listShares,
+    projectId ? { projectId } : "skip",
+  );
+
+  /**
+   * Creates a share link, optionally expiring after the given days.
+   *
+   * @returns Token of the new link
+   */
+  const createShare = useCallback(
+    async (expiresInDays?: number): Promise<string> => {
+      if (!projectId) {
+        throw new Error("No project selected");
+      }
+
+      const createResult = await tryPromise(
+        createShareMutation({ expiresInDays, projectId }),
+      );
+
+      if (isErr(createResult)) {
+        throw new Error(
+          `Share link creation failed: ${getErrorMessage(createResult)}`,
+        );
+      }
+
+      return createResult.token;
+    },
+    [createShareMutation, projectId],
+  );
+
+  /**
+   * Revokes a share link.
+   */
+  const revokeShare = useCallback(
+    async (shareId: Id<"projectShares">): Promise<void> => {
+      const revokeResult = await tryPromise(revokeShareMutation({ shareId }));
+
+      if (isErr(revokeResult)) {
+        throw new Error(
+          `Share link revocation failed: ${getErrorMessage(revokeResult)}`,
+        );
+      }
+    },
+    [revokeShareMutation],
+  );
+
+  return {
+    createShare,
+    isLoading: !!projectId && sharesQuery === undefined,
+    revokeShare,
+    shares: sharesQuery ?? [],
+  };
+}
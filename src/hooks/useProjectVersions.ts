@@ -0,0 +1,118 @@
+/**
+ * Project version snapshots hook.
+ *
+ * Lists, creates, compares, and restores version snapshots of a project's
+ * canvas state stored in Convex.
+ */
+
+"use client";
+
+import { getErrorMessage, isErr, tryPromise } from "@/lib/errors/safe-errors";
+import { currentProjectAtom } from "@/store/project-atoms";
+import { useConvex, useMutation, useQuery } from "convex/react";
+import { useSetAtom } from "jotai";
+import { useCallback } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { useProjects } from "./useProjects";
+
+/**
+ * Hook for browsing and restoring a project's version snapshots.
+ *
+ * @param projectId - Project to manage versions for, or null to skip loading
+ * @returns Version list and version operations
+ *
+ * @example
+ * ```tsx
+ * const { restoreVersion, versions } = useProjectVersions(projectId);
+ * await restoreVersion(versions[0]._id);
+ * ```
+ */
+export function useProjectVersions(projectId: Id<"projects"> | null) {
+  const { currentProject, loadProject } = useProjects();
+  const setCurrentProject = useSetAtom(currentProjectAtom);
+  const convex = useConvex();
+
+  const createVersionMutation = useMutation(api.projects.createVersion);
+  const restoreVersionMutation = useMutation(api.projects.restoreVersion);
+
+  const versionsQuery = useQuery(
+    api.projects.listVersions,
+    projectId ? { projectId } : "skip",
+  );
+
+  /**
+   * Saves a named snapshot of the project's last saved state.
+   */
+  const createVersion = useCallback(
+    async (label?: string): Promise<void> => {
+      if (!projectId) return;
+
+      const createResult = await tryPromise(
+        createVersionMutation({ label, projectId }),
+      );
+
+      if (isErr(createResult)) {
+        throw new Error(
+          `Version save failed: ${getErrorMessage(createResult)}`,
+        );
+      }
+    },
+    [createVersionMutation, projectId],
+  );
+
+  /**
+   * Compares a version with the project's current state.
+   */
+  const getVersionDiff = useCallback(
+    async (versionId: Id<"projectVersions">) => {
+      const diffResult = await tryPromise(
+        convex.query(api.projects.diffVersion, { versionId }),
+      );
+
+      if (isErr(diffResult)) {
+        throw new Error(
+          `Version comparison failed: ${getErrorMessage(diffResult)}`,
+        );
+      }
+
+      return diffResult;
+    },
+    [convex],
+  );
+
+  /**
+   * Restores a version.
+   *
+   * When the project is open, it is closed and reopened so useStorage and
+   * history reload the restored state instead of autosaving over it.
+   */
+  const restoreVersion = useCallback(
+    async (versionId: Id<"projectVersions">): Promise<void> => {
+      const restoreResult = await tryPromise(
+        restoreVersionMutation({ versionId }),
+      );
+
+      if (isErr(restoreResult)) {
+        throw new Error(
+          `Version restore failed: ${getErrorMessage(restoreResult)}`,
+        );
+      }
+
+      if (currentProject?._id === restoreResult) {
+        setCurrentProject(null);
+        await loadProject(restoreResult);
+      }
+    },
+    [currentProject, loadProject, restoreVersionMutation, setCurrentProject],
+  );
+
+  return {
+    createVersion,
+    getVersionDiff,
+    isLoading: !!projectId && versionsQuery === undefined,
+    limit: versionsQuery?.limit ?? 0,
+    restoreVersion,
+    versions: versionsQuery?.versions ?? [],
+  };
+}
@@ -1,7 +1,8 @@
 /**
  * Custom hook for project CRUD operations.
  *
- * Provides functions to create, save, load, delete, and rename projects.
+ * Provides functions to create, save, load, delete, duplicate, archive,
+ * restore, and rename projects.
  * Integrates with Convex backend and updates Jotai atoms for state management.
  */
 
@@ -33,12 +34,30 @@ import { useAuth } from "./useAuth";
  * Return type for the useProjects hook.
  */
 interface UseProjectsReturn {
+  /** Archives a project, hiding it from the active list */
+  archiveProject: (projectId: Id<"projects">) => Promise<void>;
+
+  /** List of the user's archived projects */
+  archivedProjects: ProjectMetadata[];
+
   /** Creates a new project with optional name */
   createProject: (name?: string) => Promise<Id<"projects">>;
 
   /** Current project (null if no project loaded) */
   currentProject: Project | null;
 
+  /** Permanently deletes a project, optionally with its orphaned assets */
+  deleteProject: (
+    projectId: Id<"projects">,
+    options?: { deleteOrphanedAssets?: boolean },
+  ) => Promise<number>;
+
+  /** Duplicates a project and returns the new project's ID */
+  duplicateProject: (
+    projectId: Id<"projects">,
+    name?: string,
+  ) => Promise<Id<"projects">>;
+
   /** Whether a project is currently loading */
   isLoading: boolean;
 
@@ -57,6 +76,9 @@ interface UseProjectsReturn {
   /** Renames a project */
   renameProject: (projectId: Id<"projects">, name: string) => Promise<void>;
 
+  /** Restores an archived project */
+  restoreProject: (projectId: Id<"projects">) => Promise<void>;
+
   /** Saves current project canvas state */
   saveProject: (
     projectId: Id<"projects">,
@@ -129,12 +151,20 @@ export function useProjects(): UseProjectsReturn {
   const createProjectMutation = useMutation(api.projects.createProject);
   const saveProjectMutation = useMutation(api.projects.saveProject);
   const renameProjectMutation = useMutation(api.projects.renameProject);
+  const deleteProjectMutation = useMutation(api.projects.deleteProject);
+  const duplicateProjectMutation = useMutation(api.projects.duplicateProject);
+  const archiveProjectMutation = useMutation(api.projects.archiveProject);
+  const restoreProjectMutation = useMutation(api.projects.restoreProject);
 
   // Convex queries - only run when authenticated
   const projectsQuery = useQuery(
     api.projects.listProjects,
     isAuthenticated ? { limit: 50 } : "skip",
   );
+  const archivedProjectsQuery = useQuery(
+    api.projects.listProjects,
+    isAuthenticated ? { archived: true, limit: 50 } : "skip",
+  );
 
   // Memoize project list to avoid unnecessary recalculations
   const projectMetadata = useMemo(() => {
@@ -147,10 +177,28 @@ export function useProjects(): UseProjectsReturn {
       lastSavedAt: project.lastSavedAt,
       thumbnailUrl: project.thumbnailUrl,
       imageCount: project.imageCount ?? 0,
+      unresolvedCommentCount: project.unresolvedCommentCount ?? 0,
       videoCount: project.videoCount ?? 0,
     }));
   }, [projectsQuery]);
 
+  // Archived projects are read straight from the query; no atom needed
+  const archivedProjects = useMemo(
+    (): ProjectMetadata[] =>
+      (archivedProjectsQuery ?? []).map((project) => ({
+        archivedAt: project.archivedAt,
+        id: project._id,
+        name: project.name,
+        createdAt: project.createdAt,
+        lastSavedAt: project.lastSavedAt,
+        thumbnailUrl: project.thumbnailUrl,
+        imageCount: project.imageCount ?? 0,
+        unresolvedCommentCount: project.unresolvedCommentCount ?? 0,
+        videoCount: project.videoCount ?? 0,
+      })),
+    [archivedProjectsQuery],
+  );
+
   // Update project list only when metadata changes
   useEffect(() => {
     if (projectMetadata) {
@@ -227,6 +275,7 @@ export function useProjects(): UseProjectsReturn {
           lastSavedAt: project.lastSavedAt,
           thumbnailUrl: project.thumbnailUrl,
           imageCount: project.imageCount ?? 0,
+          unresolvedCommentCount: project.unresolvedCommentCount ?? 0,
           videoCount: project.videoCount ?? 0,
         };
 
@@ -349,15 +398,128 @@ export function useProjects(): UseProjectsReturn {
     ],
   );
 
+  /**
+   * Closes the current project if it matches the given ID.
+   *
+   * Clearing currentProject makes useStorage reset the canvas, so the
+   * deleted or archived project's elements are not autosaved back.
+   */
+  const closeIfCurrent = useCallback(
+    (projectId: Id<"projects">) => {
+      if (currentProject?._id === projectId) {
+        setCurrentProject(null);
+        setLastSavedAt(null);
+      }
+      setProjectList((prev) => prev.filter((p) => p.id !== projectId));
+    },
+    [currentProject, setCurrentProject, setLastSavedAt, setProjectList],
+  );
+
+  /**
+   * Permanently deletes a project.
+   *
+   * @returns Number of orphaned assets deleted alongside the project
+   */
+  const deleteProject = useCallback(
+    async (
+      projectId: Id<"projects">,
+      options?: { deleteOrphanedAssets?: boolean },
+    ): Promise<number> => {
+      const deleteResult = await tryPromise(
+        deleteProjectMutation({
+          projectId,
+          deleteOrphanedAssets: options?.deleteOrphanedAssets,
+        }),
+      );
+
+      if (isErr(deleteResult)) {
+        throw new Error(
+          `Project deletion failed: ${getErrorMessage(deleteResult)}`,
+        );
+      }
+
+      closeIfCurrent(projectId);
+
+      return deleteResult.deletedAssetCount;
+    },
+    [deleteProjectMutation, closeIfCurrent],
+  );
+
+  /**
+   * Duplicates a project.
+   */
+  const duplicateProject = useCallback(
+    async (projectId: Id<"projects">, name?: string) => {
+      const duplicateResult = await tryPromise(
+        duplicateProjectMutation({ projectId, name }),
+      );
+
+      if (isErr(duplicateResult)) {
+        throw new Error(
+          `Project duplication failed: ${getErrorMessage(duplicateResult)}`,
+        );
+      }
+
+      // Project list will update automatically via query
+      return duplicateResult;
+    },
+    [duplicateProjectMutation],
+  );
+
+  /**
+   * Archives a project.
+   */
+  const archiveProject = useCallback(
+    async (projectId: Id<"projects">): Promise<void> => {
+      const archiveResult = await tryPromise(
+        archiveProjectMutation({ projectId }),
+      );
+
+      if (isErr(archiveResult)) {
+        throw new Error(
+          `Project archive failed: ${getErrorMessage(archiveResult)}`,
+        );
+      }
+
+      closeIfCurrent(projectId);
+    },
+    [archiveProjectMutation, closeIfCurrent],
+  );
+
+  /**
+   * Restores an archived project.
+   */
+  const restoreProject = useCallback(
+    async (projectId: Id<"projects">): Promise<void> => {
+      const restoreResult = await tryPromise(
+        restoreProjectMutation({ projectId }),
+      );
+
+      if (isErr(restoreResult)) {
+        throw new Error(
+          `Project restore failed: ${getErrorMessage(restoreResult)}`,
+        );
+      }
+
+      // Project lists will update automatically via query
+    },
+    [restoreProjectMutation],
+  );
+
   return {
+    archiveProject,
+    archivedProjects,
     createProject,
     currentProject, // Return committed project, not optimistic (fixes race condition)
+    deleteProject,
+    duplicateProject,
     isLoading,
     isSaving,
     lastSavedAt,
     loadProject,
     projects: projectList,
     renameProject,
+    restoreProject,
     saveProject,
   };
 }
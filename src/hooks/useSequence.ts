@@ -0,0 +1,314 @@
+/**
+ * Video sequence hook.
+ *
+ * Edits the sequence of clips on the timeline and renders it to an MP4 that
+ * can be downloaded or placed on the canvas as a new video.
+ */
+
+"use client";
+
+import { CANVAS_DIMENSIONS, VIDEO_DEFAULTS } from "@/constants/canvas";
+import { getErrorMessage, isErr, tryPromise } from "@/lib/errors/safe-errors";
+import { logger } from "@/lib/logger";
+import { renderSequenceToMp4 } from "@/lib/sequence/sequence-renderer";
+import { createStorageService } from "@/lib/storage";
+import { sequenceClipsAtom } from "@/store/canvas-atoms";
+import type { PlacedImage, PlacedVideo } from "@/types/canvas";
+import type { SequenceClip, SequenceRenderProgress } from "@/types/sequence";
+import {
+  clampClipTrim,
+  createSequenceClip,
+  getSequenceTimeline,
+  orderVideosByStoryline,
+} from "@/utils/sequence-utils";
+import { useAtom } from "jotai";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+const log = logger.video;
+
+/**
+ * A rendered sequence, kept until the sequence changes.
+ */
+export interface SequenceRender {
+  /** Rendered file */
+  blob: Blob;
+  /** Length in seconds */
+  duration: number;
+  /** Clips the render was made from, as produced by getClipsSignature */
+  signature: string;
+  /** Object URL of the file, revoked when the render is replaced */
+  url: string;
+}
+
+/**
+ * Identifies the edit of a sequence, to tell whether a render is current.
+ */
+function getClipsSignature(clips: SequenceClip[]) {
+  return JSON.stringify(
+    clips.map((clip) => [
+      clip.videoId,
+      clip.inPoint,
+      clip.outPoint,
+      clip.transition,
+    ]),
+  );
+}
+
+/**
+ * Hook for editing and rendering the video sequence.
+ *
+ * @param images - Images on the canvas, for storyline beats
+ * @param videos - Videos on the canvas
+ * @param setVideos - Canvas video setter, used to place renders
+ * @param userId - Current user, required to save renders to storage
+ * @returns Clips, timeline, editing operations and render state
+ *
+ * @remarks
+ * - Clips whose video was removed from the canvas are dropped
+ * - Editing the sequence discards the previous render
+ * - Failed operations throw errors that should be caught by caller
+ *
+ * @example
+ * ```tsx
+ * const sequence = useSequence(images, videos, setVideos, userId);
+ * sequence.arrangeByStoryline();
+ * await sequence.render();
+ * ```
+ */
+export function useSequence(
+  images: PlacedImage[],
+  videos: PlacedVideo[],
+  setVideos: (fn: (prev: PlacedVideo[]) => PlacedVideo[]) => void,
+  userId?: string | null,
+) {
+  const [storedClips, setClips] = useAtom(sequenceClipsAtom);
+  const [progress, setProgress] = useState<SequenceRenderProgress | null>(null);
+  const [lastRender, setLastRender] = useState<SequenceRender | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const videosById = useMemo(
+    () => new Map(videos.map((video) => [video.id, video])),
+    [videos],
+  );
+
+  const clips = useMemo(
+    () => storedClips.filter((clip) => videosById.has(clip.videoId)),
+    [storedClips, videosById],
+  );
+
+  const timeline = useMemo(() => getSequenceTimeline(clips), [clips]);
+  const signature = useMemo(() => getClipsSignature(clips), [clips]);
+
+  // A render only matches the clips it was made from
+  const currentRender = lastRender?.signature === signature ? lastRender : null;
+
+  useEffect(() => {
+    if (!lastRender) return;
+    return () => URL.revokeObjectURL(lastRender.url);
+  }, [lastRender]);
+
+  /**
+   * Replaces the sequence with every finished video, in storyline order.
+   */
+  const arrangeByStoryline = useCallback(() => {
+    setClips(orderVideosByStoryline(videos, images).map(createSequenceClip));
+  }, [images, setClips, videos]);
+
+  /**
+   * Appends videos to the end of the sequence.
+   */
+  const addVideos = useCallback(
+    (videoIds: string[]) => {
+      const added = videoIds.flatMap((id) => {
+        const video = videosById.get(id);
+        return video?.src ? [createSequenceClip(video)] : [];
+      });
+      setClips((prev) => [...prev, ...added]);
+    },
+    [setClips, videosById],
+  );
+
+  /**
+   * Updates a clip's trim or transition; trims are clamped to the video.
+   */
+  const updateClip = useCallback(
+    (
+      clipId: string,
+      updates: Partial<
+        Pick<SequenceClip, "inPoint" | "outPoint" | "transition">
+      >,
+    ) => {
+      setClips((prev) =>
+        prev.map((clip) => {
+          if (clip.id !== clipId) return clip;
+
+          const duration = videosById.get(clip.videoId)?.duration;
+          const updated = { ...clip, ...updates };
+          return duration ? clampClipTrim(updated, duration) : updated;
+        }),
+      );
+    },
+    [setClips, videosById],
+  );
+
+  /**
+   * Moves a clip earlier (-1) or later (+1) in the sequence.
+   */
+  const moveClip = useCallback(
+    (clipId: string, direction: -1 | 1) => {
+      setClips((prev) => {
+        const index = prev.findIndex((clip) => clip.id === clipId);
+        const target = index + direction;
+        if (index === -1 || target < 0 || target >= prev.length) return prev;
+
+        const next = [...prev];
+        [next[index], next[target]] = [next[target], next[index]];
+        return next;
+      });
+    },
+    [setClips],
+  );
+
+  const removeClip = useCallback(
+    (clipId: string) => {
+      setClips((prev) => prev.filter((clip) => clip.id !== clipId));
+    },
+    [setClips],
+  );
+
+  const clearClips = useCallback(() => {
+    setClips([]);
+  }, [setClips]);
+
+  /**
+   * Renders the sequence to an MP4.
+   *
+   * @returns The render, or null if it was cancelled
+   */
+  const render = useCallback(async (): Promise<SequenceRender | null> => {
+    const renderClips = clips.flatMap((clip) => {
+      const video = videosById.get(clip.videoId);
+      return video?.src ? [{ ...clip, src: video.src }] : [];
+    });
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setProgress({ frame: 0, totalFrames: 0 });
+
+    const renderResult = await tryPromise(
+      renderSequenceToMp4(renderClips, {
+        onProgress: setProgress,
+        signal: abortController.signal,
+      }),
+    );
+
+    abortControllerRef.current = null;
+    setProgress(null);
+
+    if (abortController.signal.aborted) {
+      return null;
+    }
+
+    if (isErr(renderResult)) {
+      throw new Error(`Render failed: ${getErrorMessage(renderResult)}`);
+    }
+
+    const result = {
+      blob: renderResult,
+      duration: timeline.duration,
+      signature,
+      url: URL.createObjectURL(renderResult),
+    };
+    setLastRender(result);
+    log.info("Sequence rendered", {
+      bytes: renderResult.size,
+      clips: renderClips.length,
+    });
+
+    return result;
+  }, [clips, signature, timeline.duration, videosById]);
+
+  const cancelRender = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  /**
+   * Uploads the last render and places it on the canvas after the
+   * rightmost clip of the sequence.
+   *
+   * @returns Canvas ID of the new video
+   */
+  const placeRender = useCallback(async (): Promise<string> => {
+    if (!currentRender) {
+      throw new Error("Render the sequence first");
+    }
+    if (!userId) {
+      throw new Error("Sign in to save the sequence");
+    }
+
+    const sourceVideos = clips.flatMap((clip) => {
+      const video = videosById.get(clip.videoId);
+      return video ? [video] : [];
+    });
+    const first = sourceVideos[0];
+
+    const uploadResult = await tryPromise(
+      createStorageService().upload(currentRender.blob, {
+        metadata: {
+          duration: currentRender.duration,
+          model: "sequence",
+        },
+        mimeType: "video/mp4",
+        type: "video",
+        userId,
+      }),
+    );
+
+    if (isErr(uploadResult)) {
+      throw new Error(`Upload failed: ${getErrorMessage(uploadResult)}`);
+    }
+
+    const rightEdge = sourceVideos.length
+      ? Math.max(...sourceVideos.map((video) => video.x + video.width))
+      : 0;
+    const video: PlacedVideo = {
+      assetId: uploadResult.assetId,
+      currentTime: VIDEO_DEFAULTS.CURRENT_TIME,
+      duration: currentRender.duration,
+      height: first?.height ?? 450,
+      id: `sequence-${Date.now()}`,
+      isLooping: VIDEO_DEFAULTS.IS_LOOPING,
+      isPlaying: VIDEO_DEFAULTS.IS_PLAYING,
+      isVideo: true,
+      muted: VIDEO_DEFAULTS.MUTED,
+      parentIds: [...new Set(sourceVideos.map((source) => source.id))],
+      rotation: VIDEO_DEFAULTS.ROTATION,
+      src: uploadResult.url,
+      volume: VIDEO_DEFAULTS.VOLUME,
+      width: first?.width ?? 800,
+      x: rightEdge + CANVAS_DIMENSIONS.IMAGE_SPACING,
+      y: first?.y ?? 0,
+    };
+
+    setVideos((prev) => [...prev, video]);
+    return video.id;
+  }, [clips, currentRender, setVideos, userId, videosById]);
+
+  return {
+    addVideos,
+    arrangeByStoryline,
+    cancelRender,
+    clearClips,
+    clips,
+    isRendering: progress !== null,
+    lastRender: currentRender,
+    moveClip,
+    placeRender,
+    progress,
+    removeClip,
+    render,
+    timeline,
+    updateClip,
+    videosById,
+  };
+}
@@ -1,19 +1,40 @@
 import { getCachedImageSrcById, registerImageSrc } from "@/hooks/useImageCache";
 import { PLACEHOLDER_URLS, UI_CONSTANTS } from "@/lib/constants";
 import { getErrorMessage, isErr, tryPromise } from "@/lib/errors/safe-errors";
+import { pruneEmptyFrames } from "@/lib/handlers/frame-handlers";
 import { logger } from "@/lib/logger";
 import { canvasStorage } from "@/lib/storage";
+import {
+  createElementSnapshot,
+  diffElementsFromSnapshot,
+  mergeElementChanges,
+  type ElementSnapshot,
+} from "@/lib/sync/conflict-resolver";
+import {
+  convertElementToImage,
+  convertElementToVideo,
+} from "@/lib/sync/element-converter";
 import { showError, showErrorFromException } from "@/lib/toast";
 import { currentProjectAtom } from "@/store/project-atoms";
-import type { PlacedImage, PlacedVideo } from "@/types/canvas";
-import type { CanvasState } from "@/types/project";
+import type {
+  GenerationProvenance,
+  PlacedAnnotation,
+  PlacedFrame,
+  PlacedImage,
+  PlacedVideo,
+} from "@/types/canvas";
+import type { CanvasElement, CanvasState } from "@/types/project";
 import {
+  annotationToCanvasElement,
+  canvasElementToAnnotation,
+  canvasElementToFrame,
+  frameToCanvasElement,
   imageToCanvasElement,
   videoToCanvasElement,
 } from "@/utils/canvas-utils";
 import { snapImagesToGrid } from "@/utils/snap-utils";
 import type { Viewport } from "@/utils/viewport-utils";
-import { useConvex, useMutation } from "convex/react";
+import { useConvex, useMutation, useQuery } from "convex/react";
 import { useAtomValue } from "jotai";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { api } from "../../convex/_generated/api";
@@ -27,6 +48,65 @@ const DEFAULT_VIEWPORT: Viewport = {
   y: 0,
 };
 
+/**
+ * Builds the proxy URL for media stored in Convex, used when a file is not
+ * in IndexedDB (e.g. added by a teammate on another device).
+ */
+function getStorageProxyUrl(storageId: string) {
+  return `/api/storage/proxy?storageId=${encodeURIComponent(storageId)}`;
+}
+
+/**
+ * Converts the runtime canvas to persisted elements.
+ */
+function buildCanvasElements(
+  images: PlacedImage[],
+  videos: PlacedVideo[],
+  annotations: PlacedAnnotation[],
+  frames: PlacedFrame[],
+): CanvasElement[] {
+  return [
+    ...images.map(imageToCanvasElement),
+    ...videos.map(videoToCanvasElement),
+    ...annotations.map(annotationToCanvasElement),
+    // Frames left without members have nothing to wrap, so drop them
+    ...pruneEmptyFrames(frames, [...images, ...videos]).map(
+      frameToCanvasElement,
+    ),
+  ];
+}
+
+/**
+ * Rebuilds a runtime element list from merged elements, reusing the current
+ * runtime objects of elements the merge did not touch.
+ *
+ * @param convert - Converts an updated element, or returns null when the
+ * element belongs to another list or cannot be shown yet
+ */
+function applyMergedElements<T extends { id: string }>(
+  elements: CanvasElement[],
+  current: T[],
+  updatedIds: Set<string>,
+  convert: (element: CanvasElement, existing?: T) => T | null,
+): T[] {
+  const currentById = new Map(current.map((item) => [item.id, item]));
+  const result: T[] = [];
+
+  for (const element of elements) {
+    const existing = currentById.get(element.id);
+    const item =
+      existing && !updatedIds.has(element.id)
+        ? existing
+        : convert(element, existing);
+
+    if (item) {
+      result.push(item);
+    }
+  }
+
+  return result;
+}
+
 export function useStorage(
   images: PlacedImage[],
   videos: PlacedVideo[],
@@ -35,6 +115,10 @@ export function useStorage(
   setVideos: (videos: PlacedVideo[]) => void,
   setViewport: (viewport: Viewport) => void,
   activeGenerationsSize: number,
+  annotations: PlacedAnnotation[] = [],
+  setAnnotations: (annotations: PlacedAnnotation[]) => void = () => {},
+  frames: PlacedFrame[] = [],
+  setFrames: (frames: PlacedFrame[]) => void = () => {},
 ) {
   const [isStorageLoaded, setIsStorageLoaded] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -42,6 +126,23 @@ export function useStorage(
   const saveProjectMutation = useMutation(api.projects.saveProject);
   const currentProject = useAtomValue(currentProjectAtom);
 
+  // Live saved elements, so teammates' changes show up without reloading
+  const liveCanvas = useQuery(
+    api.collaboration.getLiveCanvas,
+    currentProject?._id
+      ? { projectId: currentProject._id as Id<"projects"> }
+      : "skip",
+  );
+
+  // Elements as last synced with Convex: saves send only what changed since,
+  // and live updates are merged against it
+  const syncedElementsRef = useRef<ElementSnapshot>(new Map());
+  const appliedRevisionRef = useRef(-1);
+  const liveMergeRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Latest runtime canvas for merges that finish after async lookups
+  const latestCanvasRef = useRef({ annotations, frames, images, videos });
+
   // Track the last loaded project ID to prevent race conditions
   const lastLoadedProjectIdRef = useRef<string | null>(null);
 
@@ -54,10 +155,7 @@ export function useStorage(
   const saveToStorage = useCallback(async () => {
     setIsSaving(true);
     const canvasState: CanvasState = {
-      elements: [
-        ...images.map(imageToCanvasElement),
-        ...videos.map(videoToCanvasElement),
-      ],
+      elements: buildCanvasElements(images, videos, annotations, frames),
       backgroundColor: "#000",
       lastModified: Date.now(),
       viewport,
@@ -130,16 +228,23 @@ export function useStorage(
       }
     }
 
-    // Save to Convex if a project is loaded
-    if (currentProject?._id) {
+    // Save to Convex if a project is loaded and the user can edit it
+    if (currentProject?._id && currentProject.role !== "viewer") {
+      // Only elements changed here are applied, keeping teammates' changes
       const saveResult = await tryPromise(
         saveProjectMutation({
           projectId: currentProject._id as Id<"projects">,
           canvasState,
+          operations: diffElementsFromSnapshot(
+            syncedElementsRef.current,
+            canvasState.elements,
+          ),
         }),
       );
 
-      if (isErr(saveResult)) {
+      if (!isErr(saveResult)) {
+        syncedElementsRef.current = createElementSnapshot(canvasState.elements);
+      } else {
         showErrorFromException(
           "Save failed",
           saveResult.payload,
@@ -154,7 +259,16 @@ export function useStorage(
       () => setIsSaving(false),
       UI_CONSTANTS.SAVING_INDICATOR_DELAY_MS,
     );
-  }, [currentProject?._id, images, saveProjectMutation, videos, viewport]);
+  }, [
+    annotations,
+    currentProject?._id,
+    currentProject?.role,
+    frames,
+    images,
+    saveProjectMutation,
+    videos,
+    viewport,
+  ]);
 
   const loadFromStorage = useCallback(async () => {
     // Track which project we're loading to prevent race conditions
@@ -166,9 +280,13 @@ export function useStorage(
     }
 
     // Clear canvas immediately when switching projects to prevent showing old content
+    setAnnotations([]);
+    setFrames([]);
     setImages([]);
     setVideos([]);
     setIsStorageLoaded(false);
+    syncedElementsRef.current = new Map();
+    appliedRevisionRef.current = -1;
 
     let canvasState: CanvasState | null = null;
     if (projectIdToLoad) {
@@ -195,8 +313,13 @@ export function useStorage(
 
     // Mark this project as loaded
     lastLoadedProjectIdRef.current = projectIdToLoad;
+    syncedElementsRef.current = createElementSnapshot(
+      canvasState?.elements ?? [],
+    );
 
     if (!canvasState) {
+      setAnnotations([]);
+      setFrames([]);
       setImages([]);
       setVideos([]);
       setViewport(DEFAULT_VIEWPORT);
@@ -223,6 +346,8 @@ export function useStorage(
             assetSyncedAt: element.assetSyncedAt,
             height: element.height || 300,
             id: element.id,
+            parentGroupId: element.parentGroupId,
+            parentIds: element.parentIds,
             rotation: element.transform.rotation,
             src: cachedSrc,
             width: element.width || 300,
@@ -235,6 +360,8 @@ export function useStorage(
             height: element.height || 300,
             id: element.id,
             isSkeleton: true,
+            parentGroupId: element.parentGroupId,
+            parentIds: element.parentIds,
             rotation: element.transform.rotation,
             src: "", // Empty src for skeleton
             width: element.width || 300,
@@ -253,6 +380,8 @@ export function useStorage(
           isPlaying: false,
           isVideo: true,
           muted: false,
+          parentGroupId: element.parentGroupId,
+          parentIds: element.parentIds,
           rotation: element.transform.rotation,
           src: "", // Empty src for skeleton
           volume: 1,
@@ -263,6 +392,18 @@ export function useStorage(
       }
     }
 
+    // Text, shapes, and frames are stored inline, so they render in full right away
+    setAnnotations(
+      canvasState.elements
+        .map(canvasElementToAnnotation)
+        .filter((annotation): annotation is PlacedAnnotation => !!annotation),
+    );
+    setFrames(
+      canvasState.elements
+        .map(canvasElementToFrame)
+        .filter((frame): frame is PlacedFrame => !!frame),
+    );
+
     // Display initial images (cached or skeletons) immediately
     setImages(snapImagesToGrid(initialImages));
     setVideos(skeletonVideos);
@@ -286,7 +427,12 @@ export function useStorage(
     // Batch fetch assets to get camera angles and director names
     const assetMetadata = new Map<
       string,
-      { cameraAngle?: string; directorName?: string }
+      {
+        cameraAngle?: string;
+        directorName?: string;
+        provenance?: GenerationProvenance;
+        storageId?: string;
+      }
     >();
     for (const assetId of assetIds) {
       const assetResult = await tryPromise(
@@ -297,10 +443,12 @@ export function useStorage(
 
       if (!isErr(assetResult)) {
         const asset = assetResult;
-        if (asset?.cameraAngle || asset?.directorName) {
+        if (asset) {
           assetMetadata.set(assetId, {
             cameraAngle: asset.cameraAngle,
             directorName: asset.directorName,
+            provenance: asset.provenance,
+            storageId: asset.storageId,
           });
         }
       }
@@ -316,7 +464,11 @@ export function useStorage(
             ? assetMetadata.get(element.assetId)
             : undefined;
 
-          if (metadata) {
+          if (
+            metadata?.cameraAngle ||
+            metadata?.directorName ||
+            metadata?.provenance
+          ) {
             const index = currentImages.findIndex(
               (img) => img.id === element.id,
             );
@@ -326,6 +478,7 @@ export function useStorage(
                 cameraAngle: metadata.cameraAngle,
                 directorName: metadata.directorName,
                 isDirector: !!metadata.directorName,
+                provenance: metadata.provenance,
               };
               setImages(snapImagesToGrid([...currentImages]));
             }
@@ -344,13 +497,20 @@ export function useStorage(
           return; // Project changed during load, abort
         }
 
-        if (imageData) {
-          // Register imageId → src mapping for future cache lookups
-          registerImageSrc(element.id, imageData.originalDataUrl);
+        const metadata = element.assetId
+          ? assetMetadata.get(element.assetId)
+          : undefined;
 
-          const metadata = element.assetId
-            ? assetMetadata.get(element.assetId)
-            : undefined;
+        // Media added on another device is not in IndexedDB, so load it from Convex
+        const imageSrc =
+          imageData?.originalDataUrl ??
+          (metadata?.storageId
+            ? getStorageProxyUrl(metadata.storageId)
+            : undefined);
+
+        if (imageSrc) {
+          // Register imageId → src mapping for future cache lookups
+          registerImageSrc(element.id, imageSrc);
 
           const loadedImage: PlacedImage = {
             assetId: element.assetId,
@@ -361,8 +521,11 @@ export function useStorage(
             id: element.id,
             isDirector: !!metadata?.directorName,
             originalFalUrl: element.originalFalUrl,
+            parentGroupId: element.parentGroupId,
+            parentIds: element.parentIds,
+            provenance: metadata?.provenance,
             rotation: element.transform.rotation,
-            src: imageData.originalDataUrl,
+            src: imageSrc,
             width: element.width || 300,
             x: element.transform.x,
             y: element.transform.y,
@@ -390,20 +553,29 @@ export function useStorage(
           return; // Project changed during load, abort
         }
 
-        if (videoData) {
+        const storageId = element.assetId
+          ? assetMetadata.get(element.assetId)?.storageId
+          : undefined;
+        const videoSrc =
+          videoData?.originalDataUrl ??
+          (storageId ? getStorageProxyUrl(storageId) : undefined);
+
+        if (videoSrc) {
           const loadedVideo: PlacedVideo = {
             assetId: element.assetId,
             assetSyncedAt: element.assetSyncedAt,
             currentTime: element.currentTime || 0,
-            duration: element.duration || videoData.duration,
+            duration: element.duration || videoData?.duration || 0,
             height: element.height || 300,
             id: element.id,
             isLoaded: false,
             isPlaying: element.isPlaying || false,
             isVideo: true,
             muted: element.muted || false,
+            parentGroupId: element.parentGroupId,
+            parentIds: element.parentIds,
             rotation: element.transform.rotation,
-            src: videoData.originalDataUrl,
+            src: videoSrc,
             volume: element.volume || 1,
             width: element.width || 300,
             x: element.transform.x,
@@ -424,7 +596,174 @@ export function useStorage(
     }
 
     setIsStorageLoaded(true);
-  }, [convexClient, currentProject?._id, setImages, setVideos, setViewport]);
+  }, [
+    convexClient,
+    currentProject?._id,
+    setAnnotations,
+    setFrames,
+    setImages,
+    setVideos,
+    setViewport,
+  ]);
+
+  /**
+   * Merges elements saved by teammates into the canvas.
+   *
+   * Elements changed here since the last sync keep their local version;
+   * everything else follows the saved state. Media added by teammates is
+   * loaded through the storage proxy once its asset has synced.
+   */
+  const applyLiveElements = useCallback(
+    async (remote: CanvasElement[], projectId: string) => {
+      const snapshot = syncedElementsRef.current;
+      const knownIds = new Set(
+        [
+          ...latestCanvasRef.current.images,
+          ...latestCanvasRef.current.videos,
+        ].map((item) => item.id),
+      );
+
+      // Resolve sources for media this canvas has not seen yet
+      const newMedia = new Map<
+        string,
+        {
+          cameraAngle?: string;
+          directorName?: string;
+          provenance?: GenerationProvenance;
+          src: string;
+        }
+      >();
+      for (const element of remote) {
+        if (element.type !== "image" && element.type !== "video") continue;
+        if (knownIds.has(element.id) || snapshot.has(element.id)) continue;
+        if (!element.assetId) continue;
+
+        const assetResult = await tryPromise(
+          convexClient.query(api.assets.getAsset, {
+            assetId: element.assetId as Id<"assets">,
+          }),
+        );
+
+        if (isErr(assetResult)) {
+          log.warn(
+            "Failed to load asset for live update",
+            getErrorMessage(assetResult),
+          );
+          continue;
+        }
+
+        if (assetResult) {
+          newMedia.set(element.id, {
+            cameraAngle: assetResult.cameraAngle,
+            directorName: assetResult.directorName,
+            provenance: assetResult.provenance,
+            src: getStorageProxyUrl(assetResult.storageId),
+          });
+        }
+      }
+
+      if (projectId !== currentProjectIdRef.current) return;
+
+      // Media without a source stays out of the merge and the snapshot, so it
+      // is neither shown nor treated as deleted here until its asset syncs
+      const { annotations, frames, images, videos } = latestCanvasRef.current;
+      const localIds = new Set([...images, ...videos].map((item) => item.id));
+      const mergeable = remote.filter(
+        (element) =>
+          (element.type !== "image" && element.type !== "video") ||
+          localIds.has(element.id) ||
+          syncedElementsRef.current.has(element.id) ||
+          newMedia.has(element.id),
+      );
+
+      const { elements, updatedIds } = mergeElementChanges(
+        syncedElementsRef.current,
+        buildCanvasElements(images, videos, annotations, frames),
+        mergeable,
+      );
+      syncedElementsRef.current = createElementSnapshot(mergeable);
+
+      if (updatedIds.size === 0) return;
+
+      log.debug("Applied live canvas changes", { count: updatedIds.size });
+
+      setImages(
+        applyMergedElements(
+          elements,
+          images,
+          updatedIds,
+          (element, existing) => {
+            if (element.type !== "image") return null;
+            if (existing) {
+              return {
+                ...existing,
+                ...convertElementToImage(element, existing.src, existing),
+              };
+            }
+
+            const media = newMedia.get(element.id);
+            if (!media) return null;
+
+            registerImageSrc(element.id, media.src);
+            return {
+              ...convertElementToImage(element, media.src, media),
+              isDirector: !!media.directorName,
+            };
+          },
+        ),
+      );
+      setVideos(
+        applyMergedElements(
+          elements,
+          videos,
+          updatedIds,
+          (element, existing) => {
+            if (element.type !== "video") return null;
+            if (existing) {
+              return {
+                ...existing,
+                ...convertElementToVideo(element, existing.src),
+              };
+            }
+
+            const media = newMedia.get(element.id);
+            return media ? convertElementToVideo(element, media.src) : null;
+          },
+        ),
+      );
+      setAnnotations(
+        applyMergedElements(elements, annotations, updatedIds, (element) =>
+          canvasElementToAnnotation(element),
+        ),
+      );
+      setFrames(
+        applyMergedElements(elements, frames, updatedIds, (element) =>
+          canvasElementToFrame(element),
+        ),
+      );
+    },
+    [convexClient, setAnnotations, setFrames, setImages, setVideos],
+  );
+
+  useEffect(() => {
+    latestCanvasRef.current = { annotations, frames, images, videos };
+  }, [annotations, frames, images, videos]);
+
+  // Merge each new saved revision once the project has loaded
+  useEffect(() => {
+    const projectId = currentProject?._id;
+    if (!isStorageLoaded || !liveCanvas || !projectId) return;
+    if (liveCanvas.revision <= appliedRevisionRef.current) return;
+
+    appliedRevisionRef.current = liveCanvas.revision;
+
+    // Queue merges so a slow asset lookup cannot apply an older revision last
+    liveMergeRef.current = liveMergeRef.current
+      .then(() => applyLiveElements(liveCanvas.elements, projectId))
+      .catch((error) => {
+        log.error("Failed to apply live canvas changes", error);
+      });
+  }, [applyLiveElements, currentProject?._id, isStorageLoaded, liveCanvas]);
 
   // Keep the current project ID ref in sync with the atom value
   // This allows async operations to check the CURRENT project (not their closure's stale value)
@@ -451,6 +790,8 @@ export function useStorage(
     return () => clearTimeout(timeoutId);
   }, [
     activeGenerationsSize,
+    annotations,
+    frames,
     images,
     isStorageLoaded,
     saveToStorage,
@@ -8,13 +8,51 @@ import { showError, showErrorFromException, showSuccess } from "@/lib/toast";
 import type {
   ActiveGeneration,
   ActiveVideoGeneration,
+  GenerationCompleteDetails,
+  GenerationProvenance,
   PlacedImage,
   PlacedVideo,
 } from "@/types/canvas";
+import type { MoodVector } from "@/types/mood-vector";
+import {
+  buildGenerationProvenance,
+  getSourceAssetIds,
+} from "@/utils/generation-provenance-utils";
 import { useCallback } from "react";
 
 const log = createLogger("StreamingHandler");
 
+/**
+ * Success toast title and description for a finished video that filled a
+ * canvas placeholder.
+ */
+function getVideoCompletionMessage(
+  generation: ActiveVideoGeneration | undefined,
+): [string, string] {
+  if (generation?.endImageId) {
+    return [
+      "Video complete",
+      "The clip between your two images has been generated",
+    ];
+  }
+  if (generation?.sourceVideoId && !generation.category) {
+    return [
+      "Video complete",
+      "Your new clip has been generated from the video",
+    ];
+  }
+  if (generation?.category === "text-to-video") {
+    return ["Video complete", "Your video has been generated from the prompt"];
+  }
+  if (generation?.category === "video-to-video") {
+    return ["Video complete", "Your edited video has been generated"];
+  }
+  return [
+    "Video variations complete",
+    "All 4 cinematic videos have been generated",
+  ];
+}
+
 /**
  * Streaming handler dependencies
  */
@@ -53,6 +91,7 @@ interface StreamingHandlers {
     id: string,
     finalUrl: string,
     thumbnailUrl?: string,
+    details?: GenerationCompleteDetails,
   ) => Promise<void>;
   handleStreamingImageError: (
     id: string,
@@ -101,6 +140,7 @@ export function useStreamingHandlers(
     setSelectedIds,
     setSelectedImageForVideo,
     setVideos,
+    videos,
   } = deps;
 
   const handleStreamingImageError = useCallback(
@@ -204,7 +244,12 @@ export function useStreamingHandlers(
   );
 
   const handleStreamingImageComplete = useCallback(
-    async (id: string, finalUrl: string, serverThumbnailUrl?: string) => {
+    async (
+      id: string,
+      finalUrl: string,
+      serverThumbnailUrl?: string,
+      details?: GenerationCompleteDetails,
+    ) => {
       const isVariation = id.startsWith("variation-");
 
       let variationBatchTimestamp: string | null = null;
@@ -292,9 +337,13 @@ export function useStreamingHandlers(
       let lightingScenario: string | undefined;
       let emotion: string | undefined;
       let characterVariation: string | undefined;
+      let customPreset: string | undefined;
+      let moodVector: MoodVector | undefined;
       let storylineLabel: string | undefined;
       let surfaceMap: string | undefined;
       let variationType: string | undefined;
+      let weather: string | undefined;
+      let parentAssetIds: string[] | undefined;
 
       setImages((prevImages) => {
         const currentImage = prevImages.find((img) => img.id === id);
@@ -303,12 +352,34 @@ export function useStreamingHandlers(
         lightingScenario = currentImage?.lightingScenario;
         emotion = currentImage?.emotion;
         characterVariation = currentImage?.characterVariation;
+        customPreset = currentImage?.customPreset;
+        moodVector = currentImage?.moodVector;
         storylineLabel = currentImage?.storylineLabel;
         surfaceMap = currentImage?.surfaceMap;
         variationType = currentImage?.variationType;
+        weather = currentImage?.weather;
+        parentAssetIds = getSourceAssetIds(
+          prevImages.filter((img) => currentImage?.parentIds?.includes(img.id)),
+        );
         return prevImages; // No state change, just reading
       });
 
+      // Record the settings used so the image can be regenerated later
+      const provenance: GenerationProvenance | undefined = generation
+        ? buildGenerationProvenance(generation, details, {
+            cameraAngle,
+            characterVariation,
+            customPreset,
+            directorName,
+            emotion,
+            lightingScenario,
+            storylineLabel,
+            surfaceMap,
+            variationType,
+            weather,
+          })
+        : undefined;
+
       // UX IMPROVEMENT: Update canvas IMMEDIATELY with generated image (non-blocking)
       // We now prefer the full quality image immediately as requested
       const initialDisplaySrc = croppedUrl;
@@ -320,16 +391,19 @@ export function useStreamingHandlers(
                 ...img,
                 cameraAngle,
                 characterVariation,
+                customPreset,
                 directorName,
                 displayAsThumbnail: false, // Don't show thumbnail initially
                 emotion,
                 fullSizeSrc: croppedUrl,
                 isLoading: false,
                 lightingScenario,
+                moodVector,
                 naturalHeight,
                 naturalWidth,
                 opacity: 1.0,
                 originalFalUrl: finalUrl, // Store original FAL URL for high-quality downloads
+                provenance,
                 src: initialDisplaySrc,
                 storylineLabel,
                 surfaceMap,
@@ -353,11 +427,17 @@ export function useStreamingHandlers(
               metadata: {
                 cameraAngle,
                 characterVariation,
+                customPreset,
                 directorName,
                 emotion,
                 height: naturalHeight,
                 lightingScenario,
+                model: generation?.model,
+                moodVector,
+                parentAssetIds,
                 prompt: generation?.prompt,
+                provenance,
+                seed: provenance?.seed,
                 storylineLabel,
                 surfaceMap,
                 variationType,
@@ -521,6 +601,16 @@ export function useStreamingHandlers(
                 duration,
                 height: naturalHeight,
                 model: generation?.modelId,
+                parentAssetIds: getSourceAssetIds([
+                  ...images.filter(
+                    (img) =>
+                      img.id === generation?.sourceImageId ||
+                      img.id === generation?.endImageId,
+                  ),
+                  ...videos.filter(
+                    (video) => video.id === generation?.sourceVideoId,
+                  ),
+                ]),
                 prompt: generation?.prompt,
                 width: naturalWidth,
               },
@@ -555,10 +645,7 @@ export function useStreamingHandlers(
 
           if (activeVideoGenerations.size === 1) {
             saveToHistory();
-            showSuccess(
-              "Video variations complete",
-              "All 4 cinematic videos have been generated",
-            );
+            showSuccess(...getVideoCompletionMessage(generation));
           }
 
           setIsConvertingToVideo(false);
@@ -606,6 +693,7 @@ export function useStreamingHandlers(
       setIsConvertingToVideo,
       setSelectedImageForVideo,
       setVideos,
+      videos,
     ],
   );
 
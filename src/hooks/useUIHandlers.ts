@@ -31,7 +31,7 @@ export function useUIHandlers(deps: UIHandlerDeps) {
   } = deps;
 
   /**
-   * Handles image double-click to cycle generation count (4 → 8 → 12 → 4)
+   * Handles image double-click to cycle generation count (4 → 8 → 12 → 24 → 4)
    */
   const handleImageDoubleClick = useCallback(
     (imageId: string) => {
@@ -43,6 +43,8 @@ export function useUIHandlers(deps: UIHandlerDeps) {
           newCount = 8;
         } else if (currentCount === 8) {
           newCount = 12;
+        } else if (currentCount === 12) {
+          newCount = 24;
         } else {
           newCount = 4;
         }
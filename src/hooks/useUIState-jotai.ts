@@ -10,6 +10,7 @@ import {
   imageVariationTypeAtom,
   isImageToVideoDialogOpenAtom,
   isSettingsDialogOpenAtom,
+  moodVectorAtom,
   selectedImageForVideoAtom,
   showChatAtom,
   showGridAtom,
@@ -34,6 +35,7 @@ export function useUIState() {
   const [isSettingsDialogOpen, setIsSettingsDialogOpen] = useAtom(
     isSettingsDialogOpenAtom,
   );
+  const [moodVector, setMoodVector] = useAtom(moodVectorAtom);
   const [selectedImageForVideo, setSelectedImageForVideo] = useAtom(
     selectedImageForVideoAtom,
   );
@@ -51,12 +53,14 @@ export function useUIState() {
     imageVariationType,
     isImageToVideoDialogOpen,
     isSettingsDialogOpen,
+    moodVector,
     selectedImageForVideo,
     setGenerationCount,
     setImageModel,
     setImageVariationType,
     setIsImageToVideoDialogOpen,
     setIsSettingsDialogOpen,
+    setMoodVector,
     setSelectedImageForVideo,
     setShowChat,
     setShowGrid,
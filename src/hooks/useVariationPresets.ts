@@ -0,0 +1,156 @@
+/**
+ * Custom variation presets hook.
+ *
+ * Lists, creates, edits, deletes, imports, and exports the user's variation
+ * preset packs stored in Convex, and tracks the pack selected for custom
+ * image variations.
+ */
+
+"use client";
+
+import { getErrorMessage, isErr, tryPromise } from "@/lib/errors/safe-errors";
+import { selectedPresetPackIdAtom } from "@/store/ui-atoms";
+import type {
+  VariationPreset,
+  VariationPresetPack,
+} from "@/types/variation-preset";
+import { parsePresetPack } from "@/utils/variation-preset-utils";
+import { useMutation, useQuery } from "convex/react";
+import { useAtom } from "jotai";
+import { useCallback } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { useAuth } from "./useAuth";
+
+/**
+ * Editable fields of a preset pack.
+ */
+export interface VariationPresetPackInput {
+  description?: string;
+  name: string;
+  presets: VariationPreset[];
+}
+
+/**
+ * Hook for managing custom variation preset packs.
+ *
+ * @returns Preset packs, the selected pack, and pack operations
+ *
+ * @example
+ * ```tsx
+ * const { importPack, selectedPack } = useVariationPresets();
+ * await importPack(await file.text());
+ * ```
+ */
+export function useVariationPresets() {
+  const { isAuthenticated } = useAuth();
+  const [selectedPackId, setSelectedPackId] = useAtom(selectedPresetPackIdAtom);
+
+  const createPackMutation = useMutation(api.variationPresets.createPack);
+  const deletePackMutation = useMutation(api.variationPresets.deletePack);
+  const updatePackMutation = useMutation(api.variationPresets.updatePack);
+
+  const packsQuery = useQuery(
+    api.variationPresets.listPacks,
+    isAuthenticated ? {} : "skip",
+  );
+  const packs: VariationPresetPack[] = packsQuery ?? [];
+  const selectedPack =
+    packs.find((pack) => pack._id === selectedPackId) ?? null;
+
+  /**
+   * Creates a pack and selects it.
+   */
+  const createPack = useCallback(
+    async (pack: VariationPresetPackInput): Promise<string> => {
+      const createResult = await tryPromise(createPackMutation(pack));
+
+      if (isErr(createResult)) {
+        throw new Error(
+          `Preset pack creation failed: ${getErrorMessage(createResult)}`,
+        );
+      }
+
+      setSelectedPackId(createResult);
+      return createResult;
+    },
+    [createPackMutation, setSelectedPackId],
+  );
+
+  /**
+   * Replaces the contents of a pack.
+   */
+  const updatePack = useCallback(
+    async (packId: string, pack: VariationPresetPackInput): Promise<void> => {
+      const updateResult = await tryPromise(
+        updatePackMutation({
+          ...pack,
+          packId: packId as Id<"variationPresetPacks">,
+        }),
+      );
+
+      if (isErr(updateResult)) {
+        throw new Error(
+          `Preset pack update failed: ${getErrorMessage(updateResult)}`,
+        );
+      }
+    },
+    [updatePackMutation],
+  );
+
+  /**
+   * Deletes a pack, clearing the selection if it was selected.
+   */
+  const deletePack = useCallback(
+    async (packId: string): Promise<void> => {
+      const deleteResult = await tryPromise(
+        deletePackMutation({ packId: packId as Id<"variationPresetPacks"> }),
+      );
+
+      if (isErr(deleteResult)) {
+        throw new Error(
+          `Preset pack deletion failed: ${getErrorMessage(deleteResult)}`,
+        );
+      }
+
+      if (selectedPackId === packId) {
+        setSelectedPackId(null);
+      }
+    },
+    [deletePackMutation, selectedPackId, setSelectedPackId],
+  );
+
+  /**
+   * Imports a pack from the contents of a shared JSON file and selects it.
+   *
+   * @returns Name of the imported pack
+   */
+  const importPack = useCallback(
+    async (json: string): Promise<string> => {
+      const packFile = parsePresetPack(json);
+      if (packFile instanceof Error) {
+        throw new Error(`Preset pack import failed: ${packFile.message}`);
+      }
+
+      await createPack({
+        description: packFile.description,
+        name: packFile.name,
+        presets: packFile.presets,
+      });
+
+      return packFile.name;
+    },
+    [createPack],
+  );
+
+  return {
+    createPack,
+    deletePack,
+    importPack,
+    isLoading: isAuthenticated && packsQuery === undefined,
+    packs,
+    selectPack: setSelectedPackId,
+    selectedPack,
+    updatePack,
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Variation recipes hook.
+ *
+ * Lists, saves, and deletes the hand-picked variation presets saved on a
+ * project in Convex.
+ */
+
+"use client";
+
+import { getErrorMessage, isErr, tryPromise } from "@/lib/errors/safe-errors";
+import type { VariationRecipe } from "@/types/variation-preset";
+import { useMutation, useQuery } from "convex/react";
+import { useCallback } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+/**
+ * Editable fields of a variation recipe.
+ */
+export type VariationRecipeInput = Omit<VariationRecipe, "_id" | "updatedAt">;
+
+/**
+ * Hook for managing a project's variation recipes.
+ *
+ * @param projectId - Project to manage recipes for, or null to skip loading
+ * @returns Recipe list and recipe operations
+ *
+ * @remarks
+ * - Failed operations throw errors that should be caught by caller
+ *
+ * @example
+ * ```tsx
+ * const { recipes, saveRecipe } = useVariationRecipes(projectId);
+ * await saveRecipe({ items, name, variationCount, variationType });
+ * ```
+ */
+export function useVariationRecipes(projectId: Id<"projects"> | null) {
+  const deleteRecipeMutation = useMutation(api.variationRecipes.deleteRecipe);
+  const saveRecipeMutation = useMutation(api.variationRecipes.saveRecipe);
+
+  const recipesQuery = useQuery(
+    api.variationRecipes.listRecipes,
+    projectId ? { projectId } : "skip",
+  );
+  const recipes: VariationRecipe[] = recipesQuery ?? [];
+
+  /**
+   * Saves a recipe, replacing the project's recipe of the same name.
+   *
+   * @returns ID of the saved recipe
+   */
+  const saveRecipe = useCallback(
+    async (recipe: VariationRecipeInput): Promise<string | null> => {
+      if (!projectId) return null;
+
+      const saveResult = await tryPromise(
+        saveRecipeMutation({ ...recipe, projectId }),
+      );
+
+      if (isErr(saveResult)) {
+        throw new Error(`Recipe save failed: ${getErrorMessage(saveResult)}`);
+      }
+
+      return saveResult;
+    },
+    [projectId, saveRecipeMutation],
+  );
+
+  /**
+   * Deletes a recipe.
+   */
+  const deleteRecipe = useCallback(
+    async (recipeId: string): Promise<void> => {
+      const deleteResult = await tryPromise(
+        deleteRecipeMutation({
+          recipeId: recipeId as Id<"variationRecipes">,
+        }),
+      );
+
+      if (isErr(deleteResult)) {
+        throw new Error(
+          `Recipe deletion failed: ${getErrorMessage(deleteResult)}`,
+        );
+      }
+    },
+    [deleteRecipeMutation],
+  );
+
+  return {
+    deleteRecipe,
+    isLoading: projectId !== null && recipesQuery === undefined,
+    recipes,
+    saveRecipe,
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * Custom hook for team workspaces.
+ *
+ * Lists the workspaces the user belongs to and switches between them and
+ * the personal space. The active workspace decides where new projects and
+ * uploads go and which quota generations are charged to.
+ */
+
+"use client";
+
+import { getErrorMessage, isErr, tryPromise } from "@/lib/errors/safe-errors";
+import type { WorkspaceRole } from "@/types/workspace";
+import { useMutation, useQuery } from "convex/react";
+import { useCallback, useMemo } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { useAuth } from "./useAuth";
+
+/**
+ * A workspace the user belongs to.
+ */
+export interface WorkspaceSummary {
+  _id: Id<"workspaces">;
+  name: string;
+  role: WorkspaceRole;
+  tier: "free" | "pro";
+}
+
+/**
+ * Return type for the useWorkspaces hook.
+ */
+interface UseWorkspacesReturn {
+  /** Accepts an invite and switches to its workspace */
+  acceptInvite: (token: string) => Promise<Id<"workspaces">>;
+
+  /** Active workspace (null for the personal space) */
+  activeWorkspace: WorkspaceSummary | null;
+
+  /** Creates a workspace owned by the user and switches to it */
+  createWorkspace: (name: string) => Promise<Id<"workspaces">>;
+
+  /** Whether workspaces are loading */
+  isLoading: boolean;
+
+  /** Switches to a workspace, or to the personal space with null */
+  switchWorkspace: (workspaceId: Id<"workspaces"> | null) => Promise<void>;
+
+  /** Workspaces the user belongs to, sorted by name */
+  workspaces: WorkspaceSummary[];
+}
+
+/**
+ * Custom hook for listing and switching workspaces.
+ *
+ * @remarks
+ * - All operations require user authentication
+ * - Failed operations throw errors that should be caught by caller
+ *
+ * @example
+ * ```tsx
+ * function WorkspaceName() {
+ *   const { activeWorkspace } = useWorkspaces();
+ *   return <span>{activeWorkspace?.name ?? "Personal"}</span>;
+ * }
+ * ```
+ */
+export function useWorkspaces(): UseWorkspacesReturn {
+  const { isAuthenticated } = useAuth();
+
+  const workspacesQuery = useQuery(
+    api.workspaces.listWorkspaces,
+    isAuthenticated ? {} : "skip",
+  );
+
+  const acceptInviteMutation = useMutation(api.workspaces.acceptInvite);
+  const createWorkspaceMutation = useMutation(api.workspaces.createWorkspace);
+  const setActiveWorkspaceMutation = useMutation(
+    api.workspaces.setActiveWorkspace,
+  );
+
+  const workspaces = useMemo(
+    () => workspacesQuery?.workspaces ?? [],
+    [workspacesQuery],
+  );
+
+  const activeWorkspace = useMemo(
+    () =>
+      workspaces.find(
+        (workspace) => workspace._id === workspacesQuery?.activeWorkspaceId,
+      ) ?? null,
+    [workspaces, workspacesQuery],
+  );
+
+  /**
+   * Switches the active workspace.
+   */
+  const switchWorkspace = useCallback(
+    async (workspaceId: Id<"workspaces"> | null): Promise<void> => {
+      const switchResult = await tryPromise(
+        setActiveWorkspaceMutation({ workspaceId: workspaceId ?? undefined }),
+      );
+
+      if (isErr(switchResult)) {
+        throw new Error(
+          `Workspace switch failed: ${getErrorMessage(switchResult)}`,
+        );
+      }
+    },
+    [setActiveWorkspaceMutation],
+  );
+
+  /**
+   * Creates a workspace.
+   */
+  const createWorkspace = useCallback(
+    async (name: string): Promise<Id<"workspaces">> => {
+      const createResult = await tryPromise(createWorkspaceMutation({ name }));
+
+      if (isErr(createResult)) {
+        throw new Error(
+          `Workspace creation failed: ${getErrorMessage(createResult)}`,
+        );
+      }
+
+      return createResult;
+    },
+    [createWorkspaceMutation],
+  );
+
+  /**
+   * Accepts an invite.
+   */
+  const acceptInvite = useCallback(
+    async (token: string): Promise<Id<"workspaces">> => {
+      const acceptResult = await tryPromise(acceptInviteMutation({ token }));
+
+      if (isErr(acceptResult)) {
+        throw new Error(getErrorMessage(acceptResult));
+      }
+
+      return acceptResult;
+    },
+    [acceptInviteMutation],
+  );
+
+  return {
+    acceptInvite,
+    activeWorkspace,
+    createWorkspace,
+    isLoading: workspacesQuery === undefined && isAuthenticated,
+    switchWorkspace,
+    workspaces,
+  };
+}
@@ -7,14 +7,39 @@
  * - Client-side: `variationClientConfigs` for unified handler orchestration
  */
 
-import { selectRandomVisualStylists } from "@/constants/visual-stylists";
+import { CAMERA_VARIATIONS } from "@/constants/camera-variations";
+import { EMOTION_VARIATIONS } from "@/constants/emotion-variations";
+import { LIGHTING_VARIATIONS } from "@/constants/lighting-variations";
+import {
+  DEFAULT_MOOD_VECTOR,
+  MOOD_AXES,
+  MOOD_EMPHASIS_THRESHOLD,
+  MOOD_SUPPRESSION_THRESHOLD,
+} from "@/constants/mood-vector";
+import {
+  selectRandomVisualStylists,
+  VISUAL_STYLISTS,
+} from "@/constants/visual-stylists";
+import { WEATHER_VARIATIONS } from "@/constants/weather-variations";
 import type { FiboStructuredPrompt } from "@/lib/adapters/fibo-to-analysis-adapter";
 import { generateFiboVariations } from "@/lib/services/fibo-variation-service";
 import type { PlacedImage } from "@/types/canvas";
+import type { MoodVector } from "@/types/mood-vector";
+import type { VariationPreset } from "@/types/variation-preset";
 import { selectRandomCameraVariations } from "@/utils/camera-variation-utils";
 import { selectRandomEmotionVariations } from "@/utils/emotion-variation-utils";
 import { selectRandomLightingVariations } from "@/utils/lighting-variation-utils";
+import {
+  formatMoodVectorItem,
+  parseMoodVectorItem,
+  selectMoodVectorTargets,
+} from "@/utils/mood-vector-utils";
+import {
+  formatPresetItem,
+  selectRandomPresets,
+} from "@/utils/variation-preset-utils";
 import { selectRandomWeatherVariations } from "@/utils/weather-variation-utils";
+import type { ConvexHttpClient } from "convex/browser";
 
 /**
  * Narrative time progression labels for storyline variations (supports up to 12 variations)
@@ -78,6 +103,8 @@ export interface VariationConfig<T extends string> {
 }
 
 export interface VariationInput<T extends string> {
+  /** Convex client authenticated as the user, to reuse cached analyses */
+  convex?: ConvexHttpClient;
   imageUrls: string[];
   items: string[];
   userContext?: string;
@@ -102,7 +129,7 @@ export async function handleVariations<T extends string>(
   config: VariationConfig<T>,
   input: VariationInput<T>,
 ): Promise<VariationOutput<T>> {
-  const { imageUrls, items, userContext } = input;
+  const { convex, imageUrls, items, userContext } = input;
 
   // Build variation prompts for each item
   const variations = items.map((item, index) =>
@@ -111,6 +138,7 @@ export async function handleVariations<T extends string>(
 
   // Generate FIBO variations using shared service
   const { fiboAnalysis, refinedPrompts } = await generateFiboVariations({
+    convex,
     imageUrls,
     variations,
   });
@@ -498,6 +526,103 @@ export const variationHandlers = {
     },
   },
 
+  mood: {
+    itemKey: "moodVector" as const,
+    buildPrompt: (moodVector: string, userContext?: string) => {
+      const vector = parseMoodVectorItem(moodVector);
+      const emphasized = MOOD_AXES.filter(
+        ({ axis }) => vector && vector[axis] >= MOOD_EMPHASIS_THRESHOLD,
+      ).map(({ axis }) => axis);
+      const suppressed = MOOD_AXES.filter(
+        ({ axis }) => vector && vector[axis] <= MOOD_SUPPRESSION_THRESHOLD,
+      ).map(({ axis }) => axis);
+
+      const baseInstruction = `Steer the emotional tone of this image toward this target mood vector (0 = absent, 100 = dominant): ${moodVector}.`;
+      const balance = `
+      MOOD BALANCE:
+      - EMPHASIZE: ${emphasized.length > 0 ? emphasized.join(", ") : "no single axis; keep the blend even"}
+      - SUPPRESS: ${suppressed.length > 0 ? suppressed.join(", ") : "nothing"}
+      `.trim();
+
+      // Define the "Vibe Lock" (The immutable style constraint)
+      const styleLock = `
+      CRITICAL STYLE CONSTRAINT (VIBE LOCK):
+      - SUBJECT PRESERVATION: Keep the subject's identity, the scene content, and the composition of the source.
+      - VISUAL CONTINUITY: The final image must feel like part of the same shoot as the source, re-graded and re-lit for a different emotional tone.
+      `.trim();
+
+      if (userContext) {
+        return `
+        ${baseInstruction}
+
+        CONTEXT: ${userContext}
+
+        ${balance}
+
+        INSTRUCTIONS:
+        1. MOOD SHIFT: Move each emotion toward its target intensity through lighting, color grading, atmosphere, expression, and body language, adapted to the provided context.
+        2. PROPORTION: Stronger axes should read first; weaker axes may only be hinted at.
+        3. DUAL REFERENCE: If two reference images are provided, consider one for the character/subject and the other for the vibe/scene.
+
+        ${styleLock}
+        `.trim();
+      }
+
+      return `
+      ${baseInstruction}
+
+      ${balance}
+
+      INSTRUCTIONS:
+      1. MOOD SHIFT: Move each emotion toward its target intensity through lighting, color grading, atmosphere, expression, and body language.
+      2. PROPORTION: Stronger axes should read first; weaker axes may only be hinted at.
+      3. DUAL REFERENCE: If two reference images are provided, consider one for the character/subject and the other for the vibe/scene.
+
+      ${styleLock}
+      `.trim();
+    },
+  },
+
+  custom: {
+    itemKey: "preset" as const,
+    buildPrompt: (preset: string, userContext?: string) => {
+      const presetInstruction = `Apply this user-defined variation: ${preset}.`;
+
+      // Define the "Vibe Lock" (The immutable style constraint)
+      const styleLock = `
+      CRITICAL STYLE CONSTRAINT (VIBE LOCK):
+      - AESTHETIC PRESERVATION: Preserve the color grading, lighting mood, saturation, contrast, and film grain of the reference images unless the variation explicitly changes them.
+      - VISUAL CONTINUITY: The final image must feel like part of the same shoot as the source.
+      `.trim();
+
+      if (userContext) {
+        return `
+        ${presetInstruction}
+
+        CONTEXT: ${userContext}
+
+        INSTRUCTIONS:
+        1. VARIATION: Apply the variation exactly as described, adapted to the provided context.
+        2. SUBJECT PRESERVATION: Keep the subject's identity and the semantic content of the scene consistent with the source.
+        3. DUAL REFERENCE: If two reference images are provided, consider one for the character/subject and the other for the vibe/scene.
+
+        ${styleLock}
+        `.trim();
+      }
+
+      return `
+      ${presetInstruction}
+
+      INSTRUCTIONS:
+      1. VARIATION: Apply the variation exactly as described; change nothing it does not ask for.
+      2. SUBJECT PRESERVATION: Keep the subject, pose, and composition of the source unless the variation changes them.
+      3. DUAL REFERENCE: If two reference images are provided, consider one for the character/subject and the other for the vibe/scene.
+
+      ${styleLock}
+      `.trim();
+    },
+  },
+
   surface: {
     itemKey: "surfaceMap" as const,
     buildPrompt: (mapType: string, userContext?: string) => {
@@ -593,9 +718,11 @@ export const variationHandlers = {
 export type VariationType =
   | "cameraAngle"
   | "characters"
+  | "custom"
   | "director"
   | "emotions"
   | "lighting"
+  | "mood"
   | "storyline"
   | "surface"
   | "weather";
@@ -606,9 +733,11 @@ export type VariationType =
 export type ImageVariationType =
   | "camera-angles"
   | "characters"
+  | "custom"
   | "director"
   | "emotions"
   | "lighting"
+  | "mood"
   | "storyline"
   | "surface"
   | "weather";
@@ -641,14 +770,17 @@ export interface VariationClientConfig {
 
   /** Optional function to get additional metadata after API response */
   getImageMeta?: (item: string) => Partial<PlacedImage>;
+
+  /** Every preset of the type, for picking presets by hand (unset when items are generated) */
+  presetItems?: readonly string[];
 }
 
 /**
- * Client-side configuration for all variation types
+ * Client-side configuration for all built-in variation types
  * Single source of truth for variation behavior
  */
 export const variationClientConfigs: Record<
-  VariationType,
+  Exclude<VariationType, "custom" | "mood">,
   VariationClientConfig
 > = {
   director: {
@@ -664,6 +796,7 @@ export const variationClientConfigs: Record<
       isDirector: true,
       variationType: "director",
     }),
+    presetItems: VISUAL_STYLISTS,
   },
 
   cameraAngle: {
@@ -677,6 +810,7 @@ export const variationClientConfigs: Record<
       cameraAngle,
       variationType: "camera",
     }),
+    presetItems: CAMERA_VARIATIONS,
   },
 
   lighting: {
@@ -690,6 +824,7 @@ export const variationClientConfigs: Record<
       lightingScenario,
       variationType: "lighting",
     }),
+    presetItems: LIGHTING_VARIATIONS,
   },
 
   storyline: {
@@ -733,6 +868,7 @@ export const variationClientConfigs: Record<
       emotion,
       variationType: "emotion",
     }),
+    presetItems: EMOTION_VARIATIONS,
   },
 
   surface: {
@@ -751,6 +887,7 @@ export const variationClientConfigs: Record<
       surfaceMap,
       variationType: "surface",
     }),
+    presetItems: SURFACE_MAP_TYPES,
   },
 
   weather: {
@@ -764,9 +901,86 @@ export const variationClientConfigs: Record<
       weather,
       variationType: "weather",
     }),
+    presetItems: WEATHER_VARIATIONS,
   },
 };
 
+/**
+ * Creates the client-side configuration for a user's custom presets
+ * Presets are sent to the API as "NAME — directive" items, like the built-in lists
+ *
+ * @param presets - Presets from the selected preset pack
+ */
+export function createCustomVariationClientConfig(
+  presets: VariationPreset[],
+): VariationClientConfig {
+  const presetNamesByItem = new Map(
+    presets.map((preset) => [formatPresetItem(preset), preset.name]),
+  );
+
+  return {
+    displayName: "Custom presets",
+    apiEndpoint: "/api/generate-custom-variations",
+    apiRequestKey: "presets",
+    responseItemKey: "preset",
+    selectRandomItems: (count: number) =>
+      selectRandomPresets(presets, count).map(formatPresetItem),
+    buildPrompt: variationHandlers.custom.buildPrompt,
+    getPlaceholderMeta: (item: string) => ({
+      customPreset: presetNamesByItem.get(item) ?? item,
+      variationType: "custom",
+    }),
+    presetItems: [...presetNamesByItem.keys()],
+  };
+}
+
+/**
+ * Creates the client-side configuration for mood variations
+ * Each variation targets a vector near the slider values, sent to the API as
+ * an "awe 80, melancholy 20, ..." item and stored on the generated image
+ *
+ * @param moodVector - Target vector set with the mood sliders
+ */
+export function createMoodVariationClientConfig(
+  moodVector: MoodVector,
+): VariationClientConfig {
+  return {
+    displayName: "Mood",
+    apiEndpoint: "/api/generate-mood-variations",
+    apiRequestKey: "moodVectors",
+    responseItemKey: "moodVector",
+    selectRandomItems: (count: number) =>
+      selectMoodVectorTargets(moodVector, count).map(formatMoodVectorItem),
+    buildPrompt: variationHandlers.mood.buildPrompt,
+    getPlaceholderMeta: (item: string) => ({
+      moodVector: parseMoodVectorItem(item) ?? moodVector,
+      variationType: "mood",
+    }),
+  };
+}
+
+/**
+ * Gets the client-side configuration for a variation type
+ *
+ * @param variationType - Internal variation type
+ * @param customPresets - Presets used when variationType is "custom"
+ * @param moodVector - Target vector used when variationType is "mood"
+ */
+export function getVariationClientConfig(
+  variationType: VariationType,
+  customPresets: VariationPreset[] = [],
+  moodVector: MoodVector = DEFAULT_MOOD_VECTOR,
+): VariationClientConfig {
+  switch (variationType) {
+    case "custom":
+      return createCustomVariationClientConfig(customPresets);
+    case "mood":
+      return createMoodVariationClientConfig(moodVector);
+    default:
+      return variationClientConfigs[variationType];
+  }
+}
+
 /**
  * Maps UI variation type to internal variation type
  */
@@ -782,8 +996,12 @@ export function mapImageVariationType(
       return "lighting";
     case "characters":
       return "characters";
+    case "custom":
+      return "custom";
     case "emotions":
       return "emotions";
+    case "mood":
+      return "mood";
     case "storyline":
       return "storyline";
     case "surface":
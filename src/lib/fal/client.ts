@@ -1,4 +1,6 @@
 import { createFalClient, type FalClient } from "@fal-ai/client";
+import { getMockBackendMode, isLiveBackend } from "@/lib/mock/config";
+import { createMockFalClient } from "@/lib/mock/fal-client";
 import { FAL_PROXY_PATH } from "./constants";
 
 /**
@@ -31,14 +33,22 @@ let defaultServerClient: FalClient | null = null;
 /**
  * Gets or creates the singleton default server-side FAL client.
  *
+ * @remarks
+ * When the mock backend is enabled the client is wrapped so generation calls
+ * return placeholders or recorded fixtures, and FAL_KEY is only required if
+ * requests can reach the live service.
+ *
  * @returns The default FalClient instance with server credentials
  */
 function getDefaultServerClient(): FalClient {
   if (!defaultServerClient) {
-    const key = ensureDefaultFalKey();
-    defaultServerClient = createFalClient({
+    const key = isLiveBackend() ? ensureDefaultFalKey() : undefined;
+    const client = createFalClient({
       credentials: () => key,
     });
+
+    defaultServerClient =
+      getMockBackendMode() === "off" ? client : createMockFalClient(client);
   }
   return defaultServerClient;
 }
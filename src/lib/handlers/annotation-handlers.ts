@@ -0,0 +1,200 @@
+/**
+ * Text and shape annotation handlers
+ *
+ * This module provides pure utilities for creating, styling, duplicating,
+ * and deleting text labels and vector shapes placed on the canvas.
+ *
+ * @module lib/handlers/annotation-handlers
+ */
+
+import { ANNOTATION_DEFAULTS } from "@/constants/canvas";
+import type {
+  AnnotationStyle,
+  AnnotationTool,
+  PlacedAnnotation,
+} from "@/types/canvas";
+
+/**
+ * Point in canvas coordinates.
+ */
+interface CanvasPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Returns the default style for annotations drawn with a tool.
+ *
+ * @param tool - Drawing tool the annotation is created with
+ * @returns Style with text color for labels and outline-only for shapes
+ */
+export function getDefaultAnnotationStyle(
+  tool: Exclude<AnnotationTool, "select">,
+): AnnotationStyle {
+  if (tool === "text") {
+    return {
+      fill: ANNOTATION_DEFAULTS.TEXT_COLOR,
+      fontSize: ANNOTATION_DEFAULTS.FONT_SIZE,
+      stroke: ANNOTATION_DEFAULTS.STROKE,
+      strokeWidth: 0,
+    };
+  }
+
+  return {
+    fill:
+      tool === "arrow" ? ANNOTATION_DEFAULTS.STROKE : ANNOTATION_DEFAULTS.FILL,
+    stroke: ANNOTATION_DEFAULTS.STROKE,
+    strokeWidth: ANNOTATION_DEFAULTS.STROKE_WIDTH,
+  };
+}
+
+/**
+ * Creates an annotation from a drag gesture on the canvas.
+ * A click without meaningful drag distance produces a default-sized element.
+ *
+ * @param tool - Drawing tool that was active
+ * @param start - Pointer position where the drag started
+ * @param end - Pointer position where the drag ended
+ * @returns The new annotation
+ *
+ * @remarks
+ * Arrows keep a signed width/height so the head points in the drag direction;
+ * all other annotations are normalized to a positive bounding box.
+ *
+ * @example
+ * ```typescript
+ * const rect = createAnnotation("rectangle", { x: 0, y: 0 }, { x: 200, y: 120 });
+ * setAnnotations([...annotations, rect]);
+ * ```
+ */
+export function createAnnotation(
+  tool: Exclude<AnnotationTool, "select">,
+  start: CanvasPoint,
+  end: CanvasPoint,
+): PlacedAnnotation {
+  const deltaX = end.x - start.x;
+  const deltaY = end.y - start.y;
+  const isClick =
+    Math.abs(deltaX) < ANNOTATION_DEFAULTS.MIN_DRAW_SIZE &&
+    Math.abs(deltaY) < ANNOTATION_DEFAULTS.MIN_DRAW_SIZE;
+  const id = `annotation-${Date.now()}-${Math.random()}`;
+  const style = getDefaultAnnotationStyle(tool);
+
+  if (tool === "text") {
+    return {
+      height: ANNOTATION_DEFAULTS.FONT_SIZE * 1.5,
+      id,
+      rotation: 0,
+      style,
+      text: ANNOTATION_DEFAULTS.TEXT,
+      type: "text",
+      width: isClick ? ANNOTATION_DEFAULTS.TEXT_WIDTH : Math.abs(deltaX),
+      x: Math.min(start.x, end.x),
+      y: Math.min(start.y, end.y),
+    };
+  }
+
+  if (tool === "arrow") {
+    return {
+      height: isClick ? 0 : deltaY,
+      id,
+      rotation: 0,
+      shapeType: "arrow",
+      style,
+      type: "shape",
+      width: isClick ? ANNOTATION_DEFAULTS.ARROW_LENGTH : deltaX,
+      x: start.x,
+      y: start.y,
+    };
+  }
+
+  return {
+    height: isClick ? ANNOTATION_DEFAULTS.SHAPE_HEIGHT : Math.abs(deltaY),
+    id,
+    rotation: 0,
+    shapeType: tool,
+    style,
+    type: "shape",
+    width: isClick ? ANNOTATION_DEFAULTS.SHAPE_WIDTH : Math.abs(deltaX),
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+  };
+}
+
+/**
+ * Returns the axis-aligned bounds of an annotation, accounting for arrows
+ * drawn up or to the left (negative width/height).
+ *
+ * @param annotation - Annotation to measure
+ * @returns Bounding box with positive width and height
+ */
+export function getAnnotationBounds(annotation: PlacedAnnotation): {
+  height: number;
+  width: number;
+  x: number;
+  y: number;
+} {
+  return {
+    height: Math.abs(annotation.height),
+    width: Math.abs(annotation.width),
+    x: Math.min(annotation.x, annotation.x + annotation.width),
+    y: Math.min(annotation.y, annotation.y + annotation.height),
+  };
+}
+
+/**
+ * Applies a partial style to the selected annotations.
+ *
+ * @param annotations - Array of all annotations on the canvas
+ * @param selectedIds - IDs of annotations to restyle
+ * @param style - Style properties to merge
+ * @returns New annotations array with the style applied
+ */
+export function applyAnnotationStyle(
+  annotations: PlacedAnnotation[],
+  selectedIds: string[],
+  style: Partial<AnnotationStyle>,
+): PlacedAnnotation[] {
+  return annotations.map((annotation) =>
+    selectedIds.includes(annotation.id)
+      ? { ...annotation, style: { ...annotation.style, ...style } }
+      : annotation,
+  );
+}
+
+/**
+ * Duplicates selected annotations with a small offset.
+ *
+ * @param annotations - Array of all annotations on the canvas
+ * @param selectedIds - IDs of annotations to duplicate
+ * @returns Newly created annotations
+ */
+export function duplicateAnnotations(
+  annotations: PlacedAnnotation[],
+  selectedIds: string[],
+): PlacedAnnotation[] {
+  return annotations
+    .filter((annotation) => selectedIds.includes(annotation.id))
+    .map((annotation) => ({
+      ...annotation,
+      id: `annotation-${Date.now()}-${Math.random()}`,
+      x: annotation.x + 20,
+      y: annotation.y + 20,
+    }));
+}
+
+/**
+ * Removes selected annotations from the canvas.
+ *
+ * @param annotations - Array of all annotations on the canvas
+ * @param selectedIds - IDs of annotations to delete
+ * @returns Filtered annotations array
+ */
+export function deleteAnnotations(
+  annotations: PlacedAnnotation[],
+  selectedIds: string[],
+): PlacedAnnotation[] {
+  return annotations.filter(
+    (annotation) => !selectedIds.includes(annotation.id),
+  );
+}
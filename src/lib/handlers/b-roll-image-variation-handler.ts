@@ -12,6 +12,7 @@ import { DEFAULT_FIBO_ANALYSIS } from "@/constants/fibo";
 import type { ImageStyleMoodAnalysis } from "@/lib/schemas/image-analysis-schema";
 import { showErrorFromException } from "@/lib/toast";
 import type { PlacedImage } from "@/types/canvas";
+import { getSourceAssetIds } from "@/utils/generation-provenance-utils";
 import {
   createPlaceholderFactory,
   handleVariationError,
@@ -376,6 +377,7 @@ export const handleBrollImageVariations = async (
         isVariation: true,
         model: imageModel,
         prompt: formattedPrompt,
+        sourceAssetIds: getSourceAssetIds([selectedImage]),
         status: VARIATION_STATUS.GENERATING,
       });
     });
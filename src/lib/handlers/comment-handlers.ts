@@ -0,0 +1,81 @@
+/**
+ * Comment pin handlers
+ *
+ * This module provides pure utilities for placing review comment pins on
+ * the canvas and finding where existing pins are drawn.
+ *
+ * @module lib/handlers/comment-handlers
+ */
+
+import type { PlacedImage } from "@/types/canvas";
+
+/**
+ * Canvas element a comment can be pinned to.
+ */
+type PinnableElement = Pick<PlacedImage, "height" | "id" | "width" | "x" | "y">;
+
+/**
+ * Where a comment thread is pinned.
+ */
+export interface CommentPinTarget {
+  /** Element the pin follows (optional, pinned to the canvas when unset) */
+  elementId?: string;
+
+  /** Relative to the element when elementId is set, otherwise in canvas coordinates */
+  position: { x: number; y: number };
+}
+
+/**
+ * Creates a pin target for a click on the canvas.
+ *
+ * Clicks on an image or video pin the comment to the topmost one, so the pin
+ * moves with it; clicks elsewhere pin it to the canvas.
+ *
+ * @param point - Clicked point in canvas coordinates
+ * @param elements - Images and videos, bottom to top
+ * @returns Pin target for the new thread
+ */
+export function createCommentPinTarget(
+  point: { x: number; y: number },
+  elements: PinnableElement[],
+): CommentPinTarget {
+  for (let i = elements.length - 1; i >= 0; i--) {
+    const element = elements[i];
+    if (
+      point.x >= element.x &&
+      point.x <= element.x + element.width &&
+      point.y >= element.y &&
+      point.y <= element.y + element.height
+    ) {
+      return {
+        elementId: element.id,
+        position: { x: point.x - element.x, y: point.y - element.y },
+      };
+    }
+  }
+
+  return { position: point };
+}
+
+/**
+ * Resolves a pin to canvas coordinates.
+ *
+ * @param target - Pin of a comment thread
+ * @param elements - Images and videos on the canvas
+ * @returns Pin position, or null when the pinned element was removed
+ */
+export function getCommentPinPosition(
+  target: Partial<CommentPinTarget>,
+  elements: PinnableElement[],
+): { x: number; y: number } | null {
+  if (!target.position) return null;
+  if (!target.elementId) return target.position;
+
+  const element = elements.find((item) => item.id === target.elementId);
+  if (!element) return null;
+
+  return {
+    x: element.x + target.position.x,
+    y: element.y + target.position.y,
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Frame (artboard) handlers
+ *
+ * This module provides pure utilities for grouping images and videos into
+ * titled frames, measuring frames, and moving their members together.
+ *
+ * @module lib/handlers/frame-handlers
+ */
+
+import { FRAME_DEFAULTS } from "@/constants/canvas";
+import type { PlacedFrame, PlacedImage } from "@/types/canvas";
+import {
+  calculateRotatedBoundingBox,
+  getRectanglesUnion,
+  type Rectangle,
+} from "@/utils/transform-utils";
+
+/**
+ * Canvas element that can belong to a frame.
+ */
+type FrameMember = Pick<
+  PlacedImage,
+  "height" | "id" | "parentGroupId" | "rotation" | "width" | "x" | "y"
+>;
+
+/**
+ * Creates a new, empty frame.
+ *
+ * @param title - Label shown above the frame
+ * @returns The new frame
+ */
+export function createFrame(title: string = FRAME_DEFAULTS.TITLE): PlacedFrame {
+  return {
+    id: `frame-${Date.now()}-${Math.random()}`,
+    title,
+  };
+}
+
+/**
+ * Returns the elements that belong to a frame.
+ *
+ * @param frameId - ID of the frame
+ * @param elements - Images and/or videos on the canvas
+ * @returns Elements whose parentGroupId matches the frame
+ */
+export function getFrameMembers<T extends FrameMember>(
+  frameId: string,
+  elements: T[],
+): T[] {
+  return elements.filter((element) => element.parentGroupId === frameId);
+}
+
+/**
+ * Calculates the bounds of a frame from its members, including padding and
+ * the title bar above the content.
+ *
+ * @param frameId - ID of the frame
+ * @param elements - Images and videos on the canvas
+ * @returns Frame bounds, or null when the frame has no members
+ */
+export function getFrameBounds(
+  frameId: string,
+  elements: FrameMember[],
+): Rectangle | null {
+  const content = getRectanglesUnion(
+    getFrameMembers(frameId, elements).map(calculateRotatedBoundingBox),
+  );
+  if (!content) return null;
+
+  return {
+    height:
+      content.height + FRAME_DEFAULTS.PADDING * 2 + FRAME_DEFAULTS.TITLE_HEIGHT,
+    width: content.width + FRAME_DEFAULTS.PADDING * 2,
+    x: content.x - FRAME_DEFAULTS.PADDING,
+    y: content.y - FRAME_DEFAULTS.PADDING - FRAME_DEFAULTS.TITLE_HEIGHT,
+  };
+}
+
+/**
+ * Returns the IDs of elements hidden inside collapsed frames.
+ *
+ * @param frames - Frames on the canvas
+ * @param elements - Images and videos on the canvas
+ * @returns Set of hidden element IDs
+ */
+export function getCollapsedMemberIds(
+  frames: PlacedFrame[],
+  elements: FrameMember[],
+): Set<string> {
+  const collapsedFrameIds = new Set(
+    frames.filter((frame) => frame.isCollapsed).map((frame) => frame.id),
+  );
+
+  return new Set(
+    elements
+      .filter(
+        (element) =>
+          element.parentGroupId && collapsedFrameIds.has(element.parentGroupId),
+      )
+      .map((element) => element.id),
+  );
+}
+
+/**
+ * Offsets every member of a frame by the same delta.
+ *
+ * @param elements - Images or videos on the canvas
+ * @param frameId - ID of the frame being moved
+ * @param deltaX - Horizontal offset in canvas pixels
+ * @param deltaY - Vertical offset in canvas pixels
+ * @returns New elements array with the frame's members moved
+ */
+export function moveFrameMembers<T extends FrameMember>(
+  elements: T[],
+  frameId: string,
+  deltaX: number,
+  deltaY: number,
+): T[] {
+  return elements.map((element) =>
+    element.parentGroupId === frameId
+      ? { ...element, x: element.x + deltaX, y: element.y + deltaY }
+      : element,
+  );
+}
+
+/**
+ * Assigns elements to a frame, moving them out of any frame they were in.
+ *
+ * @param elements - Images or videos on the canvas
+ * @param selectedIds - IDs of elements to assign
+ * @param frameId - Target frame ID, or undefined to remove from frames
+ * @returns New elements array with updated membership
+ */
+export function assignToFrame<T extends FrameMember>(
+  elements: T[],
+  selectedIds: string[],
+  frameId: string | undefined,
+): T[] {
+  return elements.map((element) =>
+    selectedIds.includes(element.id)
+      ? { ...element, parentGroupId: frameId }
+      : element,
+  );
+}
+
+/**
+ * Removes frames that no longer have any members.
+ *
+ * @param frames - Frames on the canvas
+ * @param elements - Images and videos on the canvas
+ * @returns Frames that still wrap at least one element
+ */
+export function pruneEmptyFrames(
+  frames: PlacedFrame[],
+  elements: FrameMember[],
+): PlacedFrame[] {
+  return frames.filter((frame) =>
+    elements.some((element) => element.parentGroupId === frame.id),
+  );
+}
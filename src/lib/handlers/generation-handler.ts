@@ -1,3 +1,4 @@
+import type { FiboStructuredPrompt } from "@/lib/adapters/fibo-to-analysis-adapter";
 import type {
   ActiveGeneration,
   GenerationSettings,
@@ -13,6 +14,14 @@ import { uploadImageDirect } from "@/lib/utils/upload-utils";
 import { isConvexStorageUrl } from "@/features/generation/app-services/image-storage.service";
 import { isErr, getErrorMessage } from "@/lib/errors/safe-errors";
 import { logger } from "@/lib/logger";
+import {
+  canRegenerate,
+  createRegeneration,
+  createStructuredPromptGeneration,
+  getSourceAssetIds,
+  type RegenerateMode,
+} from "@/utils/generation-provenance-utils";
+import { calculateBalancedPosition } from "./variation-placeholder";
 
 const log = logger.generation;
 
@@ -56,6 +65,7 @@ export const addImageToCanvasState = (
   setActiveGenerations: GenerationHandlerDeps["setActiveGenerations"],
   width: number = 300,
   height: number = 300,
+  sourceImage?: PlacedImage,
 ) => {
   const placeholderId = `generated-${Date.now()}`;
   setImages((prev) => [
@@ -70,6 +80,7 @@ export const addImageToCanvasState = (
       rotation: 0,
       isGenerated: true,
       parentGroupId: groupId,
+      parentIds: sourceImage ? [sourceImage.id] : undefined,
     },
   ]);
 
@@ -78,6 +89,9 @@ export const addImageToCanvasState = (
     new Map(prev).set(placeholderId, {
       imageUrl,
       prompt: generationSettings.prompt,
+      sourceAssetIds: sourceImage
+        ? getSourceAssetIds([sourceImage])
+        : undefined,
     }),
   );
 };
@@ -300,6 +314,7 @@ const processImageVariation = async (
     setActiveGenerations,
     img.width,
     img.height,
+    img,
   );
   return true;
 };
@@ -348,3 +363,138 @@ export const handleRun = async (deps: GenerationHandlerDeps) => {
   // Process each selected image individually for image-to-image
   await handleImageToImage(selectedImages, deps);
 };
+
+/**
+ * Places a loading copy of an image to its right, to be replaced by its
+ * regeneration
+ *
+ * @returns ID of the placeholder
+ */
+function placeRegenerationPlaceholder(
+  image: PlacedImage,
+  setImages: GenerationHandlerDeps["setImages"],
+): string {
+  const placeholderId = `regenerated-${Date.now()}`;
+  const position = calculateBalancedPosition(
+    image.x,
+    image.y,
+    2,
+    image.width,
+    image.height,
+    image.width,
+    image.height,
+  );
+
+  setImages((prev) => [
+    ...prev,
+    {
+      cameraAngle: image.cameraAngle,
+      characterVariation: image.characterVariation,
+      customPreset: image.customPreset,
+      directorName: image.directorName,
+      displayAsThumbnail: true,
+      emotion: image.emotion,
+      height: image.height,
+      id: placeholderId,
+      isGenerated: true,
+      isLoading: true,
+      lightingScenario: image.lightingScenario,
+      moodVector: image.moodVector,
+      parentGroupId: image.parentGroupId,
+      parentIds: image.parentIds,
+      pixelatedSrc: image.pixelatedSrc,
+      rotation: 0,
+      src: image.src,
+      storylineLabel: image.storylineLabel,
+      surfaceMap: image.surfaceMap,
+      variationType: image.variationType,
+      weather: image.weather,
+      width: image.width,
+      x: position.x,
+      y: position.y,
+    },
+  ]);
+
+  return placeholderId;
+}
+
+/**
+ * Regenerates an image from its recorded provenance.
+ * The result is placed to the right of the original, which is left untouched.
+ *
+ * @param image - Image to regenerate
+ * @param mode - Reuse the recorded seed, or pick a new one
+ * @param deps - Canvas state setters
+ */
+export const handleRegenerate = (
+  image: PlacedImage,
+  mode: RegenerateMode,
+  deps: Pick<
+    GenerationHandlerDeps,
+    "setActiveGenerations" | "setImages" | "setIsGenerating" | "setSelectedIds"
+  >,
+) => {
+  const { setActiveGenerations, setImages, setIsGenerating, setSelectedIds } =
+    deps;
+
+  const { provenance } = image;
+  if (!provenance || !canRegenerate(image)) {
+    showError(
+      "Cannot regenerate",
+      "This image has no recorded generation settings",
+    );
+    return;
+  }
+
+  const placeholderId = placeRegenerationPlaceholder(image, setImages);
+
+  setActiveGenerations((prev) =>
+    new Map(prev).set(placeholderId, createRegeneration(provenance, mode)),
+  );
+  setIsGenerating(true);
+  setSelectedIds([placeholderId]);
+};
+
+/**
+ * Renders an edited FIBO structured prompt of an image with the same sources
+ * and seed, so the result differs only by the edited fields.
+ * The result is placed to the right of the original, which is left untouched.
+ *
+ * @param image - Image the structured prompt was taken from
+ * @param structuredPrompt - Edited structured prompt
+ * @param deps - Canvas state setters
+ */
+export const handleStructuredPromptRegeneration = (
+  image: PlacedImage,
+  structuredPrompt: FiboStructuredPrompt,
+  deps: Pick<
+    GenerationHandlerDeps,
+    "setActiveGenerations" | "setImages" | "setIsGenerating" | "setSelectedIds"
+  >,
+) => {
+  const { setActiveGenerations, setImages, setIsGenerating, setSelectedIds } =
+    deps;
+
+  const { provenance } = image;
+  if (!provenance || !canRegenerate(image)) {
+    showError(
+      "Cannot regenerate",
+      "This image has no recorded generation settings",
+    );
+    return;
+  }
+
+  const placeholderId = placeRegenerationPlaceholder(image, setImages);
+
+  setActiveGenerations((prev) =>
+    new Map(prev).set(
+      placeholderId,
+      createStructuredPromptGeneration(provenance, structuredPrompt, {
+        height: image.naturalHeight ?? image.height,
+        width: image.naturalWidth ?? image.width,
+      }),
+    ),
+  );
+  setIsGenerating(true);
+  setSelectedIds([placeholderId]);
+};
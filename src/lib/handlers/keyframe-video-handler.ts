@@ -0,0 +1,228 @@
+/**
+ * Keyframe Video Handler
+ * Generates a transition clip between two selected images, using the left
+ * image as the start frame and the right image as the end frame
+ * Uses errors-as-values pattern with @safe-std/error
+ *
+ * @module lib/handlers/keyframe-video-handler
+ */
+
+import { CANVAS_DIMENSIONS, VIDEO_DEFAULTS } from "@/constants/canvas";
+import { isErr, tryPromise } from "@/lib/errors/safe-errors";
+import { showError, showErrorFromException } from "@/lib/toast";
+import { getVideoModelById, supportsEndFrame } from "@/lib/video-models";
+import type {
+  ActiveVideoGeneration,
+  PlacedImage,
+  PlacedVideo,
+  VideoGenerationSettings,
+} from "@/types/canvas";
+import { snapPosition } from "@/utils/snap-utils";
+import {
+  createVideoPlaceholder,
+  performEarlyPreparation,
+  VARIATION_STATUS,
+} from "./variation-shared-utils";
+import {
+  ensureImageInConvex,
+  toSignedUrl,
+  validateImageSelection,
+} from "./variation-utils";
+
+const ERROR_MESSAGES = {
+  SELECT_TWO_IMAGES:
+    "Please select exactly 2 images to generate a clip between them",
+  SOURCE_URL_MISSING: "Source image URL is missing or empty",
+} as const;
+
+interface KeyframeVideoHandlerDeps {
+  basePrompt?: string;
+  images: PlacedImage[];
+  selectedIds: string[];
+  setActiveVideoGenerations: React.Dispatch<
+    React.SetStateAction<Map<string, ActiveVideoGeneration>>
+  >;
+  setIsGenerating: React.Dispatch<React.SetStateAction<boolean>>;
+  setVideos: React.Dispatch<React.SetStateAction<PlacedVideo[]>>;
+  userId?: string;
+  videoSettings?: Partial<VideoGenerationSettings>;
+}
+
+/**
+ * Uploads a keyframe image if needed and returns a signed URL for the API
+ * Returns errors as values instead of throwing
+ */
+async function prepareKeyframeUrl(image: PlacedImage): Promise<string | Error> {
+  const sourceUrl = image.fullSizeSrc || image.src;
+  if (!sourceUrl) {
+    return new Error(ERROR_MESSAGES.SOURCE_URL_MISSING);
+  }
+
+  const imageUrl = await ensureImageInConvex(sourceUrl);
+  if (imageUrl instanceof Error) {
+    return imageUrl;
+  }
+
+  return toSignedUrl(imageUrl);
+}
+
+/**
+ * Generates a single clip that starts on one selected image and ends on the
+ * other, for video models that support end frames
+ *
+ * The placeholder is placed below the two images, centered between them.
+ */
+export const handleKeyframeVideoGeneration = async (
+  deps: KeyframeVideoHandlerDeps,
+) => {
+  const {
+    basePrompt,
+    images,
+    selectedIds,
+    setActiveVideoGenerations,
+    setIsGenerating,
+    setVideos,
+    userId,
+    videoSettings = {},
+  } = deps;
+
+  if (selectedIds.length !== 2) {
+    showError("Select 2 images", ERROR_MESSAGES.SELECT_TWO_IMAGES);
+    return;
+  }
+
+  const selectedImages = validateImageSelection(images, selectedIds);
+  if (!selectedImages) {
+    return;
+  }
+
+  const modelId = videoSettings.modelId || VIDEO_DEFAULTS.MODEL_ID;
+  if (!supportsEndFrame(modelId)) {
+    showError(
+      "End frames not supported",
+      `${getVideoModelById(modelId)?.name ?? modelId} cannot generate a clip between two images. Switch to Veo.`,
+    );
+    return;
+  }
+
+  if (!userId) {
+    showError("Authentication required", "Please sign in to generate videos");
+    return;
+  }
+
+  setIsGenerating(true);
+
+  const timestamp = Date.now();
+  const [startImage, endImage] = [...selectedImages].sort(
+    (a, b) => a.x - b.x || a.y - b.y,
+  );
+  const duration = Number(videoSettings.duration) || VIDEO_DEFAULTS.DURATION;
+
+  const preparationResult = await tryPromise(
+    performEarlyPreparation([startImage], 1),
+  );
+
+  if (isErr(preparationResult)) {
+    showErrorFromException(
+      "Generation failed",
+      preparationResult.payload,
+      "Failed to prepare the video",
+    );
+    setIsGenerating(false);
+    return;
+  }
+
+  const { pixelatedSrc, snappedSource } = preparationResult;
+
+  const placeholder = createVideoPlaceholder({
+    duration,
+    pixelatedSrc,
+    positionIndex: 0,
+    sourceHeight: startImage.height,
+    sourceImageId: startImage.id,
+    sourceWidth: startImage.width,
+    sourceX: snappedSource.x,
+    sourceY: snappedSource.y,
+    timestamp,
+    variationIndex: 0,
+  });
+
+  const center = (startImage.x + endImage.x + endImage.width) / 2;
+  const bottom = Math.max(
+    startImage.y + startImage.height,
+    endImage.y + endImage.height,
+  );
+  const position = snapPosition(
+    center - startImage.width / 2,
+    bottom + CANVAS_DIMENSIONS.IMAGE_SPACING,
+  );
+
+  setVideos((prev) => [
+    ...prev,
+    {
+      ...placeholder,
+      parentIds: [startImage.id, endImage.id],
+      x: position.x,
+      y: position.y,
+    },
+  ]);
+
+  // Stage 0: Uploading both keyframes to ensure they're in Convex
+  const uploadId = `video-${timestamp}-upload`;
+
+  setActiveVideoGenerations((prev) => {
+    const newMap = new Map(prev);
+    newMap.set(uploadId, {
+      duration,
+      imageUrl: "",
+      isVariation: true,
+      modelId,
+      prompt: "",
+      sourceImageId: startImage.id,
+      status: VARIATION_STATUS.UPLOADING,
+    });
+    return newMap;
+  });
+
+  const [startUrl, endUrl] = await Promise.all([
+    prepareKeyframeUrl(startImage),
+    prepareKeyframeUrl(endImage),
+  ]);
+
+  setActiveVideoGenerations((prev) => {
+    const newMap = new Map(prev);
+    newMap.delete(uploadId);
+    return newMap;
+  });
+
+  if (startUrl instanceof Error || endUrl instanceof Error) {
+    showErrorFromException(
+      "Upload failed",
+      startUrl instanceof Error ? startUrl : endUrl,
+      "Failed to upload keyframe images",
+    );
+    setVideos((prev) => prev.filter((video) => video.id !== placeholder.id));
+    setIsGenerating(false);
+    return;
+  }
+
+  setActiveVideoGenerations((prev) => {
+    const newMap = new Map(prev);
+    newMap.set(placeholder.id, {
+      aspectRatio: videoSettings.aspectRatio || "auto",
+      duration,
+      endImageId: endImage.id,
+      endImageUrl: endUrl,
+      imageUrl: startUrl,
+      isVariation: true,
+      modelId,
+      prompt: basePrompt || "",
+      resolution: videoSettings.resolution || "auto",
+      sourceImageId: startImage.id,
+      status: VARIATION_STATUS.GENERATING,
+    });
+    return newMap;
+  });
+
+  setIsGenerating(false);
+};
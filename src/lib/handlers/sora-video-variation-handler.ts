@@ -56,6 +56,7 @@ interface SoraVideoVariationHandlerDeps {
   basePrompt?: string;
   isFiboAnalysisEnabled?: boolean;
   images: PlacedImage[];
+  parentGroupId?: string;
   selectedIds: string[];
   setActiveVideoGenerations: React.Dispatch<
     React.SetStateAction<Map<string, ActiveVideoGeneration>>
@@ -193,6 +194,7 @@ export const handleSoraVideoVariations = async (
   const {
     images,
     isFiboAnalysisEnabled = true,
+    parentGroupId,
     selectedIds,
     setActiveVideoGenerations,
     setIsGenerating,
@@ -396,6 +398,7 @@ export const handleSoraVideoVariations = async (
   const videoPlaceholders = videoPrompts.map((_, index) =>
     createVideoPlaceholder({
       duration,
+      parentGroupId,
       pixelatedSrc,
       positionIndex: positionIndices[index],
       sourceHeight: selectedImage.height,
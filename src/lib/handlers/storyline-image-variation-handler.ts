@@ -8,6 +8,7 @@
  */
 
 import type { ActiveGeneration, PlacedImage } from "@/types/canvas";
+import { getSourceAssetIds } from "@/utils/generation-provenance-utils";
 import { createLogger } from "@/lib/logger";
 import { handleError } from "@/shared/errors";
 import {
@@ -279,6 +280,7 @@ export const handleStorylineImageVariations = async (
             isVariation: true,
             model: imageModel,
             prompt: concept.prompt,
+            sourceAssetIds: getSourceAssetIds([selectedImage]),
             status: VARIATION_STATUS.GENERATING,
           });
 
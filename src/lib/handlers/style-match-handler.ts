@@ -0,0 +1,275 @@
+/**
+ * Style Match Handler
+ * Restyles target images with the style signature of a reference image,
+ * keeping the content of each target
+ * Uses errors-as-values pattern with @safe-std/error
+ *
+ * @module lib/handlers/style-match-handler
+ */
+
+import { analyzeImageStyle } from "@/features/generation/app-services/storyline-generation.service";
+import { isErr, tryPromise } from "@/lib/errors/safe-errors";
+import type { ImageModelId } from "@/lib/image-models";
+import { createLogger } from "@/lib/logger";
+import { sanitizePrompt } from "@/lib/prompt-utils";
+import type { ImageStyleMoodAnalysis } from "@/lib/schemas/image-analysis-schema";
+import { showError, showErrorFromException } from "@/lib/toast";
+import { config } from "@/shared/config/runtime";
+import type { ActiveGeneration, PlacedImage } from "@/types/canvas";
+import { getSourceAssetIds } from "@/utils/generation-provenance-utils";
+import {
+  createPlaceholder,
+  handleVariationError,
+  performEarlyPreparation,
+  performImageUploadWorkflow,
+  VARIATION_STATUS,
+} from "./variation-shared-utils";
+import {
+  createVariationId,
+  removeGenerationStatus,
+  updateGenerationStatus,
+} from "./variation-state-helpers";
+
+const handlerLogger = createLogger("style-match");
+
+/**
+ * Placement of each restyled image: to the right of its target
+ * (see calculateBalancedPosition)
+ */
+const STYLE_MATCH_POSITION_INDEX = 2;
+
+/**
+ * Number of strongest emotion axes named in the prompt
+ */
+const EMOTION_AXIS_COUNT = 3;
+
+/**
+ * Dependencies for the style match handler
+ */
+interface StyleMatchHandlerDeps {
+  imageModel?: ImageModelId;
+  images: PlacedImage[];
+  /** Canvas ID of the image whose style is applied */
+  referenceImageId: string;
+  selectedIds: string[];
+  setActiveGenerations: React.Dispatch<
+    React.SetStateAction<Map<string, ActiveGeneration>>
+  >;
+  setImages: React.Dispatch<React.SetStateAction<PlacedImage[]>>;
+  setIsGenerating: React.Dispatch<React.SetStateAction<boolean>>;
+  /** Optional direction added to the style match prompt */
+  variationPrompt?: string;
+}
+
+/**
+ * Builds an image-to-image prompt that keeps the content of the target and
+ * applies the reference's style signature
+ */
+function buildStyleMatchPrompt(
+  analysis: ImageStyleMoodAnalysis,
+  userContext?: string,
+): string {
+  const { colorPalette, styleSignature } = analysis;
+  const {
+    colorimetry,
+    emotionVector,
+    lensLanguage,
+    lightingSignature,
+    postProcessingSignature,
+  } = styleSignature;
+
+  const emotions = Object.entries(emotionVector)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, EMOTION_AXIS_COUNT)
+    .map(([axis, value]) => `${axis} ${value}/100`)
+    .join(", ");
+
+  const lines = [
+    "Restyle this image. Keep its subjects, composition, framing and poses exactly as they are; change only the look to match this style signature.",
+    `Style lock: ${styleSignature.styleLockPrompt}`,
+    `Color: ${colorimetry.brightness} brightness, ${colorimetry.contrast} contrast, ${colorimetry.saturation} saturation, ${colorimetry.warmth} temperature, ${colorimetry.harmony} harmony, ${colorimetry.highlightTint} highlights, ${colorimetry.shadowTint} shadows; ${colorPalette.grading} grading.`,
+    `Lighting: key ${lightingSignature.key}; fill ${lightingSignature.fill}; back ${lightingSignature.back}; ${lightingSignature.contrastRatio}.`,
+    `Lens: ${lensLanguage.focalLengthMm}mm ${lensLanguage.lensType} at ${lensLanguage.apertureF}, ${lensLanguage.depthOfField} depth of field, ${lensLanguage.look}.`,
+    `Post-processing: film grain ${postProcessingSignature.filmGrainIntensity}/100, ${postProcessingSignature.vignette} vignette, ${postProcessingSignature.halation ? "halation" : "no halation"}.`,
+    `Emotion: ${emotions}.`,
+  ];
+
+  if (userContext) {
+    lines.push(`Additional direction: ${userContext}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Generates restyled versions of the selected images that adopt the style of
+ * a reference image.
+ *
+ * Process flow:
+ * 1. Place a loading placeholder to the right of each target
+ * 2. Upload the reference and the targets to Convex storage
+ * 3. Analyze the reference to get its style signature
+ * 4. Generate each target from itself with the style match prompt
+ *
+ * Every other selected image is a target; the reference is recorded in the
+ * lineage of each result.
+ */
+export const handleStyleMatch = async (
+  deps: StyleMatchHandlerDeps,
+): Promise<void> => {
+  const {
+    imageModel = config.imageGeneration.defaultModel,
+    images,
+    referenceImageId,
+    selectedIds,
+    setActiveGenerations,
+    setImages,
+    setIsGenerating,
+    variationPrompt,
+  } = deps;
+
+  const referenceImage = images.find((img) => img.id === referenceImageId);
+  const targetImages = images.filter(
+    (img) => img.id !== referenceImageId && selectedIds.includes(img.id),
+  );
+
+  if (!referenceImage || targetImages.length === 0) {
+    showError(
+      "Select images to restyle",
+      "Select the style reference and at least 1 other image",
+    );
+    return;
+  }
+
+  setIsGenerating(true);
+  const timestamp = Date.now();
+
+  handlerLogger.info("Starting style match", {
+    targetCount: targetImages.length,
+  });
+
+  const preparationResult = await tryPromise(
+    Promise.all(
+      targetImages.map((target) => performEarlyPreparation([target], 1)),
+    ),
+  );
+
+  if (isErr(preparationResult)) {
+    showErrorFromException(
+      "Generation failed",
+      preparationResult.payload,
+      "Failed to prepare for style match",
+    );
+    setIsGenerating(false);
+    return;
+  }
+
+  const placeholderImages = targetImages.map((target, index) => {
+    const { imageSizeDimensions, pixelatedSrc, snappedSource } =
+      preparationResult[index];
+
+    return createPlaceholder({
+      metadata: { variationType: "style-match" },
+      naturalHeight: imageSizeDimensions.height,
+      naturalWidth: imageSizeDimensions.width,
+      parentIds: [target.id, referenceImage.id],
+      pixelatedSrc,
+      positionIndex: STYLE_MATCH_POSITION_INDEX,
+      sourceHeight: target.height,
+      sourceWidth: target.width,
+      sourceX: snappedSource.x,
+      sourceY: snappedSource.y,
+      src: target.src,
+      timestamp,
+      variationIndex: index,
+    });
+  });
+
+  setImages((prev) => [...prev, ...placeholderImages]);
+
+  // Stage 0: Upload the reference and the targets
+  const uploadResult = await tryPromise(
+    performImageUploadWorkflow({
+      selectedImages: [referenceImage, ...targetImages],
+      setActiveGenerations,
+      timestamp,
+    }),
+  );
+
+  if (isErr(uploadResult)) {
+    showErrorFromException(
+      "Upload failed",
+      uploadResult.payload,
+      "Failed to upload images for style match",
+    );
+
+    await handleVariationError({
+      error: uploadResult.payload,
+      setActiveGenerations,
+      setImages,
+      setIsGenerating,
+      timestamp,
+    });
+    return;
+  }
+
+  const [referenceUrl, ...targetUrls] = uploadResult.signedImageUrls;
+
+  // Stage 1: Analyze the reference's style signature
+  const analyzeId = createVariationId(timestamp, "analyze");
+
+  updateGenerationStatus(setActiveGenerations, {
+    generationId: analyzeId,
+    imageUrl: referenceUrl,
+    status: VARIATION_STATUS.ANALYZING,
+  });
+
+  const analysisResult = await tryPromise(analyzeImageStyle(referenceUrl));
+
+  removeGenerationStatus(setActiveGenerations, analyzeId);
+
+  if (isErr(analysisResult)) {
+    showErrorFromException(
+      "Analysis failed",
+      analysisResult.payload,
+      "Failed to analyze the style reference",
+    );
+
+    await handleVariationError({
+      error: analysisResult.payload,
+      setActiveGenerations,
+      setImages,
+      setIsGenerating,
+      timestamp,
+    });
+    return;
+  }
+
+  // Stage 2: Generate each target with the reference's style
+  const prompt = buildStyleMatchPrompt(
+    analysisResult.analysis,
+    sanitizePrompt(variationPrompt),
+  );
+
+  setActiveGenerations((prev) => {
+    const newMap = new Map(prev);
+    targetImages.forEach((target, index) => {
+      newMap.set(createVariationId(timestamp, index.toString()), {
+        imageSize: preparationResult[index].imageSizeDimensions,
+        imageUrl: targetUrls[index],
+        isVariation: true,
+        model: imageModel,
+        prompt,
+        sourceAssetIds: getSourceAssetIds([target]),
+        status: VARIATION_STATUS.GENERATING,
+      });
+    });
+    return newMap;
+  });
+
+  handlerLogger.info("Style match setup complete", {
+    targetCount: targetImages.length,
+  });
+
+  setIsGenerating(false);
+};
@@ -7,8 +7,8 @@
  */
 
 import {
+  getVariationClientConfig,
   mapImageVariationType,
-  variationClientConfigs,
   type ImageVariationType,
   type VariationClientConfig,
   type VariationType,
@@ -17,6 +17,7 @@ import { getErrorMessage, isErr, tryPromise } from "@/lib/errors/safe-errors";
 import { fiboStructuredToText } from "@/lib/utils/fibo-to-text";
 import { handleError } from "@/shared/errors";
 import type { ActiveGeneration, PlacedImage } from "@/types/canvas";
+import { getSourceAssetIds } from "@/utils/generation-provenance-utils";
 import {
   applyPixelatedOverlayToReferenceImage,
   createPlaceholderFactory,
@@ -25,21 +26,34 @@ import {
   performImageUploadWorkflow,
   removeAnalyzingStatus,
   setAnalyzingStatus,
+  VARIATION_CONSTANTS,
   VARIATION_STATUS,
 } from "./variation-shared-utils";
 import { validateImageSelection } from "./variation-utils";
 import type { ImageModelId } from "@/lib/image-models";
+import type { MoodVector } from "@/types/mood-vector";
+import type { VariationPreset } from "@/types/variation-preset";
 
 /**
  * Dependencies for unified image variation handler
  */
 export interface UnifiedImageVariationHandlerDeps {
+  /** Presets from the selected preset pack, used for custom variations */
+  customPresets?: VariationPreset[];
   /** Model to use for image generation */
   imageModel: ImageModelId;
   /** Whether FIBO analysis is enabled */
   isFiboAnalysisEnabled: boolean;
   /** Array of all placed images */
   images: PlacedImage[];
+  /** Target vector set with the mood sliders, used for mood variations */
+  moodVector?: MoodVector;
+  /** Frame the generated variations are grouped into */
+  parentGroupId?: string;
+  /** Presets picked by hand; when set, exactly these are generated instead of a random selection */
+  pickedItems?: string[];
+  /** Project the variations are generated in, recorded with the quota reservation */
+  projectId?: string;
   /** IDs of selected images */
   selectedIds: string[];
   /** Setter for active generation states */
@@ -50,7 +64,7 @@ export interface UnifiedImageVariationHandlerDeps {
   setImages: React.Dispatch<React.SetStateAction<PlacedImage[]>>;
   /** Setter for global generating flag */
   setIsGenerating: React.Dispatch<React.SetStateAction<boolean>>;
-  /** Number of variations to generate (4, 8, or 12) */
+  /** Number of variations to generate (1-24); ignored when presets are picked */
   variationCount: number;
   /** Optional user prompt for variation context */
   variationPrompt?: string;
@@ -75,6 +89,7 @@ async function fetchVariationsFromApi(
   config: VariationClientConfig,
   imageUrls: string[],
   items: string[],
+  usage: { model: ImageModelId; projectId?: string },
   userContext?: string,
 ): Promise<VariationsApiResponse | Error> {
   const fetchResult = await tryPromise(
@@ -84,6 +99,8 @@ async function fetchVariationsFromApi(
       body: JSON.stringify({
         imageUrls,
         [config.apiRequestKey]: items,
+        model: usage.model,
+        projectId: usage.projectId,
         userContext,
       }),
     }),
@@ -119,25 +136,39 @@ async function fetchVariationsFromApi(
 
 /**
  * Unified handler for all image variation types
- * Uses configuration from variationClientConfigs to handle any variation type
+ * Uses configuration from getVariationClientConfig to handle any variation type
  */
 export async function handleUnifiedImageVariation(
   variationType: VariationType,
   deps: UnifiedImageVariationHandlerDeps,
 ): Promise<void> {
-  const config = variationClientConfigs[variationType];
+  const config = getVariationClientConfig(
+    variationType,
+    deps.customPresets,
+    deps.moodVector,
+  );
   const {
     imageModel,
     isFiboAnalysisEnabled,
     images,
+    parentGroupId,
+    pickedItems,
+    projectId,
     selectedIds,
     setActiveGenerations,
     setImages,
     setIsGenerating,
-    variationCount,
     variationPrompt,
   } = deps;
 
+  // Picked presets decide the batch; otherwise select random items for this variation type
+  const selectedItems = pickedItems?.length
+    ? pickedItems.slice(0, VARIATION_CONSTANTS.MAX_VARIATION_COUNT)
+    : config.selectRandomItems(deps.variationCount);
+  const variationCount = pickedItems?.length
+    ? selectedItems.length
+    : deps.variationCount;
+
   // Validate selection early
   const selectedImages = validateImageSelection(images, selectedIds);
   if (!selectedImages) return;
@@ -173,12 +204,11 @@ export async function handleUnifiedImageVariation(
   const { imageSizeDimensions, pixelatedSrc, positionIndices, snappedSource } =
     preparationResult;
 
-  // Select random items for this variation type
-  const selectedItems = config.selectRandomItems(variationCount);
-
   // Create placeholder factory with shared configuration
   const makePlaceholder = createPlaceholderFactory({
     imageSizeDimensions,
+    parentGroupId,
+    parentIds: selectedImages.map((img) => img.id),
     pixelatedSrc,
     positionIndices,
     selectedImage: primaryImage,
@@ -245,6 +275,7 @@ export async function handleUnifiedImageVariation(
       config,
       signedImageUrls,
       selectedItems,
+      { model: imageModel, projectId },
       variationPrompt,
     );
 
@@ -320,6 +351,7 @@ export async function handleUnifiedImageVariation(
         isVariation: true,
         model: imageModel,
         prompt: finalPrompt,
+        sourceAssetIds: getSourceAssetIds(selectedImages),
         status: VARIATION_STATUS.GENERATING,
       });
     });
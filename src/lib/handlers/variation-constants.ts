@@ -16,6 +16,15 @@ export const VARIATION_CONSTANTS = {
   TWELVE_VARIATION_POSITIONS: [
     0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11,
   ] as number[],
+  /** Order other counts fill positions in: inner cardinal, inner corners, outer cardinal, rest of the outer ring */
+  FILL_ORDER_POSITIONS: [
+    0, 2, 4, 6, 1, 3, 5, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20,
+    21, 22, 23,
+  ] as number[],
+  /** Fewest variations in a batch */
+  MIN_VARIATION_COUNT: 1,
+  /** Most variations in a batch (both rings around the source) */
+  MAX_VARIATION_COUNT: 24,
 };
 
 /**
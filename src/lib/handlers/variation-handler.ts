@@ -5,9 +5,17 @@
  * @module lib/handlers/variation-handler
  */
 
+import {
+  getVariationClientConfig,
+  mapImageVariationType,
+  type ImageVariationType,
+} from "@/lib/api/variation-api-helper";
 import { IMAGE_MODELS, type ImageModelId } from "@/lib/image-models";
 import { showError } from "@/lib/toast";
-import type { PlacedImage } from "@/types/canvas";
+import type { PlacedFrame, PlacedImage } from "@/types/canvas";
+import type { MoodVector } from "@/types/mood-vector";
+import type { VariationPreset } from "@/types/variation-preset";
+import { createFrame } from "./frame-handlers";
 import {
   handleImageVariationByType,
   type UnifiedImageVariationHandlerDeps,
@@ -20,22 +28,24 @@ export { calculateBalancedPosition } from "./variation-shared-utils";
  * Dependencies for variation generation handler
  */
 interface VariationHandlerDeps {
+  /** Presets from the selected preset pack, used when imageVariationType is "custom" */
+  customPresets?: VariationPreset[];
   /** Model to use for image generation */
   imageModel?: ImageModelId;
-  /** Type of image variation (camera-angles, director, lighting, or weather) */
-  imageVariationType?:
-    | "camera-angles"
-    | "director"
-    | "lighting"
-    | "storyline"
-    | "characters"
-    | "emotions"
-    | "surface"
-    | "weather";
+  /** Type of image variation (camera-angles, director, lighting, weather, or custom presets) */
+  imageVariationType?: ImageVariationType;
   /** Whether FIBO analysis is enabled */
   isFiboAnalysisEnabled?: boolean;
+  /** Whether two selected images generate a clip from start to end frame */
+  isVideoEndFrameEnabled?: boolean;
   /** Array of all placed images */
   images: PlacedImage[];
+  /** Target vector set with the mood sliders, used when imageVariationType is "mood" */
+  moodVector?: MoodVector;
+  /** Presets picked by hand for the image variation type; replaces the random selection */
+  pickedItems?: string[];
+  /** Project the variations are generated in */
+  projectId?: string;
   /** IDs of selected images */
   selectedIds: string[];
   /** Setter for active generation states */
@@ -48,6 +58,8 @@ interface VariationHandlerDeps {
       Map<string, import("@/types/canvas").ActiveVideoGeneration>
     >
   >;
+  /** Setter for frames state; when provided each batch is grouped into a frame */
+  setFrames?: React.Dispatch<React.SetStateAction<PlacedFrame[]>>;
   /** Setter for images state */
   setImages: React.Dispatch<React.SetStateAction<PlacedImage[]>>;
   /** Setter for global generating flag */
@@ -58,7 +70,7 @@ interface VariationHandlerDeps {
   >;
   /** User ID for convex operations */
   userId?: string;
-  /** Number of variations to generate (4, 8, or 12) */
+  /** Number of variations to generate (1-24); ignored when presets are picked */
   variationCount?: number;
   /** Mode of variation (image or video) */
   variationMode?: "image" | "video";
@@ -70,21 +82,60 @@ interface VariationHandlerDeps {
   viewport: { x: number; y: number; scale: number };
 }
 
+/**
+ * Creates a frame for a variation batch and moves the source image into it.
+ * The source keeps its existing frame if it already belongs to one.
+ *
+ * @param title - Label for the new frame
+ * @param sourceImageId - ID of the image the variations are generated from
+ * @param setFrames - Setter for frames state
+ * @param setImages - Setter for images state
+ * @returns ID of the new frame
+ */
+function createVariationFrame(
+  title: string,
+  sourceImageId: string,
+  setFrames: React.Dispatch<React.SetStateAction<PlacedFrame[]>>,
+  setImages: React.Dispatch<React.SetStateAction<PlacedImage[]>>,
+): string {
+  const frame = createFrame(title);
+
+  setFrames((prev) => [...prev, frame]);
+  setImages((prev) =>
+    prev.map((img) =>
+      img.id === sourceImageId && !img.parentGroupId
+        ? { ...img, parentGroupId: frame.id }
+        : img,
+    ),
+  );
+
+  return frame.id;
+}
+
 /**
  * Handle variation generation for a selected image
  * Routes to appropriate handler based on variation mode and type
  *
- * - Video mode: Uses Sora 2 with AI analysis
+ * - Video mode: Uses Sora 2 with AI analysis, or generates a single clip
+ *   between two selected images when end frames are enabled
  * - Image mode: Uses unified handler for all variation types (director, camera angles, lighting)
+ *
+ * When `setFrames` is provided, the source image and its variations are
+ * grouped into a titled frame so each batch reads as one board.
  */
 export const handleVariationGeneration = async (
   deps: VariationHandlerDeps,
 ): Promise<void> => {
   const {
+    customPresets,
     images,
+    moodVector,
+    pickedItems,
+    projectId,
     selectedIds,
     setActiveGenerations,
     setActiveVideoGenerations,
+    setFrames,
     setImages,
     setIsGenerating,
     setVideos,
@@ -94,6 +145,7 @@ export const handleVariationGeneration = async (
     imageVariationType = "camera-angles",
     imageModel = IMAGE_MODELS.SEEDREAM,
     isFiboAnalysisEnabled = true,
+    isVideoEndFrameEnabled = false,
     variationPrompt,
     videoSettings,
     viewport,
@@ -109,14 +161,42 @@ export const handleVariationGeneration = async (
       return;
     }
 
+    if (isVideoEndFrameEnabled && selectedIds.length === 2) {
+      const { handleKeyframeVideoGeneration } = await import(
+        "./keyframe-video-handler"
+      );
+
+      return handleKeyframeVideoGeneration({
+        basePrompt: variationPrompt,
+        images,
+        selectedIds,
+        setActiveVideoGenerations,
+        setIsGenerating,
+        setVideos,
+        userId,
+        videoSettings,
+      });
+    }
+
     const { handleSoraVideoVariations } = await import(
       "./sora-video-variation-handler"
     );
 
+    const parentGroupId =
+      setFrames && selectedIds.length === 1
+        ? createVariationFrame(
+            "Video variations",
+            selectedIds[0],
+            setFrames,
+            setImages,
+          )
+        : undefined;
+
     return handleSoraVideoVariations({
       basePrompt: variationPrompt,
       images,
       isFiboAnalysisEnabled,
+      parentGroupId,
       selectedIds,
       setActiveVideoGenerations,
       setIsGenerating,
@@ -128,10 +208,42 @@ export const handleVariationGeneration = async (
   }
 
   // IMAGE MODE: Route to unified image variation handler
+  if (
+    imageVariationType === "custom" &&
+    !customPresets?.length &&
+    !pickedItems?.length
+  ) {
+    showError(
+      "No custom presets",
+      "Select a preset pack with at least one preset",
+    );
+    return;
+  }
+
+  const variationConfig = getVariationClientConfig(
+    mapImageVariationType(imageVariationType),
+    customPresets,
+    moodVector,
+  );
+  const parentGroupId =
+    setFrames && selectedIds.length > 0
+      ? createVariationFrame(
+          `${variationConfig.displayName} · ${pickedItems?.length || variationCount} variations`,
+          selectedIds[0],
+          setFrames,
+          setImages,
+        )
+      : undefined;
+
   const unifiedDeps: UnifiedImageVariationHandlerDeps = {
+    customPresets,
     imageModel,
     isFiboAnalysisEnabled,
     images,
+    moodVector,
+    parentGroupId,
+    pickedItems,
+    projectId,
     selectedIds,
     setActiveGenerations,
     setImages,
@@ -25,10 +25,11 @@ import type {
  * - For 4 variations: top, right, bottom, left (indices 0, 2, 4, 6)
  * - For 8 variations: all 8 positions around source (indices 0-7)
  * - For 12 variations: inner ring (0-7) + outer cardinal directions (8-11)
+ * - Up to 24 variations: the rest of the outer ring (12-23)
  *
  * @param sourceX - X coordinate of the source image
  * @param sourceY - Y coordinate of the source image
- * @param angleIndex - Index of the variation (0-11)
+ * @param angleIndex - Index of the variation (0-23)
  * @param sourceWidth - Width of the source image
  * @param sourceHeight - Height of the source image
  * @param variationWidth - Width of the variation image
@@ -105,6 +106,66 @@ export function calculateBalancedPosition(
         x: sourceX - variationWidth * 2,
         y: sourceY + sourceHeight / 2 - variationHeight / 2,
       };
+    case 12: // Top (outer), right of center
+      return {
+        x: sourceX + sourceWidth,
+        y: sourceY - variationHeight * 2,
+      };
+    case 13: // Top-right corner (outer)
+      return {
+        x: sourceX + sourceWidth + variationWidth,
+        y: sourceY - variationHeight * 2,
+      };
+    case 14: // Right (outer), above center
+      return {
+        x: sourceX + sourceWidth + variationWidth,
+        y: sourceY - variationHeight,
+      };
+    case 15: // Right (outer), below center
+      return {
+        x: sourceX + sourceWidth + variationWidth,
+        y: sourceY + sourceHeight,
+      };
+    case 16: // Bottom-right corner (outer)
+      return {
+        x: sourceX + sourceWidth + variationWidth,
+        y: sourceY + sourceHeight + variationHeight,
+      };
+    case 17: // Bottom (outer), right of center
+      return {
+        x: sourceX + sourceWidth,
+        y: sourceY + sourceHeight + variationHeight,
+      };
+    case 18: // Bottom (outer), left of center
+      return {
+        x: sourceX - variationWidth,
+        y: sourceY + sourceHeight + variationHeight,
+      };
+    case 19: // Bottom-left corner (outer)
+      return {
+        x: sourceX - variationWidth * 2,
+        y: sourceY + sourceHeight + variationHeight,
+      };
+    case 20: // Left (outer), below center
+      return {
+        x: sourceX - variationWidth * 2,
+        y: sourceY + sourceHeight,
+      };
+    case 21: // Left (outer), above center
+      return {
+        x: sourceX - variationWidth * 2,
+        y: sourceY - variationHeight,
+      };
+    case 22: // Top-left corner (outer)
+      return {
+        x: sourceX - variationWidth * 2,
+        y: sourceY - variationHeight * 2,
+      };
+    case 23: // Top (outer), left of center
+      return {
+        x: sourceX - variationWidth,
+        y: sourceY - variationHeight * 2,
+      };
     default:
       return { x: sourceX, y: sourceY };
   }
@@ -137,6 +198,8 @@ export function createPlaceholder(config: PlaceholderConfig): PlacedImage {
     isLoading: true,
     naturalHeight: config.naturalHeight,
     naturalWidth: config.naturalWidth,
+    parentGroupId: config.parentGroupId,
+    parentIds: config.parentIds,
     pixelatedSrc: config.pixelatedSrc,
     rotation: 0,
     src: config.src,
@@ -176,6 +239,8 @@ export function createPlaceholderFactory(baseConfig: VariationBaseConfig) {
   ): PlacedImage => {
     const {
       imageSizeDimensions,
+      parentGroupId,
+      parentIds,
       pixelatedSrc,
       positionIndices,
       selectedImage,
@@ -187,6 +252,8 @@ export function createPlaceholderFactory(baseConfig: VariationBaseConfig) {
       metadata,
       naturalHeight: imageSizeDimensions.height,
       naturalWidth: imageSizeDimensions.width,
+      parentGroupId,
+      parentIds: parentIds ?? [selectedImage.id],
       pixelatedSrc,
       positionIndex: positionIndices[variationIndex],
       sourceHeight: selectedImage.height,
@@ -234,6 +301,8 @@ export function createVideoPlaceholder(
     isVideo: true as const,
     ...(config.metadata && { metadata: config.metadata }),
     muted: VIDEO_DEFAULTS.MUTED,
+    parentGroupId: config.parentGroupId,
+    parentIds: [config.sourceImageId],
     pixelatedSrc: config.pixelatedSrc,
     rotation: 0,
     sourceImageId: config.sourceImageId,
@@ -247,8 +316,9 @@ export function createVideoPlaceholder(
 
 /**
  * Determines position indices array based on variation count.
+ * Counts other than 4, 8, and 12 fill positions nearest the source first.
  *
- * @param variationCount - Number of variations to generate (4, 8, or 12)
+ * @param variationCount - Number of variations to generate (1-24)
  * @returns Array of position indices for balanced placement
  */
 export function getPositionIndices(variationCount: number): number[] {
@@ -256,6 +326,8 @@ export function getPositionIndices(variationCount: number): number[] {
     return VARIATION_CONSTANTS.FOUR_VARIATION_POSITIONS;
   } else if (variationCount === 8) {
     return VARIATION_CONSTANTS.EIGHT_VARIATION_POSITIONS;
+  } else if (variationCount === 12) {
+    return VARIATION_CONSTANTS.TWELVE_VARIATION_POSITIONS;
   }
-  return VARIATION_CONSTANTS.TWELVE_VARIATION_POSITIONS;
+  return VARIATION_CONSTANTS.FILL_ORDER_POSITIONS.slice(0, variationCount);
 }
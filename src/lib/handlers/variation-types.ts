@@ -16,6 +16,10 @@ export interface PlaceholderConfig {
   naturalHeight: number;
   /** Natural width of the final image */
   naturalWidth: number;
+  /** Frame the placeholder is grouped into */
+  parentGroupId?: string;
+  /** Canvas IDs of the source images, recorded as the placeholder's lineage */
+  parentIds: string[];
   /** Pixelated overlay source URL */
   pixelatedSrc?: string;
   /** Position index for placement calculation */
@@ -43,6 +47,10 @@ export interface PlaceholderConfig {
 export interface VariationBaseConfig {
   /** Optimal dimensions for generated images */
   imageSizeDimensions: { height: number; width: number };
+  /** Frame the placeholders are grouped into */
+  parentGroupId?: string;
+  /** Canvas IDs of all source images (defaults to the selected image) */
+  parentIds?: string[];
   /** Pixelated overlay data URL */
   pixelatedSrc: string | undefined;
   /** Position indices based on variation count */
@@ -63,6 +71,8 @@ export interface VideoPlaceholderConfig {
   duration: number;
   /** Optional metadata to attach to placeholder */
   metadata?: Record<string, unknown>;
+  /** Frame the placeholder is grouped into */
+  parentGroupId?: string;
   /** Pixelated overlay source URL */
   pixelatedSrc?: string;
   /** Position index for placement calculation */
@@ -30,7 +30,7 @@ import type {
  * to ensure users see loading placeholders immediately.
  *
  * @param selectedImages - The source images selected for variation
- * @param variationCount - Number of variations to generate (4, 8, or 12)
+ * @param variationCount - Number of variations to generate (1-24)
  * @returns Promise resolving to preparation results
  */
 export async function performEarlyPreparation(
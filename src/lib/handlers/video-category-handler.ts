@@ -0,0 +1,243 @@
+/**
+ * Text-to-Video and Video-to-Video Handler
+ * Starts generations for the video categories that do not start from an
+ * image: a text prompt with nothing selected, or a selected video that is
+ * restyled or extended
+ *
+ * @module lib/handlers/video-category-handler
+ */
+
+import { CANVAS_DIMENSIONS, VIDEO_DEFAULTS } from "@/constants/canvas";
+import { sanitizePrompt } from "@/lib/prompt-utils";
+import { showError, showErrorFromException } from "@/lib/toast";
+import {
+  getVideoModelById,
+  type TextToVideoModelId,
+  type VideoToVideoModelId,
+} from "@/lib/video-models";
+import type {
+  ActiveVideoGeneration,
+  PlacedVideo,
+  VideoGenerationSettings,
+} from "@/types/canvas";
+import { calculateCenteredPlacement } from "@/utils/canvas-utils";
+import { VARIATION_STATUS } from "./variation-shared-utils";
+import { toSignedUrl } from "./variation-utils";
+
+/**
+ * Frame size of generated text-to-video clips, by aspect ratio
+ */
+const TEXT_TO_VIDEO_SIZES = {
+  "16:9": { height: 720, width: 1280 },
+  "9:16": { height: 1280, width: 720 },
+} as const;
+
+interface VideoCategoryHandlerBaseDeps {
+  /** Prompt describing the video, or the change to the selected video */
+  prompt?: string;
+  setActiveVideoGenerations: React.Dispatch<
+    React.SetStateAction<Map<string, ActiveVideoGeneration>>
+  >;
+  setSelectedIds: React.Dispatch<React.SetStateAction<string[]>>;
+  setVideos: React.Dispatch<React.SetStateAction<PlacedVideo[]>>;
+  userId?: string;
+}
+
+interface TextToVideoHandlerDeps extends VideoCategoryHandlerBaseDeps {
+  canvasSize: { height: number; width: number };
+  modelId: TextToVideoModelId;
+  videoSettings: Partial<VideoGenerationSettings>;
+  viewport: { scale: number; x: number; y: number };
+}
+
+interface VideoToVideoHandlerDeps extends VideoCategoryHandlerBaseDeps {
+  modelId: VideoToVideoModelId;
+  selectedIds: string[];
+  videos: PlacedVideo[];
+}
+
+/**
+ * Creates a loading video for optimistic UI while the video generates
+ */
+export function createLoadingVideo(
+  id: string,
+  bounds: { height: number; width: number; x: number; y: number },
+  duration: number,
+  parentIds?: string[],
+): PlacedVideo {
+  return {
+    currentTime: VIDEO_DEFAULTS.CURRENT_TIME,
+    duration,
+    id,
+    isLoading: true,
+    isLooping: VIDEO_DEFAULTS.IS_LOOPING,
+    isPlaying: VIDEO_DEFAULTS.IS_PLAYING,
+    isVideo: true as const,
+    muted: VIDEO_DEFAULTS.MUTED,
+    parentIds,
+    rotation: VIDEO_DEFAULTS.ROTATION,
+    src: "",
+    volume: VIDEO_DEFAULTS.VOLUME,
+    ...bounds,
+  };
+}
+
+/**
+ * Checks the prompt and sign-in shared by both categories
+ *
+ * @returns The sanitized prompt, or null after showing an error
+ */
+function validatePromptedRequest(
+  deps: VideoCategoryHandlerBaseDeps,
+  promptHint: string,
+): string | null {
+  const prompt = sanitizePrompt(deps.prompt);
+  if (!prompt) {
+    showError("Prompt required", promptHint);
+    return null;
+  }
+
+  if (!deps.userId) {
+    showError("Authentication required", "Please sign in to generate videos");
+    return null;
+  }
+
+  return prompt;
+}
+
+/**
+ * Generates a video from the prompt and places it in the center of the
+ * viewport
+ */
+export const handleTextToVideoGeneration = (deps: TextToVideoHandlerDeps) => {
+  const {
+    canvasSize,
+    modelId,
+    setActiveVideoGenerations,
+    setSelectedIds,
+    setVideos,
+    videoSettings,
+    viewport,
+  } = deps;
+
+  const prompt = validatePromptedRequest(
+    deps,
+    "Describe the video you want to generate",
+  );
+  if (!prompt) return;
+
+  const aspectRatio = videoSettings.aspectRatio === "9:16" ? "9:16" : "16:9";
+  const size = TEXT_TO_VIDEO_SIZES[aspectRatio];
+  const duration = Number(videoSettings.duration) || VIDEO_DEFAULTS.DURATION;
+  const placement = calculateCenteredPlacement(
+    canvasSize,
+    viewport,
+    size.width,
+    size.height,
+  );
+
+  const videoId = `text-video-${Date.now()}`;
+  setVideos((prev) => [
+    ...prev,
+    createLoadingVideo(videoId, placement, duration),
+  ]);
+  setSelectedIds([videoId]);
+
+  setActiveVideoGenerations((prev) => {
+    const newMap = new Map(prev);
+    newMap.set(videoId, {
+      aspectRatio,
+      category: "text-to-video",
+      duration,
+      isVariation: true,
+      modelId,
+      prompt,
+      resolution: videoSettings.resolution,
+      status: VARIATION_STATUS.GENERATING,
+    });
+    return newMap;
+  });
+};
+
+/**
+ * Restyles or extends the selected video, placing the result to its right
+ */
+export const handleVideoToVideoGeneration = (deps: VideoToVideoHandlerDeps) => {
+  const {
+    modelId,
+    selectedIds,
+    setActiveVideoGenerations,
+    setSelectedIds,
+    setVideos,
+    videos,
+  } = deps;
+
+  const selectedVideos = videos.filter((video) =>
+    selectedIds.includes(video.id),
+  );
+  if (selectedVideos.length !== 1) {
+    showError("Select 1 video", "Please select exactly 1 video to edit");
+    return;
+  }
+
+  const [sourceVideo] = selectedVideos;
+  if (!sourceVideo.src || sourceVideo.isLoading) {
+    showError("Video not ready", "Wait for the video to finish generating");
+    return;
+  }
+
+  const model = getVideoModelById(modelId);
+  const prompt = validatePromptedRequest(
+    deps,
+    model?.operation === "extend"
+      ? "Describe what happens after the video ends"
+      : "Describe the new look for the video",
+  );
+  if (!prompt) return;
+
+  const sourceVideoUrl = toSignedUrl(sourceVideo.src);
+  if (sourceVideoUrl instanceof Error) {
+    showErrorFromException(
+      "Invalid video",
+      sourceVideoUrl,
+      "The selected video cannot be sent for generation",
+    );
+    return;
+  }
+
+  // A restyle keeps the source length; an extension's length is up to the model
+  const duration =
+    model?.operation === "restyle" ? sourceVideo.duration : undefined;
+
+  const videoId = `video-edit-${Date.now()}`;
+  setVideos((prev) => [
+    ...prev,
+    createLoadingVideo(
+      videoId,
+      {
+        height: sourceVideo.height,
+        width: sourceVideo.width,
+        x: sourceVideo.x + sourceVideo.width + CANVAS_DIMENSIONS.IMAGE_SPACING,
+        y: sourceVideo.y,
+      },
+      duration ?? sourceVideo.duration,
+      [sourceVideo.id],
+    ),
+  ]);
+  setSelectedIds([videoId]);
+
+  setActiveVideoGenerations((prev) => {
+    const newMap = new Map(prev);
+    newMap.set(videoId, {
+      category: "video-to-video",
+      duration,
+      isVariation: true,
+      modelId,
+      prompt,
+      sourceVideoId: sourceVideo.id,
+      sourceVideoUrl,
+      status: VARIATION_STATUS.GENERATING,
+    });
+    return newMap;
+  });
+};
@@ -0,0 +1,222 @@
+/**
+ * Video Continuation Handler
+ * Continues work from a finished canvas video: extends it from its last
+ * frame, remixes it from its first frame with a new prompt, or places its
+ * last frame on the canvas as a new source image
+ * Uses errors-as-values pattern with @safe-std/error
+ *
+ * @module lib/handlers/video-continuation-handler
+ */
+
+import { CANVAS_DIMENSIONS, VIDEO_DEFAULTS } from "@/constants/canvas";
+import { getErrorMessage, isErr, tryPromise } from "@/lib/errors/safe-errors";
+import { sanitizePrompt } from "@/lib/prompt-utils";
+import { showError, showErrorFromException } from "@/lib/toast";
+import type {
+  ActiveVideoGeneration,
+  PlacedImage,
+  PlacedVideo,
+  VideoGenerationSettings,
+} from "@/types/canvas";
+import { extractVideoFrame } from "@/utils/video-utils";
+import { VARIATION_STATUS } from "./variation-shared-utils";
+import { ensureImageInConvex, toSignedUrl } from "./variation-utils";
+import { createLoadingVideo } from "./video-category-handler";
+
+/**
+ * What to do with a finished video
+ * - extend: generate a clip that starts on its last frame
+ * - remix: generate a clip from its first frame with a new prompt
+ * - last-frame: place its last frame on the canvas as a new image
+ */
+export type VideoContinuationMode = "extend" | "last-frame" | "remix";
+
+/**
+ * Prompt used to extend a clip when no prompt is typed
+ */
+const DEFAULT_EXTEND_PROMPT =
+  "Continue the shot naturally from this frame, keeping the same subjects, style and camera motion";
+
+interface VideoContinuationHandlerDeps {
+  /** Prompt typed for the selection; required to remix */
+  prompt?: string;
+  setActiveVideoGenerations: React.Dispatch<
+    React.SetStateAction<Map<string, ActiveVideoGeneration>>
+  >;
+  setImages: React.Dispatch<React.SetStateAction<PlacedImage[]>>;
+  setSelectedIds: React.Dispatch<React.SetStateAction<string[]>>;
+  setVideos: React.Dispatch<React.SetStateAction<PlacedVideo[]>>;
+  userId?: string;
+  videoSettings?: Partial<VideoGenerationSettings>;
+}
+
+/**
+ * Extracts a frame from the video and uploads it to Convex
+ * Returns errors as values instead of throwing
+ *
+ * @returns The Convex URL of the frame image
+ */
+async function uploadVideoFrame(
+  video: PlacedVideo,
+  position: "first" | "last",
+): Promise<string | Error> {
+  const frameResult = await tryPromise(extractVideoFrame(video.src, position));
+  if (isErr(frameResult)) {
+    return new Error(
+      `Frame extraction failed: ${getErrorMessage(frameResult)}`,
+    );
+  }
+
+  return ensureImageInConvex(frameResult);
+}
+
+/**
+ * Places the video's last frame to its right as a new image, so it can be
+ * used as the source of further generations
+ */
+async function placeLastFrame(
+  video: PlacedVideo,
+  deps: VideoContinuationHandlerDeps,
+) {
+  const frameUrl = await uploadVideoFrame(video, "last");
+  if (frameUrl instanceof Error) {
+    showErrorFromException(
+      "Frame extraction failed",
+      frameUrl,
+      "Could not read the last frame of the video",
+    );
+    return;
+  }
+
+  const imageId = `frame-${Date.now()}`;
+  deps.setImages((prev) => [
+    ...prev,
+    {
+      height: video.height,
+      id: imageId,
+      parentIds: [video.id],
+      rotation: 0,
+      src: frameUrl,
+      width: video.width,
+      x: video.x + video.width + CANVAS_DIMENSIONS.IMAGE_SPACING,
+      y: video.y,
+    },
+  ]);
+  deps.setSelectedIds([imageId]);
+}
+
+/**
+ * Generates a new clip from the first or last frame of the video, placed to
+ * its right
+ *
+ * The clip keeps the video's sourceImageId so its lineage leads back to the
+ * original image, and records the video as its source.
+ */
+async function generateFromFrame(
+  video: PlacedVideo,
+  mode: "extend" | "remix",
+  prompt: string,
+  deps: VideoContinuationHandlerDeps,
+) {
+  const {
+    setActiveVideoGenerations,
+    setSelectedIds,
+    setVideos,
+    videoSettings = {},
+  } = deps;
+
+  const modelId = videoSettings.modelId || VIDEO_DEFAULTS.MODEL_ID;
+  const duration = Number(videoSettings.duration) || VIDEO_DEFAULTS.DURATION;
+
+  const videoId = `video-${mode}-${Date.now()}`;
+  setVideos((prev) => [
+    ...prev,
+    {
+      ...createLoadingVideo(
+        videoId,
+        {
+          height: video.height,
+          width: video.width,
+          x: video.x + video.width + CANVAS_DIMENSIONS.IMAGE_SPACING,
+          y: video.y,
+        },
+        duration,
+        [video.id],
+      ),
+      sourceImageId: video.sourceImageId,
+    },
+  ]);
+  setSelectedIds([videoId]);
+
+  const frameUrl = await uploadVideoFrame(
+    video,
+    mode === "extend" ? "last" : "first",
+  );
+  const signedUrl =
+    frameUrl instanceof Error ? frameUrl : toSignedUrl(frameUrl);
+
+  if (signedUrl instanceof Error) {
+    showErrorFromException(
+      "Frame extraction failed",
+      signedUrl,
+      "Could not read a frame from the video",
+    );
+    setVideos((prev) => prev.filter((item) => item.id !== videoId));
+    return;
+  }
+
+  setActiveVideoGenerations((prev) => {
+    const newMap = new Map(prev);
+    newMap.set(videoId, {
+      aspectRatio: videoSettings.aspectRatio || "auto",
+      duration,
+      imageUrl: signedUrl,
+      isVariation: true,
+      modelId,
+      prompt,
+      resolution: videoSettings.resolution || "auto",
+      sourceImageId: video.sourceImageId,
+      sourceVideoId: video.id,
+      status: VARIATION_STATUS.GENERATING,
+    });
+    return newMap;
+  });
+}
+
+/**
+ * Extends, remixes or takes the last frame of a finished canvas video
+ *
+ * Remixing uses the prompt typed for the selection; extending falls back to
+ * a prompt that continues the shot.
+ */
+export const handleVideoContinuation = async (
+  video: PlacedVideo,
+  mode: VideoContinuationMode,
+  deps: VideoContinuationHandlerDeps,
+) => {
+  if (!video.src || video.isLoading) {
+    showError("Video not ready", "Wait for the video to finish generating");
+    return;
+  }
+
+  if (!deps.userId) {
+    showError("Authentication required", "Please sign in to use video frames");
+    return;
+  }
+
+  if (mode === "last-frame") {
+    await placeLastFrame(video, deps);
+    return;
+  }
+
+  const prompt = sanitizePrompt(deps.prompt);
+  if (mode === "remix" && !prompt) {
+    showError(
+      "Prompt required",
+      "Describe the remix in the prompt box, then choose Remix with prompt again",
+    );
+    return;
+  }
+
+  await generateFromFrame(video, mode, prompt || DEFAULT_EXTEND_PROMPT, deps);
+};
@@ -0,0 +1,397 @@
+/**
+ * Patch-based history utilities.
+ *
+ * Computes element-level differences between canvas states, applies them in
+ * either direction for undo/redo, and converts them to and from the compact
+ * form persisted with the project.
+ *
+ * @module lib/history/history-patch
+ */
+
+import type { HistoryState, PlacedImage, PlacedVideo } from "@/types/canvas";
+import type {
+  HistoryElement,
+  HistoryElementChange,
+  HistoryElementKind,
+  HistoryPatch,
+} from "@/types/history";
+
+/**
+ * Canvas state with every tracked collection present.
+ */
+export type HistorySnapshot = Required<HistoryState>;
+
+/**
+ * Direction a patch is applied in.
+ */
+export type HistoryDirection = "backward" | "forward";
+
+/**
+ * Collections tracked by history, in a stable order.
+ */
+const HISTORY_KINDS: HistoryElementKind[] = [
+  "images",
+  "videos",
+  "annotations",
+  "frames",
+];
+
+/**
+ * Media properties, which follow loading and generation progress rather
+ * than user edits. Elements always keep their latest media.
+ */
+const MEDIA_KEYS = [
+  "fullSizeSrc",
+  "isLoading",
+  "isSkeleton",
+  "pixelatedSrc",
+  "src",
+  "thumbnailSrc",
+] as const;
+
+/**
+ * Properties ignored when diffing elements.
+ */
+const UNTRACKED_KEYS = new Set<string>([
+  ...MEDIA_KEYS,
+  "currentTime",
+  "isLoaded",
+  "isPlaying",
+]);
+
+/**
+ * Nouns used when describing changes to a single collection.
+ */
+const KIND_NOUNS: Record<HistoryElementKind, [string, string]> = {
+  annotations: ["annotation", "annotations"],
+  frames: ["frame", "frames"],
+  images: ["image", "images"],
+  videos: ["video", "videos"],
+};
+
+/**
+ * Returns whether two ID lists contain the same IDs in the same order.
+ */
+function isSameOrder(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id, index) => id === b[index]);
+}
+
+/**
+ * Computes the property-level difference between two versions of an element.
+ *
+ * @returns Changed properties before and after, or null when nothing changed
+ */
+function diffElement(
+  before: HistoryElement,
+  after: HistoryElement,
+): { after: Record<string, unknown>; before: Record<string, unknown> } | null {
+  const beforeRecord = before as unknown as Record<string, unknown>;
+  const afterRecord = after as unknown as Record<string, unknown>;
+  const keys = new Set([
+    ...Object.keys(beforeRecord),
+    ...Object.keys(afterRecord),
+  ]);
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+  let hasChanges = false;
+
+  for (const key of keys) {
+    if (UNTRACKED_KEYS.has(key)) continue;
+    if (beforeRecord[key] === afterRecord[key]) continue;
+
+    changedBefore[key] = beforeRecord[key];
+    changedAfter[key] = afterRecord[key];
+    hasChanges = true;
+  }
+
+  return hasChanges ? { after: changedAfter, before: changedBefore } : null;
+}
+
+/**
+ * Computes the patch that turns one canvas state into another.
+ *
+ * @param before - State before the change
+ * @param after - State after the change
+ * @returns Patch describing the change (may contain no element changes)
+ *
+ * @example
+ * ```typescript
+ * const patch = createHistoryPatch(previousState, currentState);
+ * const restored = applyHistoryPatch(currentState, patch, "backward");
+ * ```
+ */
+export function createHistoryPatch(
+  before: HistorySnapshot,
+  after: HistorySnapshot,
+): HistoryPatch {
+  const changes: HistoryElementChange[] = [];
+  const order: HistoryPatch["order"] = {};
+
+  for (const kind of HISTORY_KINDS) {
+    const beforeItems = before[kind] as HistoryElement[];
+    const afterItems = after[kind] as HistoryElement[];
+    if (beforeItems === afterItems) continue;
+
+    const beforeById = new Map(beforeItems.map((item) => [item.id, item]));
+    const afterById = new Map(afterItems.map((item) => [item.id, item]));
+
+    beforeItems.forEach((item, index) => {
+      if (!afterById.has(item.id)) {
+        changes.push({ element: item, index, kind, op: "remove" });
+      }
+    });
+
+    afterItems.forEach((item, index) => {
+      const previous = beforeById.get(item.id);
+      if (!previous) {
+        changes.push({ element: item, index, kind, op: "add" });
+        return;
+      }
+      if (previous === item) return;
+
+      const diff = diffElement(previous, item);
+      if (diff) {
+        changes.push({ ...diff, id: item.id, kind, op: "update" });
+      }
+    });
+
+    // Layer reorders only show up as a different order of the kept elements
+    const keptBefore = beforeItems
+      .filter((item) => afterById.has(item.id))
+      .map((item) => item.id);
+    const keptAfter = afterItems
+      .filter((item) => beforeById.has(item.id))
+      .map((item) => item.id);
+    if (!isSameOrder(keptBefore, keptAfter)) {
+      order[kind] = {
+        after: afterItems.map((item) => item.id),
+        before: beforeItems.map((item) => item.id),
+      };
+    }
+  }
+
+  return {
+    changes,
+    ...(Object.keys(order).length > 0 && { order }),
+    selectedIds: { after: after.selectedIds, before: before.selectedIds },
+  };
+}
+
+/**
+ * Applies a patch to one collection.
+ */
+function applyToCollection(
+  items: HistoryElement[],
+  changes: HistoryElementChange[],
+  direction: HistoryDirection,
+  order: { after: string[]; before: string[] } | undefined,
+): HistoryElement[] {
+  const isForward = direction === "forward";
+  const removeOp = isForward ? "remove" : "add";
+  const insertOp = isForward ? "add" : "remove";
+
+  const removedIds = new Set(
+    changes.flatMap((change) =>
+      change.op === removeOp ? [change.element.id] : [],
+    ),
+  );
+  let result = items.filter((item) => !removedIds.has(item.id));
+
+  const updates = new Map(
+    changes.flatMap((change) =>
+      change.op === "update"
+        ? [[change.id, isForward ? change.after : change.before] as const]
+        : [],
+    ),
+  );
+  if (updates.size > 0) {
+    result = result.map((item) => {
+      const props = updates.get(item.id);
+      return props ? ({ ...item, ...props } as HistoryElement) : item;
+    });
+  }
+
+  const inserts = changes
+    .flatMap((change) => (change.op === insertOp ? [change] : []))
+    .sort((a, b) => a.index - b.index);
+  for (const change of inserts) {
+    // Tolerate states that drifted from the recorded history
+    const existing = result.findIndex((item) => item.id === change.element.id);
+    if (existing !== -1) {
+      result[existing] = change.element;
+      continue;
+    }
+    result.splice(Math.min(change.index, result.length), 0, change.element);
+  }
+
+  if (order) {
+    const ids = isForward ? order.after : order.before;
+    const rank = new Map(ids.map((id, index) => [id, index]));
+    result = [...result].sort(
+      (a, b) =>
+        (rank.get(a.id) ?? Number.MAX_SAFE_INTEGER) -
+        (rank.get(b.id) ?? Number.MAX_SAFE_INTEGER),
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Applies a patch to a canvas state.
+ *
+ * @param state - State to apply the patch to
+ * @param patch - Patch to apply
+ * @param direction - "forward" to redo the change, "backward" to undo it
+ * @returns New state; untouched collections keep their identity
+ *
+ * @remarks
+ * Application is tolerant of states that do not exactly match the recorded
+ * history (e.g. unsaved edits before a reload): missing elements are skipped
+ * and re-inserted elements replace existing ones with the same ID.
+ */
+export function applyHistoryPatch(
+  state: HistorySnapshot,
+  patch: HistoryPatch,
+  direction: HistoryDirection,
+): HistorySnapshot {
+  const next: HistorySnapshot = {
+    ...state,
+    selectedIds:
+      direction === "forward"
+        ? patch.selectedIds.after
+        : patch.selectedIds.before,
+  };
+
+  for (const kind of HISTORY_KINDS) {
+    const changes = patch.changes.filter((change) => change.kind === kind);
+    const order = patch.order?.[kind];
+    if (changes.length === 0 && !order) continue;
+
+    (next as Record<HistoryElementKind, HistoryElement[]>)[kind] =
+      applyToCollection(
+        state[kind] as HistoryElement[],
+        changes,
+        direction,
+        order,
+      );
+  }
+
+  return next;
+}
+
+/**
+ * Builds a short human-readable description of a patch for the history panel.
+ *
+ * @param patch - Patch to describe
+ * @returns Description such as "Moved 3 images" or "Deleted 1 video"
+ */
+export function describeHistoryPatch(patch: HistoryPatch): string {
+  const { changes } = patch;
+  if (changes.length === 0) {
+    return patch.order ? "Reordered layers" : "No changes";
+  }
+
+  const kinds = new Set(changes.map((change) => change.kind));
+  const count = new Set(
+    changes.map((change) =>
+      change.op === "update" ? change.id : change.element.id,
+    ),
+  ).size;
+  const [singular, plural] =
+    kinds.size === 1
+      ? KIND_NOUNS[[...kinds][0]]
+      : (["element", "elements"] as [string, string]);
+  const noun = `${count} ${count === 1 ? singular : plural}`;
+
+  const ops = new Set(changes.map((change) => change.op));
+  if (ops.size === 1 && ops.has("add")) return `Added ${noun}`;
+  if (ops.size === 1 && ops.has("remove")) return `Deleted ${noun}`;
+
+  const isMove = changes.every(
+    (change) =>
+      change.op === "update" &&
+      Object.keys(change.after).every((key) => key === "x" || key === "y"),
+  );
+  if (isMove) return `Moved ${noun}`;
+
+  return `Edited ${noun}`;
+}
+
+/**
+ * Copies media properties from the live canvas onto a restored state, so
+ * elements that still exist are not shown with outdated or missing media.
+ *
+ * @param state - State restored from history
+ * @param live - Current canvas state
+ * @returns Restored state with the live media where available
+ */
+export function carryOverMedia(
+  state: HistorySnapshot,
+  live: HistorySnapshot,
+): HistorySnapshot {
+  const withMedia = <T extends PlacedImage | PlacedVideo>(
+    items: T[],
+    liveItems: T[],
+  ): T[] => {
+    const liveById = new Map(liveItems.map((item) => [item.id, item]));
+    return items.map((item) => {
+      const liveItem = liveById.get(item.id);
+      if (!liveItem || liveItem === item) return item;
+
+      const media: Partial<PlacedImage> = {};
+      for (const key of MEDIA_KEYS) {
+        Object.assign(media, { [key]: liveItem[key] });
+      }
+      return { ...item, ...media };
+    });
+  };
+
+  return {
+    ...state,
+    images: withMedia(state.images, live.images),
+    videos: withMedia(state.videos, live.videos),
+  };
+}
+
+/**
+ * Serializes a patch for persistence.
+ *
+ * @param patch - Patch to serialize
+ * @returns JSON string without runtime-only properties or inline media
+ *
+ * @remarks
+ * Inline data and blob URLs are dropped because their content already lives
+ * in local storage; callers re-attach it after parsing.
+ */
+export function serializeHistoryPatch(patch: HistoryPatch): string {
+  const changes = patch.changes.map((change): HistoryElementChange => {
+    if (change.op === "update") return change;
+
+    const element: Record<string, unknown> = { ...change.element };
+    for (const key of MEDIA_KEYS) {
+      if (key === "src") continue;
+      delete element[key];
+    }
+    if (
+      typeof element.src === "string" &&
+      (element.src.startsWith("data:") || element.src.startsWith("blob:"))
+    ) {
+      delete element.src;
+    }
+
+    return { ...change, element: element as unknown as HistoryElement };
+  });
+
+  return JSON.stringify({ ...patch, changes });
+}
+
+/**
+ * Parses a persisted patch.
+ *
+ * @param serialized - JSON string produced by serializeHistoryPatch
+ * @returns The patch; element media must be re-attached by the caller
+ */
+export function parseHistoryPatch(serialized: string): HistoryPatch {
+  return JSON.parse(serialized) as HistoryPatch;
+}
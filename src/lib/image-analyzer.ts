@@ -4,12 +4,13 @@
  * Uses errors-as-values pattern with @safe-std/error
  *
  * Now powered by Bria FIBO model for faster, more accurate image analysis
+ * Results are cached on the image's asset when a Convex client is given
  */
 
 import { FIBO_ANALYSIS, getFiboSeed } from "@/constants/fibo";
-import { adaptFiboToAnalysis } from "@/lib/adapters/fibo-to-analysis-adapter";
 import type { ImageStyleMoodAnalysis } from "@/lib/schemas/image-analysis-schema";
-import { analyzeFiboImageWithRetry } from "@/lib/services/fibo-image-analyzer";
+import { analyzeImageWithCache } from "@/lib/services/image-analysis-cache";
+import type { ConvexHttpClient } from "convex/browser";
 import {
   FiboAnalysisErr,
   ValidationErr,
@@ -28,10 +29,13 @@ export interface ImageAnalysisResult {
  * Returns errors as values instead of throwing
  *
  * @param imageUrl - Full URL of the image to analyze
+ * @param convex - Convex client authenticated as the user, to reuse and store
+ *   the analysis on the image's asset
  * @returns Promise resolving to image style and mood analysis or error
  */
 export async function analyzeImageCore(
   imageUrl: string,
+  convex?: ConvexHttpClient,
 ): Promise<ImageAnalysisResult | FiboAnalysisErr | ValidationErr> {
   if (!imageUrl || !imageUrl.trim()) {
     return new ValidationErr({
@@ -40,8 +44,9 @@ export async function analyzeImageCore(
     });
   }
 
-  // Analyze image with FIBO (includes automatic retry)
-  const fiboResult = await analyzeFiboImageWithRetry({
+  // Analyze image with FIBO (includes automatic retry), unless cached
+  const fiboResult = await analyzeImageWithCache({
+    convex,
     imageUrls: [imageUrl],
     seed: getFiboSeed(),
     timeout: FIBO_ANALYSIS.REQUEST_TIMEOUT,
@@ -68,10 +73,7 @@ export async function analyzeImageCore(
     });
   }
 
-  // Transform FIBO output to our schema
-  const analysis = adaptFiboToAnalysis(fiboResult);
-
   return {
-    analysis,
+    analysis: fiboResult.styleMoodAnalysis,
   };
 }
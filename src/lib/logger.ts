@@ -121,7 +121,9 @@ export const logger = {
   config: createLogger("CONFIG"),
   fal: createLogger("FAL"),
   generation: createLogger("GENERATION"),
+  history: createLogger("HISTORY"),
   image: createLogger("IMAGE"),
+  mock: createLogger("MOCK"),
   polar: createLogger("POLAR"),
   quota: createLogger("QUOTA"),
   storage: createLogger("STORAGE"),
@@ -0,0 +1,101 @@
+import type { FiboStructuredPrompt } from "@/lib/adapters/fibo-to-analysis-adapter";
+import type {
+  BriaImageGenerationRequest,
+  BriaImageGenerationResult,
+  BriaStructuredPromptRequest,
+  BriaStructuredPromptResult,
+} from "@/lib/services/bria-client";
+import {
+  createPlaceholderImageUrl,
+  getPlaceholderSize,
+  seedFromValue,
+} from "./placeholders";
+
+/**
+ * Canned FIBO analysis. Run through adaptFiboToAnalysis it yields an
+ * ImageStyleMoodAnalysis that satisfies imageStyleMoodAnalysisSchema.
+ */
+export const MOCK_STRUCTURED_PROMPT: FiboStructuredPrompt = {
+  aesthetics: {
+    color_scheme:
+      "Teal shadows and amber highlights with deep navy blacks and warm gold accents",
+    composition: "Rule of thirds with the subject placed on the left third",
+    mood_atmosphere: "Calm, contemplative and slightly nostalgic",
+  },
+  artistic_style: "Cinematic realism",
+  background_setting:
+    "A quiet city street at dusk with soft neon reflections on wet pavement",
+  context: "A still from an independent drama",
+  lighting: {
+    conditions: "Soft diffused dusk light mixed with practical neon signs",
+    direction: "Side-lit from the left with a gentle rim light",
+    shadows: "Soft, long shadows with lifted blacks",
+  },
+  objects: [
+    {
+      appearance_details: "Collar turned up against the evening chill",
+      description: "A lone figure in a long grey coat",
+      location: "Left third of the frame",
+      relationship: "Stands apart from the passing traffic",
+      relative_size: "Medium",
+      shape_and_color: "Tall silhouette in charcoal grey",
+      texture: "Wool coat with a subtle herringbone weave",
+    },
+  ],
+  photographic_characteristics: {
+    camera_angle: "Eye level",
+    depth_of_field: "Shallow",
+    focus: "Sharp focus on the figure, background softly blurred",
+    lens_focal_length: "50mm",
+  },
+  short_description:
+    "A lone figure on a neon-lit city street at dusk, shot on 50mm film",
+  style_medium: "Photograph",
+};
+
+/**
+ * Returns a deterministic structured prompt. Refinement requests keep the
+ * supplied structured prompt and fold the refinement text into its
+ * description, so each variation remains distinguishable.
+ */
+export function createMockStructuredPromptResult(
+  request: BriaStructuredPromptRequest,
+): BriaStructuredPromptResult {
+  const seed = request.seed ?? seedFromValue(request);
+  const base = request.structured_prompt
+    ? (JSON.parse(request.structured_prompt) as FiboStructuredPrompt)
+    : MOCK_STRUCTURED_PROMPT;
+
+  const structuredPrompt: FiboStructuredPrompt = request.prompt
+    ? {
+        ...base,
+        short_description: `${base.short_description}. ${request.prompt}`,
+      }
+    : base;
+
+  return {
+    seed,
+    structured_prompt: JSON.stringify(structuredPrompt),
+  };
+}
+
+/**
+ * Returns a deterministic placeholder image for an image generation request.
+ */
+export function createMockImageGenerationResult(
+  request: BriaImageGenerationRequest,
+): BriaImageGenerationResult {
+  const seed = request.seed ?? seedFromValue(request);
+  const { height, width } = getPlaceholderSize(request.aspect_ratio);
+
+  return {
+    image_url: createPlaceholderImageUrl({
+      height,
+      seed: seedFromValue(request),
+      width,
+    }),
+    seed,
+    structured_prompt:
+      request.structured_prompt ?? JSON.stringify(MOCK_STRUCTURED_PROMPT),
+  };
+}
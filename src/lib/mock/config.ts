@@ -0,0 +1,64 @@
+/**
+ * How external AI services are called.
+ *
+ * - `off`: call the live services (default)
+ * - `mock`: return deterministic placeholder results without network calls
+ * - `record`: call the live services and save each response as a fixture
+ * - `replay`: return recorded fixtures, falling back to placeholder results
+ */
+export type MockBackendMode = "off" | "mock" | "record" | "replay";
+
+const MOCK_BACKEND_MODES: readonly MockBackendMode[] = [
+  "off",
+  "mock",
+  "record",
+  "replay",
+];
+
+/**
+ * Default directory for recorded fixtures, relative to the working directory.
+ */
+const DEFAULT_FIXTURES_DIR = "fixtures/mock-backend";
+
+/**
+ * Path of the default placeholder video served from `public/`.
+ */
+const DEFAULT_VIDEO_PATH = "/mock/placeholder.mp4";
+
+/**
+ * Reads the mock backend mode from the `MOCK_BACKEND` environment variable.
+ *
+ * @returns The configured mode, or "off" when unset or unrecognised
+ */
+export function getMockBackendMode(): MockBackendMode {
+  const value = process.env.MOCK_BACKEND?.trim().toLowerCase();
+  return MOCK_BACKEND_MODES.find((mode) => mode === value) ?? "off";
+}
+
+/**
+ * Whether requests may reach live services, which is the case when the mock
+ * backend is off or recording. API keys are only required in these modes.
+ */
+export function isLiveBackend(): boolean {
+  const mode = getMockBackendMode();
+  return mode === "off" || mode === "record";
+}
+
+/**
+ * Directory that fixtures are recorded to and replayed from.
+ */
+export function getMockFixturesDir(): string {
+  return process.env.MOCK_FIXTURES_DIR?.trim() || DEFAULT_FIXTURES_DIR;
+}
+
+/**
+ * URL returned for synthetic video results. Video results are validated as
+ * absolute URLs, so the bundled placeholder is resolved against the app URL.
+ */
+export function getMockVideoUrl(): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  return (
+    process.env.MOCK_VIDEO_URL?.trim() ||
+    new URL(DEFAULT_VIDEO_PATH, appUrl).toString()
+  );
+}
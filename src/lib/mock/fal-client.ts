@@ -0,0 +1,147 @@
+import type { FalClient } from "@fal-ai/client";
+import { isLiveBackend } from "./config";
+import { withMockBackend } from "./fixtures";
+import {
+  createPlaceholderImageUrl,
+  createPlaceholderVideoUrl,
+  seedFromValue,
+} from "./placeholders";
+
+type FalStream = Awaited<ReturnType<FalClient["stream"]>>;
+
+/**
+ * Reads the requested image size from a FAL input payload.
+ */
+function getRequestedImageSize(input: unknown): {
+  height: number;
+  width: number;
+} {
+  const imageSize = (input as { image_size?: unknown } | undefined)
+    ?.image_size as { height?: unknown; width?: unknown } | undefined;
+
+  if (
+    typeof imageSize?.width === "number" &&
+    typeof imageSize.height === "number"
+  ) {
+    return { height: imageSize.height, width: imageSize.width };
+  }
+
+  return { height: 1024, width: 1024 };
+}
+
+/**
+ * Builds a placeholder output shaped like FAL's image and video responses.
+ * Endpoints with "video" in their ID return a video, all others an image.
+ */
+function createSyntheticOutput(
+  endpointId: string,
+  input: unknown,
+): Record<string, unknown> {
+  const seed = seedFromValue({ endpointId, input });
+
+  if (/video/i.test(endpointId)) {
+    return {
+      seed,
+      video: {
+        content_type: "video/mp4",
+        url: createPlaceholderVideoUrl(seed),
+      },
+    };
+  }
+
+  const { height, width } = getRequestedImageSize(input);
+
+  return {
+    images: [
+      {
+        content_type: "image/svg+xml",
+        height,
+        url: createPlaceholderImageUrl({ height, seed, width }),
+        width,
+      },
+    ],
+    seed,
+  };
+}
+
+/**
+ * Routes a queued FAL request through the mock backend.
+ */
+function resolveRequest<T>(
+  endpointId: string,
+  input: unknown,
+  live: () => Promise<T>,
+): Promise<T> {
+  return withMockBackend({
+    live,
+    operation: endpointId,
+    request: { input },
+    service: "fal",
+    synthetic: () =>
+      ({
+        data: createSyntheticOutput(endpointId, input),
+        requestId: `mock-${seedFromValue({ endpointId, input })}`,
+      }) as T,
+  });
+}
+
+/**
+ * Builds a stream that emits the placeholder output as its only event.
+ */
+function createSyntheticStream(endpointId: string, input: unknown): FalStream {
+  const output = createSyntheticOutput(endpointId, input);
+  const abortController = new AbortController();
+
+  const stream = {
+    abort: () => abortController.abort(),
+    done: async () => output,
+    on: () => {},
+    get signal() {
+      return abortController.signal;
+    },
+    async *[Symbol.asyncIterator]() {
+      yield output;
+    },
+  };
+
+  // FalStream is a class with private members, so a structural stand-in
+  // cannot satisfy its type without a cast.
+  return stream as unknown as FalStream;
+}
+
+/**
+ * Wraps a FAL client so `run`, `subscribe` and `stream` honour the mock
+ * backend mode. Queue, storage and realtime APIs are passed through.
+ *
+ * @remarks
+ * Streams are never recorded. When recording they reach the live service;
+ * when mocking or replaying they emit a single placeholder event.
+ *
+ * @param client - Client used for live requests
+ */
+export function createMockFalClient(client: FalClient): FalClient {
+  const run: FalClient["run"] = (endpointId, options) =>
+    resolveRequest(endpointId, options.input, () =>
+      client.run(endpointId, options),
+    );
+
+  const subscribe: FalClient["subscribe"] = (endpointId, options) =>
+    resolveRequest(endpointId, options.input, () =>
+      client.subscribe(endpointId, options),
+    );
+
+  const stream: FalClient["stream"] = async (endpointId, options) =>
+    isLiveBackend()
+      ? client.stream(endpointId, options)
+      : createSyntheticStream(endpointId, options.input);
+
+  return {
+    queue: client.queue,
+    realtime: client.realtime,
+    run,
+    storage: client.storage,
+    stream,
+    streaming: client.streaming,
+    subscribe,
+  };
+}
@@ -0,0 +1,170 @@
+import { isErr } from "@/lib/errors/safe-errors";
+import { logger } from "@/lib/logger";
+import { getMockBackendMode, getMockFixturesDir } from "./config";
+
+const log = logger.mock;
+
+/**
+ * Fixture file contents. The request is stored alongside the response so
+ * recordings can be inspected and edited by hand.
+ */
+interface Fixture<T> {
+  operation: string;
+  recordedAt: string;
+  request: unknown;
+  response: T;
+  service: string;
+}
+
+/**
+ * Serializes a value with object keys sorted, so equivalent requests produce
+ * the same fixture key regardless of property order.
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)),
+        )
+      : nested,
+  );
+}
+
+/**
+ * Resolves the fixture path for a request.
+ *
+ * @remarks
+ * Node modules are imported lazily so this file can be referenced from
+ * modules that are also bundled for the browser.
+ */
+async function getFixturePath(
+  service: string,
+  operation: string,
+  request: unknown,
+): Promise<string> {
+  const [{ createHash }, path] = await Promise.all([
+    import("node:crypto"),
+    import("node:path"),
+  ]);
+
+  const hash = createHash("sha256")
+    .update(stableStringify(request))
+    .digest("hex")
+    .slice(0, 16);
+  const slug = operation.replace(/[^a-zA-Z0-9.-]+/g, "_");
+
+  return path.join(getMockFixturesDir(), service, `${slug}-${hash}.json`);
+}
+
+/**
+ * Reads a recorded response.
+ *
+ * @returns The recorded response, or null if no fixture matches the request
+ */
+async function readFixture<T>(
+  service: string,
+  operation: string,
+  request: unknown,
+): Promise<T | null> {
+  const { readFile } = await import("node:fs/promises");
+  const fixturePath = await getFixturePath(service, operation, request);
+
+  try {
+    const fixture = JSON.parse(
+      await readFile(fixturePath, "utf8"),
+    ) as Fixture<T>;
+    return fixture.response;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Records a response. Failures are logged rather than surfaced so recording
+ * never breaks a live request.
+ */
+async function writeFixture<T>(
+  service: string,
+  operation: string,
+  request: unknown,
+  response: T,
+): Promise<void> {
+  const [{ mkdir, writeFile }, path] = await Promise.all([
+    import("node:fs/promises"),
+    import("node:path"),
+  ]);
+  const fixturePath = await getFixturePath(service, operation, request);
+  const fixture: Fixture<T> = {
+    operation,
+    recordedAt: new Date().toISOString(),
+    request,
+    response,
+    service,
+  };
+
+  try {
+    await mkdir(path.dirname(fixturePath), { recursive: true });
+    await writeFile(fixturePath, `${JSON.stringify(fixture, null, 2)}\n`);
+    log.debug(`Recorded ${service} fixture`, fixturePath);
+  } catch (error) {
+    log.warn(`Failed to record ${service} fixture`, error);
+  }
+}
+
+/**
+ * Options for withMockBackend.
+ */
+export interface MockBackendCall<T, E> {
+  /** Calls the live service */
+  live: () => Promise<T | E>;
+  /** Operation name, e.g. an endpoint ID */
+  operation: string;
+  /** Request payload, used to key fixtures */
+  request: unknown;
+  /** External service name, used as the fixture subdirectory */
+  service: string;
+  /** Builds a deterministic placeholder result */
+  synthetic: () => T | Promise<T>;
+}
+
+/**
+ * Routes an external service call according to the mock backend mode.
+ *
+ * @remarks
+ * Only successful live responses are recorded. Errors, whether returned as
+ * values or thrown, pass through unchanged.
+ *
+ * @returns The live, recorded or synthetic result
+ */
+export async function withMockBackend<T, E = never>({
+  live,
+  operation,
+  request,
+  service,
+  synthetic,
+}: MockBackendCall<T, E>): Promise<T | E> {
+  switch (getMockBackendMode()) {
+    case "off":
+      return live();
+
+    case "record": {
+      const result = await live();
+      if (!(result instanceof Error) && !isErr(result)) {
+        await writeFixture(service, operation, request, result);
+      }
+      return result;
+    }
+
+    case "replay": {
+      const recorded = await readFixture<T>(service, operation, request);
+      if (recorded !== null) {
+        return recorded;
+      }
+      log.warn(`No ${service} fixture for ${operation}, using placeholder`);
+      return synthetic();
+    }
+
+    case "mock":
+      return synthetic();
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Offline mock backend for external AI services.
+ *
+ * @remarks
+ * Selected with the `MOCK_BACKEND` environment variable. FAL, Bria,
+ * Replicate and OpenAI calls are routed through withMockBackend, which
+ * returns deterministic placeholders, replays recorded fixtures or records
+ * live responses depending on the mode.
+ */
+
+export {
+  getMockBackendMode,
+  getMockFixturesDir,
+  getMockVideoUrl,
+  isLiveBackend,
+  type MockBackendMode,
+} from "./config";
+export { createMockFalClient } from "./fal-client";
+export { withMockBackend, type MockBackendCall } from "./fixtures";
+export { createSampleFromJsonSchema } from "./json-schema-sample";
+export { getLanguageModel } from "./language-model";
+export {
+  createPlaceholderImageUrl,
+  createPlaceholderVideoUrl,
+  hashString,
+  seedFromValue,
+} from "./placeholders";
@@ -0,0 +1,138 @@
+/**
+ * Subset of JSON Schema understood by createSampleFromJsonSchema.
+ */
+interface JsonSchema {
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  const?: unknown;
+  enum?: unknown[];
+  exclusiveMaximum?: number;
+  exclusiveMinimum?: number;
+  format?: string;
+  items?: JsonSchema | JsonSchema[];
+  maxItems?: number;
+  maxLength?: number;
+  maximum?: number;
+  minItems?: number;
+  minLength?: number;
+  minimum?: number;
+  oneOf?: JsonSchema[];
+  properties?: Record<string, JsonSchema>;
+  type?: string | string[];
+}
+
+/**
+ * Number of items generated for arrays without a minimum length.
+ */
+const DEFAULT_ARRAY_LENGTH = 3;
+
+/**
+ * Builds a deterministic placeholder string for a property path.
+ */
+function sampleString(schema: JsonSchema, path: string): string {
+  if (schema.format === "uri" || schema.format === "url") {
+    return `https://example.com/mock/${encodeURIComponent(path)}`;
+  }
+
+  const text = `Mock ${path}`.padEnd(schema.minLength ?? 0, ".");
+  return schema.maxLength !== undefined
+    ? text.slice(0, schema.maxLength)
+    : text;
+}
+
+/**
+ * Picks a number inside the schema's bounds.
+ */
+function sampleNumber(schema: JsonSchema, integer: boolean): number {
+  const min = schema.minimum ?? schema.exclusiveMinimum;
+  const max = schema.maximum ?? schema.exclusiveMaximum;
+
+  const value =
+    min !== undefined && max !== undefined
+      ? (min + max) / 2
+      : (min ?? (max !== undefined ? Math.min(max, 0) : 1));
+
+  return integer ? Math.round(value) : value;
+}
+
+/**
+ * Generates a value that satisfies a JSON Schema, for use as a canned
+ * structured model response.
+ *
+ * @remarks
+ * Enums cycle with the seed, strings describe their property path and
+ * numbers sit in the middle of their range. Every object property is
+ * populated, optional or not.
+ *
+ * @param schema - JSON Schema of the expected value
+ * @param seed - Varies enum choices between requests
+ * @param path - Property path, used to label generated strings
+ */
+export function createSampleFromJsonSchema(
+  schema: unknown,
+  seed: number,
+  path = "value",
+): unknown {
+  const node = (schema ?? {}) as JsonSchema;
+
+  if (node.const !== undefined) {
+    return node.const;
+  }
+
+  if (node.enum && node.enum.length > 0) {
+    return node.enum[seed % node.enum.length];
+  }
+
+  const variant = node.anyOf ?? node.oneOf ?? node.allOf;
+  if (variant && variant.length > 0) {
+    const option =
+      variant.find((candidate) => candidate.type !== "null") ?? variant[0];
+    return createSampleFromJsonSchema(option, seed, path);
+  }
+
+  const type = Array.isArray(node.type)
+    ? (node.type.find((candidate) => candidate !== "null") ?? "null")
+    : (node.type ?? (node.properties ? "object" : "string"));
+
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(node.properties ?? {}).map(([key, property]) => [
+          key,
+          createSampleFromJsonSchema(property, seed, `${path}.${key}`),
+        ]),
+      );
+
+    case "array": {
+      const length = Math.min(
+        Math.max(node.minItems ?? DEFAULT_ARRAY_LENGTH, 1),
+        node.maxItems ?? Number.POSITIVE_INFINITY,
+      );
+      return Array.from({ length }, (_, index) => {
+        const items = Array.isArray(node.items)
+          ? node.items[index % node.items.length]
+          : node.items;
+        return createSampleFromJsonSchema(
+          items,
+          seed + index,
+          `${path}[${index}]`,
+        );
+      });
+    }
+
+    case "integer":
+      return sampleNumber(node, true);
+
+    case "number":
+      return sampleNumber(node, false);
+
+    case "boolean":
+      return seed % 2 === 0;
+
+    case "null":
+      return null;
+
+    default:
+      return sampleString(node, path);
+  }
+}
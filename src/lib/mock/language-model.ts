@@ -0,0 +1,101 @@
+import { openai } from "@ai-sdk/openai";
+import {
+  simulateReadableStream,
+  wrapLanguageModel,
+  type LanguageModel,
+  type LanguageModelMiddleware,
+} from "ai";
+import { getMockBackendMode, isLiveBackend } from "./config";
+import { withMockBackend } from "./fixtures";
+import { createSampleFromJsonSchema } from "./json-schema-sample";
+import { seedFromValue } from "./placeholders";
+
+type WrapGenerate = NonNullable<LanguageModelMiddleware["wrapGenerate"]>;
+type WrapStream = NonNullable<LanguageModelMiddleware["wrapStream"]>;
+type CallOptions = Parameters<WrapGenerate>[0]["params"];
+type GenerateResult = Awaited<ReturnType<WrapGenerate>>;
+type StreamResult = Awaited<ReturnType<WrapStream>>;
+type StreamPart =
+  StreamResult["stream"] extends ReadableStream<infer Part> ? Part : never;
+
+/**
+ * Text returned for free-form (non-JSON) requests.
+ */
+const MOCK_TEXT_RESPONSE =
+  "This is a mock response. Set MOCK_BACKEND=off to use the live model.";
+
+const EMPTY_USAGE = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+/**
+ * Builds the canned response for a call. Structured output requests get a
+ * value generated from their JSON Schema.
+ */
+function createSyntheticText(params: CallOptions): string {
+  const { responseFormat } = params;
+
+  if (responseFormat?.type === "json") {
+    return JSON.stringify(
+      createSampleFromJsonSchema(
+        responseFormat.schema,
+        seedFromValue(params.prompt),
+      ),
+    );
+  }
+
+  return MOCK_TEXT_RESPONSE;
+}
+
+/**
+ * Middleware that serves generate calls from placeholders or fixtures, and
+ * stream calls from placeholders. Streams are never recorded.
+ */
+const mockBackendMiddleware: LanguageModelMiddleware = {
+  wrapGenerate: ({ doGenerate, model, params }) =>
+    withMockBackend<GenerateResult>({
+      // Only the fields needed to rebuild the result are recorded, since
+      // response metadata holds values that do not survive JSON.
+      live: async () => {
+        const { content, finishReason, usage, warnings } = await doGenerate();
+        return { content, finishReason, usage, warnings };
+      },
+      operation: model.modelId,
+      request: { prompt: params.prompt, responseFormat: params.responseFormat },
+      service: "openai",
+      synthetic: () => ({
+        content: [{ text: createSyntheticText(params), type: "text" }],
+        finishReason: "stop",
+        usage: EMPTY_USAGE,
+        warnings: [],
+      }),
+    }),
+
+  wrapStream: async ({ doStream, params }) => {
+    if (isLiveBackend()) {
+      return doStream();
+    }
+
+    const chunks: StreamPart[] = [
+      { type: "stream-start", warnings: [] },
+      { id: "mock", type: "text-start" },
+      { delta: createSyntheticText(params), id: "mock", type: "text-delta" },
+      { id: "mock", type: "text-end" },
+      { finishReason: "stop", type: "finish", usage: EMPTY_USAGE },
+    ];
+
+    return { stream: simulateReadableStream({ chunks }) };
+  },
+};
+
+/**
+ * Gets an OpenAI language model that honours the mock backend mode.
+ *
+ * @param modelId - OpenAI model ID, e.g. "gpt-5-mini"
+ * @returns The live model, or the live model wrapped with mock middleware
+ */
+export function getLanguageModel(modelId: string): LanguageModel {
+  const model = openai(modelId);
+
+  return getMockBackendMode() === "off"
+    ? model
+    : wrapLanguageModel({ middleware: mockBackendMiddleware, model });
+}
@@ -0,0 +1,81 @@
+import { getMockVideoUrl } from "./config";
+
+/**
+ * Hashes a string to an unsigned 32-bit integer (FNV-1a).
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Derives a seed from a request payload.
+ *
+ * @param value - Any JSON-serializable value
+ */
+export function seedFromValue(value: unknown): number {
+  return hashString(JSON.stringify(value) ?? "");
+}
+
+/**
+ * Converts an aspect ratio such as "16:9" into placeholder dimensions with
+ * a 1024px long edge.
+ */
+export function getPlaceholderSize(aspectRatio = "1:1"): {
+  height: number;
+  width: number;
+} {
+  const [width, height] = aspectRatio.split(":").map(Number);
+  if (!width || !height) {
+    return { height: 1024, width: 1024 };
+  }
+  return width >= height
+    ? { height: Math.round((1024 * height) / width), width: 1024 }
+    : { height: 1024, width: Math.round((1024 * width) / height) };
+}
+
+/**
+ * Options for createPlaceholderImageUrl.
+ */
+export interface PlaceholderImageOptions {
+  height: number;
+  /** Text drawn in the centre of the image */
+  label?: string;
+  seed: number;
+  width: number;
+}
+
+/**
+ * Builds a solid-colour SVG data URL. The colour is derived from the seed,
+ * so the same seed always produces the same image.
+ */
+export function createPlaceholderImageUrl({
+  height,
+  label,
+  seed,
+  width,
+}: PlaceholderImageOptions): string {
+  const hue = seed % 360;
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="100%" height="100%" fill="hsl(${hue}, 45%, 35%)"/>`,
+    `<text x="50%" y="50%" fill="white" font-family="sans-serif" font-size="${Math.round(height / 12)}" text-anchor="middle">${label ?? `mock ${seed}`}</text>`,
+    `</svg>`,
+  ].join("");
+
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+/**
+ * Returns the placeholder video URL, tagged with the seed so each result is
+ * distinguishable while still pointing at the same file.
+ */
+export function createPlaceholderVideoUrl(seed: number): string {
+  const url = getMockVideoUrl();
+  return `${url}${url.includes("?") ? "&" : "?"}seed=${seed}`;
+}
@@ -0,0 +1,25 @@
+import type {
+  NanoBananaProInput,
+  NanoBananaProOutput,
+} from "@/lib/services/replicate-client";
+import {
+  createPlaceholderImageUrl,
+  getPlaceholderSize,
+  seedFromValue,
+} from "./placeholders";
+
+/**
+ * Returns a deterministic placeholder image for a Nano Banana Pro request.
+ */
+export function createMockNanoBananaProOutput(
+  input: NanoBananaProInput,
+): NanoBananaProOutput {
+  const { height, width } = getPlaceholderSize(input.aspect_ratio);
+  const url = createPlaceholderImageUrl({
+    height,
+    seed: seedFromValue(input),
+    width,
+  });
+
+  return { replicateUrl: url, url };
+}
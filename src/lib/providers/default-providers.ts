@@ -0,0 +1,57 @@
+import { FalProvider } from "./fal-provider";
+import { MockProvider } from "./mock-provider";
+import { registerProvider } from "./provider-registry";
+import { ReplicateProvider } from "./replicate-provider";
+
+/**
+ * Registers the built-in providers.
+ *
+ * @remarks
+ * FAL is tried first and Replicate second. The mock provider is only used
+ * when requested explicitly, never as an automatic fallback.
+ */
+export function registerDefaultProviders(): void {
+  registerProvider({
+    capabilities: {
+      maxImageSize: { width: 4096, height: 4096 },
+      supportsEdit: true,
+      supportsMultiImageInput: true,
+      supportsSeed: true,
+    },
+    create: async ({ getFalClient, model }) => {
+      if (!getFalClient) {
+        return new Error("FAL client is required for FAL provider");
+      }
+      return new FalProvider(await getFalClient(), model);
+    },
+    fallbackPriority: 0,
+    id: "fal",
+    name: "FAL",
+  });
+
+  registerProvider({
+    capabilities: {
+      // Nano Banana Pro renders at 1K with the requested aspect ratio
+      maxImageSize: { width: 4096, height: 4096 },
+      supportsEdit: true,
+      supportsMultiImageInput: true,
+      supportsSeed: false,
+    },
+    create: () => new ReplicateProvider(),
+    fallbackPriority: 1,
+    id: "replicate",
+    name: "Replicate",
+  });
+
+  registerProvider({
+    capabilities: {
+      maxImageSize: { width: 4096, height: 4096 },
+      supportsEdit: true,
+      supportsMultiImageInput: true,
+      supportsSeed: true,
+    },
+    create: () => new MockProvider(),
+    id: "mock",
+    name: "Mock",
+  });
+}
@@ -70,9 +70,10 @@ export class FalProvider implements ImageVariationProvider {
       }
 
       return {
+        endpoint,
         imageUrl,
         provider: "fal" as const,
-        seed: resultData.seed ?? Math.random(),
+        seed: resultData.seed,
       };
     } catch (error) {
       return error instanceof Error
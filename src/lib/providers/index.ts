@@ -2,20 +2,37 @@
  * Image variation provider abstraction.
  *
  * @remarks
- * This module provides a strategy pattern implementation for different
- * image generation providers, allowing easy switching between FAL, Replicate,
- * and other providers without changing procedure logic.
+ * This module provides a registry of image generation providers with
+ * capability metadata, allowing easy switching between FAL, Replicate,
+ * and other providers without changing procedure logic. Built-in providers
+ * are registered when the module is first imported; additional providers
+ * can be added with registerProvider.
  */
 
+import { registerDefaultProviders } from "./default-providers";
+
+registerDefaultProviders();
+
 export { FalProvider } from "./fal-provider";
+export { MockProvider } from "./mock-provider";
 export { ReplicateProvider } from "./replicate-provider";
 export {
   createProvider,
-  type ProviderConfig,
-  type ProviderType,
-} from "./provider-factory";
+  generateWithFallback,
+  getFallbackOrder,
+  getProviderRegistration,
+  getUnsupportedReason,
+  listProviders,
+  registerProvider,
+  unregisterProvider,
+  type GenerateWithFallbackOptions,
+} from "./provider-registry";
 export type {
   ImageVariationProvider,
+  ProviderCapabilities,
+  ProviderContext,
+  ProviderId,
+  ProviderRegistration,
   VariationInput,
   VariationResult,
 } from "./types";
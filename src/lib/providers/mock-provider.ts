@@ -0,0 +1,31 @@
+import { createPlaceholderImageUrl, hashString } from "@/lib/mock/placeholders";
+import type {
+  ImageVariationProvider,
+  VariationInput,
+  VariationResult,
+} from "./types";
+
+/**
+ * Local provider that returns a placeholder image without any network
+ * calls. The same input always produces the same image and seed, so it can
+ * be used in tests and offline demos.
+ */
+export class MockProvider implements ImageVariationProvider {
+  async generate(input: VariationInput): Promise<VariationResult | Error> {
+    if (input.imageUrls.length === 0) {
+      return new Error("At least one reference image is required");
+    }
+
+    const seed =
+      input.seed ??
+      hashString(`${input.prompt}|${input.imageUrls.join("|")}|${input.model}`);
+    const { height, width } = input.imageSize;
+
+    return {
+      endpoint: "mock",
+      imageUrl: createPlaceholderImageUrl({ height, seed, width }),
+      provider: "mock",
+      seed,
+    };
+  }
+}
@@ -0,0 +1,218 @@
+import { logger } from "@/lib/logger";
+import type {
+  ImageVariationProvider,
+  ProviderCapabilities,
+  ProviderContext,
+  ProviderId,
+  ProviderRegistration,
+  VariationInput,
+  VariationResult,
+} from "./types";
+
+const log = logger.generation;
+
+/**
+ * Registered providers, keyed by ID.
+ */
+const registry = new Map<ProviderId, ProviderRegistration>();
+
+/**
+ * Registers a provider, replacing any provider with the same ID.
+ *
+ * @param registration - Provider metadata and factory
+ */
+export function registerProvider(registration: ProviderRegistration): void {
+  registry.set(registration.id, registration);
+}
+
+/**
+ * Removes a provider from the registry.
+ *
+ * @param id - ID of the provider to remove
+ */
+export function unregisterProvider(id: ProviderId): void {
+  registry.delete(id);
+}
+
+/**
+ * Gets a registered provider.
+ *
+ * @param id - ID of the provider
+ * @returns The registration, or undefined if no provider has that ID
+ */
+export function getProviderRegistration(
+  id: ProviderId,
+): ProviderRegistration | undefined {
+  return registry.get(id);
+}
+
+/**
+ * Lists all registered providers.
+ */
+export function listProviders(): ProviderRegistration[] {
+  return [...registry.values()];
+}
+
+/**
+ * Checks whether a provider can serve a request.
+ *
+ * @param capabilities - Capabilities of the provider
+ * @param input - Variation request
+ * @returns Reason the provider cannot serve the request, or null if it can
+ */
+export function getUnsupportedReason(
+  capabilities: ProviderCapabilities,
+  input: VariationInput,
+): string | null {
+  if (input.imageUrls.length > 0 && !capabilities.supportsEdit) {
+    return "does not support image editing";
+  }
+
+  if (input.imageUrls.length > 1 && !capabilities.supportsMultiImageInput) {
+    return "does not support multiple reference images";
+  }
+
+  return null;
+}
+
+/**
+ * Scales the requested size down to fit the provider's maximum size,
+ * keeping the aspect ratio. Seeds are dropped for providers that ignore them.
+ */
+function adaptInput(
+  capabilities: ProviderCapabilities,
+  input: VariationInput,
+): VariationInput {
+  const { maxImageSize } = capabilities;
+  const scale = Math.min(
+    1,
+    maxImageSize.width / input.imageSize.width,
+    maxImageSize.height / input.imageSize.height,
+  );
+
+  return {
+    ...input,
+    imageSize:
+      scale < 1
+        ? {
+            height: Math.floor(input.imageSize.height * scale),
+            width: Math.floor(input.imageSize.width * scale),
+          }
+        : input.imageSize,
+    seed: capabilities.supportsSeed ? input.seed : undefined,
+  };
+}
+
+/**
+ * Returns the order providers are tried in: the preferred provider first,
+ * then providers with a fallback priority, lowest priority first.
+ *
+ * @param preferred - Provider requested by the caller
+ */
+export function getFallbackOrder(
+  preferred?: ProviderId,
+): ProviderRegistration[] {
+  const fallbacks = listProviders()
+    .filter(
+      (registration) =>
+        registration.fallbackPriority !== undefined &&
+        registration.id !== preferred,
+    )
+    .sort((a, b) => (a.fallbackPriority ?? 0) - (b.fallbackPriority ?? 0));
+
+  const preferredRegistration = preferred
+    ? getProviderRegistration(preferred)
+    : undefined;
+
+  return preferredRegistration
+    ? [preferredRegistration, ...fallbacks]
+    : fallbacks;
+}
+
+/**
+ * Creates an instance of a registered provider.
+ *
+ * @param id - ID of the provider
+ * @param context - Per-request dependencies
+ * @returns The provider, or an Error if it is unknown or cannot be created
+ */
+export async function createProvider(
+  id: ProviderId,
+  context: ProviderContext = {},
+): Promise<ImageVariationProvider | Error> {
+  const registration = getProviderRegistration(id);
+  if (!registration) {
+    return new Error(`Unknown provider type: ${id}`);
+  }
+
+  try {
+    return await registration.create(context);
+  } catch (error) {
+    return error instanceof Error
+      ? error
+      : new Error(`Failed to create provider: ${id}`);
+  }
+}
+
+/**
+ * Options for generateWithFallback.
+ */
+export interface GenerateWithFallbackOptions {
+  /** Per-request dependencies handed to provider factories */
+  context?: ProviderContext;
+  /** Whether to try other providers when the preferred one fails */
+  fallback?: boolean;
+  /** Provider to try first */
+  preferred?: ProviderId;
+}
+
+/**
+ * Generates an image variation, falling back to other registered providers
+ * when the preferred provider cannot serve the request or fails.
+ *
+ * @param input - Variation request
+ * @param options - Preferred provider and fallback behaviour
+ * @returns The first successful result, or the last error if every provider failed
+ */
+export async function generateWithFallback(
+  input: VariationInput,
+  options: GenerateWithFallbackOptions = {},
+): Promise<VariationResult | Error> {
+  const { context = {}, fallback = true, preferred } = options;
+
+  if (preferred && !getProviderRegistration(preferred)) {
+    return new Error(`Unknown provider type: ${preferred}`);
+  }
+
+  const candidates = fallback
+    ? getFallbackOrder(preferred)
+    : getFallbackOrder(preferred).slice(0, 1);
+
+  let lastError = new Error("No image provider is available");
+
+  for (const registration of candidates) {
+    const unsupportedReason = getUnsupportedReason(
+      registration.capabilities,
+      input,
+    );
+    if (unsupportedReason) {
+      lastError = new Error(`${registration.name} ${unsupportedReason}`);
+      continue;
+    }
+
+    const provider = await createProvider(registration.id, context);
+    const result =
+      provider instanceof Error
+        ? provider
+        : await provider.generate(adaptInput(registration.capabilities, input));
+
+    if (!(result instanceof Error)) {
+      return result;
+    }
+
+    log.warn(`Provider ${registration.id} failed`, result.message);
+    lastError = result;
+  }
+
+  return lastError;
+}
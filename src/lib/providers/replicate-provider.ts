@@ -6,6 +6,11 @@ import type {
   VariationResult,
 } from "./types";
 
+/**
+ * Replicate model that serves variation requests
+ */
+const NANO_BANANA_PRO_MODEL = "google/nano-banana-pro";
+
 /**
  * Replicate provider for image variation generation using Nano Banana Pro.
  */
@@ -31,6 +36,7 @@ export class ReplicateProvider implements ImageVariationProvider {
     }
 
     return {
+      endpoint: NANO_BANANA_PRO_MODEL,
       imageUrl: result.url,
       replicateUrl: result.replicateUrl,
       provider: "replicate" as const,
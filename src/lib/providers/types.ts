@@ -3,9 +3,18 @@
  *
  * @remarks
  * This module defines the strategy pattern interfaces for different
- * image generation providers (FAL, Replicate, etc.)
+ * image generation providers (FAL, Replicate, etc.) and the metadata the
+ * provider registry uses to pick and fall back between them.
  */
 
+import type { FalClient } from "@fal-ai/client";
+import type { ImageModelId } from "@/lib/image-models";
+
+/**
+ * Identifier a provider is registered under (e.g. "fal", "replicate").
+ */
+export type ProviderId = string;
+
 /**
  * Input parameters for image variation generation.
  */
@@ -21,10 +30,36 @@ export interface VariationInput {
  * Result from image variation generation.
  */
 export interface VariationResult {
+  /** Model endpoint that produced the image */
+  endpoint?: string;
   imageUrl: string;
   seed?: number;
   replicateUrl?: string;
-  provider: "fal" | "replicate";
+  provider: ProviderId;
+}
+
+/**
+ * What a provider can do, used to skip providers that cannot serve a request.
+ */
+export interface ProviderCapabilities {
+  /** Largest output size the provider can produce, in pixels */
+  maxImageSize: { width: number; height: number };
+  /** Whether the provider edits reference images (vs. text-to-image only) */
+  supportsEdit: boolean;
+  /** Whether more than one reference image can be sent in a request */
+  supportsMultiImageInput: boolean;
+  /** Whether a seed can be passed for reproducible results */
+  supportsSeed: boolean;
+}
+
+/**
+ * Per-request dependencies handed to provider factories.
+ */
+export interface ProviderContext {
+  /** Resolves a rate-limited FAL client; only called by providers that need it */
+  getFalClient?: () => Promise<FalClient>;
+  /** Image model requested by the caller */
+  model?: ImageModelId;
 }
 
 /**
@@ -39,3 +74,28 @@ export interface ImageVariationProvider {
    */
   generate(input: VariationInput): Promise<VariationResult | Error>;
 }
+
+/**
+ * A provider entry in the registry.
+ */
+export interface ProviderRegistration {
+  /** Capability metadata for the provider */
+  capabilities: ProviderCapabilities;
+  /**
+   * Creates a provider instance for a request.
+   *
+   * @returns The provider, or an Error if its dependencies are unavailable
+   */
+  create(
+    context: ProviderContext,
+  ): Promise<ImageVariationProvider | Error> | ImageVariationProvider | Error;
+  /**
+   * Position in the automatic fallback order (lower runs first). Providers
+   * without a priority are only used when requested explicitly.
+   */
+  fallbackPriority?: number;
+  /** Identifier the provider is registered under */
+  id: ProviderId;
+  /** Human-readable provider name */
+  name: string;
+}
@@ -0,0 +1,273 @@
+/**
+ * Minimal MP4 muxer
+ *
+ * Packs H.264 chunks from a WebCodecs VideoEncoder into a progressive MP4
+ * file with a single video track. The moov box is written before the media
+ * data so players can start before the whole file has downloaded.
+ *
+ * @remarks
+ * - Chunks must be in AVC format (length-prefixed NAL units), i.e. the
+ *   encoder is configured with `avc: { format: "avc" }`
+ * - Assumes no B-frames, so decode order equals presentation order
+ * - All samples share one chunk and one duration
+ *
+ * @module lib/sequence/mp4-muxer
+ */
+
+/**
+ * Encoded video for the muxer.
+ */
+export interface Mp4VideoTrack {
+  /** avcC decoder configuration from the encoder's metadata */
+  codecDescription: Uint8Array<ArrayBuffer>;
+  /** Frames per second */
+  fps: number;
+  /** Frame height in pixels */
+  height: number;
+  /** Encoded frames in decode order */
+  samples: { data: Uint8Array<ArrayBuffer>; isKeyFrame: boolean }[];
+  /** Frame width in pixels */
+  width: number;
+}
+
+/**
+ * Ticks per frame; the track timescale is fps times this.
+ */
+const TICKS_PER_FRAME = 1000;
+
+/**
+ * Identity transformation matrix used by mvhd and tkhd.
+ */
+const IDENTITY_MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+/**
+ * Encodes a big-endian 32-bit unsigned integer.
+ */
+function u32(value: number): number[] {
+  return [
+    (value >>> 24) & 0xff,
+    (value >>> 16) & 0xff,
+    (value >>> 8) & 0xff,
+    value & 0xff,
+  ];
+}
+
+/**
+ * Encodes a big-endian 16-bit unsigned integer.
+ */
+function u16(value: number): number[] {
+  return [(value >>> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Encodes a four-character code.
+ */
+function fourCC(code: string): number[] {
+  return [...code].map((char) => char.charCodeAt(0));
+}
+
+/**
+ * Encodes a sequence of zero bytes.
+ */
+function zeros(count: number): number[] {
+  return new Array<number>(count).fill(0);
+}
+
+/**
+ * Builds a box from its type and payload parts.
+ */
+function box(
+  type: string,
+  ...parts: (number[] | Uint8Array)[]
+): Uint8Array<ArrayBuffer> {
+  const size = 8 + parts.reduce((total, part) => total + part.length, 0);
+  const bytes = new Uint8Array(size);
+  bytes.set([...u32(size), ...fourCC(type)]);
+
+  let offset = 8;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+
+  return bytes;
+}
+
+/**
+ * Builds a full box, which starts with a version byte and 24 bits of flags.
+ */
+function fullBox(
+  type: string,
+  version: number,
+  flags: number,
+  ...parts: (number[] | Uint8Array)[]
+): Uint8Array<ArrayBuffer> {
+  return box(type, [version, ...u32(flags).slice(1)], ...parts);
+}
+
+/**
+ * Builds the moov box describing the track.
+ *
+ * @param track - Encoded video
+ * @param mediaOffset - File offset of the first sample
+ */
+function buildMoov(
+  track: Mp4VideoTrack,
+  mediaOffset: number,
+): Uint8Array<ArrayBuffer> {
+  const timescale = track.fps * TICKS_PER_FRAME;
+  const sampleCount = track.samples.length;
+  const duration = sampleCount * TICKS_PER_FRAME;
+  const matrix = IDENTITY_MATRIX.flatMap(u32);
+
+  const keyFrames = track.samples.flatMap((sample, index) =>
+    sample.isKeyFrame ? [index + 1] : [],
+  );
+
+  const avc1 = box(
+    "avc1",
+    zeros(6),
+    u16(1), // data reference index
+    zeros(16),
+    u16(track.width),
+    u16(track.height),
+    u32(0x00480000), // 72 dpi horizontal
+    u32(0x00480000), // 72 dpi vertical
+    zeros(4),
+    u16(1), // frame count
+    zeros(32), // compressor name
+    u16(0x0018), // depth
+    u16(0xffff),
+    box("avcC", track.codecDescription),
+  );
+
+  const stbl = box(
+    "stbl",
+    fullBox("stsd", 0, 0, u32(1), avc1),
+    fullBox("stts", 0, 0, u32(1), u32(sampleCount), u32(TICKS_PER_FRAME)),
+    fullBox("stss", 0, 0, u32(keyFrames.length), keyFrames.flatMap(u32)),
+    fullBox("stsc", 0, 0, u32(1), u32(1), u32(sampleCount), u32(1)),
+    fullBox(
+      "stsz",
+      0,
+      0,
+      u32(0),
+      u32(sampleCount),
+      track.samples.flatMap((sample) => u32(sample.data.length)),
+    ),
+    fullBox("stco", 0, 0, u32(1), u32(mediaOffset)),
+  );
+
+  const minf = box(
+    "minf",
+    fullBox("vmhd", 0, 1, zeros(8)),
+    box("dinf", fullBox("dref", 0, 0, u32(1), fullBox("url ", 0, 1))),
+    stbl,
+  );
+
+  const mdia = box(
+    "mdia",
+    fullBox(
+      "mdhd",
+      0,
+      0,
+      zeros(8), // creation and modification time
+      u32(timescale),
+      u32(duration),
+      u16(0x55c4), // language "und"
+      zeros(2),
+    ),
+    fullBox("hdlr", 0, 0, zeros(4), fourCC("vide"), zeros(12), [
+      ...fourCC("VideoHandler"),
+      0,
+    ]),
+    minf,
+  );
+
+  const trak = box(
+    "trak",
+    fullBox(
+      "tkhd",
+      0,
+      0x3, // enabled, in movie
+      zeros(8),
+      u32(1), // track ID
+      zeros(4),
+      u32(duration),
+      zeros(8),
+      zeros(4), // layer, alternate group
+      zeros(4), // volume, reserved
+      matrix,
+      u32(track.width << 16),
+      u32(track.height << 16),
+    ),
+    mdia,
+  );
+
+  return box(
+    "moov",
+    fullBox(
+      "mvhd",
+      0,
+      0,
+      zeros(8),
+      u32(timescale),
+      u32(duration),
+      u32(0x00010000), // rate 1.0
+      u16(0x0100), // volume 1.0
+      zeros(10),
+      matrix,
+      zeros(24),
+      u32(2), // next track ID
+    ),
+    trak,
+  );
+}
+
+/**
+ * Packs encoded H.264 frames into an MP4 file.
+ *
+ * @param track - Encoded video
+ * @returns MP4 file
+ * @throws Error if the track has no frames
+ *
+ * @example
+ * ```ts
+ * const file = createMp4File({ codecDescription, fps: 30, height, samples, width });
+ * ```
+ */
+export function createMp4File(track: Mp4VideoTrack): Blob {
+  if (track.samples.length === 0) {
+    throw new Error("Cannot create an MP4 file without frames");
+  }
+
+  const ftyp = box(
+    "ftyp",
+    fourCC("isom"),
+    u32(0x200),
+    fourCC("isom"),
+    fourCC("iso2"),
+    fourCC("avc1"),
+    fourCC("mp41"),
+  );
+
+  const mediaSize = track.samples.reduce(
+    (total, sample) => total + sample.data.length,
+    0,
+  );
+
+  // The moov size does not depend on the offset it records, so measure it
+  // once with a placeholder and rebuild it with the real offset
+  const moovSize = buildMoov(track, 0).length;
+  const moov = buildMoov(track, ftyp.length + moovSize + 8);
+
+  return new Blob(
+    [
+      ftyp,
+      moov,
+      new Uint8Array([...u32(mediaSize + 8), ...fourCC("mdat")]),
+      ...track.samples.map((sample) => sample.data),
+    ],
+    { type: "video/mp4" },
+  );
+}
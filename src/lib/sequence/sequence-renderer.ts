@@ -0,0 +1,393 @@
+/**
+ * Sequence renderer
+ *
+ * Renders a sequence of trimmed clips into a single MP4 in the browser. Each
+ * output frame is composed on a canvas by seeking the source videos, encoded
+ * to H.264 with WebCodecs and packed with the MP4 muxer.
+ *
+ * @remarks
+ * - Output is video only; clip audio is not carried over
+ * - Frames are letterboxed to the first clip's aspect ratio
+ * - Source videos must be served with CORS headers, or the canvas is tainted
+ *   and frames cannot be read
+ *
+ * @module lib/sequence/sequence-renderer
+ */
+
+import { logger } from "@/lib/logger";
+import type {
+  SequenceClip,
+  SequenceRenderProgress,
+  SequenceSegment,
+} from "@/types/sequence";
+import { getSequenceTimeline } from "@/utils/sequence-utils";
+import { createMp4File, type Mp4VideoTrack } from "./mp4-muxer";
+
+const log = logger.video;
+
+/**
+ * Render settings
+ */
+const RENDER_SETTINGS = {
+  /** Target bitrate in bits per second */
+  BITRATE: 8_000_000,
+  /** Output frames per second */
+  FPS: 30,
+  /** Seconds between key frames */
+  KEY_FRAME_INTERVAL: 2,
+  /** Longest output edge in pixels */
+  MAX_DIMENSION: 1280,
+  /** Encoder queue length at which rendering waits for the encoder */
+  MAX_ENCODE_QUEUE: 8,
+  /** Time allowed for a video to load or seek */
+  MEDIA_TIMEOUT_MS: 15_000,
+} as const;
+
+/**
+ * H.264 profiles to try, best first: High 4.0, Main 4.0, Baseline 3.1.
+ */
+const H264_CODECS = ["avc1.640028", "avc1.4d0028", "avc1.42001f"];
+
+/**
+ * A clip with the URL of its video.
+ */
+export interface SequenceRenderClip extends SequenceClip {
+  src: string;
+}
+
+/**
+ * Options for a sequence render.
+ */
+export interface SequenceRenderOptions {
+  /** Called after each encoded frame */
+  onProgress?: (progress: SequenceRenderProgress) => void;
+  /** Aborts the render */
+  signal?: AbortSignal;
+}
+
+/**
+ * Whether this browser can render sequences.
+ */
+export function isSequenceRenderSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    "VideoEncoder" in window &&
+    "VideoFrame" in window
+  );
+}
+
+/**
+ * Waits for a media event, failing on error or timeout.
+ */
+function waitForMediaEvent(
+  video: HTMLVideoElement,
+  event: "loadeddata" | "seeked",
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timeoutId);
+      video.removeEventListener(event, handleEvent);
+      video.removeEventListener("error", handleError);
+    };
+    const handleEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const handleError = () => {
+      cleanup();
+      reject(new Error(`Failed to load video: ${video.src}`));
+    };
+    const timeoutId = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Timed out waiting for video ${event}`));
+    }, RENDER_SETTINGS.MEDIA_TIMEOUT_MS);
+
+    video.addEventListener(event, handleEvent);
+    video.addEventListener("error", handleError);
+  });
+}
+
+/**
+ * Releases a detached video element and the media it buffered.
+ */
+function releaseVideo(video: HTMLVideoElement) {
+  video.removeAttribute("src");
+  video.load();
+}
+
+/**
+ * Loads a clip's video into a detached element for frame-accurate seeking.
+ * The element is released if loading fails.
+ */
+async function loadVideo(src: string): Promise<HTMLVideoElement> {
+  const video = document.createElement("video");
+  video.crossOrigin = "anonymous";
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+
+  const loaded = waitForMediaEvent(video, "loadeddata");
+  video.src = src;
+  try {
+    await loaded;
+  } catch (error) {
+    releaseVideo(video);
+    throw error;
+  }
+
+  return video;
+}
+
+/**
+ * Loads every clip's video. If any clip fails, the videos that did load are
+ * released before the first error is rethrown.
+ */
+async function loadVideos(
+  clips: SequenceRenderClip[],
+): Promise<HTMLVideoElement[]> {
+  const results = await Promise.allSettled(
+    clips.map((clip) => loadVideo(clip.src)),
+  );
+
+  const videos = results.flatMap((result) =>
+    result.status === "fulfilled" ? [result.value] : [],
+  );
+
+  const failure = results.find((result) => result.status === "rejected");
+  if (failure) {
+    videos.forEach(releaseVideo);
+    throw failure.reason;
+  }
+
+  return videos;
+}
+
+/**
+ * Seeks a video, resolving once the frame at that time is available.
+ */
+async function seekVideo(video: HTMLVideoElement, time: number) {
+  const target = Math.min(Math.max(0, time), video.duration || time);
+  if (Math.abs(video.currentTime - target) < 1e-3) return;
+
+  const seeked = waitForMediaEvent(video, "seeked");
+  video.currentTime = target;
+  await seeked;
+}
+
+/**
+ * Gets an even output size fitting the first video within the maximum
+ * dimension; H.264 requires even dimensions.
+ */
+function getOutputSize(video: HTMLVideoElement) {
+  const scale = Math.min(
+    1,
+    RENDER_SETTINGS.MAX_DIMENSION /
+      Math.max(video.videoWidth, video.videoHeight),
+  );
+  const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+  return {
+    height: toEven(video.videoHeight * scale),
+    width: toEven(video.videoWidth * scale),
+  };
+}
+
+/**
+ * Picks an H.264 configuration the browser can encode.
+ *
+ * @throws Error if no H.264 profile is supported
+ */
+async function getEncoderConfig(width: number, height: number) {
+  for (const codec of H264_CODECS) {
+    const config: VideoEncoderConfig = {
+      avc: { format: "avc" },
+      bitrate: RENDER_SETTINGS.BITRATE,
+      codec,
+      framerate: RENDER_SETTINGS.FPS,
+      height,
+      width,
+    };
+
+    const support = await VideoEncoder.isConfigSupported(config);
+    if (support.supported) return config;
+  }
+
+  throw new Error("This browser cannot encode H.264 video");
+}
+
+/**
+ * Draws a video frame centered and letterboxed on the canvas.
+ */
+function drawLetterboxed(
+  context: OffscreenCanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  alpha: number,
+) {
+  const { height, width } = context.canvas;
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const drawWidth = video.videoWidth * scale;
+  const drawHeight = video.videoHeight * scale;
+
+  context.globalAlpha = alpha;
+  context.drawImage(
+    video,
+    (width - drawWidth) / 2,
+    (height - drawHeight) / 2,
+    drawWidth,
+    drawHeight,
+  );
+  context.globalAlpha = 1;
+}
+
+/**
+ * Gets the segments visible at a time: one clip, or two during a crossfade.
+ */
+function getActiveSegments(segments: SequenceSegment[], time: number) {
+  const active = segments.filter(
+    (segment) => time >= segment.start && time < segment.end,
+  );
+
+  // Past the last frame boundary, hold the final clip
+  return active.length > 0 ? active : segments.slice(-1);
+}
+
+/**
+ * Renders clips into a single MP4 file.
+ *
+ * @param clips - Clips in playback order, with their video URLs
+ * @param options - Progress callback and abort signal
+ * @returns The rendered MP4
+ * @throws Error if WebCodecs is unavailable, a video fails to load, or the
+ * render is aborted
+ *
+ * @example
+ * ```ts
+ * const file = await renderSequenceToMp4(clips, {
+ *   onProgress: ({ frame, totalFrames }) => setProgress(frame / totalFrames),
+ * });
+ * ```
+ */
+export async function renderSequenceToMp4(
+  clips: SequenceRenderClip[],
+  options: SequenceRenderOptions = {},
+): Promise<Blob> {
+  const { onProgress, signal } = options;
+
+  if (!isSequenceRenderSupported()) {
+    throw new Error("This browser does not support video rendering");
+  }
+  if (clips.length === 0) {
+    throw new Error("The sequence has no clips");
+  }
+
+  // Each clip gets its own element so crossfades can read two at once
+  const videos = await loadVideos(clips);
+
+  try {
+    const { width, height } = getOutputSize(videos[0]);
+    const { duration, segments } = getSequenceTimeline(clips);
+    const totalFrames = Math.max(1, Math.round(duration * RENDER_SETTINGS.FPS));
+    const frameDuration = 1_000_000 / RENDER_SETTINGS.FPS;
+    const keyFrameInterval =
+      RENDER_SETTINGS.FPS * RENDER_SETTINGS.KEY_FRAME_INTERVAL;
+
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Failed to create a canvas for rendering");
+    }
+
+    const samples: Mp4VideoTrack["samples"] = [];
+    let codecDescription: Uint8Array<ArrayBuffer> | null = null;
+    let encoderError: Error | null = null;
+
+    const encoder = new VideoEncoder({
+      error: (error) => {
+        encoderError = error;
+      },
+      output: (chunk, metadata) => {
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        samples.push({ data, isKeyFrame: chunk.type === "key" });
+
+        const description = metadata?.decoderConfig?.description;
+        if (description && !codecDescription) {
+          codecDescription = ArrayBuffer.isView(description)
+            ? new Uint8Array(
+                description.buffer,
+                description.byteOffset,
+                description.byteLength,
+              ).slice()
+            : new Uint8Array(description).slice();
+        }
+      },
+    });
+
+    encoder.configure(await getEncoderConfig(width, height));
+    log.info("Rendering sequence", { clips: clips.length, totalFrames });
+
+    try {
+      for (let frame = 0; frame < totalFrames; frame++) {
+        signal?.throwIfAborted();
+        if (encoderError) throw encoderError;
+
+        const time = frame / RENDER_SETTINGS.FPS;
+        const active = getActiveSegments(segments, time);
+
+        context.fillStyle = "#000000";
+        context.fillRect(0, 0, width, height);
+
+        for (const segment of active) {
+          const index = segments.indexOf(segment);
+          const video = videos[index];
+          const offset = time - segment.start;
+          await seekVideo(video, segment.clip.inPoint + offset);
+
+          // The incoming clip fades in over the previous clip's fade-out
+          const previous = segments[index - 1];
+          const alpha =
+            active.length > 1 && previous?.fadeOut
+              ? Math.min(1, offset / previous.fadeOut)
+              : 1;
+          drawLetterboxed(context, video, alpha);
+        }
+
+        const videoFrame = new VideoFrame(canvas, {
+          duration: frameDuration,
+          timestamp: Math.round(frame * frameDuration),
+        });
+        encoder.encode(videoFrame, {
+          keyFrame: frame % keyFrameInterval === 0,
+        });
+        videoFrame.close();
+
+        while (encoder.encodeQueueSize > RENDER_SETTINGS.MAX_ENCODE_QUEUE) {
+          await new Promise((resolve) =>
+            encoder.addEventListener("dequeue", resolve, { once: true }),
+          );
+        }
+
+        onProgress?.({ frame: frame + 1, totalFrames });
+      }
+
+      await encoder.flush();
+    } finally {
+      if (encoder.state !== "closed") encoder.close();
+    }
+
+    if (encoderError) throw encoderError;
+    if (!codecDescription) {
+      throw new Error("The encoder did not report a codec configuration");
+    }
+
+    return createMp4File({
+      codecDescription,
+      fps: RENDER_SETTINGS.FPS,
+      height,
+      samples,
+      width,
+    });
+  } finally {
+    videos.forEach(releaseVideo);
+  }
+}
@@ -77,6 +77,18 @@ export function createConvexClientWithToken(token: string): ConvexHttpClient {
   return client;
 }
 
+/**
+ * Creates a Convex client without authentication.
+ *
+ * Only for public queries that take their own credential, such as a share
+ * link token.
+ *
+ * @returns Unauthenticated Convex client
+ */
+export function createPublicConvexClient(): ConvexHttpClient {
+  return new ConvexHttpClient(getConvexUrl());
+}
+
 /**
  * Server-side: Gets current user data from Convex.
  * Uses errors-as-values pattern for silent failures.
@@ -0,0 +1,117 @@
+/**
+ * Server-side quota reservations for generations.
+ *
+ * Wraps the Convex reserve/commit/refund mutations so a generation can be
+ * charged up front and settled once it finishes.
+ * Uses errors-as-values pattern with @safe-std/error
+ *
+ * @remarks
+ * This module uses `server-only` to ensure it's never bundled client-side.
+ */
+
+import { auth } from "@clerk/nextjs/server";
+import type { ConvexHttpClient } from "convex/browser";
+import "server-only";
+import { api } from "../../../convex/_generated/api";
+import type { Id } from "../../../convex/_generated/dataModel";
+import { getErrorMessage, isErr, tryPromise } from "@/lib/errors/safe-errors";
+import { logger } from "@/lib/logger";
+import { createConvexClientWithToken } from "./convex-server";
+
+const log = logger.generation;
+
+/**
+ * Generation details recorded with a reservation.
+ */
+export interface GenerationQuotaRequest {
+  count?: number;
+  duration?: number;
+  endpoint?: string;
+  model?: string;
+  /**
+   * Project the generation is made in, for usage breakdowns. Taken as sent
+   * by the client; IDs that are not valid project IDs are dropped.
+   */
+  projectId?: string;
+  resolution?: string;
+  type: "image" | "video";
+}
+
+/**
+ * Reserved quota for an in-flight generation.
+ */
+export interface QuotaReservation {
+  /** Marks the reserved credits as spent */
+  commit: () => Promise<void>;
+  /** Convex client authenticated as the user, reusable for the generation */
+  convex: ConvexHttpClient;
+  /** Credits reserved for the generation */
+  credits: number;
+  /** Returns the reserved credits */
+  refund: () => Promise<void>;
+}
+
+/**
+ * Reserves quota for a generation by the signed-in user.
+ *
+ * @remarks
+ * Commit and refund failures are logged rather than surfaced, since the
+ * generation itself has already finished by then.
+ *
+ * @param request - Generation type, model and output settings
+ * @returns The reservation, or an error if quota is exceeded or unavailable
+ */
+export async function reserveGenerationQuota(
+  request: GenerationQuotaRequest,
+): Promise<QuotaReservation | Error> {
+  const { getToken } = await auth();
+  const tokenResult = await tryPromise(getToken({ template: "convex" }));
+
+  if (isErr(tokenResult) || !tokenResult) {
+    return new Error(
+      "Failed to reserve quota for generation: not authenticated",
+    );
+  }
+
+  const convex = createConvexClientWithToken(tokenResult);
+  const quotaResult = await tryPromise(
+    convex.mutation(api.quotas.checkAndReserveQuota, request),
+  );
+
+  if (isErr(quotaResult)) {
+    const errorMsg = getErrorMessage(quotaResult);
+    // Preserve quota exceeded errors for proper client handling
+    return new Error(
+      errorMsg.includes("Quota exceeded")
+        ? errorMsg
+        : `Failed to reserve quota for generation: ${errorMsg}`,
+    );
+  }
+
+  const reservationId: Id<"usageLedger"> = quotaResult.reservationId;
+
+  const reservation: QuotaReservation = {
+    commit: async () => {
+      const commitResult = await tryPromise(
+        convex.mutation(api.quotas.commitQuota, { reservationId }),
+      );
+
+      if (isErr(commitResult)) {
+        log.error("Failed to commit quota", getErrorMessage(commitResult));
+      }
+    },
+    convex,
+    credits: quotaResult.credits,
+    refund: async () => {
+      const refundResult = await tryPromise(
+        convex.mutation(api.quotas.refundQuota, { reservationId }),
+      );
+
+      if (isErr(refundResult)) {
+        log.error("Failed to refund quota", getErrorMessage(refundResult));
+      }
+    },
+  };
+
+  return reservation;
+}
@@ -14,6 +14,8 @@
 
 import "server-only";
 import type { AssetUploadResult } from "@/types/asset";
+import type { GenerationProvenance } from "@/types/canvas";
+import type { MoodVector } from "@/types/mood-vector";
 import { api } from "../../../convex/_generated/api";
 import { createConvexClientWithToken, getConvexSiteUrl } from "./convex-server";
 import { httpClient } from "@/lib/api/http-client";
@@ -36,6 +38,9 @@ export interface UploadMetadata {
   /** Character description for AI-generated character variations */
   characterVariation?: string;
 
+  /** Preset name for custom preset variations */
+  customPreset?: string;
+
   /** Director name for AI-generated director-style variations */
   directorName?: string;
 
@@ -54,9 +59,18 @@ export interface UploadMetadata {
   /** AI model used for generation */
   model?: string;
 
+  /** Target emotion intensities for mood variations */
+  moodVector?: MoodVector;
+
+  /** Asset IDs of the images the asset was generated from */
+  parentAssetIds?: string[];
+
   /** Text prompt used for generation */
   prompt?: string;
 
+  /** Full generation settings, used to regenerate the asset */
+  provenance?: GenerationProvenance;
+
   /** Random seed used for generation */
   seed?: number;
 
@@ -257,13 +271,17 @@ async function createAssetRecord(
   const assetId = await convexClient.mutation(api.assets.uploadAsset, {
     cameraAngle: metadata.cameraAngle || undefined,
     characterVariation: metadata.characterVariation || undefined,
+    customPreset: metadata.customPreset || undefined,
     directorName: metadata.directorName || undefined,
     duration: metadata.duration || undefined,
     emotion: metadata.emotion || undefined,
     height: metadata.height || undefined,
     lightingScenario: metadata.lightingScenario || undefined,
     mimeType,
+    moodVector: metadata.moodVector,
     originalUrl: undefined,
+    parentAssetIds: metadata.parentAssetIds,
+    provenance: metadata.provenance,
     sizeBytes: file.size,
     storageId,
     storylineLabel: metadata.storylineLabel || undefined,
@@ -16,6 +16,11 @@ import {
   isHttpErr,
 } from "@/lib/errors/safe-errors";
 import { logger } from "@/lib/logger";
+import {
+  createMockImageGenerationResult,
+  createMockStructuredPromptResult,
+} from "@/lib/mock/bria";
+import { withMockBackend } from "@/lib/mock/fixtures";
 
 const log = logger.bria;
 
@@ -376,6 +381,22 @@ async function pollStatus<T>(
 export async function generateStructuredPrompt(
   request: BriaStructuredPromptRequest,
   timeout = 30000,
+): Promise<BriaStructuredPromptResult | BriaApiErr | BriaTokenErr> {
+  return withMockBackend({
+    live: () => requestStructuredPrompt(request, timeout),
+    operation: "structured-prompt",
+    request,
+    service: "bria",
+    synthetic: () => createMockStructuredPromptResult(request),
+  });
+}
+
+/**
+ * Calls the live structured prompt endpoint
+ */
+async function requestStructuredPrompt(
+  request: BriaStructuredPromptRequest,
+  timeout: number,
 ): Promise<BriaStructuredPromptResult | BriaApiErr | BriaTokenErr> {
   const { sync = false, ...body } = request;
 
@@ -480,6 +501,22 @@ export async function generateStructuredPrompt(
 export async function generateImage(
   request: BriaImageGenerationRequest,
   timeout = 30000,
+): Promise<BriaImageGenerationResult | BriaApiErr | BriaTokenErr> {
+  return withMockBackend({
+    live: () => requestImage(request, timeout),
+    operation: "image",
+    request,
+    service: "bria",
+    synthetic: () => createMockImageGenerationResult(request),
+  });
+}
+
+/**
+ * Calls the live image generation endpoint
+ */
+async function requestImage(
+  request: BriaImageGenerationRequest,
+  timeout: number,
 ): Promise<BriaImageGenerationResult | BriaApiErr | BriaTokenErr> {
   const { sync = false, ...body } = request;
 
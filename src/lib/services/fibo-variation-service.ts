@@ -12,7 +12,8 @@ import { FIBO_ANALYSIS, getFiboSeed } from "@/constants/fibo";
 import type { FiboStructuredPrompt } from "@/lib/adapters/fibo-to-analysis-adapter";
 import { isBriaApiErr, RateLimitErr } from "@/lib/errors/safe-errors";
 import { generateStructuredPrompt } from "@/lib/services/bria-client";
-import { analyzeFiboImageWithRetry } from "@/lib/services/fibo-image-analyzer";
+import { analyzeImageWithCache } from "@/lib/services/image-analysis-cache";
+import type { ConvexHttpClient } from "convex/browser";
 
 /** User-friendly message for rate limit errors */
 const RATE_LIMIT_MESSAGE =
@@ -30,6 +31,8 @@ const REFINEMENT_BASE_DELAY_MS = 1000;
 export interface FiboVariationConfig {
   /** Aspect ratio for generated images */
   aspectRatio?: string;
+  /** Convex client authenticated as the user, to reuse cached analyses */
+  convex?: ConvexHttpClient;
   /** Guidance scale for generation */
   guidanceScale?: number;
   /** Image URLs to analyze and refine */
@@ -100,14 +103,17 @@ export async function generateFiboVariations<T = string>(
   config: FiboVariationConfig
 ): Promise<FiboVariationResult<T>> {
   const {
+    convex,
     imageUrls,
     seed = getFiboSeed(),
     timeout = FIBO_ANALYSIS.EXTENDED_TIMEOUT,
     variations,
   } = config;
 
-  // Step 1: Analyze image with FIBO to get baseline structured prompt
-  const fiboAnalysisResult = await analyzeFiboImageWithRetry({
+  // Step 1: Analyze image with FIBO to get baseline structured prompt,
+  // unless it is cached on the image's asset
+  const fiboAnalysisResult = await analyzeImageWithCache({
+    convex,
     imageUrls,
     seed,
     timeout,
@@ -120,7 +126,7 @@ export async function generateFiboVariations<T = string>(
     );
   }
 
-  const fiboAnalysis = fiboAnalysisResult;
+  const fiboAnalysis = fiboAnalysisResult.fiboStructuredPrompt;
 
   const refinementPromises = variations.map(async (variationPrompt) => {
     // Call Bria API with retry logic for transient failures
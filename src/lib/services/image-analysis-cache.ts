@@ -0,0 +1,168 @@
+/**
+ * Image Analysis Cache
+ *
+ * Stores FIBO analyses on the Convex asset of the analyzed image, keyed by
+ * storage ID and model version, so repeated variation runs on the same image
+ * skip the Bria call.
+ * Uses errors-as-values pattern with @safe-std/error
+ */
+
+import { FIBO_ANALYSIS } from "@/constants/fibo";
+import {
+  adaptFiboToAnalysis,
+  type FiboStructuredPrompt,
+} from "@/lib/adapters/fibo-to-analysis-adapter";
+import {
+  FiboAnalysisErr,
+  getErrorMessage,
+  isErr,
+  RateLimitErr,
+  tryPromise,
+  trySync,
+  ValidationErr,
+} from "@/lib/errors/safe-errors";
+import { createLogger } from "@/lib/logger";
+import type { ImageStyleMoodAnalysis } from "@/lib/schemas/image-analysis-schema";
+import {
+  analyzeFiboImageWithRetry,
+  type FiboAnalysisOptions,
+} from "@/lib/services/fibo-image-analyzer";
+import type { ConvexHttpClient } from "convex/browser";
+import { api } from "../../../convex/_generated/api";
+
+const cacheLogger = createLogger("image-analysis-cache");
+
+/**
+ * Both forms of an image analysis, as stored on the asset
+ */
+export interface CachedImageAnalysis {
+  fiboStructuredPrompt: FiboStructuredPrompt;
+  styleMoodAnalysis: ImageStyleMoodAnalysis;
+}
+
+/**
+ * Configuration for a cached analysis
+ */
+export interface CachedAnalysisOptions extends FiboAnalysisOptions {
+  /** Convex client authenticated as the user; the cache is skipped without it */
+  convex?: ConvexHttpClient;
+}
+
+/**
+ * Gets the Convex storage ID from a storage URL
+ * (https://<deployment>.convex.cloud/api/storage/<storageId>)
+ *
+ * @returns The storage ID, or null for other URLs
+ */
+export function getStorageIdFromUrl(imageUrl: string): string | null {
+  const match = imageUrl.match(
+    /^https?:\/\/[^/]+\.convex\.(?:cloud|site)\/api\/storage\/([^/?#]+)/,
+  );
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+/**
+ * Reads the cached analysis of an image
+ *
+ * @returns The analysis, or null when missing, outdated or unreadable
+ */
+async function readCachedAnalysis(
+  convex: ConvexHttpClient,
+  storageId: string,
+): Promise<CachedImageAnalysis | null> {
+  const cachedResult = await tryPromise(
+    convex.query(api.assets.getAnalysis, {
+      modelVersion: FIBO_ANALYSIS.MODEL_VERSION,
+      storageId,
+    }),
+  );
+
+  if (isErr(cachedResult)) {
+    cacheLogger.warn("Failed to read cached analysis", {
+      error: getErrorMessage(cachedResult),
+      storageId,
+    });
+    return null;
+  }
+
+  if (!cachedResult) {
+    return null;
+  }
+
+  const parseResult = trySync(() => ({
+    fiboStructuredPrompt: JSON.parse(
+      cachedResult.fiboStructuredPrompt,
+    ) as FiboStructuredPrompt,
+    styleMoodAnalysis: JSON.parse(
+      cachedResult.styleMoodAnalysis,
+    ) as ImageStyleMoodAnalysis,
+  }));
+
+  return isErr(parseResult) ? null : parseResult;
+}
+
+/**
+ * Analyzes an image with FIBO, reusing the analysis stored on its asset
+ * Returns errors as values instead of throwing
+ *
+ * Only single images in Convex storage are cached; analyses of several
+ * images together are not tied to one asset.
+ *
+ * @param options - Analysis configuration and the user's Convex client
+ * @returns Promise resolving to the structured prompt and style analysis or error
+ */
+export async function analyzeImageWithCache(
+  options: CachedAnalysisOptions,
+): Promise<
+  CachedImageAnalysis | FiboAnalysisErr | RateLimitErr | ValidationErr
+> {
+  const { convex, ...analysisOptions } = options;
+
+  const storageId =
+    analysisOptions.imageUrls?.length === 1
+      ? getStorageIdFromUrl(analysisOptions.imageUrls[0])
+      : null;
+
+  if (convex && storageId) {
+    const cached = await readCachedAnalysis(convex, storageId);
+    if (cached) {
+      cacheLogger.debug("Using cached image analysis", { storageId });
+      return cached;
+    }
+  }
+
+  const fiboResult = await analyzeFiboImageWithRetry(analysisOptions);
+
+  if (isErr(fiboResult)) {
+    return fiboResult;
+  }
+
+  const analysis: CachedImageAnalysis = {
+    fiboStructuredPrompt: fiboResult,
+    styleMoodAnalysis: adaptFiboToAnalysis(fiboResult),
+  };
+
+  if (convex && storageId) {
+    const saveResult = await tryPromise(
+      convex.mutation(api.assets.saveAnalysis, {
+        analysis: {
+          analyzedAt: Date.now(),
+          fiboStructuredPrompt: JSON.stringify(analysis.fiboStructuredPrompt),
+          modelVersion: FIBO_ANALYSIS.MODEL_VERSION,
+          styleMoodAnalysis: JSON.stringify(analysis.styleMoodAnalysis),
+        },
+        storageId,
+      }),
+    );
+
+    // A failed write only means the next run analyzes the image again
+    if (isErr(saveResult)) {
+      cacheLogger.warn("Failed to cache image analysis", {
+        error: getErrorMessage(saveResult),
+        storageId,
+      });
+    }
+  }
+
+  return analysis;
+}
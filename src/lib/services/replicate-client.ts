@@ -10,6 +10,8 @@
 
 import { tryPromise, isErr, getErrorMessage } from "@/lib/errors/safe-errors";
 import { logger } from "@/lib/logger";
+import { withMockBackend } from "@/lib/mock/fixtures";
+import { createMockNanoBananaProOutput } from "@/lib/mock/replicate";
 
 const log = logger.generation;
 
@@ -256,6 +258,21 @@ async function pollPrediction(
  */
 export async function generateImageWithNanoBananaPro(
   input: NanoBananaProInput,
+): Promise<NanoBananaProOutput | Error> {
+  return withMockBackend({
+    live: () => requestNanoBananaPro(input),
+    operation: "nano-banana-pro",
+    request: input,
+    service: "replicate",
+    synthetic: () => createMockNanoBananaProOutput(input),
+  });
+}
+
+/**
+ * Runs a live Nano Banana Pro prediction
+ */
+async function requestNanoBananaPro(
+  input: NanoBananaProInput,
 ): Promise<NanoBananaProOutput | Error> {
   log.info("Starting Nano Banana Pro generation", {
     prompt: input.prompt.substring(0, 100),
@@ -3,8 +3,8 @@
  * Server-side storyline generation that can be called directly without HTTP requests
  */
 
-import { openai } from "@ai-sdk/openai";
 import { generateObject } from "ai";
+import { getLanguageModel, isLiveBackend } from "@/lib/mock";
 import type { ImageStyleMoodAnalysis } from "@/lib/schemas/image-analysis-schema";
 import { storylineSetSchema } from "@/lib/schemas/storyline-schema";
 import type { StorylineSet } from "@/lib/schemas/storyline-schema";
@@ -94,7 +94,7 @@ export async function generateStorylinesCore(
   const { styleAnalysis, duration, userPrompt } = options;
 
   const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
+  if (!apiKey && isLiveBackend()) {
     throw new Error("OpenAI API key not configured");
   }
 
@@ -114,7 +114,7 @@ While you MUST follow the user's creative direction for subject and narrative, y
     : "\n\nCreate storylines that match this style but with completely different subjects and narratives. Make each one visually explosive and emotionally compelling.";
 
   const result = await generateObject({
-    model: openai("gpt-5-mini"),
+    model: getLanguageModel("gpt-5-mini"),
     schema: storylineSetSchema,
     messages: [
       {
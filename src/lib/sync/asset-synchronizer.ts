@@ -84,7 +84,7 @@ export function validateElementAsset(
     hasValidAsset: false,
   };
 
-  // No asset reference - valid for text/shape elements
+  // No asset reference - valid for text, shape, and frame elements
   if (!element.assetId) {
     if (element.type === "image" || element.type === "video") {
       result.error = `Media element missing assetId reference`;
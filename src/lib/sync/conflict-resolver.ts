@@ -1,11 +1,13 @@
 /**
  * Conflict resolution for canvas state synchronization.
  *
- * Handles cases where local and remote canvas states diverge,
- * using "last write wins" strategy based on timestamps.
+ * Handles cases where local and remote canvas states diverge. Whole states
+ * can be resolved with a "last write wins" strategy based on timestamps;
+ * collaborative editing merges per element against the last synced state
+ * instead, so teammates' changes to other elements are not overwritten.
  */
 
-import type { CanvasState } from "@/types/project";
+import type { CanvasElement, CanvasState } from "@/types/project";
 import { logger } from "@/lib/logger";
 
 const log = logger.sync;
@@ -231,3 +233,160 @@ export function detectChangedElements(
 
   return changedIds;
 }
+
+/**
+ * Elements as last synced with Convex, serialized and keyed by element ID.
+ */
+export type ElementSnapshot = Map<string, string>;
+
+/**
+ * Serializes a value with object keys sorted and undefined values dropped,
+ * so equal elements serialize equally regardless of property order.
+ *
+ * @private
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, entryValue]) => entryValue !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(
+        ([key, entryValue]) =>
+          `${JSON.stringify(key)}:${stableStringify(entryValue)}`,
+      );
+    return `{${entries.join(",")}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Serializes a canvas element for comparison.
+ *
+ * @param element - Canvas element
+ * @returns Serialized element
+ */
+export function serializeElement(element: CanvasElement): string {
+  return stableStringify(element);
+}
+
+/**
+ * Creates a snapshot of synced elements.
+ *
+ * @param elements - Elements as saved in or received from Convex
+ * @returns Snapshot keyed by element ID
+ */
+export function createElementSnapshot(
+  elements: CanvasElement[],
+): ElementSnapshot {
+  return new Map(
+    elements.map((element) => [element.id, serializeElement(element)]),
+  );
+}
+
+/**
+ * Lists the elements changed or removed locally since the last sync.
+ *
+ * @param snapshot - Elements as last synced
+ * @param elements - Current local elements
+ * @returns IDs of added or changed elements and of removed elements
+ *
+ * @example
+ * ```ts
+ * const operations = diffElementsFromSnapshot(snapshot, canvasState.elements);
+ * await saveProject({ canvasState, operations, projectId });
+ * ```
+ */
+export function diffElementsFromSnapshot(
+  snapshot: ElementSnapshot,
+  elements: CanvasElement[],
+): { removedIds: string[]; upsertedIds: string[] } {
+  const localIds = new Set(elements.map((element) => element.id));
+
+  return {
+    removedIds: [...snapshot.keys()].filter((id) => !localIds.has(id)),
+    upsertedIds: elements
+      .filter(
+        (element) => snapshot.get(element.id) !== serializeElement(element),
+      )
+      .map((element) => element.id),
+  };
+}
+
+/**
+ * Merges remote element changes into the local elements.
+ *
+ * Three-way merge per element against the last synced snapshot:
+ * - Changed remotely only: the remote version is taken (or the element is
+ *   removed when it was deleted remotely)
+ * - Changed locally only: the local version is kept and sent on next save
+ * - Changed on both sides: the local version is kept, so in-progress edits
+ *   are never yanked away
+ *
+ * @param snapshot - Elements as last synced
+ * @param local - Current local elements
+ * @param remote - Elements currently saved in Convex
+ * @returns Merged elements (remote order, then local-only elements) and the
+ * IDs of local elements that were updated, added or removed by the merge
+ *
+ * @example
+ * ```ts
+ * const { elements, updatedIds } = mergeElementChanges(snapshot, local, remote);
+ * if (updatedIds.size > 0) {
+ *   applyElements(elements);
+ * }
+ * ```
+ */
+export function mergeElementChanges(
+  snapshot: ElementSnapshot,
+  local: CanvasElement[],
+  remote: CanvasElement[],
+): { elements: CanvasElement[]; updatedIds: Set<string> } {
+  const localById = new Map(local.map((element) => [element.id, element]));
+  const remoteIds = new Set(remote.map((element) => element.id));
+  const elements: CanvasElement[] = [];
+  const updatedIds = new Set<string>();
+
+  for (const remoteElement of remote) {
+    const localElement = localById.get(remoteElement.id);
+    const synced = snapshot.get(remoteElement.id);
+
+    if (!localElement) {
+      // Deleted locally since the last sync: the deletion is still pending
+      if (synced !== undefined) continue;
+
+      elements.push(remoteElement);
+      updatedIds.add(remoteElement.id);
+      continue;
+    }
+
+    const localSerialized = serializeElement(localElement);
+    if (localSerialized !== synced) {
+      elements.push(localElement);
+      continue;
+    }
+
+    elements.push(remoteElement);
+    if (serializeElement(remoteElement) !== localSerialized) {
+      updatedIds.add(remoteElement.id);
+    }
+  }
+
+  for (const localElement of local) {
+    if (remoteIds.has(localElement.id)) continue;
+
+    const synced = snapshot.get(localElement.id);
+    if (synced === undefined || serializeElement(localElement) !== synced) {
+      // New locally, or edited locally after a remote deletion
+      elements.push(localElement);
+    } else {
+      updatedIds.add(localElement.id);
+    }
+  }
+
+  return { elements, updatedIds };
+}
@@ -2,14 +2,25 @@
  * Conversion utilities for elements between runtime and persistence formats.
  *
  * Handles mapping between:
- * - PlacedImage/PlacedVideo (runtime format used in canvas)
+ * - PlacedImage/PlacedVideo/PlacedAnnotation/PlacedFrame (runtime format used in canvas)
  * - CanvasElement (persistence format saved to Convex)
  */
 
 import type { Asset } from "@/types/asset";
 import type { CanvasElement } from "@/types/project";
-import type { PlacedImage, PlacedVideo } from "@/types/canvas";
+import type {
+  PlacedAnnotation,
+  PlacedFrame,
+  PlacedImage,
+  PlacedVideo,
+} from "@/types/canvas";
 import { logger } from "@/lib/logger";
+import {
+  annotationToCanvasElement,
+  canvasElementToAnnotation,
+  canvasElementToFrame,
+  frameToCanvasElement,
+} from "@/utils/canvas-utils";
 
 const log = logger.sync;
 
@@ -36,6 +47,8 @@ export function convertImageToElement(image: PlacedImage): CanvasElement {
     height: image.height,
     id: image.id,
     originalFalUrl: image.originalFalUrl,
+    parentGroupId: image.parentGroupId,
+    parentIds: image.parentIds,
     transform: {
       rotation: image.rotation,
       scale: 1,
@@ -74,6 +87,8 @@ export function convertVideoToElement(video: PlacedVideo): CanvasElement {
     id: video.id,
     isPlaying: video.isPlaying,
     muted: video.muted,
+    parentGroupId: video.parentGroupId,
+    parentIds: video.parentIds,
     transform: {
       rotation: video.rotation,
       scale: 1,
@@ -87,6 +102,30 @@ export function convertVideoToElement(video: PlacedVideo): CanvasElement {
   };
 }
 
+/**
+ * Converts a text or shape PlacedAnnotation to a CanvasElement for persistence.
+ *
+ * Annotations carry their content and style inline since they have no asset.
+ *
+ * @param annotation - PlacedAnnotation from canvas state
+ * @returns CanvasElement for saving to Convex
+ */
+export function convertAnnotationToElement(
+  annotation: PlacedAnnotation,
+): CanvasElement {
+  return annotationToCanvasElement(annotation);
+}
+
+/**
+ * Converts a PlacedFrame to a CanvasElement for persistence.
+ *
+ * @param frame - PlacedFrame from canvas state
+ * @returns CanvasElement for saving to Convex
+ */
+export function convertFrameToElement(frame: PlacedFrame): CanvasElement {
+  return frameToCanvasElement(frame);
+}
+
 /**
  * Converts a CanvasElement back to PlacedImage for runtime use.
  *
@@ -96,7 +135,7 @@ export function convertVideoToElement(video: PlacedVideo): CanvasElement {
  *
  * @param element - CanvasElement from Convex
  * @param imageSrc - URL for rendering the image
- * @param asset - Optional asset record to pull metadata from (cameraAngle, directorName)
+ * @param asset - Optional asset record to pull metadata from (cameraAngle, directorName, provenance)
  * @returns PlacedImage for use in canvas
  *
  * @example
@@ -108,7 +147,7 @@ export function convertVideoToElement(video: PlacedVideo): CanvasElement {
 export function convertElementToImage(
   element: CanvasElement,
   imageSrc: string,
-  asset?: { cameraAngle?: string; directorName?: string },
+  asset?: Pick<Asset, "cameraAngle" | "directorName" | "provenance">,
 ): PlacedImage {
   return {
     assetId: element.assetId,
@@ -118,6 +157,9 @@ export function convertElementToImage(
     height: element.height || 300,
     id: element.id,
     originalFalUrl: element.originalFalUrl,
+    parentGroupId: element.parentGroupId,
+    parentIds: element.parentIds,
+    provenance: asset?.provenance,
     rotation: element.transform.rotation,
     src: imageSrc,
     width: element.width || 300,
@@ -155,6 +197,8 @@ export function convertElementToVideo(
     isPlaying: element.isPlaying || false,
     isVideo: true,
     muted: element.muted || false,
+    parentGroupId: element.parentGroupId,
+    parentIds: element.parentIds,
     rotation: element.transform.rotation,
     src: videoSrc,
     volume: element.volume || 1,
@@ -165,13 +209,39 @@ export function convertElementToVideo(
 }
 
 /**
- * Converts PlacedImage/PlacedVideo arrays to CanvasElements for persistence.
+ * Converts a text or shape CanvasElement back to PlacedAnnotation.
  *
- * Combines images and videos into a single elements array,
+ * @param element - CanvasElement from Convex
+ * @returns PlacedAnnotation, or null for image/video elements
+ */
+export function convertElementToAnnotation(
+  element: CanvasElement,
+): PlacedAnnotation | null {
+  return canvasElementToAnnotation(element);
+}
+
+/**
+ * Converts a frame CanvasElement back to PlacedFrame.
+ *
+ * @param element - CanvasElement from Convex
+ * @returns PlacedFrame, or null for non-frame elements
+ */
+export function convertElementToFrame(
+  element: CanvasElement,
+): PlacedFrame | null {
+  return canvasElementToFrame(element);
+}
+
+/**
+ * Converts PlacedImage/PlacedVideo/PlacedAnnotation/PlacedFrame arrays to CanvasElements for persistence.
+ *
+ * Combines images, videos, annotations, and frames into a single elements array,
  * suitable for saving to Convex.
  *
  * @param images - Array of PlacedImages
  * @param videos - Array of PlacedVideos
+ * @param annotations - Array of text and shape annotations
+ * @param frames - Array of frames grouping images and videos
  * @returns Array of CanvasElements
  *
  * @example
@@ -183,6 +253,8 @@ export function convertElementToVideo(
 export function mergeToElements(
   images: PlacedImage[],
   videos: PlacedVideo[],
+  annotations: PlacedAnnotation[] = [],
+  frames: PlacedFrame[] = [],
 ): CanvasElement[] {
   const elements: CanvasElement[] = [];
 
@@ -194,6 +266,14 @@ export function mergeToElements(
     elements.push(convertVideoToElement(video));
   }
 
+  for (const annotation of annotations) {
+    elements.push(convertAnnotationToElement(annotation));
+  }
+
+  for (const frame of frames) {
+    elements.push(convertFrameToElement(frame));
+  }
+
   return elements;
 }
 
@@ -205,12 +285,12 @@ export function mergeToElements(
  *
  * @param elements - Array of CanvasElements
  * @param assetUrls - Map of asset ID to URL for rendering
- * @param assets - Optional map of asset ID to Asset record for metadata (cameraAngle, directorName)
- * @returns Object with images and videos arrays
+ * @param assets - Optional map of asset ID to Asset record for metadata (cameraAngle, directorName, provenance)
+ * @returns Object with images, videos, annotations, and frames arrays
  *
  * @example
  * ```ts
- * const { images, videos } = separateElements(
+ * const { annotations, frames, images, videos } = separateElements(
  *   project.canvasState.elements,
  *   assetUrlMap,
  *   assetMap
@@ -224,13 +304,30 @@ export function separateElements(
   assetUrls: Map<string, string>,
   assets?: Map<string, Asset>,
 ): {
+  annotations: PlacedAnnotation[];
+  frames: PlacedFrame[];
   images: PlacedImage[];
   videos: PlacedVideo[];
 } {
+  const annotations: PlacedAnnotation[] = [];
+  const frames: PlacedFrame[] = [];
   const images: PlacedImage[] = [];
   const videos: PlacedVideo[] = [];
 
   for (const element of elements) {
+    // Text, shapes, and frames are stored inline and need no asset URL
+    const annotation = convertElementToAnnotation(element);
+    if (annotation) {
+      annotations.push(annotation);
+      continue;
+    }
+
+    const frame = convertElementToFrame(element);
+    if (frame) {
+      frames.push(frame);
+      continue;
+    }
+
     // Get URL from asset or element
     const url = element.assetId ? assetUrls.get(element.assetId) || "" : "";
 
@@ -247,5 +344,5 @@ export function separateElements(
     }
   }
 
-  return { images, videos };
+  return { annotations, frames, images, videos };
 }
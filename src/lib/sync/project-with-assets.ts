@@ -13,7 +13,12 @@ import {
   generateMigrationPlan,
 } from "./asset-synchronizer";
 import { mergeToElements, separateElements } from "./element-converter";
-import type { PlacedImage, PlacedVideo } from "@/types/canvas";
+import type {
+  PlacedAnnotation,
+  PlacedFrame,
+  PlacedImage,
+  PlacedVideo,
+} from "@/types/canvas";
 
 /**
  * Options for loading a project with asset validation.
@@ -53,7 +58,9 @@ export interface SaveProjectOptions {
  * Result of loading a project with asset validation.
  */
 export interface LoadProjectResult {
+  annotations: PlacedAnnotation[];
   canvasState: CanvasState;
+  frames: PlacedFrame[];
   images: PlacedImage[];
   issues: {
     orphanedElements: string[];
@@ -182,14 +189,16 @@ export async function loadProjectWithAssets(
   }
 
   // 2. Convert to runtime format
-  const { images, videos } = separateElements(
+  const { annotations, frames, images, videos } = separateElements(
     canvasState.elements,
     assetUrls,
     assetMap,
   );
 
   return {
+    annotations,
     canvasState,
+    frames,
     images,
     videos,
     issues: {
@@ -214,6 +223,8 @@ export async function loadProjectWithAssets(
  * @param assets - User's asset records
  * @param userId - User ID for validation
  * @param options - Save options
+ * @param annotations - Text and shape annotations to persist alongside media
+ * @param frames - Frames grouping images and videos
  * @returns Validation status
  *
  * @example
@@ -239,9 +250,11 @@ export function prepareProjectForSave(
   assets: Asset[],
   userId: string,
   options: SaveProjectOptions = {},
+  annotations: PlacedAnnotation[] = [],
+  frames: PlacedFrame[] = [],
 ) {
   // Convert to persistence format
-  const elements = mergeToElements(images, videos);
+  const elements = mergeToElements(images, videos, annotations, frames);
 
   // Validate if requested
   if (options.validate) {
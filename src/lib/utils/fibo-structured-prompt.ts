@@ -0,0 +1,268 @@
+/**
+ * Reading, editing and comparing FIBO structured prompts
+ *
+ * FIBO variations send the refined structured prompt to the image model as
+ * JSON text, which is recorded as the generated image's provenance prompt.
+ */
+
+import type { FiboStructuredPrompt } from "@/lib/adapters/fibo-to-analysis-adapter";
+import { isErr, trySync } from "@/lib/errors/safe-errors";
+import type { ActiveGeneration } from "@/types/canvas";
+
+/**
+ * Aspect ratios accepted by FIBO generation
+ */
+export type FiboAspectRatio = NonNullable<ActiveGeneration["fiboAspectRatio"]>;
+
+/**
+ * Editable field of a structured prompt
+ */
+export interface FiboPromptField {
+  /** Section of the inspector the field is shown in */
+  group: "Camera" | "Color grading" | "Lighting" | "Subject";
+  label: string;
+  /** Keys leading to the field in the structured prompt */
+  path: readonly (number | string)[];
+}
+
+/**
+ * A value that differs between two structured prompts
+ */
+export interface FiboPromptDifference {
+  /** Value in the first prompt; undefined when missing */
+  before?: string;
+  /** Value in the second prompt; undefined when missing */
+  after?: string;
+  label: string;
+  path: readonly (number | string)[];
+}
+
+/**
+ * Fields shown in the structured prompt inspector, in display order
+ */
+export const FIBO_PROMPT_FIELDS: readonly FiboPromptField[] = [
+  { group: "Subject", label: "Description", path: ["short_description"] },
+  {
+    group: "Subject",
+    label: "Main subject",
+    path: ["objects", 0, "description"],
+  },
+  { group: "Subject", label: "Action", path: ["objects", 0, "action"] },
+  { group: "Subject", label: "Background", path: ["background_setting"] },
+  { group: "Lighting", label: "Conditions", path: ["lighting", "conditions"] },
+  { group: "Lighting", label: "Direction", path: ["lighting", "direction"] },
+  { group: "Lighting", label: "Shadows", path: ["lighting", "shadows"] },
+  {
+    group: "Camera",
+    label: "Angle",
+    path: ["photographic_characteristics", "camera_angle"],
+  },
+  {
+    group: "Camera",
+    label: "Lens",
+    path: ["photographic_characteristics", "lens_focal_length"],
+  },
+  {
+    group: "Camera",
+    label: "Depth of field",
+    path: ["photographic_characteristics", "depth_of_field"],
+  },
+  {
+    group: "Camera",
+    label: "Focus",
+    path: ["photographic_characteristics", "focus"],
+  },
+  {
+    group: "Color grading",
+    label: "Color scheme",
+    path: ["aesthetics", "color_scheme"],
+  },
+  {
+    group: "Color grading",
+    label: "Mood",
+    path: ["aesthetics", "mood_atmosphere"],
+  },
+  { group: "Color grading", label: "Style medium", path: ["style_medium"] },
+  { group: "Color grading", label: "Artistic style", path: ["artistic_style"] },
+];
+
+/**
+ * Width-to-height ratios of the FIBO aspect ratios
+ */
+const FIBO_ASPECT_RATIOS: ReadonlyArray<[FiboAspectRatio, number]> = [
+  ["1:1", 1],
+  ["2:3", 2 / 3],
+  ["3:2", 3 / 2],
+  ["3:4", 3 / 4],
+  ["4:3", 4 / 3],
+  ["4:5", 4 / 5],
+  ["5:4", 5 / 4],
+  ["9:16", 9 / 16],
+  ["16:9", 16 / 9],
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Parses a generation prompt as a FIBO structured prompt.
+ *
+ * @param prompt - Prompt recorded for a generation
+ * @returns The structured prompt, or null when the prompt is plain text
+ */
+export function parseFiboStructuredPrompt(
+  prompt: string | undefined,
+): FiboStructuredPrompt | null {
+  if (!prompt?.trimStart().startsWith("{")) return null;
+
+  const parsed = trySync(() => JSON.parse(prompt) as unknown);
+  if (isErr(parsed) || !isRecord(parsed)) return null;
+
+  const hasSections =
+    isRecord(parsed.lighting) &&
+    isRecord(parsed.aesthetics) &&
+    isRecord(parsed.photographic_characteristics) &&
+    Array.isArray(parsed.objects);
+
+  return hasSections ? (parsed as unknown as FiboStructuredPrompt) : null;
+}
+
+/**
+ * Gets a field of a structured prompt as text.
+ *
+ * @returns The value, or an empty string when the field is missing
+ */
+export function getFiboPromptField(
+  prompt: FiboStructuredPrompt,
+  path: readonly (number | string)[],
+): string {
+  let value: unknown = prompt;
+  for (const key of path) {
+    if (typeof value !== "object" || value === null) return "";
+    value = (value as Record<number | string, unknown>)[key];
+  }
+
+  return value === undefined || value === null ? "" : String(value);
+}
+
+/**
+ * Sets a field of a structured prompt without changing the original.
+ * Missing objects along the path are created.
+ */
+export function setFiboPromptField(
+  prompt: FiboStructuredPrompt,
+  path: readonly (number | string)[],
+  value: string,
+): FiboStructuredPrompt {
+  const update = (target: unknown, depth: number): unknown => {
+    const key = path[depth];
+    const copy = (
+      Array.isArray(target)
+        ? [...target]
+        : { ...(isRecord(target) ? target : {}) }
+    ) as Record<number | string, unknown>;
+
+    copy[key] =
+      depth === path.length - 1 ? value : update(copy[key], depth + 1);
+    return copy;
+  };
+
+  return update(prompt, 0) as FiboStructuredPrompt;
+}
+
+/**
+ * Lists the text values of a structured prompt by path, depth first.
+ */
+function flattenFiboPrompt(
+  value: unknown,
+  path: (number | string)[] = [],
+  values = new Map<string, { path: (number | string)[]; value: string }>(),
+) {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) =>
+      flattenFiboPrompt(item, [...path, index], values),
+    );
+  } else if (isRecord(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      flattenFiboPrompt(item, [...path, key], values);
+    }
+  } else if (value !== undefined && value !== null) {
+    values.set(path.join("."), { path, value: String(value) });
+  }
+
+  return values;
+}
+
+/**
+ * Gets a readable label for a structured prompt path.
+ * Inspector fields use their label; other paths are spelled out.
+ */
+function getFiboPathLabel(path: readonly (number | string)[]): string {
+  const field = FIBO_PROMPT_FIELDS.find(
+    (candidate) => candidate.path.join(".") === path.join("."),
+  );
+  if (field) return `${field.group}: ${field.label}`;
+
+  return path
+    .map((key) =>
+      typeof key === "number" ? `#${key + 1}` : key.replaceAll("_", " "),
+    )
+    .join(" › ");
+}
+
+/**
+ * Compares two structured prompts field by field.
+ *
+ * @returns Values that differ, inspector fields first
+ */
+export function diffFiboStructuredPrompts(
+  first: FiboStructuredPrompt,
+  second: FiboStructuredPrompt,
+): FiboPromptDifference[] {
+  const firstValues = flattenFiboPrompt(first);
+  const secondValues = flattenFiboPrompt(second);
+  const keys = new Set([...firstValues.keys(), ...secondValues.keys()]);
+
+  const fieldOrder = (key: string) => {
+    const index = FIBO_PROMPT_FIELDS.findIndex(
+      (field) => field.path.join(".") === key,
+    );
+    return index === -1 ? FIBO_PROMPT_FIELDS.length : index;
+  };
+
+  return [...keys]
+    .filter(
+      (key) => firstValues.get(key)?.value !== secondValues.get(key)?.value,
+    )
+    .sort((a, b) => fieldOrder(a) - fieldOrder(b))
+    .map((key) => {
+      const before = firstValues.get(key);
+      const after = secondValues.get(key);
+      const path = before?.path ?? after?.path ?? [];
+
+      return {
+        after: after?.value,
+        before: before?.value,
+        label: getFiboPathLabel(path),
+        path,
+      };
+    });
+}
+
+/**
+ * Gets the FIBO aspect ratio closest to an image's dimensions.
+ */
+export function getFiboAspectRatio(
+  width: number,
+  height: number,
+): FiboAspectRatio {
+  if (!width || !height) return "16:9";
+
+  const ratio = width / height;
+  return FIBO_ASPECT_RATIOS.reduce((closest, candidate) =>
+    Math.abs(Math.log(candidate[1] / ratio)) <
+    Math.abs(Math.log(closest[1] / ratio))
+      ? candidate
+      : closest,
+  )[0];
+}
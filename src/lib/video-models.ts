@@ -5,6 +5,24 @@ export const SORA_2_MODEL_ID = "sora-2" as const;
 export const SORA_2_PRO_MODEL_ID = "sora-2-pro" as const;
 export const VEO_3_1_MODEL_ID = "veo-3.1" as const;
 export const VEO_3_1_PRO_MODEL_ID = "veo-3.1-pro" as const;
+export const SORA_2_TEXT_MODEL_ID = "sora-2-text" as const;
+export const VEO_3_1_TEXT_MODEL_ID = "veo-3.1-text" as const;
+export const RAY_2_MODIFY_MODEL_ID = "ray-2-modify" as const;
+export const VEO_3_1_EXTEND_MODEL_ID = "veo-3.1-extend" as const;
+
+/**
+ * Identifiers of the text-to-video models
+ */
+export type TextToVideoModelId =
+  | typeof SORA_2_TEXT_MODEL_ID
+  | typeof VEO_3_1_TEXT_MODEL_ID;
+
+/**
+ * Identifiers of the video-to-video models
+ */
+export type VideoToVideoModelId =
+  | typeof RAY_2_MODIFY_MODEL_ID
+  | typeof VEO_3_1_EXTEND_MODEL_ID;
 
 /**
  * Model-specific configuration
@@ -16,15 +34,32 @@ const SORA_2_PRO_ENDPOINT = "fal-ai/sora-2/image-to-video/pro";
 const SORA_2_PRO_NAME = "Sora 2 Pro";
 
 const VEO_3_1_ENDPOINT = "fal-ai/veo3.1/fast/image-to-video";
+const VEO_3_1_END_FRAME_ENDPOINT =
+  "fal-ai/veo3.1/fast/first-last-frame-to-video";
 const VEO_3_1_NAME = "VEO 3.1 Fast";
 
 const VEO_3_1_PRO_ENDPOINT = "fal-ai/veo3.1/image-to-video";
+const VEO_3_1_PRO_END_FRAME_ENDPOINT =
+  "fal-ai/veo3.1/first-last-frame-to-video";
 const VEO_3_1_PRO_NAME = "VEO 3.1";
 
+const SORA_2_TEXT_ENDPOINT = "fal-ai/sora-2/text-to-video";
+const VEO_3_1_TEXT_ENDPOINT = "fal-ai/veo3.1/fast";
+
+const RAY_2_MODIFY_ENDPOINT = "fal-ai/luma-dream-machine/ray-2/modify";
+const RAY_2_MODIFY_NAME = "Ray 2 Restyle";
+
+const VEO_3_1_EXTEND_ENDPOINT = "fal-ai/veo3.1/fast/extend-video";
+const VEO_3_1_EXTEND_NAME = "VEO 3.1 Extend";
+
 /**
  * Shared UI copy and configuration
  */
-const MODEL_CATEGORY = "image-to-video";
+const MODEL_CATEGORIES = {
+  IMAGE_TO_VIDEO: "image-to-video",
+  TEXT_TO_VIDEO: "text-to-video",
+  VIDEO_TO_VIDEO: "video-to-video",
+} as const;
 
 const ASPECT_RATIO_OPTIONS = {
   AUTO: { label: "Auto (from image)", value: "auto" },
@@ -54,12 +89,20 @@ const FIELD_LABELS = {
 const FIELD_DESCRIPTIONS = {
   ASPECT_RATIO: "Select the aspect ratio for the generated video",
   DURATION: "Duration of the generated video in seconds",
+  EXTEND_PROMPT: "Describe what happens after the video ends",
   PROMPT: "Describe the motion, action, and camera movement for the video",
   RESOLUTION: "Select the resolution for the generated video",
+  RESTYLE_PROMPT: "Describe the new look for the video",
+  TEXT_PROMPT: "Describe the scene, action, and camera movement for the video",
 } as const;
 
 const PROMPT_PLACEHOLDER =
   "Camera slowly zooms in while the subject looks around...";
+const TEXT_PROMPT_PLACEHOLDER =
+  "A lighthouse on a cliff at dusk, waves crashing below, slow aerial orbit...";
+const EXTEND_PROMPT_PLACEHOLDER = "The subject turns and walks out of frame...";
+const RESTYLE_PROMPT_PLACEHOLDER =
+  "Hand-painted watercolor, soft paper texture...";
 
 /**
  * Shape of a selectable model option exposed to the UI.
@@ -89,16 +132,26 @@ export interface ModelConstraints {
   resolutionsByModel?: Record<string, string[]>;
 }
 
+/**
+ * What a model generates from: an image, a text prompt or a video.
+ */
+export type VideoModelCategory =
+  (typeof MODEL_CATEGORIES)[keyof typeof MODEL_CATEGORIES];
+
 /**
  * Model configuration exposed to the rest of the application.
  */
 export interface VideoModelConfig {
-  category: "image-to-video";
+  category: VideoModelCategory;
   defaults: Record<string, unknown>;
   endpoint: string;
+  /** Endpoint conditioned on a start and an end frame, if the model has one */
+  endFrameEndpoint?: string;
   id: string;
   isDefault?: boolean;
   name: string;
+  /** How a video-to-video model changes its source video */
+  operation?: "extend" | "restyle";
   options: Record<string, VideoModelOption>;
 }
 
@@ -107,7 +160,7 @@ export interface VideoModelConfig {
  */
 export const VIDEO_MODELS: Record<string, VideoModelConfig> = {
   [SORA_2_MODEL_ID]: {
-    category: MODEL_CATEGORY,
+    category: MODEL_CATEGORIES.IMAGE_TO_VIDEO,
     defaults: {
       aspectRatio: "auto",
       duration: "8",
@@ -165,7 +218,7 @@ export const VIDEO_MODELS: Record<string, VideoModelConfig> = {
     },
   },
   [SORA_2_PRO_MODEL_ID]: {
-    category: MODEL_CATEGORY,
+    category: MODEL_CATEGORIES.IMAGE_TO_VIDEO,
     defaults: {
       aspectRatio: "auto",
       duration: "8",
@@ -223,13 +276,14 @@ export const VIDEO_MODELS: Record<string, VideoModelConfig> = {
     },
   },
   [VEO_3_1_MODEL_ID]: {
-    category: MODEL_CATEGORY,
+    category: MODEL_CATEGORIES.IMAGE_TO_VIDEO,
     defaults: {
       aspectRatio: "16:9",
       duration: "8",
       prompt: "",
       resolution: "720p",
     },
+    endFrameEndpoint: VEO_3_1_END_FRAME_ENDPOINT,
     endpoint: VEO_3_1_ENDPOINT,
     id: VEO_3_1_MODEL_ID,
     isDefault: false,
@@ -276,13 +330,14 @@ export const VIDEO_MODELS: Record<string, VideoModelConfig> = {
     },
   },
   [VEO_3_1_PRO_MODEL_ID]: {
-    category: MODEL_CATEGORY,
+    category: MODEL_CATEGORIES.IMAGE_TO_VIDEO,
     defaults: {
       aspectRatio: "16:9",
       duration: "8",
       prompt: "",
       resolution: "1080p",
     },
+    endFrameEndpoint: VEO_3_1_PRO_END_FRAME_ENDPOINT,
     endpoint: VEO_3_1_PRO_ENDPOINT,
     id: VEO_3_1_PRO_MODEL_ID,
     isDefault: false,
@@ -328,6 +383,155 @@ export const VIDEO_MODELS: Record<string, VideoModelConfig> = {
       },
     },
   },
+  [SORA_2_TEXT_MODEL_ID]: {
+    category: MODEL_CATEGORIES.TEXT_TO_VIDEO,
+    defaults: {
+      aspectRatio: "16:9",
+      duration: "8",
+      prompt: "",
+      resolution: "720p",
+    },
+    endpoint: SORA_2_TEXT_ENDPOINT,
+    id: SORA_2_TEXT_MODEL_ID,
+    isDefault: true,
+    name: SORA_2_NAME,
+    options: {
+      aspectRatio: {
+        description: FIELD_DESCRIPTIONS.ASPECT_RATIO,
+        label: FIELD_LABELS.ASPECT_RATIO,
+        name: "aspectRatio",
+        options: [
+          ASPECT_RATIO_OPTIONS.PORTRAIT,
+          ASPECT_RATIO_OPTIONS.LANDSCAPE,
+        ],
+        type: "select",
+      },
+      duration: {
+        default: "8",
+        description: FIELD_DESCRIPTIONS.DURATION,
+        label: FIELD_LABELS.DURATION,
+        name: "duration",
+        options: [
+          DURATION_OPTIONS.FOUR,
+          DURATION_OPTIONS.EIGHT,
+          DURATION_OPTIONS.TWELVE,
+        ],
+        type: "select",
+      },
+      prompt: {
+        description: FIELD_DESCRIPTIONS.TEXT_PROMPT,
+        label: FIELD_LABELS.PROMPT,
+        name: "prompt",
+        placeholder: TEXT_PROMPT_PLACEHOLDER,
+        required: true,
+        type: "text",
+      },
+      resolution: {
+        default: "720p",
+        description: FIELD_DESCRIPTIONS.RESOLUTION,
+        label: FIELD_LABELS.RESOLUTION,
+        name: "resolution",
+        options: [RESOLUTION_OPTIONS.P720],
+        type: "select",
+      },
+    },
+  },
+  [VEO_3_1_TEXT_MODEL_ID]: {
+    category: MODEL_CATEGORIES.TEXT_TO_VIDEO,
+    defaults: {
+      aspectRatio: "16:9",
+      duration: "8",
+      prompt: "",
+      resolution: "720p",
+    },
+    endpoint: VEO_3_1_TEXT_ENDPOINT,
+    id: VEO_3_1_TEXT_MODEL_ID,
+    isDefault: false,
+    name: VEO_3_1_NAME,
+    options: {
+      aspectRatio: {
+        description: FIELD_DESCRIPTIONS.ASPECT_RATIO,
+        label: FIELD_LABELS.ASPECT_RATIO,
+        name: "aspectRatio",
+        options: [
+          ASPECT_RATIO_OPTIONS.PORTRAIT,
+          ASPECT_RATIO_OPTIONS.LANDSCAPE,
+        ],
+        type: "select",
+      },
+      duration: {
+        default: "8",
+        description: FIELD_DESCRIPTIONS.DURATION,
+        label: FIELD_LABELS.DURATION,
+        name: "duration",
+        options: [
+          DURATION_OPTIONS.FOUR,
+          DURATION_OPTIONS.EIGHT,
+          DURATION_OPTIONS.TWELVE,
+        ],
+        type: "select",
+      },
+      prompt: {
+        description: FIELD_DESCRIPTIONS.TEXT_PROMPT,
+        label: FIELD_LABELS.PROMPT,
+        name: "prompt",
+        placeholder: TEXT_PROMPT_PLACEHOLDER,
+        required: true,
+        type: "text",
+      },
+      resolution: {
+        default: "720p",
+        description: FIELD_DESCRIPTIONS.RESOLUTION,
+        label: FIELD_LABELS.RESOLUTION,
+        name: "resolution",
+        options: [RESOLUTION_OPTIONS.P720, RESOLUTION_OPTIONS.P1080],
+        type: "select",
+      },
+    },
+  },
+  [RAY_2_MODIFY_MODEL_ID]: {
+    category: MODEL_CATEGORIES.VIDEO_TO_VIDEO,
+    defaults: {
+      prompt: "",
+    },
+    endpoint: RAY_2_MODIFY_ENDPOINT,
+    id: RAY_2_MODIFY_MODEL_ID,
+    isDefault: true,
+    name: RAY_2_MODIFY_NAME,
+    operation: "restyle",
+    options: {
+      prompt: {
+        description: FIELD_DESCRIPTIONS.RESTYLE_PROMPT,
+        label: FIELD_LABELS.PROMPT,
+        name: "prompt",
+        placeholder: RESTYLE_PROMPT_PLACEHOLDER,
+        required: true,
+        type: "text",
+      },
+    },
+  },
+  [VEO_3_1_EXTEND_MODEL_ID]: {
+    category: MODEL_CATEGORIES.VIDEO_TO_VIDEO,
+    defaults: {
+      duration: "7",
+      prompt: "",
+    },
+    endpoint: VEO_3_1_EXTEND_ENDPOINT,
+    id: VEO_3_1_EXTEND_MODEL_ID,
+    isDefault: false,
+    name: VEO_3_1_EXTEND_NAME,
+    operation: "extend",
+    options: {
+      prompt: {
+        description: FIELD_DESCRIPTIONS.EXTEND_PROMPT,
+        label: FIELD_LABELS.PROMPT,
+        name: "prompt",
+        placeholder: EXTEND_PROMPT_PLACEHOLDER,
+        required: true,
+        type: "text",
+      },
+    },
+  },
 };
 
 /**
@@ -337,6 +541,27 @@ export function getVideoModelById(id: string): VideoModelConfig | undefined {
   return VIDEO_MODELS[id];
 }
 
+/**
+ * Whether a model can generate a clip between a start and an end frame.
+ */
+export function supportsEndFrame(id: string): boolean {
+  return Boolean(VIDEO_MODELS[id]?.endFrameEndpoint);
+}
+
+/**
+ * Picks the model category for the canvas selection: text-to-video with
+ * nothing selected, video-to-video when a video is selected, and
+ * image-to-video otherwise.
+ */
+export function getVideoCategoryForSelection(selection: {
+  imageCount: number;
+  videoCount: number;
+}): VideoModelCategory {
+  if (selection.videoCount > 0) return MODEL_CATEGORIES.VIDEO_TO_VIDEO;
+  if (selection.imageCount > 0) return MODEL_CATEGORIES.IMAGE_TO_VIDEO;
+  return MODEL_CATEGORIES.TEXT_TO_VIDEO;
+}
+
 /**
  * Returns all models for the configured category.
  */
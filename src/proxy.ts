@@ -1,5 +1,5 @@
 import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
-import { NextResponse } from "next/server";
+import { NextResponse, type NextRequest } from "next/server";
 
 /**
  * Matches routes that should be publicly accessible without authentication.
@@ -13,10 +13,23 @@ const isPublicRoute = createRouteMatcher([
   "/api/webhooks(.*)",
   "/api/polar(.*)",
   "/api/trpc(.*)", // tRPC handles its own auth via context
+  "/share(.*)", // Read-only share links are authorized by their token
   "/_next(.*)",
   "/favicon.ico",
 ]);
 
+/**
+ * Whether a request loads a file from a shared canvas through the storage
+ * proxy. The proxy validates the share token itself; an empty token does
+ * not count as a share link.
+ */
+function isSharedAssetRequest(request: NextRequest) {
+  return (
+    request.nextUrl.pathname === "/api/storage/proxy" &&
+    Boolean(request.nextUrl.searchParams.get("shareToken")?.trim())
+  );
+}
+
 /**
  * Clerk authentication middleware for Next.js.
  *
@@ -31,7 +44,7 @@ const isPublicRoute = createRouteMatcher([
  * @see {@link https://clerk.com/docs/references/nextjs/clerk-middleware | Clerk Middleware Documentation}
  */
 export default clerkMiddleware(async (auth, request) => {
-  const isPublic = isPublicRoute(request);
+  const isPublic = isPublicRoute(request) || isSharedAssetRequest(request);
 
   // Protect all non-public routes
   if (!isPublic) {
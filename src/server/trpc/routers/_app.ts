@@ -4,6 +4,7 @@ import { generateImageStream } from "./procedures/generate-image-stream";
 import { generateImageToVideo } from "./procedures/generate-image-to-video";
 import { generateImageVariation } from "./procedures/generate-image-variation";
 import { generateTextToImage } from "./procedures/generate-text-to-image";
+import { generateVideo } from "./procedures/generate-video";
 
 /**
  * tRPC application router for image and video generation workflows.
@@ -19,6 +20,7 @@ export const appRouter = router({
   generateImageStream,
   generateImageVariation,
   generateFiboImageVariation,
+  generateVideo,
 });
 
 export type AppRouter = typeof appRouter;
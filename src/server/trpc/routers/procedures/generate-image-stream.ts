@@ -14,6 +14,11 @@ import { handleFalError } from "@/lib/trpc/error-handling";
 import { z } from "zod";
 import { publicProcedure } from "../../init";
 
+/**
+ * FAL endpoint used for streaming image-to-image generation
+ */
+const IMAGE_TO_IMAGE_ENDPOINT = "fal-ai/flux/dev/image-to-image";
+
 /**
  * Streams image-to-image generation progress events.
  *
@@ -38,7 +43,7 @@ export const generateImageStream = publicProcedure
       const generationId = generateId();
 
       // Start streaming from fal.ai
-      const stream = await falClient.stream("fal-ai/flux/dev/image-to-image", {
+      const stream = await falClient.stream(IMAGE_TO_IMAGE_ENDPOINT, {
         input: {
           image_url: input.imageUrl,
           prompt: input.prompt,
@@ -80,8 +85,10 @@ export const generateImageStream = publicProcedure
 
       // Send the final image
       yield yieldComplete(generationId, {
+        endpoint: IMAGE_TO_IMAGE_ENDPOINT,
         imageUrl,
-        seed: resultData.seed ?? Math.random(),
+        provider: "fal",
+        ...(resultData.seed !== undefined ? { seed: resultData.seed } : {}),
       });
     } catch (error) {
       yield handleFalError(error, "Failed to generate image");
@@ -7,6 +7,10 @@ import {
   yieldError,
   yieldProgress,
 } from "@/lib/trpc/event-tracking";
+import {
+  reserveGenerationQuota,
+  type QuotaReservation,
+} from "@/lib/server/generation-quota";
 import { handleFalError } from "@/lib/trpc/error-handling";
 import { validateDuration } from "@/lib/validation";
 import { getVideoModelById, SORA_2_MODEL_ID } from "@/lib/video-models";
@@ -15,10 +19,20 @@ import { z } from "zod";
 import { publicProcedure } from "../../init";
 
 /**
- * Generates a video from a single input image.
+ * Creative direction added when the clip has to land on an end frame.
+ */
+const END_FRAME_GUIDANCE =
+  "The shot transitions smoothly from the first frame into a different final frame; describe motion that connects the two.";
+
+/**
+ * Generates a video from an input image.
  *
  * Input accepts model selection and rendering parameters and emits tracked
- * events for start, progress, completion, and error states.
+ * events for start, progress, completion, and error states. Signed-in users
+ * are charged video credits weighted by the selected model.
+ *
+ * When `endImageUrl` is given, the clip starts on `imageUrl` and ends on the
+ * end image; the model must declare an `endFrameEndpoint`.
  */
 export const generateImageToVideo = publicProcedure
   .input(
@@ -26,6 +40,7 @@ export const generateImageToVideo = publicProcedure
       .object({
         aspectRatio: z.enum(["auto", "9:16", "16:9"]).optional(),
         duration: z.union([z.number(), z.string()]).optional(),
+        endImageUrl: z.string().url().optional(),
         imageUrl: z.string().url(),
         modelId: z.string().optional(),
         prompt: z.string().optional(),
@@ -34,6 +49,8 @@ export const generateImageToVideo = publicProcedure
       .passthrough(),
   )
   .subscription(async function* ({ input, signal: _signal, ctx }) {
+    let reservation: QuotaReservation | null = null;
+
     try {
       const falClient = await getFalClient(ctx, true);
       const generationId = generateId("img2vid");
@@ -51,14 +68,48 @@ export const generateImageToVideo = publicProcedure
         throw new Error(`Unknown model ID: ${input.modelId ?? "undefined"}`);
       }
 
+      if (input.endImageUrl && !model.endFrameEndpoint) {
+        yield yieldError(
+          generationId,
+          `${model.name} does not support end frames`,
+        );
+        return;
+      }
+
+      const endpoint =
+        input.endImageUrl && model.endFrameEndpoint
+          ? model.endFrameEndpoint
+          : model.endpoint;
+
       const resolvedDuration = validateDuration(input.duration, {
         min: 1,
         max: 60,
         default: 4,
       });
 
+      if (ctx.userId) {
+        const quotaResult = await reserveGenerationQuota({
+          duration: resolvedDuration,
+          endpoint,
+          model: model.id,
+          resolution: input.resolution,
+          type: "video",
+        });
+
+        if (quotaResult instanceof Error) {
+          yield yieldError(generationId, quotaResult.message);
+          return;
+        }
+
+        reservation = quotaResult;
+      }
+
       // Sanitize user-provided prompt for guidance
-      const userGuidance = sanitizePrompt(input.prompt);
+      const userGuidance = input.endImageUrl
+        ? [sanitizePrompt(input.prompt), END_FRAME_GUIDANCE]
+            .filter(Boolean)
+            .join(" ")
+        : sanitizePrompt(input.prompt);
 
       // Generate prompt using AI analysis (optionally guided by user input)
       yield yieldProgress(
@@ -95,12 +146,14 @@ export const generateImageToVideo = publicProcedure
             ? promptError.message
             : "Failed to generate video prompt";
 
+        await reservation?.refund();
         yield yieldError(generationId, `Prompt generation failed: ${errorMessage}`);
         return;
       }
 
       // Final validation before sending to FAL
       if (!finalPrompt || finalPrompt.trim().length === 0) {
+        await reservation?.refund();
         yield yieldError(generationId, "Invalid prompt: prompt cannot be empty");
         return;
       }
@@ -111,13 +164,18 @@ export const generateImageToVideo = publicProcedure
           (model.defaults.aspectRatio as string) ||
           "auto",
         duration: resolvedDuration,
-        image_url: input.imageUrl,
+        ...(input.endImageUrl
+          ? {
+              first_frame_url: input.imageUrl,
+              last_frame_url: input.endImageUrl,
+            }
+          : { image_url: input.imageUrl }),
         prompt: finalPrompt,
         resolution:
           input.resolution || (model.defaults.resolution as string) || "auto",
       };
 
-      const result = (await falClient.subscribe(model.endpoint, {
+      const result = (await falClient.subscribe(endpoint, {
         input: soraInput,
       })) as ApiResponse;
 
@@ -126,6 +184,7 @@ export const generateImageToVideo = publicProcedure
       const videoUrl = extractVideoUrl(result);
 
       if (!videoUrl) {
+        await reservation?.refund();
         yield yieldError(generationId, "No video generated");
         return;
       }
@@ -133,11 +192,14 @@ export const generateImageToVideo = publicProcedure
       const videoDuration =
         result.data?.duration || result.duration || resolvedDuration;
 
+      await reservation?.commit();
+
       yield yieldComplete(generationId, {
         duration: videoDuration,
         videoUrl,
       });
     } catch (error) {
+      await reservation?.refund();
       yield handleFalError(error, "Failed to convert image to video");
     }
   });
@@ -1,6 +1,6 @@
 import { getFalClient } from "@/lib/fal/helpers";
 import { IMAGE_MODELS, resolveImageSize } from "@/lib/image-models";
-import { createProvider } from "@/lib/providers";
+import { generateWithFallback, getProviderRegistration } from "@/lib/providers";
 import {
   generateId,
   yieldComplete,
@@ -17,6 +17,8 @@ import { publicProcedure } from "../../init";
  * Non-streaming: subscribes until completion and emits a single completion
  * event with the resulting image. Supports preset sizes or explicit width
  * and height. Model can be switched between "seedream" and "nano-banana".
+ * The requested provider is tried first; other registered providers are
+ * tried in fallback order if it fails.
  */
 export const generateImageVariation = publicProcedure
   .input(
@@ -26,7 +28,13 @@ export const generateImageVariation = publicProcedure
       model: z
         .enum([IMAGE_MODELS.SEEDREAM, IMAGE_MODELS.NANO_BANANA])
         .default(IMAGE_MODELS.SEEDREAM),
-      provider: z.enum(["fal", "replicate"]).optional().default("fal"),
+      provider: z
+        .string()
+        .optional()
+        .default("fal")
+        .refine((id) => getProviderRegistration(id) !== undefined, {
+          message: "Unknown provider",
+        }),
       imageSize: z
         .union([
           z.enum([
@@ -54,24 +62,23 @@ export const generateImageVariation = publicProcedure
       // Resolve imageSize to a concrete {width, height} object
       const resolvedImageSize = resolveImageSize(input.imageSize);
 
-      // Create the appropriate provider
-      const falClient =
-        input.provider === "fal" ? await getFalClient(ctx) : undefined;
-
-      const provider = createProvider({
-        type: input.provider,
-        falClient,
-        model: input.model,
-      });
-
-      // Generate the image variation
-      const result = await provider.generate({
-        imageUrls: input.imageUrls,
-        prompt: input.prompt,
-        imageSize: resolvedImageSize,
-        seed: input.seed,
-        model: input.model,
-      });
+      // Generate the image variation, falling back to other providers on failure
+      const result = await generateWithFallback(
+        {
+          imageUrls: input.imageUrls,
+          prompt: input.prompt,
+          imageSize: resolvedImageSize,
+          seed: input.seed,
+          model: input.model,
+        },
+        {
+          context: {
+            getFalClient: () => getFalClient(ctx),
+            model: input.model,
+          },
+          preferred: input.provider,
+        },
+      );
 
       if (result instanceof Error) {
         yield yieldError(generationId, result.message);
@@ -84,12 +91,11 @@ export const generateImageVariation = publicProcedure
 
       // Send the final image
       yield yieldComplete(generationId, {
+        ...(result.endpoint ? { endpoint: result.endpoint } : {}),
         imageUrl: result.imageUrl,
         provider: result.provider,
         ...(result.seed !== undefined ? { seed: result.seed } : {}),
-        ...(result.replicateUrl
-          ? { replicateUrl: result.replicateUrl }
-          : {}),
+        ...(result.replicateUrl ? { replicateUrl: result.replicateUrl } : {}),
       });
     } catch (error) {
       yield handleFalError(error, "Failed to generate image variation");
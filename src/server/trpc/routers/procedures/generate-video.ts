@@ -0,0 +1,153 @@
+import { extractVideoUrl, getFalClient } from "@/lib/fal/helpers";
+import type { ApiResponse } from "@/lib/fal/types";
+import { sanitizePrompt } from "@/lib/prompt-utils";
+import {
+  generateId,
+  yieldComplete,
+  yieldError,
+  yieldProgress,
+} from "@/lib/trpc/event-tracking";
+import {
+  reserveGenerationQuota,
+  type QuotaReservation,
+} from "@/lib/server/generation-quota";
+import { handleFalError } from "@/lib/trpc/error-handling";
+import { validateDuration } from "@/lib/validation";
+import { getVideoModelById } from "@/lib/video-models";
+import { z } from "zod";
+import { publicProcedure } from "../../init";
+
+/**
+ * Generates a video from a text prompt or from a source video.
+ *
+ * The model's category decides the input: text-to-video models take only the
+ * prompt, video-to-video models also take `videoUrl` and restyle or extend
+ * it. Image-to-video models go through generateImageToVideo instead. Only
+ * the settings a model declares in its options are sent to fal.
+ */
+export const generateVideo = publicProcedure
+  .input(
+    z.object({
+      aspectRatio: z.enum(["9:16", "16:9"]).optional(),
+      duration: z.union([z.number(), z.string()]).optional(),
+      modelId: z.string(),
+      prompt: z.string(),
+      resolution: z.enum(["720p", "1080p"]).optional(),
+      videoUrl: z.string().url().optional(),
+    }),
+  )
+  .subscription(async function* ({ input, signal: _signal, ctx }) {
+    let reservation: QuotaReservation | null = null;
+
+    try {
+      const falClient = await getFalClient(ctx, true);
+      const generationId = generateId("vid");
+
+      const model = getVideoModelById(input.modelId);
+
+      if (!model || model.category === "image-to-video") {
+        yield yieldError(
+          generationId,
+          `Unknown text-to-video or video-to-video model: ${input.modelId}`,
+        );
+        return;
+      }
+
+      const prompt = sanitizePrompt(input.prompt);
+      if (!prompt) {
+        yield yieldError(generationId, "A prompt is required");
+        return;
+      }
+
+      if (model.category === "video-to-video" && !input.videoUrl) {
+        yield yieldError(generationId, "A source video is required");
+        return;
+      }
+
+      yield yieldProgress(
+        generationId,
+        0,
+        model.category === "text-to-video"
+          ? "Starting text-to-video generation..."
+          : "Starting video-to-video generation...",
+        "start",
+      );
+
+      const resolvedDuration = validateDuration(
+        input.duration ?? (model.defaults.duration as string | undefined),
+        {
+          min: 1,
+          max: 60,
+          default: 4,
+        },
+      );
+
+      if (ctx.userId) {
+        const quotaResult = await reserveGenerationQuota({
+          duration: resolvedDuration,
+          endpoint: model.endpoint,
+          model: model.id,
+          resolution: input.resolution,
+          type: "video",
+        });
+
+        if (quotaResult instanceof Error) {
+          yield yieldError(generationId, quotaResult.message);
+          return;
+        }
+
+        reservation = quotaResult;
+      }
+
+      const falInput: Record<string, unknown> = { prompt };
+
+      if (model.options.aspectRatio) {
+        falInput.aspect_ratio =
+          input.aspectRatio || (model.defaults.aspectRatio as string);
+      }
+      if (model.options.duration) {
+        falInput.duration = resolvedDuration;
+      }
+      if (model.options.resolution) {
+        falInput.resolution =
+          input.resolution || (model.defaults.resolution as string);
+      }
+      if (model.category === "video-to-video") {
+        falInput.video_url = input.videoUrl;
+      }
+
+      yield yieldProgress(
+        generationId,
+        40,
+        "Generating video...",
+        "prompt_ready",
+      );
+
+      const result = (await falClient.subscribe(model.endpoint, {
+        input: falInput,
+      })) as ApiResponse;
+
+      yield yieldProgress(generationId, 100, "Video generation complete");
+
+      const videoUrl = extractVideoUrl(result);
+
+      if (!videoUrl) {
+        await reservation?.refund();
+        yield yieldError(generationId, "No video generated");
+        return;
+      }
+
+      const videoDuration =
+        result.data?.duration || result.duration || resolvedDuration;
+
+      await reservation?.commit();
+
+      yield yieldComplete(generationId, {
+        duration: videoDuration,
+        videoUrl,
+      });
+    } catch (error) {
+      await reservation?.refund();
+      yield handleFalError(error, "Failed to generate video");
+    }
+  });
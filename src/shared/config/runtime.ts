@@ -55,7 +55,7 @@ export const config = {
   imageGeneration: {
     defaultModel: IMAGE_MODELS.SEEDREAM,
     defaultVariationCount: 4,
-    maxVariationCount: 12,
+    maxVariationCount: 24,
     supportedModels: [IMAGE_MODELS.SEEDREAM, IMAGE_MODELS.NANO_BANANA] as const,
   },
 
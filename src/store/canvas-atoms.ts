@@ -4,7 +4,14 @@
  */
 
 import { atom } from "jotai";
-import type { PlacedImage, PlacedVideo } from "@/types/canvas";
+import type {
+  AnnotationTool,
+  PlacedAnnotation,
+  PlacedFrame,
+  PlacedImage,
+  PlacedVideo,
+} from "@/types/canvas";
+import type { SequenceClip } from "@/types/sequence";
 
 /**
  * Viewport configuration for canvas positioning and scaling
@@ -33,6 +40,21 @@ export const imagesAtom = atom<PlacedImage[]>([]);
  */
 export const videosAtom = atom<PlacedVideo[]>([]);
 
+/**
+ * Atom for text and shape annotations on the canvas
+ */
+export const annotationsAtom = atom<PlacedAnnotation[]>([]);
+
+/**
+ * Atom for the active annotation drawing tool
+ */
+export const annotationToolAtom = atom<AnnotationTool>("select");
+
+/**
+ * Atom for frames grouping images and videos on the canvas
+ */
+export const framesAtom = atom<PlacedFrame[]>([]);
+
 /**
  * Atom for currently selected element IDs
  */
@@ -60,3 +82,8 @@ export const canvasSizeAtom = atom<CanvasSize>({
  * Atom to track if canvas is ready for rendering
  */
 export const isCanvasReadyAtom = atom(false);
+
+/**
+ * Atom for the clips of the video sequence being edited, in playback order
+ */
+export const sequenceClipsAtom = atom<SequenceClip[]>([]);
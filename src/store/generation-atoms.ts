@@ -4,6 +4,12 @@
  */
 
 import { atom } from "jotai";
+import {
+  RAY_2_MODIFY_MODEL_ID,
+  SORA_2_TEXT_MODEL_ID,
+  type TextToVideoModelId,
+  type VideoToVideoModelId,
+} from "@/lib/video-models";
 import type {
   ActiveGeneration,
   ActiveVideoGeneration,
@@ -65,6 +71,20 @@ export const videoModelAtom = atom<
   "sora-2" | "sora-2-pro" | "veo-3.1" | "veo-3.1-pro"
 >("sora-2");
 
+/**
+ * Atom to track selected text-to-video model, used with nothing selected
+ */
+export const textToVideoModelAtom =
+  atom<TextToVideoModelId>(SORA_2_TEXT_MODEL_ID);
+
+/**
+ * Atom to track selected video-to-video model (restyle or extend), used with
+ * a video selected
+ */
+export const videoToVideoModelAtom = atom<VideoToVideoModelId>(
+  RAY_2_MODIFY_MODEL_ID,
+);
+
 /**
  * Atom to track selected video duration (4, 8, or 12 seconds)
  */
@@ -74,3 +94,9 @@ export const videoDurationAtom = atom<"4" | "8" | "12">("8");
  * Atom to track selected video resolution (auto, 720p, or 1080p)
  */
 export const videoResolutionAtom = atom<"auto" | "720p" | "1080p">("auto");
+
+/**
+ * Atom to track whether two selected images generate a clip from the left
+ * image (start frame) to the right one (end frame)
+ */
+export const isVideoEndFrameEnabledAtom = atom(false);
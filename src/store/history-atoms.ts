@@ -5,16 +5,24 @@
 
 import { atom } from "jotai";
 import type { HistoryState } from "@/types/canvas";
+import type { HistoryEntry } from "@/types/history";
 
 /**
- * Atom for history stack
+ * Atom for recorded history steps, oldest first
  */
-export const historyAtom = atom<HistoryState[]>([]);
+export const historyAtom = atom<HistoryEntry[]>([]);
 
 /**
- * Atom for current position in history
+ * Atom for the number of history steps currently applied
  */
-export const historyIndexAtom = atom(-1);
+export const historyIndexAtom = atom(0);
+
+/**
+ * Atom for the canvas state at the current history position.
+ * Null until the first step is recorded after a project loads, in which
+ * case the live canvas is the state at the current position.
+ */
+export const historyHeadAtom = atom<Required<HistoryState> | null>(null);
 
 /**
  * Derived atom to check if undo is available
@@ -25,5 +33,5 @@ export const canUndoAtom = atom((get) => get(historyIndexAtom) > 0);
  * Derived atom to check if redo is available
  */
 export const canRedoAtom = atom(
-  (get) => get(historyIndexAtom) < get(historyAtom).length - 1,
+  (get) => get(historyIndexAtom) < get(historyAtom).length,
 );
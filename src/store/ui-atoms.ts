@@ -5,7 +5,10 @@
 
 import { atom } from "jotai";
 import { atomWithStorage } from "jotai/utils";
+import { DEFAULT_MOOD_VECTOR } from "@/constants/mood-vector";
+import type { ImageVariationType } from "@/lib/api/variation-api-helper";
 import { IMAGE_MODELS, type ImageModelId } from "@/lib/image-models";
+import type { MoodVector } from "@/types/mood-vector";
 
 /**
  * Dialog visibility atoms
@@ -37,7 +40,7 @@ export const variationModeAtom = atom<"image" | "video">("image");
 
 /**
  * Generation count atom - controls number of variations
- * For images: can be 4, 8, or 12
+ * For images: 1 to 24
  * For videos: always 4
  */
 export const generationCountAtom = atom<number>(4);
@@ -48,17 +51,56 @@ export const generationCountAtom = atom<number>(4);
  * "director": AI-generated variations with director visual signatures via FIBO
  * "lighting": Random lighting scenario variations via FIBO
  * "weather": Random weather condition variations via FIBO
+ * "custom": Presets from the user's selected preset pack via FIBO
+ * "mood": Variations steered toward the mood vector set with the sliders via FIBO
  */
 export const imageVariationTypeAtom = atom<
   | "camera-angles"
   | "characters"
+  | "custom"
   | "director"
   | "emotions"
   | "lighting"
+  | "mood"
   | "storyline"
   | "weather"
 >("camera-angles");
 
+/**
+ * Selected custom preset pack atom - pack used for "custom" image variations
+ */
+export const selectedPresetPackIdAtom = atomWithStorage<string | null>(
+  "selectedPresetPackId",
+  null,
+);
+
+/**
+ * Picked presets atom - presets chosen by hand per image variation type,
+ * generated instead of a random selection
+ */
+export const pickedVariationItemsAtom = atom<
+  Partial<Record<ImageVariationType, string[]>>
+>({});
+
+/**
+ * Mood vector atom - target emotion intensities for "mood" image variations
+ */
+export const moodVectorAtom = atomWithStorage<MoodVector>(
+  "moodVector",
+  DEFAULT_MOOD_VECTOR,
+);
+
+/**
+ * Preset manager visibility atom - controls the custom preset packs dialog
+ */
+export const isPresetManagerOpenAtom = atom(false);
+
+/**
+ * Preset picker visibility atom - controls the dialog for picking image
+ * variation presets by hand
+ */
+export const isPresetPickerOpenAtom = atom(false);
+
 /**
  * Image model atom - controls which model to use for image variations
  * "seedream": Seedream v4 Edit (default)
@@ -75,7 +117,7 @@ export const imageModelAtom = atom<ImageModelId>(IMAGE_MODELS.SEEDREAM);
  * - Used by sync manager to queue changes when offline
  */
 export const isOnlineAtom = atom<boolean>(
-  typeof window !== "undefined" ? navigator.onLine : true
+  typeof window !== "undefined" ? navigator.onLine : true,
 );
 
 /**
@@ -90,10 +132,43 @@ export const isFiboAnalysisEnabledAtom = atom(false);
  */
 export const aiProviderAtom = atomWithStorage<"fal" | "replicate">(
   "aiProvider",
-  "fal"
+  "fal",
 );
 
 /**
  * Projects panel visibility atom - controls sidebar panel open/close state
  */
 export const isProjectsPanelOpenAtom = atom(true);
+
+/**
+ * History panel visibility atom - controls the undo history panel
+ */
+export const isHistoryPanelOpenAtom = atom(false);
+
+/**
+ * Lineage panel visibility atom - controls the source/variation lineage panel
+ */
+export const isLineagePanelOpenAtom = atom(false);
+
+/**
+ * Sequence panel visibility atom - controls the video sequence timeline
+ */
+export const isSequencePanelOpenAtom = atom(false);
+
+/**
+ * Structured prompt panel visibility atom - controls the FIBO structured
+ * prompt inspector
+ */
+export const isStructuredPromptPanelOpenAtom = atom(false);
+
+/**
+ * Lineage connector atom - draws lines from sources to their variations
+ * while the lineage panel is open
+ */
+export const showLineageConnectorsAtom = atom(false);
+
+/**
+ * Comment mode atom - clicks on the canvas place review comment pins
+ * instead of selecting, and resolved threads are shown
+ */
+export const isCommentModeAtom = atom(false);
@@ -5,6 +5,8 @@
  * including metadata for AI generation parameters and upload results.
  */
 
+import type { GenerationProvenance } from "@/types/canvas";
+
 /**
  * Type of asset stored in Convex.
  */
@@ -84,6 +86,12 @@ export interface Asset {
   /** Original URL before uploading to Convex (if applicable) */
   originalUrl?: string;
 
+  /** Asset IDs of the images this asset was generated from */
+  parentAssetIds?: string[];
+
+  /** Generation settings, for assets generated on the canvas */
+  provenance?: GenerationProvenance;
+
   /** Size of the file in bytes */
   sizeBytes: number;
 
@@ -1,4 +1,46 @@
 import { ImageModelId } from "@/lib/image-models";
+import type { VideoModelCategory } from "@/lib/video-models";
+import type { MoodVector } from "@/types/mood-vector";
+
+/**
+ * Settings an image was generated with, kept so it can be regenerated.
+ */
+export interface GenerationProvenance {
+  /** Model endpoint that produced the image */
+  endpoint?: string;
+  /** Requested output size in pixels */
+  imageSize?: { height: number; width: number };
+  /** Image model ID (e.g. "seedream") */
+  model?: string;
+  /** Final prompt sent to the model */
+  prompt: string;
+  /** Provider that served the request (e.g. "fal") */
+  provider?: string;
+  /** Seed reported by the provider; unset when the provider ignores seeds */
+  seed?: number;
+  /** Asset IDs of the reference images, when they were synced */
+  sourceAssetIds?: string[];
+  /** Reference image URLs sent to the model */
+  sourceImageUrls: string[];
+  /** Preset the image was generated from (e.g. a director name or custom preset) */
+  variationPreset?: string;
+  /** Variation type (e.g. "director", "custom") */
+  variationType?: string;
+  /**
+   * Generation pipeline: variation (edit) models, streaming image-to-image,
+   * or FIBO generation from a structured prompt
+   */
+  workflow: "fibo" | "image-to-image" | "variation";
+}
+
+/**
+ * Details reported by the server when an image generation completes.
+ */
+export interface GenerationCompleteDetails {
+  endpoint?: string;
+  provider?: string;
+  seed?: number;
+}
 
 export interface PlacedImage {
   assetId?: string;
@@ -7,6 +49,7 @@ export interface PlacedImage {
   character?: string;
   characterVariation?: string;
   characters?: string;
+  customPreset?: string;
   directorName?: string;
   displayAsThumbnail?: boolean;
   emotion?: string;
@@ -22,13 +65,19 @@ export interface PlacedImage {
   isLoading?: boolean;
   isSkeleton?: boolean;
   lightingScenario?: string;
+  /** Target mood vector of mood variations */
+  moodVector?: MoodVector;
   naturalHeight?: number;
   naturalWidth?: number;
   opacity?: number;
   /** Original FAL URL before any cropping/compression - highest quality source */
   originalFalUrl?: string;
   parentGroupId?: string;
+  /** Canvas IDs of the images this element was generated from */
+  parentIds?: string[];
   pixelatedSrc?: string;
+  /** Settings the image was generated with, for regeneration */
+  provenance?: GenerationProvenance;
   rotation: number;
   src: string;
   storyline?: string;
@@ -55,7 +104,68 @@ export interface PlacedVideo extends Omit<PlacedImage, "isGenerated"> {
   volume: number;
 }
 
+/**
+ * Geometry of a shape annotation.
+ */
+export type AnnotationShapeType = "arrow" | "ellipse" | "rectangle";
+
+/**
+ * Tool used to draw new annotations; "select" leaves the canvas in its
+ * normal pointer mode.
+ */
+export type AnnotationTool = "select" | "text" | AnnotationShapeType;
+
+/**
+ * Visual style shared by text and shape annotations.
+ */
+export interface AnnotationStyle {
+  /** Fill color (text color for text annotations) */
+  fill: string;
+  /** Font size in canvas pixels (text annotations only) */
+  fontSize?: number;
+  /** Stroke color */
+  stroke: string;
+  /** Stroke width in canvas pixels */
+  strokeWidth: number;
+}
+
+/**
+ * Text label or vector shape placed on the canvas.
+ *
+ * Annotations have no backing asset; they are persisted inline in the
+ * project's canvas state.
+ */
+export interface PlacedAnnotation {
+  height: number;
+  id: string;
+  rotation: number;
+  /** Shape geometry, set when type is "shape" */
+  shapeType?: AnnotationShapeType;
+  style: AnnotationStyle;
+  /** Label content, set when type is "text" */
+  text?: string;
+  type: "shape" | "text";
+  width: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Frame (artboard) grouping images and videos on the canvas.
+ *
+ * Members point at their frame through `parentGroupId`; the frame's bounds
+ * are derived from its members, so it always wraps them.
+ */
+export interface PlacedFrame {
+  id: string;
+  /** Whether members are hidden behind a title bar */
+  isCollapsed?: boolean;
+  title: string;
+}
+
 export interface HistoryState {
+  annotations?: PlacedAnnotation[]; // Optional for backward compatibility
+  frames?: PlacedFrame[]; // Optional for backward compatibility
   images: PlacedImage[];
   videos?: PlacedVideo[]; // Optional for backward compatibility
   selectedIds: string[];
@@ -123,6 +233,12 @@ export interface ActiveGeneration {
   model?: ImageModelId;
   /** Generation prompt describing the desired output */
   prompt: string;
+  /** Provider to request instead of the one selected in the UI */
+  provider?: string;
+  /** Seed for reproducible generation; the provider picks one when unset */
+  seed?: number;
+  /** Asset IDs of the reference images, recorded in the result's provenance */
+  sourceAssetIds?: string[];
   /** Current status of the generation process */
   status?: GenerationStatus;
   /** Use FIBO generation with structured prompts (prompt will be FIBO JSON) */
@@ -151,8 +267,14 @@ export interface ActiveVideoGeneration {
   aspectRatio?: "auto" | "9:16" | "16:9" | "1:1";
   /** Whether camera movement should be fixed or dynamic */
   cameraFixed?: boolean;
+  /** What the video is generated from; image-to-video when unset */
+  category?: VideoModelCategory;
   /** Video duration in seconds */
   duration?: number | string;
+  /** ID of the image the clip ends on, for start and end frame generation */
+  endImageId?: string;
+  /** End frame URL, for models that support start and end frames */
+  endImageUrl?: string;
   /** Source image URL for image-to-video generation */
   imageUrl?: string;
   /** Model-specific configuration parameters */
@@ -169,6 +291,10 @@ export interface ActiveVideoGeneration {
   seed?: number;
   /** ID of the source image used for generation */
   sourceImageId?: string;
+  /** ID of the source video, for video-to-video generation */
+  sourceVideoId?: string;
+  /** Source video URL, for video-to-video generation */
+  sourceVideoUrl?: string;
   /** Current status of the generation process */
   status?: GenerationStatus;
   /** Style preset identifier */
@@ -1,8 +1,13 @@
+import type { GenerationProvenance } from "@/types/canvas";
+import type { MoodVector } from "@/types/mood-vector";
+
 export interface GeneratedAssetMetadata {
   /** Camera angle directive for AI-generated camera angle variations */
   cameraAngle?: string;
   /** Character description for AI-generated character variations */
   characterVariation?: string;
+  /** Preset name for custom preset variations */
+  customPreset?: string;
   /** Director name for AI-generated director-style variations */
   directorName?: string;
   /** Video duration in seconds */
@@ -15,8 +20,14 @@ export interface GeneratedAssetMetadata {
   lightingScenario?: string;
   /** AI model used for generation */
   model?: string;
+  /** Target emotion intensities for mood variations */
+  moodVector?: MoodVector;
+  /** Asset IDs of the images the asset was generated from */
+  parentAssetIds?: string[];
   /** Text prompt used for generation */
   prompt?: string;
+  /** Full generation settings, used to regenerate the asset */
+  provenance?: GenerationProvenance;
   /** Random seed used for generation */
   seed?: number;
   /** Time progression label for storyline variations (e.g., "+1min", "+2h5m") */
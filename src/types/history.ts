@@ -0,0 +1,86 @@
+/**
+ * History type definitions for undo/redo.
+ *
+ * History is recorded as patches (element-level operations) between
+ * consecutive canvas states rather than full snapshots, so it stays small
+ * enough to keep in memory and persist with the project.
+ */
+
+import type {
+  PlacedAnnotation,
+  PlacedFrame,
+  PlacedImage,
+  PlacedVideo,
+} from "./canvas";
+
+/**
+ * Canvas collections tracked by history.
+ */
+export type HistoryElementKind = "annotations" | "frames" | "images" | "videos";
+
+/**
+ * Any element stored in a tracked collection.
+ */
+export type HistoryElement =
+  | PlacedAnnotation
+  | PlacedFrame
+  | PlacedImage
+  | PlacedVideo;
+
+/**
+ * A single element operation within a patch.
+ */
+export type HistoryElementChange =
+  | {
+      /** Element that was added */
+      element: HistoryElement;
+      /** Position of the element in the collection after the change */
+      index: number;
+      kind: HistoryElementKind;
+      op: "add";
+    }
+  | {
+      /** Element that was removed */
+      element: HistoryElement;
+      /** Position of the element in the collection before the change */
+      index: number;
+      kind: HistoryElementKind;
+      op: "remove";
+    }
+  | {
+      /** New values of the changed properties */
+      after: Record<string, unknown>;
+      /** Previous values of the changed properties */
+      before: Record<string, unknown>;
+      id: string;
+      kind: HistoryElementKind;
+      op: "update";
+    };
+
+/**
+ * Differences between two consecutive canvas states.
+ */
+export interface HistoryPatch {
+  /** Element additions, removals, and property updates */
+  changes: HistoryElementChange[];
+  /** Full ID order per collection, present only when layers were reordered */
+  order?: Partial<
+    Record<HistoryElementKind, { after: string[]; before: string[] }>
+  >;
+  /** Selection before and after the change */
+  selectedIds: { after: string[]; before: string[] };
+}
+
+/**
+ * Recorded step in a project's history.
+ */
+export interface HistoryEntry {
+  /** When the step was recorded (ms since epoch) */
+  createdAt: number;
+  /** Checkpoint name, set when the user marked this step */
+  label?: string;
+  /** Changes made by this step */
+  patch: HistoryPatch;
+  /** Monotonic position of the step within the project's history */
+  sequence: number;
+}
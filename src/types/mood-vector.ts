@@ -0,0 +1,25 @@
+/**
+ * Mood vector type definitions.
+ *
+ * A mood vector scores the eight emotion axes of an image's style signature
+ * from 0 (absent) to 100 (dominant). Mood variations steer an image toward a
+ * target vector set with the control panel sliders.
+ */
+
+/**
+ * An emotion axis of the style signature.
+ */
+export type MoodAxis =
+  | "awe"
+  | "melancholy"
+  | "mystery"
+  | "nostalgia"
+  | "romance"
+  | "serenity"
+  | "tension"
+  | "wonder";
+
+/**
+ * Intensity of every emotion axis, 0-100.
+ */
+export type MoodVector = Record<MoodAxis, number>;
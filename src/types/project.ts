@@ -5,6 +5,8 @@
  * saved state, thumbnails, and metadata for the UI.
  */
 
+import type { WorkspaceRole } from "./workspace";
+
 /**
  * Canvas element transform properties.
  */
@@ -20,7 +22,7 @@ export interface ElementTransform {
 }
 
 /**
- * Canvas element (image, video, text, or shape).
+ * Canvas element (image, video, text, shape, or frame).
  */
 export interface CanvasElement {
   /** Reference to asset ID in Convex assets table (replaces imageId/videoId) */
@@ -44,6 +46,9 @@ export interface CanvasElement {
   /** Unique element identifier */
   id: string;
 
+  /** Whether a frame element is collapsed to its title bar */
+  isCollapsed?: boolean;
+
   /** Video playback state */
   isPlaying?: boolean;
 
@@ -53,11 +58,34 @@ export interface CanvasElement {
   /** Original FAL URL before any cropping/compression - highest quality source for downloads */
   originalFalUrl?: string;
 
+  /** Frame element this image or video belongs to */
+  parentGroupId?: string;
+
+  /** Canvas IDs of the images this element was generated from */
+  parentIds?: string[];
+
+  /** Shape geometry for shape elements */
+  shapeType?: "arrow" | "ellipse" | "rectangle";
+
+  /** Fill, stroke, and font styling for text and shape elements */
+  style?: {
+    fill: string;
+    fontSize?: number;
+    stroke: string;
+    strokeWidth: number;
+  };
+
+  /** Label content for text elements */
+  text?: string;
+
+  /** Title for frame elements */
+  title?: string;
+
   /** Element transform (position, rotation, scale) */
   transform: ElementTransform;
 
   /** Element type */
-  type: "image" | "video" | "text" | "shape";
+  type: "image" | "video" | "text" | "shape" | "frame";
 
   /** Video volume (0.0 to 1.0) */
   volume?: number;
@@ -108,7 +136,8 @@ export interface CanvasState {
  * - canvasState contains the complete canvas snapshot
  * - thumbnailStorageId references a 300x200px preview image
  * - assetThumbnails maps assetId to thumbnail URLs (bandwidth optimization)
- * - userId links to the project owner for access control
+ * - userId links to the project creator; workspaceId and role control
+ *   access to shared projects
  */
 export interface Project {
   /** Convex document ID */
@@ -127,10 +156,14 @@ export interface Project {
   name: string;
   /** Convex storage ID for thumbnail image */
   thumbnailStorageId?: string;
+  /** Current user's role on the project (viewers cannot save changes) */
+  role?: WorkspaceRole;
   /** Timestamp when the project was last updated (ms since epoch) */
   updatedAt: number;
-  /** User ID of the project owner */
+  /** User ID of the project creator */
   userId: string;
+  /** Workspace the project is shared with (unset for personal projects) */
+  workspaceId?: string;
 }
 
 /**
@@ -145,6 +178,8 @@ export interface Project {
  * assetThumbnails maps asset IDs to small thumbnail URLs for preview cards.
  */
 export interface ProjectMetadata {
+  /** Timestamp when archived (ms since epoch), unset for active projects */
+  archivedAt?: number;
   /** Map of asset IDs to thumbnail URLs (for bandwidth optimization) */
   assetThumbnails?: Record<string, string>;
   /** Timestamp when created (ms since epoch) */
@@ -159,6 +194,8 @@ export interface ProjectMetadata {
   name: string;
   /** Public URL for thumbnail image */
   thumbnailUrl?: string;
+  /** Count of open review comment threads */
+  unresolvedCommentCount: number;
   /** Count of video elements in the project */
   videoCount: number;
 }
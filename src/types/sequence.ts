@@ -0,0 +1,50 @@
+/**
+ * Video sequence type definitions.
+ *
+ * A sequence strings canvas videos together into one edit, each clip
+ * trimmed to an in/out range and joined to the next by a cut or crossfade.
+ */
+
+/**
+ * How a clip hands over to the next one.
+ */
+export type SequenceTransition = "crossfade" | "cut";
+
+/**
+ * A trimmed video in a sequence.
+ */
+export interface SequenceClip {
+  /** Unique clip ID; a video can appear in a sequence more than once */
+  id: string;
+  /** Start of the used range, in seconds from the start of the video */
+  inPoint: number;
+  /** End of the used range, in seconds from the start of the video */
+  outPoint: number;
+  /** Transition into the next clip (ignored for the last clip) */
+  transition: SequenceTransition;
+  /** Canvas ID of the video */
+  videoId: string;
+}
+
+/**
+ * A clip placed on the sequence timeline.
+ */
+export interface SequenceSegment {
+  clip: SequenceClip;
+  /** Time the clip ends, in seconds from the start of the sequence */
+  end: number;
+  /** Length of the crossfade into the next clip, 0 for a cut */
+  fadeOut: number;
+  /** Time the clip starts, in seconds from the start of the sequence */
+  start: number;
+}
+
+/**
+ * Progress of a sequence render.
+ */
+export interface SequenceRenderProgress {
+  /** Frames encoded so far */
+  frame: number;
+  /** Frames in the sequence */
+  totalFrames: number;
+}
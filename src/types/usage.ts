@@ -0,0 +1,54 @@
+/**
+ * Usage history type definitions.
+ *
+ * Shapes returned by the usage history query and the per-dimension
+ * breakdowns shown on the usage page.
+ */
+
+import type { GenerationType } from "./subscription";
+
+/**
+ * A generated image or video in the usage history.
+ */
+export interface UsageGeneration {
+  assetId: string;
+  createdAt: number;
+  model?: string;
+  provider?: string;
+  type: GenerationType;
+  variationType?: string;
+}
+
+/**
+ * A quota reservation, refund or reset from the usage ledger.
+ */
+export interface UsageQuotaEvent {
+  count: number;
+  createdAt: number;
+  credits: number;
+  kind: "reservation" | "refund" | "reset";
+  model?: string;
+  projectId?: string;
+  type?: GenerationType;
+}
+
+/**
+ * Dimension the usage history can be broken down by.
+ */
+export type UsageDimension = "day" | "model" | "project" | "variationType";
+
+/**
+ * Generations and credits grouped under one value of a dimension.
+ */
+export interface UsageBreakdownRow {
+  /**
+   * Net credits charged (reservations minus refunds), undefined when the
+   * ledger does not record the dimension
+   */
+  credits?: number;
+  images: number;
+  /** Grouping key, e.g. a day ("2025-11-20") or model ID */
+  key: string;
+  label: string;
+  videos: number;
+}
@@ -0,0 +1,85 @@
+/**
+ * Variation preset type definitions.
+ *
+ * Custom presets are user-authored alternatives to the built-in variation
+ * lists (camera angles, lighting, directors, weather). Presets are grouped
+ * into packs that can be shared as JSON files. Presets picked by hand can be
+ * saved on a project as recipes.
+ */
+
+/**
+ * A single user-authored variation.
+ */
+export interface VariationPreset {
+  /** Directive text describing the variation to apply */
+  directive: string;
+
+  /** Short display name, shown as the label on generated images */
+  name: string;
+
+  /** Lowercase tags for filtering presets within a pack */
+  tags: string[];
+}
+
+/**
+ * A named collection of presets stored for a user.
+ */
+export interface VariationPresetPack {
+  /** Pack ID in the Convex variationPresetPacks table */
+  _id: string;
+
+  /** Timestamp when the pack was created (ms since epoch) */
+  createdAt: number;
+
+  /** Optional pack description */
+  description?: string;
+
+  /** Pack display name */
+  name: string;
+
+  /** Presets in the pack */
+  presets: VariationPreset[];
+
+  /** Timestamp when the pack was last updated (ms since epoch) */
+  updatedAt: number;
+}
+
+/**
+ * JSON file format used to share a pack.
+ */
+export interface VariationPresetPackFile {
+  /** Optional pack description */
+  description?: string;
+
+  /** Pack display name */
+  name: string;
+
+  /** Presets in the pack */
+  presets: VariationPreset[];
+
+  /** File format version */
+  version: 1;
+}
+
+/**
+ * Hand-picked presets saved on a project for reuse.
+ */
+export interface VariationRecipe {
+  /** Recipe ID in the Convex variationRecipes table */
+  _id: string;
+
+  /** Picked presets, in generation order */
+  items: string[];
+
+  /** Recipe display name */
+  name: string;
+
+  /** Timestamp when the recipe was last updated (ms since epoch) */
+  updatedAt: number;
+
+  /** Number of variations to generate */
+  variationCount: number;
+
+  /** Image variation type the presets belong to */
+  variationType: string;
+}
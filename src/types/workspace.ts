@@ -0,0 +1,32 @@
+/**
+ * Workspace type definitions.
+ *
+ * Workspaces let a team share projects, assets and a pooled generation
+ * quota.
+ */
+
+/**
+ * Role of a workspace member.
+ *
+ * - owner: manages members, invites and the team subscription
+ * - editor: creates and edits workspace projects
+ * - viewer: opens workspace projects read-only
+ */
+export type WorkspaceRole = "owner" | "editor" | "viewer";
+
+/**
+ * Display labels for workspace roles.
+ */
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  editor: "Editor",
+  owner: "Owner",
+  viewer: "Viewer",
+};
+
+/**
+ * Roles that can be granted through an invite or a role change.
+ */
+export const ASSIGNABLE_WORKSPACE_ROLES = ["editor", "viewer"] as const;
+
+export type AssignableWorkspaceRole =
+  (typeof ASSIGNABLE_WORKSPACE_ROLES)[number];
@@ -10,7 +10,12 @@
  * @module canvas-utils
  */
 
-import type { PlacedImage, PlacedVideo } from "@/types/canvas";
+import type {
+  PlacedAnnotation,
+  PlacedFrame,
+  PlacedImage,
+  PlacedVideo,
+} from "@/types/canvas";
 import type { CanvasElement } from "@/types/project";
 
 /**
@@ -31,6 +36,8 @@ export const imageToCanvasElement = (image: PlacedImage): CanvasElement => ({
   assetType: "image",
   id: image.id,
   originalFalUrl: image.originalFalUrl,
+  parentGroupId: image.parentGroupId,
+  parentIds: image.parentIds,
   type: "image",
   transform: {
     x: image.x,
@@ -65,6 +72,8 @@ export const videoToCanvasElement = (video: PlacedVideo): CanvasElement => ({
   id: video.id,
   isPlaying: video.isPlaying,
   muted: video.muted,
+  parentGroupId: video.parentGroupId,
+  parentIds: video.parentIds,
   transform: {
     x: video.x,
     y: video.y,
@@ -77,6 +86,109 @@ export const videoToCanvasElement = (video: PlacedVideo): CanvasElement => ({
   zIndex: 0,
 });
 
+/**
+ * Converts a PlacedAnnotation to storage format (CanvasElement).
+ *
+ * @param annotation - The text or shape annotation to convert
+ * @returns Canvas element in storage format
+ *
+ * @example
+ * ```typescript
+ * const label = { id: '1', type: 'text', text: 'Hero', x: 0, y: 0, ... };
+ * const element = annotationToCanvasElement(label);
+ * ```
+ */
+export const annotationToCanvasElement = (
+  annotation: PlacedAnnotation,
+): CanvasElement => ({
+  height: annotation.height,
+  id: annotation.id,
+  shapeType: annotation.shapeType,
+  style: annotation.style,
+  text: annotation.text,
+  transform: {
+    x: annotation.x,
+    y: annotation.y,
+    scale: 1,
+    rotation: annotation.rotation,
+  },
+  type: annotation.type,
+  width: annotation.width,
+  zIndex: 0,
+});
+
+/**
+ * Restores a PlacedAnnotation from a text or shape CanvasElement.
+ *
+ * @param element - Canvas element in storage format
+ * @returns The annotation, or null if the element is not a text or shape
+ */
+export const canvasElementToAnnotation = (
+  element: CanvasElement,
+): PlacedAnnotation | null => {
+  if (element.type !== "text" && element.type !== "shape") return null;
+
+  return {
+    height: element.height || 100,
+    id: element.id,
+    rotation: element.transform.rotation,
+    shapeType:
+      element.type === "shape" ? (element.shapeType ?? "rectangle") : undefined,
+    style: element.style ?? {
+      fill: "#ffffff",
+      stroke: "#ffffff",
+      strokeWidth: 2,
+    },
+    text: element.type === "text" ? (element.text ?? "") : undefined,
+    type: element.type,
+    width: element.width || 200,
+    x: element.transform.x,
+    y: element.transform.y,
+  };
+};
+
+/**
+ * Converts a PlacedFrame to storage format (CanvasElement).
+ *
+ * @param frame - The frame to convert
+ * @returns Canvas element in storage format
+ *
+ * @remarks
+ * Frame geometry is derived from its members, so the stored transform is a
+ * placeholder kept only to satisfy the element schema.
+ */
+export const frameToCanvasElement = (frame: PlacedFrame): CanvasElement => ({
+  id: frame.id,
+  isCollapsed: frame.isCollapsed,
+  title: frame.title,
+  transform: {
+    x: 0,
+    y: 0,
+    scale: 1,
+    rotation: 0,
+  },
+  type: "frame",
+  zIndex: 0,
+});
+
+/**
+ * Restores a PlacedFrame from a frame CanvasElement.
+ *
+ * @param element - Canvas element in storage format
+ * @returns The frame, or null if the element is not a frame
+ */
+export const canvasElementToFrame = (
+  element: CanvasElement,
+): PlacedFrame | null => {
+  if (element.type !== "frame") return null;
+
+  return {
+    id: element.id,
+    isCollapsed: element.isCollapsed,
+    title: element.title ?? "Frame",
+  };
+};
+
 /**
  * Calculates the centered placement for an image within the viewport.
  *
@@ -0,0 +1,187 @@
+import type { FiboStructuredPrompt } from "@/lib/adapters/fibo-to-analysis-adapter";
+import { IMAGE_MODELS } from "@/lib/image-models";
+import { getFiboAspectRatio } from "@/lib/utils/fibo-structured-prompt";
+import { fiboStructuredToText } from "@/lib/utils/fibo-to-text";
+import type {
+  ActiveGeneration,
+  GenerationCompleteDetails,
+  GenerationProvenance,
+  PlacedImage,
+} from "@/types/canvas";
+import { generateFiboSeed } from "./fibo-seed-generator";
+
+/**
+ * How a regeneration treats the original seed.
+ */
+export type RegenerateMode = "new-seed" | "same-settings";
+
+/**
+ * Variation labels that can name the preset an image was generated from,
+ * in priority order.
+ */
+type VariationLabels = Pick<
+  PlacedImage,
+  | "cameraAngle"
+  | "characterVariation"
+  | "customPreset"
+  | "directorName"
+  | "emotion"
+  | "lightingScenario"
+  | "storylineLabel"
+  | "surfaceMap"
+  | "variationType"
+  | "weather"
+>;
+
+/**
+ * Gets the preset label an image was generated from.
+ *
+ * @param labels - Variation labels of the generated image
+ * @returns The most specific label, or undefined for plain generations
+ */
+export function getVariationPreset(
+  labels: VariationLabels,
+): string | undefined {
+  return (
+    labels.customPreset ??
+    labels.directorName ??
+    labels.cameraAngle ??
+    labels.emotion ??
+    labels.characterVariation ??
+    labels.lightingScenario ??
+    labels.surfaceMap ??
+    labels.storylineLabel ??
+    labels.weather
+  );
+}
+
+/**
+ * Gets the synced asset IDs of the source images or videos of a generation.
+ *
+ * @param sources - Source images or videos
+ * @returns Asset IDs, or undefined when none of the sources are synced
+ */
+export function getSourceAssetIds(
+  sources: Pick<PlacedImage, "assetId">[],
+): string[] | undefined {
+  const assetIds = sources
+    .map((source) => source.assetId)
+    .filter((assetId): assetId is string => Boolean(assetId));
+
+  return assetIds.length > 0 ? assetIds : undefined;
+}
+
+/**
+ * Builds the provenance of a completed generation.
+ *
+ * @remarks
+ * Inline data URLs are dropped from the source list since they are too large
+ * to persist with the asset. Regeneration needs at least one remaining URL.
+ *
+ * @param generation - Active generation that produced the image
+ * @param details - Endpoint, provider and seed reported by the server
+ * @param labels - Variation labels of the generated image
+ */
+export function buildGenerationProvenance(
+  generation: ActiveGeneration,
+  details: GenerationCompleteDetails | undefined,
+  labels: VariationLabels,
+): GenerationProvenance {
+  const sourceImageUrls = (
+    generation.imageUrls ?? [generation.imageUrl]
+  ).filter((url) => url && !url.startsWith("data:"));
+
+  return {
+    endpoint: details?.endpoint,
+    imageSize:
+      typeof generation.imageSize === "object"
+        ? generation.imageSize
+        : undefined,
+    model: generation.model,
+    prompt: generation.prompt,
+    provider: details?.provider ?? generation.provider,
+    seed: details?.seed ?? generation.seed,
+    sourceAssetIds: generation.sourceAssetIds,
+    sourceImageUrls,
+    variationPreset: getVariationPreset(labels),
+    variationType: labels.variationType,
+    workflow: generation.useFibo
+      ? "fibo"
+      : generation.isVariation
+        ? "variation"
+        : "image-to-image",
+  };
+}
+
+/**
+ * Checks whether an image can be regenerated from its provenance.
+ */
+export function canRegenerate(image: PlacedImage | undefined): boolean {
+  return Boolean(image?.provenance?.sourceImageUrls.length);
+}
+
+/**
+ * Builds an active generation that repeats a previous one.
+ *
+ * @param provenance - Provenance of the image to regenerate
+ * @param mode - Reuse the recorded seed, or pick a new one
+ */
+export function createRegeneration(
+  provenance: GenerationProvenance,
+  mode: RegenerateMode,
+): ActiveGeneration {
+  // Provenance is loaded from storage, so only pass models that still exist
+  const model = Object.values(IMAGE_MODELS).find(
+    (modelId) => modelId === provenance.model,
+  );
+
+  const useFibo = provenance.workflow === "fibo";
+
+  return {
+    fiboAspectRatio:
+      useFibo && provenance.imageSize
+        ? getFiboAspectRatio(
+            provenance.imageSize.width,
+            provenance.imageSize.height,
+          )
+        : undefined,
+    imageSize: provenance.imageSize,
+    imageUrl: provenance.sourceImageUrls[0],
+    imageUrls: provenance.sourceImageUrls,
+    isVariation: provenance.workflow !== "image-to-image",
+    model,
+    prompt: provenance.prompt,
+    provider: provenance.provider,
+    seed: mode === "same-settings" ? provenance.seed : generateFiboSeed(),
+    sourceAssetIds: provenance.sourceAssetIds,
+    useFibo: useFibo || undefined,
+  };
+}
+
+/**
+ * Builds an active generation that renders an edited structured prompt with
+ * FIBO, from the same sources and seed as the original image.
+ *
+ * @param provenance - Provenance of the image the prompt was taken from
+ * @param structuredPrompt - Edited FIBO structured prompt
+ * @param imageSize - Size of the original image, for the aspect ratio
+ */
+export function createStructuredPromptGeneration(
+  provenance: GenerationProvenance,
+  structuredPrompt: FiboStructuredPrompt,
+  imageSize: { height: number; width: number },
+): ActiveGeneration {
+  return {
+    fiboAspectRatio: getFiboAspectRatio(imageSize.width, imageSize.height),
+    imageSize,
+    imageUrl: provenance.sourceImageUrls[0],
+    imageUrls: provenance.sourceImageUrls,
+    isVariation: true,
+    prompt: fiboStructuredToText(
+      structuredPrompt as unknown as Record<string, unknown>,
+    ),
+    seed: provenance.seed,
+    sourceAssetIds: provenance.sourceAssetIds,
+    useFibo: true,
+  };
+}
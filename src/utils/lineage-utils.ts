@@ -0,0 +1,128 @@
+import type { PlacedImage } from "@/types/canvas";
+
+/**
+ * Canvas element that can take part in a lineage graph.
+ */
+type LineageElement = Pick<PlacedImage, "id" | "parentIds">;
+
+/**
+ * Parent and child links between elements on the canvas.
+ */
+export interface LineageIndex {
+  /** Element ID to IDs of the elements generated from it */
+  childrenById: Map<string, string[]>;
+  /** Element ID to IDs of the elements it was generated from */
+  parentsById: Map<string, string[]>;
+}
+
+/**
+ * A source-to-variation edge.
+ */
+export interface LineageLink {
+  childId: string;
+  parentId: string;
+}
+
+/**
+ * Builds the lineage graph of the elements on the canvas.
+ *
+ * @remarks
+ * Links to parents that are no longer on the canvas are dropped, so deleted
+ * sources do not leave dangling edges.
+ *
+ * @param elements - Images and videos on the canvas
+ */
+export function buildLineageIndex(elements: LineageElement[]): LineageIndex {
+  const ids = new Set(elements.map((element) => element.id));
+  const childrenById = new Map<string, string[]>();
+  const parentsById = new Map<string, string[]>();
+
+  for (const element of elements) {
+    const parentIds = (element.parentIds ?? []).filter(
+      (parentId) => parentId !== element.id && ids.has(parentId),
+    );
+    if (parentIds.length === 0) continue;
+
+    parentsById.set(element.id, parentIds);
+    for (const parentId of parentIds) {
+      childrenById.set(parentId, [
+        ...(childrenById.get(parentId) ?? []),
+        element.id,
+      ]);
+    }
+  }
+
+  return { childrenById, parentsById };
+}
+
+/**
+ * Walks the graph breadth-first from an element, excluding the element itself.
+ */
+function collectReachable(
+  edges: Map<string, string[]>,
+  startId: string,
+): Set<string> {
+  const reached = new Set<string>();
+  const queue = [...(edges.get(startId) ?? [])];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (id === startId || reached.has(id)) continue;
+    reached.add(id);
+    queue.push(...(edges.get(id) ?? []));
+  }
+
+  return reached;
+}
+
+/**
+ * Gets every element an element was derived from, directly or indirectly.
+ */
+export function getAncestorIds(index: LineageIndex, id: string): Set<string> {
+  return collectReachable(index.parentsById, id);
+}
+
+/**
+ * Gets every element derived from an element, directly or indirectly.
+ */
+export function getDescendantIds(index: LineageIndex, id: string): Set<string> {
+  return collectReachable(index.childrenById, id);
+}
+
+/**
+ * Gets the original sources of an element's lineage.
+ *
+ * @returns IDs of the ancestors that have no parents, or the element itself
+ * when it has none
+ */
+export function getLineageRootIds(index: LineageIndex, id: string): string[] {
+  const roots = [...getAncestorIds(index, id)].filter(
+    (ancestorId) => !index.parentsById.has(ancestorId),
+  );
+
+  return roots.length > 0 ? roots : [id];
+}
+
+/**
+ * Gets the edges between a set of elements.
+ *
+ * @param index - Lineage graph
+ * @param ids - Elements whose connecting edges to return
+ */
+export function getLineageLinks(
+  index: LineageIndex,
+  ids: Set<string>,
+): LineageLink[] {
+  const links: LineageLink[] = [];
+
+  for (const [childId, parentIds] of index.parentsById) {
+    if (!ids.has(childId)) continue;
+    for (const parentId of parentIds) {
+      if (ids.has(parentId)) {
+        links.push({ childId, parentId });
+      }
+    }
+  }
+
+  return links;
+}
@@ -0,0 +1,87 @@
+import { MOOD_AXES, MOOD_VARIATION_SPREAD } from "@/constants/mood-vector";
+import type { MoodVector } from "@/types/mood-vector";
+
+/**
+ * Number of strongest axes named in an image's mood label
+ */
+const LABEL_AXIS_COUNT = 2;
+
+/**
+ * Clamps an axis intensity to a whole number between 0 and 100.
+ */
+function clampIntensity(value: number): number {
+  return Math.min(100, Math.max(0, Math.round(value)));
+}
+
+/**
+ * Formats a mood vector as a variation item sent to the variations API.
+ *
+ * @param vector - Mood vector to format
+ * @returns Item in "awe 80, melancholy 20, ..." form, in slider order
+ */
+export function formatMoodVectorItem(vector: MoodVector): string {
+  return MOOD_AXES.map(({ axis }) => `${axis} ${vector[axis]}`).join(", ");
+}
+
+/**
+ * Parses a variation item back into a mood vector.
+ *
+ * @param item - Item created by formatMoodVectorItem
+ * @returns The mood vector, or null when an axis is missing
+ */
+export function parseMoodVectorItem(item: string): MoodVector | null {
+  const vector: Partial<MoodVector> = {};
+
+  for (const { axis } of MOOD_AXES) {
+    const match = item.match(new RegExp(`\\b${axis} (\\d{1,3})\\b`));
+    if (!match) return null;
+    vector[axis] = clampIntensity(Number(match[1]));
+  }
+
+  return vector as MoodVector;
+}
+
+/**
+ * Creates the target vectors of a mood variation batch.
+ *
+ * The first variation uses the target as set; the others move every axis by
+ * up to MOOD_VARIATION_SPREAD so the batch explores the area around it.
+ *
+ * @param target - Mood vector set with the sliders
+ * @param count - Number of variations
+ * @returns One mood vector per variation
+ *
+ * @example
+ * ```typescript
+ * const [exact, ...nearby] = selectMoodVectorTargets(moodVector, 4);
+ * ```
+ */
+export function selectMoodVectorTargets(
+  target: MoodVector,
+  count: number,
+): MoodVector[] {
+  return Array.from({ length: Math.max(0, count) }, (_, index) => {
+    const vector = { ...target };
+    if (index === 0) return vector;
+
+    for (const { axis } of MOOD_AXES) {
+      const offset = (Math.random() * 2 - 1) * MOOD_VARIATION_SPREAD;
+      vector[axis] = clampIntensity(target[axis] + offset);
+    }
+    return vector;
+  });
+}
+
+/**
+ * Gets the label of an image generated toward a mood vector.
+ *
+ * @param vector - Target mood vector of the image
+ * @returns Strongest axes with their intensities, e.g. "Awe 80 · Wonder 72"
+ */
+export function getMoodVectorLabel(vector: MoodVector): string {
+  return [...MOOD_AXES]
+    .sort((a, b) => vector[b.axis] - vector[a.axis])
+    .slice(0, LABEL_AXIS_COUNT)
+    .map(({ axis, label }) => `${label} ${vector[axis]}`)
+    .join(" · ");
+}
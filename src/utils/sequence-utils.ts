@@ -0,0 +1,186 @@
+import type { PlacedImage, PlacedVideo } from "@/types/canvas";
+import type {
+  SequenceClip,
+  SequenceSegment,
+  SequenceTransition,
+} from "@/types/sequence";
+
+/**
+ * Sequence editing constants
+ */
+export const SEQUENCE_CONSTANTS = {
+  /** Length of a crossfade in seconds */
+  CROSSFADE_SECONDS: 0.5,
+  /** Shortest clip the trim controls allow, in seconds */
+  MIN_CLIP_SECONDS: 0.2,
+  /** Transition used between newly added clips */
+  DEFAULT_TRANSITION: "cut" as SequenceTransition,
+} as const;
+
+/**
+ * Seconds per unit in storyline time labels such as "+1min" or "+2h5m".
+ */
+const TIME_LABEL_UNITS: Record<string, number> = {
+  d: 86_400,
+  h: 3_600,
+  m: 60,
+  min: 60,
+  s: 1,
+};
+
+/**
+ * Parses a storyline time label into elapsed seconds.
+ *
+ * @param label - Label such as "+1min", "+2h5m" or "Now"
+ * @returns Elapsed seconds, or null when the label carries no time
+ */
+export function parseStorylineTimeLabel(label: string): number | null {
+  if (/^\s*(now|start|\+?0)\s*$/i.test(label)) return 0;
+
+  const matches = [...label.matchAll(/(\d+(?:\.\d+)?)\s*(min|d|h|m|s)/gi)];
+  if (matches.length === 0) return null;
+
+  return matches.reduce(
+    (total, [, amount, unit]) =>
+      total + Number(amount) * TIME_LABEL_UNITS[unit.toLowerCase()],
+    0,
+  );
+}
+
+/**
+ * Gets the storyline beat label of a video: its own label, or that of the
+ * storyline image it was made from.
+ */
+export function getStorylineBeatLabel(
+  video: PlacedVideo,
+  imagesById: Map<string, PlacedImage>,
+): string | undefined {
+  if (video.storylineLabel) return video.storylineLabel;
+
+  const sourceId = video.sourceImageId ?? video.parentIds?.[0];
+  return sourceId ? imagesById.get(sourceId)?.storylineLabel : undefined;
+}
+
+/**
+ * Orders videos by storyline beat.
+ *
+ * @remarks
+ * - Videos with a storyline time label come first, earliest beat first
+ * - Videos without one follow in canvas reading order (top to bottom, then
+ *   left to right), which also breaks ties between equal beats
+ * - Videos still generating or without a source are left out
+ *
+ * @param videos - Videos on the canvas
+ * @param images - Images on the canvas, to look up source storyline beats
+ */
+export function orderVideosByStoryline(
+  videos: PlacedVideo[],
+  images: PlacedImage[],
+): PlacedVideo[] {
+  const imagesById = new Map(images.map((image) => [image.id, image]));
+
+  const beats = videos
+    .filter((video) => video.src && !video.isLoading && !video.isGenerating)
+    .map((video) => {
+      const label = getStorylineBeatLabel(video, imagesById);
+      return {
+        elapsed: label ? parseStorylineTimeLabel(label) : null,
+        video,
+      };
+    });
+
+  return beats
+    .sort((a, b) => {
+      if (a.elapsed !== b.elapsed) {
+        if (a.elapsed === null) return 1;
+        if (b.elapsed === null) return -1;
+        return a.elapsed - b.elapsed;
+      }
+
+      // Rows are compared by their top edge, rounded to absorb small offsets
+      const rowDelta = Math.round(a.video.y / 50) - Math.round(b.video.y / 50);
+      return rowDelta !== 0 ? rowDelta : a.video.x - b.video.x;
+    })
+    .map((beat) => beat.video);
+}
+
+/**
+ * Creates an untrimmed clip for a video.
+ */
+export function createSequenceClip(video: PlacedVideo): SequenceClip {
+  return {
+    id: `clip-${video.id}-${crypto.randomUUID()}`,
+    inPoint: 0,
+    outPoint: video.duration,
+    transition: SEQUENCE_CONSTANTS.DEFAULT_TRANSITION,
+    videoId: video.id,
+  };
+}
+
+/**
+ * Clamps a clip's in/out points to the video's duration, keeping at least
+ * the minimum clip length between them.
+ *
+ * @param clip - Clip with the requested in/out points
+ * @param duration - Duration of the clip's video in seconds
+ */
+export function clampClipTrim(
+  clip: SequenceClip,
+  duration: number,
+): SequenceClip {
+  const minLength = Math.min(SEQUENCE_CONSTANTS.MIN_CLIP_SECONDS, duration);
+  const inPoint = Math.min(Math.max(0, clip.inPoint), duration - minLength);
+  const outPoint = Math.min(
+    Math.max(inPoint + minLength, clip.outPoint),
+    duration,
+  );
+
+  return { ...clip, inPoint, outPoint };
+}
+
+/**
+ * Lays clips out on the sequence timeline.
+ *
+ * @remarks
+ * A crossfade overlaps the end of a clip with the start of the next one, so
+ * it shortens the sequence by its length. Crossfades never take more than
+ * half of either clip.
+ *
+ * @param clips - Clips in playback order
+ * @returns Segments in playback order and the total length in seconds
+ */
+export function getSequenceTimeline(clips: SequenceClip[]): {
+  duration: number;
+  segments: SequenceSegment[];
+} {
+  const segments: SequenceSegment[] = [];
+  let start = 0;
+
+  clips.forEach((clip, index) => {
+    const length = clip.outPoint - clip.inPoint;
+    const next = clips[index + 1];
+    const fadeOut =
+      next && clip.transition === "crossfade"
+        ? Math.min(
+            SEQUENCE_CONSTANTS.CROSSFADE_SECONDS,
+            length / 2,
+            (next.outPoint - next.inPoint) / 2,
+          )
+        : 0;
+
+    segments.push({ clip, end: start + length, fadeOut, start });
+    start += length - fadeOut;
+  });
+
+  const last = segments[segments.length - 1];
+  return { duration: last ? last.end : 0, segments };
+}
+
+/**
+ * Formats seconds as m:ss.s for the timeline.
+ */
+export function formatSequenceTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const remainder = (seconds - minutes * 60).toFixed(1).padStart(4, "0");
+  return `${minutes}:${remainder}`;
+}
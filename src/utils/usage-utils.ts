@@ -0,0 +1,232 @@
+import type {
+  UsageBreakdownRow,
+  UsageDimension,
+  UsageGeneration,
+  UsageQuotaEvent,
+} from "@/types/usage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Label for generations and events missing the grouped value.
+ */
+const UNKNOWN_LABELS: Record<Exclude<UsageDimension, "day">, string> = {
+  model: "Unknown model",
+  project: "No project",
+  variationType: "Single image",
+};
+
+/**
+ * Gets the local calendar day of a timestamp.
+ *
+ * @returns Day key in YYYY-MM-DD format
+ */
+export function getDayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Gets the start of the local day a number of days before a timestamp.
+ *
+ * @param days - Days to go back, including the day of the timestamp
+ * @param now - Reference timestamp
+ */
+export function getRangeStart(days: number, now: number): number {
+  const start = new Date(now - (days - 1) * DAY_MS);
+  start.setHours(0, 0, 0, 0);
+  return start.getTime();
+}
+
+/**
+ * Lists the day keys from a start timestamp up to and including today.
+ */
+function getDayKeys(since: number, now: number): string[] {
+  const keys: string[] = [];
+  const date = new Date(since);
+  date.setHours(0, 0, 0, 0);
+
+  // Step by calendar day so daylight saving changes do not skip a day
+  while (date.getTime() <= now) {
+    keys.push(getDayKey(date.getTime()));
+    date.setDate(date.getDate() + 1);
+  }
+
+  return keys;
+}
+
+/**
+ * Gets the grouping key of a generation or quota event.
+ *
+ * @returns The key, or undefined when the event does not record the dimension
+ */
+function getKey(
+  item: UsageGeneration | UsageQuotaEvent,
+  dimension: UsageDimension,
+): string | undefined {
+  switch (dimension) {
+    case "day":
+      return getDayKey(item.createdAt);
+    case "model":
+      return item.model ?? "";
+    case "project":
+      return "projectId" in item ? (item.projectId ?? "") : undefined;
+    case "variationType":
+      return "variationType" in item ? (item.variationType ?? "") : undefined;
+  }
+}
+
+/**
+ * Groups generations and credits by a dimension.
+ *
+ * @remarks
+ * Day rows cover every day of the range in order, including days without
+ * generations. Other rows are sorted by the number of generations.
+ * Generated assets do not record their project, so project rows count the
+ * items reserved in the usage ledger, net of refunds.
+ *
+ * @param generations - Generated images and videos
+ * @param events - Quota events from the usage ledger
+ * @param dimension - Dimension to group by
+ * @param options - Range start and end for day rows, and project names
+ */
+export function buildUsageBreakdown(
+  generations: UsageGeneration[],
+  events: UsageQuotaEvent[],
+  dimension: UsageDimension,
+  options: {
+    now: number;
+    projectNames: Map<string, string>;
+    since: number;
+  },
+): UsageBreakdownRow[] {
+  const getLabel = (key: string) => {
+    if (dimension === "day") return key;
+    if (!key) return UNKNOWN_LABELS[dimension];
+    if (dimension === "project") {
+      return options.projectNames.get(key) ?? "Deleted project";
+    }
+    return key;
+  };
+
+  const rows = new Map<string, UsageBreakdownRow>();
+  const getRow = (key: string) => {
+    let row = rows.get(key);
+    if (!row) {
+      row = { images: 0, key, label: getLabel(key), videos: 0 };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  if (dimension === "day") {
+    for (const key of getDayKeys(options.since, options.now)) {
+      getRow(key);
+    }
+  }
+
+  const countsFromLedger = dimension === "project";
+
+  if (!countsFromLedger) {
+    for (const generation of generations) {
+      const row = getRow(getKey(generation, dimension) ?? "");
+      if (generation.type === "image") {
+        row.images++;
+      } else {
+        row.videos++;
+      }
+    }
+  }
+
+  if (dimension !== "variationType") {
+    for (const row of rows.values()) {
+      row.credits = 0;
+    }
+
+    for (const event of events) {
+      if (event.kind === "reset") continue;
+
+      const row = getRow(getKey(event, dimension) ?? "");
+      const sign = event.kind === "refund" ? -1 : 1;
+      row.credits = (row.credits ?? 0) + sign * event.credits;
+
+      if (countsFromLedger && event.type === "image") {
+        row.images += sign * event.count;
+      } else if (countsFromLedger && event.type === "video") {
+        row.videos += sign * event.count;
+      }
+    }
+  }
+
+  const result = [...rows.values()];
+  return dimension === "day"
+    ? result.sort((a, b) => a.key.localeCompare(b.key))
+    : result.sort((a, b) => b.images + b.videos - (a.images + a.videos));
+}
+
+/**
+ * Escapes a value for a CSV cell.
+ */
+function toCsvCell(value: string | number | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes generations to CSV, one row per generated image or video.
+ *
+ * @param generations - Generated images and videos
+ */
+export function serializeUsageCsv(generations: UsageGeneration[]): string {
+  const header = [
+    "created_at",
+    "day",
+    "type",
+    "model",
+    "provider",
+    "variation_type",
+    "asset_id",
+  ];
+  const rows = [...generations]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map((generation) => [
+      new Date(generation.createdAt).toISOString(),
+      getDayKey(generation.createdAt),
+      generation.type,
+      generation.model,
+      generation.provider,
+      generation.variationType,
+      generation.assetId,
+    ]);
+
+  return [header, ...rows]
+    .map((row) => row.map(toCsvCell).join(","))
+    .join("\n");
+}
+
+/**
+ * Downloads generations as a CSV file.
+ *
+ * @param generations - Generated images and videos
+ * @param filename - Name of the downloaded file
+ */
+export function downloadUsageCsv(
+  generations: UsageGeneration[],
+  filename: string,
+): void {
+  const blob = new Blob([`${serializeUsageCsv(generations)}\n`], {
+    type: "text/csv",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+
+  document.body.appendChild(link);
+  link.click();
+
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,140 @@
+import type {
+  VariationPreset,
+  VariationPresetPack,
+  VariationPresetPackFile,
+} from "@/types/variation-preset";
+import { z } from "zod";
+import { shuffleArray } from "./random-selection-utils";
+
+/**
+ * Separator between a preset's name and directive in variation items,
+ * matching the "NAME — description" format of the built-in lists.
+ */
+const PRESET_ITEM_SEPARATOR = " — ";
+
+/**
+ * Schema for a shared pack file. Limits are enforced again server-side.
+ */
+const presetPackFileSchema = z.object({
+  description: z.string().optional(),
+  name: z.string().min(1),
+  presets: z
+    .array(
+      z.object({
+        directive: z.string().min(1),
+        name: z.string().min(1),
+        tags: z.array(z.string()).default([]),
+      }),
+    )
+    .min(1),
+  version: z.literal(1),
+});
+
+/**
+ * Formats a preset as a variation item sent to the variations API.
+ *
+ * @param preset - Preset to format
+ * @returns Item in "NAME — directive" form
+ */
+export function formatPresetItem(preset: VariationPreset): string {
+  return `${preset.name}${PRESET_ITEM_SEPARATOR}${preset.directive}`;
+}
+
+/**
+ * Randomly selects presets for a variation batch.
+ *
+ * Presets are unique within a batch until the pack is exhausted; larger
+ * batches repeat the pack in a new random order.
+ *
+ * @param presets - Presets to select from
+ * @param count - Number of presets to select
+ * @returns Randomly selected presets
+ *
+ * @example
+ * ```typescript
+ * // Pack with 3 presets, 4 variations: all 3 presets plus one repeat
+ * const selected = selectRandomPresets(pack.presets, 4);
+ * ```
+ */
+export function selectRandomPresets(
+  presets: readonly VariationPreset[],
+  count: number,
+): VariationPreset[] {
+  if (presets.length === 0 || count <= 0) {
+    return [];
+  }
+
+  const selected: VariationPreset[] = [];
+  while (selected.length < count) {
+    selected.push(...shuffleArray([...presets]));
+  }
+
+  return selected.slice(0, count);
+}
+
+/**
+ * Serializes a pack to the shareable JSON file format.
+ *
+ * @param pack - Pack to export
+ * @returns Pretty-printed JSON
+ */
+export function serializePresetPack(pack: VariationPresetPack): string {
+  const file: VariationPresetPackFile = {
+    description: pack.description,
+    name: pack.name,
+    presets: pack.presets.map(({ directive, name, tags }) => ({
+      directive,
+      name,
+      tags,
+    })),
+    version: 1,
+  };
+
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parses a shared pack file.
+ *
+ * @param json - Contents of the pack file
+ * @returns Parsed pack, or an Error describing why the file is invalid
+ */
+export function parsePresetPack(json: string): VariationPresetPackFile | Error {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return new Error("File is not valid JSON");
+  }
+
+  const result = presetPackFileSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return new Error(
+      `Invalid preset pack: ${issue.path.join(".") || "file"} ${issue.message}`,
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Downloads a pack as a JSON file.
+ *
+ * @param pack - Pack to export
+ */
+export function downloadPresetPack(pack: VariationPresetPack): void {
+  const blob = new Blob([serializePresetPack(pack)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${pack.name.replace(/[^a-z0-9-_]+/gi, "-").toLowerCase()}.presets.json`;
+
+  document.body.appendChild(link);
+  link.click();
+
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -43,6 +43,75 @@ export const getVideoDuration = async (videoUrl: string): Promise<number> => {
   });
 };
 
+/**
+ * How far before the end the last frame is read from, in seconds. Browsers
+ * do not reliably decode a frame at the exact end of a video.
+ */
+const LAST_FRAME_OFFSET_SECONDS = 0.05;
+
+/**
+ * Extracts the first or last frame of a video as a PNG data URL.
+ * Creates a temporary video element, seeks it and draws the frame to a canvas.
+ *
+ * @param videoUrl - URL of the video; must allow CORS so the canvas is readable
+ * @param position - Which frame to extract
+ * @returns Promise that resolves to the frame as a PNG data URL
+ *
+ * @example
+ * ```typescript
+ * const lastFrame = await extractVideoFrame(video.src, 'last');
+ * ```
+ */
+export const extractVideoFrame = async (
+  videoUrl: string,
+  position: "first" | "last",
+): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement("video");
+    video.crossOrigin = "anonymous";
+    video.muted = true;
+    video.preload = "auto";
+    video.src = videoUrl;
+
+    video.onloadeddata = () => {
+      video.currentTime =
+        position === "first"
+          ? 0
+          : Math.max(0, video.duration - LAST_FRAME_OFFSET_SECONDS);
+    };
+
+    video.onseeked = () => {
+      try {
+        const canvas = document.createElement("canvas");
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+
+        const context = canvas.getContext("2d");
+        if (!context) {
+          throw new Error("Canvas 2D context is unavailable");
+        }
+
+        context.drawImage(video, 0, 0);
+        resolve(canvas.toDataURL("image/png"));
+      } catch (error) {
+        reject(error);
+      } finally {
+        // Clean up
+        video.onerror = null;
+        video.pause();
+        video.removeAttribute("src");
+        video.load();
+      }
+    };
+
+    video.onerror = () => {
+      reject(new Error("Error loading video for frame extraction"));
+    };
+
+    video.load();
+  });
+};
+
 /**
  * Creates a new PlacedVideo object with default playback settings.
  *
@@ -225,6 +294,7 @@ export const convertImageToVideo = (
       image.height,
       duration,
     ),
+    parentIds: [image.id],
     sourceImageId: image.id,
   };
 };